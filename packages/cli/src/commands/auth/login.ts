@@ -2,6 +2,9 @@
  * `hacienda auth login` command.
  *
  * Authenticates with the Hacienda IDP and saves the profile to config.
+ * With `--save-secret`, the password and the .p12 PIN are stored in the
+ * encrypted credential vault under the profile name. The PIN is taken
+ * from `HACIENDA_P12_PIN` or prompted for, never from the command line.
  *
  * @module commands/auth/login
  */
@@ -15,9 +18,12 @@ import {
   IdType,
   saveConfig,
   ensureConfigDir,
+  saveProfileSecrets,
+  resolveVaultPassphrase,
 } from "@dojocoding/hacienda-sdk";
 import type { Profile } from "@dojocoding/hacienda-sdk";
 import { success, error, detail, outputJson } from "../../utils/format.js";
+import { promptHidden } from "../../utils/prompt.js";
 
 export const loginCommand = defineCommand({
   meta: {
@@ -50,6 +56,12 @@ export const loginCommand = defineCommand({
       description: "Profile name to save as",
       default: "default",
     },
+    "save-secret": {
+      type: "boolean",
+      description:
+        "Store the password and .p12 PIN (HACIENDA_P12_PIN or prompt) in the encrypted vault (passphrase from HACIENDA_VAULT_PASSPHRASE or prompt)",
+      default: false,
+    },
     json: {
       type: "boolean",
       description: "Output as JSON",
@@ -125,6 +137,18 @@ export const loginCommand = defineCommand({
       };
       await saveConfig(profile, profileName);
 
+      if (args["save-secret"]) {
+        const passphrase = resolveVaultPassphrase() ?? (await promptPassphrase());
+        const p12Pin = process.env["HACIENDA_P12_PIN"] || (await promptP12Pin());
+        await saveProfileSecrets(
+          profileName,
+          { password, ...(p12Pin ? { p12Pin } : {}) },
+          {
+            passphrase,
+          },
+        );
+      }
+
       if (args.json) {
         outputJson({
           success: true,
@@ -132,6 +156,7 @@ export const loginCommand = defineCommand({
           environment,
           cedula_type: cedulaType,
           cedula,
+          secretSaved: args["save-secret"] as boolean,
           message: "Authentication successful",
         });
       } else {
@@ -140,6 +165,9 @@ export const loginCommand = defineCommand({
         detail("Environment", environment);
         detail("Cedula Type", cedulaType);
         detail("Cedula", cedula);
+        if (args["save-secret"]) {
+          detail("Secrets", "stored in the encrypted vault");
+        }
         console.log("\nProfile saved. Tokens are managed automatically per session.");
       }
     } catch (err) {
@@ -153,3 +181,39 @@ export const loginCommand = defineCommand({
     }
   },
 });
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads the vault passphrase from the terminal without echoing it.
+ *
+ * @throws If stdin is not a terminal.
+ */
+async function promptPassphrase(): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      "Missing vault passphrase. Set the HACIENDA_VAULT_PASSPHRASE environment variable.",
+    );
+  }
+
+  const passphrase = await promptHidden("Vault passphrase: ");
+  if (!passphrase) {
+    throw new Error("The vault passphrase cannot be empty.");
+  }
+  return passphrase;
+}
+
+/**
+ * Reads the .p12 PIN from the terminal without echoing it.
+ *
+ * @returns The PIN, or undefined if stdin is not a terminal or the
+ *   answer is empty (the PIN is optional).
+ */
+async function promptP12Pin(): Promise<string | undefined> {
+  if (!process.stdin.isTTY) {
+    return undefined;
+  }
+  return (await promptHidden(".p12 PIN (leave empty to skip): ")) || undefined;
+}
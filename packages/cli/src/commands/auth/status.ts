@@ -68,8 +68,8 @@ export const statusCommand = defineCommand({
         detail("Cedula Type", config.profile.cedula_type);
         detail("Cedula", config.profile.cedula);
         detail("P12 Path", config.profile.p12_path || "(not set)");
-        detail("Password", config.password ? "(set via HACIENDA_PASSWORD)" : "(not set)");
-        detail("P12 PIN", config.p12Pin ? "(set via HACIENDA_P12_PIN)" : "(not set)");
+        detail("Password", secretSource(config.password, "HACIENDA_PASSWORD"));
+        detail("P12 PIN", secretSource(config.p12Pin, "HACIENDA_P12_PIN"));
         detail("Config File", getConfigPath());
 
         if (profiles.length > 1) {
@@ -89,3 +89,19 @@ export const statusCommand = defineCommand({
     }
   },
 });
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Describes where a resolved secret came from. `loadConfig` prefers the
+ * environment variable and falls back to the vault, so a value that is
+ * set without the variable came from the vault.
+ */
+function secretSource(value: string | undefined, envVar: string): string {
+  if (!value) {
+    return "(not set)";
+  }
+  return process.env[envVar] ? `(set via ${envVar})` : "(from the vault)";
+}
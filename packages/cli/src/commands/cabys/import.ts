@@ -0,0 +1,52 @@
+/**
+ * `hacienda cabys import` command.
+ *
+ * Imports the official CABYS catalog file (CSV or XLSX export) into the
+ * local index at ~/.hacienda-cr/cabys.json.
+ *
+ * @module commands/cabys/import
+ */
+
+import { resolve } from "node:path";
+import { defineCommand } from "citty";
+import { importCabysCatalog } from "@dojocoding/hacienda-sdk";
+import { error, success, detail, outputJson } from "../../utils/format.js";
+
+export const importCommand = defineCommand({
+  meta: {
+    name: "import",
+    description: "Import the official CABYS catalog file (CSV or XLSX)",
+  },
+  args: {
+    file: {
+      type: "positional",
+      description: "Path to the catalog file",
+      required: true,
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const { filePath, size } = await importCabysCatalog(resolve(args.file));
+
+      if (args.json) {
+        outputJson({ success: true, filePath, size });
+      } else {
+        success(`Imported ${String(size)} CABYS codes`);
+        detail("Index", filePath);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ success: false, error: message });
+      } else {
+        error(`CABYS import failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
@@ -0,0 +1,24 @@
+/**
+ * `hacienda cabys` command group.
+ *
+ * Subcommands: import, search, show
+ *
+ * @module commands/cabys
+ */
+
+import { defineCommand } from "citty";
+import { importCommand } from "./import.js";
+import { searchCommand } from "./search.js";
+import { showCommand } from "./show.js";
+
+export const cabysCommand = defineCommand({
+  meta: {
+    name: "cabys",
+    description: "Offline CABYS catalog: import the official file, search, look up codes",
+  },
+  subCommands: {
+    import: importCommand,
+    search: searchCommand,
+    show: showCommand,
+  },
+});
@@ -0,0 +1,77 @@
+/**
+ * `hacienda cabys search` command.
+ *
+ * Searches the local CABYS catalog by description words or code prefix.
+ *
+ * @module commands/cabys/search
+ */
+
+import { defineCommand } from "citty";
+import { loadCabysCatalog } from "@dojocoding/hacienda-sdk";
+import { error, outputJson, formatTable } from "../../utils/format.js";
+import type { TableColumn } from "../../utils/format.js";
+
+/** Column definitions for the results table. */
+const RESULT_COLUMNS: TableColumn[] = [
+  { header: "CODE", key: "codigo", minWidth: 13 },
+  { header: "IVA", key: "impuesto", minWidth: 4 },
+  { header: "DESCRIPTION", key: "descripcion", minWidth: 20 },
+];
+
+export const searchCommand = defineCommand({
+  meta: {
+    name: "search",
+    description: "Search the CABYS catalog by description or code",
+  },
+  args: {
+    query: {
+      type: "positional",
+      description: 'Words to look for (e.g. "cafe molido") or the start of a code',
+      required: true,
+    },
+    limit: {
+      type: "string",
+      description: "Maximum number of results",
+      default: "20",
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const limit = Number(args.limit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        error("--limit must be a positive integer.");
+        process.exitCode = 1;
+        return;
+      }
+
+      const catalog = await loadCabysCatalog();
+      const results = catalog.search(args.query, { limit });
+
+      if (args.json) {
+        outputJson({ success: true, results });
+      } else if (results.length === 0) {
+        console.log(`No CABYS codes match "${args.query}".`);
+      } else {
+        console.log(
+          formatTable(
+            RESULT_COLUMNS,
+            results.map((entry) => ({ ...entry, impuesto: `${String(entry.impuesto)}%` })),
+          ),
+        );
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ success: false, error: message });
+      } else {
+        error(`CABYS search failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
@@ -0,0 +1,64 @@
+/**
+ * `hacienda cabys show` command.
+ *
+ * Shows a CABYS code's description, categories and default IVA rate.
+ *
+ * @module commands/cabys/show
+ */
+
+import { defineCommand } from "citty";
+import { defaultIvaRateCode, loadCabysCatalog } from "@dojocoding/hacienda-sdk";
+import { error, detail, outputJson, bold } from "../../utils/format.js";
+
+export const showCommand = defineCommand({
+  meta: {
+    name: "show",
+    description: "Show a CABYS code's categories and default IVA rate",
+  },
+  args: {
+    code: {
+      type: "positional",
+      description: "13-digit CABYS code",
+      required: true,
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const entry = (await loadCabysCatalog()).lookup(args.code);
+      if (!entry) {
+        if (args.json) {
+          outputJson({ success: false, error: `CABYS code ${args.code} is not in the catalog` });
+        } else {
+          error(`CABYS code ${args.code} is not in the catalog.`);
+        }
+        process.exitCode = 1;
+        return;
+      }
+
+      const codigoTarifa = defaultIvaRateCode(entry);
+      if (args.json) {
+        outputJson({ success: true, ...entry, codigoTarifa });
+        return;
+      }
+
+      console.log(bold(`${entry.codigo}  ${entry.descripcion}`));
+      detail("IVA", `${String(entry.impuesto)}%${codigoTarifa ? ` (tarifa ${codigoTarifa})` : ""}`);
+      for (const category of entry.categorias) {
+        detail(category.codigo, category.descripcion);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ success: false, error: message });
+      } else {
+        error(`CABYS lookup failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
@@ -0,0 +1,20 @@
+/**
+ * `hacienda cert` command group.
+ *
+ * Subcommands: info
+ *
+ * @module commands/cert
+ */
+
+import { defineCommand } from "citty";
+import { infoCommand } from "./info.js";
+
+export const certCommand = defineCommand({
+  meta: {
+    name: "cert",
+    description: "Signing certificate management (info)",
+  },
+  subCommands: {
+    info: infoCommand,
+  },
+});
@@ -0,0 +1,134 @@
+/**
+ * `hacienda cert info` command.
+ *
+ * Shows the holder, cédula, issuer and validity of a .p12 signing
+ * certificate, and warns when it is about to expire or does not belong
+ * to the profile's cédula. The PIN is taken from `HACIENDA_P12_PIN` or
+ * prompted for, never from the command line.
+ *
+ * @module commands/cert/info
+ */
+
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { defineCommand } from "citty";
+import { inspectP12, loadConfig } from "@dojocoding/hacienda-sdk";
+import type { ResolvedConfig } from "@dojocoding/hacienda-sdk";
+import { success, error, warn, detail, outputJson } from "../../utils/format.js";
+import { promptHidden } from "../../utils/prompt.js";
+
+export const infoCommand = defineCommand({
+  meta: {
+    name: "info",
+    description: "Show .p12 certificate details and expiry",
+  },
+  args: {
+    profile: {
+      type: "string",
+      description: "Config profile name (supplies the .p12 path and expected cedula)",
+      default: "default",
+    },
+    p12: {
+      type: "string",
+      description: "Path to .p12 certificate file (overrides profile)",
+    },
+    "warn-days": {
+      type: "string",
+      description: "Warn when the certificate expires within this many days",
+      default: "30",
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const warningDays = Number(args["warn-days"]);
+      if (!Number.isInteger(warningDays) || warningDays < 0) {
+        error("--warn-days must be a non-negative integer.");
+        process.exitCode = 1;
+        return;
+      }
+
+      // The profile is optional when --p12 is given
+      let config: ResolvedConfig | undefined;
+      try {
+        config = await loadConfig(args.profile as string);
+      } catch {
+        config = undefined;
+      }
+
+      // Resolve .p12 path and PIN
+      const p12Path =
+        (args.p12 as string | undefined) ??
+        process.env["HACIENDA_P12_PATH"] ??
+        config?.profile.p12_path;
+      if (!p12Path) {
+        error(
+          "Missing .p12 certificate path. Use --p12, set HACIENDA_P12_PATH, or configure in profile.",
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      const p12Pin =
+        process.env["HACIENDA_P12_PIN"] ||
+        (process.stdin.isTTY ? await promptHidden(".p12 PIN: ") : "");
+      if (!p12Pin) {
+        error("Missing .p12 PIN. Set HACIENDA_P12_PIN or enter it at the prompt.");
+        process.exitCode = 1;
+        return;
+      }
+
+      // Read the .p12 file
+      let p12Buffer: Buffer;
+      try {
+        p12Buffer = await readFile(resolve(p12Path));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        error(`Cannot read .p12 file: ${p12Path}: ${message}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      const certificate = await inspectP12(p12Buffer, p12Pin, {
+        expectedCedula: config?.profile.cedula,
+        warningDays,
+      });
+
+      if (args.json) {
+        outputJson({ p12Path, profileName: config?.profileName, ...certificate });
+      } else {
+        success(`Certificate: ${certificate.commonName ?? certificate.subject}`);
+        detail("Cedula", certificate.cedula ?? "(not in subject)");
+        detail("Subject", certificate.subject);
+        detail("Issuer", certificate.issuer);
+        detail("Serial Number", certificate.serialNumber);
+        detail("Valid From", certificate.validFrom);
+        detail("Valid To", certificate.validTo);
+        detail(
+          "Expires In",
+          certificate.expired ? "(expired)" : `${certificate.daysUntilExpiry} days`,
+        );
+
+        for (const message of certificate.warnings) {
+          warn(message);
+        }
+      }
+
+      if (certificate.expired) {
+        process.exitCode = 1;
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ success: false, error: message });
+      } else {
+        error(`Certificate inspection failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
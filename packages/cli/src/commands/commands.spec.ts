@@ -5,9 +5,17 @@ import { statusCommand } from "./status.js";
 import { listCommand } from "./list.js";
 import { getCommand } from "./get.js";
 import { signCommand } from "./sign.js";
+import { verifyCommand } from "./verify.js";
+import { certCommand } from "./cert/index.js";
 import { validateCommand } from "./validate.js";
 import { lookupCommand } from "./lookup.js";
 import { draftCommand } from "./draft.js";
+import { inboxCommand } from "./inbox/index.js";
+import { creditNoteCommand } from "./credit-note.js";
+import { sequencesCommand } from "./sequences/index.js";
+import { renderCommand } from "./render.js";
+import { reportCommand } from "./report/index.js";
+import { cabysCommand } from "./cabys/index.js";
 
 // ---------------------------------------------------------------------------
 // Helper to resolve lazy command definitions (citty wraps in functions)
@@ -55,6 +63,17 @@ describe("auth command group", () => {
       expect(args.profile).toBeDefined();
       expect(args.json).toBeDefined();
     });
+
+    it("can store secrets in the vault", async () => {
+      const resolved = await resolveCommand(authCommand);
+      const subCommands = resolved.subCommands as Record<string, unknown>;
+      const login = await resolveCommand(subCommands.login);
+      const args = login.args as Record<string, { type: string; default?: boolean }>;
+
+      expect(args["save-secret"]?.type).toBe("boolean");
+      expect(args["save-secret"]?.default).toBe(false);
+      expect(args.pin).toBeUndefined();
+    });
   });
 
   describe("status subcommand", () => {
@@ -116,6 +135,15 @@ describe("submit command", () => {
     expect(args.p12).toBeDefined();
     expect(args.pin).toBeDefined();
   });
+
+  it("has batch, concurrency, and journal args", async () => {
+    const resolved = await resolveCommand(submitCommand);
+    const args = resolved.args as Record<string, { type: string; default?: unknown }>;
+    expect(args.batch?.type).toBe("boolean");
+    expect(args.batch?.default).toBe(false);
+    expect(args.concurrency?.default).toBe("4");
+    expect(args.journal?.type).toBe("string");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -224,6 +252,55 @@ describe("sign command", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Verify command
+// ---------------------------------------------------------------------------
+
+describe("verify command", () => {
+  it("has correct metadata", async () => {
+    const resolved = await resolveCommand(verifyCommand);
+    const meta = resolved.meta as { name: string; description: string };
+    expect(meta.name).toBe("verify");
+    expect(meta.description).toContain("signature");
+  });
+
+  it("has required file positional arg and json flag", async () => {
+    const resolved = await resolveCommand(verifyCommand);
+    const args = resolved.args as Record<string, { type: string; required?: boolean }>;
+    expect(args.file.type).toBe("positional");
+    expect(args.file.required).toBe(true);
+    expect(args.json).toBeDefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Cert command group
+// ---------------------------------------------------------------------------
+
+describe("cert command group", () => {
+  it("has correct metadata", async () => {
+    const resolved = await resolveCommand(certCommand);
+    const meta = resolved.meta as { name: string; description: string };
+    expect(meta.name).toBe("cert");
+    expect(meta.description).toBeTruthy();
+  });
+
+  describe("info subcommand", () => {
+    it("has profile, p12, warn-days, and json args but no pin", async () => {
+      const resolved = await resolveCommand(certCommand);
+      const subCommands = resolved.subCommands as Record<string, unknown>;
+      const info = await resolveCommand(subCommands.info);
+      const args = info.args as Record<string, { type: string; default?: unknown }>;
+
+      expect(args.profile).toBeDefined();
+      expect(args.p12).toBeDefined();
+      expect(args.pin).toBeUndefined();
+      expect(args["warn-days"]?.default).toBe("30");
+      expect(args.json).toBeDefined();
+    });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Validate command
 // ---------------------------------------------------------------------------
@@ -263,6 +340,13 @@ describe("lookup command", () => {
     expect(args.cedula.type).toBe("positional");
     expect(args.cedula.required).toBe(true);
   });
+
+  it("has refresh flag to bypass the taxpayer cache", async () => {
+    const resolved = await resolveCommand(lookupCommand);
+    const args = resolved.args as Record<string, { type: string; default?: unknown }>;
+    expect(args.refresh?.type).toBe("boolean");
+    expect(args.refresh?.default).toBe(false);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -292,4 +376,200 @@ describe("draft command", () => {
     expect(args.interactive).toBeDefined();
     expect(args.interactive.default).toBe(true);
   });
+
+  it("has currency arg with CRC default and optional exchange-rate", async () => {
+    const resolved = await resolveCommand(draftCommand);
+    const args = resolved.args as Record<
+      string,
+      { type: string; default?: string | boolean; required?: boolean }
+    >;
+    expect(args.currency.default).toBe("CRC");
+    expect(args["exchange-rate"]).toBeDefined();
+    expect(args["exchange-rate"].required).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Inbox command group
+// ---------------------------------------------------------------------------
+
+describe("inbox command group", () => {
+  it("defines import, list, accept, reject, status subcommands", async () => {
+    const resolved = await resolveCommand(inboxCommand);
+    const meta = resolved.meta as { name: string };
+    const subCommands = resolved.subCommands as Record<string, unknown>;
+
+    expect(meta.name).toBe("inbox");
+    expect(Object.keys(subCommands).sort()).toEqual([
+      "accept",
+      "import",
+      "list",
+      "reject",
+      "status",
+    ]);
+  });
+
+  it("requires a reason to reject and offers partial acceptance", async () => {
+    const resolved = await resolveCommand(inboxCommand);
+    const subCommands = resolved.subCommands as Record<string, unknown>;
+    const reject = await resolveCommand(subCommands.reject);
+    const accept = await resolveCommand(subCommands.accept);
+    const rejectArgs = reject.args as Record<string, { type: string; required?: boolean }>;
+    const acceptArgs = accept.args as Record<string, { type: string; required?: boolean }>;
+
+    expect(rejectArgs.reason?.required).toBe(true);
+    expect(rejectArgs.clave?.type).toBe("positional");
+    expect(acceptArgs.partial?.type).toBe("boolean");
+    expect(acceptArgs.force?.type).toBe("boolean");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Credit note command
+// ---------------------------------------------------------------------------
+
+describe("credit-note command", () => {
+  it("has correct metadata and a required clave and reason", async () => {
+    const resolved = await resolveCommand(creditNoteCommand);
+    const meta = resolved.meta as { name: string; description: string };
+    const args = resolved.args as Record<string, { type: string; required?: boolean }>;
+
+    expect(meta.name).toBe("credit-note");
+    expect(meta.description).toContain("credit note");
+    expect(args.clave?.type).toBe("positional");
+    expect(args.reason?.required).toBe(true);
+  });
+
+  it("supports partial credits, an XML source and dry runs", async () => {
+    const resolved = await resolveCommand(creditNoteCommand);
+    const args = resolved.args as Record<string, { type: string; default?: string | boolean }>;
+
+    expect(args.codigo?.default).toBe("01");
+    expect(args.lines?.type).toBe("string");
+    expect(args.amount?.type).toBe("string");
+    expect(args.xml?.type).toBe("string");
+    expect(args["dry-run"]?.default).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Sequences command group
+// ---------------------------------------------------------------------------
+
+describe("sequences command group", () => {
+  it("defines list, audit, set, log subcommands", async () => {
+    const resolved = await resolveCommand(sequencesCommand);
+    const meta = resolved.meta as { name: string };
+    const subCommands = resolved.subCommands as Record<string, unknown>;
+
+    expect(meta.name).toBe("sequences");
+    expect(Object.keys(subCommands).sort()).toEqual(["audit", "list", "log", "set"]);
+  });
+
+  it("requires a reason to set a counter and audits the local ledger by default", async () => {
+    const resolved = await resolveCommand(sequencesCommand);
+    const subCommands = resolved.subCommands as Record<string, unknown>;
+    const set = await resolveCommand(subCommands.set);
+    const audit = await resolveCommand(subCommands.audit);
+    const setArgs = set.args as Record<string, { type: string; required?: boolean }>;
+    const auditArgs = audit.args as Record<string, { type: string; default?: string }>;
+
+    expect(setArgs.key?.type).toBe("positional");
+    expect(setArgs.value?.type).toBe("positional");
+    expect(setArgs.reason?.required).toBe(true);
+    expect(setArgs.force?.type).toBe("boolean");
+    expect(setArgs["drop-reservations"]?.type).toBe("boolean");
+    expect(auditArgs.source?.default).toBe("local");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Render command
+// ---------------------------------------------------------------------------
+
+describe("render command", () => {
+  it("has correct metadata and a required input", async () => {
+    const resolved = await resolveCommand(renderCommand);
+    const meta = resolved.meta as { name: string; description: string };
+    const args = resolved.args as Record<string, { type: string; required?: boolean }>;
+
+    expect(meta.name).toBe("render");
+    expect(meta.description).toContain("PDF");
+    expect(args.input?.type).toBe("positional");
+    expect(args.input?.required).toBe(true);
+  });
+
+  it("supports format, logo, footer, accent color and template options", async () => {
+    const resolved = await resolveCommand(renderCommand);
+    const args = resolved.args as Record<string, { type: string; default?: string | boolean }>;
+
+    expect(args.format?.default).toBe("pdf");
+    expect(args["page-size"]?.default).toBe("letter");
+    expect(args.output?.type).toBe("string");
+    expect(args.logo?.type).toBe("string");
+    expect(args.footer?.type).toBe("string");
+    expect(args["accent-color"]?.type).toBe("string");
+    expect(args.template?.type).toBe("string");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Report command group
+// ---------------------------------------------------------------------------
+
+describe("report command group", () => {
+  it("defines the iva subcommand", async () => {
+    const resolved = await resolveCommand(reportCommand);
+    const meta = resolved.meta as { name: string };
+    const subCommands = resolved.subCommands as Record<string, unknown>;
+
+    expect(meta.name).toBe("report");
+    expect(Object.keys(subCommands)).toEqual(["iva"]);
+  });
+
+  it("requires a period and reads the local ledger by default", async () => {
+    const resolved = await resolveCommand(reportCommand);
+    const subCommands = resolved.subCommands as Record<string, unknown>;
+    const iva = await resolveCommand(subCommands.iva);
+    const args = iva.args as Record<
+      string,
+      { type: string; required?: boolean; default?: string | boolean }
+    >;
+
+    expect(args.period?.required).toBe(true);
+    expect(args.source?.default).toBe("local");
+    expect(args.dir?.type).toBe("string");
+    expect(args.csv?.default).toBe(false);
+    expect(args.output?.type).toBe("string");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// CABYS command group
+// ---------------------------------------------------------------------------
+
+describe("cabys command group", () => {
+  it("defines the import, search and show subcommands", async () => {
+    const resolved = await resolveCommand(cabysCommand);
+    const meta = resolved.meta as { name: string };
+    const subCommands = resolved.subCommands as Record<string, unknown>;
+
+    expect(meta.name).toBe("cabys");
+    expect(Object.keys(subCommands)).toEqual(["import", "search", "show"]);
+  });
+
+  it("search takes a positional query and a result limit", async () => {
+    const resolved = await resolveCommand(cabysCommand);
+    const subCommands = resolved.subCommands as Record<string, unknown>;
+    const search = await resolveCommand(subCommands.search);
+    const args = search.args as Record<
+      string,
+      { type: string; required?: boolean; default?: string | boolean }
+    >;
+
+    expect(args.query?.type).toBe("positional");
+    expect(args.query?.required).toBe(true);
+    expect(args.limit?.default).toBe("20");
+    expect(args.json?.default).toBe(false);
+  });
 });
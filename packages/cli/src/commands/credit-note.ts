@@ -0,0 +1,273 @@
+/**
+ * `hacienda credit-note` command.
+ *
+ * Issues a Nota de Crédito that reverses all or part of a document.
+ * The original is read from the local ledger (~/.hacienda-cr/documents/)
+ * or from its XML file, and the note is refused when it would credit
+ * more than the document's outstanding balance.
+ *
+ * @module commands/credit-note
+ */
+
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { defineCommand } from "citty";
+import { HaciendaStatus } from "@dojocoding/hacienda-shared";
+import {
+  DocumentType,
+  FileDocumentStore,
+  HaciendaClient,
+  createCreditNoteFrom,
+  getOutstandingBalance,
+  loadConfig,
+  parseDocumentXml,
+  prepareDocument,
+} from "@dojocoding/hacienda-sdk";
+import type {
+  HaciendaClientOptions,
+  ReferenceCode,
+  ReferenceNoteLine,
+  ReferenceNoteSource,
+} from "@dojocoding/hacienda-sdk";
+import { success, error, detail, info, outputJson, colorStatus } from "../utils/format.js";
+
+/** Reference codes accepted by --codigo. */
+const REFERENCE_CODES: readonly ReferenceCode[] = ["01", "02", "04", "05", "99"];
+
+export const creditNoteCommand = defineCommand({
+  meta: {
+    name: "credit-note",
+    description: "Issue a credit note (Nota de Crédito) against a document",
+  },
+  args: {
+    clave: {
+      type: "positional",
+      description: "50-digit clave of the document to credit",
+      required: true,
+    },
+    reason: {
+      type: "string",
+      description: "Reason for the credit note",
+      required: true,
+    },
+    codigo: {
+      type: "string",
+      description: "Reference code: 01 (anula), 02, 04, 05, 99",
+      default: "01",
+    },
+    lines: {
+      type: "string",
+      description: 'Lines to credit as "numeroLinea[:cantidad]", comma-separated (default: all)',
+    },
+    amount: {
+      type: "string",
+      description: "Credit this amount (taxes included), spread over the selected lines",
+    },
+    xml: {
+      type: "string",
+      description: "Read the original from this XML file instead of the local ledger",
+    },
+    "dry-run": {
+      type: "boolean",
+      description: "Build the credit note XML without signing or submitting",
+      default: false,
+    },
+    wait: {
+      type: "boolean",
+      description: "Wait for Hacienda to accept or reject the note",
+      default: false,
+    },
+    profile: {
+      type: "string",
+      description: "Config profile name",
+      default: "default",
+    },
+    p12: {
+      type: "string",
+      description: "Path to .p12 certificate file",
+    },
+    pin: {
+      type: "string",
+      description: "PIN for the .p12 certificate",
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const clave = args.clave;
+      if (!/^\d{50}$/.test(clave)) {
+        error("Invalid clave. Must be a 50-digit numeric string.");
+        process.exitCode = 1;
+        return;
+      }
+
+      const codigo = args.codigo as ReferenceCode;
+      if (!REFERENCE_CODES.includes(codigo)) {
+        error(`Invalid --codigo. Must be one of: ${REFERENCE_CODES.join(", ")}.`);
+        process.exitCode = 1;
+        return;
+      }
+
+      const lines = args.lines ? parseLines(args.lines as string) : undefined;
+      if (lines === null) {
+        error('Invalid --lines. Use "numeroLinea[:cantidad]" entries, e.g. "1,3:2".');
+        process.exitCode = 1;
+        return;
+      }
+
+      const amount = args.amount === undefined ? undefined : Number(args.amount);
+      if (amount !== undefined && !(amount > 0)) {
+        error("Invalid --amount. Must be a positive number.");
+        process.exitCode = 1;
+        return;
+      }
+
+      // Load the original document
+      const store = new FileDocumentStore();
+      let original: ReferenceNoteSource | undefined;
+      if (args.xml) {
+        const parsed = parseDocumentXml(await readFile(resolve(args.xml as string), "utf-8"));
+        if (parsed.rootElement === "MensajeReceptor") {
+          error("The XML file is a MensajeReceptor, not a comprobante.");
+          process.exitCode = 1;
+          return;
+        }
+        original = parsed.document;
+      } else {
+        original = await store.get(clave);
+      }
+
+      if (!original) {
+        error(`Document ${clave} is not in the local ledger. Pass its XML file with --xml.`);
+        process.exitCode = 1;
+        return;
+      }
+      if (original.clave !== clave) {
+        error(`The XML file holds document ${original.clave}, not ${clave}.`);
+        process.exitCode = 1;
+        return;
+      }
+
+      const outstandingBalance = await getOutstandingBalance(store, original);
+      const draft = createCreditNoteFrom(original, {
+        reason: args.reason as string,
+        codigo,
+        ...(lines ? { lines } : {}),
+        ...(amount !== undefined ? { amount } : {}),
+        outstandingBalance,
+      });
+
+      if (args["dry-run"]) {
+        // Placeholder sequence so a dry run does not consume a number
+        const prepared = await prepareDocument(DocumentType.NOTA_CREDITO, draft, { sequence: 1 });
+        const total = prepared.document.resumenFactura.totalComprobante;
+        if (args.json) {
+          outputJson({ success: true, dryRun: true, total, outstandingBalance, xml: prepared.xml });
+        } else {
+          success("Credit note built (dry run)");
+          detail("References", clave);
+          detail("Total", String(total));
+          detail("Outstanding", String(outstandingBalance));
+          console.log("\n--- Generated XML ---");
+          console.log(prepared.xml);
+        }
+        return;
+      }
+
+      // Issue through a client that records the note in the ledger
+      const config = await loadConfig(args.profile as string);
+      if (!config.password) {
+        error(
+          "Missing password. Set HACIENDA_PASSWORD or store it with `hacienda auth login --save-secret`.",
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      const client = new HaciendaClient({
+        environment: config.profile.environment as HaciendaClientOptions["environment"],
+        credentials: {
+          idType: config.profile.cedula_type as HaciendaClientOptions["credentials"]["idType"],
+          idNumber: config.profile.cedula,
+          password: config.password,
+        },
+        p12Path:
+          (args.p12 as string | undefined) ??
+          process.env["HACIENDA_P12_PATH"] ??
+          config.profile.p12_path,
+        p12Pin: (args.pin as string | undefined) ?? config.p12Pin,
+        documentStore: store,
+      });
+      await client.authenticate();
+
+      if (!args.json) {
+        info("Signing and submitting credit note...");
+      }
+      const issued = await client.issueDocument(DocumentType.NOTA_CREDITO, draft, {
+        wait: args.wait as boolean,
+      });
+
+      const status = issued.result?.status ?? HaciendaStatus.RECIBIDO;
+      const total = issued.document.resumenFactura.totalComprobante;
+      if (args.json) {
+        outputJson({
+          success: issued.result ? issued.result.accepted : true,
+          clave: issued.clave,
+          references: clave,
+          total,
+          status,
+          rejectionReason: issued.result?.rejectionReason,
+        });
+      } else if (!issued.result || issued.result.accepted) {
+        success("Credit note issued");
+        detail("Clave", issued.clave);
+        detail("References", clave);
+        detail("Total", String(total));
+        detail("Status", colorStatus(status));
+      } else {
+        error(`Credit note rejected by Hacienda: ${status}`);
+        detail("Clave", issued.clave);
+        if (issued.result.rejectionReason) {
+          detail("Reason", issued.result.rejectionReason);
+        }
+        process.exitCode = 1;
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ success: false, error: message });
+      } else {
+        error(`Credit note failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses `--lines` ("1,3:2") into line selections.
+ *
+ * @returns The selections, or `null` if an entry is malformed.
+ */
+function parseLines(value: string): ReferenceNoteLine[] | null {
+  const lines: ReferenceNoteLine[] = [];
+  for (const entry of value.split(",")) {
+    const match = /^\s*(\d+)(?::(\d+(?:\.\d+)?))?\s*$/.exec(entry);
+    if (!match?.[1]) {
+      return null;
+    }
+    lines.push({
+      numeroLinea: Number(match[1]),
+      ...(match[2] ? { cantidad: Number(match[2]) } : {}),
+    });
+  }
+  return lines;
+}
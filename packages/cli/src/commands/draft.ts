@@ -5,12 +5,20 @@
  * a Factura Electronica step by step. Outputs a JSON file that
  * can be submitted via `hacienda submit`.
  *
+ * Drafts in a foreign currency carry the exchange rate in
+ * `resumenFactura.codigoTipoMoneda`. The rate comes from
+ * `--exchange-rate` or, when omitted, from the local exchange-rate
+ * table (~/.hacienda-cr/exchange-rates.json).
+ *
  * @module commands/draft
  */
 
 import { writeFile } from "node:fs/promises";
 import { resolve } from "node:path";
 import { defineCommand } from "citty";
+import { FileExchangeRateProvider } from "@dojocoding/hacienda-sdk";
+import { CurrencyCode } from "@dojocoding/hacienda-shared";
+import type { CodigoTipoMoneda } from "@dojocoding/hacienda-shared";
 import { success, error, detail, info, outputJson, bold, cyan, dim } from "../utils/format.js";
 
 // ---------------------------------------------------------------------------
@@ -46,6 +54,12 @@ const IVA_RATES = [
   { code: "08", name: "General 13%", rate: 13 },
 ] as const;
 
+const CURRENCIES = [
+  { code: CurrencyCode.CRC, name: "Colon costarricense" },
+  { code: CurrencyCode.USD, name: "Dolar estadounidense" },
+  { code: CurrencyCode.EUR, name: "Euro" },
+] as const;
+
 const COMMON_UNITS = [
   { code: "Unid", name: "Unidad" },
   { code: "Sp", name: "Servicios profesionales" },
@@ -248,7 +262,10 @@ function round5(value: number): number {
   return Math.round(value * 100000) / 100000;
 }
 
-function buildResumenFactura(lineItems: DraftLineItem[]): Record<string, number> {
+function buildResumenFactura(
+  lineItems: DraftLineItem[],
+  codigoTipoMoneda: CodigoTipoMoneda,
+): Record<string, unknown> {
   let totalGravado = 0;
   let totalExento = 0;
   let totalImpuesto = 0;
@@ -268,6 +285,7 @@ function buildResumenFactura(lineItems: DraftLineItem[]): Record<string, number>
   const totalComprobante = round5(totalVentaNeta + totalImpuesto);
 
   return {
+    codigoTipoMoneda,
     totalServGravados: 0,
     totalServExentos: 0,
     totalMercanciasGravadas: totalGravado,
@@ -282,6 +300,106 @@ function buildResumenFactura(lineItems: DraftLineItem[]): Record<string, number>
   };
 }
 
+// ---------------------------------------------------------------------------
+// Currency helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses the `--currency` argument.
+ *
+ * @throws {Error} If the currency is not supported.
+ */
+function parseCurrency(value: string): CurrencyCode {
+  const code = value.toUpperCase();
+  const currency = CURRENCIES.find((c) => c.code === code);
+  if (!currency) {
+    throw new Error(
+      `Unsupported currency "${value}". Use one of: ${CURRENCIES.map((c) => c.code).join(", ")}.`,
+    );
+  }
+  return currency.code;
+}
+
+/**
+ * Parses an exchange rate (colones per unit of the currency).
+ *
+ * @throws {Error} If the value is not a positive number.
+ */
+function parseExchangeRate(value: string): number {
+  const rate = Number(value);
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new Error(`Invalid exchange rate "${value}". Expected a positive number.`);
+  }
+  return rate;
+}
+
+/**
+ * Looks up the stored exchange rate for a currency on the given date.
+ *
+ * @returns The rate, or undefined if the local table has none.
+ */
+async function lookupStoredRate(currency: CurrencyCode, date: Date): Promise<number | undefined> {
+  try {
+    const { rate } = await new FileExchangeRateProvider().getRate(currency, date);
+    return rate;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolves the currency block from the command arguments.
+ *
+ * Colones always use a rate of 1. Foreign currencies use `--exchange-rate`
+ * or the stored rate for the date.
+ *
+ * @throws {Error} If no exchange rate is available for a foreign currency.
+ */
+async function resolveCurrencyArgs(
+  currencyArg: string,
+  exchangeRateArg: string | undefined,
+  date: Date,
+): Promise<CodigoTipoMoneda> {
+  const codigoMoneda = parseCurrency(currencyArg);
+  if (codigoMoneda === CurrencyCode.CRC) {
+    return { codigoMoneda, tipoCambio: 1 };
+  }
+  if (exchangeRateArg !== undefined) {
+    return { codigoMoneda, tipoCambio: parseExchangeRate(exchangeRateArg) };
+  }
+
+  const stored = await lookupStoredRate(codigoMoneda, date);
+  if (stored === undefined) {
+    throw new Error(
+      `No exchange rate stored for ${codigoMoneda}. Pass --exchange-rate <colones per ${codigoMoneda}>.`,
+    );
+  }
+  return { codigoMoneda, tipoCambio: stored };
+}
+
+/**
+ * Prompts for the document currency and, for foreign currencies, the
+ * exchange rate (defaulting to `--exchange-rate` or the stored rate).
+ */
+async function collectCurrency(
+  currencyArg: string,
+  exchangeRateArg: string | undefined,
+  date: Date,
+): Promise<CodigoTipoMoneda> {
+  const codigoMoneda = parseCurrency(
+    await promptSelect("Currency", CURRENCIES, parseCurrency(currencyArg)),
+  );
+  if (codigoMoneda === CurrencyCode.CRC) {
+    return { codigoMoneda, tipoCambio: 1 };
+  }
+
+  const suggested = exchangeRateArg ?? (await lookupStoredRate(codigoMoneda, date))?.toString();
+  const tipoCambio = parseExchangeRate(
+    await prompt(`Exchange rate (colones per ${codigoMoneda})`, suggested),
+  );
+  return { codigoMoneda, tipoCambio };
+}
+
 // ---------------------------------------------------------------------------
 // Command definition
 // ---------------------------------------------------------------------------
@@ -312,11 +430,35 @@ export const draftCommand = defineCommand({
       description: "Run in interactive mode with step-by-step prompts (default: true)",
       default: true,
     },
+    currency: {
+      type: "string",
+      description: "Document currency: CRC, USD, EUR",
+      default: "CRC",
+    },
+    "exchange-rate": {
+      type: "string",
+      description:
+        "Colones per unit of the currency (default: stored rate in ~/.hacienda-cr/exchange-rates.json)",
+      required: false,
+    },
   },
   async run({ args }) {
     // Non-interactive mode: generate a blank template
     if (!args.interactive || !process.stdin.isTTY) {
-      const template = generateBlankTemplate(args.template);
+      let codigoTipoMoneda: CodigoTipoMoneda;
+      try {
+        codigoTipoMoneda = await resolveCurrencyArgs(
+          args.currency,
+          args["exchange-rate"],
+          new Date(),
+        );
+      } catch (err) {
+        error(err instanceof Error ? err.message : String(err));
+        process.exitCode = 1;
+        return;
+      }
+
+      const template = generateBlankTemplate(args.template, codigoTipoMoneda);
 
       if (args.json) {
         outputJson(template);
@@ -345,6 +487,10 @@ export const draftCommand = defineCommand({
       // Payment method
       const medioPago = await promptSelect("Payment method", PAYMENT_METHODS, "01");
 
+      // Currency
+      const now = new Date();
+      const codigoTipoMoneda = await collectCurrency(args.currency, args["exchange-rate"], now);
+
       // Emisor
       const emisor = await collectEmisor();
 
@@ -367,10 +513,9 @@ export const draftCommand = defineCommand({
       }
 
       // Build the summary
-      const resumenFactura = buildResumenFactura(lineItems);
+      const resumenFactura = buildResumenFactura(lineItems, codigoTipoMoneda);
 
       // Assemble the draft document
-      const now = new Date();
       const draft = {
         clave: "<<GENERATE_ON_SUBMIT>>",
         codigoActividad,
@@ -398,6 +543,12 @@ export const draftCommand = defineCommand({
       detail("Line items", String(lineItems.length));
       detail("Total", String(resumenFactura["totalComprobante"]));
       detail("Tax", String(resumenFactura["totalImpuesto"]));
+      if (codigoTipoMoneda.codigoMoneda !== CurrencyCode.CRC) {
+        detail(
+          "Currency",
+          `${codigoTipoMoneda.codigoMoneda} (tipo de cambio ${String(codigoTipoMoneda.tipoCambio)})`,
+        );
+      }
       console.log("");
       info(
         "Note: clave and numeroConsecutivo are placeholders. They will be generated on submission.",
@@ -428,7 +579,10 @@ export const draftCommand = defineCommand({
  * Generates a blank template JSON for a given document type.
  * This serves as a starting point that users can edit manually.
  */
-function generateBlankTemplate(templateType: string): Record<string, unknown> {
+function generateBlankTemplate(
+  templateType: string,
+  codigoTipoMoneda: CodigoTipoMoneda,
+): Record<string, unknown> {
   const base = {
     clave: "<<GENERATE_ON_SUBMIT>>",
     codigoActividad: "620100",
@@ -467,6 +621,7 @@ function generateBlankTemplate(templateType: string): Record<string, unknown> {
       },
     ],
     resumenFactura: {
+      codigoTipoMoneda,
       totalServGravados: 0,
       totalServExentos: 0,
       totalMercanciasGravadas: 0,
@@ -0,0 +1,75 @@
+/**
+ * `hacienda inbox import` command.
+ *
+ * Imports a supplier's signed XML (and optionally Hacienda's response
+ * XML for it) and checks its signature, issuer, totals and receptor.
+ *
+ * @module commands/inbox/import
+ */
+
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { defineCommand } from "citty";
+import { error, success, warn, outputJson } from "../../utils/format.js";
+import { loadInbox, printEntry } from "./shared.js";
+
+export const importCommand = defineCommand({
+  meta: {
+    name: "import",
+    description: "Import a supplier's signed XML and check it",
+  },
+  args: {
+    file: {
+      type: "positional",
+      description: "Path to the supplier's signed XML",
+      required: true,
+    },
+    response: {
+      type: "string",
+      description: "Path to Hacienda's response XML (MensajeHacienda) for the document",
+    },
+    profile: {
+      type: "string",
+      description: "Config profile name (the receiving taxpayer)",
+      default: "default",
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const xml = await readFile(resolve(args.file), "utf-8");
+      const responseXml = args.response
+        ? await readFile(resolve(args.response as string), "utf-8")
+        : undefined;
+
+      const inbox = await loadInbox(args.profile as string);
+      const entry = await inbox.importDocument(xml, { responseXml });
+      const failed = entry.checks.filter((check) => !check.passed);
+
+      if (args.json) {
+        const { xml: _xml, haciendaResponseXml: _response, ...summary } = entry;
+        outputJson({ success: true, ...summary });
+      } else {
+        success(`Imported ${entry.clave}`);
+        printEntry(entry);
+        if (failed.length > 0) {
+          warn(
+            `${String(failed.length)} check(s) failed. Reject the document, or accept with --force.`,
+          );
+        }
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ success: false, error: message });
+      } else {
+        error(`Import failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
@@ -0,0 +1,27 @@
+/**
+ * `hacienda inbox` command group.
+ *
+ * Subcommands: import, list, accept, reject, status
+ *
+ * @module commands/inbox
+ */
+
+import { defineCommand } from "citty";
+import { importCommand } from "./import.js";
+import { listCommand } from "./list.js";
+import { acceptCommand, rejectCommand } from "./respond.js";
+import { statusCommand } from "./status.js";
+
+export const inboxCommand = defineCommand({
+  meta: {
+    name: "inbox",
+    description: "Received supplier documents and Mensaje Receptor (import, list, accept, reject)",
+  },
+  subCommands: {
+    import: importCommand,
+    list: listCommand,
+    accept: acceptCommand,
+    reject: rejectCommand,
+    status: statusCommand,
+  },
+});
@@ -0,0 +1,85 @@
+/**
+ * `hacienda inbox list` command.
+ *
+ * Lists imported supplier documents and their Mensaje Receptor status.
+ *
+ * @module commands/inbox/list
+ */
+
+import { defineCommand } from "citty";
+import { FileInboxStore } from "@dojocoding/hacienda-sdk";
+import type { InboxEntryStatus } from "@dojocoding/hacienda-sdk";
+import { error, outputJson, formatTable, colorStatus } from "../../utils/format.js";
+import type { TableColumn } from "../../utils/format.js";
+
+/** Column definitions for the inbox table. */
+const INBOX_COLUMNS: TableColumn[] = [
+  { header: "CLAVE", key: "clave", minWidth: 20 },
+  { header: "SUPPLIER", key: "supplier", minWidth: 12 },
+  { header: "DATE", key: "fechaEmision", minWidth: 12 },
+  { header: "TOTAL", key: "total", minWidth: 10 },
+  { header: "CHECKS", key: "checks", minWidth: 6 },
+  {
+    header: "STATUS",
+    key: "status",
+    minWidth: 12,
+    format: (v) => colorStatus(String(v)),
+  },
+];
+
+export const listCommand = defineCommand({
+  meta: {
+    name: "list",
+    description: "List imported supplier documents",
+  },
+  args: {
+    status: {
+      type: "string",
+      description: "Only entries in this status (e.g. pendiente, aceptado)",
+    },
+    supplier: {
+      type: "string",
+      description: "Only documents from this supplier cedula",
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const entries = await new FileInboxStore().list({
+        status: args.status as InboxEntryStatus | undefined,
+        emisorId: args.supplier as string | undefined,
+      });
+
+      if (args.json) {
+        outputJson({
+          success: true,
+          entries: entries.map(({ xml: _xml, haciendaResponseXml: _response, ...entry }) => entry),
+        });
+      } else if (entries.length === 0) {
+        console.log("No documents in the inbox.");
+      } else {
+        const rows = entries.map((entry) => ({
+          clave: entry.clave,
+          supplier: entry.emisor.nombre,
+          fechaEmision: entry.fechaEmision.slice(0, 10),
+          total: entry.totals.totalComprobante,
+          checks: entry.checks.every((check) => check.passed) ? "ok" : "failed",
+          status: entry.status,
+        }));
+        console.log(formatTable(INBOX_COLUMNS, rows));
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ success: false, error: message });
+      } else {
+        error(`Inbox list failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
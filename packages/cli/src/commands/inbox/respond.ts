@@ -0,0 +1,175 @@
+/**
+ * `hacienda inbox accept` and `hacienda inbox reject` commands.
+ *
+ * Answer an imported supplier document with a Mensaje Receptor: the
+ * message is filled from the document, numbered, signed with the
+ * profile's certificate and submitted to Hacienda.
+ *
+ * @module commands/inbox/respond
+ */
+
+import { defineCommand } from "citty";
+import { MensajeReceptorCode } from "@dojocoding/hacienda-shared";
+import type { RespondOptions } from "@dojocoding/hacienda-sdk";
+import { error, success, outputJson } from "../../utils/format.js";
+import { createAuthenticatedClient } from "../../utils/api-client.js";
+import { openInbox, printEntry } from "./shared.js";
+
+/** Arguments shared by accept and reject. */
+const COMMON_ARGS = {
+  clave: {
+    type: "positional",
+    description: "50-digit clave of the imported document",
+    required: true,
+  },
+  wait: {
+    type: "boolean",
+    description: "Poll until Hacienda answers the Mensaje Receptor",
+    default: false,
+  },
+  profile: {
+    type: "string",
+    description: "Config profile name (the receiving taxpayer)",
+    default: "default",
+  },
+  p12: {
+    type: "string",
+    description: "Path to .p12 certificate file (overrides profile)",
+  },
+  pin: {
+    type: "string",
+    description:
+      "PIN for the .p12 certificate (prefer HACIENDA_P12_PIN env var — CLI args are visible in process lists)",
+  },
+  json: {
+    type: "boolean",
+    description: "Output as JSON",
+    default: false,
+  },
+} as const;
+
+export const acceptCommand = defineCommand({
+  meta: {
+    name: "accept",
+    description: "Accept a received document (totally or partially)",
+  },
+  args: {
+    ...COMMON_ARGS,
+    partial: {
+      type: "boolean",
+      description: "Accept partially (requires --reason)",
+      default: false,
+    },
+    reason: {
+      type: "string",
+      description: "Reason for a partial acceptance (max 160 characters)",
+    },
+    condicion: {
+      type: "string",
+      description: 'Tax condition 01-05 (default: "01" when the document carries tax)',
+    },
+    actividad: {
+      type: "string",
+      description: "Activity code for the message (default: the document's)",
+    },
+    "tax-amount": {
+      type: "string",
+      description: "Tax amount to declare (default: the document's total tax)",
+    },
+    force: {
+      type: "boolean",
+      description: "Accept even though import checks failed",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    let montoTotalImpuesto: number | undefined;
+    if (args["tax-amount"] !== undefined) {
+      montoTotalImpuesto = Number(args["tax-amount"]);
+      if (!Number.isFinite(montoTotalImpuesto) || montoTotalImpuesto < 0) {
+        error("--tax-amount must be a non-negative number.");
+        process.exitCode = 1;
+        return;
+      }
+    }
+
+    await respond(args, {
+      mensaje: args.partial
+        ? MensajeReceptorCode.ACEPTADO_PARCIALMENTE
+        : MensajeReceptorCode.ACEPTADO,
+      detalleMensaje: args.reason as string | undefined,
+      condicionImpuesto: args.condicion as string | undefined,
+      codigoActividad: args.actividad as string | undefined,
+      montoTotalImpuesto,
+      force: args.force,
+    });
+  },
+});
+
+export const rejectCommand = defineCommand({
+  meta: {
+    name: "reject",
+    description: "Reject a received document",
+  },
+  args: {
+    ...COMMON_ARGS,
+    reason: {
+      type: "string",
+      description: "Reason for the rejection (max 160 characters)",
+      required: true,
+    },
+  },
+  async run({ args }) {
+    await respond(args, {
+      mensaje: MensajeReceptorCode.RECHAZADO,
+      detalleMensaje: args.reason,
+    });
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+interface CommonArgs {
+  clave: string;
+  wait: boolean;
+  profile: string;
+  p12?: string;
+  pin?: string;
+  json: boolean;
+}
+
+async function respond(args: CommonArgs, options: Omit<RespondOptions, "wait">): Promise<void> {
+  try {
+    if (!/^\d{50}$/.test(args.clave)) {
+      error("Invalid clave. Must be a 50-digit numeric string.");
+      process.exitCode = 1;
+      return;
+    }
+
+    const { httpClient, config } = await createAuthenticatedClient(args.profile);
+    const inbox = openInbox(config, { p12: args.p12, pin: args.pin });
+    const entry = await inbox.respond(httpClient, args.clave, { ...options, wait: args.wait });
+
+    if (args.json) {
+      const { xml: _xml, haciendaResponseXml: _response, ...summary } = entry;
+      outputJson({ success: true, ...summary });
+    } else {
+      success(`Mensaje Receptor ${entry.response?.numeroConsecutivoReceptor ?? ""} submitted`);
+      printEntry(entry);
+    }
+
+    if (entry.status === "rechazado") {
+      process.exitCode = 1;
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error occurred";
+    if (args.json) {
+      outputJson({ success: false, error: message });
+    } else {
+      error(`Mensaje Receptor failed: ${message}`);
+    }
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Helpers shared by the `hacienda inbox` subcommands.
+ *
+ * @module commands/inbox/shared
+ */
+
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { FileInboxStore, ReceptorInbox, loadConfig, signXml } from "@dojocoding/hacienda-sdk";
+import type { InboxEntry, ResolvedConfig } from "@dojocoding/hacienda-sdk";
+import { colorStatus, detail, green, red } from "../../utils/format.js";
+
+/** Arguments used to locate the signing certificate. */
+export interface CertificateArgs {
+  readonly p12?: string;
+  readonly pin?: string;
+}
+
+/**
+ * Creates a {@link ReceptorInbox} for the profile's taxpayer.
+ *
+ * The .p12 certificate is only read when a Mensaje Receptor is signed.
+ *
+ * @param config - The resolved config profile (the receiving taxpayer).
+ * @param certificate - Optional .p12 path and PIN overrides.
+ * @returns The inbox, backed by ~/.hacienda-cr/inbox/.
+ */
+export function openInbox(
+  config: ResolvedConfig,
+  certificate: CertificateArgs = {},
+): ReceptorInbox {
+  return new ReceptorInbox(new FileInboxStore(), {
+    receptor: { tipo: config.profile.cedula_type, numero: config.profile.cedula },
+    sign: async (xml) => {
+      const p12Path =
+        certificate.p12 ?? process.env["HACIENDA_P12_PATH"] ?? config.profile.p12_path;
+      if (!p12Path) {
+        throw new Error(
+          "Missing .p12 certificate path. Use --p12, set HACIENDA_P12_PATH, or configure in profile.",
+        );
+      }
+      const p12Pin = certificate.pin ?? config.p12Pin;
+      if (!p12Pin) {
+        throw new Error(
+          "Missing .p12 PIN. Use --pin or set HACIENDA_P12_PIN environment variable.",
+        );
+      }
+
+      let p12Buffer: Buffer;
+      try {
+        p12Buffer = await readFile(resolve(p12Path));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        throw new Error(`Cannot read .p12 file: ${p12Path}: ${message}`);
+      }
+      return signXml(xml, p12Buffer, p12Pin);
+    },
+  });
+}
+
+/**
+ * Loads the profile and opens its inbox.
+ *
+ * @param profileName - Config profile name.
+ * @param certificate - Optional .p12 path and PIN overrides.
+ */
+export async function loadInbox(
+  profileName: string,
+  certificate: CertificateArgs = {},
+): Promise<ReceptorInbox> {
+  return openInbox(await loadConfig(profileName), certificate);
+}
+
+/** Prints an entry's supplier, totals, checks and Mensaje Receptor status. */
+export function printEntry(entry: InboxEntry): void {
+  detail("Clave", entry.clave);
+  detail("Supplier", `${entry.emisor.nombre} (${entry.emisor.identificacion.numero})`);
+  detail("Date", entry.fechaEmision);
+  detail("Total Tax", String(entry.totals.totalImpuesto));
+  detail(
+    "Total",
+    `${String(entry.totals.totalComprobante)}${entry.totals.codigoMoneda ? ` ${entry.totals.codigoMoneda}` : ""}`,
+  );
+  detail("Status", colorStatus(entry.status));
+  if (entry.response) {
+    detail("Consecutivo", entry.response.numeroConsecutivoReceptor);
+    if (entry.response.rejectionReason) {
+      detail("Reason", entry.response.rejectionReason);
+    }
+  }
+  for (const check of entry.checks) {
+    console.log(`  ${check.passed ? green("✓") : red("✗")} ${check.name}: ${check.message}`);
+  }
+}
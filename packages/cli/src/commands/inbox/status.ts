@@ -0,0 +1,74 @@
+/**
+ * `hacienda inbox status` command.
+ *
+ * Shows an imported document and refreshes the status of its Mensaje
+ * Receptor, delivering it again if an earlier submission failed.
+ *
+ * @module commands/inbox/status
+ */
+
+import { defineCommand } from "citty";
+import { error, outputJson } from "../../utils/format.js";
+import { createAuthenticatedClient } from "../../utils/api-client.js";
+import { loadInbox, openInbox, printEntry } from "./shared.js";
+
+export const statusCommand = defineCommand({
+  meta: {
+    name: "status",
+    description: "Show a received document and refresh its Mensaje Receptor status",
+  },
+  args: {
+    clave: {
+      type: "positional",
+      description: "50-digit clave of the imported document",
+      required: true,
+    },
+    wait: {
+      type: "boolean",
+      description: "Poll until Hacienda answers the Mensaje Receptor",
+      default: false,
+    },
+    profile: {
+      type: "string",
+      description: "Config profile name (the receiving taxpayer)",
+      default: "default",
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      if (!/^\d{50}$/.test(args.clave)) {
+        error("Invalid clave. Must be a 50-digit numeric string.");
+        process.exitCode = 1;
+        return;
+      }
+
+      let entry = await (await loadInbox(args.profile as string)).getEntry(args.clave);
+
+      // Only answered documents have a Mensaje Receptor status to refresh
+      if (entry.response) {
+        const { httpClient, config } = await createAuthenticatedClient(args.profile as string);
+        entry = await openInbox(config).refresh(httpClient, args.clave, { wait: args.wait });
+      }
+
+      if (args.json) {
+        const { xml: _xml, haciendaResponseXml: _response, ...summary } = entry;
+        outputJson({ success: true, ...summary });
+      } else {
+        printEntry(entry);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ success: false, error: message });
+      } else {
+        error(`Inbox status failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
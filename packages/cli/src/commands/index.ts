@@ -8,6 +8,14 @@ export { statusCommand } from "./status.js";
 export { listCommand } from "./list.js";
 export { getCommand } from "./get.js";
 export { signCommand } from "./sign.js";
+export { verifyCommand } from "./verify.js";
+export { certCommand } from "./cert/index.js";
 export { validateCommand } from "./validate.js";
 export { lookupCommand } from "./lookup.js";
 export { draftCommand } from "./draft.js";
+export { inboxCommand } from "./inbox/index.js";
+export { creditNoteCommand } from "./credit-note.js";
+export { sequencesCommand } from "./sequences/index.js";
+export { renderCommand } from "./render.js";
+export { reportCommand } from "./report/index.js";
+export { cabysCommand } from "./cabys/index.js";
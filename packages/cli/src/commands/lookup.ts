@@ -2,14 +2,16 @@
  * `hacienda lookup` command.
  *
  * Looks up taxpayer economic activities from the Hacienda public API.
- * This endpoint does not require authentication.
+ * This endpoint does not require authentication. Results are cached in
+ * ~/.hacienda-cr/taxpayers.json and served from there when fresh, or
+ * when the API cannot be reached.
  *
  * @module commands/lookup
  */
 
 import { defineCommand } from "citty";
-import { lookupTaxpayer } from "@dojocoding/hacienda-sdk";
-import { success, error, detail, info, outputJson } from "../utils/format.js";
+import { TaxpayerCache } from "@dojocoding/hacienda-sdk";
+import { success, error, detail, info, warn, outputJson } from "../utils/format.js";
 
 export const lookupCommand = defineCommand({
   meta: {
@@ -22,6 +24,11 @@ export const lookupCommand = defineCommand({
       description: "Taxpayer identification number (9-12 digits)",
       required: true,
     },
+    refresh: {
+      type: "boolean",
+      description: "Query the API even if the taxpayer is cached",
+      default: false,
+    },
     json: {
       type: "boolean",
       description: "Output as JSON",
@@ -39,18 +46,40 @@ export const lookupCommand = defineCommand({
         return;
       }
 
-      const taxpayer = await lookupTaxpayer(cedula);
+      const cache = new TaxpayerCache();
+      const result = await cache.find(cedula, { refresh: args.refresh });
+      await cache.settle();
+
+      const taxpayer = result.taxpayer;
+      if (!taxpayer) {
+        throw new Error(`Taxpayer not found for identification: ${cedula}`);
+      }
 
       if (args.json) {
         outputJson({
           success: true,
           nombre: taxpayer.nombre,
           tipoIdentificacion: taxpayer.tipoIdentificacion,
+          regimen: taxpayer.regimen,
+          situacion: taxpayer.situacion,
           actividades: taxpayer.actividades,
+          fetchedAt: result.fetchedAt,
+          source: result.source,
         });
       } else {
         success(`Taxpayer found: ${taxpayer.nombre}`);
         info(`Identification type: ${taxpayer.tipoIdentificacion}`);
+        if (taxpayer.regimen) {
+          detail("Regime", taxpayer.regimen.descripcion);
+        }
+        if (taxpayer.situacion) {
+          detail("Status", taxpayer.situacion.estado);
+          if (taxpayer.situacion.moroso) warn("Taxpayer has overdue tax debts (moroso)");
+          if (taxpayer.situacion.omiso) warn("Taxpayer has missing tax returns (omiso)");
+        }
+        if (result.source !== "network") {
+          detail("Cached", `${result.fetchedAt}${result.source === "stale" ? " (stale)" : ""}`);
+        }
 
         if (taxpayer.actividades.length === 0) {
           detail("Activities", "None registered");
@@ -58,7 +87,8 @@ export const lookupCommand = defineCommand({
           console.log(`\n  Economic activities (${String(taxpayer.actividades.length)}):\n`);
           for (const act of taxpayer.actividades) {
             const status = act.estado === "A" ? "Active" : act.estado;
-            console.log(`    [${act.codigo}] ${act.descripcion} (${status})`);
+            const primary = act.tipo === "P" ? ", primary" : "";
+            console.log(`    [${act.codigo}] ${act.descripcion} (${status}${primary})`);
           }
         }
       }
@@ -0,0 +1,168 @@
+/**
+ * `hacienda render` command.
+ *
+ * Writes the printable representation (representación gráfica) of a
+ * comprobante as HTML or PDF. The document is read from an XML file or,
+ * given a clave, from the local ledger or the supplier inbox.
+ *
+ * @module commands/render
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { defineCommand } from "citty";
+import {
+  FileDocumentStore,
+  FileInboxStore,
+  parseDocumentXml,
+  renderDocument,
+} from "@dojocoding/hacienda-sdk";
+import type { PdfPageSize, RenderFormat, RenderTemplate } from "@dojocoding/hacienda-sdk";
+import { success, error, detail, outputJson } from "../utils/format.js";
+
+const FORMATS: readonly RenderFormat[] = ["html", "pdf"];
+const PAGE_SIZES: readonly PdfPageSize[] = ["letter", "a4"];
+
+export const renderCommand = defineCommand({
+  meta: {
+    name: "render",
+    description: "Render a comprobante as printable HTML or PDF",
+  },
+  args: {
+    input: {
+      type: "positional",
+      description: "Path to the document XML, or the 50-digit clave of a ledger or inbox document",
+      required: true,
+    },
+    format: {
+      type: "string",
+      description: "Output format: html or pdf",
+      default: "pdf",
+    },
+    output: {
+      type: "string",
+      description: "Output file path (default: <clave>.<format>)",
+    },
+    logo: {
+      type: "string",
+      description: "Path to a PNG or JPEG logo",
+    },
+    footer: {
+      type: "string",
+      description: "Footer text (e.g. the authorising resolution)",
+    },
+    "accent-color": {
+      type: "string",
+      description: 'Accent color as "#rrggbb"',
+    },
+    "page-size": {
+      type: "string",
+      description: "PDF page size: letter or a4",
+      default: "letter",
+    },
+    template: {
+      type: "string",
+      description:
+        "Path to an ES module whose default export is a template object or HTML function",
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const format = args.format as RenderFormat;
+      if (!FORMATS.includes(format)) {
+        error(`Invalid --format. Must be one of: ${FORMATS.join(", ")}.`);
+        process.exitCode = 1;
+        return;
+      }
+      const pageSize = args["page-size"] as PdfPageSize;
+      if (!PAGE_SIZES.includes(pageSize)) {
+        error(`Invalid --page-size. Must be one of: ${PAGE_SIZES.join(", ")}.`);
+        process.exitCode = 1;
+        return;
+      }
+
+      const xml = await loadDocumentXml(args.input);
+      if (xml === undefined) {
+        error(`Document ${args.input} is not in the local ledger or inbox.`);
+        process.exitCode = 1;
+        return;
+      }
+      const parsed = parseDocumentXml(xml);
+      if (parsed.rootElement === "MensajeReceptor") {
+        error("The XML is a MensajeReceptor, not a comprobante.");
+        process.exitCode = 1;
+        return;
+      }
+      const clave = parsed.document.clave;
+
+      const template: RenderTemplate = {
+        ...(args.template ? await loadTemplate(args.template as string) : {}),
+        ...(args.logo ? { logo: await readFile(resolve(args.logo as string)) } : {}),
+        ...(args.footer ? { footer: args.footer as string } : {}),
+        ...(args["accent-color"] ? { accentColor: args["accent-color"] as string } : {}),
+      };
+
+      const rendered =
+        format === "pdf"
+          ? await renderDocument(parsed, { format, template, pageSize })
+          : await renderDocument(parsed, { format, template });
+
+      const outputPath = resolve((args.output as string | undefined) ?? `${clave}.${format}`);
+      await writeFile(outputPath, rendered);
+
+      const bytes = typeof rendered === "string" ? Buffer.byteLength(rendered) : rendered.length;
+      if (args.json) {
+        outputJson({ success: true, clave, format, outputPath, bytes });
+      } else {
+        success(`Rendered ${format.toUpperCase()}: ${outputPath}`);
+        detail("Clave", clave);
+        detail("Bytes", String(bytes));
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ success: false, error: message });
+      } else {
+        error(`Render failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads the document XML from a file, or by clave from the ledger
+ * (our documents) and then the inbox (supplier documents).
+ */
+async function loadDocumentXml(input: string): Promise<string | undefined> {
+  if (!/^\d{50}$/.test(input)) {
+    return readFile(resolve(input), "utf-8");
+  }
+  const record = await new FileDocumentStore().get(input);
+  if (record) {
+    return Buffer.from(record.signedXml, "base64").toString("utf-8");
+  }
+  return (await new FileInboxStore().get(input))?.xml;
+}
+
+/** Imports a template module; a bare function is taken as the HTML layout. */
+async function loadTemplate(path: string): Promise<RenderTemplate> {
+  const module = (await import(pathToFileURL(resolve(path)).href)) as { default?: unknown };
+  if (typeof module.default === "function") {
+    return { html: module.default as RenderTemplate["html"] };
+  }
+  if (typeof module.default === "object" && module.default !== null) {
+    return module.default as RenderTemplate;
+  }
+  throw new Error(`Template ${path} has no default export.`);
+}
@@ -0,0 +1,20 @@
+/**
+ * `hacienda report` command group.
+ *
+ * Subcommands: iva
+ *
+ * @module commands/report
+ */
+
+import { defineCommand } from "citty";
+import { ivaCommand } from "./iva.js";
+
+export const reportCommand = defineCommand({
+  meta: {
+    name: "report",
+    description: "Tax reports: monthly IVA (D-104) worksheet",
+  },
+  subCommands: {
+    iva: ivaCommand,
+  },
+});
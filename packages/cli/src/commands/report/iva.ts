@@ -0,0 +1,209 @@
+/**
+ * `hacienda report iva` command.
+ *
+ * Builds the monthly IVA declaration (D-104) worksheet from the local
+ * ledger and inbox (~/.hacienda-cr/), Hacienda's comprobantes list, or
+ * a folder of XML files, and prints it as a table, JSON or CSV.
+ *
+ * @module commands/report/iva
+ */
+
+import { resolve } from "node:path";
+import { writeFile } from "node:fs/promises";
+import { defineCommand } from "citty";
+import {
+  FileDocumentStore,
+  FileInboxStore,
+  buildIvaReport,
+  collectHaciendaDocuments,
+  collectLedgerDocuments,
+  collectXmlDocuments,
+  ivaReportToCsv,
+  loadConfig,
+} from "@dojocoding/hacienda-sdk";
+import type { IvaReport, IvaSection, PeriodDocuments } from "@dojocoding/hacienda-sdk";
+import { error, detail, outputJson, formatTable, success, warn, bold } from "../../utils/format.js";
+import type { TableColumn } from "../../utils/format.js";
+import { createAuthenticatedClient } from "../../utils/api-client.js";
+
+/** Where documents are read from. */
+const SOURCES = ["local", "hacienda", "xml"] as const;
+
+/** Column definitions for the worksheet table. */
+const WORKSHEET_COLUMNS: TableColumn[] = [
+  { header: "CONCEPTO", key: "concepto", minWidth: 20 },
+  { header: "BASE", key: "base", minWidth: 14 },
+  { header: "IMPUESTO", key: "impuesto", minWidth: 12 },
+];
+
+export const ivaCommand = defineCommand({
+  meta: {
+    name: "iva",
+    description: "Build the monthly IVA declaration (D-104) worksheet",
+  },
+  args: {
+    period: {
+      type: "string",
+      description: "Month to report (YYYY-MM)",
+      required: true,
+    },
+    source: {
+      type: "string",
+      description: 'Where to read documents: "local" ledger and inbox, "hacienda" or "xml"',
+      default: "local",
+    },
+    dir: {
+      type: "string",
+      description: "Folder of XML files (for --source xml)",
+    },
+    cedula: {
+      type: "string",
+      description: "Taxpayer cedula for --source xml (default: the profile's)",
+    },
+    csv: {
+      type: "boolean",
+      description: "Output as CSV",
+      default: false,
+    },
+    output: {
+      type: "string",
+      description: "Write the worksheet to this file as JSON, or CSV with --csv",
+    },
+    profile: {
+      type: "string",
+      description: "Config profile name",
+      default: "default",
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const period = args.period;
+      if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) {
+        error(`Invalid --period "${period}". Use YYYY-MM.`);
+        process.exitCode = 1;
+        return;
+      }
+
+      const source = args.source as (typeof SOURCES)[number];
+      if (!SOURCES.includes(source)) {
+        error(`Invalid --source. Must be one of: ${SOURCES.join(", ")}.`);
+        process.exitCode = 1;
+        return;
+      }
+      if (source === "xml" && !args.dir) {
+        error("--source xml needs the folder of XML files in --dir.");
+        process.exitCode = 1;
+        return;
+      }
+
+      const documents = await collect(source, period, args);
+      const report = buildIvaReport(period, documents);
+
+      if (args.output) {
+        const outputPath = resolve(args.output as string);
+        const content = args.csv
+          ? ivaReportToCsv(report)
+          : JSON.stringify({ source, ...report }, null, 2) + "\n";
+        await writeFile(outputPath, content, "utf-8");
+        if (args.json) {
+          outputJson({ success: true, outputPath });
+        } else {
+          success(`Worksheet written to ${outputPath}`);
+        }
+      } else if (args.csv) {
+        process.stdout.write(ivaReportToCsv(report));
+      } else if (args.json) {
+        outputJson({ success: true, source, report });
+      } else {
+        printReport(report);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ success: false, error: message });
+      } else {
+        error(`IVA report failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+async function collect(
+  source: (typeof SOURCES)[number],
+  period: string,
+  args: { profile?: unknown; dir?: unknown; cedula?: unknown },
+): Promise<PeriodDocuments> {
+  if (source === "local") {
+    return collectLedgerDocuments(period, {
+      documentStore: new FileDocumentStore(),
+      inboxStore: new FileInboxStore(),
+    });
+  }
+  if (source === "hacienda") {
+    const { httpClient, config } = await createAuthenticatedClient(args.profile as string);
+    return collectHaciendaDocuments(httpClient, period, config.profile.cedula);
+  }
+  const cedula =
+    (args.cedula as string | undefined) ??
+    (await loadConfig(args.profile as string)).profile.cedula;
+  return collectXmlDocuments(resolve(args.dir as string), period, cedula);
+}
+
+function printReport(report: IvaReport): void {
+  console.log(bold(`D-104 worksheet ${report.period} (CRC)`));
+  const sections: [string, IvaSection][] = [
+    ["Ventas", report.ventas],
+    ["Notas de crédito", report.notasCredito],
+    ["Ventas netas", report.ventasNetas],
+    ["Compras", report.compras],
+  ];
+  for (const [title, section] of sections) {
+    console.log(`\n${title}`);
+    console.log(formatTable(WORKSHEET_COLUMNS, sectionRows(section)));
+  }
+
+  console.log("");
+  detail("Débito fiscal", money(report.debitoFiscal));
+  detail("Crédito fiscal", money(report.creditoFiscal));
+  detail("Impuesto por pagar", money(report.impuestoPorPagar));
+  detail("Saldo a favor", money(report.saldoAFavor));
+  detail(
+    "Documents",
+    `${String(report.documentos.ventas)} sales, ${String(report.documentos.notasCredito)} ` +
+      `credit notes, ${String(report.documentos.compras)} purchases`,
+  );
+
+  for (const skipped of report.skipped) {
+    warn(`Skipped ${skipped.clave}: ${skipped.reason}`);
+  }
+}
+
+function sectionRows(section: IvaSection): Record<string, unknown>[] {
+  return [
+    ...section.porTarifa.map((rate) => ({
+      concepto: `IVA ${String(rate.tarifa)}% (${rate.codigoTarifa})`,
+      base: money(rate.base),
+      impuesto: money(rate.impuesto),
+    })),
+    { concepto: "Exentas", base: money(section.exentas), impuesto: "" },
+    {
+      concepto: "Exoneradas",
+      base: money(section.exoneradas),
+      impuesto: money(section.impuestoExonerado),
+    },
+  ];
+}
+
+function money(value: number): string {
+  return value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
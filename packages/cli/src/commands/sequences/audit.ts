@@ -0,0 +1,221 @@
+/**
+ * `hacienda sequences audit` command.
+ *
+ * Compares the consecutivo counters with the documents actually issued,
+ * taken from the local ledger (~/.hacienda-cr/documents/) or from
+ * Hacienda's comprobantes list, and reports gaps, duplicates and counters
+ * that fell behind. Exits with code 1 when anything is found.
+ *
+ * @module commands/sequences/audit
+ */
+
+import { defineCommand } from "citty";
+import {
+  FileDocumentStore,
+  auditSequences,
+  listComprobantes,
+  listSequences,
+} from "@dojocoding/hacienda-sdk";
+import type { SequenceGap, SequencedDocument } from "@dojocoding/hacienda-sdk";
+import {
+  error,
+  outputJson,
+  formatTable,
+  success,
+  warn,
+  detail,
+  green,
+  red,
+} from "../../utils/format.js";
+import type { TableColumn } from "../../utils/format.js";
+import { createAuthenticatedClient } from "../../utils/api-client.js";
+
+/** Page size used when reading Hacienda's comprobantes list. */
+const HACIENDA_PAGE_SIZE = 100;
+
+/** Gap ranges shown per key in text output. */
+const MAX_GAPS_SHOWN = 10;
+
+/** Column definitions for the audit table. */
+const AUDIT_COLUMNS: TableColumn[] = [
+  { header: "KEY", key: "key", minWidth: 14 },
+  { header: "COUNTER", key: "counter", minWidth: 7 },
+  { header: "DOCS", key: "documents", minWidth: 4 },
+  { header: "HIGHEST", key: "highest", minWidth: 7 },
+  { header: "MISSING", key: "missing", minWidth: 7 },
+  { header: "DUPLICATES", key: "duplicates", minWidth: 10 },
+  {
+    header: "RESULT",
+    key: "result",
+    minWidth: 6,
+    format: (v) => (v === "ok" ? green(String(v)) : red(String(v))),
+  },
+];
+
+export const auditCommand = defineCommand({
+  meta: {
+    name: "audit",
+    description: "Detect gaps and duplicate consecutivos against issued documents",
+  },
+  args: {
+    source: {
+      type: "string",
+      description: 'Where to read issued documents: "local" ledger or "hacienda"',
+      default: "local",
+    },
+    from: {
+      type: "string",
+      description: "Only documents emitted on or after this date (YYYY-MM-DD)",
+    },
+    to: {
+      type: "string",
+      description: "Only documents emitted on or before this date (YYYY-MM-DD)",
+    },
+    key: {
+      type: "string",
+      description: 'Only this sequence key, e.g. "01-001-00001"',
+    },
+    complete: {
+      type: "boolean",
+      description:
+        "Treat the documents as the full history and count gaps from 1 " +
+        "(default: on for the local ledger without date filters)",
+    },
+    profile: {
+      type: "string",
+      description: "Config profile name (for --source hacienda)",
+      default: "default",
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const source = args.source as string;
+      if (source !== "local" && source !== "hacienda") {
+        error('Invalid --source. Must be "local" or "hacienda".');
+        process.exitCode = 1;
+        return;
+      }
+
+      const from = args.from as string | undefined;
+      const to = args.to as string | undefined;
+      for (const date of [from, to]) {
+        if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+          error(`Invalid date "${date}". Use YYYY-MM-DD.`);
+          process.exitCode = 1;
+          return;
+        }
+      }
+
+      const documents =
+        source === "local"
+          ? await new FileDocumentStore().list({
+              ...(from ? { from: new Date(`${from}T00:00:00`) } : {}),
+              ...(to ? { to: new Date(`${to}T23:59:59.999`) } : {}),
+            })
+          : await listIssuedComprobantes(args.profile as string, from, to);
+
+      const complete =
+        (args.complete as boolean | undefined) ?? (source === "local" && !from && !to);
+      const report = auditSequences(await listSequences(), documents, { complete });
+      const keys = args.key ? report.keys.filter((k) => k.key === args.key) : report.keys;
+      const ok = keys.every(
+        (k) => k.gaps.length === 0 && k.duplicates.length === 0 && !k.counterBehind,
+      );
+
+      if (args.json) {
+        outputJson({ success: true, ok, source, complete, keys });
+      } else if (keys.length === 0) {
+        console.log("No sequence counters or documents to audit.");
+      } else {
+        const rows = keys.map((k) => ({
+          key: k.key,
+          counter: k.counter ?? "-",
+          documents: k.documents,
+          highest: k.highest ?? "-",
+          missing: countMissing(k.gaps),
+          duplicates: k.duplicates.length,
+          result:
+            k.gaps.length === 0 && k.duplicates.length === 0 && !k.counterBehind ? "ok" : "issues",
+        }));
+        console.log(formatTable(AUDIT_COLUMNS, rows));
+
+        for (const k of keys) {
+          if (k.gaps.length > 0) {
+            detail(`${k.key} gaps`, formatGaps(k.gaps));
+          }
+          for (const duplicate of k.duplicates) {
+            detail(`${k.key} #${String(duplicate.sequence)}`, duplicate.claves.join(", "));
+          }
+          if (k.counterBehind) {
+            warn(
+              `${k.key}: counter ${String(k.counter ?? 0)} is behind issued number ` +
+                `${String(k.highest)}. Repair it with "hacienda sequences set".`,
+            );
+          }
+        }
+        if (ok) {
+          success("No gaps or duplicates found");
+        }
+      }
+
+      if (!ok) {
+        process.exitCode = 1;
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ success: false, error: message });
+      } else {
+        error(`Sequence audit failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Reads every comprobante issued by the profile's taxpayer from Hacienda. */
+async function listIssuedComprobantes(
+  profile: string,
+  from: string | undefined,
+  to: string | undefined,
+): Promise<SequencedDocument[]> {
+  const { httpClient, config } = await createAuthenticatedClient(profile);
+
+  const documents: SequencedDocument[] = [];
+  for (let offset = 0; ; offset += HACIENDA_PAGE_SIZE) {
+    const page = await listComprobantes(httpClient, {
+      offset,
+      limit: HACIENDA_PAGE_SIZE,
+      emisorIdentificacion: config.profile.cedula,
+      ...(from ? { fechaEmisionDesde: from } : {}),
+      ...(to ? { fechaEmisionHasta: to } : {}),
+    });
+    documents.push(...page.comprobantes);
+    if (page.comprobantes.length === 0 || offset + HACIENDA_PAGE_SIZE >= page.totalRegistros) {
+      return documents;
+    }
+  }
+}
+
+function countMissing(gaps: readonly SequenceGap[]): number {
+  return gaps.reduce((total, gap) => total + gap.to - gap.from + 1, 0);
+}
+
+function formatGaps(gaps: readonly SequenceGap[]): string {
+  const shown = gaps
+    .slice(0, MAX_GAPS_SHOWN)
+    .map((gap) =>
+      gap.from === gap.to ? String(gap.from) : `${String(gap.from)}-${String(gap.to)}`,
+    );
+  const more = gaps.length - shown.length;
+  return more > 0 ? `${shown.join(", ")} (+${String(more)} more)` : shown.join(", ");
+}
@@ -0,0 +1,26 @@
+/**
+ * `hacienda sequences` command group.
+ *
+ * Subcommands: list, audit, set, log
+ *
+ * @module commands/sequences
+ */
+
+import { defineCommand } from "citty";
+import { listCommand } from "./list.js";
+import { auditCommand } from "./audit.js";
+import { setCommand } from "./set.js";
+import { logCommand } from "./log.js";
+
+export const sequencesCommand = defineCommand({
+  meta: {
+    name: "sequences",
+    description: "Consecutivo counters: list, audit for gaps and duplicates, audited repairs",
+  },
+  subCommands: {
+    list: listCommand,
+    audit: auditCommand,
+    set: setCommand,
+    log: logCommand,
+  },
+});
@@ -0,0 +1,62 @@
+/**
+ * `hacienda sequences list` command.
+ *
+ * Lists every consecutivo counter in ~/.hacienda-cr/sequences.json.
+ *
+ * @module commands/sequences/list
+ */
+
+import { defineCommand } from "citty";
+import { listSequences } from "@dojocoding/hacienda-sdk";
+import { error, outputJson, formatTable } from "../../utils/format.js";
+import type { TableColumn } from "../../utils/format.js";
+
+/** Column definitions for the sequences table. */
+const SEQUENCE_COLUMNS: TableColumn[] = [
+  { header: "KEY", key: "key", minWidth: 14 },
+  { header: "TYPE", key: "documentType", minWidth: 4 },
+  { header: "BRANCH", key: "branch", minWidth: 6 },
+  { header: "POS", key: "pos", minWidth: 5 },
+  { header: "CURRENT", key: "current", minWidth: 7 },
+];
+
+export const listCommand = defineCommand({
+  meta: {
+    name: "list",
+    description: "List consecutivo counters and their current values",
+  },
+  args: {
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const sequences = await listSequences();
+      const rows = Object.entries(sequences)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, current]) => {
+          const [documentType, branch, pos] = key.split("-");
+          return { key, documentType, branch, pos, current };
+        });
+
+      if (args.json) {
+        outputJson({ success: true, sequences: rows });
+      } else if (rows.length === 0) {
+        console.log("No sequence counters yet.");
+      } else {
+        console.log(formatTable(SEQUENCE_COLUMNS, rows));
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ success: false, error: message });
+      } else {
+        error(`Sequence list failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
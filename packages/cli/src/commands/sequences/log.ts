@@ -0,0 +1,63 @@
+/**
+ * `hacienda sequences log` command.
+ *
+ * Shows the audit trail of counter changes made with `sequences set`.
+ *
+ * @module commands/sequences/log
+ */
+
+import { defineCommand } from "citty";
+import { readSequenceAuditLog } from "@dojocoding/hacienda-sdk";
+import { error, outputJson, formatTable } from "../../utils/format.js";
+import type { TableColumn } from "../../utils/format.js";
+
+/** Column definitions for the audit log table. */
+const LOG_COLUMNS: TableColumn[] = [
+  { header: "TIMESTAMP", key: "timestamp", minWidth: 20 },
+  { header: "KEY", key: "key", minWidth: 14 },
+  { header: "FROM", key: "previous", minWidth: 4 },
+  { header: "TO", key: "value", minWidth: 4 },
+  { header: "STATUS", key: "status", minWidth: 6 },
+  { header: "ACTOR", key: "actor", minWidth: 5 },
+  { header: "REASON", key: "reason", minWidth: 10 },
+];
+
+export const logCommand = defineCommand({
+  meta: {
+    name: "log",
+    description: "Show the audit trail of sequence counter changes",
+  },
+  args: {
+    key: {
+      type: "string",
+      description: 'Only changes to this key, e.g. "01-001-00001"',
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const entries = await readSequenceAuditLog({ key: args.key as string | undefined });
+
+      if (args.json) {
+        outputJson({ success: true, entries });
+      } else if (entries.length === 0) {
+        console.log("No sequence changes recorded.");
+      } else {
+        const rows = entries.map((entry) => ({ ...entry, actor: entry.actor ?? "-" }));
+        console.log(formatTable(LOG_COLUMNS, rows));
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ success: false, error: message });
+      } else {
+        error(`Sequence log failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
@@ -0,0 +1,86 @@
+/**
+ * `hacienda sequences set` command.
+ *
+ * Sets a consecutivo counter and records who changed it and why in
+ * ~/.hacienda-cr/sequence-audit.jsonl. Lowering a counter can reissue
+ * numbers already used, so it requires --force; outstanding reservations
+ * are only dropped with --drop-reservations.
+ *
+ * @module commands/sequences/set
+ */
+
+import { defineCommand } from "citty";
+import { setSequence } from "@dojocoding/hacienda-sdk";
+import { success, error, detail, outputJson } from "../../utils/format.js";
+
+export const setCommand = defineCommand({
+  meta: {
+    name: "set",
+    description: "Set or repair a consecutivo counter, recording the reason",
+  },
+  args: {
+    key: {
+      type: "positional",
+      description: 'Sequence key "{docType}-{branch}-{pos}", e.g. 01-001-00001',
+      required: true,
+    },
+    value: {
+      type: "positional",
+      description: "Last used number (the next document gets value + 1)",
+      required: true,
+    },
+    reason: {
+      type: "string",
+      description: "Why the counter is being changed (recorded in the audit log)",
+      required: true,
+    },
+    actor: {
+      type: "string",
+      description: "Who is making the change (default: $USER)",
+    },
+    force: {
+      type: "boolean",
+      description: "Allow lowering the counter",
+      default: false,
+    },
+    "drop-reservations": {
+      type: "boolean",
+      description: "Set the counter even while numbers are reserved, dropping the reservations",
+      default: false,
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      const value = Number(args.value);
+      const actor = (args.actor as string | undefined) ?? process.env["USER"];
+      const entry = await setSequence(args.key, value, {
+        reason: args.reason as string,
+        ...(actor ? { actor } : {}),
+        allowDecrease: args.force as boolean,
+        dropReservations: args["drop-reservations"] as boolean,
+      });
+
+      if (args.json) {
+        outputJson({ success: true, entry });
+      } else {
+        success(`Sequence ${entry.key} set to ${String(entry.value)}`);
+        detail("Previous", String(entry.previous));
+        detail("Next number", String(entry.value + 1));
+        detail("Reason", entry.reason);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ success: false, error: message });
+      } else {
+        error(`Sequence update failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
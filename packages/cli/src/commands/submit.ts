@@ -2,7 +2,8 @@
  * `hacienda submit` command.
  *
  * Reads a JSON invoice file, validates it, builds XML, signs it,
- * and submits to the Hacienda API.
+ * and submits to the Hacienda API. With `--batch`, submits many
+ * already-signed documents and prints a per-document report.
  *
  * @module commands/submit
  */
@@ -18,9 +19,13 @@ import {
   validateFacturaInput,
   signAndEncode,
   submitAndWait,
+  submitBatch,
+  FileBatchJournal,
 } from "@dojocoding/hacienda-sdk";
-import { success, error, detail, info, outputJson } from "../utils/format.js";
+import type { BatchDocumentResult } from "@dojocoding/hacienda-sdk";
+import { success, error, warn, detail, info, outputJson, colorStatus } from "../utils/format.js";
 import { createAuthenticatedClient } from "../utils/api-client.js";
+import { loadBatchRequests } from "../utils/batch-input.js";
 
 export const submitCommand = defineCommand({
   meta: {
@@ -30,7 +35,7 @@ export const submitCommand = defineCommand({
   args: {
     file: {
       type: "positional",
-      description: "Path to JSON invoice file",
+      description: "Path to JSON invoice file (or batch input with --batch)",
       required: true,
     },
     "dry-run": {
@@ -38,6 +43,21 @@ export const submitCommand = defineCommand({
       description: "Validate and build XML without submitting",
       default: false,
     },
+    batch: {
+      type: "boolean",
+      description:
+        "Submit many signed documents: a directory of signed .xml files or an NDJSON file of submission payloads",
+      default: false,
+    },
+    concurrency: {
+      type: "string",
+      description: "Maximum concurrent requests in batch mode",
+      default: "4",
+    },
+    journal: {
+      type: "string",
+      description: "Batch journal path for resuming (default: <input>.journal.ndjson)",
+    },
     profile: {
       type: "string",
       description: "Config profile name",
@@ -59,6 +79,11 @@ export const submitCommand = defineCommand({
     },
   },
   async run({ args }) {
+    if (args.batch) {
+      await runBatch(args);
+      return;
+    }
+
     try {
       const filePath = resolve(args.file);
 
@@ -225,6 +250,7 @@ export const submitCommand = defineCommand({
           status: result.status,
           date: result.date,
           rejectionReason: result.rejectionReason,
+          errors: result.mensajeHacienda?.errores,
           pollAttempts: result.pollAttempts,
         });
       } else if (result.accepted) {
@@ -238,6 +264,12 @@ export const submitCommand = defineCommand({
         if (result.rejectionReason) {
           detail("Reason", result.rejectionReason);
         }
+        for (const validationError of result.mensajeHacienda?.errores ?? []) {
+          detail(
+            "Error",
+            [validationError.codigo, validationError.mensaje].filter(Boolean).join(" "),
+          );
+        }
         process.exitCode = 1;
       }
     } catch (err) {
@@ -251,3 +283,93 @@ export const submitCommand = defineCommand({
     }
   },
 });
+
+// ---------------------------------------------------------------------------
+// Batch mode
+// ---------------------------------------------------------------------------
+
+interface BatchArgs {
+  readonly file: string;
+  readonly concurrency?: string;
+  readonly journal?: string;
+  readonly profile?: string;
+  readonly json?: boolean;
+}
+
+async function runBatch(args: BatchArgs): Promise<void> {
+  try {
+    const concurrency = Number(args.concurrency ?? "4");
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      error("Invalid --concurrency. Must be a positive integer.");
+      process.exitCode = 1;
+      return;
+    }
+
+    const inputPath = resolve(args.file);
+    const requests = await loadBatchRequests(inputPath);
+    const journalPath = resolve(args.journal ?? `${inputPath}.journal.ndjson`);
+
+    const { httpClient } = await createAuthenticatedClient(args.profile);
+
+    if (!args.json) {
+      info(
+        `Submitting ${String(requests.length)} documents (concurrency ${String(concurrency)})...`,
+      );
+      detail("Journal", journalPath);
+    }
+
+    const report = await submitBatch(httpClient, requests, {
+      concurrency,
+      journal: new FileBatchJournal(journalPath),
+      onResult: (result) => {
+        if (!args.json) printBatchResult(result);
+      },
+    });
+
+    const allAccepted = report.accepted === report.results.length;
+    if (args.json) {
+      outputJson({
+        success: allAccepted,
+        journal: journalPath,
+        accepted: report.accepted,
+        rejected: report.rejected,
+        timedOut: report.timedOut,
+        failed: report.failed,
+        results: report.results.map(({ responseXml: _responseXml, ...result }) => result),
+      });
+    } else {
+      const summary =
+        `${String(report.accepted)} accepted, ${String(report.rejected)} rejected, ` +
+        `${String(report.timedOut)} timed out, ${String(report.failed)} failed`;
+      if (allAccepted) {
+        success(summary);
+      } else {
+        warn(summary);
+        if (report.timedOut > 0 || report.failed > 0) {
+          info("Rerun the same command to resume; delivered documents are not posted again.");
+        }
+      }
+    }
+
+    if (!allAccepted) {
+      process.exitCode = 1;
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error occurred";
+    if (args.json) {
+      outputJson({ success: false, error: message });
+    } else {
+      error(`Batch submit failed: ${message}`);
+    }
+    process.exitCode = 1;
+  }
+}
+
+function printBatchResult(result: BatchDocumentResult): void {
+  const label = result.status ? colorStatus(result.status) : result.outcome;
+  console.log(`  ${result.clave}  ${label}${result.outcome === "timed-out" ? " (timed out)" : ""}`);
+  const reason = result.rejectionReason ?? result.error;
+  if (reason) {
+    detail("Reason", reason);
+  }
+}
@@ -4,6 +4,9 @@
  * Validates invoice files against schemas and business rules.
  * Supports both JSON (Zod schema + business rules) and XML
  * (structural validation of root element and required fields).
+ * With --cabys, JSON line items are also checked against the local
+ * CABYS catalog; with --taxpayers, the activity code and receptor are
+ * checked against the (cached) taxpayer registry.
  *
  * @module commands/validate
  */
@@ -12,7 +15,13 @@ import { readFile } from "node:fs/promises";
 import { resolve, extname } from "node:path";
 import { defineCommand } from "citty";
 import { FacturaElectronicaSchema } from "@dojocoding/hacienda-shared";
-import { validateFacturaInput } from "@dojocoding/hacienda-sdk";
+import {
+  loadCabysCatalog,
+  TaxpayerCache,
+  validateFacturaInput,
+  validateTaxpayers,
+} from "@dojocoding/hacienda-sdk";
+import type { CabysCatalog } from "@dojocoding/hacienda-sdk";
 import { success, error, info, outputJson } from "../utils/format.js";
 
 // ---------------------------------------------------------------------------
@@ -93,6 +102,16 @@ export const validateCommand = defineCommand({
       description: "Path to JSON or XML invoice file",
       required: true,
     },
+    cabys: {
+      type: "boolean",
+      description: "Also check CABYS codes and IVA rates against the imported catalog",
+      default: false,
+    },
+    taxpayers: {
+      type: "boolean",
+      description: "Also check the activity code and receptor against the taxpayer registry",
+      default: false,
+    },
     json: {
       type: "boolean",
       description: "Output as JSON",
@@ -118,7 +137,10 @@ export const validateCommand = defineCommand({
       if (ext === ".xml") {
         await validateXml(fileContent, filePath, args.json);
       } else {
-        await validateJson(fileContent, filePath, args.json);
+        const cabys = args.cabys ? await loadCabysCatalog() : undefined;
+        const taxpayers = args.taxpayers ? new TaxpayerCache() : undefined;
+        await validateJson(fileContent, filePath, args.json, cabys, taxpayers);
+        await taxpayers?.settle();
       }
     } catch (err) {
       const message = err instanceof Error ? err.message : "Unknown error occurred";
@@ -140,6 +162,8 @@ async function validateJson(
   fileContent: string,
   filePath: string,
   jsonOutput: boolean,
+  cabys?: CabysCatalog,
+  taxpayers?: TaxpayerCache,
 ): Promise<void> {
   let invoiceData: unknown;
   try {
@@ -171,7 +195,7 @@ async function validateJson(
   }
 
   // SDK business-rule validation
-  const sdkResult = validateFacturaInput(zodResult.data);
+  const sdkResult = validateFacturaInput(zodResult.data, { cabys });
   if (!sdkResult.valid) {
     if (jsonOutput) {
       outputJson({
@@ -189,6 +213,21 @@ async function validateJson(
     return;
   }
 
+  // Taxpayer registry checks (rejection codes 06 and 07)
+  const taxpayerErrors = taxpayers ? await validateTaxpayers(zodResult.data, taxpayers) : [];
+  if (taxpayerErrors.length > 0) {
+    if (jsonOutput) {
+      outputJson({ valid: false, stage: "taxpayers", issues: taxpayerErrors });
+    } else {
+      error("Taxpayer validation failed:");
+      for (const err of taxpayerErrors) {
+        console.log(`  - ${err.path}: ${err.message}`);
+      }
+    }
+    process.exitCode = 1;
+    return;
+  }
+
   if (jsonOutput) {
     outputJson({ valid: true, format: "json", clave: zodResult.data.clave });
   } else {
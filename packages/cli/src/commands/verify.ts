@@ -0,0 +1,93 @@
+/**
+ * `hacienda verify` command.
+ *
+ * Verifies the XAdES-EPES signature of a signed XML document (e.g. a
+ * supplier's invoice before answering it with a Mensaje Receptor).
+ * Uses the SDK verification module and reports each check separately.
+ *
+ * @module commands/verify
+ */
+
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { defineCommand } from "citty";
+import { verifyXmlSignature } from "@dojocoding/hacienda-sdk";
+import { success, error, detail, green, red, outputJson } from "../utils/format.js";
+
+/** Display labels for each verification check, in report order. */
+const CHECK_LABELS = {
+  digest: "Digest",
+  signature: "Signature",
+  policy: "Policy",
+  certificate: "Certificate",
+} as const;
+
+export const verifyCommand = defineCommand({
+  meta: {
+    name: "verify",
+    description: "Verify the XAdES-EPES signature of a signed XML document",
+  },
+  args: {
+    file: {
+      type: "positional",
+      description: "Path to the signed XML file",
+      required: true,
+    },
+    json: {
+      type: "boolean",
+      description: "Output as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    try {
+      // Read the XML file
+      const xmlPath = resolve(args.file);
+      let xmlContent: string;
+      try {
+        xmlContent = await readFile(xmlPath, "utf-8");
+      } catch {
+        error(`Cannot read XML file: ${xmlPath}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      const report = await verifyXmlSignature(xmlContent);
+
+      if (args.json) {
+        outputJson(report);
+      } else {
+        if (report.valid) {
+          success(`Signature is valid: ${xmlPath}`);
+        } else {
+          error(`Signature verification failed: ${xmlPath}`);
+        }
+
+        for (const [name, label] of Object.entries(CHECK_LABELS)) {
+          const check = report.checks[name as keyof typeof CHECK_LABELS];
+          const mark = check.passed ? green("pass") : red("FAIL");
+          console.log(`  ${label.padEnd(12)} ${mark}  ${check.message}`);
+        }
+
+        if (report.signingTime) detail("Signed at", report.signingTime);
+        if (report.certificate) {
+          detail("Subject", report.certificate.subject);
+          detail("Issuer", report.certificate.issuer);
+          detail("Valid", `${report.certificate.validFrom} to ${report.certificate.validTo}`);
+        }
+      }
+
+      if (!report.valid) {
+        process.exitCode = 1;
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      if (args.json) {
+        outputJson({ valid: false, error: message });
+      } else {
+        error(`Verification failed: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  },
+});
@@ -22,14 +22,22 @@ describe("@dojocoding/hacienda-cli", () => {
     const subCommands = resolved.subCommands as Record<string, unknown>;
     expect(Object.keys(subCommands).sort()).toEqual([
       "auth",
+      "cabys",
+      "cert",
+      "credit-note",
       "draft",
       "get",
+      "inbox",
       "list",
       "lookup",
+      "render",
+      "report",
+      "sequences",
       "sign",
       "status",
       "submit",
       "validate",
+      "verify",
     ]);
   });
 });
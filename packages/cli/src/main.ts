@@ -15,9 +15,17 @@ import {
   listCommand,
   getCommand,
   signCommand,
+  verifyCommand,
+  certCommand,
   validateCommand,
   lookupCommand,
   draftCommand,
+  inboxCommand,
+  creditNoteCommand,
+  sequencesCommand,
+  renderCommand,
+  reportCommand,
+  cabysCommand,
 } from "./commands/index.js";
 
 export const PACKAGE_NAME = "@dojocoding/hacienda-cli" as const;
@@ -36,8 +44,16 @@ export const main = defineCommand({
     list: listCommand,
     get: getCommand,
     sign: signCommand,
+    verify: verifyCommand,
+    cert: certCommand,
     validate: validateCommand,
     lookup: lookupCommand,
     draft: draftCommand,
+    inbox: inboxCommand,
+    "credit-note": creditNoteCommand,
+    sequences: sequencesCommand,
+    render: renderCommand,
+    report: reportCommand,
+    cabys: cabysCommand,
   },
 });
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadBatchRequests } from "./batch-input.js";
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+const REQUEST = {
+  clave: "50601072500031012345670010000101000000000119999999",
+  fecha: "2025-07-25T10:00:00-06:00",
+  emisor: { tipoIdentificacion: "02", numeroIdentificacion: "3101234567" },
+  comprobanteXml: "PHNpZ25lZC8+",
+};
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "hacienda-cli-batch-test-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// NDJSON input
+// ---------------------------------------------------------------------------
+
+describe("loadBatchRequests (NDJSON)", () => {
+  it("reads one submission payload per line, skipping blank lines", async () => {
+    const file = join(dir, "batch.ndjson");
+    const second = { ...REQUEST, clave: `${REQUEST.clave.slice(0, -1)}8` };
+    await writeFile(file, `${JSON.stringify(REQUEST)}\n\n${JSON.stringify(second)}\n`);
+
+    const requests = await loadBatchRequests(file);
+
+    expect(requests.map((r) => r.clave)).toEqual([REQUEST.clave, second.clave]);
+  });
+
+  it("reports the line number of invalid entries", async () => {
+    const file = join(dir, "batch.ndjson");
+    await writeFile(file, `${JSON.stringify(REQUEST)}\n{"clave":"1"}\n`);
+
+    await expect(loadBatchRequests(file)).rejects.toThrow(/^Line 2: expected clave/);
+  });
+
+  it("rejects malformed JSON lines", async () => {
+    const file = join(dir, "batch.ndjson");
+    await writeFile(file, "{not json\n");
+
+    await expect(loadBatchRequests(file)).rejects.toThrow("Line 1: invalid JSON.");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Directory input
+// ---------------------------------------------------------------------------
+
+describe("loadBatchRequests (directory)", () => {
+  it("fails when the directory has no XML files", async () => {
+    await writeFile(join(dir, "notes.txt"), "hello");
+
+    await expect(loadBatchRequests(dir)).rejects.toThrow(/No \.xml files found/);
+  });
+
+  it("prefixes XML errors with the file name", async () => {
+    await writeFile(join(dir, "001.xml"), "<FacturaElectronica>");
+
+    await expect(loadBatchRequests(dir)).rejects.toThrow(/^001\.xml: Malformed XML/);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Loads signed documents for `hacienda submit --batch`.
+ *
+ * Accepts either a directory of signed XML files or a newline-delimited
+ * JSON file with one POST /recepcion payload per line.
+ *
+ * @module utils/batch-input
+ */
+
+import { readFile, readdir, stat } from "node:fs/promises";
+import { join } from "node:path";
+import type { SubmissionRequest } from "@dojocoding/hacienda-shared";
+import { buildSubmissionRequest, parseDocumentXml } from "@dojocoding/hacienda-sdk";
+
+/**
+ * Reads batch submission requests from a directory or NDJSON file.
+ *
+ * Directory mode reads every `*.xml` file, sorted by name. Each file must
+ * be a signed comprobante; the submission payload is derived from it.
+ *
+ * @param inputPath - Directory of signed XML files, or an NDJSON file.
+ * @returns The submission requests, in input order.
+ * @throws If a file cannot be read or an entry is not a signed document.
+ */
+export async function loadBatchRequests(inputPath: string): Promise<SubmissionRequest[]> {
+  const stats = await stat(inputPath);
+  return stats.isDirectory() ? loadXmlDirectory(inputPath) : loadNdjson(inputPath);
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+async function loadXmlDirectory(dir: string): Promise<SubmissionRequest[]> {
+  const files = (await readdir(dir)).filter((name) => name.toLowerCase().endsWith(".xml")).sort();
+  if (files.length === 0) {
+    throw new Error(`No .xml files found in ${dir}`);
+  }
+
+  const requests: SubmissionRequest[] = [];
+  for (const file of files) {
+    const xml = await readFile(join(dir, file), "utf-8");
+
+    let parsed: ReturnType<typeof parseDocumentXml>;
+    try {
+      parsed = parseDocumentXml(xml);
+    } catch (err) {
+      throw new Error(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    if (parsed.rootElement === "MensajeReceptor") {
+      throw new Error(`${file}: MensajeReceptor documents cannot be submitted in a batch.`);
+    }
+    if (!parsed.signed) {
+      throw new Error(`${file}: document is not signed. Sign it with \`hacienda sign\` first.`);
+    }
+
+    requests.push(
+      buildSubmissionRequest(parsed.document, Buffer.from(xml, "utf-8").toString("base64")),
+    );
+  }
+  return requests;
+}
+
+async function loadNdjson(file: string): Promise<SubmissionRequest[]> {
+  const lines = (await readFile(file, "utf-8")).split("\n");
+  const requests: SubmissionRequest[] = [];
+
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) continue;
+
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${String(index + 1)}: invalid JSON.`);
+    }
+
+    if (!isSubmissionRequest(entry)) {
+      throw new Error(
+        `Line ${String(index + 1)}: expected clave, fecha, emisor and comprobanteXml fields.`,
+      );
+    }
+    requests.push(entry);
+  }
+
+  if (requests.length === 0) {
+    throw new Error(`No submission requests found in ${file}`);
+  }
+  return requests;
+}
+
+function isSubmissionRequest(value: unknown): value is SubmissionRequest {
+  if (typeof value !== "object" || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  const emisor = entry["emisor"] as Record<string, unknown> | undefined;
+
+  return (
+    typeof entry["clave"] === "string" &&
+    typeof entry["fecha"] === "string" &&
+    typeof entry["comprobanteXml"] === "string" &&
+    typeof emisor?.["tipoIdentificacion"] === "string" &&
+    typeof emisor["numeroIdentificacion"] === "string"
+  );
+}
@@ -23,3 +23,5 @@ export type { TableColumn } from "./format.js";
 
 export { createAuthenticatedClient } from "./api-client.js";
 export type { BootstrapResult } from "./api-client.js";
+
+export { promptHidden } from "./prompt.js";
@@ -0,0 +1,30 @@
+/**
+ * Terminal prompts for secrets.
+ *
+ * @module utils/prompt
+ */
+
+import { createInterface } from "node:readline";
+import { Writable } from "node:stream";
+
+/**
+ * Asks a question on stdout and reads one line from stdin. Readline
+ * writes to a muted stream, so the typed characters are not echoed.
+ */
+export async function promptHidden(question: string): Promise<string> {
+  const muted = new Writable({
+    write(_chunk, _encoding, callback) {
+      callback();
+    },
+  });
+
+  const rl = createInterface({ input: process.stdin, output: muted, terminal: true });
+  process.stdout.write(question);
+  return new Promise<string>((resolve) => {
+    rl.question("", (answer) => {
+      rl.close();
+      process.stdout.write("\n");
+      resolve(answer);
+    });
+  });
+}
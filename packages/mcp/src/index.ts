@@ -11,12 +11,14 @@
  * - get_document — Get full document details by clave
  * - lookup_taxpayer — Look up taxpayer info by identification number
  * - draft_invoice — Generate a draft invoice template with sensible defaults
+ * - search_cabys — Search the local CABYS catalog by description or code
  *
  * Resources:
  * - hacienda://schemas/factura — JSON schema for invoice creation
  * - hacienda://reference/document-types — Document types, codes, and descriptions
  * - hacienda://reference/tax-codes — Tax codes, IVA rates, and units of measure
  * - hacienda://reference/id-types — Identification types and validation rules
+ * - hacienda://cabys/{codigo} — A CABYS code's categories and default IVA rate
  */
 
 export const PACKAGE_NAME = "@dojocoding/hacienda-mcp" as const;
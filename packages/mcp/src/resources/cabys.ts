@@ -0,0 +1,42 @@
+/**
+ * MCP resource: hacienda://cabys/{codigo}
+ *
+ * A CABYS code from the local catalog: description, category hierarchy
+ * and default IVA rate.
+ */
+
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { defaultIvaRateCode } from "@dojocoding/hacienda-sdk";
+import { getCabysCatalog } from "../tools/cabys-catalog.js";
+
+export function registerCabysResource(server: McpServer): void {
+  server.resource(
+    "cabys",
+    new ResourceTemplate("hacienda://cabys/{codigo}", { list: undefined }),
+    {
+      description:
+        "A CABYS goods and services code with its description, categories and default IVA " +
+        "rate, from the locally imported catalog. Find codes with the search_cabys tool.",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const codigo = String(variables.codigo);
+      const entry = (await getCabysCatalog()).lookup(codigo);
+      if (!entry) {
+        throw new Error(`CABYS code ${codigo} is not in the catalog`);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify({ ...entry, codigoTarifa: defaultIvaRateCode(entry) }, null, 2),
+          },
+        ],
+      };
+    },
+  );
+}
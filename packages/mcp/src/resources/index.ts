@@ -10,6 +10,7 @@ import { registerFacturaSchemaResource } from "./factura-schema.js";
 import { registerDocumentTypesResource } from "./document-types.js";
 import { registerTaxCodesResource } from "./tax-codes.js";
 import { registerIdTypesResource } from "./id-types.js";
+import { registerCabysResource } from "./cabys.js";
 
 /**
  * Register all resources with the MCP server.
@@ -19,4 +20,5 @@ export function registerResources(server: McpServer): void {
   registerDocumentTypesResource(server);
   registerTaxCodesResource(server);
   registerIdTypesResource(server);
+  registerCabysResource(server);
 }
@@ -8,7 +8,10 @@
 import { describe, it, expect, beforeAll, afterAll, vi, beforeEach } from "vitest";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 
+import { CabysCatalog } from "@dojocoding/hacienda-sdk";
+
 import { createServer } from "./server.js";
+import { clearCabysCatalogCache } from "./tools/cabys-catalog.js";
 import { createLinkedTransports } from "./testing/in-memory-transport.js";
 
 // Use vi.hoisted so mocks are available when vi.mock factories run
@@ -16,27 +19,33 @@ const {
   mockGetStatus,
   mockListComprobantes,
   mockGetComprobante,
-  mockLookupTaxpayer,
+  mockFindTaxpayer,
   mockCreateMcpApiClient,
+  mockLoadCabysCatalog,
 } = vi.hoisted(() => ({
   mockGetStatus: vi.fn(),
   mockListComprobantes: vi.fn(),
   mockGetComprobante: vi.fn(),
-  mockLookupTaxpayer: vi.fn(),
+  mockFindTaxpayer: vi.fn(),
   mockCreateMcpApiClient: vi.fn(),
+  mockLoadCabysCatalog: vi.fn(),
 }));
 
 vi.mock("@dojocoding/hacienda-sdk", async (importOriginal) => {
   const actual = (await importOriginal()) as Record<string, unknown>;
   return {
     ...actual,
-    lookupTaxpayer: mockLookupTaxpayer,
     getStatus: mockGetStatus,
     listComprobantes: mockListComprobantes,
     getComprobante: mockGetComprobante,
+    loadCabysCatalog: mockLoadCabysCatalog,
   };
 });
 
+vi.mock("./tools/taxpayer-cache.js", () => ({
+  getTaxpayerCache: () => ({ find: mockFindTaxpayer }),
+}));
+
 vi.mock("./tools/api-client.js", () => ({
   createMcpApiClient: (...args: unknown[]) => mockCreateMcpApiClient(...args),
   clearClientCache: vi.fn(),
@@ -64,6 +73,22 @@ async function readJsonResource(client: Client, uri: string): Promise<unknown> {
   return JSON.parse(content?.text as string);
 }
 
+/** A two-code catalog for the CABYS tool and resource. */
+const CABYS_CATALOG = new CabysCatalog([
+  {
+    codigo: "2391001000100",
+    descripcion: "Café tostado y molido",
+    impuesto: 1,
+    categorias: [{ codigo: "23", descripcion: "Productos de molinería" }],
+  },
+  {
+    codigo: "8314100000000",
+    descripcion: "Servicios de consultoría en TI",
+    impuesto: 13,
+    categorias: [],
+  },
+]);
+
 describe("MCP Server", () => {
   let client: Client;
 
@@ -83,6 +108,7 @@ describe("MCP Server", () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    clearCabysCatalogCache();
   });
 
   // -------------------------------------------------------------------------
@@ -112,7 +138,8 @@ describe("MCP Server", () => {
       expect(toolNames).toContain("get_document");
       expect(toolNames).toContain("lookup_taxpayer");
       expect(toolNames).toContain("draft_invoice");
-      expect(tools.length).toBe(6);
+      expect(toolNames).toContain("search_cabys");
+      expect(tools.length).toBe(7);
     });
 
     it("should have descriptions for all tools", async () => {
@@ -148,6 +175,11 @@ describe("MCP Server", () => {
       expect(resources.length).toBe(4);
     });
 
+    it("should list the CABYS resource template", async () => {
+      const { resourceTemplates } = await client.listResourceTemplates();
+      expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual(["hacienda://cabys/{codigo}"]);
+    });
+
     it("should have descriptions for all resources", async () => {
       const { resources } = await client.listResources();
       for (const resource of resources) {
@@ -215,6 +247,43 @@ describe("MCP Server", () => {
       expect(text).toContain("FacturaElectronica");
     });
 
+    it("should create a USD invoice with an explicit exchange rate", async () => {
+      const result = await client.callTool({
+        name: "create_invoice",
+        arguments: {
+          emisor: {
+            nombre: "Exportadora S.A.",
+            identificacion: { tipo: "02", numero: "3101234567" },
+            correoElectronico: "ventas@exportadora.com",
+          },
+          receptor: { nombre: "Foreign Client LLC" },
+          codigoActividad: "620100",
+          moneda: "USD",
+          tipoCambio: 500,
+          lineItems: [
+            {
+              codigoCabys: "8310100000000",
+              cantidad: 1,
+              unidadMedida: "Sp",
+              detalle: "Consulting services",
+              precioUnitario: 200,
+              esServicio: true,
+              impuesto: [{ codigo: "01", codigoTarifa: "08", tarifa: 13 }],
+            },
+          ],
+        },
+      });
+
+      expect(result.isError).toBeFalsy();
+      const text = getTextContent(result.content as { type: string; text: string }[]);
+      expect(text).toContain("Total: 226");
+      expect(text).toContain("Currency: USD (tipo de cambio 500)");
+      expect(text).toContain("Total (CRC): 113000");
+      expect(text).toContain("Tax (CRC): 13000");
+      expect(text).toContain("<CodigoMoneda>USD</CodigoMoneda>");
+      expect(text).toContain("<TipoCambio>500</TipoCambio>");
+    });
+
     it("should create an invoice with a single exempt line item (no tax)", async () => {
       const result = await client.callTool({
         name: "create_invoice",
@@ -444,6 +513,29 @@ describe("MCP Server", () => {
       );
     });
 
+    it("should act for a tenant cédula when given", async () => {
+      mockCreateMcpApiClient.mockResolvedValueOnce({});
+      mockGetStatus.mockResolvedValueOnce({
+        clave: "50601012500310123456700100001010000000001100000001",
+        status: "aceptado",
+        raw: {},
+      });
+
+      const result = await client.callTool({
+        name: "check_status",
+        arguments: {
+          clave: "50601012500310123456700100001010000000001100000001",
+          cedula: "3101234567",
+        },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(mockCreateMcpApiClient).toHaveBeenLastCalledWith({
+        profile: "default",
+        cedula: "3101234567",
+      });
+    });
+
     it("should return error for invalid clave", async () => {
       const result = await client.callTool({
         name: "check_status",
@@ -590,16 +682,23 @@ describe("MCP Server", () => {
 
   describe("lookup_taxpayer", () => {
     it("should return taxpayer info from the API", async () => {
-      mockLookupTaxpayer.mockResolvedValueOnce({
-        nombre: "EMPRESA DE PRUEBA S.A.",
-        tipoIdentificacion: "02",
-        actividades: [
-          {
-            codigo: "620100",
-            descripcion: "Actividades de programación informática",
-            estado: "Activo",
-          },
-        ],
+      mockFindTaxpayer.mockResolvedValueOnce({
+        taxpayer: {
+          nombre: "EMPRESA DE PRUEBA S.A.",
+          tipoIdentificacion: "02",
+          regimen: { codigo: "1", descripcion: "Régimen General" },
+          situacion: { moroso: true, omiso: false, estado: "Inscrito" },
+          actividades: [
+            {
+              codigo: "620100",
+              descripcion: "Actividades de programación informática",
+              estado: "A",
+              tipo: "P",
+            },
+          ],
+        },
+        fetchedAt: "2026-10-01T12:00:00.000Z",
+        source: "network",
       });
 
       const result = await client.callTool({
@@ -614,10 +713,49 @@ describe("MCP Server", () => {
       expect(text).toContain("3101234567");
       expect(text).toContain("620100");
       expect(text).toContain("programación informática");
+      expect(text).toContain("(A, primary)");
+      expect(text).toContain("Regime: Régimen General");
+      expect(text).toContain("Moroso: yes");
+      expect(text).not.toContain("Cached:");
+      expect(mockFindTaxpayer).toHaveBeenCalledWith("3101234567", { refresh: false });
+    });
+
+    it("should note when the answer comes from a stale cache entry", async () => {
+      mockFindTaxpayer.mockResolvedValueOnce({
+        taxpayer: { nombre: "EMPRESA DE PRUEBA S.A.", tipoIdentificacion: "02", actividades: [] },
+        fetchedAt: "2026-09-01T12:00:00.000Z",
+        source: "stale",
+      });
+
+      const result = await client.callTool({
+        name: "lookup_taxpayer",
+        arguments: { identificacion: "3101234567", refresh: true },
+      });
+
+      const text = getTextContent(result.content as { type: string; text: string }[]);
+      expect(text).toContain("Cached: 2026-09-01T12:00:00.000Z (stale)");
+      expect(mockFindTaxpayer).toHaveBeenCalledWith("3101234567", { refresh: true });
+    });
+
+    it("should return error for unregistered taxpayers", async () => {
+      mockFindTaxpayer.mockResolvedValueOnce({
+        taxpayer: undefined,
+        fetchedAt: "2026-10-01T12:00:00.000Z",
+        source: "cache",
+      });
+
+      const result = await client.callTool({
+        name: "lookup_taxpayer",
+        arguments: { identificacion: "3101234567" },
+      });
+
+      expect(result.isError).toBe(true);
+      const text = getTextContent(result.content as { type: string; text: string }[]);
+      expect(text).toContain("Taxpayer not found");
     });
 
     it("should return error when API call fails", async () => {
-      mockLookupTaxpayer.mockRejectedValueOnce(new Error("Network error"));
+      mockFindTaxpayer.mockRejectedValueOnce(new Error("Network error"));
 
       const result = await client.callTool({
         name: "lookup_taxpayer",
@@ -631,6 +769,50 @@ describe("MCP Server", () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Tool: search_cabys
+  // -------------------------------------------------------------------------
+
+  describe("search_cabys", () => {
+    it("should return matching codes with their IVA rate", async () => {
+      mockLoadCabysCatalog.mockResolvedValue(CABYS_CATALOG);
+
+      const result = await client.callTool({
+        name: "search_cabys",
+        arguments: { query: "cafe" },
+      });
+
+      expect(result.isError).toBeFalsy();
+      const text = getTextContent(result.content as { type: string; text: string }[]);
+      expect(text).toContain("[2391001000100] Café tostado y molido — IVA 1% (codigoTarifa 02)");
+      expect(text).toContain("Category: Productos de molinería");
+      expect(text).not.toContain("8314100000000");
+    });
+
+    it("should load the catalog once per session", async () => {
+      mockLoadCabysCatalog.mockResolvedValue(CABYS_CATALOG);
+
+      await client.callTool({ name: "search_cabys", arguments: { query: "cafe" } });
+      await client.callTool({ name: "search_cabys", arguments: { query: "8314" } });
+
+      expect(mockLoadCabysCatalog).toHaveBeenCalledTimes(1);
+    });
+
+    it("should return error when no catalog was imported", async () => {
+      mockLoadCabysCatalog.mockRejectedValueOnce(new Error("No CABYS catalog at /tmp/cabys.json."));
+
+      const result = await client.callTool({
+        name: "search_cabys",
+        arguments: { query: "cafe" },
+      });
+
+      expect(result.isError).toBe(true);
+      const text = getTextContent(result.content as { type: string; text: string }[]);
+      expect(text).toContain("No CABYS catalog");
+      expect(text).toContain("hacienda cabys import");
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Tool: draft_invoice
   // -------------------------------------------------------------------------
@@ -770,4 +952,33 @@ describe("MCP Server", () => {
       expect(fisica?.lengths).toContain(9);
     });
   });
+
+  // -------------------------------------------------------------------------
+  // Resource: cabys
+  // -------------------------------------------------------------------------
+
+  describe("resource: cabys", () => {
+    it("should return a CABYS code from the catalog", async () => {
+      mockLoadCabysCatalog.mockResolvedValue(CABYS_CATALOG);
+
+      const data = (await readJsonResource(client, "hacienda://cabys/8314100000000")) as Record<
+        string,
+        unknown
+      >;
+
+      expect(data).toMatchObject({
+        codigo: "8314100000000",
+        impuesto: 13,
+        codigoTarifa: "08",
+      });
+    });
+
+    it("should fail for a code not in the catalog", async () => {
+      mockLoadCabysCatalog.mockResolvedValue(CABYS_CATALOG);
+
+      await expect(client.readResource({ uri: "hacienda://cabys/9999999999999" })).rejects.toThrow(
+        /not in the catalog/,
+      );
+    });
+  });
 });
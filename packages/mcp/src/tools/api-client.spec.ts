@@ -0,0 +1,73 @@
+/**
+ * Tests for the per-profile client cache.
+ */
+
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+
+import { cachedProfileCount, clearClientCache, createMcpApiClient } from "./api-client.js";
+
+const { mockBootstrapClient } = vi.hoisted(() => ({
+  mockBootstrapClient: vi.fn(),
+}));
+
+vi.mock("@dojocoding/hacienda-sdk", async (importOriginal) => {
+  const actual = (await importOriginal()) as Record<string, unknown>;
+  return { ...actual, bootstrapClient: mockBootstrapClient };
+});
+
+describe("createMcpApiClient", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-01T12:00:00Z"));
+    mockBootstrapClient.mockImplementation(({ profileName }: { profileName: string }) =>
+      Promise.resolve({ httpClient: { profileName } }),
+    );
+  });
+
+  afterEach(() => {
+    clearClientCache();
+    mockBootstrapClient.mockReset();
+    vi.useRealTimers();
+  });
+
+  it("reuses the client of a profile", async () => {
+    const first = await createMcpApiClient({ profile: "dev" });
+    const second = await createMcpApiClient({ profile: "dev" });
+
+    expect(second).toBe(first);
+    expect(mockBootstrapClient).toHaveBeenCalledTimes(1);
+  });
+
+  it("evicts the least recently used profile past 20 clients", async () => {
+    for (let i = 0; i < 20; i++) {
+      await createMcpApiClient({ profile: `p${String(i)}` });
+    }
+    // Touch p0 so that p1 becomes the least recently used
+    await createMcpApiClient({ profile: "p0" });
+    await createMcpApiClient({ profile: "p20" });
+
+    expect(cachedProfileCount()).toBe(20);
+    mockBootstrapClient.mockClear();
+    await createMcpApiClient({ profile: "p0" });
+    expect(mockBootstrapClient).not.toHaveBeenCalled();
+    await createMcpApiClient({ profile: "p1" });
+    expect(mockBootstrapClient).toHaveBeenCalledWith({ profileName: "p1" });
+  });
+
+  it("drops clients idle for more than 30 minutes", async () => {
+    await createMcpApiClient({ profile: "dev" });
+    vi.advanceTimersByTime(30 * 60_000 + 1);
+
+    await createMcpApiClient({ profile: "prod" });
+
+    expect(cachedProfileCount()).toBe(1);
+  });
+
+  it("does not cache a failed login", async () => {
+    mockBootstrapClient.mockRejectedValueOnce(new Error("bad credentials"));
+
+    await expect(createMcpApiClient({ profile: "dev" })).rejects.toThrow("bad credentials");
+    expect(cachedProfileCount()).toBe(0);
+    await expect(createMcpApiClient({ profile: "dev" })).resolves.toEqual({ profileName: "dev" });
+  });
+});
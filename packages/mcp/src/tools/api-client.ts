@@ -1,43 +1,124 @@
 /**
  * Shared auth helper for MCP tools that need an authenticated API client.
  *
- * Delegates to the SDK's {@link bootstrapClient} and caches the resulting
- * HttpClient per profile name so that repeated tool calls within a session
- * reuse the same TokenManager (which handles token refresh internally).
+ * Tools act either for a config profile or for a taxpayer cédula. A
+ * profile delegates to the SDK's {@link bootstrapClient} and caches the
+ * resulting HttpClient per profile name, so that repeated tool calls
+ * within a session reuse the same TokenManager (which handles token
+ * refresh internally). A cédula goes through a shared
+ * {@link TenantRegistry}: the tenant's profile is found by cédula and its
+ * secrets come from the credential vault. Both caches are bounded the
+ * same way: the least recently used client is evicted past 20 entries,
+ * and clients idle for 30 minutes are dropped.
  *
  * @module tools/api-client
  */
 
-import { bootstrapClient } from "@dojocoding/hacienda-sdk";
+import { bootstrapClient, profileTenantResolver, TenantRegistry } from "@dojocoding/hacienda-sdk";
 import type { HttpClient } from "@dojocoding/hacienda-sdk";
 
-/** Cached clients keyed by profile name. */
-const clientCache = new Map<string, HttpClient>();
+/** Which taxpayer a tool call acts for. */
+export interface McpClientTarget {
+  /** Profile name (defaults to "default"). Ignored when `cedula` is set. */
+  profile?: string | undefined;
+  /** Taxpayer cédula, resolved through the tenant registry. */
+  cedula?: string | undefined;
+}
+
+/** Cache bounds, the same as the {@link TenantRegistry} defaults. */
+const CACHE_LIMITS = {
+  maxClients: 20,
+  idleTtlMs: 30 * 60_000,
+} as const;
+
+interface CacheEntry {
+  readonly client: Promise<HttpClient>;
+  lastUsed: number;
+}
+
+/** Cached clients keyed by profile name, least recently used first. */
+const clientCache = new Map<string, CacheEntry>();
+
+/** Per-cédula clients, created on first multi-tenant call. */
+let tenants: TenantRegistry | undefined;
 
 /**
- * Returns an authenticated HttpClient for the given profile, using a cache
- * so that repeated calls reuse the same TokenManager / token.
+ * Returns an authenticated HttpClient for the given profile or cédula,
+ * using a cache so that repeated calls reuse the same TokenManager / token.
  *
- * @param profileName - Profile name (defaults to "default").
+ * @param target - Profile name or taxpayer cédula.
  * @returns Authenticated HTTP client.
  * @throws Error with user-friendly message if auth fails.
  */
-export async function createMcpApiClient(profileName?: string): Promise<HttpClient> {
-  const key = profileName ?? "default";
+export async function createMcpApiClient(target: McpClientTarget = {}): Promise<HttpClient> {
+  if (target.cedula !== undefined) {
+    tenants ??= new TenantRegistry({
+      resolve: profileTenantResolver(),
+      maxClients: CACHE_LIMITS.maxClients,
+      idleTtlMs: CACHE_LIMITS.idleTtlMs,
+    });
+    const client = await tenants.get(target.cedula);
+    return client.getHttpClient();
+  }
+
+  const key = target.profile ?? "default";
+  const now = Date.now();
+  evictIdle(now);
 
   const cached = clientCache.get(key);
   if (cached) {
-    return cached;
+    // Re-insert to mark as most recently used
+    clientCache.delete(key);
+    cached.lastUsed = now;
+    clientCache.set(key, cached);
+    return cached.client;
   }
 
-  const { httpClient } = await bootstrapClient({ profileName: key });
-  clientCache.set(key, httpClient);
-  return httpClient;
+  const client = bootstrapClient({ profileName: key }).then(({ httpClient }) => httpClient);
+  clientCache.set(key, { client, lastUsed: now });
+  evictOverflow();
+
+  try {
+    return await client;
+  } catch (error) {
+    // Do not cache failed logins
+    if (clientCache.get(key)?.client === client) {
+      clientCache.delete(key);
+    }
+    throw error;
+  }
+}
+
+/** Number of clients cached per profile. Primarily used for testing. */
+export function cachedProfileCount(): number {
+  return clientCache.size;
 }
 
 /**
- * Clears the client cache. Primarily used for testing.
+ * Clears the client cache and the tenant registry. Primarily used for testing.
  */
 export function clearClientCache(): void {
   clientCache.clear();
+  tenants?.clear();
+  tenants = undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function evictIdle(now: number): void {
+  for (const [key, entry] of clientCache) {
+    if (now - entry.lastUsed > CACHE_LIMITS.idleTtlMs) {
+      clientCache.delete(key);
+    }
+  }
+}
+
+function evictOverflow(): void {
+  // Map iteration order is insertion order: the first key is the least recently used
+  for (const key of clientCache.keys()) {
+    if (clientCache.size <= CACHE_LIMITS.maxClients) break;
+    clientCache.delete(key);
+  }
 }
@@ -0,0 +1,33 @@
+/**
+ * Shared access to the local CABYS catalog for MCP tools and resources.
+ *
+ * Loads ~/.hacienda-cr/cabys.json once per session; the catalog is large
+ * and does not change while the server runs. A failed load is not
+ * cached, so importing the catalog mid-session takes effect.
+ *
+ * @module tools/cabys-catalog
+ */
+
+import { loadCabysCatalog } from "@dojocoding/hacienda-sdk";
+import type { CabysCatalog } from "@dojocoding/hacienda-sdk";
+
+/** The loaded catalog, once available. */
+let cachedCatalog: CabysCatalog | undefined;
+
+/**
+ * Returns the local CABYS catalog, loading it on first use.
+ *
+ * @returns The catalog.
+ * @throws Error if no catalog was imported (`hacienda cabys import <file>`).
+ */
+export async function getCabysCatalog(): Promise<CabysCatalog> {
+  cachedCatalog ??= await loadCabysCatalog();
+  return cachedCatalog;
+}
+
+/**
+ * Clears the cached catalog. Primarily used for testing.
+ */
+export function clearCabysCatalogCache(): void {
+  cachedCatalog = undefined;
+}
@@ -0,0 +1,91 @@
+/**
+ * MCP tool: search_cabys
+ *
+ * - search_cabys: find CABYS codes by description or code prefix in the
+ *   local catalog, with each code's default IVA rate
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { defaultIvaRateCode } from "@dojocoding/hacienda-sdk";
+import { getCabysCatalog } from "./cabys-catalog.js";
+
+// ---------------------------------------------------------------------------
+// search_cabys
+// ---------------------------------------------------------------------------
+
+export function registerSearchCabysTool(server: McpServer): void {
+  server.tool(
+    "search_cabys",
+    "Search the CABYS catalog of goods and services for the 13-digit code to put on an " +
+      "invoice line (codigoCabys). Matches description words (accents optional) or the start " +
+      "of a code, and returns each code's default IVA rate. Uses the locally imported catalog.",
+    {
+      query: z
+        .string()
+        .min(1)
+        .describe('Words describing the product or service (e.g. "cafe molido"), or a code prefix'),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .default(10)
+        .describe("Maximum number of results. Defaults to 10"),
+    },
+    async (args) => {
+      try {
+        const catalog = await getCabysCatalog();
+        const results = catalog.search(args.query, { limit: args.limit });
+
+        if (results.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `No CABYS codes match "${args.query}". Try fewer or more general words.`,
+              },
+            ],
+          };
+        }
+
+        const lines = results.map((entry) => {
+          const codigoTarifa = defaultIvaRateCode(entry);
+          const category = entry.categorias.at(-1)?.descripcion;
+          return (
+            `  - [${entry.codigo}] ${entry.descripcion} — IVA ${String(entry.impuesto)}%` +
+            (codigoTarifa ? ` (codigoTarifa ${codigoTarifa})` : "") +
+            (category ? `\n    Category: ${category}` : "")
+          );
+        });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: [
+                `CABYS codes matching "${args.query}" (${String(results.length)}):`,
+                ``,
+                ...lines,
+                ``,
+                `Full details of a code: hacienda://cabys/{codigo}`,
+              ].join("\n"),
+            },
+          ],
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error searching CABYS: ${message} Import it with: hacienda cabys import <file>`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+}
@@ -5,6 +5,10 @@
  * validates it with Zod schemas, computes tax totals, builds
  * the Factura Electronica XML via the SDK, and returns it.
  *
+ * Invoices in a foreign currency take their exchange rate from the
+ * `tipoCambio` argument or, when omitted, from the local exchange-rate
+ * table (~/.hacienda-cr/exchange-rates.json).
+ *
  * Signing and submission are not yet implemented — the tool
  * returns the unsigned XML string.
  */
@@ -20,11 +24,14 @@ import {
   calculateLineItemTotals,
   calculateInvoiceSummary,
   getNextSequence,
+  resolveCodigoTipoMoneda,
+  toColones,
+  FileExchangeRateProvider,
   DEFAULT_BRANCH,
   DEFAULT_POS,
 } from "@dojocoding/hacienda-sdk";
 import type { LineItemInput, CalculatedLineItem } from "@dojocoding/hacienda-sdk";
-import type { FacturaElectronica } from "@dojocoding/hacienda-shared";
+import type { CodigoTipoMoneda, FacturaElectronica } from "@dojocoding/hacienda-shared";
 
 // ---------------------------------------------------------------------------
 // Input schema
@@ -93,6 +100,18 @@ const CreateInvoiceInputSchema = z.object({
     .string()
     .optional()
     .describe("Credit term in days (required when condicionVenta is 02)"),
+  moneda: z
+    .enum(["CRC", "USD", "EUR"])
+    .default("CRC")
+    .describe('Invoice currency (ISO 4217). Defaults to "CRC"'),
+  tipoCambio: z
+    .number()
+    .positive()
+    .optional()
+    .describe(
+      "Colones per unit of the invoice currency. Defaults to the rate stored in " +
+        "~/.hacienda-cr/exchange-rates.json for the emission date",
+    ),
 });
 
 // ---------------------------------------------------------------------------
@@ -114,6 +133,8 @@ export function registerCreateInvoiceTool(server: McpServer): void {
       medioPago: CreateInvoiceInputSchema.shape.medioPago,
       lineItems: CreateInvoiceInputSchema.shape.lineItems,
       plazoCredito: CreateInvoiceInputSchema.shape.plazoCredito,
+      moneda: CreateInvoiceInputSchema.shape.moneda,
+      tipoCambio: CreateInvoiceInputSchema.shape.tipoCambio,
     },
     async (args) => {
       try {
@@ -132,11 +153,15 @@ export function registerCreateInvoiceTool(server: McpServer): void {
 
         const calculatedItems: CalculatedLineItem[] = lineItemInputs.map(calculateLineItemTotals);
 
-        // 2. Calculate invoice summary
-        const summary = calculateInvoiceSummary(calculatedItems);
+        // 2. Resolve the currency and calculate the invoice summary
+        const now = new Date();
+        const codigoTipoMoneda: CodigoTipoMoneda =
+          args.tipoCambio !== undefined
+            ? { codigoMoneda: args.moneda, tipoCambio: args.tipoCambio }
+            : await resolveCodigoTipoMoneda(args.moneda, new FileExchangeRateProvider(), now);
+        const summary = calculateInvoiceSummary(calculatedItems, undefined, codigoTipoMoneda);
 
         // 3. Get next sequence number and generate clave numerica
-        const now = new Date();
         const taxpayerId = args.emisor.identificacion.numero;
         const docTypeCode = "01"; // Factura Electronica
         const branch = DEFAULT_BRANCH; // "001"
@@ -204,6 +229,7 @@ export function registerCreateInvoiceTool(server: McpServer): void {
           medioPago: args.medioPago as FacturaElectronica["medioPago"],
           detalleServicio,
           resumenFactura: {
+            codigoTipoMoneda,
             totalServGravados: summary.totalServGravados,
             totalServExentos: summary.totalServExentos,
             ...(summary.totalServExonerado > 0
@@ -227,6 +253,7 @@ export function registerCreateInvoiceTool(server: McpServer): void {
 
         // 8. Build the XML
         const xml = buildFacturaXml(factura);
+        const enColones = toColones(factura.resumenFactura);
 
         return {
           content: [
@@ -239,6 +266,13 @@ export function registerCreateInvoiceTool(server: McpServer): void {
                 `Consecutivo: ${numeroConsecutivo}`,
                 `Total: ${summary.totalComprobante}`,
                 `Tax: ${summary.totalImpuesto}`,
+                ...(codigoTipoMoneda.codigoMoneda !== "CRC"
+                  ? [
+                      `Currency: ${codigoTipoMoneda.codigoMoneda} (tipo de cambio ${codigoTipoMoneda.tipoCambio})`,
+                      `Total (CRC): ${enColones.totalComprobante}`,
+                      `Tax (CRC): ${enColones.totalImpuesto}`,
+                    ]
+                  : []),
                 ``,
                 `--- XML (unsigned) ---`,
                 xml,
@@ -32,6 +32,12 @@ export function registerCheckStatusTool(server: McpServer): void {
     {
       clave: z.string().length(50).describe("The 50-digit clave numerica of the document to check"),
       profile: z.string().default("default").describe('Config profile name (default: "default")'),
+      cedula: z
+        .string()
+        .optional()
+        .describe(
+          "Taxpayer cédula to act for instead of the profile (multi-tenant; password from the credential vault)",
+        ),
     },
     async (args) => {
       try {
@@ -42,7 +48,7 @@ export function registerCheckStatusTool(server: McpServer): void {
           `Unknown (${parsed.documentType})`;
 
         // Authenticate and query status
-        const httpClient = await createMcpApiClient(args.profile);
+        const httpClient = await createMcpApiClient({ profile: args.profile, cedula: args.cedula });
         const status = await getStatus(httpClient, args.clave);
 
         // Extract rejection reason if available
@@ -120,10 +126,16 @@ export function registerListDocumentsTool(server: McpServer): void {
       fechaDesde: z.string().optional().describe("Filter by start date (ISO 8601)"),
       fechaHasta: z.string().optional().describe("Filter by end date (ISO 8601)"),
       profile: z.string().default("default").describe('Config profile name (default: "default")'),
+      cedula: z
+        .string()
+        .optional()
+        .describe(
+          "Taxpayer cédula to act for instead of the profile (multi-tenant; password from the credential vault)",
+        ),
     },
     async (args) => {
       try {
-        const httpClient = await createMcpApiClient(args.profile);
+        const httpClient = await createMcpApiClient({ profile: args.profile, cedula: args.cedula });
 
         const result = await listComprobantes(httpClient, {
           offset: args.offset,
@@ -195,6 +207,12 @@ export function registerGetDocumentTool(server: McpServer): void {
         .length(50)
         .describe("The 50-digit clave numerica of the document to retrieve"),
       profile: z.string().default("default").describe('Config profile name (default: "default")'),
+      cedula: z
+        .string()
+        .optional()
+        .describe(
+          "Taxpayer cédula to act for instead of the profile (multi-tenant; password from the credential vault)",
+        ),
     },
     async (args) => {
       try {
@@ -205,7 +223,7 @@ export function registerGetDocumentTool(server: McpServer): void {
           `Unknown (${parsed.documentType})`;
 
         // Authenticate and fetch document
-        const httpClient = await createMcpApiClient(args.profile);
+        const httpClient = await createMcpApiClient({ profile: args.profile, cedula: args.cedula });
         const doc = await getComprobante(httpClient, args.clave);
 
         // Decode the submitted XML if available
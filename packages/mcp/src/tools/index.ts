@@ -13,6 +13,7 @@ import {
   registerGetDocumentTool,
 } from "./document-tools.js";
 import { registerLookupTaxpayerTool, registerDraftInvoiceTool } from "./lookup-tools.js";
+import { registerSearchCabysTool } from "./cabys-tools.js";
 
 /**
  * Register all tools with the MCP server.
@@ -24,4 +25,5 @@ export function registerTools(server: McpServer): void {
   registerGetDocumentTool(server);
   registerLookupTaxpayerTool(server);
   registerDraftInvoiceTool(server);
+  registerSearchCabysTool(server);
 }
@@ -1,17 +1,18 @@
 /**
  * MCP tools: lookup_taxpayer, draft_invoice
  *
- * - lookup_taxpayer: look up taxpayer info by cedula (public API, no auth needed)
+ * - lookup_taxpayer: look up taxpayer info by cedula (public API, no auth needed, cached)
  * - draft_invoice: help draft an invoice interactively with sensible defaults
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
-import { lookupTaxpayer } from "@dojocoding/hacienda-sdk";
 import { IDENTIFICATION_TYPE_NAMES } from "@dojocoding/hacienda-shared";
 import type { IdentificationType } from "@dojocoding/hacienda-shared";
 
+import { getTaxpayerCache } from "./taxpayer-cache.js";
+
 // ---------------------------------------------------------------------------
 // lookup_taxpayer
 // ---------------------------------------------------------------------------
@@ -20,23 +21,44 @@ export function registerLookupTaxpayerTool(server: McpServer): void {
   server.tool(
     "lookup_taxpayer",
     "Look up a Costa Rica taxpayer by their identification number (cedula). " +
-      "Returns the taxpayer name, identification type, and registered economic activities. " +
-      "Useful for validating a receptor before creating an invoice.",
+      "Returns the taxpayer name, identification type, tax regime, standing (moroso/omiso) " +
+      "and registered economic activities. Results are cached between calls. " +
+      "Useful for validating a receptor or the emisor's activity code before creating an invoice.",
     {
       identificacion: z
         .string()
         .min(9)
         .max(12)
         .describe("Taxpayer identification number (9-12 digits)"),
+      refresh: z
+        .boolean()
+        .default(false)
+        .describe("Query Hacienda even if the taxpayer is cached. Defaults to false"),
     },
     async (args) => {
       try {
-        const info = await lookupTaxpayer(args.identificacion);
+        const result = await getTaxpayerCache().find(args.identificacion, {
+          refresh: args.refresh,
+        });
+        const info = result.taxpayer;
+        if (!info) {
+          throw new Error(`Taxpayer not found for identification: ${args.identificacion}`);
+        }
 
         const activities =
           info.actividades.length > 0
-            ? info.actividades.map((a) => `  - [${a.codigo}] ${a.descripcion} (${a.estado})`)
+            ? info.actividades.map(
+                (a) =>
+                  `  - [${a.codigo}] ${a.descripcion} (${a.estado}${a.tipo === "P" ? ", primary" : ""})`,
+              )
             : ["  (no activities registered)"];
+        const situacion = info.situacion
+          ? [
+              `Status: ${info.situacion.estado}`,
+              `Moroso: ${info.situacion.moroso ? "yes" : "no"}`,
+              `Omiso: ${info.situacion.omiso ? "yes" : "no"}`,
+            ]
+          : [];
 
         return {
           content: [
@@ -48,6 +70,11 @@ export function registerLookupTaxpayerTool(server: McpServer): void {
                 `Name: ${info.nombre}`,
                 `Identification: ${args.identificacion}`,
                 `Type: ${info.tipoIdentificacion}`,
+                ...(info.regimen ? [`Regime: ${info.regimen.descripcion}`] : []),
+                ...situacion,
+                ...(result.source !== "network"
+                  ? [`Cached: ${result.fetchedAt}${result.source === "stale" ? " (stale)" : ""}`]
+                  : []),
                 ``,
                 `Economic Activities:`,
                 ...activities,
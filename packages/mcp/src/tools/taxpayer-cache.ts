@@ -0,0 +1,24 @@
+/**
+ * Shared taxpayer cache for MCP tools.
+ *
+ * One cache per session, so repeated lookups during a conversation are
+ * answered from ~/.hacienda-cr/taxpayers.json instead of the public API,
+ * and still answered when the API is unreachable.
+ *
+ * @module tools/taxpayer-cache
+ */
+
+import { TaxpayerCache } from "@dojocoding/hacienda-sdk";
+
+/** The session's cache, created on first use. */
+let taxpayerCache: TaxpayerCache | undefined;
+
+/**
+ * Returns the session's taxpayer cache.
+ *
+ * @returns The cache.
+ */
+export function getTaxpayerCache(): TaxpayerCache {
+  taxpayerCache ??= new TaxpayerCache();
+  return taxpayerCache;
+}
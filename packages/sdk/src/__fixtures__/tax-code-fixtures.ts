@@ -0,0 +1,239 @@
+/**
+ * Test fixtures for every tax code (Codigo de Impuesto).
+ *
+ * Each fixture is a single line item taxed under one TaxCode — with IVA
+ * on top where it applies — together with the amounts Hacienda expects.
+ * Specific taxes use per-unit data (`datosImpuestoEspecifico`) and are
+ * added to the IVA base.
+ */
+
+import type { TaxCode } from "@dojocoding/hacienda-shared";
+
+import type { LineItemInput } from "../tax/calculator.js";
+
+/** A line item taxed under one tax code and its expected totals. */
+export interface TaxCodeFixture {
+  /** Line item input for `calculateLineItemTotals`. */
+  line: LineItemInput;
+  /** Expected gross amount of each tax, in input order. */
+  montos: number[];
+  /** Expected IVA base (subTotal + non-IVA taxes). */
+  baseImponible: number;
+  /** Expected net tax total. */
+  impuestoNeto: number;
+  /** Expected line total. */
+  montoTotalLinea: number;
+}
+
+const IVA_13 = { codigo: "01", codigoTarifa: "08", tarifa: 13 } as const;
+
+export const TAX_CODE_FIXTURES: Record<TaxCode, TaxCodeFixture> = {
+  // 2 x 5,000 at 13% IVA
+  "01": {
+    line: {
+      numeroLinea: 1,
+      codigoCabys: "4321000000000",
+      cantidad: 2,
+      unidadMedida: "Unid",
+      detalle: "Producto gravado",
+      precioUnitario: 5000,
+      impuesto: [IVA_13],
+    },
+    montos: [1300],
+    baseImponible: 10000,
+    impuestoNeto: 1300,
+    montoTotalLinea: 11300,
+  },
+
+  // 30% Selectivo de Consumo, IVA on 20,000 + 6,000
+  "02": {
+    line: {
+      numeroLinea: 1,
+      codigoCabys: "4321000000000",
+      cantidad: 1,
+      unidadMedida: "Unid",
+      detalle: "Electrodoméstico con selectivo de consumo",
+      precioUnitario: 20000,
+      impuesto: [{ codigo: "02", tarifa: 30 }, IVA_13],
+    },
+    montos: [6000, 3380],
+    baseImponible: 26000,
+    impuestoNeto: 9380,
+    montoTotalLinea: 29380,
+  },
+
+  // 40 liters at ₡265.75 per liter, no IVA on fuel
+  "03": {
+    line: {
+      numeroLinea: 1,
+      codigoCabys: "4321000000000",
+      cantidad: 40,
+      unidadMedida: "l",
+      detalle: "Gasolina súper",
+      precioUnitario: 700,
+      impuesto: [
+        {
+          codigo: "03",
+          tarifa: 0,
+          datosImpuestoEspecifico: { cantidadUnidadMedida: 1, impuestoUnidad: 265.75 },
+        },
+      ],
+    },
+    montos: [10630],
+    baseImponible: 38630,
+    impuestoNeto: 10630,
+    montoTotalLinea: 38630,
+  },
+
+  // 6 x 750 ml at 40% = 1,800 ml of absolute alcohol at ₡6.50 per ml
+  "04": {
+    line: {
+      numeroLinea: 1,
+      codigoCabys: "4321000000000",
+      cantidad: 6,
+      unidadMedida: "Unid",
+      detalle: "Ron 750 ml",
+      precioUnitario: 4500,
+      impuesto: [
+        {
+          codigo: "04",
+          tarifa: 0,
+          datosImpuestoEspecifico: {
+            volumenUnidadConsumo: 750,
+            porcentaje: 40,
+            impuestoUnidad: 6.5,
+          },
+        },
+        IVA_13,
+      ],
+    },
+    montos: [11700, 5031],
+    baseImponible: 38700,
+    impuestoNeto: 16731,
+    montoTotalLinea: 43731,
+  },
+
+  // 24 x 355 ml at ₡0.0357 per ml
+  "05": {
+    line: {
+      numeroLinea: 1,
+      codigoCabys: "4321000000000",
+      cantidad: 24,
+      unidadMedida: "Unid",
+      detalle: "Refresco gaseoso 355 ml",
+      precioUnitario: 600,
+      impuesto: [
+        {
+          codigo: "05",
+          tarifa: 0,
+          datosImpuestoEspecifico: { volumenUnidadConsumo: 355, impuestoUnidad: 0.0357 },
+        },
+        IVA_13,
+      ],
+    },
+    montos: [304.164, 1911.54132],
+    baseImponible: 14704.164,
+    impuestoNeto: 2215.70532,
+    montoTotalLinea: 16615.70532,
+  },
+
+  // 10 packs x 20 cigarettes at ₡26.71 per cigarette
+  "06": {
+    line: {
+      numeroLinea: 1,
+      codigoCabys: "4321000000000",
+      cantidad: 10,
+      unidadMedida: "Pq",
+      detalle: "Cigarrillos (paquete de 20)",
+      precioUnitario: 2500,
+      impuesto: [
+        {
+          codigo: "06",
+          tarifa: 0,
+          datosImpuestoEspecifico: { cantidadUnidadMedida: 20, impuestoUnidad: 26.71 },
+        },
+        IVA_13,
+      ],
+    },
+    montos: [5342, 3944.46],
+    baseImponible: 30342,
+    impuestoNeto: 9286.46,
+    montoTotalLinea: 34286.46,
+  },
+
+  // IVA cálculo especial at 13%
+  "07": {
+    line: {
+      numeroLinea: 1,
+      codigoCabys: "4321000000000",
+      cantidad: 1,
+      unidadMedida: "Sp",
+      detalle: "Servicio con IVA de cálculo especial",
+      precioUnitario: 50000,
+      esServicio: true,
+      impuesto: [{ codigo: "07", codigoTarifa: "08", tarifa: 13 }],
+    },
+    montos: [6500],
+    baseImponible: 50000,
+    impuestoNeto: 6500,
+    montoTotalLinea: 56500,
+  },
+
+  // Used vehicle with a 0.0422 IVA factor
+  "08": {
+    line: {
+      numeroLinea: 1,
+      codigoCabys: "4321000000000",
+      cantidad: 1,
+      unidadMedida: "Unid",
+      detalle: "Vehículo usado",
+      precioUnitario: 1500000,
+      impuesto: [{ codigo: "08", codigoTarifa: "08", tarifa: 13, factorCalculoIva: 0.0422 }],
+    },
+    montos: [63300],
+    baseImponible: 1500000,
+    impuestoNeto: 63300,
+    montoTotalLinea: 1563300,
+  },
+
+  // 50 sacks x 50 kg at ₡0.10 per kg
+  "12": {
+    line: {
+      numeroLinea: 1,
+      codigoCabys: "4321000000000",
+      cantidad: 50,
+      unidadMedida: "Unid",
+      detalle: "Cemento gris (saco de 50 kg)",
+      precioUnitario: 7000,
+      impuesto: [
+        {
+          codigo: "12",
+          tarifa: 0,
+          datosImpuestoEspecifico: { cantidadUnidadMedida: 50, impuestoUnidad: 0.1 },
+        },
+        IVA_13,
+      ],
+    },
+    montos: [250, 45532.5],
+    baseImponible: 350250,
+    impuestoNeto: 45782.5,
+    montoTotalLinea: 395782.5,
+  },
+
+  // Other 2% tax, IVA on 10,000 + 200
+  "99": {
+    line: {
+      numeroLinea: 1,
+      codigoCabys: "4321000000000",
+      cantidad: 1,
+      unidadMedida: "Unid",
+      detalle: "Producto con otro impuesto",
+      precioUnitario: 10000,
+      impuesto: [{ codigo: "99", tarifa: 2 }, IVA_13],
+    },
+    montos: [200, 1326],
+    baseImponible: 10200,
+    impuestoNeto: 1526,
+    montoTotalLinea: 11526,
+  },
+};
@@ -0,0 +1,220 @@
+/**
+ * Tests for the Hacienda status callback handler.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HaciendaStatus } from "@dojocoding/hacienda-shared";
+
+import { SIMPLE_TIQUETE } from "../__fixtures__/document-fixtures.js";
+import { ApiError, ValidationError } from "../errors.js";
+import type { HttpClient } from "./http-client.js";
+import { buildDocumentRecord } from "../store/document-store.js";
+import { FileDocumentStore } from "../store/file-document-store.js";
+import { StatusCallbackHandler } from "./callback-handler.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const CLAVE = "50601012300310123456700100001010000000001199999999";
+
+const REJECTION_XML =
+  "<MensajeHacienda><Mensaje>3</Mensaje><DetalleMensaje>Firma invalida</DetalleMensaje></MensajeHacienda>";
+
+function payload(status: HaciendaStatus, clave = CLAVE) {
+  return {
+    clave,
+    fecha: "2025-08-01T10:00:00-06:00",
+    "ind-estado": status,
+    "respuesta-xml": Buffer.from(REJECTION_XML).toString("base64"),
+  };
+}
+
+/** Status GET /recepcion/{clave} reports, per clave (default: "procesando"). */
+let hacienda: Map<string, HaciendaStatus>;
+let httpClient: HttpClient;
+
+beforeEach(() => {
+  hacienda = new Map();
+  const get = vi.fn((path: string) => {
+    const clave = path.split("/").pop() ?? "";
+    return Promise.resolve({
+      status: 200,
+      headers: new Headers(),
+      data: payload(hacienda.get(clave) ?? HaciendaStatus.PROCESANDO, clave),
+    });
+  });
+  httpClient = { get } as unknown as HttpClient;
+});
+
+/** A callback Hacienda really sent: the status API reports the same. */
+function genuine(status: HaciendaStatus, clave = CLAVE) {
+  hacienda.set(clave, status);
+  return payload(status, clave);
+}
+
+// ---------------------------------------------------------------------------
+// handle
+// ---------------------------------------------------------------------------
+
+describe("StatusCallbackHandler.handle", () => {
+  it("parses an object payload and decodes respuesta-xml", async () => {
+    const handler = new StatusCallbackHandler(httpClient);
+    const status = await handler.handle(genuine(HaciendaStatus.RECHAZADO));
+
+    expect(status).toMatchObject({
+      clave: CLAVE,
+      status: HaciendaStatus.RECHAZADO,
+      date: "2025-08-01T10:00:00-06:00",
+      responseXml: REJECTION_XML,
+    });
+  });
+
+  it("accepts raw JSON text and bytes", async () => {
+    const handler = new StatusCallbackHandler(httpClient);
+    const json = JSON.stringify(genuine(HaciendaStatus.ACEPTADO));
+
+    expect((await handler.handle(json)).status).toBe(HaciendaStatus.ACEPTADO);
+    expect((await handler.handle(Buffer.from(json))).status).toBe(HaciendaStatus.ACEPTADO);
+  });
+
+  it("rejects malformed JSON and invalid payloads", async () => {
+    const handler = new StatusCallbackHandler(httpClient);
+
+    await expect(handler.handle("{not json")).rejects.toThrow(ValidationError);
+    await expect(handler.handle({ clave: "123", "ind-estado": "aceptado" })).rejects.toThrow(
+      /clave/,
+    );
+    await expect(handler.handle({ clave: CLAVE, "ind-estado": "desconocido" })).rejects.toThrow(
+      ValidationError,
+    );
+  });
+
+  it("confirms the status with Hacienda instead of trusting the body", async () => {
+    const handler = new StatusCallbackHandler(httpClient);
+    const status = await handler.handle(payload(HaciendaStatus.ACEPTADO));
+
+    expect(status.status).toBe(HaciendaStatus.PROCESANDO);
+    expect(httpClient.get).toHaveBeenCalledWith(`/recepcion/${CLAVE}`);
+  });
+
+  it("invokes onStatus for every notification", async () => {
+    const onStatus = vi.fn();
+    const handler = new StatusCallbackHandler(httpClient, { onStatus });
+
+    await handler.handle(genuine(HaciendaStatus.PROCESANDO));
+    await handler.handle(genuine(HaciendaStatus.ACEPTADO));
+
+    expect(onStatus).toHaveBeenCalledTimes(2);
+    expect(onStatus.mock.calls[1]?.[0]).toMatchObject({ status: HaciendaStatus.ACEPTADO });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// waitFor
+// ---------------------------------------------------------------------------
+
+describe("StatusCallbackHandler.waitFor", () => {
+  it("resolves a waiter when a terminal callback arrives", async () => {
+    const handler = new StatusCallbackHandler(httpClient);
+    const pending = handler.waitFor(CLAVE, { timeoutMs: 5000 });
+    expect(handler.pending).toBe(1);
+
+    await handler.handle(genuine(HaciendaStatus.PROCESANDO));
+    expect(handler.pending).toBe(1);
+
+    await handler.handle(genuine(HaciendaStatus.ACEPTADO));
+    await expect(pending).resolves.toMatchObject({ status: HaciendaStatus.ACEPTADO });
+    expect(handler.pending).toBe(0);
+  });
+
+  it("does not settle a waiter on a spoofed callback", async () => {
+    const handler = new StatusCallbackHandler(httpClient);
+    const pending = handler.waitFor(CLAVE, { timeoutMs: 50 });
+
+    await handler.handle(payload(HaciendaStatus.ACEPTADO));
+
+    expect(handler.pending).toBe(1);
+    await expect(pending).rejects.toThrow(/No status callback received/);
+  });
+
+  it("resolves immediately when the callback arrived first", async () => {
+    const handler = new StatusCallbackHandler(httpClient);
+    await handler.handle(genuine(HaciendaStatus.RECHAZADO));
+
+    await expect(handler.waitFor(CLAVE)).resolves.toMatchObject({
+      status: HaciendaStatus.RECHAZADO,
+    });
+  });
+
+  it("evicts the oldest retained status beyond maxRetained", async () => {
+    const handler = new StatusCallbackHandler(httpClient, { maxRetained: 1 });
+    const other = `${CLAVE.slice(0, -1)}8`;
+    await handler.handle(genuine(HaciendaStatus.ACEPTADO));
+    await handler.handle(genuine(HaciendaStatus.ACEPTADO, other));
+
+    await expect(handler.waitFor(other)).resolves.toMatchObject({ clave: other });
+    await expect(handler.waitFor(CLAVE, { timeoutMs: 10 })).rejects.toThrow(ApiError);
+  });
+
+  it("rejects with ApiError on timeout", async () => {
+    const handler = new StatusCallbackHandler(httpClient);
+
+    await expect(handler.waitFor(CLAVE, { timeoutMs: 10 })).rejects.toThrow(
+      /No status callback received/,
+    );
+    expect(handler.pending).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Ledger
+// ---------------------------------------------------------------------------
+
+describe("StatusCallbackHandler ledger updates", () => {
+  let configDir: string;
+
+  beforeEach(async () => {
+    configDir = await mkdtemp(join(tmpdir(), "hacienda-callback-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  it("records the notified status for known documents", async () => {
+    const documentStore = new FileDocumentStore({ configDir });
+    await documentStore.save(buildDocumentRecord(SIMPLE_TIQUETE, "04", "c2lnbmVk"));
+    const handler = new StatusCallbackHandler(httpClient, { documentStore });
+
+    await handler.handle(genuine(HaciendaStatus.RECHAZADO, SIMPLE_TIQUETE.clave));
+
+    const record = await documentStore.get(SIMPLE_TIQUETE.clave);
+    expect(record?.status).toBe(HaciendaStatus.RECHAZADO);
+    expect(record?.responseXml).toBe(REJECTION_XML);
+    expect(record?.rejectionReason).toBe("Firma invalida");
+  });
+
+  it("does not record a spoofed terminal status", async () => {
+    const documentStore = new FileDocumentStore({ configDir });
+    await documentStore.save(buildDocumentRecord(SIMPLE_TIQUETE, "04", "c2lnbmVk"));
+    const handler = new StatusCallbackHandler(httpClient, { documentStore });
+
+    await handler.handle(payload(HaciendaStatus.ACEPTADO, SIMPLE_TIQUETE.clave));
+
+    const record = await documentStore.get(SIMPLE_TIQUETE.clave);
+    expect(record?.status).toBe(HaciendaStatus.PROCESANDO);
+  });
+
+  it("ignores callbacks for documents not in the ledger", async () => {
+    const documentStore = new FileDocumentStore({ configDir });
+    const handler = new StatusCallbackHandler(httpClient, { documentStore });
+
+    await handler.handle(genuine(HaciendaStatus.ACEPTADO));
+
+    expect(await documentStore.get(CLAVE)).toBeUndefined();
+  });
+});
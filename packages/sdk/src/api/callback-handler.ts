@@ -0,0 +1,258 @@
+/**
+ * Receiver for Hacienda `callbackUrl` status notifications.
+ *
+ * When a submission carries a `callbackUrl`, Hacienda POSTs the same
+ * status payload returned by GET /recepcion/{clave} once the document
+ * is processed. The callback URL is unauthenticated, so anyone can post
+ * to it: {@link StatusCallbackHandler} treats a callback only as a
+ * trigger, confirms the status with GET /recepcion/{clave}, then records
+ * the confirmed status in the ledger and settles anyone waiting on the
+ * clave, so `submitAndWait` can wait without polling.
+ *
+ * The handler is framework-agnostic: feed it the request body from any
+ * HTTP server, or use `startCallbackListener` for a standalone listener.
+ *
+ * @module api/callback-handler
+ */
+
+import { z } from "zod";
+import { HaciendaStatus } from "@dojocoding/hacienda-shared";
+import type { StatusResponse } from "@dojocoding/hacienda-shared";
+
+import { ApiError, ValidationError } from "../errors.js";
+import type { DocumentStore } from "../store/document-store.js";
+import type { HttpClient } from "./http-client.js";
+import { extractRejectionReason } from "./mensaje-hacienda.js";
+import { getStatus, isTerminalStatus } from "./submission.js";
+import type { ParsedStatusResponse } from "./submission.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link StatusCallbackHandler}. */
+export interface StatusCallbackHandlerOptions {
+  /** Optional ledger to update with each notified status. */
+  readonly documentStore?: DocumentStore;
+  /** Callback invoked with the confirmed status of every valid notification, terminal or not. */
+  readonly onStatus?: (status: ParsedStatusResponse) => void | Promise<void>;
+  /**
+   * Terminal statuses kept for `waitFor` calls made after the callback
+   * arrived (default: 1000, oldest evicted first).
+   */
+  readonly maxRetained?: number;
+}
+
+/** Options for {@link StatusCallbackHandler.waitFor}. */
+export interface WaitForCallbackOptions {
+  /** Maximum time to wait in milliseconds (default: 60000). */
+  readonly timeoutMs?: number;
+}
+
+/** Default configuration values. */
+const DEFAULTS = {
+  maxRetained: 1000,
+  timeoutMs: 60000,
+} as const;
+
+/** Shape of the status payload Hacienda POSTs to the callback URL. */
+const StatusPayloadSchema = z.object({
+  clave: z.string().regex(/^\d{50}$/, "clave must be 50 digits."),
+  "ind-estado": z.enum(HaciendaStatus),
+  fecha: z.string().optional(),
+  "respuesta-xml": z.string().optional(),
+});
+
+/** A pending {@link StatusCallbackHandler.waitFor} call. */
+interface Waiter {
+  readonly resolve: (status: ParsedStatusResponse) => void;
+  readonly timer: NodeJS.Timeout;
+}
+
+// ---------------------------------------------------------------------------
+// StatusCallbackHandler
+// ---------------------------------------------------------------------------
+
+/**
+ * Confirms Hacienda status callbacks and settles waiters by clave.
+ *
+ * @example
+ * ```ts
+ * const callbacks = new StatusCallbackHandler(client.getHttpClient(), { documentStore });
+ *
+ * // In any HTTP framework:
+ * app.post("/hacienda/callback", async (req, res) => {
+ *   await callbacks.handle(req.body);
+ *   res.sendStatus(200);
+ * });
+ *
+ * const issued = await client.issueDocument(DocumentType.FACTURA_ELECTRONICA, draft, {
+ *   callbackUrl: "https://example.com/hacienda/callback",
+ *   wait: { callbackHandler: callbacks },
+ * });
+ * ```
+ */
+export class StatusCallbackHandler {
+  private readonly httpClient: HttpClient;
+  private readonly options: StatusCallbackHandlerOptions;
+  private readonly maxRetained: number;
+  private readonly waiters = new Map<string, Set<Waiter>>();
+  private readonly settled = new Map<string, ParsedStatusResponse>();
+
+  constructor(httpClient: HttpClient, options: StatusCallbackHandlerOptions = {}) {
+    this.httpClient = httpClient;
+    this.options = options;
+    this.maxRetained = options.maxRetained ?? DEFAULTS.maxRetained;
+  }
+
+  /**
+   * Handles one callback request body.
+   *
+   * The body only names the clave to check: the status that is recorded,
+   * settled and returned comes from GET /recepcion/{clave}, so a forged
+   * callback cannot mark a document as accepted.
+   *
+   * @param body - The request body: raw text, bytes, or already-parsed JSON.
+   * @returns The confirmed status, with `respuesta-xml` decoded.
+   * @throws {ValidationError} If the body is not a Hacienda status payload.
+   * @throws {ApiError} If the status cannot be confirmed with Hacienda.
+   */
+  async handle(body: unknown): Promise<ParsedStatusResponse> {
+    const { clave } = parsePayload(body);
+    const status = await getStatus(this.httpClient, clave);
+
+    if (isTerminalStatus(status.status)) {
+      this.retain(status);
+      this.settle(status);
+    }
+
+    await this.record(status);
+    await this.options.onStatus?.(status);
+    return status;
+  }
+
+  /**
+   * Waits for a terminal status notification for a clave.
+   *
+   * Resolves immediately if the callback already arrived.
+   *
+   * @param clave - The 50-digit clave of the submitted document.
+   * @param options - Timeout configuration.
+   * @returns The terminal status.
+   * @throws {ApiError} If no terminal callback arrives within the timeout.
+   */
+  waitFor(clave: string, options: WaitForCallbackOptions = {}): Promise<ParsedStatusResponse> {
+    const settled = this.settled.get(clave);
+    if (settled) {
+      return Promise.resolve(settled);
+    }
+
+    const timeoutMs = options.timeoutMs ?? DEFAULTS.timeoutMs;
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        timer: setTimeout(() => {
+          this.removeWaiter(clave, waiter);
+          reject(
+            new ApiError(
+              `No status callback received for clave ${clave} within ${String(timeoutMs)}ms.`,
+              undefined,
+              { clave },
+            ),
+          );
+        }, timeoutMs),
+      };
+
+      const waiters = this.waiters.get(clave) ?? new Set<Waiter>();
+      waiters.add(waiter);
+      this.waiters.set(clave, waiters);
+    });
+  }
+
+  /** Number of claves with pending {@link waitFor} calls. */
+  get pending(): number {
+    return this.waiters.size;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal
+  // -------------------------------------------------------------------------
+
+  private settle(status: ParsedStatusResponse): void {
+    const waiters = this.waiters.get(status.clave);
+    if (!waiters) return;
+
+    this.waiters.delete(status.clave);
+    for (const waiter of waiters) {
+      clearTimeout(waiter.timer);
+      waiter.resolve(status);
+    }
+  }
+
+  private retain(status: ParsedStatusResponse): void {
+    this.settled.delete(status.clave);
+    this.settled.set(status.clave, status);
+
+    while (this.settled.size > this.maxRetained) {
+      const oldest = this.settled.keys().next();
+      if (oldest.done) break;
+      this.settled.delete(oldest.value);
+    }
+  }
+
+  private removeWaiter(clave: string, waiter: Waiter): void {
+    const waiters = this.waiters.get(clave);
+    waiters?.delete(waiter);
+    if (waiters?.size === 0) {
+      this.waiters.delete(clave);
+    }
+  }
+
+  /** Updates the ledger, if configured and the document was recorded. */
+  private async record(status: ParsedStatusResponse): Promise<void> {
+    const store = this.options.documentStore;
+    if (!store || !(await store.get(status.clave))) return;
+
+    const rejectionReason =
+      status.status === HaciendaStatus.ACEPTADO || !status.responseXml
+        ? undefined
+        : extractRejectionReason(status.responseXml);
+
+    await store.updateStatus(status.clave, {
+      status: status.status,
+      responseXml: status.responseXml,
+      rejectionReason,
+      detail: rejectionReason,
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function parsePayload(body: unknown): StatusResponse {
+  let json: unknown = body;
+  if (typeof body === "string" || body instanceof Uint8Array) {
+    const text = typeof body === "string" ? body : Buffer.from(body).toString("utf-8");
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      throw new ValidationError("Status callback body is not valid JSON.", undefined, error);
+    }
+  }
+
+  const result = StatusPayloadSchema.safeParse(json);
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      path: issue.path.map(String).join("."),
+      message: issue.message,
+    }));
+    throw new ValidationError(
+      `Invalid status callback: ${details.map((d) => `${d.path}: ${d.message}`).join("; ")}`,
+      details,
+    );
+  }
+
+  return result.data;
+}
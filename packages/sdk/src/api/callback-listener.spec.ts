@@ -0,0 +1,88 @@
+/**
+ * Tests for the standalone callback listener.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { HaciendaStatus } from "@dojocoding/hacienda-shared";
+
+import { StatusCallbackHandler } from "./callback-handler.js";
+import type { HttpClient } from "./http-client.js";
+import { startCallbackListener } from "./callback-listener.js";
+import type { CallbackListener } from "./callback-listener.js";
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+const CLAVE = "50601012300310123456700100001010000000001199999999";
+
+let handler: StatusCallbackHandler;
+let listener: CallbackListener;
+
+beforeEach(async () => {
+  // Hacienda confirms every clave as accepted
+  const get = vi.fn((path: string) =>
+    Promise.resolve({
+      status: 200,
+      headers: new Headers(),
+      data: { clave: path.split("/").pop(), "ind-estado": HaciendaStatus.ACEPTADO },
+    }),
+  );
+  handler = new StatusCallbackHandler({ get } as unknown as HttpClient);
+  listener = await startCallbackListener(handler, {
+    host: "127.0.0.1",
+    path: "/hacienda",
+    maxBodyBytes: 1024,
+  });
+});
+
+afterEach(async () => {
+  await listener.close();
+});
+
+function post(body: string, url = listener.url): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// startCallbackListener
+// ---------------------------------------------------------------------------
+
+describe("startCallbackListener", () => {
+  it("binds an ephemeral port and reports its URL", () => {
+    expect(listener.port).toBeGreaterThan(0);
+    expect(listener.url).toBe(`http://127.0.0.1:${String(listener.port)}/hacienda`);
+  });
+
+  it("hands valid callbacks to the handler", async () => {
+    const waiting = handler.waitFor(CLAVE, { timeoutMs: 5000 });
+
+    const response = await post(JSON.stringify({ clave: CLAVE, "ind-estado": "aceptado" }));
+
+    expect(response.status).toBe(200);
+    await expect(waiting).resolves.toMatchObject({ status: HaciendaStatus.ACEPTADO });
+  });
+
+  it("responds 400 to invalid payloads", async () => {
+    const response = await post(JSON.stringify({ clave: "1" }));
+    expect(response.status).toBe(400);
+  });
+
+  it("responds 413 to oversized bodies", async () => {
+    const response = await post("x".repeat(2048));
+    expect(response.status).toBe(413);
+  });
+
+  it("responds 404 to other paths and 405 to other methods", async () => {
+    const notFound = await post("{}", listener.url.replace("/hacienda", "/other"));
+    expect(notFound.status).toBe(404);
+
+    const notAllowed = await fetch(listener.url);
+    expect(notAllowed.status).toBe(405);
+    expect(notAllowed.headers.get("allow")).toBe("POST");
+  });
+});
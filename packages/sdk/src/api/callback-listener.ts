@@ -0,0 +1,180 @@
+/**
+ * Standalone Node HTTP listener for Hacienda status callbacks.
+ *
+ * Accepts POST requests on a single path and hands the body to a
+ * {@link StatusCallbackHandler}, which confirms every callback with
+ * Hacienda before trusting it. Use it when the application has no
+ * HTTP server of its own; otherwise call `handler.handle()` from an
+ * existing route.
+ *
+ * @module api/callback-listener
+ */
+
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { ValidationError } from "../errors.js";
+import type { StatusCallbackHandler } from "./callback-handler.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link startCallbackListener}. */
+export interface CallbackListenerOptions {
+  /** Port to listen on (default: 0, an ephemeral port). */
+  readonly port?: number;
+  /** Interface to bind (default: all interfaces). */
+  readonly host?: string;
+  /** Request path that receives callbacks (default: "/"). */
+  readonly path?: string;
+  /** Largest accepted request body in bytes (default: 1 MiB). */
+  readonly maxBodyBytes?: number;
+  /** Called when handling a callback fails, e.g. for logging. */
+  readonly onError?: (error: unknown) => void;
+}
+
+/** A running callback listener. */
+export interface CallbackListener {
+  /** Port the listener is bound to. */
+  readonly port: number;
+  /** Local URL of the callback path (expose it publicly as the `callbackUrl`). */
+  readonly url: string;
+  /** Stops accepting connections and closes the server. */
+  close(): Promise<void>;
+}
+
+/** Default configuration values. */
+const DEFAULTS = {
+  port: 0,
+  path: "/",
+  maxBodyBytes: 1024 * 1024,
+} as const;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Starts an HTTP server that feeds Hacienda callbacks to a handler.
+ *
+ * Responds 200 to valid callbacks, 400 to invalid payloads, 413 to
+ * oversized bodies, 404 to other paths and 405 to other methods.
+ *
+ * @param handler - The handler that parses callbacks and settles waiters.
+ * @param options - Port, host, path and body size limit.
+ * @returns The running listener.
+ *
+ * @example
+ * ```ts
+ * const callbacks = new StatusCallbackHandler(client.getHttpClient(), { documentStore });
+ * const listener = await startCallbackListener(callbacks, { port: 8080, path: "/hacienda" });
+ *
+ * // ... issue documents with callbackUrl "https://example.com/hacienda"
+ *
+ * await listener.close();
+ * ```
+ */
+export async function startCallbackListener(
+  handler: StatusCallbackHandler,
+  options: CallbackListenerOptions = {},
+): Promise<CallbackListener> {
+  const path = options.path ?? DEFAULTS.path;
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULTS.maxBodyBytes;
+
+  const server = createServer((request, response) => {
+    void handleRequest(request, response, {
+      handler,
+      path,
+      maxBodyBytes,
+      onError: options.onError,
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? DEFAULTS.port, options.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  const host = options.host && options.host !== "0.0.0.0" ? options.host : "localhost";
+
+  return {
+    port,
+    url: `http://${host.includes(":") ? `[${host}]` : host}:${String(port)}${path}`,
+    close: () => closeServer(server),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Thrown while reading a body that exceeds the size limit. */
+class PayloadTooLargeError extends Error {}
+
+async function handleRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  context: {
+    readonly handler: StatusCallbackHandler;
+    readonly path: string;
+    readonly maxBodyBytes: number;
+    readonly onError?: (error: unknown) => void;
+  },
+): Promise<void> {
+  const pathname = new URL(request.url ?? "/", "http://localhost").pathname;
+  if (pathname !== context.path) {
+    reply(response, 404, "Not found");
+    return;
+  }
+  if (request.method !== "POST") {
+    response.setHeader("Allow", "POST");
+    reply(response, 405, "Method not allowed");
+    return;
+  }
+
+  try {
+    const body = await readBody(request, context.maxBodyBytes);
+    await context.handler.handle(body);
+    reply(response, 200, "OK");
+  } catch (error) {
+    context.onError?.(error);
+    if (error instanceof PayloadTooLargeError) {
+      reply(response, 413, "Payload too large");
+    } else if (error instanceof ValidationError) {
+      reply(response, 400, error.message);
+    } else {
+      reply(response, 500, "Internal error");
+    }
+  }
+}
+
+async function readBody(request: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new PayloadTooLargeError(`Callback body exceeds ${String(maxBytes)} bytes.`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function reply(response: ServerResponse, status: number, message: string): void {
+  response.writeHead(status, { "Content-Type": "text/plain; charset=utf-8" });
+  response.end(message);
+}
+
+function closeServer(server: Server): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.close((error) => (error ? reject(error) : resolve()));
+    server.closeAllConnections();
+  });
+}
@@ -15,17 +15,43 @@ export type { RateLimiterOptions } from "./rate-limiter.js";
 
 // Submission & polling
 export {
+  buildSubmissionRequest,
+  getRecepcionKey,
   submitDocument,
   getStatus,
+  parseStatusResponse,
   isTerminalStatus,
-  extractRejectionReason,
 } from "./submission.js";
-export type { ParsedStatusResponse } from "./submission.js";
+export type {
+  ParsedStatusResponse,
+  SubmitDocumentOptions,
+  SubmitDocumentResponse,
+} from "./submission.js";
+
+// Response messages
+export {
+  MensajeHaciendaCode,
+  parseMensajeHacienda,
+  splitDetalleMensaje,
+  extractRejectionReason,
+} from "./mensaje-hacienda.js";
+export type {
+  MensajeHaciendaParty,
+  MensajeHaciendaError,
+  ParsedMensajeHacienda,
+  ParseMensajeHaciendaOptions,
+} from "./mensaje-hacienda.js";
 
 // Orchestrator
-export { submitAndWait } from "./orchestrator.js";
+export { submitAndWait, waitForTerminalStatus } from "./orchestrator.js";
 export type { SubmitAndWaitOptions, SubmitAndWaitResult } from "./orchestrator.js";
 
+// Status callbacks
+export { StatusCallbackHandler } from "./callback-handler.js";
+export type { StatusCallbackHandlerOptions, WaitForCallbackOptions } from "./callback-handler.js";
+export { startCallbackListener } from "./callback-listener.js";
+export type { CallbackListener, CallbackListenerOptions } from "./callback-listener.js";
+
 // Retry
 export { withRetry } from "./retry.js";
 export type { RetryOptions } from "./retry.js";
@@ -34,8 +60,13 @@ export type { RetryOptions } from "./retry.js";
 export { listComprobantes, getComprobante } from "./comprobantes.js";
 
 // Taxpayer lookup
-export { lookupTaxpayer } from "./taxpayer.js";
-export type { TaxpayerInfo, LookupTaxpayerOptions } from "./taxpayer.js";
+export { lookupTaxpayer, getActiveActivities } from "./taxpayer.js";
+export type {
+  TaxpayerInfo,
+  TaxpayerActivity,
+  TaxpayerStatus,
+  LookupTaxpayerOptions,
+} from "./taxpayer.js";
 
 // Error codes
 export {
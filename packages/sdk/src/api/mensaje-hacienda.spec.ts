@@ -0,0 +1,222 @@
+/**
+ * Tests for the MensajeHacienda response parser.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { ValidationError } from "../errors.js";
+import {
+  MensajeHaciendaCode,
+  extractRejectionReason,
+  parseMensajeHacienda,
+  splitDetalleMensaje,
+} from "./mensaje-hacienda.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const CLAVE = "50601012500310123456700100001010000000001199999999";
+
+const REJECTED_DETAIL = `Este comprobante fue procesado en el ambiente de pruebas, por lo cual no tiene validez para fines tributarios
+
+El comprobante electrónico tiene los siguientes errores:
+
+[
+codigo, mensaje, fila, columna
+-37, El documento no cumple con el esquema, revise la línea indicada, 12, 4
+-53, La fecha de emisión está fuera del rango permitido, 0, 0
+]`;
+
+const REJECTED_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<mh:MensajeHacienda xmlns:mh="https://cdn.comprobanteselectronicos.go.cr/xml-schemas/v4.4/mensajeHacienda">
+  <mh:Clave>${CLAVE}</mh:Clave>
+  <mh:NombreEmisor>Empresa &amp; Hijos S.A.</mh:NombreEmisor>
+  <mh:TipoIdentificacionEmisor>02</mh:TipoIdentificacionEmisor>
+  <mh:NumeroCedulaEmisor>3101234567</mh:NumeroCedulaEmisor>
+  <mh:NombreReceptor>Cliente</mh:NombreReceptor>
+  <mh:TipoIdentificacionReceptor>01</mh:TipoIdentificacionReceptor>
+  <mh:NumeroCedulaReceptor>112345678</mh:NumeroCedulaReceptor>
+  <mh:Mensaje>3</mh:Mensaje>
+  <mh:DetalleMensaje><![CDATA[${REJECTED_DETAIL}]]></mh:DetalleMensaje>
+  <mh:MontoTotalImpuesto>1300.00</mh:MontoTotalImpuesto>
+  <mh:TotalFactura>11300.00</mh:TotalFactura>
+</mh:MensajeHacienda>`;
+
+const ACCEPTED_XML = `<MensajeHacienda xmlns="https://cdn.comprobanteselectronicos.go.cr/xml-schemas/v4.4/mensajeHacienda">
+  <Clave>${CLAVE}</Clave>
+  <NumeroCedulaEmisor>3101234567</NumeroCedulaEmisor>
+  <Mensaje>1</Mensaje>
+  <DetalleMensaje>Este comprobante fue aceptado en el ambiente de pruebas, por lo cual no tiene validez para fines tributarios</DetalleMensaje>
+  <TotalFactura>500</TotalFactura>
+  <ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#"><ds:SignedInfo/></ds:Signature>
+</MensajeHacienda>`;
+
+// ---------------------------------------------------------------------------
+// parseMensajeHacienda
+// ---------------------------------------------------------------------------
+
+describe("parseMensajeHacienda", () => {
+  it("parses a namespaced rejection with a CDATA detail", async () => {
+    const mensaje = await parseMensajeHacienda(REJECTED_XML);
+
+    expect(mensaje).toEqual({
+      clave: CLAVE,
+      emisor: {
+        nombre: "Empresa & Hijos S.A.",
+        tipoIdentificacion: "02",
+        numeroIdentificacion: "3101234567",
+      },
+      receptor: { nombre: "Cliente", tipoIdentificacion: "01", numeroIdentificacion: "112345678" },
+      mensaje: MensajeHaciendaCode.RECHAZADO,
+      detalleMensaje: REJECTED_DETAIL,
+      errores: [
+        {
+          codigo: "-37",
+          mensaje: "El documento no cumple con el esquema, revise la línea indicada",
+          fila: 12,
+          columna: 4,
+        },
+        {
+          codigo: "-53",
+          mensaje: "La fecha de emisión está fuera del rango permitido",
+          fila: 0,
+          columna: 0,
+        },
+      ],
+      montoTotalImpuesto: 1300,
+      totalFactura: 11300,
+      signed: false,
+    });
+  });
+
+  it("parses an accepted message without errors", async () => {
+    const mensaje = await parseMensajeHacienda(ACCEPTED_XML);
+
+    expect(mensaje.mensaje).toBe(MensajeHaciendaCode.ACEPTADO);
+    expect(mensaje.errores).toEqual([]);
+    expect(mensaje.receptor).toBeUndefined();
+    expect(mensaje.totalFactura).toBe(500);
+    expect(mensaje.signed).toBe(true);
+    expect(mensaje.signature).toBeUndefined();
+  });
+
+  it("keeps the rejection code when present", async () => {
+    const xml = `<MensajeHacienda><Clave>${CLAVE}</Clave><NumeroCedulaEmisor>3101234567</NumeroCedulaEmisor><Mensaje>3</Mensaje><Codigo>05</Codigo><DetalleMensaje>Clave duplicada</DetalleMensaje></MensajeHacienda>`;
+
+    const mensaje = await parseMensajeHacienda(xml);
+
+    expect(mensaje.codigo).toBe("05");
+    expect(mensaje.errores).toEqual([{ mensaje: "Clave duplicada" }]);
+  });
+
+  it("verifies the response signature on request", async () => {
+    const unsigned = await parseMensajeHacienda(REJECTED_XML, { verifySignature: true });
+
+    expect(unsigned.signature?.signed).toBe(false);
+    expect(unsigned.signature?.valid).toBe(false);
+  });
+
+  it.each([
+    ["malformed XML", "<MensajeHacienda>", /well-formed/],
+    ["another root element", "<MensajeReceptor/>", /not MensajeHacienda/],
+    ["a missing Clave", "<MensajeHacienda><Mensaje>1</Mensaje></MensajeHacienda>", /no Clave/],
+    [
+      "an unknown Mensaje",
+      `<MensajeHacienda><Clave>${CLAVE}</Clave><NumeroCedulaEmisor>1</NumeroCedulaEmisor><Mensaje>9</Mensaje></MensajeHacienda>`,
+      /invalid Mensaje: "9"/,
+    ],
+    [
+      "a non-numeric amount",
+      `<MensajeHacienda><Clave>${CLAVE}</Clave><NumeroCedulaEmisor>1</NumeroCedulaEmisor><Mensaje>1</Mensaje><TotalFactura>abc</TotalFactura></MensajeHacienda>`,
+      /TotalFactura is not a number/,
+    ],
+  ])("rejects %s", async (_label, xml, message) => {
+    await expect(parseMensajeHacienda(xml)).rejects.toThrow(ValidationError);
+    await expect(parseMensajeHacienda(xml)).rejects.toThrow(message);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// splitDetalleMensaje
+// ---------------------------------------------------------------------------
+
+describe("splitDetalleMensaje", () => {
+  it("splits plain lines, skipping headings and the sandbox notice", () => {
+    const detalle = `Este comprobante fue procesado en el ambiente de pruebas
+Se encontraron los siguientes errores:
+El receptor no existe
+La actividad económica no está inscrita`;
+
+    expect(splitDetalleMensaje(detalle)).toEqual([
+      { mensaje: "El receptor no existe" },
+      { mensaje: "La actividad económica no está inscrita" },
+    ]);
+  });
+
+  it("keeps table rows that lack row and column numbers", () => {
+    const detalle = "codigo, mensaje, fila, columna\n-99, Error interno\n]";
+
+    expect(splitDetalleMensaje(detalle)).toEqual([{ mensaje: "-99, Error interno" }]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// extractRejectionReason
+// ---------------------------------------------------------------------------
+
+describe("extractRejectionReason", () => {
+  it("extracts code and detail from response XML", () => {
+    const xml = `
+      <MensajeHacienda>
+        <Codigo>05</Codigo>
+        <DetalleMensaje>Clave duplicada en sistema</DetalleMensaje>
+      </MensajeHacienda>
+    `;
+
+    const reason = extractRejectionReason(xml);
+
+    expect(reason).toContain("[Code 05]");
+    expect(reason).toContain("Duplicate clave");
+    expect(reason).toContain("Clave duplicada en sistema");
+  });
+
+  it("extracts code only when DetalleMensaje is missing", () => {
+    const xml = "<MensajeHacienda><Codigo>02</Codigo></MensajeHacienda>";
+
+    const reason = extractRejectionReason(xml);
+
+    expect(reason).toContain("[Code 02]");
+    expect(reason).toContain("Digital signature");
+  });
+
+  it("extracts detail only when Codigo is missing", () => {
+    const xml = "<MensajeHacienda><DetalleMensaje>Some error</DetalleMensaje></MensajeHacienda>";
+
+    const reason = extractRejectionReason(xml);
+
+    expect(reason).toBe("Some error");
+  });
+
+  it("returns undefined for XML without any error info", () => {
+    const xml = "<MensajeHacienda><Status>OK</Status></MensajeHacienda>";
+
+    const reason = extractRejectionReason(xml);
+
+    expect(reason).toBeUndefined();
+  });
+});
+
+describe("extractRejectionReason with namespaces", () => {
+  it("reads prefixed elements and CDATA", () => {
+    const xml = `<mh:MensajeHacienda xmlns:mh="urn:x"><mh:Codigo>02</mh:Codigo><mh:DetalleMensaje><![CDATA[Firma <invalida>]]></mh:DetalleMensaje></mh:MensajeHacienda>`;
+
+    expect(extractRejectionReason(xml)).toBe(
+      "[Code 02] Digital signature is invalid or missing. Verify the .p12 certificate and signing process. — Firma <invalida>",
+    );
+  });
+
+  it("returns undefined for malformed XML", () => {
+    expect(extractRejectionReason("<DetalleMensaje>sin cerrar")).toBeUndefined();
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * MensajeHacienda parser — the response Hacienda returns (Base64 in
+ * `respuesta-xml`) once it has processed a comprobante.
+ *
+ * Reads the message with a namespace-aware XML parser, so prefixed
+ * elements, CDATA sections and entities are handled, and splits the
+ * multi-line `DetalleMensaje` into individual validation errors.
+ * Hacienda signs its responses with XAdES; {@link parseMensajeHacienda}
+ * can verify that signature with {@link verifyXmlSignature}.
+ *
+ * @module api/mensaje-hacienda
+ */
+
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+
+import { ValidationError } from "../errors.js";
+import { verifyXmlSignature } from "../signing/verifier.js";
+import type { SignatureVerificationReport } from "../signing/verifier.js";
+import { getRejectionDescription } from "./error-codes.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Values of the `Mensaje` element. */
+export const MensajeHaciendaCode = {
+  /** The comprobante was accepted. */
+  ACEPTADO: "1",
+  /** The comprobante was partially accepted. */
+  ACEPTADO_PARCIAL: "2",
+  /** The comprobante was rejected. */
+  RECHAZADO: "3",
+} as const;
+
+export type MensajeHaciendaCode = (typeof MensajeHaciendaCode)[keyof typeof MensajeHaciendaCode];
+
+/** Emisor or receptor named in the response. */
+export interface MensajeHaciendaParty {
+  /** Name, if Hacienda included it. */
+  readonly nombre?: string;
+  /** Identification type code (01-05), if present. */
+  readonly tipoIdentificacion?: string;
+  /** Identification number. */
+  readonly numeroIdentificacion: string;
+}
+
+/** One validation error listed in `DetalleMensaje`. */
+export interface MensajeHaciendaError {
+  /** Hacienda's validation code (e.g. "-53"), when the detail is a table. */
+  readonly codigo?: string;
+  /** Error message. */
+  readonly mensaje: string;
+  /** Row in the submitted XML, when reported. */
+  readonly fila?: number;
+  /** Column in the submitted XML, when reported. */
+  readonly columna?: number;
+}
+
+/** A parsed MensajeHacienda. */
+export interface ParsedMensajeHacienda {
+  /** 50-digit clave of the processed comprobante. */
+  readonly clave: string;
+  /** Issuer of the comprobante. */
+  readonly emisor: MensajeHaciendaParty;
+  /** Receiver of the comprobante, if any. */
+  readonly receptor?: MensajeHaciendaParty;
+  /** Outcome code: "1" accepted, "2" partially accepted, "3" rejected. */
+  readonly mensaje: MensajeHaciendaCode;
+  /** Rejection code (see {@link HaciendaRejectionCode}), if present. */
+  readonly codigo?: string;
+  /** Full `DetalleMensaje` text. */
+  readonly detalleMensaje?: string;
+  /** Validation errors listed in `DetalleMensaje` (empty when accepted). */
+  readonly errores: readonly MensajeHaciendaError[];
+  /** Total tax of the comprobante. */
+  readonly montoTotalImpuesto?: number;
+  /** Total of the comprobante. */
+  readonly totalFactura?: number;
+  /** Whether the response carries an enveloped `ds:Signature`. */
+  readonly signed: boolean;
+  /** Signature report, when `verifySignature` was requested. */
+  readonly signature?: SignatureVerificationReport;
+}
+
+/** Options for {@link parseMensajeHacienda}. */
+export interface ParseMensajeHaciendaOptions {
+  /** Verify Hacienda's XAdES signature on the response (default: false). */
+  readonly verifySignature?: boolean;
+}
+
+/** Header row of the error table in `DetalleMensaje`. */
+const ERROR_TABLE_HEADER = /^c[oó]digo\s*,\s*mensaje/i;
+
+/** Sandbox notice Hacienda prepends to every detail; not an error. */
+const SANDBOX_NOTICE = /ambiente de pruebas/i;
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: true,
+  removeNSPrefix: true,
+  parseTagValue: false,
+});
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses a MensajeHacienda response XML.
+ *
+ * @param xml - Decoded `respuesta-xml` (see {@link parseStatusResponse}).
+ * @param options - Signature verification.
+ * @returns The typed message.
+ * @throws {ValidationError} If the XML is malformed, is not a
+ *   MensajeHacienda, or lacks `Clave`, `NumeroCedulaEmisor` or a valid `Mensaje`.
+ *
+ * @example
+ * ```ts
+ * const status = await getStatus(httpClient, clave);
+ * if (status.responseXml) {
+ *   const mensaje = await parseMensajeHacienda(status.responseXml, { verifySignature: true });
+ *   for (const error of mensaje.errores) console.error(error.codigo, error.mensaje);
+ * }
+ * ```
+ */
+export async function parseMensajeHacienda(
+  xml: string,
+  options: ParseMensajeHaciendaOptions = {},
+): Promise<ParsedMensajeHacienda> {
+  const fields = readMensajeFields(xml);
+  if (fields === undefined) {
+    throw new ValidationError("Response is not well-formed XML.");
+  }
+  if (!fields.root) {
+    throw new ValidationError("Response root element is not MensajeHacienda.");
+  }
+
+  const clave = text(fields, "Clave");
+  const numeroEmisor = text(fields, "NumeroCedulaEmisor");
+  const mensaje = text(fields, "Mensaje");
+  if (!clave) {
+    throw new ValidationError("MensajeHacienda has no Clave.");
+  }
+  if (!numeroEmisor) {
+    throw new ValidationError("MensajeHacienda has no NumeroCedulaEmisor.");
+  }
+  if (!isMensajeCode(mensaje)) {
+    throw new ValidationError(
+      `MensajeHacienda has an invalid Mensaje: ${mensaje === undefined ? "missing" : `"${mensaje}"`}.`,
+    );
+  }
+
+  const numeroReceptor = text(fields, "NumeroCedulaReceptor");
+  const detalleMensaje = text(fields, "DetalleMensaje");
+  const montoTotalImpuesto = amount(fields, "MontoTotalImpuesto");
+  const totalFactura = amount(fields, "TotalFactura");
+  const codigo = text(fields, "Codigo");
+
+  return {
+    clave,
+    emisor: party(fields, "Emisor", numeroEmisor),
+    ...(numeroReceptor ? { receptor: party(fields, "Receptor", numeroReceptor) } : {}),
+    mensaje,
+    ...(codigo ? { codigo } : {}),
+    ...(detalleMensaje ? { detalleMensaje } : {}),
+    errores:
+      mensaje === MensajeHaciendaCode.ACEPTADO || !detalleMensaje
+        ? []
+        : splitDetalleMensaje(detalleMensaje),
+    ...(montoTotalImpuesto !== undefined ? { montoTotalImpuesto } : {}),
+    ...(totalFactura !== undefined ? { totalFactura } : {}),
+    signed: fields.values["Signature"] !== undefined,
+    ...(options.verifySignature ? { signature: await verifyXmlSignature(xml) } : {}),
+  };
+}
+
+/**
+ * Splits a `DetalleMensaje` into individual errors.
+ *
+ * Hacienda lists validation errors as a bracketed
+ * `codigo, mensaje, fila, columna` table; each row becomes one error.
+ * Without a table, each line is one error, skipping headings (lines
+ * ending in ":") and the sandbox notice.
+ *
+ * @param detalle - The `DetalleMensaje` text.
+ * @returns The errors, in order.
+ */
+export function splitDetalleMensaje(detalle: string): MensajeHaciendaError[] {
+  const lines = detalle
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  const header = lines.findIndex((line) => ERROR_TABLE_HEADER.test(line));
+  if (header >= 0) {
+    const rows = lines.slice(header + 1);
+    const end = rows.indexOf("]");
+    return (end >= 0 ? rows.slice(0, end) : rows).map(parseErrorRow);
+  }
+
+  return lines
+    .filter((line) => line !== "[" && line !== "]")
+    .filter((line) => !line.endsWith(":") && !SANDBOX_NOTICE.test(line))
+    .map((mensaje) => ({ mensaje }));
+}
+
+/**
+ * Extracts a rejection reason from a Hacienda response XML.
+ *
+ * Parses the decoded `respuesta-xml` to find the rejection code and
+ * maps it to a human-readable description.
+ *
+ * @param responseXml - Decoded XML string from Hacienda's response.
+ * @returns A human-readable rejection description, or undefined if not found.
+ */
+export function extractRejectionReason(responseXml: string): string | undefined {
+  const fields = readMensajeFields(responseXml);
+  if (!fields) {
+    return undefined;
+  }
+
+  const codigo = text(fields, "Codigo");
+  const detalle = text(fields, "DetalleMensaje");
+  const parts: string[] = [];
+
+  if (codigo) {
+    parts.push(`[Code ${codigo}] ${getRejectionDescription(codigo)}`);
+  }
+
+  if (detalle) {
+    parts.push(detalle);
+  }
+
+  return parts.length > 0 ? parts.join(" — ") : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Element values of a response, found leniently. */
+interface MensajeFields {
+  /** Whether the root element is MensajeHacienda. */
+  readonly root: boolean;
+  /** Child elements of the root (or top-level elements without one). */
+  readonly values: Record<string, unknown>;
+}
+
+/**
+ * Reads the elements of a response without requiring a complete
+ * MensajeHacienda, so {@link extractRejectionReason} also accepts fragments.
+ *
+ * @returns The elements, or undefined if the XML is malformed.
+ */
+function readMensajeFields(xml: string): MensajeFields | undefined {
+  if (XMLValidator.validate(xml) !== true) {
+    return undefined;
+  }
+
+  const parsed = xmlParser.parse(xml) as Record<string, unknown>;
+  const root = parsed["MensajeHacienda"];
+  if (root === undefined) {
+    return { root: false, values: parsed };
+  }
+  return {
+    root: true,
+    values: typeof root === "object" && root !== null ? (root as Record<string, unknown>) : {},
+  };
+}
+
+/** Returns an element's trimmed text, or undefined if absent or empty. */
+function text(fields: MensajeFields, name: string): string | undefined {
+  const value = fields.values[name];
+  if (typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+  const trimmed = String(value).trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function amount(fields: MensajeFields, name: string): number | undefined {
+  const value = text(fields, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new ValidationError(`MensajeHacienda ${name} is not a number: "${value}".`);
+  }
+  return parsed;
+}
+
+function party(
+  fields: MensajeFields,
+  role: "Emisor" | "Receptor",
+  numeroIdentificacion: string,
+): MensajeHaciendaParty {
+  const nombre = text(fields, `Nombre${role}`);
+  const tipoIdentificacion = text(fields, `TipoIdentificacion${role}`);
+  return {
+    ...(nombre ? { nombre } : {}),
+    ...(tipoIdentificacion ? { tipoIdentificacion } : {}),
+    numeroIdentificacion,
+  };
+}
+
+function isMensajeCode(value: string | undefined): value is MensajeHaciendaCode {
+  return Object.values<string | undefined>(MensajeHaciendaCode).includes(value);
+}
+
+/** Parses "codigo, mensaje, fila, columna"; the message itself may contain commas. */
+function parseErrorRow(row: string): MensajeHaciendaError {
+  const fields = row.split(",").map((field) => field.trim());
+  const fila = fields.at(-2);
+  const columna = fields.at(-1);
+  if (fields.length < 4 || !isInteger(fila) || !isInteger(columna)) {
+    return { mensaje: row };
+  }
+  return {
+    codigo: fields[0],
+    mensaje: fields.slice(1, -2).join(", "),
+    fila: Number(fila),
+    columna: Number(columna),
+  };
+}
+
+function isInteger(value: string | undefined): value is string {
+  return value !== undefined && /^-?\d+$/.test(value);
+}
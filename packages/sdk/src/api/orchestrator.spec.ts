@@ -6,7 +6,8 @@ import { describe, it, expect, vi } from "vitest";
 import { HaciendaStatus } from "@dojocoding/hacienda-shared";
 import type { SubmissionRequest, StatusResponse } from "@dojocoding/hacienda-shared";
 
-import { submitAndWait } from "./orchestrator.js";
+import { submitAndWait, waitForTerminalStatus } from "./orchestrator.js";
+import { StatusCallbackHandler } from "./callback-handler.js";
 import type { HttpClient } from "./http-client.js";
 import { ApiError } from "../errors.js";
 
@@ -125,6 +126,39 @@ describe("submitAndWait", () => {
     expect(result.rejectionReason).toContain("Digital signature");
     expect(result.rejectionReason).toContain("Firma digital invalida");
     expect(result.responseXml).toContain("MensajeHacienda");
+    expect(result.mensajeHacienda).toBeUndefined();
+  });
+
+  it("exposes the parsed MensajeHacienda", async () => {
+    const responseXmlContent = `<MensajeHacienda>
+  <Clave>${MOCK_REQUEST.clave}</Clave>
+  <NumeroCedulaEmisor>3101234567</NumeroCedulaEmisor>
+  <Mensaje>3</Mensaje>
+  <DetalleMensaje>codigo, mensaje, fila, columna
+-53, Fecha fuera de rango, 0, 0</DetalleMensaje>
+  <TotalFactura>1130</TotalFactura>
+</MensajeHacienda>`;
+
+    const client = createMockHttpClient({ status: 201 }, [
+      {
+        clave: MOCK_REQUEST.clave,
+        "ind-estado": HaciendaStatus.RECHAZADO,
+        "respuesta-xml": Buffer.from(responseXmlContent).toString("base64"),
+      },
+    ]);
+
+    const result = await submitAndWait(client, MOCK_REQUEST, {
+      pollIntervalMs: 10,
+      timeoutMs: 5000,
+      verifyResponseSignature: true,
+    });
+
+    expect(result.mensajeHacienda?.mensaje).toBe("3");
+    expect(result.mensajeHacienda?.errores).toEqual([
+      { codigo: "-53", mensaje: "Fecha fuera de rango", fila: 0, columna: 0 },
+    ]);
+    expect(result.mensajeHacienda?.totalFactura).toBe(1130);
+    expect(result.mensajeHacienda?.signature?.signed).toBe(false);
   });
 
   it("throws ApiError when polling times out", async () => {
@@ -222,3 +256,81 @@ describe("submitAndWait", () => {
     expect(result.status).toBe("error");
   });
 });
+
+// ---------------------------------------------------------------------------
+// waitForTerminalStatus
+// ---------------------------------------------------------------------------
+
+describe("waitForTerminalStatus", () => {
+  it("polls an already submitted clave without posting", async () => {
+    const client = createMockHttpClient({ status: 201 }, [
+      {
+        clave: MOCK_REQUEST.clave,
+        "ind-estado": HaciendaStatus.ACEPTADO,
+      },
+    ]);
+
+    const result = await waitForTerminalStatus(client, MOCK_REQUEST.clave, {
+      pollIntervalMs: 10,
+      timeoutMs: 5000,
+    });
+
+    expect(result.accepted).toBe(true);
+    expect(result.pollAttempts).toBe(1);
+    expect(result).not.toHaveProperty("submissionStatus");
+    expect(client.post).not.toHaveBeenCalled();
+  });
+
+  it("waits for the status callback instead of polling", async () => {
+    const client = createMockHttpClient({ status: 201 }, []);
+    const rejected: StatusResponse = {
+      clave: MOCK_REQUEST.clave,
+      "ind-estado": HaciendaStatus.RECHAZADO,
+      "respuesta-xml": Buffer.from("<DetalleMensaje>Clave duplicada</DetalleMensaje>").toString(
+        "base64",
+      ),
+    };
+    // The handler confirms the callback through its own client
+    const callbacks = new StatusCallbackHandler(createMockHttpClient(undefined, [rejected]));
+
+    const pending = waitForTerminalStatus(client, MOCK_REQUEST.clave, {
+      timeoutMs: 5000,
+      callbackHandler: callbacks,
+    });
+    await callbacks.handle(rejected);
+
+    const result = await pending;
+    expect(result.accepted).toBe(false);
+    expect(result.rejectionReason).toBe("Clave duplicada");
+    expect(result.pollAttempts).toBe(0);
+    expect(client.get).not.toHaveBeenCalled();
+  });
+
+  it("polls once when the callback does not arrive in time", async () => {
+    const client = createMockHttpClient({ status: 201 }, [
+      { clave: MOCK_REQUEST.clave, "ind-estado": HaciendaStatus.ACEPTADO },
+    ]);
+
+    const result = await waitForTerminalStatus(client, MOCK_REQUEST.clave, {
+      timeoutMs: 20,
+      callbackHandler: new StatusCallbackHandler(client),
+    });
+
+    expect(result.accepted).toBe(true);
+    expect(result.pollAttempts).toBe(1);
+    expect(client.get).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws when neither the callback nor the fallback poll is terminal", async () => {
+    const client = createMockHttpClient({ status: 201 }, [
+      { clave: MOCK_REQUEST.clave, "ind-estado": HaciendaStatus.PROCESANDO },
+    ]);
+
+    await expect(
+      waitForTerminalStatus(client, MOCK_REQUEST.clave, {
+        timeoutMs: 20,
+        callbackHandler: new StatusCallbackHandler(client),
+      }),
+    ).rejects.toThrow(/No status callback received/);
+  });
+});
@@ -2,7 +2,9 @@
  * Submit-and-poll orchestrator.
  *
  * High-level pipeline that orchestrates the full document submission lifecycle:
- * sign -> submit -> poll until accepted/rejected.
+ * sign -> submit -> poll until accepted/rejected. When a
+ * {@link StatusCallbackHandler} is supplied, the orchestrator waits for
+ * Hacienda's `callbackUrl` notification instead of polling.
  *
  * @module api/orchestrator
  */
@@ -10,15 +12,13 @@
 import type { SubmissionRequest } from "@dojocoding/hacienda-shared";
 import { HaciendaStatus } from "@dojocoding/hacienda-shared";
 
-import { ApiError } from "../errors.js";
+import { ApiError, ValidationError } from "../errors.js";
+import type { StatusCallbackHandler } from "./callback-handler.js";
 import type { HttpClient } from "./http-client.js";
+import { extractRejectionReason, parseMensajeHacienda } from "./mensaje-hacienda.js";
+import type { ParsedMensajeHacienda } from "./mensaje-hacienda.js";
 import type { ParsedStatusResponse } from "./submission.js";
-import {
-  submitDocument,
-  getStatus,
-  isTerminalStatus,
-  extractRejectionReason,
-} from "./submission.js";
+import { submitDocument, getRecepcionKey, getStatus, isTerminalStatus } from "./submission.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -32,6 +32,18 @@ export interface SubmitAndWaitOptions {
   readonly timeoutMs?: number;
   /** Optional callback invoked on each poll iteration. */
   readonly onPoll?: (status: ParsedStatusResponse, attempt: number) => void;
+  /**
+   * Wait for the status callback on this handler instead of polling.
+   * The submission must carry a `callbackUrl` routed to the handler. If no
+   * callback arrives within `timeoutMs`, the status is polled once before
+   * giving up.
+   */
+  readonly callbackHandler?: StatusCallbackHandler;
+  /**
+   * Verify Hacienda's XAdES signature on the response; the report is in
+   * `mensajeHacienda.signature` (default: false).
+   */
+  readonly verifyResponseSignature?: boolean;
 }
 
 /** Final result of the submit-and-wait pipeline. */
@@ -46,6 +58,8 @@ export interface SubmitAndWaitResult {
   readonly date?: string;
   /** Decoded response XML from Hacienda. */
   readonly responseXml?: string;
+  /** Parsed response message, if Hacienda returned a well-formed MensajeHacienda. */
+  readonly mensajeHacienda?: ParsedMensajeHacienda;
   /** Human-readable rejection reason (if rejected). */
   readonly rejectionReason?: string;
   /** HTTP status from the initial submission. */
@@ -68,7 +82,7 @@ const DEFAULTS = {
  * Submits a document and polls until a terminal status is reached.
  *
  * Orchestrates the full lifecycle:
- * 1. Submit the document (POST /recepcion)
+ * 1. Submit the document (POST /recepcion, idempotent — never duplicated on retry)
  * 2. Poll for status (GET /recepcion/{clave}) at regular intervals
  * 3. Return the final result when accepted, rejected, or timed out
  *
@@ -91,6 +105,7 @@ const DEFAULTS = {
  *   console.log("Document accepted by Hacienda!");
  * } else {
  *   console.log("Rejected:", result.rejectionReason);
+ *   for (const error of result.mensajeHacienda?.errores ?? []) console.log(error.mensaje);
  * }
  * ```
  */
@@ -99,13 +114,40 @@ export async function submitAndWait(
   request: SubmissionRequest,
   options?: SubmitAndWaitOptions,
 ): Promise<SubmitAndWaitResult> {
+  // 1. Submit the document
+  const submissionResponse = await submitDocument(httpClient, request, { idempotent: true });
+
+  // 2. Poll for status
+  const result = await waitForTerminalStatus(httpClient, getRecepcionKey(request), options);
+
+  return { ...result, submissionStatus: submissionResponse.status };
+}
+
+/**
+ * Polls the status of an already-submitted document until it reaches a
+ * terminal status (accepted, rejected, or error).
+ *
+ * A 404 while polling is treated as "not indexed yet" and polling continues.
+ * With `options.callbackHandler`, waits for the callback instead.
+ *
+ * @param httpClient - The authenticated HTTP client.
+ * @param clave - The 50-digit clave of the submitted document.
+ * @param options - Optional polling configuration.
+ * @returns The final status, without the submission HTTP status.
+ * @throws {ApiError} If a status request fails or polling times out.
+ */
+export async function waitForTerminalStatus(
+  httpClient: HttpClient,
+  clave: string,
+  options?: SubmitAndWaitOptions,
+): Promise<Omit<SubmitAndWaitResult, "submissionStatus">> {
   const pollIntervalMs = options?.pollIntervalMs ?? DEFAULTS.pollIntervalMs;
   const timeoutMs = options?.timeoutMs ?? DEFAULTS.timeoutMs;
 
-  // 1. Submit the document
-  const submissionResponse = await submitDocument(httpClient, request);
+  if (options?.callbackHandler) {
+    return waitForCallback(httpClient, options.callbackHandler, clave, timeoutMs, options);
+  }
 
-  // 2. Poll for status
   const startTime = Date.now();
   let pollAttempts = 0;
 
@@ -115,9 +157,9 @@ export async function submitAndWait(
     if (elapsed >= timeoutMs) {
       throw new ApiError(
         `Polling timed out after ${String(timeoutMs)}ms (${String(pollAttempts)} attempts). ` +
-          `Last status for clave ${request.clave} was not terminal.`,
+          `Last status for clave ${clave} was not terminal.`,
         undefined,
-        { clave: request.clave, pollAttempts },
+        { clave, pollAttempts },
       );
     }
 
@@ -128,7 +170,7 @@ export async function submitAndWait(
 
     let statusResponse: ParsedStatusResponse;
     try {
-      statusResponse = await getStatus(httpClient, request.clave);
+      statusResponse = await getStatus(httpClient, clave);
     } catch (error) {
       // If we get a 404, the document may not be indexed yet — keep polling
       if (error instanceof ApiError && error.statusCode === 404) {
@@ -144,23 +186,7 @@ export async function submitAndWait(
 
     // Check if we've reached a terminal status
     if (isTerminalStatus(statusResponse.status)) {
-      const accepted = statusResponse.status === HaciendaStatus.ACEPTADO;
-      let rejectionReason: string | undefined;
-
-      if (!accepted && statusResponse.responseXml) {
-        rejectionReason = extractRejectionReason(statusResponse.responseXml);
-      }
-
-      return {
-        accepted,
-        status: statusResponse.status,
-        clave: statusResponse.clave,
-        date: statusResponse.date,
-        responseXml: statusResponse.responseXml,
-        rejectionReason,
-        submissionStatus: submissionResponse.status,
-        pollAttempts,
-      };
+      return toResult(statusResponse, pollAttempts, options);
     }
   }
 }
@@ -169,6 +195,83 @@ export async function submitAndWait(
 // Internal helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * Waits for a terminal status callback, falling back to a single poll on
+ * timeout in case the notification was lost.
+ */
+async function waitForCallback(
+  httpClient: HttpClient,
+  handler: StatusCallbackHandler,
+  clave: string,
+  timeoutMs: number,
+  options: SubmitAndWaitOptions,
+): Promise<Omit<SubmitAndWaitResult, "submissionStatus">> {
+  try {
+    return await toResult(await handler.waitFor(clave, { timeoutMs }), 0, options);
+  } catch (callbackError) {
+    let statusResponse: ParsedStatusResponse;
+    try {
+      statusResponse = await getStatus(httpClient, clave);
+    } catch (error) {
+      if (error instanceof ApiError && error.statusCode === 404) {
+        throw callbackError;
+      }
+      throw error;
+    }
+
+    if (isTerminalStatus(statusResponse.status)) {
+      return toResult(statusResponse, 1, options);
+    }
+    throw callbackError;
+  }
+}
+
+/** Builds the orchestrator result from a terminal status response. */
+async function toResult(
+  statusResponse: ParsedStatusResponse,
+  pollAttempts: number,
+  options: SubmitAndWaitOptions | undefined,
+): Promise<Omit<SubmitAndWaitResult, "submissionStatus">> {
+  const accepted = statusResponse.status === HaciendaStatus.ACEPTADO;
+  let mensajeHacienda: ParsedMensajeHacienda | undefined;
+  let rejectionReason: string | undefined;
+
+  if (statusResponse.responseXml) {
+    mensajeHacienda = await tryParseMensajeHacienda(statusResponse.responseXml, options);
+    if (!accepted) {
+      rejectionReason = extractRejectionReason(statusResponse.responseXml);
+    }
+  }
+
+  return {
+    accepted,
+    status: statusResponse.status,
+    clave: statusResponse.clave,
+    date: statusResponse.date,
+    responseXml: statusResponse.responseXml,
+    ...(mensajeHacienda ? { mensajeHacienda } : {}),
+    rejectionReason,
+    pollAttempts,
+  };
+}
+
+/** Parses the response message; an incomplete message yields undefined. */
+async function tryParseMensajeHacienda(
+  responseXml: string,
+  options: SubmitAndWaitOptions | undefined,
+): Promise<ParsedMensajeHacienda | undefined> {
+  try {
+    return await parseMensajeHacienda(responseXml, {
+      verifySignature: options?.verifyResponseSignature,
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
 /** Promise-based sleep. */
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
@@ -7,13 +7,15 @@ import type { StatusResponse } from "@dojocoding/hacienda-shared";
 import { HaciendaStatus } from "@dojocoding/hacienda-shared";
 
 import {
+  buildSubmissionRequest,
+  getRecepcionKey,
   submitDocument,
   getStatus,
   isTerminalStatus,
-  extractRejectionReason,
 } from "./submission.js";
 import type { HttpClient } from "./http-client.js";
 import { ApiError } from "../errors.js";
+import { SIMPLE_NOTA_CREDITO, SIMPLE_TIQUETE } from "../__fixtures__/document-fixtures.js";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -30,6 +32,57 @@ function createMockHttpClient(methods: {
   } as unknown as HttpClient;
 }
 
+// ---------------------------------------------------------------------------
+// buildSubmissionRequest
+// ---------------------------------------------------------------------------
+
+describe("buildSubmissionRequest", () => {
+  it("maps clave, fecha, emisor and receptor from the document", () => {
+    const request = buildSubmissionRequest(SIMPLE_NOTA_CREDITO, "base64xml");
+
+    expect(request).toEqual({
+      clave: SIMPLE_NOTA_CREDITO.clave,
+      fecha: SIMPLE_NOTA_CREDITO.fechaEmision,
+      emisor: {
+        tipoIdentificacion: SIMPLE_NOTA_CREDITO.emisor.identificacion.tipo,
+        numeroIdentificacion: SIMPLE_NOTA_CREDITO.emisor.identificacion.numero,
+      },
+      receptor: {
+        tipoIdentificacion: SIMPLE_NOTA_CREDITO.receptor.identificacion?.tipo,
+        numeroIdentificacion: SIMPLE_NOTA_CREDITO.receptor.identificacion?.numero,
+      },
+      comprobanteXml: "base64xml",
+    });
+  });
+
+  it("omits the receptor when it has no identification", () => {
+    const request = buildSubmissionRequest(SIMPLE_TIQUETE, "base64xml");
+    expect(request).not.toHaveProperty("receptor");
+  });
+
+  it("includes the callback URL when given", () => {
+    const request = buildSubmissionRequest(SIMPLE_TIQUETE, "base64xml", "https://example.com/cb");
+    expect(request.callbackUrl).toBe("https://example.com/cb");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getRecepcionKey
+// ---------------------------------------------------------------------------
+
+describe("getRecepcionKey", () => {
+  const request = buildSubmissionRequest(SIMPLE_TIQUETE, "PHNpZ25lZC8+");
+
+  it("returns the clave for a comprobante", () => {
+    expect(getRecepcionKey(request)).toBe(SIMPLE_TIQUETE.clave);
+  });
+
+  it("appends the receiver consecutivo for a MensajeReceptor", () => {
+    const key = getRecepcionKey({ ...request, consecutivoReceptor: "00100001050000000001" });
+    expect(key).toBe(`${SIMPLE_TIQUETE.clave}-00100001050000000001`);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // submitDocument
 // ---------------------------------------------------------------------------
@@ -97,6 +150,107 @@ describe("submitDocument", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// submitDocument (idempotent mode)
+// ---------------------------------------------------------------------------
+
+describe("submitDocument with idempotent: true", () => {
+  const request = {
+    clave: "50601012300310123456700100001010000000001199999999",
+    fecha: "2025-07-27T10:30:00-06:00",
+    emisor: { tipoIdentificacion: "02" as const, numeroIdentificacion: "3101234567" },
+    comprobanteXml: "base64data",
+  };
+  const FAST_RETRY = { retryOptions: { initialDelayMs: 1 } };
+  const networkError = () =>
+    new ApiError("Network error", undefined, undefined, new TypeError("fetch failed"));
+  const accepted = {
+    status: 201,
+    headers: new Headers({ Location: "/recepcion/12345" }),
+    data: undefined,
+  };
+
+  it("posts once without the client's own retry when nothing fails", async () => {
+    const mockPost = vi.fn().mockResolvedValue(accepted);
+    const mockGet = vi.fn();
+    const client = createMockHttpClient({ post: mockPost, get: mockGet });
+
+    const response = await submitDocument(client, request, { idempotent: true });
+
+    expect(mockPost).toHaveBeenCalledWith("/recepcion", request, { skipRetry: true });
+    expect(mockGet).not.toHaveBeenCalled();
+    expect(response).toEqual({ status: 201, location: "/recepcion/12345" });
+  });
+
+  it("checks the status instead of re-posting after an ambiguous failure", async () => {
+    const mockPost = vi.fn().mockRejectedValue(networkError());
+    const mockGet = vi.fn().mockResolvedValue({
+      status: 200,
+      headers: new Headers(),
+      data: { clave: request.clave, "ind-estado": HaciendaStatus.RECIBIDO },
+    });
+    const client = createMockHttpClient({ post: mockPost, get: mockGet });
+
+    const response = await submitDocument(client, request, { idempotent: true, ...FAST_RETRY });
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(mockGet).toHaveBeenCalledWith(`/recepcion/${request.clave}`, { skipRetry: true });
+    expect(response).toEqual({ status: 200, alreadyReceived: true });
+  });
+
+  it("re-posts only when Hacienda has never seen the clave", async () => {
+    const mockPost = vi
+      .fn()
+      .mockRejectedValueOnce(new ApiError("Service unavailable", 503))
+      .mockResolvedValueOnce(accepted);
+    const mockGet = vi.fn().mockRejectedValue(new ApiError("Not found", 404));
+    const client = createMockHttpClient({ post: mockPost, get: mockGet });
+
+    const response = await submitDocument(client, request, { idempotent: true, ...FAST_RETRY });
+
+    expect(mockGet).toHaveBeenCalledTimes(1);
+    expect(mockPost).toHaveBeenCalledTimes(2);
+    expect(response.status).toBe(201);
+    expect(response.alreadyReceived).toBeUndefined();
+  });
+
+  it("treats a 409 duplicate as already received", async () => {
+    const mockPost = vi.fn().mockRejectedValue(new ApiError("Conflict", 409));
+    const client = createMockHttpClient({ post: mockPost });
+
+    const response = await submitDocument(client, request, { idempotent: true });
+
+    expect(response).toEqual({ status: 409, alreadyReceived: true });
+  });
+
+  it("does not retry client errors", async () => {
+    const mockPost = vi.fn().mockRejectedValue(new ApiError("Bad request", 400));
+    const mockGet = vi.fn();
+    const client = createMockHttpClient({ post: mockPost, get: mockGet });
+
+    await expect(submitDocument(client, request, { idempotent: true })).rejects.toThrow(
+      "Bad request",
+    );
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(mockGet).not.toHaveBeenCalled();
+  });
+
+  it("gives up after the retries are exhausted", async () => {
+    const mockPost = vi.fn().mockRejectedValue(networkError());
+    const mockGet = vi.fn().mockRejectedValue(networkError());
+    const client = createMockHttpClient({ post: mockPost, get: mockGet });
+
+    await expect(
+      submitDocument(client, request, {
+        idempotent: true,
+        retryOptions: { maxRetries: 2, initialDelayMs: 1 },
+      }),
+    ).rejects.toThrow("Network error");
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // getStatus
 // ---------------------------------------------------------------------------
@@ -212,49 +366,3 @@ describe("isTerminalStatus", () => {
     expect(isTerminalStatus(HaciendaStatus.RECIBIDO)).toBe(false);
   });
 });
-
-// ---------------------------------------------------------------------------
-// extractRejectionReason
-// ---------------------------------------------------------------------------
-
-describe("extractRejectionReason", () => {
-  it("extracts code and detail from response XML", () => {
-    const xml = `
-      <MensajeHacienda>
-        <Codigo>05</Codigo>
-        <DetalleMensaje>Clave duplicada en sistema</DetalleMensaje>
-      </MensajeHacienda>
-    `;
-
-    const reason = extractRejectionReason(xml);
-
-    expect(reason).toContain("[Code 05]");
-    expect(reason).toContain("Duplicate clave");
-    expect(reason).toContain("Clave duplicada en sistema");
-  });
-
-  it("extracts code only when DetalleMensaje is missing", () => {
-    const xml = "<MensajeHacienda><Codigo>02</Codigo></MensajeHacienda>";
-
-    const reason = extractRejectionReason(xml);
-
-    expect(reason).toContain("[Code 02]");
-    expect(reason).toContain("Digital signature");
-  });
-
-  it("extracts detail only when Codigo is missing", () => {
-    const xml = "<MensajeHacienda><DetalleMensaje>Some error</DetalleMensaje></MensajeHacienda>";
-
-    const reason = extractRejectionReason(xml);
-
-    expect(reason).toBe("Some error");
-  });
-
-  it("returns undefined for XML without any error info", () => {
-    const xml = "<MensajeHacienda><Status>OK</Status></MensajeHacienda>";
-
-    const reason = extractRejectionReason(xml);
-
-    expect(reason).toBeUndefined();
-  });
-});
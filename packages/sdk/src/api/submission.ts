@@ -2,12 +2,15 @@
  * Invoice submission (POST /recepcion) and status polling (GET /recepcion/{clave}).
  *
  * Provides typed wrappers over the Hacienda REST API for document
- * submission and status checking.
+ * submission and status checking. POST /recepcion is not idempotent, so
+ * {@link submitDocument} offers an idempotent mode that checks whether
+ * Hacienda already has the clave before posting it again.
  *
  * @module api/submission
  */
 
 import type {
+  DocumentoElectronico,
   SubmissionRequest,
   SubmissionResponse,
   StatusResponse,
@@ -16,7 +19,8 @@ import { HaciendaStatus } from "@dojocoding/hacienda-shared";
 
 import { ApiError } from "../errors.js";
 import type { HttpClient, HttpResponse } from "./http-client.js";
-import { getRejectionDescription } from "./error-codes.js";
+import { withRetry } from "./retry.js";
+import type { RetryOptions } from "./retry.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -36,38 +40,132 @@ export interface ParsedStatusResponse {
   readonly raw: StatusResponse;
 }
 
+/** Options for {@link submitDocument}. */
+export interface SubmitDocumentOptions {
+  /**
+   * Make retries safe for the non-idempotent POST (default: false).
+   *
+   * After an ambiguous failure (network error or 5xx) the POST is not
+   * blindly repeated: GET /recepcion/{clave} is checked first and an
+   * existing record counts as success. The document is only posted again
+   * when Hacienda has never seen the clave. A 409 duplicate also counts
+   * as success.
+   */
+  readonly idempotent?: boolean;
+  /** Retry configuration for idempotent mode (default: the standard backoff). */
+  readonly retryOptions?: RetryOptions;
+}
+
+/** Result of {@link submitDocument}. */
+export interface SubmitDocumentResponse extends SubmissionResponse {
+  /**
+   * Whether Hacienda already had the clave from an earlier attempt
+   * (idempotent mode only). `status` is then that of the GET or 409.
+   */
+  readonly alreadyReceived?: boolean;
+}
+
 // ---------------------------------------------------------------------------
 // Submission
 // ---------------------------------------------------------------------------
 
+/**
+ * Builds the POST /recepcion payload for a document.
+ *
+ * The receptor block is only included when the document's receptor
+ * carries a national identification (tiquetes and exports may omit it).
+ *
+ * @param document - The document whose XML was signed.
+ * @param comprobanteXml - Base64-encoded signed XML.
+ * @param callbackUrl - Optional URL for async status notifications.
+ * @returns The submission request payload.
+ */
+export function buildSubmissionRequest(
+  document: DocumentoElectronico,
+  comprobanteXml: string,
+  callbackUrl?: string,
+): SubmissionRequest {
+  const receptorId = document.receptor?.identificacion;
+
+  return {
+    clave: document.clave,
+    fecha: document.fechaEmision,
+    emisor: {
+      tipoIdentificacion: document.emisor.identificacion.tipo,
+      numeroIdentificacion: document.emisor.identificacion.numero,
+    },
+    ...(receptorId
+      ? {
+          receptor: {
+            tipoIdentificacion: receptorId.tipo,
+            numeroIdentificacion: receptorId.numero,
+          },
+        }
+      : {}),
+    comprobanteXml,
+    ...(callbackUrl ? { callbackUrl } : {}),
+  };
+}
+
+/**
+ * Returns the identifier Hacienda tracks a submission under.
+ *
+ * Comprobantes are tracked by their clave. A MensajeReceptor shares the
+ * clave of the document it answers, so it is tracked as
+ * `{clave}-{consecutivoReceptor}`.
+ *
+ * @param request - The submission request payload.
+ * @returns The key to use with GET /recepcion/{key}.
+ */
+export function getRecepcionKey(request: SubmissionRequest): string {
+  return request.consecutivoReceptor
+    ? `${request.clave}-${request.consecutivoReceptor}`
+    : request.clave;
+}
+
 /**
  * Submits a document to Hacienda (POST /recepcion).
  *
  * Sends the signed, Base64-encoded XML document along with metadata
  * to the Hacienda API for processing.
  *
+ * By default the HTTP client's retry logic applies, which may repeat the
+ * POST after a failure the server actually processed. Pass
+ * `{ idempotent: true }` to check for an existing record before any
+ * resubmission.
+ *
  * @param httpClient - The authenticated HTTP client.
  * @param request - The submission request payload.
+ * @param options - Optional idempotency and retry configuration.
  * @returns The submission response with status and location.
  * @throws {ApiError} On HTTP errors:
  *   - 400: Bad request (malformed payload)
  *   - 401: Unauthorized (invalid token)
- *   - 409: Conflict (duplicate clave)
+ *   - 409: Conflict (duplicate clave, unless idempotent)
  *
  * @example
  * ```ts
- * const response = await submitDocument(httpClient, {
- *   clave: "50601...",
- *   fecha: "2025-07-27T10:30:00-06:00",
- *   emisor: { tipoIdentificacion: "02", numeroIdentificacion: "3101234567" },
- *   comprobanteXml: base64SignedXml,
- * });
+ * const response = await submitDocument(
+ *   httpClient,
+ *   {
+ *     clave: "50601...",
+ *     fecha: "2025-07-27T10:30:00-06:00",
+ *     emisor: { tipoIdentificacion: "02", numeroIdentificacion: "3101234567" },
+ *     comprobanteXml: base64SignedXml,
+ *   },
+ *   { idempotent: true },
+ * );
  * ```
  */
 export async function submitDocument(
   httpClient: HttpClient,
   request: SubmissionRequest,
-): Promise<SubmissionResponse> {
+  options: SubmitDocumentOptions = {},
+): Promise<SubmitDocumentResponse> {
+  if (options.idempotent) {
+    return submitIdempotent(httpClient, request, options.retryOptions);
+  }
+
   let response: HttpResponse<SubmissionResponse>;
   try {
     response = await httpClient.post<SubmissionResponse>("/recepcion", request);
@@ -93,6 +191,65 @@ export async function submitDocument(
   };
 }
 
+/**
+ * Posts a document, checking GET /recepcion/{key} before every retry.
+ */
+async function submitIdempotent(
+  httpClient: HttpClient,
+  request: SubmissionRequest,
+  retryOptions: RetryOptions | undefined,
+): Promise<SubmitDocumentResponse> {
+  let attempts = 0;
+
+  return withRetry(async () => {
+    // A previous attempt may have arrived even though it failed on our side
+    if (attempts++ > 0) {
+      const existing = await findExistingSubmission(httpClient, getRecepcionKey(request));
+      if (existing) return existing;
+    }
+
+    try {
+      const response = await httpClient.post<SubmissionResponse>("/recepcion", request, {
+        skipRetry: true,
+      });
+      return {
+        status: response.status,
+        location: response.headers.get("Location") ?? undefined,
+      };
+    } catch (error) {
+      if (error instanceof ApiError && error.statusCode === 409) {
+        return { status: 409, alreadyReceived: true };
+      }
+      throw error;
+    }
+  }, retryOptions);
+}
+
+/**
+ * Returns the existing submission for a recepcion key, or undefined on 404.
+ *
+ * @param httpClient - The authenticated HTTP client.
+ * @param key - Clave or `{clave}-{consecutivoReceptor}` (see {@link getRecepcionKey}).
+ * @returns The GET status with `alreadyReceived: true`, or undefined if Hacienda has no record.
+ * @throws {ApiError} If the request fails for any other reason.
+ */
+export async function findExistingSubmission(
+  httpClient: HttpClient,
+  key: string,
+): Promise<SubmitDocumentResponse | undefined> {
+  try {
+    const response = await httpClient.get<StatusResponse>(`/recepcion/${key}`, {
+      skipRetry: true,
+    });
+    return { status: response.status, alreadyReceived: true };
+  } catch (error) {
+    if (error instanceof ApiError && error.statusCode === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Status polling
 // ---------------------------------------------------------------------------
@@ -104,7 +261,8 @@ export async function submitDocument(
  * may include a Base64-encoded response XML with acceptance/rejection details.
  *
  * @param httpClient - The authenticated HTTP client.
- * @param clave - The 50-digit clave numerica of the submitted document.
+ * @param clave - The 50-digit clave numerica of the submitted document, or
+ *   `{clave}-{consecutivoReceptor}` for a MensajeReceptor (see {@link getRecepcionKey}).
  * @returns Parsed status response with decoded XML.
  * @throws {ApiError} If the request fails.
  *
@@ -121,8 +279,19 @@ export async function getStatus(
   clave: string,
 ): Promise<ParsedStatusResponse> {
   const response = await httpClient.get<StatusResponse>(`/recepcion/${clave}`);
-  const data = response.data;
+  return parseStatusResponse(response.data);
+}
 
+/**
+ * Parses a Hacienda status payload, decoding the Base64 `respuesta-xml`.
+ *
+ * The same payload is returned by GET /recepcion/{clave} and POSTed to
+ * the submission's `callbackUrl`.
+ *
+ * @param data - The raw status payload.
+ * @returns Parsed status response with decoded XML.
+ */
+export function parseStatusResponse(data: StatusResponse): ParsedStatusResponse {
   // Decode the Base64 response XML if present
   let responseXml: string | undefined;
   if (data["respuesta-xml"]) {
@@ -143,35 +312,6 @@ export async function getStatus(
   };
 }
 
-/**
- * Extracts a rejection reason from a Hacienda response XML.
- *
- * Parses the decoded `respuesta-xml` to find the rejection code and
- * maps it to a human-readable description.
- *
- * @param responseXml - Decoded XML string from Hacienda's response.
- * @returns A human-readable rejection description, or undefined if not found.
- */
-export function extractRejectionReason(responseXml: string): string | undefined {
-  // Extract DetalleMensaje from the response XML using regex
-  // (avoiding an XML parser dependency for a simple extraction)
-  const detalleMatch = /<DetalleMensaje>(.*?)<\/DetalleMensaje>/s.exec(responseXml);
-  const codigoMatch = /<Codigo>(\d+)<\/Codigo>/s.exec(responseXml);
-
-  const parts: string[] = [];
-
-  if (codigoMatch?.[1]) {
-    const code = codigoMatch[1];
-    parts.push(`[Code ${code}] ${getRejectionDescription(code)}`);
-  }
-
-  if (detalleMatch?.[1]) {
-    parts.push(detalleMatch[1].trim());
-  }
-
-  return parts.length > 0 ? parts.join(" — ") : undefined;
-}
-
 /**
  * Determines whether a status is terminal (no further polling needed).
  *
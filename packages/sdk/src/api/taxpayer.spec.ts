@@ -5,7 +5,7 @@
 import { describe, it, expect, vi } from "vitest";
 import type { ActividadEconomicaResponse } from "@dojocoding/hacienda-shared";
 
-import { lookupTaxpayer } from "./taxpayer.js";
+import { getActiveActivities, lookupTaxpayer } from "./taxpayer.js";
 import { ApiError } from "../errors.js";
 
 // ---------------------------------------------------------------------------
@@ -72,6 +72,38 @@ describe("lookupTaxpayer", () => {
     expect(result.actividades[2]?.estado).toBe("I");
   });
 
+  it("returns the regime, standing and activity types", async () => {
+    const mockData: ActividadEconomicaResponse = {
+      nombre: "EMPRESA EJEMPLO S.A.",
+      tipoIdentificacion: "02",
+      regimen: { codigo: 1, descripcion: "Régimen General" },
+      situacion: {
+        moroso: "SI",
+        omiso: "NO",
+        estado: "Inscrito",
+        administracionTributaria: "Grandes Contribuyentes",
+      },
+      actividades: [
+        { codigo: "620100", descripcion: "Programacion", estado: "A", tipo: "P" },
+        { codigo: "461001", descripcion: "Venta al por mayor", estado: "I", tipo: "S" },
+      ],
+    };
+
+    const fetchFn = vi.fn().mockResolvedValue(createMockResponse(200, mockData));
+
+    const result = await lookupTaxpayer("3101234567", { fetchFn });
+
+    expect(result.regimen).toEqual({ codigo: "1", descripcion: "Régimen General" });
+    expect(result.situacion).toEqual({
+      moroso: true,
+      omiso: false,
+      estado: "Inscrito",
+      administracionTributaria: "Grandes Contribuyentes",
+    });
+    expect(result.actividades[0]?.tipo).toBe("P");
+    expect(getActiveActivities(result).map((a) => a.codigo)).toEqual(["620100"]);
+  });
+
   it("throws ApiError with 404 for unknown cedula", async () => {
     const fetchFn = vi.fn().mockResolvedValue(createMockResponse(404, { error: "Not found" }));
 
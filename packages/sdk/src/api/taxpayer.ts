@@ -8,7 +8,7 @@
  * @module api/taxpayer
  */
 
-import type { ActividadEconomicaResponse } from "@dojocoding/hacienda-shared";
+import type { ActividadEconomicaResponse, SituacionTributaria } from "@dojocoding/hacienda-shared";
 import { ECONOMIC_ACTIVITY_API_URL } from "@dojocoding/hacienda-shared";
 
 import { ApiError } from "../errors.js";
@@ -17,18 +17,47 @@ import { ApiError } from "../errors.js";
 // Types
 // ---------------------------------------------------------------------------
 
+/** A registered economic activity. */
+export interface TaxpayerActivity {
+  /** Activity code (as used in `codigoActividad`). */
+  readonly codigo: string;
+  /** Activity description. */
+  readonly descripcion: string;
+  /** Activity status ("A" for active). */
+  readonly estado: string;
+  /** Activity type: "P" (primary) or "S" (secondary), when reported. */
+  readonly tipo?: string;
+}
+
+/** A taxpayer's standing with the tax administration. */
+export interface TaxpayerStatus {
+  /** Whether the taxpayer has overdue tax debts. */
+  readonly moroso: boolean;
+  /** Whether the taxpayer has missing tax returns. */
+  readonly omiso: boolean;
+  /** Registration status (e.g. "Inscrito"). */
+  readonly estado: string;
+  /** Tax administration office in charge, when reported. */
+  readonly administracionTributaria?: string;
+  /** Additional notice, when reported. */
+  readonly mensaje?: string;
+}
+
 /** Parsed taxpayer information with activities. */
 export interface TaxpayerInfo {
   /** Taxpayer name (as registered with Hacienda). */
   readonly nombre: string;
   /** Taxpayer identification type. */
   readonly tipoIdentificacion: string;
-  /** List of registered economic activities. */
-  readonly actividades: readonly {
+  /** Tax regime, when reported. */
+  readonly regimen?: {
     readonly codigo: string;
     readonly descripcion: string;
-    readonly estado: string;
-  }[];
+  };
+  /** Standing with the tax administration, when reported. */
+  readonly situacion?: TaxpayerStatus;
+  /** List of registered economic activities. */
+  readonly actividades: readonly TaxpayerActivity[];
 }
 
 /** Options for the taxpayer lookup. */
@@ -108,10 +137,47 @@ export async function lookupTaxpayer(
   return {
     nombre: data.nombre,
     tipoIdentificacion: data.tipoIdentificacion,
+    ...(data.regimen
+      ? {
+          regimen: {
+            codigo: String(data.regimen.codigo),
+            descripcion: data.regimen.descripcion,
+          },
+        }
+      : {}),
+    ...(data.situacion ? { situacion: parseSituacion(data.situacion) } : {}),
     actividades: data.actividades.map((a) => ({
       codigo: a.codigo,
       descripcion: a.descripcion,
       estado: a.estado,
+      ...(a.tipo ? { tipo: a.tipo } : {}),
     })),
   };
 }
+
+/**
+ * Returns the taxpayer's active economic activities.
+ *
+ * @param taxpayer - The taxpayer information.
+ * @returns The activities with status "A".
+ */
+export function getActiveActivities(taxpayer: TaxpayerInfo): TaxpayerActivity[] {
+  return taxpayer.actividades.filter((activity) => activity.estado === "A");
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Converts the API's "SI"/"NO" flags to booleans. */
+function parseSituacion(situacion: SituacionTributaria): TaxpayerStatus {
+  return {
+    moroso: situacion.moroso === "SI",
+    omiso: situacion.omiso === "SI",
+    estado: situacion.estado,
+    ...(situacion.administracionTributaria
+      ? { administracionTributaria: situacion.administracionTributaria }
+      : {}),
+    ...(situacion.mensaje ? { mensaje: situacion.mensaje } : {}),
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * Tests for the batch submission engine, driven against the in-process
+ * Hacienda simulator.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HaciendaStatus } from "@dojocoding/hacienda-shared";
+import type { SubmissionRequest } from "@dojocoding/hacienda-shared";
+
+import { SIMPLE_INVOICE } from "../__fixtures__/invoices.js";
+import { HaciendaRejectionCode } from "../api/error-codes.js";
+import { HttpClient } from "../api/http-client.js";
+import { buildSubmissionRequest, submitDocument } from "../api/submission.js";
+import { getEnvironmentConfig } from "../auth/environment.js";
+import { TokenManager } from "../auth/token-manager.js";
+import { Environment } from "../auth/types.js";
+import { buildFacturaXml } from "../documents/index.js";
+import { ValidationError } from "../errors.js";
+import { HaciendaSimulator } from "../testing/simulator.js";
+import { submitBatch } from "./batch.js";
+import { FileBatchJournal } from "./journal.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ENV = getEnvironmentConfig(Environment.Sandbox);
+const FAST_POLLING = { pollIntervalMs: 1, timeoutMs: 5000 };
+
+/** Builds a request for a copy of SIMPLE_INVOICE with a distinct consecutive. */
+function requestFor(sequence: number): SubmissionRequest {
+  const suffix = String(sequence).padStart(10, "0");
+  const invoice = {
+    ...SIMPLE_INVOICE,
+    clave: `${SIMPLE_INVOICE.clave.slice(0, 31)}${suffix}${SIMPLE_INVOICE.clave.slice(41)}`,
+    numeroConsecutivo: `${SIMPLE_INVOICE.numeroConsecutivo.slice(0, 10)}${suffix}`,
+  };
+  return buildSubmissionRequest(invoice, Buffer.from(buildFacturaXml(invoice)).toString("base64"));
+}
+
+let simulator: HaciendaSimulator;
+let httpClient: HttpClient;
+let posts: () => number;
+
+beforeEach(async () => {
+  simulator = new HaciendaSimulator();
+  const fetchFn = vi.fn(simulator.fetch);
+  posts = () =>
+    fetchFn.mock.calls.filter(
+      ([url, init]) => String(url).endsWith("/recepcion") && init?.method === "POST",
+    ).length;
+
+  const tokenManager = new TokenManager({ envConfig: ENV, fetchFn });
+  await tokenManager.authenticate({ username: "cpj-3-101-234567", password: "secret" });
+  httpClient = new HttpClient({ envConfig: ENV, tokenManager, fetchFn, rateLimiterOptions: false });
+});
+
+// ---------------------------------------------------------------------------
+// submitBatch
+// ---------------------------------------------------------------------------
+
+describe("submitBatch", () => {
+  it("reports accepted and rejected documents in input order", async () => {
+    const requests = [requestFor(1), requestFor(2), requestFor(3)];
+    simulator.addScenario({
+      code: HaciendaRejectionCode.TAX_MISMATCH,
+      match: (s) => s.request.clave === requests[1]?.clave,
+    });
+    const onResult = vi.fn();
+
+    const report = await submitBatch(httpClient, requests, {
+      ...FAST_POLLING,
+      concurrency: 2,
+      onResult,
+    });
+
+    expect(report.results.map((r) => r.clave)).toEqual(requests.map((r) => r.clave));
+    expect(report.results.map((r) => r.outcome)).toEqual(["accepted", "rejected", "accepted"]);
+    expect(report.results[1]?.rejectionReason).toContain(
+      `[Code ${HaciendaRejectionCode.TAX_MISMATCH}]`,
+    );
+    expect(report).toMatchObject({ accepted: 2, rejected: 1, timedOut: 0, failed: 0 });
+    expect(onResult).toHaveBeenCalledTimes(3);
+  });
+
+  it("reports submission failures without aborting the batch", async () => {
+    const invalid = { ...requestFor(1), clave: "123" };
+
+    const report = await submitBatch(httpClient, [invalid, requestFor(2)], FAST_POLLING);
+
+    expect(report.results[0]).toMatchObject({ clave: "123", outcome: "failed" });
+    expect(report.results[0]?.error).toBeDefined();
+    expect(report.results[1]?.outcome).toBe("accepted");
+  });
+
+  it("polls documents that were already delivered (409) instead of failing", async () => {
+    const request = requestFor(1);
+    await submitDocument(httpClient, request);
+
+    const report = await submitBatch(httpClient, [request], FAST_POLLING);
+
+    expect(report.results[0]?.outcome).toBe("accepted");
+  });
+
+  it("reports documents still processing at the deadline as timed out", async () => {
+    simulator = new HaciendaSimulator({ pollsPerInterimStatus: 1_000 });
+    const tokenManager = new TokenManager({ envConfig: ENV, fetchFn: simulator.fetch });
+    await tokenManager.authenticate({ username: "u", password: "p" });
+    httpClient = new HttpClient({
+      envConfig: ENV,
+      tokenManager,
+      fetchFn: simulator.fetch,
+      rateLimiterOptions: false,
+    });
+
+    const report = await submitBatch(httpClient, [requestFor(1)], {
+      pollIntervalMs: 5,
+      timeoutMs: 30,
+    });
+
+    expect(report.results[0]).toMatchObject({ outcome: "timed-out" });
+    expect(report.timedOut).toBe(1);
+  });
+
+  it("rejects batches with duplicate claves", async () => {
+    const request = requestFor(1);
+    await expect(submitBatch(httpClient, [request, request])).rejects.toThrow(ValidationError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Resuming from a journal
+// ---------------------------------------------------------------------------
+
+describe("submitBatch with a journal", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "hacienda-batch-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("does not resubmit finished documents on a rerun", async () => {
+    const journal = new FileBatchJournal(join(dir, "batch.ndjson"));
+    const requests = [requestFor(1), requestFor(2)];
+
+    await submitBatch(httpClient, requests, { ...FAST_POLLING, journal });
+    expect(posts()).toBe(2);
+
+    const rerun = await submitBatch(httpClient, requests, { ...FAST_POLLING, journal });
+
+    expect(posts()).toBe(2);
+    expect(rerun.accepted).toBe(2);
+  });
+
+  it("polls delivered documents after a crash instead of posting them again", async () => {
+    const journal = new FileBatchJournal(join(dir, "batch.ndjson"));
+    const delivered = requestFor(1);
+    await submitDocument(httpClient, delivered);
+    await journal.append({ clave: delivered.clave, state: "submitted" });
+
+    const report = await submitBatch(httpClient, [delivered, requestFor(2)], {
+      ...FAST_POLLING,
+      journal,
+    });
+
+    expect(posts()).toBe(2);
+    expect(report.results.map((r) => r.outcome)).toEqual(["accepted", "accepted"]);
+    expect(simulator.getDocument(delivered.clave)?.status).toBe(HaciendaStatus.ACEPTADO);
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Batch submission engine for high-volume issuance.
+ *
+ * Submits many signed documents with bounded concurrency through a
+ * shared {@link RateLimiter} and idempotent retries (`withRetry` with a
+ * status check before every resubmission), then polls all
+ * outstanding claves together until each reaches a terminal status or
+ * the batch times out. With a {@link BatchJournal}, an interrupted batch
+ * can be rerun without posting delivered documents again.
+ *
+ * @module batch/batch
+ */
+
+import { HaciendaStatus } from "@dojocoding/hacienda-shared";
+import type { SubmissionRequest } from "@dojocoding/hacienda-shared";
+
+import type { HttpClient } from "../api/http-client.js";
+import { extractRejectionReason } from "../api/mensaje-hacienda.js";
+import { RateLimiter } from "../api/rate-limiter.js";
+import type { RetryOptions } from "../api/retry.js";
+import { getStatus, isTerminalStatus, submitDocument } from "../api/submission.js";
+import type { ParsedStatusResponse } from "../api/submission.js";
+import { ValidationError } from "../errors.js";
+import type { DocumentStore } from "../store/document-store.js";
+import type { BatchJournal, BatchJournalRecord } from "./journal.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link submitBatch}. */
+export interface SubmitBatchOptions {
+  /** Maximum number of requests in flight at once (default: 4). */
+  readonly concurrency?: number;
+  /** Rate limiter shared by all submissions and polls (default: a new {@link RateLimiter}). */
+  readonly rateLimiter?: RateLimiter;
+  /** Retry configuration for each submission. */
+  readonly retryOptions?: RetryOptions;
+  /** Delay between polling rounds in milliseconds (default: 3000). */
+  readonly pollIntervalMs?: number;
+  /** Maximum time to poll outstanding claves in milliseconds (default: 300000). */
+  readonly timeoutMs?: number;
+  /** Journal used to resume an interrupted batch. */
+  readonly journal?: BatchJournal;
+  /** Optional ledger to update with each document's outcome. */
+  readonly documentStore?: DocumentStore;
+  /** Callback invoked as soon as each document's outcome is known. */
+  readonly onResult?: (result: BatchDocumentResult) => void;
+}
+
+/** Final outcome of one document in a batch. */
+export type BatchOutcome = "accepted" | "rejected" | "timed-out" | "failed";
+
+/** Per-document entry of a {@link BatchReport}. */
+export interface BatchDocumentResult {
+  /** 50-digit clave of the document. */
+  readonly clave: string;
+  /** Final outcome within this batch run. */
+  readonly outcome: BatchOutcome;
+  /** Last known Hacienda status (absent when the submission failed). */
+  readonly status?: HaciendaStatus;
+  /** Hacienda response date (ISO 8601). */
+  readonly date?: string;
+  /** Decoded response XML from Hacienda. */
+  readonly responseXml?: string;
+  /** Human-readable rejection reason (if rejected). */
+  readonly rejectionReason?: string;
+  /** Error message when submission or polling failed. */
+  readonly error?: string;
+}
+
+/** Summary of a batch run. */
+export interface BatchReport {
+  /** One result per input document, in input order. */
+  readonly results: readonly BatchDocumentResult[];
+  /** Number of accepted documents. */
+  readonly accepted: number;
+  /** Number of rejected documents. */
+  readonly rejected: number;
+  /** Number of delivered documents without a terminal status yet. */
+  readonly timedOut: number;
+  /** Number of documents that could not be submitted. */
+  readonly failed: number;
+}
+
+/** Default configuration values. */
+const DEFAULTS = {
+  concurrency: 4,
+  pollIntervalMs: 3000,
+  timeoutMs: 300_000,
+} as const;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Submits many signed documents and reports the outcome of each one.
+ *
+ * Failures never abort the batch: a document that cannot be submitted
+ * is reported as `"failed"`, and one still processing when `timeoutMs`
+ * elapses is reported as `"timed-out"`. A document Hacienda already has
+ * (e.g., delivered by an earlier run) is polled like any other.
+ *
+ * When resuming from a journal, accepted and rejected documents are
+ * reported from the journal, delivered and timed-out documents are
+ * polled without being posted again, and failed documents are retried.
+ *
+ * @param httpClient - The authenticated HTTP client.
+ * @param requests - Submission payloads with Base64-encoded signed XML.
+ * @param options - Concurrency, polling, journal and ledger configuration.
+ * @returns A per-document report.
+ * @throws {ValidationError} If the same clave appears more than once.
+ *
+ * @example
+ * ```ts
+ * const report = await submitBatch(httpClient, requests, {
+ *   concurrency: 8,
+ *   journal: new FileBatchJournal("./2025-07.journal.ndjson"),
+ *   onResult: (r) => console.log(r.clave, r.outcome),
+ * });
+ *
+ * console.log(`${report.accepted} accepted, ${report.rejected} rejected`);
+ * ```
+ */
+export async function submitBatch(
+  httpClient: HttpClient,
+  requests: readonly SubmissionRequest[],
+  options: SubmitBatchOptions = {},
+): Promise<BatchReport> {
+  assertUniqueClaves(requests);
+
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULTS.concurrency);
+  const rateLimiter = options.rateLimiter ?? new RateLimiter();
+  const journaled = (await options.journal?.load()) ?? new Map<string, BatchJournalRecord>();
+  const results = new Map<string, BatchDocumentResult>();
+  const outstanding = new Set<string>();
+
+  const finish = async (result: BatchDocumentResult): Promise<void> => {
+    results.set(result.clave, result);
+    await options.journal?.append({ clave: result.clave, state: "done", result });
+    await recordOutcome(options.documentStore, result);
+    options.onResult?.(result);
+  };
+
+  // 1. Submit everything not already delivered
+  await runConcurrently(requests, concurrency, async (request) => {
+    const previous = journaled.get(request.clave);
+
+    if (previous?.state === "done" && isFinal(previous.result.outcome)) {
+      results.set(request.clave, previous.result);
+      return;
+    }
+    if (previous?.state === "submitted" || previous?.result.outcome === "timed-out") {
+      outstanding.add(request.clave);
+      return;
+    }
+
+    try {
+      await rateLimiter.execute(() =>
+        submitDocument(httpClient, request, {
+          idempotent: true,
+          retryOptions: options.retryOptions,
+        }),
+      );
+    } catch (error) {
+      await finish({ clave: request.clave, outcome: "failed", error: errorMessage(error) });
+      return;
+    }
+
+    await options.journal?.append({ clave: request.clave, state: "submitted" });
+    outstanding.add(request.clave);
+  });
+
+  // 2. Poll all outstanding claves together
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULTS.pollIntervalMs;
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULTS.timeoutMs);
+  const lastKnown = new Map<string, { status?: HaciendaStatus; error?: string }>();
+  let round = 0;
+
+  while (outstanding.size > 0 && Date.now() < deadline) {
+    const delay = round === 0 ? Math.min(pollIntervalMs, 1000) : pollIntervalMs;
+    await sleep(Math.min(delay, Math.max(0, deadline - Date.now())));
+    round++;
+
+    await runConcurrently([...outstanding], concurrency, async (clave) => {
+      let status: ParsedStatusResponse;
+      try {
+        status = await rateLimiter.execute(() => getStatus(httpClient, clave));
+      } catch (error) {
+        // 404 means not indexed yet; other errors are retried next round
+        lastKnown.set(clave, { error: errorMessage(error) });
+        return;
+      }
+
+      if (!isTerminalStatus(status.status)) {
+        lastKnown.set(clave, { status: status.status });
+        return;
+      }
+
+      outstanding.delete(clave);
+      await finish(toResult(status));
+    });
+  }
+
+  // 3. Anything left did not reach a terminal status in time
+  for (const clave of outstanding) {
+    const last = lastKnown.get(clave);
+    await finish({
+      clave,
+      outcome: "timed-out",
+      status: last?.status ?? HaciendaStatus.RECIBIDO,
+      error: last?.error,
+    });
+  }
+
+  return buildReport(requests.map((request) => resultFor(results, request.clave)));
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function assertUniqueClaves(requests: readonly SubmissionRequest[]): void {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const { clave } of requests) {
+    if (seen.has(clave)) duplicates.add(clave);
+    seen.add(clave);
+  }
+
+  if (duplicates.size > 0) {
+    const details = [...duplicates].map((clave) => ({
+      path: "clave",
+      message: `Duplicate clave ${clave}`,
+    }));
+    throw new ValidationError(
+      `Batch contains duplicate claves: ${[...duplicates].join(", ")}`,
+      details,
+    );
+  }
+}
+
+/** Whether an outcome needs no further work on resume. */
+function isFinal(outcome: BatchOutcome): boolean {
+  return outcome === "accepted" || outcome === "rejected";
+}
+
+function toResult(status: ParsedStatusResponse): BatchDocumentResult {
+  const accepted = status.status === HaciendaStatus.ACEPTADO;
+  return {
+    clave: status.clave,
+    outcome: accepted ? "accepted" : "rejected",
+    status: status.status,
+    date: status.date,
+    responseXml: status.responseXml,
+    rejectionReason:
+      !accepted && status.responseXml ? extractRejectionReason(status.responseXml) : undefined,
+  };
+}
+
+function resultFor(results: Map<string, BatchDocumentResult>, clave: string): BatchDocumentResult {
+  return results.get(clave) ?? { clave, outcome: "failed", error: "No outcome recorded." };
+}
+
+function buildReport(results: BatchDocumentResult[]): BatchReport {
+  const count = (outcome: BatchOutcome) => results.filter((r) => r.outcome === outcome).length;
+  return {
+    results,
+    accepted: count("accepted"),
+    rejected: count("rejected"),
+    timedOut: count("timed-out"),
+    failed: count("failed"),
+  };
+}
+
+/** Appends the outcome to the ledger, if the document was recorded there. */
+async function recordOutcome(
+  store: DocumentStore | undefined,
+  result: BatchDocumentResult,
+): Promise<void> {
+  if (!store || !result.status || !(await store.get(result.clave))) return;
+
+  await store.updateStatus(result.clave, {
+    status: result.status,
+    responseXml: result.responseXml,
+    rejectionReason: result.rejectionReason,
+    detail: result.rejectionReason ?? result.error,
+  });
+}
+
+/** Runs `fn` over `items` with at most `limit` calls in flight. */
+async function runConcurrently<T>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const item = items[next++] as T;
+      await fn(item);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Promise-based sleep. */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
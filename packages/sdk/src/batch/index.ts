@@ -0,0 +1,15 @@
+/**
+ * Batch module — high-volume submission with bounded concurrency,
+ * collective polling and a resumable journal.
+ */
+
+export { submitBatch } from "./batch.js";
+export type {
+  SubmitBatchOptions,
+  BatchOutcome,
+  BatchDocumentResult,
+  BatchReport,
+} from "./batch.js";
+
+export { FileBatchJournal } from "./journal.js";
+export type { BatchJournal, BatchJournalRecord } from "./journal.js";
@@ -0,0 +1,63 @@
+/**
+ * Tests for the file-backed batch journal.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { appendFile, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { FileBatchJournal } from "./journal.js";
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+const CLAVE = "50601072500031012345670010000101000000000119999999";
+
+let dir: string;
+let journal: FileBatchJournal;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "hacienda-journal-test-"));
+  journal = new FileBatchJournal(join(dir, "nested", "batch.ndjson"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// FileBatchJournal
+// ---------------------------------------------------------------------------
+
+describe("FileBatchJournal", () => {
+  it("loads an empty map when the file does not exist", async () => {
+    expect((await journal.load()).size).toBe(0);
+  });
+
+  it("keeps the latest record for each clave", async () => {
+    await journal.append({ clave: CLAVE, state: "submitted" });
+    await journal.append({
+      clave: CLAVE,
+      state: "done",
+      result: { clave: CLAVE, outcome: "accepted" },
+    });
+
+    const records = await journal.load();
+    expect(records.get(CLAVE)).toEqual({
+      clave: CLAVE,
+      state: "done",
+      result: { clave: CLAVE, outcome: "accepted" },
+    });
+  });
+
+  it("ignores a truncated last line", async () => {
+    await journal.append({ clave: CLAVE, state: "submitted" });
+    await appendFile(journal.path, '{"clave":"5060', "utf-8");
+
+    const records = await journal.load();
+    expect(records.size).toBe(1);
+    expect(records.get(CLAVE)?.state).toBe("submitted");
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Append-only journal that makes batch submissions resumable.
+ *
+ * {@link submitBatch} appends a record when a document is delivered and
+ * another once its outcome is known. After a crash, rerunning the batch
+ * with the same journal skips finished documents and polls delivered
+ * ones instead of posting them again.
+ *
+ * @module batch/journal
+ */
+
+import { mkdir, open, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import type { BatchDocumentResult } from "./batch.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One journal line: a delivery or a final per-document outcome. */
+export type BatchJournalRecord =
+  | { readonly clave: string; readonly state: "submitted" }
+  | { readonly clave: string; readonly state: "done"; readonly result: BatchDocumentResult };
+
+/** Storage backend for the batch journal. */
+export interface BatchJournal {
+  /** Returns the latest record for each clave. */
+  load(): Promise<Map<string, BatchJournalRecord>>;
+
+  /** Durably appends a record. */
+  append(record: BatchJournalRecord): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// FileBatchJournal
+// ---------------------------------------------------------------------------
+
+/**
+ * Batch journal stored as newline-delimited JSON.
+ *
+ * Each record is fsynced before `append` resolves. A truncated last line
+ * (e.g., from a crash mid-write) is ignored.
+ *
+ * @example
+ * ```ts
+ * const journal = new FileBatchJournal("./month-end.journal.ndjson");
+ * const report = await submitBatch(httpClient, requests, { journal });
+ * ```
+ */
+export class FileBatchJournal implements BatchJournal {
+  /** Absolute or relative path of the journal file. */
+  readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<Map<string, BatchJournalRecord>> {
+    let content: string;
+    try {
+      content = await readFile(this.path, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return new Map();
+      }
+      throw error;
+    }
+
+    const records = new Map<string, BatchJournalRecord>();
+    for (const line of content.split("\n")) {
+      const record = parseRecord(line);
+      if (record) {
+        records.set(record.clave, record);
+      }
+    }
+    return records;
+  }
+
+  async append(record: BatchJournalRecord): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+
+    const file = await open(this.path, "a");
+    try {
+      await file.appendFile(`${JSON.stringify(record)}\n`, "utf-8");
+      // Flushed before resolving, so a crash cannot lose a delivered document
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function parseRecord(line: string): BatchJournalRecord | undefined {
+  if (!line.trim()) return undefined;
+
+  try {
+    const record = JSON.parse(line) as Partial<BatchJournalRecord>;
+    if (typeof record.clave !== "string") return undefined;
+    if (record.state === "submitted" || (record.state === "done" && "result" in record)) {
+      return record as BatchJournalRecord;
+    }
+  } catch {
+    // Partially written line — ignore
+  }
+  return undefined;
+}
@@ -58,7 +58,10 @@ export async function bootstrapClient(options: BootstrapOptions = {}): Promise<B
   const config = await loadConfig(options.profileName ?? "default", options.configOptions);
 
   if (!config.password) {
-    throw new Error("Missing password. Set the HACIENDA_PASSWORD environment variable.");
+    throw new Error(
+      "Missing password. Set the HACIENDA_PASSWORD environment variable " +
+        "or store it in the credential vault (HACIENDA_VAULT_PASSPHRASE).",
+    );
   }
 
   // Runtime-validate the cedula type and environment from the config
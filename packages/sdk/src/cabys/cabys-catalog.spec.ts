@@ -0,0 +1,148 @@
+/**
+ * Tests for the CABYS catalog and document code validation.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { CabysCatalog, defaultIvaRateCode } from "./cabys-catalog.js";
+import type { CabysEntry } from "./cabys-catalog.js";
+import { validateCabysCodes } from "./cabys-validation.js";
+
+const BEBIDAS = { codigo: "2399", descripcion: "Bebidas y productos de café" };
+
+const ENTRIES: CabysEntry[] = [
+  {
+    codigo: "2391001000100",
+    descripcion: "Café tostado y molido",
+    impuesto: 1,
+    categorias: [BEBIDAS],
+  },
+  {
+    codigo: "2391002000000",
+    descripcion: "Café soluble o instantáneo",
+    impuesto: 13,
+    categorias: [BEBIDAS],
+  },
+  {
+    codigo: "8314100000000",
+    descripcion: "Servicios de consultoría en tecnologías de la información",
+    impuesto: 13,
+    categorias: [{ codigo: "83", descripcion: "Servicios profesionales, científicos y técnicos" }],
+  },
+  {
+    codigo: "0111100000100",
+    descripcion: "Trigo en grano",
+    impuesto: 1,
+    categorias: [{ codigo: "0", descripcion: "Productos de la agricultura" }],
+  },
+];
+
+const catalog = new CabysCatalog(ENTRIES);
+
+// ---------------------------------------------------------------------------
+// CabysCatalog
+// ---------------------------------------------------------------------------
+
+describe("CabysCatalog", () => {
+  it("looks up codes with their category and rate", () => {
+    expect(catalog.size).toBe(4);
+    expect(catalog.lookup("2391001000100")).toMatchObject({
+      impuesto: 1,
+      categorias: [BEBIDAS],
+    });
+    expect(catalog.lookup("9999999999999")).toBeUndefined();
+  });
+
+  it("searches descriptions ignoring case and accents", () => {
+    expect(catalog.search("CAFE").map((entry) => entry.codigo)).toEqual([
+      "2391001000100",
+      "2391002000000",
+    ]);
+    expect(catalog.search("cafe molido").map((entry) => entry.codigo)).toEqual(["2391001000100"]);
+    expect(catalog.search("consultoria de tecnologia").map((entry) => entry.codigo)).toEqual([
+      "8314100000000",
+    ]);
+  });
+
+  it("ranks description matches above category matches", () => {
+    const codes = catalog.search("produc").map((entry) => entry.codigo);
+    expect(codes).toHaveLength(3);
+    expect(catalog.search("tostado cafe")[0]?.codigo).toBe("2391001000100");
+    expect(catalog.search("agricultura trigo")[0]?.codigo).toBe("0111100000100");
+  });
+
+  it("searches code prefixes and applies the limit", () => {
+    expect(catalog.search("2391").map((entry) => entry.codigo)).toEqual([
+      "2391001000100",
+      "2391002000000",
+    ]);
+    expect(catalog.search("cafe", { limit: 1 })).toHaveLength(1);
+    expect(catalog.search("xyz")).toEqual([]);
+    expect(catalog.search("  ")).toEqual([]);
+  });
+});
+
+describe("defaultIvaRateCode", () => {
+  it("maps the catalog rate to its CodigoTarifaIVA", () => {
+    expect(defaultIvaRateCode(ENTRIES[1] as CabysEntry)).toBe("08");
+    expect(defaultIvaRateCode(ENTRIES[0] as CabysEntry)).toBe("02");
+    expect(defaultIvaRateCode({ ...ENTRIES[0], impuesto: 0 } as CabysEntry)).toBe("01");
+    expect(defaultIvaRateCode({ ...ENTRIES[0], impuesto: 3 } as CabysEntry)).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateCabysCodes
+// ---------------------------------------------------------------------------
+
+describe("validateCabysCodes", () => {
+  const iva = (tarifa: number) => [{ codigo: "01", tarifa }];
+
+  it("accepts known codes at their default rate", () => {
+    expect(
+      validateCabysCodes(
+        [
+          { codigoCabys: "2391001000100", impuesto: iva(1) },
+          { codigoCabys: "8314100000000", impuesto: iva(13) },
+        ],
+        catalog,
+      ),
+    ).toEqual([]);
+  });
+
+  it("flags unknown codes", () => {
+    expect(
+      validateCabysCodes([{ codigoCabys: "1234500000000", impuesto: iva(13) }], catalog),
+    ).toEqual([
+      {
+        path: "detalleServicio.0.codigoCabys",
+        message: "CABYS code 1234500000000 is not in the catalog",
+      },
+    ]);
+  });
+
+  it("flags IVA rates that differ from the catalog", () => {
+    const errors = validateCabysCodes(
+      [
+        { codigoCabys: "8314100000000", impuesto: iva(13) },
+        { codigoCabys: "2391001000100", impuesto: [{ codigo: "02", tarifa: 10 }, ...iva(13)] },
+        { codigoCabys: "8314100000000" },
+      ],
+      catalog,
+    );
+
+    expect(errors.map((error) => error.path)).toEqual([
+      "detalleServicio.1.impuesto.1.tarifa",
+      "detalleServicio.2.impuesto",
+    ]);
+    expect(errors[0]?.message).toContain("does not match the 1% rate of CABYS code 2391001000100");
+  });
+
+  it("skips the rate check when asked", () => {
+    expect(
+      validateCabysCodes([{ codigoCabys: "8314100000000", impuesto: iva(0) }], catalog, {
+        checkRates: false,
+      }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * CABYS catalog — code lookup and full-text search.
+ *
+ * The Catálogo de Bienes y Servicios assigns every product or service a
+ * 13-digit code, a place in a category hierarchy and the IVA rate that
+ * applies by default. Hacienda rejects lines whose code is not in the
+ * catalog, so documents are checked against a local copy of it
+ * ({@link importCabysCatalog}).
+ *
+ * @module cabys/cabys-catalog
+ */
+
+import { IvaRateCode } from "@dojocoding/hacienda-shared";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A level of the CABYS category hierarchy. */
+export interface CabysCategory {
+  /** Category code (its length grows with the level). */
+  readonly codigo: string;
+  /** Category description. */
+  readonly descripcion: string;
+}
+
+/** A product or service in the CABYS catalog. */
+export interface CabysEntry {
+  /** 13-digit CABYS code. */
+  readonly codigo: string;
+  /** Description of the product or service. */
+  readonly descripcion: string;
+  /** Default IVA rate, in percent (e.g. 13). */
+  readonly impuesto: number;
+  /** Categories the code belongs to, broadest first. */
+  readonly categorias: readonly CabysCategory[];
+}
+
+/** Where a catalog came from. */
+export interface CabysCatalogMetadata {
+  /** The file it was imported from. */
+  readonly source?: string;
+  /** When it was imported (ISO 8601). */
+  readonly importedAt?: string;
+}
+
+/** Options for {@link CabysCatalog.search}. */
+export interface CabysSearchOptions {
+  /** Maximum number of results (default: 20). */
+  readonly limit?: number;
+}
+
+// ---------------------------------------------------------------------------
+// CabysCatalog
+// ---------------------------------------------------------------------------
+
+/**
+ * An in-memory CABYS catalog.
+ *
+ * @example
+ * ```ts
+ * const catalog = await loadCabysCatalog();
+ * catalog.lookup("2391001000100")?.impuesto; // 13
+ * catalog.search("cafe molido", { limit: 5 });
+ * ```
+ */
+export class CabysCatalog {
+  /** Where the catalog came from. */
+  readonly metadata: CabysCatalogMetadata;
+
+  private readonly byCode: ReadonlyMap<string, CabysEntry>;
+  private searchIndex: IndexedEntry[] | undefined;
+
+  /**
+   * @param entries - The catalog entries.
+   * @param metadata - Where they came from.
+   */
+  constructor(entries: Iterable<CabysEntry>, metadata: CabysCatalogMetadata = {}) {
+    this.byCode = new Map([...entries].map((entry) => [entry.codigo, entry]));
+    this.metadata = metadata;
+  }
+
+  /** Number of codes in the catalog. */
+  get size(): number {
+    return this.byCode.size;
+  }
+
+  /** All entries, in catalog order. */
+  entries(): CabysEntry[] {
+    return [...this.byCode.values()];
+  }
+
+  /**
+   * Looks up a code.
+   *
+   * @param codigo - 13-digit CABYS code.
+   * @returns The entry, or undefined if the code is not in the catalog.
+   */
+  lookup(codigo: string): CabysEntry | undefined {
+    return this.byCode.get(codigo.trim());
+  }
+
+  /**
+   * Searches the catalog.
+   *
+   * A query of digits matches codes starting with them. Otherwise every
+   * word of the query must start a word of the description or of one of
+   * its categories; case and accents are ignored. Results matching the
+   * description come first, then shorter descriptions.
+   *
+   * @param query - Words to look for, or the start of a code.
+   * @param options - Result limit.
+   * @returns Matching entries, best first.
+   */
+  search(query: string, options: CabysSearchOptions = {}): CabysEntry[] {
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    const trimmed = query.trim();
+
+    if (/^\d+$/.test(trimmed)) {
+      return [...this.byCode.values()]
+        .filter((entry) => entry.codigo.startsWith(trimmed))
+        .sort((a, b) => a.codigo.localeCompare(b.codigo))
+        .slice(0, limit);
+    }
+
+    const words = tokenize(trimmed);
+    const significant = words.filter((word) => !STOP_WORDS.has(word));
+    const terms = significant.length > 0 ? significant : words;
+    if (terms.length === 0) return [];
+
+    const matches: { entry: CabysEntry; score: number }[] = [];
+    for (const indexed of this.getSearchIndex()) {
+      let score = 0;
+      for (const term of terms) {
+        const termScore = scoreTerm(term, indexed);
+        if (termScore === 0) {
+          score = 0;
+          break;
+        }
+        score += termScore;
+      }
+      if (score > 0) matches.push({ entry: indexed.entry, score });
+    }
+
+    return matches
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          a.entry.descripcion.length - b.entry.descripcion.length ||
+          a.entry.codigo.localeCompare(b.entry.codigo),
+      )
+      .slice(0, limit)
+      .map((match) => match.entry);
+  }
+
+  /** Word lists of every entry, built on the first search. */
+  private getSearchIndex(): IndexedEntry[] {
+    this.searchIndex ??= [...this.byCode.values()].map((entry) => ({
+      entry,
+      description: tokenize(entry.descripcion),
+      categories: tokenize(entry.categorias.map((category) => category.descripcion).join(" ")),
+    }));
+    return this.searchIndex;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * The IVA rate code (CodigoTarifaIVA) for a CABYS entry's default rate.
+ *
+ * @param entry - The catalog entry.
+ * @returns The rate code, or undefined for a rate with no code.
+ *
+ * @example
+ * ```ts
+ * const entry = catalog.lookup(line.codigoCabys);
+ * const impuesto = { codigo: "01", codigoTarifa: defaultIvaRateCode(entry), tarifa: entry.impuesto };
+ * ```
+ */
+export function defaultIvaRateCode(entry: CabysEntry): IvaRateCode | undefined {
+  return RATE_CODES.get(entry.impuesto);
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+const DEFAULT_SEARCH_LIMIT = 20;
+
+/** Rate codes for the catalog's rates (the transitional 0% and 4% share their rate). */
+const RATE_CODES: ReadonlyMap<number, IvaRateCode> = new Map([
+  [0, IvaRateCode.EXENTO],
+  [1, IvaRateCode.REDUCIDA_1],
+  [2, IvaRateCode.REDUCIDA_2],
+  [4, IvaRateCode.REDUCIDA_4],
+  [8, IvaRateCode.TRANSITORIO_8],
+  [13, IvaRateCode.GENERAL_13],
+]);
+
+/** Spanish words too common to narrow a search. */
+const STOP_WORDS: ReadonlySet<string> = new Set(
+  "a al con de del el en la las lo los o para por sin su un una y".split(" "),
+);
+
+/** An entry with its description and category words, for searching. */
+interface IndexedEntry {
+  entry: CabysEntry;
+  description: string[];
+  categories: string[];
+}
+
+/** Lower-case, accent-free words of a text. */
+function tokenize(text: string): string[] {
+  return (
+    text
+      .normalize("NFD")
+      .replace(/\p{Diacritic}/gu, "")
+      .toLowerCase()
+      .match(/[a-z0-9]+/g) ?? []
+  );
+}
+
+/** 3 for a description word, 2 for the start of one, 1 for a category word; 0 if absent. */
+function scoreTerm(term: string, indexed: IndexedEntry): number {
+  if (indexed.description.includes(term)) return 3;
+  if (indexed.description.some((word) => word.startsWith(term))) return 2;
+  if (indexed.categories.some((word) => word.startsWith(term))) return 1;
+  return 0;
+}
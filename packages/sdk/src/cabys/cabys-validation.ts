@@ -0,0 +1,90 @@
+/**
+ * Checks a document's CABYS codes against the catalog.
+ *
+ * @module cabys/cabys-validation
+ */
+
+import { TaxCode } from "@dojocoding/hacienda-shared";
+
+import type { DocumentValidationError } from "../xml/validator.js";
+import type { CabysCatalog } from "./cabys-catalog.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The parts of a line item checked against the catalog. */
+export interface CabysCheckedLine {
+  readonly codigoCabys: string;
+  readonly impuesto?: readonly { readonly codigo: string; readonly tarifa: number }[];
+}
+
+/** Options for {@link validateCabysCodes}. */
+export interface CabysValidationOptions {
+  /**
+   * Compare each line's IVA rate with the code's default rate
+   * (default: true). Turn off for documents taxed at another rate by
+   * law, such as exports.
+   */
+  readonly checkRates?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Flags line items whose CABYS code is not in the catalog, or whose IVA
+ * rate differs from the code's default rate.
+ *
+ * @param lines - The document's `detalleServicio`.
+ * @param catalog - The CABYS catalog.
+ * @param options - Which checks to run.
+ * @returns Validation errors, with paths into `detalleServicio`.
+ *
+ * @example
+ * ```ts
+ * const errors = validateCabysCodes(draft.detalleServicio, await loadCabysCatalog());
+ * ```
+ */
+export function validateCabysCodes(
+  lines: readonly CabysCheckedLine[],
+  catalog: CabysCatalog,
+  options: CabysValidationOptions = {},
+): DocumentValidationError[] {
+  const errors: DocumentValidationError[] = [];
+
+  lines.forEach((line, lineIndex) => {
+    const prefix = `detalleServicio.${lineIndex}`;
+    const entry = catalog.lookup(line.codigoCabys);
+    if (!entry) {
+      errors.push({
+        path: `${prefix}.codigoCabys`,
+        message: `CABYS code ${line.codigoCabys} is not in the catalog`,
+      });
+      return;
+    }
+    if (options.checkRates === false) return;
+
+    const ivaTaxes = (line.impuesto ?? [])
+      .map((tax, taxIndex) => ({ tax, taxIndex }))
+      .filter(({ tax }) => tax.codigo === TaxCode.IVA);
+
+    if (ivaTaxes.length === 0 && entry.impuesto > 0) {
+      errors.push({
+        path: `${prefix}.impuesto`,
+        message: `Line has no IVA, but CABYS code ${entry.codigo} (${entry.descripcion}) is taxed at ${entry.impuesto}%`,
+      });
+    }
+    for (const { tax, taxIndex } of ivaTaxes) {
+      if (tax.tarifa !== entry.impuesto) {
+        errors.push({
+          path: `${prefix}.impuesto.${taxIndex}.tarifa`,
+          message: `IVA rate ${tax.tarifa}% does not match the ${entry.impuesto}% rate of CABYS code ${entry.codigo} (${entry.descripcion})`,
+        });
+      }
+    }
+  });
+
+  return errors;
+}
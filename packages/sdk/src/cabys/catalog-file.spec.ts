@@ -0,0 +1,260 @@
+/**
+ * Tests for reading the CABYS catalog file and the local index.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { deflateRawSync } from "node:zlib";
+
+import { ValidationError } from "../errors.js";
+import { parseCabysCatalog } from "./catalog-file.js";
+import { importCabysCatalog, loadCabysCatalog } from "./catalog-store.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Header of the official export, down to the code level. */
+const OFFICIAL_HEADER = [
+  "Categoría 1",
+  "Descripción (categoría 1)",
+  "Categoría 2",
+  "Descripción (categoría 2)",
+  "Categoría 9",
+  "Descripción (categoría 9)",
+  "Impuesto",
+];
+
+const OFFICIAL_ROWS = [
+  [
+    "2",
+    "Productos alimenticios",
+    "23",
+    "Productos de molinería",
+    "2391001000100",
+    "Café tostado y molido",
+    "1%",
+  ],
+  [
+    "8",
+    "Servicios empresariales",
+    "83",
+    "Servicios profesionales",
+    "8314100000000",
+    "Consultoría en TI",
+    "13%",
+  ],
+];
+
+/** Builds an XLSX workbook with one sheet of shared-string cells. */
+function buildXlsx(rows: string[][]): Uint8Array {
+  const strings: string[] = [];
+  const escape = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;");
+  const sheetRows = rows
+    .map((row, r) => {
+      const cells = row.map((value, c) => {
+        strings.push(value);
+        const ref = `${String.fromCharCode(65 + c)}${r + 1}`;
+        return `<c r="${ref}" t="s"><v>${strings.length - 1}</v></c>`;
+      });
+      return `<row r="${r + 1}">${cells.join("")}</row>`;
+    })
+    .join("");
+
+  const ns = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+  const rel = 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+  return zip({
+    "xl/workbook.xml": `<workbook ${ns} ${rel}><sheets><sheet name="CABYS" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels": `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Target="worksheets/catalogo.xml"/></Relationships>`,
+    "xl/sharedStrings.xml": `<sst ${ns}>${strings.map((s) => `<si><t>${escape(s)}</t></si>`).join("")}</sst>`,
+    "xl/worksheets/catalogo.xml": `<worksheet ${ns}><sheetData>${sheetRows}</sheetData></worksheet>`,
+  });
+}
+
+/** Minimal deflate ZIP writer (CRCs are left at 0; the reader does not check them). */
+function zip(files: Record<string, string>): Uint8Array {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const fileName = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(fileName.length, 26);
+    locals.push(local, fileName, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(Buffer.byteLength(content), 24);
+    entry.writeUInt16LE(fileName.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    directory.push(entry, fileName);
+
+    offset += local.length + fileName.length + data.length;
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, ...directory, end]);
+}
+
+const EXPECTED_CAFE = {
+  codigo: "2391001000100",
+  descripcion: "Café tostado y molido",
+  impuesto: 1,
+  categorias: [
+    { codigo: "2", descripcion: "Productos alimenticios" },
+    { codigo: "23", descripcion: "Productos de molinería" },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// parseCabysCatalog
+// ---------------------------------------------------------------------------
+
+describe("parseCabysCatalog", () => {
+  it("reads the official XLSX export, skipping the title rows", () => {
+    const xlsx = buildXlsx([
+      ["Catálogo de bienes y servicios (CABYS)"],
+      [],
+      OFFICIAL_HEADER,
+      ...OFFICIAL_ROWS,
+    ]);
+
+    const entries = parseCabysCatalog(xlsx);
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toEqual(EXPECTED_CAFE);
+    expect(entries[1]).toMatchObject({ codigo: "8314100000000", impuesto: 13 });
+  });
+
+  it("reads a semicolon-separated CSV with quoted fields", () => {
+    const csv = [
+      OFFICIAL_HEADER.join(";"),
+      ...OFFICIAL_ROWS.map((row) => row.map((value) => `"${value}"`).join(";")),
+      '"8";"Servicios";"83";"Servicios profesionales";"8314200000000";"Asesoría ""legal""";"13"',
+    ].join("\r\n");
+
+    const entries = parseCabysCatalog(csv);
+
+    expect(entries[0]).toEqual(EXPECTED_CAFE);
+    expect(entries[2]).toMatchObject({ descripcion: 'Asesoría "legal"', impuesto: 13 });
+  });
+
+  it("reads plain code/description columns and Latin-1 bytes", () => {
+    const csv =
+      "Código,Descripción,Impuesto\n0111100000100,Trigo en grano,Exento\n111100000200,Maíz,0.13\n";
+
+    const entries = parseCabysCatalog(Buffer.from(csv, "latin1"));
+
+    expect(entries).toEqual([
+      { codigo: "0111100000100", descripcion: "Trigo en grano", impuesto: 0, categorias: [] },
+      // A code stored as a number loses its leading zero
+      { codigo: "0111100000200", descripcion: "Maíz", impuesto: 13, categorias: [] },
+    ]);
+  });
+
+  it("rejects files without a catalog header or entries", () => {
+    expect(() => parseCabysCatalog("nombre,precio\ncafe,1000\n")).toThrow(ValidationError);
+    expect(() => parseCabysCatalog("Código,Descripción,Impuesto\n")).toThrow(/no entries/);
+    expect(() => parseCabysCatalog(new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0]))).toThrow(
+      ValidationError,
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// importCabysCatalog / loadCabysCatalog
+// ---------------------------------------------------------------------------
+
+describe("importCabysCatalog", () => {
+  let configDir: string;
+
+  beforeEach(async () => {
+    configDir = await mkdtemp(join(tmpdir(), "hacienda-cabys-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  it("stores the catalog in cabys.json and loads it back", async () => {
+    const source = join(configDir, "catalogo.xlsx");
+    await writeFile(source, buildXlsx([OFFICIAL_HEADER, ...OFFICIAL_ROWS]));
+
+    const result = await importCabysCatalog(source, {
+      configDir,
+      now: () => new Date("2026-10-01T12:00:00Z"),
+    });
+
+    expect(result.filePath).toBe(join(configDir, "cabys.json"));
+    expect(result.size).toBe(2);
+    expect(JSON.parse(await readFile(result.filePath, "utf-8"))).toMatchObject({
+      version: 1,
+      source: "catalogo.xlsx",
+      importedAt: "2026-10-01T12:00:00.000Z",
+    });
+
+    const catalog = await loadCabysCatalog({ configDir });
+    expect(catalog.size).toBe(2);
+    expect(catalog.lookup("2391001000100")).toEqual(EXPECTED_CAFE);
+    expect(catalog.metadata).toEqual({
+      source: "catalogo.xlsx",
+      importedAt: "2026-10-01T12:00:00.000Z",
+    });
+  });
+
+  it("fails clearly when nothing was imported or the index is invalid", async () => {
+    await expect(loadCabysCatalog({ configDir })).rejects.toThrow(/No CABYS catalog/);
+
+    await writeFile(join(configDir, "cabys.json"), '{"version":99}');
+    await expect(loadCabysCatalog({ configDir })).rejects.toThrow(/Invalid CABYS index/);
+  });
+
+  it("rejects a corrupt index with a ValidationError", async () => {
+    await writeFile(join(configDir, "cabys.json"), '{"version":1,"entries":[');
+
+    await expect(loadCabysCatalog({ configDir })).rejects.toThrow(ValidationError);
+    await expect(loadCabysCatalog({ configDir })).rejects.toThrow(/not valid JSON/);
+  });
+
+  it("rejects malformed entries instead of loading them", async () => {
+    const entry = {
+      codigo: "2391001000100",
+      descripcion: "Café",
+      impuesto: 13,
+      categorias: [{ codigo: "2", descripcion: "Alimentos" }],
+    };
+    const write = (entries: unknown[]) =>
+      writeFile(join(configDir, "cabys.json"), JSON.stringify({ version: 1, entries }));
+
+    await write([entry]);
+    expect((await loadCabysCatalog({ configDir })).size).toBe(1);
+
+    for (const bad of [
+      { ...entry, codigo: "239100" },
+      { ...entry, impuesto: "13" },
+      { ...entry, impuesto: -1 },
+      { ...entry, categorias: undefined },
+      "2391001000100",
+    ]) {
+      await write([bad]);
+      await expect(loadCabysCatalog({ configDir })).rejects.toThrow(ValidationError);
+    }
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Parser for the official CABYS catalog file.
+ *
+ * Accepts the Banco Central's XLSX export and CSV exports of it. Columns
+ * are found by their headers: the "Categoría N" / "Descripción
+ * (categoría N)" pairs of the official file, whose deepest level is the
+ * 13-digit code, or plain "Código" / "Descripción" columns; plus the
+ * "Impuesto" column with the default IVA rate.
+ *
+ * @module cabys/catalog-file
+ */
+
+import { ValidationError } from "../errors.js";
+import type { CabysCategory, CabysEntry } from "./cabys-catalog.js";
+import { isZipArchive, readXlsxRows } from "./xlsx-reader.js";
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses a CABYS catalog file into its entries.
+ *
+ * The format is detected from the contents: XLSX workbooks are read from
+ * their first sheet; anything else is read as CSV (comma, semicolon or
+ * tab separated, UTF-8 or Latin-1). Rows without a 13-digit code, such
+ * as titles or notes, are ignored.
+ *
+ * @param data - File contents (or CSV text).
+ * @returns The catalog entries, in file order.
+ * @throws {ValidationError} If the file has no recognisable header row
+ *   or no entries.
+ *
+ * @example
+ * ```ts
+ * const entries = parseCabysCatalog(await readFile("Catalogo-de-bienes-y-servicios.xlsx"));
+ * ```
+ */
+export function parseCabysCatalog(data: Uint8Array | string): CabysEntry[] {
+  const rows =
+    typeof data === "string"
+      ? parseCsv(data)
+      : isZipArchive(data)
+        ? readXlsxRows(data)
+        : parseCsv(decodeText(data));
+
+  const headerIndex = rows.slice(0, HEADER_SEARCH_ROWS).findIndex((row) => findColumns(row));
+  const columns = headerIndex >= 0 ? findColumns(rows[headerIndex] ?? []) : undefined;
+  if (!columns) {
+    throw new ValidationError(
+      'Unrecognised CABYS catalog: expected a header row with the code, description and "Impuesto" columns.',
+    );
+  }
+
+  const entries = new Map<string, CabysEntry>();
+  for (const row of rows.slice(headerIndex + 1)) {
+    const codigo = normalizeCode(row[columns.codigo] ?? "");
+    const impuesto = parseRate(row[columns.impuesto] ?? "");
+    if (codigo === undefined || impuesto === undefined) continue;
+
+    const categorias: CabysCategory[] = [];
+    for (const level of columns.categorias) {
+      const code = (row[level.codigo] ?? "").trim();
+      if (code !== "") {
+        categorias.push({ codigo: code, descripcion: (row[level.descripcion] ?? "").trim() });
+      }
+    }
+    entries.set(codigo, {
+      codigo,
+      descripcion: (row[columns.descripcion] ?? "").trim(),
+      impuesto,
+      categorias,
+    });
+  }
+
+  if (entries.size === 0) {
+    throw new ValidationError("The CABYS catalog file has no entries with a 13-digit code.");
+  }
+  return [...entries.values()];
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Rows scanned for the header (the official file starts with a title). */
+const HEADER_SEARCH_ROWS = 20;
+
+/** Column positions in the file. */
+interface CatalogColumns {
+  codigo: number;
+  descripcion: number;
+  impuesto: number;
+  /** Ancestor category levels, broadest first. */
+  categorias: { codigo: number; descripcion: number }[];
+}
+
+/** Locates the catalog's columns in a candidate header row. */
+function findColumns(header: readonly string[]): CatalogColumns | undefined {
+  const names = header.map(normalizeHeader);
+  const find = (pattern: RegExp) => names.findIndex((name) => pattern.test(name));
+
+  const impuesto = find(/^(impuesto|tarifa|iva)\b/);
+  if (impuesto < 0) return undefined;
+
+  // Hierarchy columns, keyed by level
+  const levels = new Map<number, { codigo: number; descripcion: number }>();
+  names.forEach((name, index) => {
+    const code = /^categoria (\d+)$/.exec(name);
+    const description = /^descripcion \(?categoria (\d+)\)?$/.exec(name);
+    const match = code ?? description;
+    if (!match) return;
+    const level = levels.get(Number(match[1])) ?? { codigo: -1, descripcion: -1 };
+    levels.set(
+      Number(match[1]),
+      code ? { ...level, codigo: index } : { ...level, descripcion: index },
+    );
+  });
+  const hierarchy = [...levels.entries()]
+    .filter(([, level]) => level.codigo >= 0)
+    .sort(([a], [b]) => a - b)
+    .map(([, level]) => level);
+
+  const codigo = find(/^(codigo|codigo cabys|cabys|codigo del bien o servicio)$/);
+  if (codigo >= 0) {
+    const descripcion = find(/^descripcion( cabys| del bien o servicio)?$/);
+    if (descripcion < 0) return undefined;
+    return { codigo, descripcion, impuesto, categorias: hierarchy };
+  }
+
+  // The deepest level of the official hierarchy is the product code itself
+  const deepest = hierarchy.pop();
+  if (!deepest || deepest.descripcion < 0) return undefined;
+  return {
+    codigo: deepest.codigo,
+    descripcion: deepest.descripcion,
+    impuesto,
+    categorias: hierarchy,
+  };
+}
+
+/** Lower-case, accent-free, single-spaced header name. */
+function normalizeHeader(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * The 13-digit code of a cell, or undefined if it has none. Restores
+ * leading zeros lost when the spreadsheet stored the code as a number.
+ */
+function normalizeCode(value: string): string | undefined {
+  const digits = value.replace(/[\s'-]/g, "");
+  if (!/^\d{1,13}$/.test(digits)) return undefined;
+  return digits.length === 13 ? digits : digits.length >= 12 ? digits.padStart(13, "0") : undefined;
+}
+
+/**
+ * IVA rate in percent. Accepts "13", "13%", "13,0", "Exento" and
+ * fractions stored by percent-formatted spreadsheet cells (0.13).
+ */
+function parseRate(value: string): number | undefined {
+  const text = value.trim();
+  if (/^exent/i.test(text)) return 0;
+  if (!/^\d+([.,]\d+)?\s*%?$/.test(text)) return undefined;
+
+  const rate = Number(text.replace("%", "").replace(",", ".").trim());
+  return rate > 0 && rate < 1 && !text.includes("%") ? Math.round(rate * 10000) / 100 : rate;
+}
+
+/** Decodes UTF-8, falling back to Latin-1 (as saved by older spreadsheet tools). */
+function decodeText(data: Uint8Array): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    return new TextDecoder("latin1").decode(data);
+  }
+}
+
+/** Parses RFC 4180 CSV, detecting the delimiter from the first lines. */
+function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** The most frequent delimiter in the first lines, where the header is. */
+function detectDelimiter(content: string): string {
+  const head = content
+    .split(/\r?\n/, HEADER_SEARCH_ROWS)
+    .join("\n")
+    .replace(/"[^"]*"/g, "");
+  const count = (delimiter: string) => head.split(delimiter).length - 1;
+  return [";", "\t"].reduce(
+    (best, candidate) => (count(candidate) > count(best) ? candidate : best),
+    ",",
+  );
+}
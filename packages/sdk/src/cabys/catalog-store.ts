@@ -0,0 +1,175 @@
+/**
+ * Local CABYS index — the imported catalog, stored as JSON under
+ * ~/.hacienda-cr/cabys.json so lookups and searches work offline.
+ *
+ * @module cabys/catalog-store
+ */
+
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { z } from "zod";
+
+import { getConfigDir } from "../config/config-manager.js";
+import { ValidationError } from "../errors.js";
+import { CabysCatalog } from "./cabys-catalog.js";
+import type { CabysEntry } from "./cabys-catalog.js";
+import { parseCabysCatalog } from "./catalog-file.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link importCabysCatalog} and {@link loadCabysCatalog}. */
+export interface CabysCatalogStoreOptions {
+  /** Override the config directory path (defaults to ~/.hacienda-cr/) */
+  configDir?: string;
+  /** Explicit index file path (overrides `configDir`). */
+  filePath?: string;
+  /** Clock used for the import timestamp (defaults to `() => new Date()`). */
+  now?: () => Date;
+}
+
+/** Result of {@link importCabysCatalog}. */
+export interface CabysImportResult {
+  /** Absolute path of the index file written. */
+  readonly filePath: string;
+  /** Number of codes imported. */
+  readonly size: number;
+  /** The imported catalog. */
+  readonly catalog: CabysCatalog;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Imports the official CABYS catalog file into the local index,
+ * replacing any previous import.
+ *
+ * @param sourcePath - The CSV or XLSX export of the catalog.
+ * @param options - Where to store the index.
+ * @returns The index path and the imported catalog.
+ * @throws {ValidationError} If the file is not a recognisable catalog.
+ *
+ * @example
+ * ```ts
+ * const { size } = await importCabysCatalog("Catalogo-de-bienes-y-servicios.xlsx");
+ * ```
+ */
+export async function importCabysCatalog(
+  sourcePath: string,
+  options: CabysCatalogStoreOptions = {},
+): Promise<CabysImportResult> {
+  const entries = parseCabysCatalog(await readFile(sourcePath));
+  const metadata = {
+    source: basename(sourcePath),
+    importedAt: (options.now ?? (() => new Date()))().toISOString(),
+  };
+  const filePath = indexPath(options);
+
+  const index: CabysIndexFile = { version: INDEX_VERSION, ...metadata, entries };
+  await mkdir(dirname(filePath), { recursive: true, mode: 0o700 });
+  const tempPath = `${filePath}.${randomBytes(6).toString("hex")}.tmp`;
+  await writeFile(tempPath, JSON.stringify(index) + "\n", { encoding: "utf-8", mode: 0o600 });
+  await rename(tempPath, filePath);
+
+  return { filePath, size: entries.length, catalog: new CabysCatalog(entries, metadata) };
+}
+
+/**
+ * Loads the local CABYS index.
+ *
+ * @param options - Where the index is stored.
+ * @returns The catalog.
+ * @throws {ValidationError} If no catalog was imported or the index is invalid.
+ *
+ * @example
+ * ```ts
+ * const catalog = await loadCabysCatalog();
+ * const result = validateDocumentInput(DocumentType.FACTURA_ELECTRONICA, draft, { cabys: catalog });
+ * ```
+ */
+export async function loadCabysCatalog(
+  options: CabysCatalogStoreOptions = {},
+): Promise<CabysCatalog> {
+  const filePath = indexPath(options);
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch (error) {
+    if (isNotFound(error)) {
+      throw new ValidationError(
+        `No CABYS catalog at ${filePath}. Import the official catalog file first.`,
+      );
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new ValidationError(
+      `Invalid CABYS index ${filePath}: not valid JSON. Import the catalog again.`,
+      undefined,
+      error,
+    );
+  }
+
+  const result = CabysIndexFileSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ValidationError(
+      `Invalid CABYS index ${filePath}: ${result.error.message}. Import the catalog again.`,
+      result.error.issues,
+    );
+  }
+  const index = result.data;
+  return new CabysCatalog(index.entries, {
+    ...(index.source !== undefined ? { source: index.source } : {}),
+    ...(index.importedAt !== undefined ? { importedAt: index.importedAt } : {}),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Index file name inside the config directory. */
+const INDEX_FILE_NAME = "cabys.json";
+
+/** Format version of the index file. */
+const INDEX_VERSION = 1;
+
+const CabysIndexFileSchema = z.object({
+  version: z.literal(INDEX_VERSION),
+  source: z.string().optional(),
+  importedAt: z.string().optional(),
+  entries: z.array(
+    z.object({
+      codigo: z.string().regex(/^\d{13}$/, "CABYS codes must be 13 digits"),
+      descripcion: z.string(),
+      impuesto: z.number().min(0).max(100),
+      categorias: z.array(z.object({ codigo: z.string().regex(/^\d+$/), descripcion: z.string() })),
+    }),
+  ),
+});
+
+/** Contents of the index file. */
+interface CabysIndexFile {
+  version: number;
+  source: string;
+  importedAt: string;
+  entries: CabysEntry[];
+}
+
+function indexPath(options: CabysCatalogStoreOptions): string {
+  return options.filePath ?? join(getConfigDir(options.configDir), INDEX_FILE_NAME);
+}
+
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof Error && "code" in error && (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * CABYS module — offline catalog of goods and services codes.
+ *
+ * @module cabys
+ */
+
+export { CabysCatalog, defaultIvaRateCode } from "./cabys-catalog.js";
+export type {
+  CabysCatalogMetadata,
+  CabysCategory,
+  CabysEntry,
+  CabysSearchOptions,
+} from "./cabys-catalog.js";
+
+export { parseCabysCatalog } from "./catalog-file.js";
+
+export { importCabysCatalog, loadCabysCatalog } from "./catalog-store.js";
+export type { CabysCatalogStoreOptions, CabysImportResult } from "./catalog-store.js";
+
+export { validateCabysCodes } from "./cabys-validation.js";
+export type { CabysCheckedLine, CabysValidationOptions } from "./cabys-validation.js";
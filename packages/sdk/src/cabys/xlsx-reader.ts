@@ -0,0 +1,216 @@
+/**
+ * Minimal XLSX reader for the CABYS catalog export.
+ *
+ * Reads the cell values of the workbook's first sheet as strings. Only
+ * what the official export uses is supported: shared and inline strings,
+ * numbers and booleans. Formulas yield their cached value; styles and
+ * dates are ignored. The ZIP container is read with `node:zlib`.
+ *
+ * @module cabys/xlsx-reader
+ */
+
+import { inflateRawSync } from "node:zlib";
+import { XMLParser } from "fast-xml-parser";
+
+import { ValidationError } from "../errors.js";
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether the bytes start like a ZIP archive (and so may be an XLSX file).
+ *
+ * @param data - File contents.
+ */
+export function isZipArchive(data: Uint8Array): boolean {
+  return data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+}
+
+/**
+ * Reads the rows of the first sheet of an XLSX workbook.
+ *
+ * Missing cells are returned as empty strings, so each row's values line
+ * up with the sheet's columns.
+ *
+ * @param data - The XLSX file contents.
+ * @returns The sheet's rows, top to bottom.
+ * @throws {ValidationError} If the file is not a readable XLSX workbook.
+ */
+export function readXlsxRows(data: Uint8Array): string[][] {
+  const files = readZipEntries(data);
+  const read = (path: string): string | undefined => files.get(path)?.toString("utf-8");
+
+  const sharedStrings = parseSharedStrings(read("xl/sharedStrings.xml"));
+  const sheetPath = firstSheetPath(read("xl/workbook.xml"), read("xl/_rels/workbook.xml.rels"));
+  const sheet = read(sheetPath);
+  if (sheet === undefined) {
+    throw new ValidationError(`Invalid XLSX file: missing worksheet ${sheetPath}.`);
+  }
+
+  const rows: string[][] = [];
+  const parsed = createParser().parse(sheet) as XmlNode;
+  for (const row of children(child(child(parsed, "worksheet"), "sheetData"), "row")) {
+    const values: string[] = [];
+    for (const cell of children(row, "c")) {
+      const column = columnIndex(String(cell["@_r"] ?? ""), values.length);
+      while (values.length < column) values.push("");
+      values[column] = cellValue(cell, sharedStrings);
+    }
+    const index = Number(row["@_r"] ?? rows.length + 1) - 1;
+    while (rows.length < index) rows.push([]);
+    rows[index] = values;
+  }
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** A parsed XML element. */
+type XmlNode = Record<string, unknown>;
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+/** Reads the files of a ZIP archive, keyed by path. */
+function readZipEntries(data: Uint8Array): Map<string, Buffer> {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end-of-central-directory record sits at the end, before an optional comment
+  let end = buffer.length - 22;
+  while (end >= 0 && buffer.readUInt32LE(end) !== END_OF_CENTRAL_DIRECTORY) end--;
+  if (end < 0) {
+    throw new ValidationError("Invalid XLSX file: not a ZIP archive.");
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new ValidationError("Invalid XLSX file: corrupt ZIP directory.");
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf-8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new ValidationError(`Invalid XLSX file: corrupt ZIP entry ${name}.`);
+    }
+    const start =
+      localOffset +
+      30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28);
+    const content = buffer.subarray(start, start + compressedSize);
+
+    if (method === STORED) {
+      files.set(name, content);
+    } else if (method === DEFLATED) {
+      files.set(name, inflateRawSync(content));
+    } else {
+      throw new ValidationError(`Invalid XLSX file: unsupported compression in ${name}.`);
+    }
+  }
+
+  return files;
+}
+
+function createParser(): XMLParser {
+  return new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    isArray: (name) => ["sheet", "Relationship", "si", "r", "row", "c"].includes(name),
+  });
+}
+
+/** Path of the workbook's first sheet, resolved through the workbook relationships. */
+function firstSheetPath(workbook: string | undefined, rels: string | undefined): string {
+  const fallback = "xl/worksheets/sheet1.xml";
+  if (workbook === undefined || rels === undefined) return fallback;
+
+  const parser = createParser();
+  const sheet = children(
+    child(child(parser.parse(workbook) as XmlNode, "workbook"), "sheets"),
+    "sheet",
+  )[0];
+  const target = children(
+    child(parser.parse(rels) as XmlNode, "Relationships"),
+    "Relationship",
+  ).find((relationship) => relationship["@_Id"] === sheet?.["@_id"])?.["@_Target"];
+  if (typeof target !== "string") return fallback;
+
+  // Targets are relative to xl/ unless absolute within the package
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+function parseSharedStrings(xml: string | undefined): string[] {
+  if (xml === undefined) return [];
+  const table = child(createParser().parse(xml) as XmlNode, "sst");
+  // Rich text is split into runs, each with its own text
+  return children(table, "si").map((item) =>
+    item.t !== undefined
+      ? text(item.t)
+      : children(item, "r")
+          .map((run) => text(run.t))
+          .join(""),
+  );
+}
+
+function cellValue(cell: XmlNode, sharedStrings: readonly string[]): string {
+  switch (cell["@_t"]) {
+    case "s":
+      return sharedStrings[Number(text(cell.v))] ?? "";
+    case "inlineStr":
+      return text(child(cell, "is")?.t);
+    case "b":
+      return text(cell.v) === "1" ? "TRUE" : "FALSE";
+    default:
+      return text(cell.v);
+  }
+}
+
+/** Zero-based column of a cell reference such as "AB12". */
+function columnIndex(reference: string, fallback: number): number {
+  const letters = /^[A-Z]+/.exec(reference)?.[0];
+  if (!letters) return fallback;
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/** Text of an element that may carry attributes (e.g. `xml:space`). */
+function text(node: unknown): string {
+  if (typeof node === "string") return node;
+  if (typeof node === "object" && node !== null && "#text" in node) {
+    return String(node["#text"]);
+  }
+  return "";
+}
+
+function child(node: XmlNode | undefined, name: string): XmlNode | undefined {
+  const value = node?.[name];
+  return typeof value === "object" && value !== null ? (value as XmlNode) : undefined;
+}
+
+function children(node: XmlNode | undefined, name: string): XmlNode[] {
+  const value = node?.[name];
+  return Array.isArray(value) ? (value as XmlNode[]) : [];
+}
@@ -487,8 +487,8 @@ describe("constants", () => {
     expect(COUNTRY_CODE).toBe("506");
   });
 
-  it("DocumentType should have 9 values", () => {
-    expect(Object.values(DocumentType)).toHaveLength(9);
+  it("DocumentType should have 10 values", () => {
+    expect(Object.values(DocumentType)).toHaveLength(10);
   });
 
   it("Situation should have 3 values", () => {
@@ -34,6 +34,8 @@ export enum DocumentType {
   FACTURA_COMPRA = "08",
   /** Factura Electronica de Exportacion */
   FACTURA_EXPORTACION = "09",
+  /** Recibo Electronico de Pago */
+  RECIBO_ELECTRONICO_PAGO = "10",
 }
 
 /**
@@ -74,7 +76,7 @@ export interface ClaveInput {
    */
   pos?: string;
 
-  /** Document type code (01-09) */
+  /** Document type code (01-10) */
   documentType: DocumentType;
 
   /**
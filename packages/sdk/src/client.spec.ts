@@ -1,14 +1,33 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { HaciendaClient } from "./client.js";
 import { Environment, IdType } from "./auth/types.js";
 import type { ClaveInput } from "./clave/types.js";
 import { DocumentType, Situation } from "./clave/types.js";
+import type { DocumentDraft } from "./documents/prepare-document.js";
 import {
   AuthenticationError,
   HaciendaError,
   HaciendaErrorCode,
+  SigningError,
   ValidationError,
 } from "./errors.js";
+import { signAndEncode } from "./signing/signer.js";
+import { FileOutbox } from "./offline/outbox.js";
+import { OutboxReplayer } from "./offline/replayer.js";
+import { FileDocumentStore } from "./store/file-document-store.js";
+import { TaxpayerCache } from "./taxpayer/taxpayer-cache.js";
+
+vi.mock("./signing/signer.js", () => ({
+  signAndEncode: vi.fn<typeof signAndEncode>(() => Promise.resolve("c2lnbmVkLXhtbA==")),
+}));
+
+// Fail fast on network errors instead of waiting out the backoff delays
+vi.mock("./api/retry.js", () => ({
+  withRetry: <T>(fn: () => Promise<T>) => fn(),
+}));
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -53,6 +72,75 @@ function createClient(fetchFn?: ReturnType<typeof vi.fn>, overrides: Record<stri
   });
 }
 
+const DRAFT: DocumentDraft = {
+  codigoActividad: "620100",
+  emisor: {
+    nombre: "Empresa Test S.A.",
+    identificacion: { tipo: "02", numero: "3101234567" },
+    correoElectronico: "facturacion@testcorp.cr",
+  },
+  receptor: {
+    nombre: "Cliente Ejemplo S.R.L.",
+    identificacion: { tipo: "02", numero: "3109876543" },
+  },
+  condicionVenta: "01",
+  medioPago: ["01"],
+  detalleServicio: [
+    {
+      codigoCabys: "4321000000000",
+      cantidad: 1,
+      unidadMedida: "Sp",
+      detalle: "Consultoria",
+      precioUnitario: 100000,
+      esServicio: true,
+      impuesto: [{ codigo: "01", codigoTarifa: "08", tarifa: 13 }],
+    },
+  ],
+};
+
+/**
+ * Routes token, submission and status requests to canned responses.
+ * With `offline`, submissions and status checks fail as if the network
+ * were down.
+ */
+function mockHaciendaFetch(
+  status = "aceptado",
+  offline = false,
+): ReturnType<typeof vi.fn<typeof fetch>> {
+  return vi.fn<typeof fetch>().mockImplementation((input, init) => {
+    const url = String(input);
+    if (url.includes("/token")) {
+      return Promise.resolve(
+        new Response(JSON.stringify(makeTokenResponse()), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        }),
+      );
+    }
+    if (init?.method === "POST") {
+      if (offline) {
+        return Promise.reject(new TypeError("fetch failed"));
+      }
+      return Promise.resolve(
+        new Response(null, {
+          status: 202,
+          headers: { Location: `${url}/loc` },
+        }),
+      );
+    }
+    if (offline) {
+      return Promise.reject(new TypeError("fetch failed"));
+    }
+    const clave = url.split("/").pop() ?? "";
+    return Promise.resolve(
+      new Response(JSON.stringify({ clave, "ind-estado": status }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }),
+    );
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -545,4 +633,307 @@ describe("HaciendaClient", () => {
       expect(client.environment).toBe(Environment.Production);
     });
   });
+
+  // -----------------------------------------------------------------------
+  // issueDocument()
+  // -----------------------------------------------------------------------
+
+  describe("issueDocument", () => {
+    let tempDir: string;
+    let p12Path: string;
+
+    beforeEach(async () => {
+      tempDir = await mkdtemp(join(tmpdir(), "hacienda-client-test-"));
+      p12Path = join(tempDir, "cert.p12");
+      await writeFile(p12Path, "fake-p12");
+      vi.mocked(signAndEncode).mockClear();
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("prepares, signs and submits a document", async () => {
+      const fetchFn = mockHaciendaFetch();
+      const client = createClient(fetchFn, { p12Path, p12Pin: "1234" });
+      await client.authenticate();
+
+      const issued = await client.issueDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+        configDir: tempDir,
+      });
+
+      expect(issued.clave).toHaveLength(50);
+      expect(issued.numeroConsecutivo).toBe("00100001010000000001");
+      expect(issued.signedXml).toBe("c2lnbmVkLXhtbA==");
+      expect(issued.submissionStatus).toBe(202);
+      expect(issued.location).toContain("/recepcion");
+      expect(issued.result).toBeUndefined();
+
+      expect(signAndEncode).toHaveBeenCalledWith(issued.xml, Buffer.from("fake-p12"), "1234");
+
+      const [, init] = fetchFn.mock.calls[1] ?? [];
+      const body = JSON.parse(String(init?.body)) as Record<string, unknown>;
+      expect(body).toMatchObject({
+        clave: issued.clave,
+        fecha: issued.document.fechaEmision,
+        emisor: { tipoIdentificacion: "02", numeroIdentificacion: "3101234567" },
+        receptor: { tipoIdentificacion: "02", numeroIdentificacion: "3109876543" },
+        comprobanteXml: "c2lnbmVkLXhtbA==",
+      });
+    });
+
+    it("waits for a terminal status when requested", async () => {
+      vi.useRealTimers();
+      const client = createClient(mockHaciendaFetch(), { p12Path, p12Pin: "1234" });
+      await client.authenticate();
+
+      const issued = await client.issueDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+        configDir: tempDir,
+        wait: { pollIntervalMs: 10 },
+      });
+
+      expect(issued.result?.accepted).toBe(true);
+      expect(issued.result?.clave).toBe(issued.clave);
+      expect(issued.submissionStatus).toBe(202);
+    });
+
+    it("records the document and its status transitions in the document store", async () => {
+      vi.useRealTimers();
+      const documentStore = new FileDocumentStore({ configDir: tempDir });
+      const client = createClient(mockHaciendaFetch("rechazado"), {
+        p12Path,
+        p12Pin: "1234",
+        documentStore,
+      });
+      await client.authenticate();
+
+      const issued = await client.issueDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+        configDir: tempDir,
+        wait: { pollIntervalMs: 10 },
+      });
+
+      const record = await documentStore.get(issued.clave);
+      expect(record).toMatchObject({
+        clave: issued.clave,
+        numeroConsecutivo: issued.numeroConsecutivo,
+        documentType: "01",
+        signedXml: "c2lnbmVkLXhtbA==",
+        status: "rechazado",
+        totals: { totalComprobante: 113000 },
+      });
+      expect(record?.statusHistory.map((t) => t.status)).toEqual(["firmado", "rechazado"]);
+    });
+
+    it("marks submitted documents as recibido when not waiting", async () => {
+      const documentStore = new FileDocumentStore({ configDir: tempDir });
+      const client = createClient(mockHaciendaFetch(), {
+        p12Path,
+        p12Pin: "1234",
+        documentStore,
+      });
+      await client.authenticate();
+
+      const issued = await client.issueDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+        configDir: tempDir,
+      });
+
+      expect((await documentStore.get(issued.clave))?.status).toBe("recibido");
+    });
+
+    it("throws SigningError when no certificate is configured", async () => {
+      const client = createClient(mockHaciendaFetch());
+      await client.authenticate();
+
+      await expect(
+        client.issueDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, { configDir: tempDir }),
+      ).rejects.toThrow(SigningError);
+    });
+
+    it("throws ValidationError for an incomplete draft", async () => {
+      const client = createClient(mockHaciendaFetch(), { p12Path, p12Pin: "1234" });
+      const { receptor: _receptor, ...draft } = DRAFT;
+
+      await expect(
+        client.issueDocument(DocumentType.NOTA_CREDITO, draft, { configDir: tempDir }),
+      ).rejects.toThrow(ValidationError);
+      expect(signAndEncode).not.toHaveBeenCalled();
+    });
+
+    it("checks the activity and receptor against the taxpayer cache before signing", async () => {
+      const taxpayerFetch = vi.fn<typeof fetch>((input) =>
+        Promise.resolve(
+          String(input).includes("3101234567")
+            ? new Response(
+                JSON.stringify({
+                  nombre: "EMPRESA TEST S.A.",
+                  tipoIdentificacion: "02",
+                  actividades: [{ codigo: "721001", descripcion: "Consultoria", estado: "A" }],
+                }),
+                { status: 200 },
+              )
+            : new Response("{}", { status: 404 }),
+        ),
+      );
+      const taxpayerCache = new TaxpayerCache({ configDir: tempDir, fetchFn: taxpayerFetch });
+      const client = createClient(mockHaciendaFetch(), { p12Path, p12Pin: "1234", taxpayerCache });
+      await client.authenticate();
+
+      const error = await client
+        .issueDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, { configDir: tempDir })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).details).toMatchObject([
+        { path: "codigoActividad" },
+        { path: "receptor.identificacion.numero" },
+      ]);
+      expect(signAndEncode).not.toHaveBeenCalled();
+
+      const issued = await client.issueDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+        configDir: tempDir,
+        checkTaxpayers: false,
+      });
+      expect(issued.submissionStatus).toBe(202);
+    });
+
+    describe("offline contingency", () => {
+      it("queues a document issued with a contingency situation without submitting", async () => {
+        const fetchFn = mockHaciendaFetch();
+        const outbox = new FileOutbox({ configDir: tempDir });
+        const client = createClient(fetchFn, { p12Path, p12Pin: "1234", outbox });
+
+        const issued = await client.issueDocument(DocumentType.TIQUETE_ELECTRONICO, DRAFT, {
+          configDir: tempDir,
+          situation: Situation.SIN_INTERNET,
+        });
+
+        expect(issued.queued).toBe(true);
+        expect(issued.submissionStatus).toBeUndefined();
+        expect(fetchFn).not.toHaveBeenCalled();
+
+        const [entry] = await outbox.list();
+        expect(entry).toMatchObject({ clave: issued.clave, documentType: "04" });
+        expect(entry?.request.comprobanteXml).toBe("c2lnbmVkLXhtbA==");
+      });
+
+      it("reissues with situation 3 when Hacienda never received the original", async () => {
+        vi.useRealTimers();
+        const offline = mockHaciendaFetch("aceptado", true);
+        const fetchFn = vi.fn<typeof fetch>((input, init) =>
+          init?.method === "GET"
+            ? Promise.resolve(new Response(null, { status: 404 }))
+            : offline(input, init),
+        );
+        const documentStore = new FileDocumentStore({ configDir: tempDir });
+        const outbox = new FileOutbox({ configDir: tempDir });
+        const client = createClient(fetchFn, {
+          p12Path,
+          p12Pin: "1234",
+          documentStore,
+          outbox,
+        });
+        await client.authenticate();
+
+        const issued = await client.issueDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+          configDir: tempDir,
+        });
+
+        expect(issued.queued).toBe(true);
+        expect(client.parseClave(issued.clave).situation).toBe(Situation.SIN_INTERNET);
+        expect(issued.numeroConsecutivo).toBe("00100001010000000001");
+        expect(signAndEncode).toHaveBeenCalledTimes(2);
+        expect((await outbox.list()).map((e) => e.clave)).toEqual([issued.clave]);
+
+        const records = await documentStore.list();
+        expect(records.map((r) => r.status).sort()).toEqual(["error", "firmado"]);
+        const original = records.find((r) => r.clave !== issued.clave);
+        expect(original?.statusHistory.at(-1)?.detail).toContain(issued.clave);
+      });
+
+      it("reissues with situation 3 when the token expired while offline", async () => {
+        const online = mockHaciendaFetch();
+        let idpDown = false;
+        const fetchFn = vi.fn<typeof fetch>((input, init) =>
+          idpDown ? Promise.reject(new TypeError("fetch failed")) : online(input, init),
+        );
+        const outbox = new FileOutbox({ configDir: tempDir });
+        const client = createClient(fetchFn, { p12Path, p12Pin: "1234", outbox });
+        await client.authenticate();
+
+        idpDown = true;
+        vi.setSystemTime(new Date("2026-01-15T12:10:00.000Z"));
+        const issued = await client.issueDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+          configDir: tempDir,
+        });
+
+        expect(issued.queued).toBe(true);
+        expect(client.parseClave(issued.clave).situation).toBe(Situation.SIN_INTERNET);
+        expect(fetchFn.mock.calls.some(([url]) => String(url).includes("/recepcion"))).toBe(false);
+        expect((await outbox.list()).map((e) => e.clave)).toEqual([issued.clave]);
+      });
+
+      it("queues the original unchanged when delivery cannot be confirmed", async () => {
+        vi.useRealTimers();
+        const documentStore = new FileDocumentStore({ configDir: tempDir });
+        const outbox = new FileOutbox({ configDir: tempDir });
+        const client = createClient(mockHaciendaFetch("aceptado", true), {
+          p12Path,
+          p12Pin: "1234",
+          documentStore,
+          outbox,
+        });
+        await client.authenticate();
+
+        const issued = await client.issueDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+          configDir: tempDir,
+        });
+
+        expect(issued.queued).toBe(true);
+        expect(client.parseClave(issued.clave).situation).toBe(Situation.NORMAL);
+        expect(signAndEncode).toHaveBeenCalledTimes(1);
+        expect((await outbox.list()).map((e) => e.clave)).toEqual([issued.clave]);
+        expect((await documentStore.list()).map((r) => r.clave)).toEqual([issued.clave]);
+      });
+
+      it("continues as delivered when Hacienda already has the original", async () => {
+        vi.useRealTimers();
+        const online = mockHaciendaFetch("aceptado");
+        const fetchFn = vi.fn<typeof fetch>((input, init) =>
+          init?.method === "POST" && String(input).includes("/recepcion")
+            ? Promise.reject(new TypeError("fetch failed"))
+            : online(input, init),
+        );
+        const outbox = new FileOutbox({ configDir: tempDir });
+        const client = createClient(fetchFn, { p12Path, p12Pin: "1234", outbox });
+        await client.authenticate();
+
+        const issued = await client.issueDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+          configDir: tempDir,
+        });
+
+        expect(issued).toMatchObject({ queued: false, submissionStatus: 200 });
+        expect(await outbox.list()).toEqual([]);
+      });
+
+      it("rethrows connectivity errors when no outbox is configured", async () => {
+        const client = createClient(mockHaciendaFetch("aceptado", true), {
+          p12Path,
+          p12Pin: "1234",
+        });
+        await client.authenticate();
+
+        await expect(
+          client.issueDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, { configDir: tempDir }),
+        ).rejects.toThrow(/Network error/);
+      });
+
+      it("creates a replayer bound to the configured outbox", () => {
+        const outbox = new FileOutbox({ configDir: tempDir });
+        const client = createClient(mockHaciendaFetch(), { outbox });
+
+        expect(client.createOutboxReplayer()).toBeInstanceOf(OutboxReplayer);
+        expect(() => createClient().createOutboxReplayer()).toThrow(ValidationError);
+      });
+    });
+  });
 });
@@ -2,7 +2,8 @@
  * HaciendaClient — the primary entry point for `@dojocoding/hacienda-sdk`.
  *
  * Provides a clean facade over the SDK's internal modules (auth, clave,
- * config) so consumers only need to interact with a single class.
+ * config, documents, signing, api) so consumers only need to interact
+ * with a single class.
  *
  * @example
  * ```ts
@@ -19,13 +20,26 @@
  *
  * await client.authenticate();
  * const clave = client.buildClave({ ... });
+ * const issued = await client.issueDocument(DocumentType.FACTURA_ELECTRONICA, draft);
  * ```
  *
  * @module client
  */
 
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
 import { z } from "zod";
+import { HaciendaStatus } from "@dojocoding/hacienda-shared";
+import type { SubmissionResponse } from "@dojocoding/hacienda-shared";
 
+import { HttpClient } from "./api/http-client.js";
+import { waitForTerminalStatus } from "./api/orchestrator.js";
+import type { SubmitAndWaitOptions, SubmitAndWaitResult } from "./api/orchestrator.js";
+import {
+  buildSubmissionRequest,
+  findExistingSubmission,
+  submitDocument,
+} from "./api/submission.js";
 import { loadCredentials } from "./auth/credentials.js";
 import { getEnvironmentConfig } from "./auth/environment.js";
 import { TokenManager } from "./auth/token-manager.js";
@@ -34,8 +48,29 @@ import { Environment, IdType, AuthError } from "./auth/types.js";
 import type { AuthCredentials } from "./auth/types.js";
 import { buildClave } from "./clave/build-clave.js";
 import { parseClave } from "./clave/parse-clave.js";
+import { DocumentType, Situation } from "./clave/types.js";
 import type { ClaveInput, ClaveParsed } from "./clave/types.js";
-import { AuthenticationError, ValidationError } from "./errors.js";
+import { FileSequenceBackend } from "./config/file-sequence-backend.js";
+import { withSequence } from "./config/sequence-backend.js";
+import type { SequenceBackend } from "./config/sequence-backend.js";
+import { buildSequenceKey } from "./config/sequence-store.js";
+import type { ExchangeRateProvider } from "./currency/exchange-rate.js";
+import { prepareDocument } from "./documents/prepare-document.js";
+import type {
+  DocumentDraft,
+  IssuableDocumentType,
+  PrepareDocumentOptions,
+  PreparedDocument,
+} from "./documents/prepare-document.js";
+import { AuthenticationError, SigningError, ValidationError } from "./errors.js";
+import type { Outbox } from "./offline/outbox.js";
+import { OutboxReplayer, isConnectivityError } from "./offline/replayer.js";
+import type { OutboxReplayerOptions } from "./offline/replayer.js";
+import { signAndEncode } from "./signing/signer.js";
+import { buildDocumentRecord } from "./store/document-store.js";
+import type { DocumentStore } from "./store/document-store.js";
+import type { TaxpayerCache } from "./taxpayer/taxpayer-cache.js";
+import { validateTaxpayers } from "./taxpayer/taxpayer-validation.js";
 
 // ---------------------------------------------------------------------------
 // Options schema
@@ -78,6 +113,64 @@ export const HaciendaClientOptionsSchema = z.object({
    * Useful for testing or proxying. Defaults to the global `fetch`.
    */
   fetchFn: z.function().optional(),
+
+  /**
+   * Optional ledger that records every document issued through
+   * {@link HaciendaClient.issueDocument} and its status transitions.
+   */
+  documentStore: z
+    .custom<DocumentStore>(
+      (value) => typeof value === "object" && value !== null,
+      "documentStore must be a DocumentStore instance.",
+    )
+    .optional(),
+
+  /**
+   * Optional outbox for contingency mode. When set, documents that cannot
+   * reach the recepcion API are reissued with situation "3" (sin internet)
+   * and queued for replay instead of failing.
+   */
+  outbox: z
+    .custom<Outbox>(
+      (value) => typeof value === "object" && value !== null,
+      "outbox must be an Outbox instance.",
+    )
+    .optional(),
+
+  /**
+   * Optional backend for consecutivo numbers, shared by every document
+   * issued through this client. Defaults to ~/.hacienda-cr/sequences.json.
+   * Can be overridden per call in {@link IssueDocumentOptions}.
+   */
+  sequenceBackend: z
+    .custom<SequenceBackend>(
+      (value) => typeof value === "object" && value !== null,
+      "sequenceBackend must be a SequenceBackend instance.",
+    )
+    .optional(),
+
+  /**
+   * Optional source of exchange rates for drafts issued in a foreign
+   * `moneda`. Can be overridden per call in {@link IssueDocumentOptions}.
+   */
+  exchangeRateProvider: z
+    .custom<ExchangeRateProvider>(
+      (value) => typeof value === "object" && value !== null,
+      "exchangeRateProvider must be an ExchangeRateProvider instance.",
+    )
+    .optional(),
+
+  /**
+   * Optional taxpayer cache. When set, {@link HaciendaClient.issueDocument}
+   * checks the emisor's activity code and the receptor against the
+   * taxpayer registry before signing.
+   */
+  taxpayerCache: z
+    .custom<TaxpayerCache>(
+      (value) => typeof value === "object" && value !== null,
+      "taxpayerCache must be a TaxpayerCache instance.",
+    )
+    .optional(),
 });
 
 /**
@@ -85,6 +178,39 @@ export const HaciendaClientOptionsSchema = z.object({
  */
 export type HaciendaClientOptions = z.input<typeof HaciendaClientOptionsSchema>;
 
+/** Options for {@link HaciendaClient.issueDocument}. */
+export interface IssueDocumentOptions extends PrepareDocumentOptions {
+  /**
+   * Wait for Hacienda to reach a terminal status via `submitAndWait`.
+   * Pass `true` for the default polling settings or an options object.
+   * Defaults to `false` (submit only).
+   */
+  wait?: boolean | SubmitAndWaitOptions;
+
+  /** Optional callback URL for async status notifications. */
+  callbackUrl?: string;
+
+  /**
+   * Check the draft against the taxpayer registry before signing
+   * (default: `true` when a `taxpayerCache` is configured).
+   */
+  checkTaxpayers?: boolean;
+}
+
+/** Result of {@link HaciendaClient.issueDocument}. */
+export interface IssueDocumentResult extends PreparedDocument {
+  /** Base64-encoded signed XML, as sent to Hacienda. */
+  readonly signedXml: string;
+  /** Whether the document was queued in the outbox instead of submitted. */
+  readonly queued: boolean;
+  /** HTTP status from the POST /recepcion submission (absent when queued). */
+  readonly submissionStatus?: number;
+  /** Location header from the submission (only when not waiting). */
+  readonly location?: string;
+  /** Final processing outcome (only when `wait` is enabled). */
+  readonly result?: SubmitAndWaitResult;
+}
+
 // ---------------------------------------------------------------------------
 // Client class
 // ---------------------------------------------------------------------------
@@ -92,14 +218,14 @@ export type HaciendaClientOptions = z.input<typeof HaciendaClientOptionsSchema>;
 /**
  * Main SDK client for interacting with the Costa Rica Hacienda API.
  *
- * Orchestrates authentication, clave generation, and (in future milestones)
- * document building, signing, and submission.
+ * Orchestrates authentication, clave generation, and the full document
+ * pipeline: numbering, totals, XML building, signing, and submission.
  *
  * Lifecycle:
  * 1. Create an instance with {@link HaciendaClientOptions}.
  * 2. Call {@link authenticate} to obtain an IDP token.
  * 3. Use helper methods ({@link buildClave}, {@link parseClave}) or
- *    (future) document submission methods.
+ *    issue documents with {@link issueDocument}.
  *
  * @example
  * ```ts
@@ -124,6 +250,8 @@ export class HaciendaClient {
   private readonly authCredentials: AuthCredentials;
   private readonly env: Environment;
   private readonly options: z.output<typeof HaciendaClientOptionsSchema>;
+  private httpClient: HttpClient | undefined;
+  private p12Buffer: Buffer | undefined;
 
   /**
    * Creates a new HaciendaClient.
@@ -179,7 +307,7 @@ export class HaciendaClient {
    * Authenticates with the Hacienda IDP using the configured credentials.
    *
    * Must be called before any operation that requires a valid token
-   * (e.g., future document submission).
+   * (e.g., {@link issueDocument}).
    *
    * @throws {AuthenticationError} If the authentication request fails.
    */
@@ -283,6 +411,199 @@ export class HaciendaClient {
     }
   }
 
+  // -------------------------------------------------------------------------
+  // Documents
+  // -------------------------------------------------------------------------
+
+  /**
+   * Issues a comprobante end to end.
+   *
+   * Prepares the draft (sequence, clave, numeroConsecutivo, totals, XML),
+   * signs it with the configured `.p12`, and submits it to Hacienda.
+   * With `wait` enabled, polls until a terminal status is reached.
+   *
+   * Requires `p12Path` and `p12Pin` in the client options and a prior
+   * call to {@link authenticate}. When a `documentStore` is configured,
+   * the signed document is recorded before submission and every status
+   * change is appended to its history.
+   *
+   * When an `outbox` is configured, documents issued with a contingency
+   * situation are queued directly. If the recepcion API or the IDP is
+   * unreachable and Hacienda is known not to have the document (no token
+   * to post with, or GET /recepcion/{clave} answers 404), it is reissued
+   * with situation "3" (same sequence and date), signed again and queued.
+   * When the POST may have arrived but cannot be confirmed, the signed
+   * original is queued unchanged so one consecutivo never gets two
+   * claves. `queued` is `true` in all these cases. Use
+   * {@link createOutboxReplayer} to deliver the queue later.
+   *
+   * When a `taxpayerCache` is configured, documents issued in the normal
+   * situation are first checked against the taxpayer registry: the
+   * `codigoActividad` must be an active activity of the emisor and the
+   * receptor must be registered (Hacienda rejection codes "07" and "06").
+   *
+   * @param documentType - Type of comprobante to issue.
+   * @param draft - Business data for the document.
+   * @param options - Numbering overrides and submission settings.
+   * @returns The prepared document, signed XML, and submission outcome.
+   * @throws {ValidationError} If the draft is missing required fields or fails
+   *   the taxpayer checks.
+   * @throws {SigningError} If no certificate is configured or signing fails.
+   * @throws {ApiError} If submission fails or polling times out.
+   *
+   * @example
+   * ```ts
+   * const issued = await client.issueDocument(
+   *   DocumentType.FACTURA_ELECTRONICA,
+   *   { codigoActividad: "620100", emisor, receptor, condicionVenta: "01",
+   *     medioPago: ["01"], detalleServicio: [...] },
+   *   { wait: true },
+   * );
+   *
+   * if (issued.result?.accepted) {
+   *   console.log(`Accepted: ${issued.clave}`);
+   * }
+   * ```
+   */
+  async issueDocument(
+    documentType: IssuableDocumentType,
+    draft: DocumentDraft,
+    options: IssueDocumentOptions = {},
+  ): Promise<IssueDocumentResult> {
+    const { wait, callbackUrl, checkTaxpayers, ...prepareOptions } = options;
+    const date = prepareOptions.date ?? new Date();
+
+    const store = this.options.documentStore;
+    const outbox = this.options.outbox;
+
+    prepareOptions.exchangeRateProvider ??= this.options.exchangeRateProvider;
+    prepareOptions.sequenceBackend ??= this.options.sequenceBackend;
+
+    const offline =
+      prepareOptions.situation === Situation.SIN_INTERNET ||
+      prepareOptions.situation === Situation.CONTINGENCIA;
+    if (checkTaxpayers !== false && !offline) {
+      await this.checkTaxpayers(documentType, draft);
+    }
+
+    let { prepared, signedXml } = await this.prepareAndSign(documentType, draft, {
+      ...prepareOptions,
+      date,
+    });
+    await store?.save(buildDocumentRecord(prepared.document, documentType, signedXml));
+
+    let request = buildSubmissionRequest(prepared.document, signedXml, callbackUrl);
+
+    if (outbox && offline) {
+      await outbox.enqueue({ clave: prepared.clave, documentType, request });
+      return { ...prepared, signedXml, queued: true };
+    }
+
+    const httpClient = this.getHttpClient();
+
+    let submission: SubmissionResponse;
+    let posted = false;
+    try {
+      if (outbox) {
+        // Nothing is posted without a token, so an unreachable IDP leaves no doubt
+        await this.tokenManager.getAccessToken();
+      }
+      posted = true;
+      submission = await submitDocument(httpClient, request, { idempotent: true });
+    } catch (error) {
+      if (!outbox || !isConnectivityError(error)) {
+        throw error;
+      }
+
+      const delivery = posted ? await this.checkDelivery(prepared.clave) : "absent";
+      if (delivery === "unknown") {
+        // The POST may have arrived: queue the original instead of a second clave
+        await outbox.enqueue({ clave: prepared.clave, documentType, request });
+        return { ...prepared, signedXml, queued: true };
+      }
+
+      if (delivery === "absent") {
+        // Never delivered: reissue as "sin internet" with the same number and queue it
+        const original = prepared;
+        prepared = await prepareDocument(documentType, draft, {
+          ...prepareOptions,
+          date,
+          sequence: original.sequence,
+          situation: Situation.SIN_INTERNET,
+        });
+        signedXml = await this.signXml(prepared.xml);
+        request = buildSubmissionRequest(prepared.document, signedXml, callbackUrl);
+
+        await store?.updateStatus(original.clave, {
+          status: HaciendaStatus.ERROR,
+          detail: `Not delivered (offline); reissued as ${prepared.clave}`,
+        });
+        await store?.save(buildDocumentRecord(prepared.document, documentType, signedXml));
+        await outbox.enqueue({ clave: prepared.clave, documentType, request });
+        return { ...prepared, signedXml, queued: true };
+      }
+
+      submission = delivery;
+    }
+
+    if (wait) {
+      const outcome = await waitForTerminalStatus(
+        httpClient,
+        prepared.clave,
+        wait === true ? undefined : wait,
+      );
+      const result: SubmitAndWaitResult = { ...outcome, submissionStatus: submission.status };
+      await store?.updateStatus(prepared.clave, {
+        status: result.status,
+        responseXml: result.responseXml,
+        rejectionReason: result.rejectionReason,
+        detail: result.rejectionReason,
+      });
+      return {
+        ...prepared,
+        signedXml,
+        queued: false,
+        submissionStatus: submission.status,
+        result,
+      };
+    }
+
+    await store?.updateStatus(prepared.clave, { status: HaciendaStatus.RECIBIDO });
+    return {
+      ...prepared,
+      signedXml,
+      queued: false,
+      submissionStatus: submission.status,
+      location: submission.location,
+    };
+  }
+
+  /**
+   * Creates a replay worker for the configured outbox.
+   *
+   * The worker shares this client's HTTP client (and therefore its
+   * token) and updates the configured `documentStore`, if any.
+   *
+   * @param options - Replay settings (wait, interval, callbacks).
+   * @returns A new {@link OutboxReplayer}.
+   * @throws {ValidationError} If no `outbox` is configured.
+   *
+   * @example
+   * ```ts
+   * const replayer = client.createOutboxReplayer({ wait: true });
+   * const report = await replayer.replay();
+   * console.log(`${report.results.length} delivered, ${report.remaining} pending`);
+   * ```
+   */
+  createOutboxReplayer(options: OutboxReplayerOptions = {}): OutboxReplayer {
+    const { outbox, documentStore } = this.options;
+    if (!outbox) {
+      throw new ValidationError("Cannot replay: no outbox is configured in the client options.");
+    }
+
+    return new OutboxReplayer(this.getHttpClient(), outbox, { documentStore, ...options });
+  }
+
   // -------------------------------------------------------------------------
   // Config
   // -------------------------------------------------------------------------
@@ -293,4 +614,119 @@ export class HaciendaClient {
   get environment(): Environment {
     return this.env;
   }
+
+  /**
+   * Identification number (cédula) of the taxpayer this client acts for.
+   */
+  get idNumber(): string {
+    return this.options.credentials.idNumber;
+  }
+
+  /**
+   * Returns the client's authenticated HTTP client, for the lower-level
+   * API helpers (`getStatus`, `listComprobantes`, ...). Created on first use
+   * and shared with {@link issueDocument}.
+   */
+  getHttpClient(): HttpClient {
+    this.httpClient ??= new HttpClient({
+      envConfig: getEnvironmentConfig(this.env),
+      tokenManager: this.tokenManager,
+      fetchFn: this.options.fetchFn as typeof fetch | undefined,
+    });
+    return this.httpClient;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal helpers
+  // -------------------------------------------------------------------------
+
+  /**
+   * Asks Hacienda whether a submission that failed on our side arrived.
+   *
+   * @returns The existing submission, `"absent"` on 404, or `"unknown"`
+   *   when the status cannot be checked either.
+   */
+  private async checkDelivery(clave: string): Promise<SubmissionResponse | "absent" | "unknown"> {
+    try {
+      return (await findExistingSubmission(this.getHttpClient(), clave)) ?? "absent";
+    } catch {
+      return "unknown";
+    }
+  }
+
+  /**
+   * Checks a draft against the taxpayer registry, if a cache is configured.
+   * The emisor of a Factura de Compra is an unregistered supplier and the
+   * receptor of a Factura de Exportación is foreign, so those are skipped.
+   *
+   * @throws {ValidationError} If any check fails.
+   */
+  private async checkTaxpayers(
+    documentType: IssuableDocumentType,
+    draft: DocumentDraft,
+  ): Promise<void> {
+    const cache = this.options.taxpayerCache;
+    if (!cache || documentType === DocumentType.FACTURA_COMPRA) {
+      return;
+    }
+
+    const errors = await validateTaxpayers(draft, cache, {
+      checkReceptor: documentType !== DocumentType.FACTURA_EXPORTACION,
+    });
+    if (errors.length > 0) {
+      throw new ValidationError(
+        `Taxpayer check failed: ${errors.map((e) => `${e.path}: ${e.message}`).join("; ")}`,
+        errors,
+      );
+    }
+  }
+
+  /**
+   * Prepares and signs a document. Unless an explicit sequence is given,
+   * the number is reserved first and only committed once signing succeeds,
+   * so a draft or certificate error does not burn a consecutivo.
+   */
+  private async prepareAndSign(
+    documentType: IssuableDocumentType,
+    draft: DocumentDraft,
+    options: PrepareDocumentOptions,
+  ): Promise<{ prepared: PreparedDocument; signedXml: string }> {
+    const run = async (sequence: number | undefined) => {
+      const prepared = await prepareDocument(documentType, draft, { ...options, sequence });
+      return { prepared, signedXml: await this.signXml(prepared.xml) };
+    };
+
+    if (options.sequence !== undefined) {
+      return run(options.sequence);
+    }
+
+    const backend =
+      options.sequenceBackend ?? new FileSequenceBackend({ configDir: options.configDir });
+    return withSequence(backend, buildSequenceKey(documentType, options.branch, options.pos), run);
+  }
+
+  /**
+   * Signs XML with the configured `.p12` and Base64-encodes the result.
+   * The certificate file is read once and cached.
+   *
+   * @throws {SigningError} If no certificate or PIN is configured.
+   */
+  private async signXml(xml: string): Promise<string> {
+    const { p12Path, p12Pin } = this.options;
+    if (!p12Path || p12Pin === undefined) {
+      throw new SigningError(
+        "Cannot sign documents: p12Path and p12Pin must be set in the client options.",
+      );
+    }
+
+    if (!this.p12Buffer) {
+      try {
+        this.p12Buffer = await readFile(resolve(p12Path));
+      } catch (error) {
+        throw new SigningError(`Cannot read .p12 file: ${p12Path}`, error);
+      }
+    }
+
+    return signAndEncode(xml, this.p12Buffer, p12Pin);
+  }
 }
@@ -9,8 +9,10 @@ import {
   loadConfig,
   saveConfig,
   listProfiles,
+  loadProfiles,
   deleteProfile,
 } from "./config-manager.js";
+import { saveProfileSecrets } from "./secret-vault.js";
 import type { Profile } from "./types.js";
 
 /**
@@ -241,6 +243,36 @@ describe("loadConfig", () => {
     expect(config.p12Pin).toBeUndefined();
   });
 
+  it("falls back to the credential vault for missing secrets", async () => {
+    await saveConfig(SANDBOX_PROFILE, "default", { configDir: temp.dir });
+    await saveProfileSecrets(
+      "default",
+      { password: "vault-pass", p12Pin: "9999" },
+      { configDir: temp.dir, passphrase: "master", scryptCost: 2 ** 10 },
+    );
+
+    const config = await loadConfig("default", {
+      configDir: temp.dir,
+      env: { HACIENDA_P12_PIN: "1234", HACIENDA_VAULT_PASSPHRASE: "master" },
+    });
+
+    expect(config.password).toBe("vault-pass");
+    expect(config.p12Pin).toBe("1234");
+  });
+
+  it("ignores the vault without a passphrase", async () => {
+    await saveConfig(SANDBOX_PROFILE, "default", { configDir: temp.dir });
+    await saveProfileSecrets(
+      "default",
+      { password: "vault-pass" },
+      { configDir: temp.dir, passphrase: "master", scryptCost: 2 ** 10 },
+    );
+
+    const config = await loadConfig("default", { configDir: temp.dir, env: {} });
+
+    expect(config.password).toBeUndefined();
+  });
+
   it("throws when profile does not exist", async () => {
     await saveConfig(SANDBOX_PROFILE, "default", { configDir: temp.dir });
 
@@ -294,6 +326,27 @@ describe("listProfiles", () => {
   });
 });
 
+describe("loadProfiles", () => {
+  const temp = useTempDir();
+
+  it("returns every profile without opening the vault", async () => {
+    await saveConfig(SANDBOX_PROFILE, "default", { configDir: temp.dir });
+    await saveConfig(PRODUCTION_PROFILE, "production", { configDir: temp.dir });
+    await saveProfileSecrets(
+      "default",
+      { password: "vault-pass" },
+      { configDir: temp.dir, passphrase: "master", scryptCost: 2 ** 10 },
+    );
+
+    // A wrong passphrase would make loadConfig throw
+    const profiles = await loadProfiles({
+      configDir: temp.dir,
+      env: { HACIENDA_VAULT_PASSPHRASE: "wrong" },
+    });
+    expect(profiles).toEqual({ default: SANDBOX_PROFILE, production: PRODUCTION_PROFILE });
+  });
+});
+
 describe("deleteProfile", () => {
   const temp = useTempDir();
 
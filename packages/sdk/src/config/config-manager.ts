@@ -2,8 +2,8 @@
  * Configuration file management for ~/.hacienda-cr/config.toml
  *
  * Supports multiple profiles (like AWS credentials).
- * Sensitive values (password, p12 PIN) are sourced from environment variables,
- * NEVER stored in the config file.
+ * Sensitive values (password, p12 PIN) are sourced from environment variables
+ * or the encrypted credential vault, NEVER stored in the config file.
  */
 
 import { readFile, writeFile, mkdir, access, chmod } from "node:fs/promises";
@@ -12,6 +12,7 @@ import { join } from "node:path";
 import { parse, stringify } from "smol-toml";
 import type { Profile, ConfigFile, ResolvedConfig } from "./types.js";
 import { ProfileSchema, ConfigFileSchema } from "./types.js";
+import { loadProfileSecrets, resolveVaultPassphrase } from "./secret-vault.js";
 
 /** Default config directory name */
 const CONFIG_DIR_NAME = ".hacienda-cr";
@@ -31,6 +32,8 @@ export interface ConfigManagerOptions {
   configDir?: string;
   /** Override environment variable lookup (defaults to process.env) */
   env?: Record<string, string | undefined>;
+  /** Vault passphrase (defaults to the HACIENDA_VAULT_PASSPHRASE env var) */
+  vaultPassphrase?: string;
 }
 
 /**
@@ -137,10 +140,15 @@ async function writeConfigFile(config: ConfigFile, configDir?: string): Promise<
  * Loads a configuration profile from config.toml and merges it with
  * environment variables for sensitive values.
  *
+ * When `HACIENDA_PASSWORD` or `HACIENDA_P12_PIN` is not set and a vault
+ * passphrase is available, the missing values are read from the
+ * profile's entry in the credential vault.
+ *
  * @param profileName - Name of the profile to load (default: "default")
  * @param options - Optional overrides for config dir and env vars
  * @returns The resolved configuration with env vars merged in
  * @throws If the profile doesn't exist or validation fails
+ * @throws {SecretVaultError} If the vault passphrase is wrong
  */
 export async function loadConfig(
   profileName: string = DEFAULT_PROFILE,
@@ -164,12 +172,25 @@ export async function loadConfig(
   }
 
   const env = options.env ?? process.env;
+  let password = env.HACIENDA_PASSWORD;
+  let p12Pin = env.HACIENDA_P12_PIN;
+
+  // Environment variables win; the vault fills in what is missing
+  const passphrase = resolveVaultPassphrase({ passphrase: options.vaultPassphrase, env });
+  if ((!password || !p12Pin) && passphrase) {
+    const secrets = await loadProfileSecrets(profileName, {
+      configDir: options.configDir,
+      passphrase,
+    });
+    password ||= secrets?.password;
+    p12Pin ||= secrets?.p12Pin;
+  }
 
   return {
     profile: result.data,
     profileName,
-    password: env.HACIENDA_PASSWORD,
-    p12Pin: env.HACIENDA_P12_PIN,
+    password,
+    p12Pin,
   };
 }
 
@@ -208,6 +229,21 @@ export async function listProfiles(options: ConfigManagerOptions = {}): Promise<
   return Object.keys(configFile);
 }
 
+/**
+ * Reads every profile from config.toml without resolving secrets.
+ *
+ * Unlike {@link loadConfig}, this never touches the environment or the
+ * credential vault, so it is cheap to call when searching profiles.
+ *
+ * @param options - Optional overrides for config dir
+ * @returns Profiles keyed by name, empty if no config file exists
+ */
+export async function loadProfiles(
+  options: ConfigManagerOptions = {},
+): Promise<Record<string, Profile>> {
+  return readConfigFile(options.configDir);
+}
+
 /**
  * Deletes a profile from config.toml.
  *
@@ -0,0 +1,62 @@
+/**
+ * Cross-process file lock based on `mkdir`.
+ *
+ * Shared by the local file stores that run read-modify-write cycles
+ * (sequence counters, document ledger). Internal to the SDK.
+ *
+ * @module config/file-lock
+ */
+
+import { mkdir, rm } from "node:fs/promises";
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 50;
+
+/**
+ * Acquires a file-based lock using `mkdir` (atomic on all platforms).
+ * Retries until timeout. Returns an unlock function.
+ *
+ * @param lockPath - Directory used as the lock
+ * @param description - What the lock protects, used in the timeout error
+ */
+export async function acquireLock(
+  lockPath: string,
+  description = "file",
+): Promise<() => Promise<void>> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (true) {
+    try {
+      await mkdir(lockPath);
+      return async () => {
+        try {
+          await rm(lockPath, { recursive: true });
+        } catch {
+          // Lock dir may already be removed — non-fatal
+        }
+      };
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        "code" in error &&
+        (error as NodeJS.ErrnoException).code === "EEXIST"
+      ) {
+        if (Date.now() >= deadline) {
+          // Stale lock — force remove and retry
+          try {
+            await rm(lockPath, { recursive: true });
+          } catch {
+            throw new Error(
+              `Failed to acquire ${description} lock at ${lockPath} after ${String(LOCK_TIMEOUT_MS)}ms. ` +
+                `If this persists, manually remove the lock directory.`,
+            );
+          }
+          continue;
+        }
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+        continue;
+      }
+      throw error;
+    }
+  }
+}
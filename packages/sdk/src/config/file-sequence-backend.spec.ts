@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileSequenceBackend, getSequencesPath } from "./file-sequence-backend.js";
+
+const KEY = "01-001-00001";
+
+describe("FileSequenceBackend", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "hacienda-seq-backend-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("continues from an existing sequences.json", async () => {
+    await writeFile(getSequencesPath(dir), JSON.stringify({ [KEY]: 41 }), "utf-8");
+    const backend = new FileSequenceBackend({ configDir: dir });
+
+    const reservation = await backend.reserve(KEY);
+    await backend.commit(reservation);
+
+    expect(reservation.sequence).toBe(42);
+    const content = JSON.parse(await readFile(getSequencesPath(dir), "utf-8")) as unknown;
+    expect(content).toEqual({ [KEY]: 42 });
+  });
+
+  it("shares released numbers across instances", async () => {
+    const first = new FileSequenceBackend({ configDir: dir });
+    const reservation = await first.reserve(KEY);
+    await first.release(reservation);
+
+    const second = new FileSequenceBackend({ configDir: dir });
+    expect((await second.reserve(KEY)).sequence).toBe(1);
+  });
+
+  it("removes settled keys from the reservations file", async () => {
+    const backend = new FileSequenceBackend({ configDir: dir });
+
+    const reservation = await backend.reserve(KEY);
+    await backend.commit(reservation);
+
+    const content = JSON.parse(
+      await readFile(join(dir, "sequence-reservations.json"), "utf-8"),
+    ) as unknown;
+    expect(content).toEqual({});
+  });
+
+  it("neither skips nor reuses a number after a crash between writes", async () => {
+    // Crashed after recording reservation 42 but before bumping the counter
+    await writeFile(getSequencesPath(dir), JSON.stringify({ [KEY]: 41 }), "utf-8");
+    await writeFile(
+      join(dir, "sequence-reservations.json"),
+      JSON.stringify({
+        [KEY]: { released: [], reserved: { lost: { sequence: 42, expiresAt: 0 } } },
+      }),
+      "utf-8",
+    );
+    const backend = new FileSequenceBackend({ configDir: dir });
+
+    expect(await backend.current(KEY)).toBe(42);
+    const reissued = await backend.reserve(KEY);
+    const next = await backend.reserve(KEY);
+    await backend.commit(reissued);
+    await backend.commit(next);
+
+    expect([reissued.sequence, next.sequence]).toEqual([42, 43]);
+    const content = JSON.parse(await readFile(getSequencesPath(dir), "utf-8")) as unknown;
+    expect(content).toEqual({ [KEY]: 43 });
+  });
+
+  it("hands out distinct numbers to concurrent reservations", async () => {
+    const backend = new FileSequenceBackend({ configDir: dir });
+
+    const reservations = await Promise.all(Array.from({ length: 10 }, () => backend.reserve(KEY)));
+
+    const numbers = reservations.map((r) => r.sequence).sort((a, b) => a - b);
+    expect(numbers).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it("lists counters together with keys that only have reservations", async () => {
+    await writeFile(getSequencesPath(dir), JSON.stringify({ [KEY]: 7 }), "utf-8");
+    const backend = new FileSequenceBackend({ configDir: dir });
+    await backend.reserve("04-001-00001");
+
+    expect(await backend.list()).toEqual({ [KEY]: 7, "04-001-00001": 1 });
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Local file implementation of the sequence backend.
+ *
+ * Counters stay in ~/.hacienda-cr/sequences.json (keyed by
+ * "{docType}-{branch}-{pos}", unchanged from earlier versions) and
+ * pending or released reservations in sequence-reservations.json.
+ * Every transaction runs under an `mkdir` lock, so processes sharing the
+ * directory never hand out the same number. A new reservation is written
+ * before the counter, and a key's counter is read as the highest of the
+ * stored counter and its pending numbers, so a crash between the two
+ * writes neither skips nor reuses a number.
+ *
+ * @module config/file-sequence-backend
+ */
+
+import { readFile, writeFile, rename } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import { join } from "node:path";
+import { z } from "zod";
+
+import { getConfigDir, ensureConfigDir } from "./config-manager.js";
+import { acquireLock } from "./file-lock.js";
+import { TransactionalSequenceBackend, emptySequenceState } from "./sequence-backend.js";
+import type {
+  SequenceBackendOptions,
+  SequenceKeyState,
+  SequenceStateAdapter,
+  SequenceStateUpdate,
+} from "./sequence-backend.js";
+import { SequenceFileSchema } from "./types.js";
+import type { SequenceFile } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link FileSequenceBackend}. */
+export interface FileSequenceBackendOptions extends SequenceBackendOptions {
+  /** Override the config directory path (defaults to ~/.hacienda-cr/) */
+  configDir?: string;
+}
+
+/** Sequences file name */
+const SEQUENCES_FILE_NAME = "sequences.json";
+
+/** Reservations file name */
+const RESERVATIONS_FILE_NAME = "sequence-reservations.json";
+
+/** Lock directory name */
+const LOCK_NAME = ".sequences.lock";
+
+/** Pending and released numbers per key. */
+const ReservationFileSchema = z.record(
+  z.string(),
+  z.object({
+    released: z.array(z.number().int().min(1)),
+    reserved: z.record(
+      z.string(),
+      z.object({ sequence: z.number().int().min(1), expiresAt: z.number() }),
+    ),
+  }),
+);
+type ReservationFile = z.infer<typeof ReservationFileSchema>;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns the path to the sequences.json file.
+ *
+ * @param configDir - Optional override for the config directory
+ * @returns Absolute path to sequences.json
+ */
+export function getSequencesPath(configDir?: string): string {
+  return join(getConfigDir(configDir), SEQUENCES_FILE_NAME);
+}
+
+/**
+ * Sequence backend backed by JSON files in the local config directory.
+ *
+ * Suitable for a single machine; for several hosts use a shared backend
+ * such as {@link SqliteSequenceBackend} on a shared volume or a
+ * database-backed {@link SequenceStateAdapter}.
+ *
+ * @example
+ * ```ts
+ * const backend = new FileSequenceBackend();
+ * const reservation = await backend.reserve(buildSequenceKey("01"));
+ * ```
+ */
+export class FileSequenceBackend extends TransactionalSequenceBackend {
+  constructor(options: FileSequenceBackendOptions = {}) {
+    super(new FileSequenceAdapter(options.configDir), options);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Runs each transaction under the directory lock. */
+class FileSequenceAdapter implements SequenceStateAdapter {
+  constructor(private readonly configDir: string | undefined) {}
+
+  async transaction<T>(
+    key: string,
+    fn: (state: SequenceKeyState) => SequenceStateUpdate<T>,
+  ): Promise<T> {
+    await ensureConfigDir(this.configDir);
+    const unlock = await acquireLock(join(getConfigDir(this.configDir), LOCK_NAME), "sequence");
+
+    try {
+      const sequences = await readSequenceFile(this.configDir);
+      const reservations = await readReservationFile(this.configDir);
+      const pending = reservations[key];
+      const state: SequenceKeyState = {
+        ...emptySequenceState(),
+        ...(pending ?? {}),
+        last: effectiveLast(sequences[key], pending),
+      };
+
+      const { state: next, result } = fn(state);
+      if (next === state) {
+        return result;
+      }
+
+      // Catch up a counter left behind by a crash before its numbers can leave the reservations file
+      if ((sequences[key] ?? 0) < state.last) {
+        sequences[key] = state.last;
+        await writeJsonFile(getSequencesPath(this.configDir), sequences, this.configDir);
+      }
+
+      // Reservations before the counter: a new number is recorded before it counts as handed out
+      const empty = next.released.length === 0 && Object.keys(next.reserved).length === 0;
+      if (!(empty && pending === undefined)) {
+        const { [key]: _previous, ...others } = reservations;
+        await writeJsonFile(
+          this.reservationsPath(),
+          empty
+            ? others
+            : { ...others, [key]: { released: next.released, reserved: next.reserved } },
+          this.configDir,
+        );
+      }
+
+      if (sequences[key] !== next.last) {
+        sequences[key] = next.last;
+        await writeJsonFile(getSequencesPath(this.configDir), sequences, this.configDir);
+      }
+
+      return result;
+    } finally {
+      await unlock();
+    }
+  }
+
+  async list(): Promise<Record<string, SequenceKeyState>> {
+    const sequences = await readSequenceFile(this.configDir);
+    const reservations = await readReservationFile(this.configDir);
+
+    const keys = new Set([...Object.keys(sequences), ...Object.keys(reservations)]);
+    return Object.fromEntries(
+      [...keys].map((key) => [
+        key,
+        {
+          ...emptySequenceState(),
+          ...(reservations[key] ?? {}),
+          last: effectiveLast(sequences[key], reservations[key]),
+        },
+      ]),
+    );
+  }
+
+  private reservationsPath(): string {
+    return join(getConfigDir(this.configDir), RESERVATIONS_FILE_NAME);
+  }
+}
+
+/** Highest number handed out: the stored counter or a pending number above it. */
+function effectiveLast(
+  counter: number | undefined,
+  pending: ReservationFile[string] | undefined,
+): number {
+  const numbers = [
+    ...(pending?.released ?? []),
+    ...Object.values(pending?.reserved ?? {}).map((held) => held.sequence),
+  ];
+  return Math.max(counter ?? 0, ...numbers);
+}
+
+/**
+ * Reads the current sequences file from disk.
+ *
+ * @param configDir - Optional override for the config directory
+ * @returns Parsed sequence data, or empty object if file doesn't exist
+ * @throws If the file exists but contains invalid JSON or fails validation
+ */
+async function readSequenceFile(configDir?: string): Promise<SequenceFile> {
+  const filePath = getSequencesPath(configDir);
+  const parsed = await readJsonFile(filePath);
+
+  const result = SequenceFileSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid sequences file at ${filePath}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+async function readReservationFile(configDir?: string): Promise<ReservationFile> {
+  const filePath = join(getConfigDir(configDir), RESERVATIONS_FILE_NAME);
+  const parsed = await readJsonFile(filePath);
+
+  const result = ReservationFileSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid sequence reservations file at ${filePath}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/** Reads a JSON file, treating a missing or empty file as `{}`. */
+async function readJsonFile(filePath: string): Promise<unknown> {
+  try {
+    const content = await readFile(filePath, "utf-8");
+    return content.trim() === "" ? {} : (JSON.parse(content) as unknown);
+  } catch (error) {
+    // File doesn't exist — start fresh
+    if (
+      error instanceof Error &&
+      "code" in error &&
+      (error as NodeJS.ErrnoException).code === "ENOENT"
+    ) {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes a JSON file atomically using a rename-based strategy.
+ * Writes to a temporary file first, then renames to the target to reduce
+ * the chance of corruption from concurrent writes or crashes.
+ */
+async function writeJsonFile(filePath: string, data: unknown, configDir?: string): Promise<void> {
+  await ensureConfigDir(configDir);
+  // Use a unique temp file name per write to avoid collisions under concurrent access
+  const uniqueSuffix = randomBytes(6).toString("hex");
+  const tempPath = `${filePath}.${uniqueSuffix}.tmp`;
+
+  const content = JSON.stringify(data, null, 2) + "\n";
+  await writeFile(tempPath, content, { encoding: "utf-8", mode: 0o600 });
+  await rename(tempPath, filePath);
+}
@@ -33,10 +33,23 @@ export {
   loadConfig,
   saveConfig,
   listProfiles,
+  loadProfiles,
   deleteProfile,
 } from "./config-manager.js";
 export type { ConfigManagerOptions } from "./config-manager.js";
 
+// Credential vault
+export {
+  getVaultPath,
+  vaultExists,
+  loadProfileSecrets,
+  saveProfileSecrets,
+  deleteProfileSecrets,
+  resolveVaultPassphrase,
+  SecretVaultError,
+} from "./secret-vault.js";
+export type { ProfileSecrets, SecretVaultOptions } from "./secret-vault.js";
+
 // Sequence store
 export {
   buildSequenceKey,
@@ -44,6 +57,47 @@ export {
   getNextSequence,
   getCurrentSequence,
   resetSequence,
+  listSequences,
   SequenceOverflowError,
 } from "./sequence-store.js";
 export type { SequenceStoreOptions } from "./sequence-store.js";
+
+// Sequence audit
+export {
+  auditSequences,
+  setSequence,
+  readSequenceAuditLog,
+  getSequenceAuditLogPath,
+} from "./sequence-audit.js";
+export type {
+  SequencedDocument,
+  SequenceGap,
+  SequenceDuplicate,
+  SequenceKeyAudit,
+  SequenceAuditReport,
+  SequenceAuditOptions,
+  SequenceAuditEntry,
+  SequenceAuditStatus,
+  SetSequenceOptions,
+} from "./sequence-audit.js";
+
+// Sequence backends
+export {
+  TransactionalSequenceBackend,
+  SequenceReservationError,
+  emptySequenceState,
+  withSequence,
+} from "./sequence-backend.js";
+export type {
+  SequenceBackend,
+  SequenceBackendOptions,
+  SequenceKeyState,
+  SequenceReservation,
+  SequenceResetResult,
+  SequenceStateAdapter,
+  SequenceStateUpdate,
+} from "./sequence-backend.js";
+export { FileSequenceBackend } from "./file-sequence-backend.js";
+export type { FileSequenceBackendOptions } from "./file-sequence-backend.js";
+export { SqliteSequenceBackend } from "./sqlite-sequence-backend.js";
+export type { SqliteSequenceBackendOptions } from "./sqlite-sequence-backend.js";
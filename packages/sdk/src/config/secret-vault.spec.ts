@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, readFile, writeFile, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  getVaultPath,
+  vaultExists,
+  loadProfileSecrets,
+  saveProfileSecrets,
+  deleteProfileSecrets,
+  resolveVaultPassphrase,
+  SecretVaultError,
+} from "./secret-vault.js";
+
+describe("secret vault", () => {
+  let dir: string;
+  /** Low scrypt cost keeps the tests fast. */
+  let options: { configDir: string; passphrase: string; scryptCost: number };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "hacienda-vault-test-"));
+    options = { configDir: dir, passphrase: "correct horse", scryptCost: 2 ** 10 };
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("stores and reads secrets per profile", async () => {
+    await saveProfileSecrets("empresa-a", { password: "pass-a", p12Pin: "1111" }, options);
+    await saveProfileSecrets("empresa-b", { password: "pass-b" }, options);
+
+    expect(await loadProfileSecrets("empresa-a", options)).toEqual({
+      password: "pass-a",
+      p12Pin: "1111",
+    });
+    expect(await loadProfileSecrets("empresa-b", options)).toEqual({ password: "pass-b" });
+    expect(await loadProfileSecrets("missing", options)).toBeUndefined();
+  });
+
+  it("keeps stored fields that are not updated", async () => {
+    await saveProfileSecrets("default", { password: "old", p12Pin: "1111" }, options);
+    await saveProfileSecrets("default", { password: "new" }, options);
+
+    expect(await loadProfileSecrets("default", options)).toEqual({
+      password: "new",
+      p12Pin: "1111",
+    });
+  });
+
+  it("never writes secrets in clear text", async () => {
+    await saveProfileSecrets("default", { password: "super-secret-password" }, options);
+
+    const content = await readFile(getVaultPath(dir), "utf-8");
+    const file = JSON.parse(content) as Record<string, unknown>;
+    expect(content).not.toContain("super-secret-password");
+    expect(file["cipher"]).toBe("aes-256-gcm");
+    expect(file["kdf"]).toMatchObject({ algorithm: "scrypt", N: 2 ** 10 });
+    expect((await stat(getVaultPath(dir))).mode & 0o777).toBe(0o600);
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    await saveProfileSecrets("default", { password: "pass" }, options);
+
+    await expect(
+      loadProfileSecrets("default", { ...options, passphrase: "wrong" }),
+    ).rejects.toThrow(SecretVaultError);
+    await expect(
+      saveProfileSecrets("other", { password: "x" }, { ...options, passphrase: "wrong" }),
+    ).rejects.toThrow(/wrong passphrase/);
+  });
+
+  it("detects tampered KDF parameters", async () => {
+    await saveProfileSecrets("default", { password: "pass" }, options);
+    const file = JSON.parse(await readFile(getVaultPath(dir), "utf-8")) as {
+      kdf: { r: number };
+    };
+    file.kdf.r = 4;
+    await writeFile(getVaultPath(dir), JSON.stringify(file), "utf-8");
+
+    await expect(loadProfileSecrets("default", options)).rejects.toThrow(SecretVaultError);
+  });
+
+  it("refuses excessive KDF costs before deriving a key", async () => {
+    await saveProfileSecrets("default", { password: "pass" }, options);
+    const file = JSON.parse(await readFile(getVaultPath(dir), "utf-8")) as {
+      kdf: { N: number };
+    };
+    file.kdf.N = 2 ** 30;
+    await writeFile(getVaultPath(dir), JSON.stringify(file), "utf-8");
+
+    await expect(loadProfileSecrets("default", options)).rejects.toThrow(/Invalid vault file/);
+    await expect(
+      saveProfileSecrets(
+        "other",
+        { password: "x" },
+        { ...options, configDir: join(dir, "new"), scryptCost: 2 ** 21 },
+      ),
+    ).rejects.toThrow(SecretVaultError);
+  });
+
+  it("reports a corrupt vault file as a vault error", async () => {
+    await writeFile(getVaultPath(dir), "{ not json", "utf-8");
+
+    await expect(loadProfileSecrets("default", options)).rejects.toThrow(SecretVaultError);
+    await expect(vaultExists(dir)).rejects.toThrow(/not valid JSON/);
+  });
+
+  it("requires a passphrase to open an existing vault", async () => {
+    await saveProfileSecrets("default", { password: "pass" }, options);
+
+    await expect(loadProfileSecrets("default", { configDir: dir, env: {} })).rejects.toThrow(
+      /HACIENDA_VAULT_PASSPHRASE/,
+    );
+  });
+
+  it("returns undefined when no vault exists", async () => {
+    expect(await vaultExists(dir)).toBe(false);
+    expect(await loadProfileSecrets("default", { configDir: dir, env: {} })).toBeUndefined();
+  });
+
+  it("deletes a profile's secrets", async () => {
+    await saveProfileSecrets("a", { password: "1" }, options);
+    await saveProfileSecrets("b", { password: "2" }, options);
+
+    expect(await deleteProfileSecrets("a", options)).toBe(true);
+    expect(await deleteProfileSecrets("a", options)).toBe(false);
+    expect(await loadProfileSecrets("a", options)).toBeUndefined();
+    expect(await loadProfileSecrets("b", options)).toEqual({ password: "2" });
+  });
+
+  it("resolves the passphrase from options before the environment", () => {
+    const env = { HACIENDA_VAULT_PASSPHRASE: "from-env" };
+
+    expect(resolveVaultPassphrase({ env })).toBe("from-env");
+    expect(resolveVaultPassphrase({ passphrase: "explicit", env })).toBe("explicit");
+    expect(resolveVaultPassphrase({ env: { HACIENDA_VAULT_PASSPHRASE: "" } })).toBeUndefined();
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Encrypted credential vault in ~/.hacienda-cr/vault.json.
+ *
+ * Holds per-profile IDP passwords and .p12 PINs so that several profiles
+ * can be used from one shell. The vault is encrypted with AES-256-GCM
+ * under a key derived from a master passphrase with scrypt; the KDF
+ * parameters are stored in the file and authenticated with the
+ * ciphertext. The passphrase is taken from the
+ * `HACIENDA_VAULT_PASSPHRASE` environment variable unless passed in.
+ *
+ * @module config/secret-vault
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "node:crypto";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { z } from "zod";
+
+import { ensureConfigDir, getConfigDir } from "./config-manager.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Secrets stored for one profile. */
+export interface ProfileSecrets {
+  /** IDP password. */
+  password?: string;
+  /** .p12 certificate PIN. */
+  p12Pin?: string;
+}
+
+/** Options for the vault functions. */
+export interface SecretVaultOptions {
+  /** Override the config directory path (defaults to ~/.hacienda-cr/) */
+  configDir?: string;
+  /** Master passphrase (defaults to the HACIENDA_VAULT_PASSPHRASE env var). */
+  passphrase?: string;
+  /** Override environment variable lookup (defaults to process.env) */
+  env?: Record<string, string | undefined>;
+  /**
+   * scrypt CPU/memory cost, a power of two up to 2^20 (default: 2^17).
+   * Only used when the vault is created; existing vaults keep their
+   * parameters.
+   */
+  scryptCost?: number;
+}
+
+/** Vault file name */
+const VAULT_FILE_NAME = "vault.json";
+
+/** Environment variable holding the master passphrase */
+const PASSPHRASE_ENV = "HACIENDA_VAULT_PASSPHRASE";
+
+/** Default KDF and cipher settings. */
+const DEFAULTS = {
+  scryptCost: 2 ** 17,
+  scryptBlockSize: 8,
+  scryptParallelization: 1,
+  saltBytes: 16,
+  ivBytes: 12,
+  keyBytes: 32,
+} as const;
+
+/**
+ * Upper bounds for the KDF parameters read from the file. They are
+ * checked before the header is authenticated, so a modified file must
+ * not be able to make scrypt allocate gigabytes.
+ */
+const LIMITS = {
+  scryptCost: 2 ** 20,
+  scryptBlockSize: 8,
+  scryptParallelization: 16,
+} as const;
+
+const VaultFileSchema = z.object({
+  version: z.literal(1),
+  kdf: z.object({
+    algorithm: z.literal("scrypt"),
+    salt: z.string(),
+    N: z
+      .number()
+      .int()
+      .min(2)
+      .max(LIMITS.scryptCost)
+      .refine((n) => (n & (n - 1)) === 0, "must be a power of two"),
+    r: z.number().int().positive().max(LIMITS.scryptBlockSize),
+    p: z.number().int().positive().max(LIMITS.scryptParallelization),
+  }),
+  cipher: z.literal("aes-256-gcm"),
+  iv: z.string(),
+  tag: z.string(),
+  ciphertext: z.string(),
+});
+type VaultFile = z.infer<typeof VaultFileSchema>;
+
+const VaultContentsSchema = z.object({
+  profiles: z.record(
+    z.string(),
+    z.object({ password: z.string().optional(), p12Pin: z.string().optional() }),
+  ),
+});
+type VaultContents = z.infer<typeof VaultContentsSchema>;
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/**
+ * Error thrown when the vault cannot be opened: wrong passphrase, a
+ * tampered file or a missing passphrase.
+ */
+export class SecretVaultError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "SecretVaultError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns the path to the vault file.
+ *
+ * @param configDir - Optional override for the config directory
+ * @returns Absolute path to vault.json
+ */
+export function getVaultPath(configDir?: string): string {
+  return join(getConfigDir(configDir), VAULT_FILE_NAME);
+}
+
+/**
+ * Checks whether a vault file exists.
+ *
+ * @param configDir - Optional override for the config directory
+ * @returns true if vault.json exists
+ */
+export async function vaultExists(configDir?: string): Promise<boolean> {
+  return (await readVaultFile(configDir)) !== undefined;
+}
+
+/**
+ * Reads the secrets stored for a profile.
+ *
+ * @param profileName - Profile name
+ * @param options - Passphrase and config dir overrides
+ * @returns The profile's secrets, or undefined if the vault or profile is absent
+ * @throws {SecretVaultError} If no passphrase is available, it is wrong, or
+ *   the vault was tampered with
+ */
+export async function loadProfileSecrets(
+  profileName: string,
+  options: SecretVaultOptions = {},
+): Promise<ProfileSecrets | undefined> {
+  const file = await readVaultFile(options.configDir);
+  if (!file) {
+    return undefined;
+  }
+
+  const contents = await decryptVault(file, requirePassphrase(options));
+  return contents.profiles[profileName];
+}
+
+/**
+ * Stores secrets for a profile, creating the vault if needed.
+ *
+ * Fields left undefined keep their stored value.
+ *
+ * @param profileName - Profile name
+ * @param secrets - Password and/or PIN to store
+ * @param options - Passphrase and config dir overrides
+ * @throws {SecretVaultError} If no passphrase is available or it does not
+ *   open the existing vault
+ *
+ * @example
+ * ```ts
+ * await saveProfileSecrets("empresa-a", { password: "...", p12Pin: "1234" });
+ * // Later, with HACIENDA_VAULT_PASSPHRASE set:
+ * const config = await loadConfig("empresa-a"); // password and PIN from the vault
+ * ```
+ */
+export async function saveProfileSecrets(
+  profileName: string,
+  secrets: ProfileSecrets,
+  options: SecretVaultOptions = {},
+): Promise<void> {
+  const passphrase = requirePassphrase(options);
+  const file = await readVaultFile(options.configDir);
+
+  let contents: VaultContents = { profiles: {} };
+  let kdf: VaultFile["kdf"];
+  if (file) {
+    contents = await decryptVault(file, passphrase);
+    kdf = file.kdf;
+  } else {
+    const cost = options.scryptCost ?? DEFAULTS.scryptCost;
+    if (cost > LIMITS.scryptCost) {
+      throw new SecretVaultError(
+        `scrypt cost ${String(cost)} exceeds the maximum of ${String(LIMITS.scryptCost)}.`,
+      );
+    }
+    kdf = {
+      algorithm: "scrypt",
+      salt: randomBytes(DEFAULTS.saltBytes).toString("base64"),
+      N: cost,
+      r: DEFAULTS.scryptBlockSize,
+      p: DEFAULTS.scryptParallelization,
+    };
+  }
+
+  const current = contents.profiles[profileName] ?? {};
+  contents.profiles[profileName] = {
+    ...current,
+    ...(secrets.password !== undefined ? { password: secrets.password } : {}),
+    ...(secrets.p12Pin !== undefined ? { p12Pin: secrets.p12Pin } : {}),
+  };
+  await writeVaultFile(await encryptVault(contents, kdf, passphrase), options.configDir);
+}
+
+/**
+ * Removes a profile's secrets from the vault.
+ *
+ * @param profileName - Profile name
+ * @param options - Passphrase and config dir overrides
+ * @returns true if secrets were removed, false if none were stored
+ * @throws {SecretVaultError} If the vault cannot be opened
+ */
+export async function deleteProfileSecrets(
+  profileName: string,
+  options: SecretVaultOptions = {},
+): Promise<boolean> {
+  const file = await readVaultFile(options.configDir);
+  if (!file) {
+    return false;
+  }
+
+  const passphrase = requirePassphrase(options);
+  const contents = await decryptVault(file, passphrase);
+  const { [profileName]: removed, ...profiles } = contents.profiles;
+  if (!removed) {
+    return false;
+  }
+
+  await writeVaultFile(await encryptVault({ profiles }, file.kdf, passphrase), options.configDir);
+  return true;
+}
+
+/**
+ * Returns the passphrase from the options or the environment, if any.
+ *
+ * @param options - Passphrase and env overrides
+ * @returns The passphrase, or undefined if none is configured
+ */
+export function resolveVaultPassphrase(options: SecretVaultOptions = {}): string | undefined {
+  const env = options.env ?? process.env;
+  return options.passphrase ?? (env[PASSPHRASE_ENV] || undefined);
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function requirePassphrase(options: SecretVaultOptions): string {
+  const passphrase = resolveVaultPassphrase(options);
+  if (!passphrase) {
+    throw new SecretVaultError(
+      `Missing vault passphrase. Set the ${PASSPHRASE_ENV} environment variable.`,
+    );
+  }
+  return passphrase;
+}
+
+function deriveKey(passphrase: string, kdf: VaultFile["kdf"]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      passphrase,
+      Buffer.from(kdf.salt, "base64"),
+      DEFAULTS.keyBytes,
+      // scrypt needs 128 * N * r bytes; allow that plus headroom
+      { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 256 * kdf.N * kdf.r },
+      (error, key) => {
+        if (error) reject(error);
+        else resolve(key);
+      },
+    );
+  });
+}
+
+/** Authenticated data: the header, so KDF parameters cannot be swapped. */
+function additionalData(kdf: VaultFile["kdf"]): Buffer {
+  return Buffer.from(JSON.stringify({ version: 1, kdf, cipher: "aes-256-gcm" }), "utf-8");
+}
+
+async function encryptVault(
+  contents: VaultContents,
+  kdf: VaultFile["kdf"],
+  passphrase: string,
+): Promise<VaultFile> {
+  const key = await deriveKey(passphrase, kdf);
+  const iv = randomBytes(DEFAULTS.ivBytes);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(additionalData(kdf));
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(contents), "utf-8"),
+    cipher.final(),
+  ]);
+
+  return {
+    version: 1,
+    kdf,
+    cipher: "aes-256-gcm",
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  };
+}
+
+async function decryptVault(file: VaultFile, passphrase: string): Promise<VaultContents> {
+  const key = await deriveKey(passphrase, file.kdf);
+
+  let plaintext: string;
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(file.iv, "base64"));
+    decipher.setAAD(additionalData(file.kdf));
+    decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+    plaintext = Buffer.concat([
+      decipher.update(Buffer.from(file.ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch (error) {
+    throw new SecretVaultError(
+      "Cannot open the credential vault: wrong passphrase or the file was modified.",
+      { cause: error },
+    );
+  }
+
+  const result = VaultContentsSchema.safeParse(JSON.parse(plaintext));
+  if (!result.success) {
+    throw new SecretVaultError(`Invalid vault contents: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+async function readVaultFile(configDir?: string): Promise<VaultFile | undefined> {
+  const filePath = getVaultPath(configDir);
+
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new SecretVaultError(`Invalid vault file at ${filePath}: not valid JSON.`, {
+      cause: error,
+    });
+  }
+
+  const result = VaultFileSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new SecretVaultError(`Invalid vault file at ${filePath}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/** Writes the vault atomically with owner-only permissions. */
+async function writeVaultFile(file: VaultFile, configDir?: string): Promise<void> {
+  await ensureConfigDir(configDir);
+  const filePath = getVaultPath(configDir);
+  const tempPath = `${filePath}.${randomBytes(6).toString("hex")}.tmp`;
+
+  await writeFile(tempPath, JSON.stringify(file, null, 2) + "\n", {
+    encoding: "utf-8",
+    mode: 0o600,
+  });
+  await rename(tempPath, filePath);
+}
@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, appendFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  auditSequences,
+  setSequence,
+  readSequenceAuditLog,
+  getSequenceAuditLogPath,
+} from "./sequence-audit.js";
+import { FileSequenceBackend } from "./file-sequence-backend.js";
+import { getCurrentSequence, resetSequence } from "./sequence-store.js";
+
+/** Builds a clave for document type 01 at branch 001 / POS 00001. */
+function clave(sequence: number, security = "12345678", docType = "01"): string {
+  return (
+    `506010125000310123456001` + `00001${docType}${String(sequence).padStart(10, "0")}1${security}`
+  );
+}
+
+function docs(...sequences: number[]) {
+  return sequences.map((sequence) => ({ clave: clave(sequence) }));
+}
+
+const KEY = "01-001-00001";
+
+describe("auditSequences", () => {
+  it("reports a clean key", () => {
+    const report = auditSequences({ [KEY]: 3 }, docs(1, 2, 3), { complete: true });
+
+    expect(report.ok).toBe(true);
+    expect(report.keys).toEqual([
+      {
+        key: KEY,
+        counter: 3,
+        documents: 3,
+        lowest: 1,
+        highest: 3,
+        gaps: [],
+        duplicates: [],
+        counterBehind: false,
+      },
+    ]);
+  });
+
+  it("finds gaps between issued numbers and up to the counter", () => {
+    const report = auditSequences({ [KEY]: 9 }, docs(1, 2, 5, 6), { complete: true });
+
+    expect(report.ok).toBe(false);
+    expect(report.keys[0]?.gaps).toEqual([
+      { from: 3, to: 4 },
+      { from: 7, to: 9 },
+    ]);
+  });
+
+  it("counts gaps from the lowest number found unless complete", () => {
+    const partial = auditSequences({ [KEY]: 12 }, docs(10, 12));
+    const complete = auditSequences({ [KEY]: 12 }, docs(10, 12), { complete: true });
+
+    expect(partial.keys[0]?.gaps).toEqual([{ from: 11, to: 11 }]);
+    expect(complete.keys[0]?.gaps).toEqual([
+      { from: 1, to: 9 },
+      { from: 11, to: 11 },
+    ]);
+  });
+
+  it("finds numbers used by more than one clave", () => {
+    const report = auditSequences({ [KEY]: 2 }, [...docs(1, 2), { clave: clave(2, "87654321") }], {
+      complete: true,
+    });
+
+    expect(report.keys[0]?.duplicates).toEqual([
+      { sequence: 2, claves: [clave(2), clave(2, "87654321")].sort() },
+    ]);
+  });
+
+  it("flags a counter behind the issued documents", () => {
+    const report = auditSequences({ [KEY]: 2 }, docs(1, 2, 3), { complete: true });
+
+    expect(report.keys[0]?.counterBehind).toBe(true);
+    expect(report.ok).toBe(false);
+  });
+
+  it("includes keys found only in documents or only in counters", () => {
+    const report = auditSequences({ "04-001-00001": 0 }, [{ clave: clave(1, "12345678", "03") }]);
+
+    expect(report.keys.map((k) => k.key)).toEqual(["03-001-00001", "04-001-00001"]);
+    expect(report.keys[0]?.counter).toBeUndefined();
+    expect(report.keys[0]?.counterBehind).toBe(true);
+    expect(report.keys[1]?.gaps).toEqual([]);
+  });
+});
+
+describe("setSequence", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "hacienda-seq-audit-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("sets the counter and records the change", async () => {
+    await resetSequence("01", "001", "00001", 10, { configDir: dir });
+
+    const entry = await setSequence(KEY, 15, {
+      configDir: dir,
+      reason: "  Documents 11-15 issued from the backup POS  ",
+      actor: "ana",
+      now: () => new Date("2026-03-01T12:00:00Z"),
+    });
+
+    expect(entry).toEqual({
+      id: expect.any(String) as string,
+      status: "applied",
+      timestamp: "2026-03-01T12:00:00.000Z",
+      key: KEY,
+      previous: 10,
+      value: 15,
+      reason: "Documents 11-15 issued from the backup POS",
+      actor: "ana",
+    });
+    expect(await getCurrentSequence("01", "001", "00001", { configDir: dir })).toBe(15);
+    expect(await readSequenceAuditLog({ configDir: dir })).toEqual([entry]);
+  });
+
+  it("refuses to lower a counter unless allowed", async () => {
+    await resetSequence("01", "001", "00001", 10, { configDir: dir });
+
+    await expect(setSequence(KEY, 5, { configDir: dir, reason: "typo" })).rejects.toThrow(
+      /Refusing to lower/,
+    );
+    await setSequence(KEY, 5, { configDir: dir, reason: "test data", allowDecrease: true });
+
+    expect(await getCurrentSequence("01", "001", "00001", { configDir: dir })).toBe(5);
+  });
+
+  it("requires a reason and a valid key and value", async () => {
+    await expect(setSequence(KEY, 1, { configDir: dir, reason: " " })).rejects.toThrow(/reason/);
+    await expect(setSequence("01-1-1", 1, { configDir: dir, reason: "x" })).rejects.toThrow(
+      /Invalid sequence key/,
+    );
+    await expect(setSequence(KEY, -1, { configDir: dir, reason: "x" })).rejects.toThrow(
+      /Invalid sequence value/,
+    );
+    expect(await readSequenceAuditLog({ configDir: dir })).toEqual([]);
+  });
+
+  it("filters the log by key and skips malformed lines", async () => {
+    await setSequence(KEY, 1, { configDir: dir, reason: "first" });
+    await setSequence("04-001-00001", 1, { configDir: dir, reason: "other" });
+    await appendFile(getSequenceAuditLogPath(dir), '{"key":', "utf-8");
+
+    const entries = await readSequenceAuditLog({ configDir: dir, key: KEY });
+
+    expect(entries.map((e) => e.reason)).toEqual(["first"]);
+  });
+
+  it("records the intent before the counter changes", async () => {
+    await resetSequence("01", "001", "00001", 10, { configDir: dir });
+    const backend = new FileSequenceBackend({ configDir: dir });
+    const logged: Awaited<ReturnType<typeof readSequenceAuditLog>>[] = [];
+    const original = backend.compareAndReset.bind(backend);
+    backend.compareAndReset = async (...args) => {
+      logged.push(await readSequenceAuditLog({ configDir: dir }));
+      return original(...args);
+    };
+
+    await setSequence(KEY, 15, { configDir: dir, backend, reason: "restore" });
+
+    expect(logged[0]).toMatchObject([{ key: KEY, previous: 10, value: 15, status: "pending" }]);
+    expect(await readSequenceAuditLog({ configDir: dir })).toMatchObject([{ status: "applied" }]);
+  });
+
+  it("leaves the entry pending when the backend fails mid-change", async () => {
+    const backend = new FileSequenceBackend({ configDir: dir });
+    backend.compareAndReset = () => Promise.reject(new Error("disk full"));
+
+    await expect(setSequence(KEY, 3, { configDir: dir, backend, reason: "x" })).rejects.toThrow(
+      /disk full/,
+    );
+    expect(await readSequenceAuditLog({ configDir: dir })).toMatchObject([
+      { key: KEY, value: 3, status: "pending" },
+    ]);
+  });
+
+  it("refuses to drop outstanding reservations unless told to", async () => {
+    const backend = new FileSequenceBackend({ configDir: dir });
+    const reservation = await backend.reserve(KEY);
+
+    await expect(setSequence(KEY, 5, { configDir: dir, backend, reason: "x" })).rejects.toThrow(
+      /1 reservation\(s\) are outstanding/,
+    );
+    expect(await backend.current(KEY)).toBe(1);
+    await backend.commit(reservation);
+
+    await backend.reserve(KEY);
+    await setSequence(KEY, 5, { configDir: dir, backend, reason: "y", dropReservations: true });
+    expect(await backend.current(KEY)).toBe(5);
+    expect((await readSequenceAuditLog({ configDir: dir })).map((e) => e.status)).toEqual([
+      "aborted",
+      "applied",
+    ]);
+  });
+
+  it("does not overwrite a number taken after the counter was read", async () => {
+    await resetSequence("01", "001", "00001", 10, { configDir: dir });
+    const backend = new FileSequenceBackend({ configDir: dir });
+    const read = backend.current.bind(backend);
+    backend.current = async (key) => {
+      const value = await read(key);
+      // Another process issues a document between the read and the change
+      await backend.commit(await backend.reserve(key));
+      return value;
+    };
+
+    await expect(setSequence(KEY, 15, { configDir: dir, backend, reason: "x" })).rejects.toThrow(
+      /moved from 10 to 11/,
+    );
+    expect(await getCurrentSequence("01", "001", "00001", { configDir: dir })).toBe(11);
+    expect(await readSequenceAuditLog({ configDir: dir })).toMatchObject([{ status: "aborted" }]);
+  });
+
+  it("never hands out a number twice when a reservation races the change", async () => {
+    await resetSequence("01", "001", "00001", 10, { configDir: dir });
+    const backend = new FileSequenceBackend({ configDir: dir });
+
+    const [set, reservation] = await Promise.allSettled([
+      setSequence(KEY, 15, { configDir: dir, backend, reason: "restore" }),
+      backend.reserve(KEY),
+    ]);
+    if (reservation.status !== "fulfilled") throw reservation.reason;
+    await backend.commit(reservation.value);
+
+    if (set.status === "fulfilled") {
+      expect(reservation.value.sequence).toBe(16);
+    } else {
+      expect(reservation.value.sequence).toBe(11);
+      expect(await backend.current(KEY)).toBe(11);
+    }
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * Sequence audit — gap and duplicate detection plus audited repairs.
+ *
+ * Compares the counters in a {@link SequenceBackend} with the documents
+ * actually issued (from the local ledger or Hacienda's comprobantes list)
+ * and explains missing or repeated consecutivos. Counter changes made
+ * through {@link setSequence} are appended, with their reason, to
+ * ~/.hacienda-cr/sequence-audit.jsonl: the intent is written and fsynced
+ * before the counter changes, and its outcome is appended afterwards.
+ *
+ * @module config/sequence-audit
+ */
+
+import { randomUUID } from "node:crypto";
+import { open, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { z } from "zod";
+
+import { parseClave } from "../clave/parse-clave.js";
+import { ensureConfigDir, getConfigDir } from "./config-manager.js";
+import { FileSequenceBackend } from "./file-sequence-backend.js";
+import { buildSequenceKey } from "./sequence-store.js";
+import type { SequenceStoreOptions } from "./sequence-store.js";
+import { MAX_SEQUENCE } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** An issued document, identified by its clave. */
+export interface SequencedDocument {
+  /** 50-digit clave; its consecutivo gives the key and number. */
+  readonly clave: string;
+}
+
+/** A run of missing numbers (inclusive). */
+export interface SequenceGap {
+  readonly from: number;
+  readonly to: number;
+}
+
+/** A number used by more than one document. */
+export interface SequenceDuplicate {
+  readonly sequence: number;
+  readonly claves: readonly string[];
+}
+
+/** Audit result for one sequence key. */
+export interface SequenceKeyAudit {
+  /** Sequence key, e.g. "01-001-00001". */
+  readonly key: string;
+  /** Counter value in the backend (undefined if the key has no counter). */
+  readonly counter?: number;
+  /** Number of distinct claves found for the key. */
+  readonly documents: number;
+  /** Lowest issued number. */
+  readonly lowest?: number;
+  /** Highest issued number. */
+  readonly highest?: number;
+  /** Numbers counted but never issued, up to the counter. */
+  readonly gaps: readonly SequenceGap[];
+  /** Numbers issued more than once. */
+  readonly duplicates: readonly SequenceDuplicate[];
+  /**
+   * True when a document uses a number above the counter: the next
+   * document would reuse a consecutivo.
+   */
+  readonly counterBehind: boolean;
+}
+
+/** Result of {@link auditSequences}. */
+export interface SequenceAuditReport {
+  /** Per-key results, sorted by key. */
+  readonly keys: readonly SequenceKeyAudit[];
+  /** True when no key has gaps, duplicates or a counter behind. */
+  readonly ok: boolean;
+}
+
+/** Options for {@link auditSequences}. */
+export interface SequenceAuditOptions {
+  /**
+   * The documents cover each key's whole history, so gaps are counted
+   * from 1 (default: from the lowest number found, since a date-filtered
+   * list does not include older documents).
+   */
+  complete?: boolean;
+}
+
+/**
+ * Outcome of an audited change: `pending` until the counter change is
+ * confirmed. An entry left `pending` means the process stopped (or the
+ * backend failed) mid-change; check the counter.
+ */
+export type SequenceAuditStatus = "pending" | "applied" | "aborted";
+
+/** One audited counter change. */
+export interface SequenceAuditEntry {
+  /** Change id, linking the intent to its outcome in the log. */
+  readonly id: string;
+  /** Whether the change was applied. */
+  readonly status: SequenceAuditStatus;
+  /** When the change was requested (ISO 8601). */
+  readonly timestamp: string;
+  /** Sequence key. */
+  readonly key: string;
+  /** Counter value before the change. */
+  readonly previous: number;
+  /** Counter value after the change. */
+  readonly value: number;
+  /** Why the counter was changed. */
+  readonly reason: string;
+  /** Who made the change (user, service or ticket). */
+  readonly actor?: string;
+}
+
+/** Options for {@link setSequence}. */
+export interface SetSequenceOptions extends SequenceStoreOptions {
+  /** Why the counter is being changed (required, recorded in the log). */
+  reason: string;
+  /** Who is making the change. */
+  actor?: string;
+  /**
+   * Allow lowering the counter. Lowering hands out numbers that may
+   * already be used, so it is refused by default.
+   */
+  allowDecrease?: boolean;
+  /**
+   * Set the counter even while reservations are outstanding, dropping
+   * them. Their numbers may then be issued twice, so this is refused by
+   * default.
+   */
+  dropReservations?: boolean;
+  /** Clock used for the log timestamp (defaults to `() => new Date()`). */
+  now?: () => Date;
+}
+
+/** Audit log file name */
+const AUDIT_LOG_FILE_NAME = "sequence-audit.jsonl";
+
+const SequenceAuditEntrySchema = z.object({
+  id: z.string(),
+  status: z.literal("pending"),
+  timestamp: z.string(),
+  key: z.string(),
+  previous: z.number(),
+  value: z.number(),
+  reason: z.string(),
+  actor: z.string().optional(),
+});
+
+const SequenceAuditOutcomeSchema = z.object({
+  id: z.string(),
+  status: z.enum(["applied", "aborted"]),
+  timestamp: z.string(),
+});
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Compares sequence counters with the documents actually issued.
+ *
+ * Keys are taken from both the counters and the documents' claves.
+ * Gaps run from the lowest issued number (or 1 with `complete`) up to
+ * the counter, so numbers consumed but never sent show up as well.
+ *
+ * @param counters - Counter values by key (see {@link listSequences}).
+ * @param documents - Issued documents.
+ * @param options - Audit options.
+ * @returns The per-key report.
+ * @throws {Error} If a clave is malformed.
+ *
+ * @example
+ * ```ts
+ * const records = await new FileDocumentStore().list();
+ * const report = auditSequences(await listSequences(), records, { complete: true });
+ * for (const key of report.keys) console.log(key.key, key.gaps, key.duplicates);
+ * ```
+ */
+export function auditSequences(
+  counters: Readonly<Record<string, number>>,
+  documents: readonly SequencedDocument[],
+  options: SequenceAuditOptions = {},
+): SequenceAuditReport {
+  // key -> sequence -> claves
+  const issued = new Map<string, Map<number, Set<string>>>();
+  for (const document of documents) {
+    const parsed = parseClave(document.clave);
+    const key = buildSequenceKey(parsed.documentType, parsed.branch, parsed.pos);
+    const numbers = issued.get(key) ?? new Map<number, Set<string>>();
+    const claves = numbers.get(parsed.sequence) ?? new Set<string>();
+    claves.add(document.clave);
+    numbers.set(parsed.sequence, claves);
+    issued.set(key, numbers);
+  }
+
+  const keys = [...new Set([...Object.keys(counters), ...issued.keys()])].sort();
+  const audits = keys.map((key) =>
+    auditKey(key, counters[key], issued.get(key) ?? new Map(), options),
+  );
+
+  return {
+    keys: audits,
+    ok: audits.every(
+      (audit) => audit.gaps.length === 0 && audit.duplicates.length === 0 && !audit.counterBehind,
+    ),
+  };
+}
+
+/**
+ * Sets a sequence counter and records the change in the audit log.
+ *
+ * The intent is appended (and fsynced) before the counter changes, and
+ * the counter is only set if it still holds the value that was checked
+ * and no reservation is outstanding, all in one backend transaction.
+ * The outcome is then appended; a change the backend refuses is logged
+ * as `aborted`.
+ *
+ * @param key - Sequence key (see `buildSequenceKey`).
+ * @param value - New counter value: the next document gets `value + 1`.
+ * @param options - Reason, actor and store overrides.
+ * @returns The recorded audit entry.
+ * @throws {Error} If the key, value or reason is invalid, the value is
+ *   lower than the current counter without `allowDecrease`, reservations
+ *   are outstanding without `dropReservations`, or the counter moved
+ *   while it was being set.
+ *
+ * @example
+ * ```ts
+ * await setSequence("01-001-00001", 1520, {
+ *   reason: "Counter restored after disk loss; last issued was 1520",
+ *   actor: "ana@example.com",
+ * });
+ * ```
+ */
+export async function setSequence(
+  key: string,
+  value: number,
+  options: SetSequenceOptions,
+): Promise<SequenceAuditEntry> {
+  if (!/^\d{2}-\d{3}-\d{5}$/.test(key)) {
+    throw new Error(`Invalid sequence key "${key}". Expected "{docType}-{branch}-{pos}".`);
+  }
+  if (!Number.isInteger(value) || value < 0 || value > MAX_SEQUENCE) {
+    throw new Error(
+      `Invalid sequence value ${String(value)}. Must be 0 to ${String(MAX_SEQUENCE)}.`,
+    );
+  }
+  const reason = options.reason.trim();
+  if (!reason) {
+    throw new Error("A reason is required to change a sequence counter.");
+  }
+
+  const now = options.now ?? (() => new Date());
+  const backend = options.backend ?? new FileSequenceBackend({ configDir: options.configDir });
+  const previous = await backend.current(key);
+  if (value < previous && !options.allowDecrease) {
+    throw new Error(
+      `Refusing to lower "${key}" from ${String(previous)} to ${String(value)}: ` +
+        `numbers up to ${String(previous)} may already be used.`,
+    );
+  }
+
+  const entry: SequenceAuditEntry = {
+    id: randomUUID(),
+    status: "pending",
+    timestamp: now().toISOString(),
+    key,
+    previous,
+    value,
+    reason,
+    ...(options.actor ? { actor: options.actor } : {}),
+  };
+  await appendAuditRecord(entry, options.configDir);
+
+  // If this throws, the entry stays pending: the outcome is unknown
+  const result = await backend.compareAndReset(key, previous, value, {
+    ...(options.dropReservations ? { dropReservations: true } : {}),
+  });
+  const status = result.applied ? "applied" : "aborted";
+  await appendAuditRecord(
+    { id: entry.id, status, timestamp: now().toISOString() },
+    options.configDir,
+  );
+
+  if (result.last !== previous) {
+    throw new Error(
+      `"${key}" moved from ${String(previous)} to ${String(result.last)} while it was being set; ` +
+        `nothing was changed. Check the counter and retry.`,
+    );
+  }
+  if (!result.applied) {
+    throw new Error(
+      `Refusing to set "${key}": ${String(result.reserved)} reservation(s) are outstanding ` +
+        `and their numbers could be issued twice. Retry once they settle, or drop them explicitly.`,
+    );
+  }
+  return { ...entry, status };
+}
+
+/**
+ * Reads the sequence audit log, oldest first.
+ *
+ * @param options - Optional config directory and key filter.
+ * @returns The recorded entries with their latest status (malformed lines
+ *   are skipped).
+ */
+export async function readSequenceAuditLog(
+  options: { configDir?: string; key?: string } = {},
+): Promise<SequenceAuditEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(getSequenceAuditLogPath(options.configDir), "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  // Intents in log order; outcomes update the intent with the same id
+  const entries = new Map<string, SequenceAuditEntry>();
+  for (const line of content.split("\n")) {
+    const record = parseRecord(line);
+    if (!record) continue;
+
+    if (record.status === "pending") {
+      if (options.key === undefined || record.key === options.key) {
+        entries.set(record.id, record);
+      }
+    } else {
+      const entry = entries.get(record.id);
+      if (entry) entries.set(record.id, { ...entry, status: record.status });
+    }
+  }
+  return [...entries.values()];
+}
+
+/**
+ * Returns the path to the sequence audit log.
+ *
+ * @param configDir - Optional override for the config directory
+ * @returns Absolute path to sequence-audit.jsonl
+ */
+export function getSequenceAuditLogPath(configDir?: string): string {
+  return join(getConfigDir(configDir), AUDIT_LOG_FILE_NAME);
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function auditKey(
+  key: string,
+  counter: number | undefined,
+  numbers: Map<number, Set<string>>,
+  options: SequenceAuditOptions,
+): SequenceKeyAudit {
+  const sorted = [...numbers.keys()].sort((a, b) => a - b);
+  const lowest = sorted[0];
+  const highest = sorted[sorted.length - 1];
+
+  const duplicates: SequenceDuplicate[] = [];
+  for (const sequence of sorted) {
+    const claves = numbers.get(sequence);
+    if (claves && claves.size > 1) {
+      duplicates.push({ sequence, claves: [...claves].sort() });
+    }
+  }
+
+  // Missing numbers between consecutive issued ones, then up to the counter
+  const gaps: SequenceGap[] = [];
+  let expected = options.complete ? 1 : (lowest ?? 1);
+  for (const sequence of sorted) {
+    if (sequence > expected) {
+      gaps.push({ from: expected, to: sequence - 1 });
+    }
+    expected = Math.max(expected, sequence + 1);
+  }
+  const end = Math.max(counter ?? 0, highest ?? 0);
+  if (end >= expected && (options.complete || lowest !== undefined)) {
+    gaps.push({ from: expected, to: end });
+  }
+
+  return {
+    key,
+    ...(counter !== undefined ? { counter } : {}),
+    documents: [...numbers.values()].reduce((total, claves) => total + claves.size, 0),
+    ...(lowest !== undefined ? { lowest } : {}),
+    ...(highest !== undefined ? { highest } : {}),
+    gaps,
+    duplicates,
+    counterBehind: highest !== undefined && highest > (counter ?? 0),
+  };
+}
+
+/** Appends one log line and flushes it to disk before resolving. */
+async function appendAuditRecord(
+  record: SequenceAuditEntry | z.infer<typeof SequenceAuditOutcomeSchema>,
+  configDir?: string,
+): Promise<void> {
+  await ensureConfigDir(configDir);
+  const file = await open(getSequenceAuditLogPath(configDir), "a", 0o600);
+  try {
+    await file.appendFile(`${JSON.stringify(record)}\n`, "utf-8");
+    await file.sync();
+  } finally {
+    await file.close();
+  }
+}
+
+function parseRecord(
+  line: string,
+): SequenceAuditEntry | z.infer<typeof SequenceAuditOutcomeSchema> | undefined {
+  if (!line.trim()) return undefined;
+
+  try {
+    const json: unknown = JSON.parse(line);
+    const entry = SequenceAuditEntrySchema.safeParse(json);
+    if (entry.success) return entry.data;
+    const outcome = SequenceAuditOutcomeSchema.safeParse(json);
+    return outcome.success ? outcome.data : undefined;
+  } catch {
+    // Partially written line — ignore
+    return undefined;
+  }
+}
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  TransactionalSequenceBackend,
+  SequenceOverflowError,
+  SequenceReservationError,
+  emptySequenceState,
+  withSequence,
+} from "./sequence-backend.js";
+import type { SequenceKeyState, SequenceStateAdapter } from "./sequence-backend.js";
+import { MAX_SEQUENCE } from "./types.js";
+
+/** In-memory adapter: the reference for what a shared adapter must do. */
+function memoryAdapter(initial: Record<string, SequenceKeyState> = {}) {
+  const states = new Map(Object.entries(initial));
+  const adapter: SequenceStateAdapter = {
+    transaction(key, fn) {
+      const { state, result } = fn(states.get(key) ?? emptySequenceState());
+      states.set(key, state);
+      return Promise.resolve(result);
+    },
+    list() {
+      return Promise.resolve(Object.fromEntries(states));
+    },
+  };
+  return { adapter, states };
+}
+
+function createBackend(initial?: Record<string, SequenceKeyState>) {
+  let now = new Date("2026-01-01T00:00:00Z");
+  const { adapter, states } = memoryAdapter(initial);
+  const backend = new TransactionalSequenceBackend(adapter, {
+    reservationTtlMs: 60_000,
+    now: () => now,
+  });
+  return {
+    backend,
+    states,
+    advance(ms: number) {
+      now = new Date(now.getTime() + ms);
+    },
+  };
+}
+
+const KEY = "01-001-00001";
+
+describe("TransactionalSequenceBackend", () => {
+  it("hands out consecutive numbers", async () => {
+    const { backend } = createBackend();
+
+    const first = await backend.reserve(KEY);
+    const second = await backend.reserve(KEY);
+    await backend.commit(first);
+    await backend.commit(second);
+
+    expect([first.sequence, second.sequence]).toEqual([1, 2]);
+    expect(await backend.current(KEY)).toBe(2);
+  });
+
+  it("reissues a released number before taking a new one", async () => {
+    const { backend } = createBackend();
+
+    const first = await backend.reserve(KEY);
+    const second = await backend.reserve(KEY);
+    await backend.release(first);
+    await backend.commit(second);
+
+    const third = await backend.reserve(KEY);
+    expect(third.sequence).toBe(1);
+    expect((await backend.reserve(KEY)).sequence).toBe(3);
+  });
+
+  it("treats a second release as a no-op", async () => {
+    const { backend, states } = createBackend();
+
+    const reservation = await backend.reserve(KEY);
+    await backend.release(reservation);
+    await backend.release(reservation);
+
+    expect(states.get(KEY)?.released).toEqual([1]);
+  });
+
+  it("reissues an expired reservation and rejects its late commit", async () => {
+    const { backend, advance } = createBackend();
+
+    const stale = await backend.reserve(KEY);
+    advance(60_001);
+    const fresh = await backend.reserve(KEY);
+
+    expect(fresh.sequence).toBe(stale.sequence);
+    await expect(backend.commit(stale)).rejects.toThrow(SequenceReservationError);
+    await backend.commit(fresh);
+  });
+
+  it("allows a late commit while the number was not reissued", async () => {
+    const { backend, advance } = createBackend();
+
+    const reservation = await backend.reserve(KEY);
+    advance(60_001);
+
+    await expect(backend.commit(reservation)).resolves.toBeUndefined();
+  });
+
+  it("allows a late commit after another expired number was reissued", async () => {
+    const { backend, advance } = createBackend();
+
+    const first = await backend.reserve(KEY);
+    const second = await backend.reserve(KEY);
+    advance(60_001);
+    const reissued = await backend.reserve(KEY);
+
+    expect(reissued.sequence).toBe(first.sequence);
+    await expect(backend.commit(second)).resolves.toBeUndefined();
+    await expect(backend.commit(first)).rejects.toThrow(SequenceReservationError);
+    expect((await backend.reserve(KEY)).sequence).toBe(3);
+  });
+
+  it("throws SequenceOverflowError when the key is exhausted", async () => {
+    const { backend } = createBackend({
+      [KEY]: { last: MAX_SEQUENCE, released: [], reserved: {} },
+    });
+
+    await expect(backend.reserve(KEY)).rejects.toThrow(SequenceOverflowError);
+  });
+
+  it("still reissues released numbers at the maximum", async () => {
+    const { backend } = createBackend({
+      [KEY]: { last: MAX_SEQUENCE, released: [7], reserved: {} },
+    });
+
+    expect((await backend.reserve(KEY)).sequence).toBe(7);
+  });
+
+  it("reset drops pending and released numbers", async () => {
+    const { backend } = createBackend();
+
+    const reservation = await backend.reserve(KEY);
+    await backend.release(reservation);
+    await backend.reset(KEY, 100);
+
+    expect((await backend.reserve(KEY)).sequence).toBe(101);
+  });
+
+  it("compareAndReset only sets a counter that did not move", async () => {
+    const { backend } = createBackend({ [KEY]: { last: 10, released: [4], reserved: {} } });
+
+    expect(await backend.compareAndReset(KEY, 9, 20)).toEqual({
+      applied: false,
+      last: 10,
+      reserved: 0,
+    });
+    expect(await backend.current(KEY)).toBe(10);
+
+    expect(await backend.compareAndReset(KEY, 10, 20)).toEqual({
+      applied: true,
+      last: 10,
+      reserved: 0,
+    });
+    expect((await backend.reserve(KEY)).sequence).toBe(21);
+  });
+
+  it("compareAndReset keeps outstanding reservations unless told to drop them", async () => {
+    const { backend, advance } = createBackend();
+    const reservation = await backend.reserve(KEY);
+    advance(120_000);
+
+    // Expired but not reissued: it can still be committed, so it counts
+    expect(await backend.compareAndReset(KEY, 1, 5)).toEqual({
+      applied: false,
+      last: 1,
+      reserved: 1,
+    });
+    await backend.commit(reservation);
+
+    await backend.reserve(KEY);
+    const forced = await backend.compareAndReset(KEY, 2, 5, { dropReservations: true });
+    expect(forced).toEqual({ applied: true, last: 2, reserved: 1 });
+    expect((await backend.reserve(KEY)).sequence).toBe(6);
+  });
+
+  it("keeps keys independent", async () => {
+    const { backend } = createBackend();
+
+    await backend.reserve("01-001-00001");
+    const other = await backend.reserve("04-001-00001");
+
+    expect(other.sequence).toBe(1);
+    expect(await backend.list()).toEqual({ "01-001-00001": 1, "04-001-00001": 1 });
+  });
+});
+
+describe("withSequence", () => {
+  it("commits the number when the work succeeds", async () => {
+    const { backend } = createBackend();
+
+    const result = await withSequence(backend, KEY, (sequence) =>
+      Promise.resolve(`doc-${String(sequence)}`),
+    );
+
+    expect(result).toBe("doc-1");
+    expect((await backend.reserve(KEY)).sequence).toBe(2);
+  });
+
+  it("releases the number when the work fails", async () => {
+    const { backend } = createBackend();
+    const commit = vi.spyOn(backend, "commit");
+
+    await expect(
+      withSequence(backend, KEY, () => Promise.reject(new Error("signing failed"))),
+    ).rejects.toThrow("signing failed");
+
+    expect(commit).not.toHaveBeenCalled();
+    expect((await backend.reserve(KEY)).sequence).toBe(1);
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * Sequence backend contract — pluggable storage for consecutivo numbers.
+ *
+ * A backend hands out gap-free, never-reused numbers per sequence key
+ * (see `buildSequenceKey`). Numbers are taken in two steps: `reserve`
+ * holds the next number while the document is built and signed, then
+ * `commit` makes it permanent or `release` returns it so the next
+ * reservation reuses it instead of leaving a gap.
+ *
+ * Backends that can run a read-modify-write atomically (a row lock in
+ * Postgres, WATCH/MULTI in Redis, a file lock) only need to implement
+ * {@link SequenceStateAdapter}; {@link TransactionalSequenceBackend}
+ * supplies the reservation rules on top of it.
+ *
+ * @module config/sequence-backend
+ */
+
+import { randomUUID } from "node:crypto";
+
+import { MAX_SEQUENCE } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A number held for a document until it is committed or released. */
+export interface SequenceReservation {
+  /** Sequence key, e.g. "01-001-00001". */
+  readonly key: string;
+  /** The reserved sequence number. */
+  readonly sequence: number;
+  /** Opaque reservation id used to commit or release. */
+  readonly id: string;
+}
+
+/**
+ * Storage for sequence numbers.
+ *
+ * Implementations must guarantee, per key and across every process
+ * sharing the backend:
+ * - a committed number is never handed out again;
+ * - a released (or expired) reservation is reissued before any new number,
+ *   so committed numbers have no gaps once all reservations settle.
+ */
+export interface SequenceBackend {
+  /**
+   * Reserves the next number for a key.
+   *
+   * @throws {SequenceOverflowError} If the key has no numbers left.
+   */
+  reserve(key: string): Promise<SequenceReservation>;
+
+  /**
+   * Makes a reserved number permanent.
+   *
+   * @throws {SequenceReservationError} If the reservation expired and its
+   *   number was reissued, or it was already released.
+   */
+  commit(reservation: SequenceReservation): Promise<void>;
+
+  /** Returns a reserved number to the pool. Releasing twice is a no-op. */
+  release(reservation: SequenceReservation): Promise<void>;
+
+  /** Returns the highest number handed out for a key (0 if unused). */
+  current(key: string): Promise<number>;
+
+  /** Sets a key's counter and drops its pending and released numbers. */
+  reset(key: string, value: number): Promise<void>;
+
+  /**
+   * Sets a key's counter in one transaction, only if it still equals
+   * `expected` and, unless `dropReservations` is set, no reservation is
+   * outstanding. Released numbers are dropped, as with {@link reset}.
+   *
+   * @returns Whether the counter was set, and the state it was checked against.
+   */
+  compareAndReset(
+    key: string,
+    expected: number,
+    value: number,
+    options?: { dropReservations?: boolean },
+  ): Promise<SequenceResetResult>;
+
+  /** Returns the highest number handed out for every known key. */
+  list(): Promise<Record<string, number>>;
+}
+
+/** Result of {@link SequenceBackend.compareAndReset}. */
+export interface SequenceResetResult {
+  /** True when the counter was set. */
+  readonly applied: boolean;
+  /** Counter value found in the transaction (before any change). */
+  readonly last: number;
+  /** Outstanding reservations found in the transaction (expired ones included). */
+  readonly reserved: number;
+}
+
+/** Persisted state of one sequence key. */
+export interface SequenceKeyState {
+  /** Highest number handed out (0 when unused). */
+  last: number;
+  /** Numbers released before being committed, reissued lowest first. */
+  released: number[];
+  /** Outstanding reservations by id. */
+  reserved: Record<string, { sequence: number; expiresAt: number }>;
+}
+
+/** Result of a state transition: the new state and the caller's value. */
+export interface SequenceStateUpdate<T> {
+  /** State to persist. */
+  state: SequenceKeyState;
+  /** Value returned to the caller. */
+  result: T;
+}
+
+/**
+ * Minimal contract for a shared sequence store.
+ *
+ * `transaction` must load the key's state (or an empty one), apply `fn`
+ * and persist the returned state without any other caller touching the
+ * same key in between. If `fn` throws, nothing is persisted.
+ */
+export interface SequenceStateAdapter {
+  transaction<T>(key: string, fn: (state: SequenceKeyState) => SequenceStateUpdate<T>): Promise<T>;
+
+  /** Returns the state of every stored key. */
+  list(): Promise<Record<string, SequenceKeyState>>;
+}
+
+/** Options for {@link TransactionalSequenceBackend}. */
+export interface SequenceBackendOptions {
+  /**
+   * How long a reservation is held before its number may be reissued
+   * (default: 10 minutes). Committing after that is still allowed while
+   * nobody else took the number.
+   */
+  reservationTtlMs?: number;
+  /** Clock used for reservation expiry (defaults to `() => new Date()`). */
+  now?: () => Date;
+}
+
+/** Default backend settings. */
+const DEFAULTS = {
+  reservationTtlMs: 10 * 60_000,
+} as const;
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/**
+ * Error thrown when a sequence number exceeds the maximum allowed value.
+ */
+export class SequenceOverflowError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly currentValue: number,
+  ) {
+    super(
+      `Sequence overflow for "${key}": current value ${currentValue} has reached ` +
+        `the maximum of ${MAX_SEQUENCE}. Cannot increment further.`,
+    );
+    this.name = "SequenceOverflowError";
+  }
+}
+
+/**
+ * Error thrown when committing a reservation the backend no longer holds.
+ */
+export class SequenceReservationError extends Error {
+  constructor(public readonly reservation: SequenceReservation) {
+    super(
+      `Reservation of ${reservation.sequence} for "${reservation.key}" is no longer held; ` +
+        `it expired or was released. Reserve a new number.`,
+    );
+    this.name = "SequenceReservationError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// TransactionalSequenceBackend
+// ---------------------------------------------------------------------------
+
+/**
+ * {@link SequenceBackend} built on a {@link SequenceStateAdapter}.
+ *
+ * @example
+ * ```ts
+ * const backend = new TransactionalSequenceBackend(postgresAdapter);
+ * const reservation = await backend.reserve(buildSequenceKey("01"));
+ * try {
+ *   // build, sign and record the document with reservation.sequence
+ *   await backend.commit(reservation);
+ * } catch (error) {
+ *   await backend.release(reservation);
+ *   throw error;
+ * }
+ * ```
+ */
+export class TransactionalSequenceBackend implements SequenceBackend {
+  private readonly adapter: SequenceStateAdapter;
+  private readonly reservationTtlMs: number;
+  private readonly now: () => Date;
+
+  constructor(adapter: SequenceStateAdapter, options: SequenceBackendOptions = {}) {
+    this.adapter = adapter;
+    this.reservationTtlMs = options.reservationTtlMs ?? DEFAULTS.reservationTtlMs;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async reserve(key: string): Promise<SequenceReservation> {
+    const now = this.now().getTime();
+
+    return this.adapter.transaction(key, (current) => {
+      const reused = takeReusable(current, now);
+
+      if (reused === undefined && current.last >= MAX_SEQUENCE) {
+        throw new SequenceOverflowError(key, current.last);
+      }
+
+      const state = reused?.state ?? current;
+      const sequence = reused?.sequence ?? current.last + 1;
+      const reservation: SequenceReservation = { key, sequence, id: randomUUID() };
+      return {
+        state: {
+          last: Math.max(state.last, sequence),
+          released: state.released,
+          reserved: {
+            ...state.reserved,
+            [reservation.id]: { sequence, expiresAt: now + this.reservationTtlMs },
+          },
+        },
+        result: reservation,
+      };
+    });
+  }
+
+  async commit(reservation: SequenceReservation): Promise<void> {
+    return this.adapter.transaction(reservation.key, (state) => {
+      const held = state.reserved[reservation.id];
+      if (held?.sequence !== reservation.sequence) {
+        throw new SequenceReservationError(reservation);
+      }
+      return { state: withoutReservation(state, reservation.id), result: undefined };
+    });
+  }
+
+  async release(reservation: SequenceReservation): Promise<void> {
+    return this.adapter.transaction(reservation.key, (state) => {
+      const held = state.reserved[reservation.id];
+      if (held?.sequence !== reservation.sequence) {
+        return { state, result: undefined };
+      }
+      const next = withoutReservation(state, reservation.id);
+      return {
+        state: { ...next, released: [...next.released, reservation.sequence] },
+        result: undefined,
+      };
+    });
+  }
+
+  async current(key: string): Promise<number> {
+    return this.adapter.transaction(key, (state) => ({ state, result: state.last }));
+  }
+
+  async reset(key: string, value: number): Promise<void> {
+    return this.adapter.transaction(key, () => ({
+      state: { last: value, released: [], reserved: {} },
+      result: undefined,
+    }));
+  }
+
+  async compareAndReset(
+    key: string,
+    expected: number,
+    value: number,
+    options: { dropReservations?: boolean } = {},
+  ): Promise<SequenceResetResult> {
+    return this.adapter.transaction(key, (state) => {
+      // Expired reservations count: they may still be committed late
+      const reserved = Object.keys(state.reserved).length;
+      const applied = state.last === expected && (reserved === 0 || !!options.dropReservations);
+      return {
+        state: applied ? { last: value, released: [], reserved: {} } : state,
+        result: { applied, last: state.last, reserved },
+      };
+    });
+  }
+
+  async list(): Promise<Record<string, number>> {
+    const states = await this.adapter.list();
+    return Object.fromEntries(Object.entries(states).map(([key, state]) => [key, state.last]));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public helpers
+// ---------------------------------------------------------------------------
+
+/** Returns the state of a key that has never been used. */
+export function emptySequenceState(): SequenceKeyState {
+  return { last: 0, released: [], reserved: {} };
+}
+
+/**
+ * Reserves a number, runs `fn` with it, and commits on success or
+ * releases on failure.
+ *
+ * @param backend - The sequence backend.
+ * @param key - Sequence key.
+ * @param fn - Work that consumes the number (build, sign, record).
+ * @returns Whatever `fn` returns.
+ */
+export async function withSequence<T>(
+  backend: SequenceBackend,
+  key: string,
+  fn: (sequence: number) => Promise<T>,
+): Promise<T> {
+  const reservation = await backend.reserve(key);
+
+  let result: T;
+  try {
+    result = await fn(reservation.sequence);
+  } catch (error) {
+    await backend.release(reservation);
+    throw error;
+  }
+
+  await backend.commit(reservation);
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Takes the lowest number that may be reissued: a released one or that of
+ * an expired reservation. Expired reservations stay held until their number
+ * is actually reissued, so a late commit succeeds while nobody took it.
+ */
+function takeReusable(
+  state: SequenceKeyState,
+  now: number,
+): { sequence: number; state: SequenceKeyState } | undefined {
+  let lowest: { sequence: number; expiredId?: string } | undefined;
+
+  for (const sequence of state.released) {
+    if (!lowest || sequence < lowest.sequence) {
+      lowest = { sequence };
+    }
+  }
+  for (const [id, held] of Object.entries(state.reserved)) {
+    if (held.expiresAt <= now && (!lowest || held.sequence < lowest.sequence)) {
+      lowest = { sequence: held.sequence, expiredId: id };
+    }
+  }
+
+  if (!lowest) return undefined;
+  if (lowest.expiredId !== undefined) {
+    return { sequence: lowest.sequence, state: withoutReservation(state, lowest.expiredId) };
+  }
+
+  const released = [...state.released];
+  released.splice(released.indexOf(lowest.sequence), 1);
+  return { sequence: lowest.sequence, state: { ...state, released } };
+}
+
+function withoutReservation(state: SequenceKeyState, id: string): SequenceKeyState {
+  const { [id]: _removed, ...reserved } = state.reserved;
+  return { ...state, reserved };
+}
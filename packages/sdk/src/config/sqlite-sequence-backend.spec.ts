@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SqliteSequenceBackend } from "./sqlite-sequence-backend.js";
+
+/** node:sqlite ships with Node.js 22.5+; older runtimes skip these tests. */
+const hasSqlite = await import("node:sqlite").then(
+  () => true,
+  () => false,
+);
+
+const KEY = "01-001-00001";
+
+describe.skipIf(!hasSqlite)("SqliteSequenceBackend", () => {
+  let dir: string;
+  let backends: SqliteSequenceBackend[];
+
+  function open(): SqliteSequenceBackend {
+    const backend = new SqliteSequenceBackend({ path: join(dir, "sequences.db") });
+    backends.push(backend);
+    return backend;
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "hacienda-seq-sqlite-test-"));
+    backends = [];
+  });
+
+  afterEach(async () => {
+    for (const backend of backends) {
+      backend.close();
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("persists committed numbers across connections", async () => {
+    const first = open();
+    await first.commit(await first.reserve(KEY));
+    await first.commit(await first.reserve(KEY));
+
+    expect(await open().current(KEY)).toBe(2);
+    expect(await open().list()).toEqual({ [KEY]: 2 });
+  });
+
+  it("reissues a number released by another connection", async () => {
+    const first = open();
+    await first.release(await first.reserve(KEY));
+
+    expect((await open().reserve(KEY)).sequence).toBe(1);
+  });
+
+  it("rolls back when a transaction fails", async () => {
+    const backend = open();
+    await backend.reset(KEY, 5);
+
+    await expect(backend.commit({ key: KEY, sequence: 6, id: "unknown" })).rejects.toThrow(
+      /no longer held/,
+    );
+    expect((await backend.reserve(KEY)).sequence).toBe(6);
+  });
+});
+
+describe.skipIf(hasSqlite)("SqliteSequenceBackend without node:sqlite", () => {
+  it("explains the Node.js requirement", async () => {
+    const backend = new SqliteSequenceBackend({ path: join(tmpdir(), "unused.db") });
+
+    await expect(backend.current(KEY)).rejects.toThrow(/Node\.js 22\.5/);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Embedded SQLite implementation of the sequence backend.
+ *
+ * Uses Node's built-in `node:sqlite` module (Node.js 22.5+, no native
+ * dependency). Each key's state is one row, updated inside a
+ * `BEGIN IMMEDIATE` transaction, so several processes or containers
+ * sharing the database file never hand out the same number.
+ *
+ * @module config/sqlite-sequence-backend
+ */
+
+import type { DatabaseSync } from "node:sqlite";
+import { mkdir } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+import { getConfigDir } from "./config-manager.js";
+import { TransactionalSequenceBackend, emptySequenceState } from "./sequence-backend.js";
+import type {
+  SequenceBackendOptions,
+  SequenceKeyState,
+  SequenceStateAdapter,
+  SequenceStateUpdate,
+} from "./sequence-backend.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link SqliteSequenceBackend}. */
+export interface SqliteSequenceBackendOptions extends SequenceBackendOptions {
+  /** Database file path (defaults to ~/.hacienda-cr/sequences.db). */
+  path?: string;
+  /** Override the config directory used for the default path. */
+  configDir?: string;
+  /** How long to wait for another process's transaction (default: 5000 ms). */
+  busyTimeoutMs?: number;
+}
+
+/** Default database file name inside the config directory. */
+const DATABASE_FILE_NAME = "sequences.db";
+
+/** Default SQLite settings. */
+const DEFAULTS = {
+  busyTimeoutMs: 5000,
+} as const;
+
+// ---------------------------------------------------------------------------
+// SqliteSequenceBackend
+// ---------------------------------------------------------------------------
+
+/**
+ * Sequence backend stored in an embedded SQLite database.
+ *
+ * The database is opened on first use; call {@link close} when done.
+ *
+ * @example
+ * ```ts
+ * const sequenceBackend = new SqliteSequenceBackend({ path: "/data/sequences.db" });
+ * const client = new HaciendaClient({ ...options, sequenceBackend });
+ * ```
+ */
+export class SqliteSequenceBackend extends TransactionalSequenceBackend {
+  private readonly sqlite: SqliteSequenceAdapter;
+
+  constructor(options: SqliteSequenceBackendOptions = {}) {
+    const adapter = new SqliteSequenceAdapter(
+      options.path ?? join(getConfigDir(options.configDir), DATABASE_FILE_NAME),
+      options.busyTimeoutMs ?? DEFAULTS.busyTimeoutMs,
+    );
+    super(adapter, options);
+    this.sqlite = adapter;
+  }
+
+  /** Absolute path of the database file. */
+  get path(): string {
+    return this.sqlite.path;
+  }
+
+  /** Closes the database connection. The next call reopens it. */
+  close(): void {
+    this.sqlite.close();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Stores each key's state as a JSON row. */
+class SqliteSequenceAdapter implements SequenceStateAdapter {
+  private database: Promise<DatabaseSync> | undefined;
+
+  constructor(
+    readonly path: string,
+    private readonly busyTimeoutMs: number,
+  ) {}
+
+  async transaction<T>(
+    key: string,
+    fn: (state: SequenceKeyState) => SequenceStateUpdate<T>,
+  ): Promise<T> {
+    const database = await this.open();
+
+    // Synchronous from BEGIN to COMMIT: no other call in this process can interleave
+    database.exec("BEGIN IMMEDIATE");
+    try {
+      const row = database.prepare("SELECT state FROM sequence_state WHERE key = ?").get(key);
+      const state =
+        row && typeof row["state"] === "string"
+          ? (JSON.parse(row["state"]) as SequenceKeyState)
+          : emptySequenceState();
+
+      const { state: next, result } = fn(state);
+      if (next !== state) {
+        database
+          .prepare(
+            "INSERT INTO sequence_state (key, state) VALUES (?, ?) " +
+              "ON CONFLICT(key) DO UPDATE SET state = excluded.state",
+          )
+          .run(key, JSON.stringify(next));
+      }
+
+      database.exec("COMMIT");
+      return result;
+    } catch (error) {
+      database.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  async list(): Promise<Record<string, SequenceKeyState>> {
+    const database = await this.open();
+    const rows = database.prepare("SELECT key, state FROM sequence_state ORDER BY key").all();
+
+    const states: Record<string, SequenceKeyState> = {};
+    for (const row of rows) {
+      if (typeof row["key"] === "string" && typeof row["state"] === "string") {
+        states[row["key"]] = JSON.parse(row["state"]) as SequenceKeyState;
+      }
+    }
+    return states;
+  }
+
+  close(): void {
+    const database = this.database;
+    this.database = undefined;
+    void database?.then((db) => db.close()).catch(() => undefined);
+  }
+
+  private open(): Promise<DatabaseSync> {
+    this.database ??= this.connect().catch((error: unknown) => {
+      this.database = undefined;
+      throw error;
+    });
+    return this.database;
+  }
+
+  private async connect(): Promise<DatabaseSync> {
+    let Database: typeof DatabaseSync;
+    try {
+      ({ DatabaseSync: Database } = await import("node:sqlite"));
+    } catch (error) {
+      throw new Error(
+        "SqliteSequenceBackend requires the built-in node:sqlite module (Node.js 22.5 or later).",
+        { cause: error },
+      );
+    }
+
+    await mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+    const database = new Database(this.path);
+    database.exec(`PRAGMA busy_timeout = ${String(this.busyTimeoutMs)}`);
+    database.exec(
+      "CREATE TABLE IF NOT EXISTS sequence_state (key TEXT PRIMARY KEY, state TEXT NOT NULL)",
+    );
+    return database;
+  }
+}
@@ -53,9 +53,9 @@ export interface ResolvedConfig {
   profile: Profile;
   /** Profile name that was loaded */
   profileName: string;
-  /** IDP password from HACIENDA_PASSWORD env var (may be undefined) */
+  /** IDP password from HACIENDA_PASSWORD env var or the vault (may be undefined) */
   password: string | undefined;
-  /** .p12 certificate PIN from HACIENDA_P12_PIN env var (may be undefined) */
+  /** .p12 certificate PIN from HACIENDA_P12_PIN env var or the vault (may be undefined) */
   p12Pin: string | undefined;
 }
 
@@ -0,0 +1,61 @@
+/**
+ * Tests for currency resolution and conversion to colones.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { ResumenFactura } from "@dojocoding/hacienda-shared";
+
+import { resolveCodigoTipoMoneda, toColones } from "./conversion.js";
+import { StaticExchangeRateProvider } from "./exchange-rate.js";
+
+const DATE = new Date("2025-01-15T10:00:00-06:00");
+
+const USD_RESUMEN: ResumenFactura = {
+  codigoTipoMoneda: { codigoMoneda: "USD", tipoCambio: 512.34 },
+  totalServGravados: 100,
+  totalServExentos: 0,
+  totalMercanciasGravadas: 0,
+  totalMercanciasExentas: 0,
+  totalGravado: 100,
+  totalExento: 0,
+  totalVenta: 100,
+  totalDescuentos: 0,
+  totalVentaNeta: 100,
+  totalImpuesto: 13,
+  totalComprobante: 113,
+};
+
+describe("resolveCodigoTipoMoneda", () => {
+  it("asks the provider for foreign currencies", async () => {
+    const provider = new StaticExchangeRateProvider({ USD: 512.34 });
+    expect(await resolveCodigoTipoMoneda("usd", provider, DATE)).toEqual({
+      codigoMoneda: "USD",
+      tipoCambio: 512.34,
+    });
+  });
+
+  it("uses a rate of 1 for colones without asking the provider", async () => {
+    const getRate = vi.fn();
+    expect(await resolveCodigoTipoMoneda("CRC", { getRate }, DATE)).toEqual({
+      codigoMoneda: "CRC",
+      tipoCambio: 1,
+    });
+    expect(getRate).not.toHaveBeenCalled();
+  });
+});
+
+describe("toColones", () => {
+  it("converts every total with the exchange rate", () => {
+    const crc = toColones(USD_RESUMEN);
+
+    expect(crc.codigoTipoMoneda).toEqual({ codigoMoneda: "CRC", tipoCambio: 1 });
+    expect(crc.totalVentaNeta).toBe(51234);
+    expect(crc.totalImpuesto).toBe(6660.42);
+    expect(crc.totalComprobante).toBe(57894.42);
+  });
+
+  it("returns colones documents unchanged", () => {
+    const { codigoTipoMoneda: _moneda, ...crcResumen } = USD_RESUMEN;
+    expect(toColones(crcResumen)).toBe(crcResumen);
+  });
+});
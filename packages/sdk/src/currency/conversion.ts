@@ -0,0 +1,86 @@
+/**
+ * Currency helpers for ResumenFactura totals.
+ *
+ * Resolves the `codigoTipoMoneda` block for a document currency and
+ * converts document totals to colones — the amounts Hacienda uses for
+ * tax reporting (D-104) regardless of the invoicing currency.
+ *
+ * @module currency/conversion
+ */
+
+import type { CodigoTipoMoneda, ResumenFactura } from "@dojocoding/hacienda-shared";
+import { CurrencyCode } from "@dojocoding/hacienda-shared";
+
+import { Decimal } from "../tax/decimal.js";
+import type { ExchangeRateProvider } from "./exchange-rate.js";
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolves the currency block of a ResumenFactura.
+ *
+ * Colones always use a rate of 1 without asking the provider.
+ *
+ * @param currency - ISO 4217 currency code of the document.
+ * @param provider - Source of the exchange rate for foreign currencies.
+ * @param date - Emission date the rate must apply to.
+ * @returns The `codigoTipoMoneda` to set on the ResumenFactura.
+ * @throws {ValidationError} If the provider has no rate for the currency.
+ *
+ * @example
+ * ```ts
+ * const moneda = await resolveCodigoTipoMoneda("USD", new FileExchangeRateProvider(), new Date());
+ * // { codigoMoneda: "USD", tipoCambio: 512.34 }
+ * ```
+ */
+export async function resolveCodigoTipoMoneda(
+  currency: string,
+  provider: ExchangeRateProvider,
+  date: Date,
+): Promise<CodigoTipoMoneda> {
+  const code = currency.toUpperCase() as CodigoTipoMoneda["codigoMoneda"];
+  if (code === CurrencyCode.CRC) {
+    return { codigoMoneda: code, tipoCambio: 1 };
+  }
+
+  const { rate } = await provider.getRate(code, date);
+  return { codigoMoneda: code, tipoCambio: rate };
+}
+
+/**
+ * Converts ResumenFactura totals to colones.
+ *
+ * Every amount is multiplied by `codigoTipoMoneda.tipoCambio` and rounded
+ * to 5 decimals. Documents without a currency block are already in
+ * colones and are returned unchanged.
+ *
+ * @param resumen - Totals in the document currency.
+ * @returns The same totals in colones, with a CRC currency block.
+ *
+ * @example
+ * ```ts
+ * const crc = toColones(factura.resumenFactura);
+ * report.ventasGravadas += crc.totalGravado;
+ * ```
+ */
+export function toColones(resumen: ResumenFactura): ResumenFactura {
+  const moneda = resumen.codigoTipoMoneda;
+  if (!moneda || moneda.codigoMoneda === CurrencyCode.CRC) {
+    return resumen;
+  }
+
+  const converted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(resumen)) {
+    converted[key] =
+      typeof value === "number"
+        ? Decimal.from(value).times(moneda.tipoCambio).round(5).toNumber()
+        : value;
+  }
+
+  return {
+    ...(converted as unknown as ResumenFactura),
+    codigoTipoMoneda: { codigoMoneda: CurrencyCode.CRC, tipoCambio: 1 },
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Tests for the exchange-rate providers.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { ValidationError } from "../errors.js";
+import { FileExchangeRateProvider, StaticExchangeRateProvider } from "./exchange-rate.js";
+
+/** 2025-01-18 at noon in Costa Rica. */
+const SATURDAY = new Date("2025-01-18T12:00:00-06:00");
+
+// ---------------------------------------------------------------------------
+// StaticExchangeRateProvider
+// ---------------------------------------------------------------------------
+
+describe("StaticExchangeRateProvider", () => {
+  it("returns the configured rate for any date", async () => {
+    const provider = new StaticExchangeRateProvider({ usd: 512.34 });
+
+    expect(await provider.getRate("USD", SATURDAY)).toEqual({
+      currency: "USD",
+      rate: 512.34,
+      date: "2025-01-18",
+      source: "static",
+    });
+  });
+
+  it("always converts colones at 1", async () => {
+    const { rate } = await new StaticExchangeRateProvider({}).getRate("CRC", SATURDAY);
+    expect(rate).toBe(1);
+  });
+
+  it("rejects unknown currencies and invalid rates", async () => {
+    await expect(new StaticExchangeRateProvider({}).getRate("EUR", SATURDAY)).rejects.toThrow(
+      ValidationError,
+    );
+    expect(() => new StaticExchangeRateProvider({ USD: 0 })).toThrow(ValidationError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// FileExchangeRateProvider
+// ---------------------------------------------------------------------------
+
+describe("FileExchangeRateProvider", () => {
+  let configDir: string;
+
+  beforeEach(async () => {
+    configDir = await mkdtemp(join(tmpdir(), "hacienda-rates-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  it("stores rates in exchange-rates.json", async () => {
+    const provider = new FileExchangeRateProvider({ configDir });
+    await provider.setRate("usd", "2025-01-16", 511.9);
+
+    expect(provider.filePath).toBe(join(configDir, "exchange-rates.json"));
+    expect(JSON.parse(await readFile(provider.filePath, "utf-8"))).toEqual({
+      USD: { "2025-01-16": 511.9 },
+    });
+  });
+
+  it("uses the latest rate on or before the date", async () => {
+    const provider = new FileExchangeRateProvider({ configDir });
+    await provider.setRate("USD", "2025-01-15", 512.34);
+    await provider.setRate("USD", "2025-01-17", 510.02);
+    await provider.setRate("USD", "2025-01-20", 509.5);
+
+    expect(await provider.getRate("USD", SATURDAY)).toMatchObject({
+      rate: 510.02,
+      date: "2025-01-17",
+    });
+  });
+
+  it("uses the Costa Rica calendar date", async () => {
+    const provider = new FileExchangeRateProvider({ configDir });
+    await provider.setRate("USD", "2025-01-17", 510.02);
+
+    // 2025-01-18T02:00Z is still the 17th in Costa Rica
+    const { rate } = await provider.getRate("USD", new Date("2025-01-18T02:00:00Z"));
+    expect(rate).toBe(510.02);
+  });
+
+  it("throws when no rate precedes the date", async () => {
+    const provider = new FileExchangeRateProvider({ configDir });
+    await provider.setRate("USD", "2025-02-01", 505);
+
+    await expect(provider.getRate("USD", SATURDAY)).rejects.toThrow(/on or before 2025-01-18/);
+    await expect(provider.getRate("EUR", SATURDAY)).rejects.toThrow(ValidationError);
+  });
+
+  it("reads a hand-written file", async () => {
+    const filePath = join(configDir, "rates.json");
+    await writeFile(filePath, JSON.stringify({ EUR: { "2025-01-10": 560.25 } }));
+
+    const { rate, source } = await new FileExchangeRateProvider({ filePath }).getRate(
+      "EUR",
+      SATURDAY,
+    );
+    expect(rate).toBe(560.25);
+    expect(source).toBe(filePath);
+  });
+
+  it("rejects invalid dates and rates", async () => {
+    const provider = new FileExchangeRateProvider({ configDir });
+    await expect(provider.setRate("USD", "15/01/2025", 512)).rejects.toThrow(ValidationError);
+    await expect(provider.setRate("USD", "2025-01-15", -1)).rejects.toThrow(ValidationError);
+  });
+
+  it.each([
+    ["a non-numeric rate", { USD: { "2025-01-15": "512" } }],
+    ["a zero rate", { USD: { "2025-01-15": 0 } }],
+    ["a negative rate", { USD: { "2025-01-15": -512 } }],
+    ["a malformed date", { USD: { "15/01/2025": 512 } }],
+    ["a currency that is not a table", { USD: 512 }],
+    ["an array", [512]],
+  ])("rejects a file with %s", async (_, table) => {
+    const filePath = join(configDir, "rates.json");
+    await writeFile(filePath, JSON.stringify(table));
+
+    const provider = new FileExchangeRateProvider({ filePath });
+    await expect(provider.getRate("USD", SATURDAY)).rejects.toThrow(ValidationError);
+  });
+
+  it("rejects a file that is not JSON with a ValidationError", async () => {
+    const filePath = join(configDir, "rates.json");
+    await writeFile(filePath, '{"USD": {');
+
+    const provider = new FileExchangeRateProvider({ filePath });
+    await expect(provider.getRate("USD", SATURDAY)).rejects.toThrow(ValidationError);
+    await expect(provider.readTable()).rejects.toThrow(/not valid JSON/);
+  });
+});
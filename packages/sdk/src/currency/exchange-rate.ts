@@ -0,0 +1,275 @@
+/**
+ * Exchange rates for invoicing in foreign currencies.
+ *
+ * Hacienda accepts comprobantes in any currency as long as the
+ * ResumenFactura carries the exchange rate to colones (`tipoCambio`).
+ * The {@link ExchangeRateProvider} contract lets callers plug in their
+ * own rate source (e.g., a BCCR indicator feed); the SDK ships a fixed
+ * table ({@link StaticExchangeRateProvider}) and a file-backed table
+ * under ~/.hacienda-cr/exchange-rates.json ({@link FileExchangeRateProvider}).
+ *
+ * Rates are colones per unit of the foreign currency, as Hacienda expects.
+ *
+ * @module currency/exchange-rate
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import { dirname, join } from "node:path";
+
+import { COSTA_RICA_UTC_OFFSET_MINUTES, CurrencyCode } from "@dojocoding/hacienda-shared";
+import { z } from "zod";
+
+import { getConfigDir } from "../config/config-manager.js";
+import { ValidationError } from "../errors.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Exchange rate of a currency to colones. */
+export interface ExchangeRate {
+  /** ISO 4217 currency code (e.g., "USD"). */
+  readonly currency: string;
+  /** Colones per unit of `currency`. */
+  readonly rate: number;
+  /** Date the rate applies to (YYYY-MM-DD, Costa Rica time). */
+  readonly date: string;
+  /** Where the rate came from (e.g., "static", a file path, "BCCR"). */
+  readonly source: string;
+}
+
+/**
+ * Source of exchange rates to colones.
+ *
+ * Implement this to back invoicing with a live feed such as the BCCR
+ * "tipo de cambio de referencia" indicators.
+ */
+export interface ExchangeRateProvider {
+  /**
+   * Returns the rate of `currency` to colones applicable on `date`.
+   *
+   * @throws {ValidationError} If no rate is available for the currency and date.
+   */
+  getRate(currency: string, date: Date): Promise<ExchangeRate>;
+}
+
+/** Options for {@link FileExchangeRateProvider}. */
+export interface FileExchangeRateProviderOptions {
+  /** Override the config directory path (defaults to ~/.hacienda-cr/) */
+  configDir?: string;
+  /** Explicit rates file path (overrides `configDir`). */
+  filePath?: string;
+}
+
+/**
+ * Contents of the rates file: for each currency, rates keyed by date.
+ *
+ * @example
+ * ```json
+ * { "USD": { "2025-01-15": 512.34, "2025-01-16": 511.9 } }
+ * ```
+ */
+export type ExchangeRateTable = Record<string, Record<string, number>>;
+
+/** Rates file name inside the config directory. */
+const RATES_FILE_NAME = "exchange-rates.json";
+
+/** A date key in the rates file. */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Rates file: the same checks as {@link FileExchangeRateProvider.setRate}. */
+const ExchangeRateTableSchema = z.record(
+  z.string(),
+  z.record(
+    z.string().regex(DATE_PATTERN, "Dates must be YYYY-MM-DD"),
+    z.number().positive("Rates must be positive numbers"),
+  ),
+);
+
+// ---------------------------------------------------------------------------
+// StaticExchangeRateProvider
+// ---------------------------------------------------------------------------
+
+/**
+ * Provider with one fixed rate per currency, whatever the date.
+ *
+ * @example
+ * ```ts
+ * const provider = new StaticExchangeRateProvider({ USD: 512.34, EUR: 556.1 });
+ * const { rate } = await provider.getRate("USD", new Date()); // 512.34
+ * ```
+ */
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  private readonly rates: ReadonlyMap<string, number>;
+
+  /**
+   * @param rates - Colones per unit, keyed by currency code.
+   * @throws {ValidationError} If a rate is not a positive number.
+   */
+  constructor(rates: Readonly<Record<string, number>>) {
+    for (const [currency, rate] of Object.entries(rates)) {
+      assertValidRate(currency, rate);
+    }
+    this.rates = new Map(Object.entries(rates).map(([c, r]) => [c.toUpperCase(), r]));
+  }
+
+  getRate(currency: string, date: Date): Promise<ExchangeRate> {
+    const code = currency.toUpperCase();
+    const rate = code === CurrencyCode.CRC ? 1 : this.rates.get(code);
+    if (rate === undefined) {
+      return Promise.reject(noRateError(currency, date));
+    }
+    return Promise.resolve({ currency: code, rate, date: costaRicaDate(date), source: "static" });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// FileExchangeRateProvider
+// ---------------------------------------------------------------------------
+
+/**
+ * Provider backed by a JSON table of daily rates
+ * (~/.hacienda-cr/exchange-rates.json by default).
+ *
+ * Returns the most recent rate on or before the requested date, so a
+ * table updated on business days also covers weekends and holidays.
+ *
+ * @example
+ * ```ts
+ * const provider = new FileExchangeRateProvider();
+ * await provider.setRate("USD", "2025-01-15", 512.34);
+ * const { rate } = await provider.getRate("USD", new Date("2025-01-18T12:00:00-06:00"));
+ * ```
+ */
+export class FileExchangeRateProvider implements ExchangeRateProvider {
+  /** Absolute path of the rates file. */
+  readonly filePath: string;
+
+  constructor(options: FileExchangeRateProviderOptions = {}) {
+    this.filePath = options.filePath ?? join(getConfigDir(options.configDir), RATES_FILE_NAME);
+  }
+
+  async getRate(currency: string, date: Date): Promise<ExchangeRate> {
+    const code = currency.toUpperCase();
+    const day = costaRicaDate(date);
+    if (code === CurrencyCode.CRC) {
+      return { currency: code, rate: 1, date: day, source: this.filePath };
+    }
+
+    const rates = (await this.readTable())[code] ?? {};
+    const latest = Object.keys(rates)
+      .filter((key) => DATE_PATTERN.test(key) && key <= day)
+      .sort()
+      .pop();
+    const rate = latest !== undefined ? rates[latest] : undefined;
+    if (latest === undefined || rate === undefined) {
+      throw noRateError(currency, date);
+    }
+
+    return { currency: code, rate, date: latest, source: this.filePath };
+  }
+
+  /**
+   * Records the rate of a currency for a date, replacing any existing one.
+   *
+   * @param currency - ISO 4217 currency code.
+   * @param date - Date the rate applies to (YYYY-MM-DD).
+   * @param rate - Colones per unit of `currency`.
+   * @throws {ValidationError} If the date or rate is invalid.
+   */
+  async setRate(currency: string, date: string, rate: number): Promise<void> {
+    if (!DATE_PATTERN.test(date)) {
+      throw new ValidationError(`Invalid exchange rate date "${date}" (expected YYYY-MM-DD).`);
+    }
+    assertValidRate(currency, rate);
+
+    const code = currency.toUpperCase();
+    const table = await this.readTable();
+    table[code] = { ...table[code], [date]: rate };
+    await this.writeTable(table);
+  }
+
+  /**
+   * Reads the whole rates table (empty if the file does not exist).
+   *
+   * @throws {ValidationError} If the file is not valid JSON, or has a
+   *   malformed date or a rate that is not a positive number.
+   */
+  async readTable(): Promise<ExchangeRateTable> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, "utf-8");
+    } catch (error) {
+      if (isNotFound(error)) {
+        return {};
+      }
+      throw error;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new ValidationError(
+        `Invalid exchange rates file ${this.filePath}: not valid JSON.`,
+        undefined,
+        error,
+      );
+    }
+
+    const result = ExchangeRateTableSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new ValidationError(
+        `Invalid exchange rates file ${this.filePath}: ${result.error.message}`,
+        result.error.issues,
+      );
+    }
+    return result.data;
+  }
+
+  /**
+   * Writes the table atomically using a rename-based strategy.
+   */
+  private async writeTable(table: ExchangeRateTable): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true, mode: 0o700 });
+
+    const tempPath = `${this.filePath}.${randomBytes(6).toString("hex")}.tmp`;
+    await writeFile(tempPath, JSON.stringify(table, null, 2) + "\n", {
+      encoding: "utf-8",
+      mode: 0o600,
+    });
+    await rename(tempPath, this.filePath);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Calendar date (YYYY-MM-DD) of an instant in Costa Rica time. */
+function costaRicaDate(date: Date): string {
+  return new Date(date.getTime() + COSTA_RICA_UTC_OFFSET_MINUTES * 60_000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+function assertValidRate(currency: string, rate: number): void {
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new ValidationError(
+      `Invalid exchange rate for ${currency}: ${String(rate)} (must be a positive number).`,
+    );
+  }
+}
+
+function noRateError(currency: string, date: Date): ValidationError {
+  return new ValidationError(
+    `No exchange rate available for ${currency} on or before ${costaRicaDate(date)}.`,
+  );
+}
+
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof Error && "code" in error && (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
@@ -0,0 +1,14 @@
+/**
+ * Currency module — exchange-rate providers and conversion of
+ * document totals for invoicing in foreign currencies.
+ */
+
+export { StaticExchangeRateProvider, FileExchangeRateProvider } from "./exchange-rate.js";
+export type {
+  ExchangeRate,
+  ExchangeRateProvider,
+  ExchangeRateTable,
+  FileExchangeRateProviderOptions,
+} from "./exchange-rate.js";
+
+export { resolveCodigoTipoMoneda, toColones } from "./conversion.js";
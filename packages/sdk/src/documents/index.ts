@@ -10,3 +10,23 @@ export { buildFacturaCompraXml } from "./factura-compra-builder.js";
 export { buildFacturaExportacionXml } from "./factura-exportacion-builder.js";
 export { buildReciboPagoXml } from "./recibo-pago-builder.js";
 export { buildMensajeReceptorXml } from "./mensaje-receptor-builder.js";
+export {
+  prepareDocument,
+  isIssuableDocumentType,
+  formatFechaEmision,
+  type IssuableDocumentType,
+  type DraftLineItem,
+  type DocumentDraft,
+  type PrepareDocumentOptions,
+  type PreparedDocument,
+} from "./prepare-document.js";
+export {
+  createCreditNoteFrom,
+  createDebitNoteFrom,
+  getOutstandingBalance,
+  type ReferenceCode,
+  type ReferenceNoteSource,
+  type ReferenceNoteLine,
+  type ReferenceNoteOptions,
+  type CreditNoteOptions,
+} from "./reference-notes.js";
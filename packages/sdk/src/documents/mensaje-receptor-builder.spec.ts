@@ -98,6 +98,18 @@ describe("buildMensajeReceptorXml", () => {
       expect(xml).toContain("<CondicionImpuesto>01</CondicionImpuesto>");
     });
 
+    it("should place the creditable and expense amounts after CondicionImpuesto", () => {
+      const xml = buildMensajeReceptorXml({
+        ...MENSAJE_ACEPTACION_TOTAL,
+        condicionImpuesto: "02",
+        montoTotalImpuestoAcreditable: 6500,
+        montoTotalDeGastoAplicable: 50000,
+      });
+      expect(xml).toMatch(
+        /<CondicionImpuesto>02<\/CondicionImpuesto>\s*<MontoTotalImpuestoAcreditable>6500<\/MontoTotalImpuestoAcreditable>\s*<MontoTotalDeGastoAplicable>50000<\/MontoTotalDeGastoAplicable>\s*<TotalFactura>/,
+      );
+    });
+
     it("should not include optional elements when absent", () => {
       const xml = buildMensajeReceptorXml(MENSAJE_MINIMAL);
       expect(xml).not.toContain("<DetalleMensaje>");
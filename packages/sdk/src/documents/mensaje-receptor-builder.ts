@@ -72,6 +72,14 @@ export function buildMensajeReceptorXml(input: MensajeReceptor): string {
     data.CondicionImpuesto = input.condicionImpuesto;
   }
 
+  if (input.montoTotalImpuestoAcreditable !== undefined) {
+    data.MontoTotalImpuestoAcreditable = input.montoTotalImpuestoAcreditable;
+  }
+
+  if (input.montoTotalDeGastoAplicable !== undefined) {
+    data.MontoTotalDeGastoAplicable = input.montoTotalDeGastoAplicable;
+  }
+
   data.TotalFactura = input.totalFactura;
   data.NumeroCedulaReceptor = input.numeroCedulaReceptor;
   data.NumeroConsecutivoReceptor = input.numeroConsecutivoReceptor;
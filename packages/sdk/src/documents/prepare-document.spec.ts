@@ -0,0 +1,290 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { parseClave } from "../clave/parse-clave.js";
+import { DocumentType, Situation } from "../clave/types.js";
+import { StaticExchangeRateProvider } from "../currency/exchange-rate.js";
+import { ValidationError } from "../errors.js";
+import {
+  formatFechaEmision,
+  isIssuableDocumentType,
+  prepareDocument,
+  type DocumentDraft,
+  type IssuableDocumentType,
+} from "./prepare-document.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const DRAFT: DocumentDraft = {
+  codigoActividad: "620100",
+  emisor: {
+    nombre: "Empresa Test S.A.",
+    identificacion: { tipo: "02", numero: "3101234567" },
+    correoElectronico: "facturacion@testcorp.cr",
+  },
+  receptor: {
+    nombre: "Cliente Ejemplo S.R.L.",
+    identificacion: { tipo: "02", numero: "3109876543" },
+  },
+  condicionVenta: "01",
+  medioPago: ["01"],
+  detalleServicio: [
+    {
+      codigoCabys: "4321000000000",
+      cantidad: 2,
+      unidadMedida: "Sp",
+      detalle: "Consultoria",
+      precioUnitario: 50000,
+      esServicio: true,
+      impuesto: [{ codigo: "01", codigoTarifa: "08", tarifa: 13 }],
+    },
+    {
+      codigoCabys: "4321000000001",
+      cantidad: 1,
+      unidadMedida: "Unid",
+      detalle: "Cable HDMI",
+      precioUnitario: 5000,
+    },
+  ],
+};
+
+const REFERENCIA = {
+  tipoDoc: "01" as const,
+  numero: "50601012300310123456700100001010000000001199999999",
+  fechaEmision: "2025-07-27T10:30:00-06:00",
+  codigo: "01" as const,
+  razon: "Correccion de monto",
+};
+
+const ROOTS: Record<IssuableDocumentType, string> = {
+  [DocumentType.FACTURA_ELECTRONICA]: "FacturaElectronica",
+  [DocumentType.NOTA_DEBITO]: "NotaDebitoElectronica",
+  [DocumentType.NOTA_CREDITO]: "NotaCreditoElectronica",
+  [DocumentType.TIQUETE_ELECTRONICO]: "TiqueteElectronico",
+  [DocumentType.FACTURA_COMPRA]: "FacturaElectronicaCompra",
+  [DocumentType.FACTURA_EXPORTACION]: "FacturaElectronicaExportacion",
+  [DocumentType.RECIBO_ELECTRONICO_PAGO]: "ReciboElectronicoPago",
+};
+
+let configDir: string;
+
+beforeEach(async () => {
+  configDir = await mkdtemp(join(tmpdir(), "hacienda-prepare-test-"));
+});
+
+afterEach(async () => {
+  await rm(configDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// prepareDocument
+// ---------------------------------------------------------------------------
+
+describe("prepareDocument", () => {
+  it("numbers, totals and serializes a factura", async () => {
+    const prepared = await prepareDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+      configDir,
+      securityCode: "12345678",
+    });
+
+    expect(prepared.sequence).toBe(1);
+    expect(prepared.numeroConsecutivo).toBe("00100001010000000001");
+
+    const clave = parseClave(prepared.clave);
+    expect(clave.taxpayerId).toBe("003101234567");
+    expect(clave.documentType).toBe("01");
+    expect(clave.sequence).toBe(1);
+    expect(clave.situation).toBe(Situation.NORMAL);
+    expect(clave.securityCode).toBe("12345678");
+
+    expect(prepared.document.resumenFactura).toMatchObject({
+      totalServGravados: 100000,
+      totalMercanciasExentas: 5000,
+      totalVenta: 105000,
+      totalImpuesto: 13000,
+      totalComprobante: 118000,
+    });
+    expect(prepared.xml).toContain("<FacturaElectronica");
+    expect(prepared.xml).toContain(`<Clave>${prepared.clave}</Clave>`);
+    expect(prepared.xml).toContain("<TotalComprobante>118000</TotalComprobante>");
+  });
+
+  it("assigns line numbers and strips the esServicio flag", async () => {
+    const prepared = await prepareDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+      configDir,
+    });
+
+    const lines = prepared.document.detalleServicio;
+    expect(lines.map((l) => l.numeroLinea)).toEqual([1, 2]);
+    expect(lines[0]).not.toHaveProperty("esServicio");
+    expect(lines[0]?.impuestoNeto).toBe(13000);
+  });
+
+  it("allocates consecutive sequences per document type", async () => {
+    const first = await prepareDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, { configDir });
+    const second = await prepareDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, { configDir });
+    const tiquete = await prepareDocument(DocumentType.TIQUETE_ELECTRONICO, DRAFT, { configDir });
+
+    expect(first.sequence).toBe(1);
+    expect(second.sequence).toBe(2);
+    expect(tiquete.sequence).toBe(1);
+    expect(tiquete.numeroConsecutivo).toBe("00100001040000000001");
+  });
+
+  it("uses an explicit sequence, branch, POS and situation", async () => {
+    const prepared = await prepareDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+      configDir,
+      sequence: 42,
+      branch: "002",
+      pos: "00003",
+      situation: Situation.SIN_INTERNET,
+    });
+
+    expect(prepared.numeroConsecutivo).toBe("00200003010000000042");
+    const clave = parseClave(prepared.clave);
+    expect(clave.branch).toBe("002");
+    expect(clave.pos).toBe("00003");
+    expect(clave.situation).toBe("3");
+  });
+
+  it("adds otros cargos to the grand total", async () => {
+    const prepared = await prepareDocument(
+      DocumentType.FACTURA_ELECTRONICA,
+      {
+        ...DRAFT,
+        otrosCargos: [{ tipoDocumento: "06", detalle: "Servicio 10%", montoOtroCargo: 10000 }],
+      },
+      { configDir },
+    );
+
+    expect(prepared.document.resumenFactura.totalOtrosCargos).toBe(10000);
+    expect(prepared.document.resumenFactura.totalComprobante).toBe(128000);
+  });
+
+  it("keeps the currency in the summary", async () => {
+    const prepared = await prepareDocument(
+      DocumentType.FACTURA_ELECTRONICA,
+      { ...DRAFT, codigoTipoMoneda: { codigoMoneda: "USD", tipoCambio: 510.5 } },
+      { configDir },
+    );
+
+    expect(prepared.document.resumenFactura.codigoTipoMoneda).toEqual({
+      codigoMoneda: "USD",
+      tipoCambio: 510.5,
+    });
+    expect(prepared.document).not.toHaveProperty("codigoTipoMoneda");
+  });
+
+  it("looks up the exchange rate of the draft currency", async () => {
+    const prepared = await prepareDocument(
+      DocumentType.FACTURA_ELECTRONICA,
+      { ...DRAFT, moneda: "USD" },
+      { configDir, exchangeRateProvider: new StaticExchangeRateProvider({ USD: 512.34 }) },
+    );
+
+    expect(prepared.document.resumenFactura.codigoTipoMoneda).toEqual({
+      codigoMoneda: "USD",
+      tipoCambio: 512.34,
+    });
+    expect(prepared.document).not.toHaveProperty("moneda");
+    expect(prepared.xml).toContain("<TipoCambio>512.34</TipoCambio>");
+  });
+
+  it("rejects a foreign currency without an exchange rate source", async () => {
+    await expect(
+      prepareDocument(DocumentType.FACTURA_ELECTRONICA, { ...DRAFT, moneda: "EUR" }, { configDir }),
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it("formats fechaEmision from the given date in Costa Rica time", async () => {
+    const prepared = await prepareDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+      configDir,
+      date: new Date("2025-07-27T16:30:00Z"),
+    });
+
+    expect(prepared.document.fechaEmision).toBe("2025-07-27T10:30:00-06:00");
+  });
+
+  it("builds every issuable document type with its root element", async () => {
+    for (const [documentType, root] of Object.entries(ROOTS)) {
+      const prepared = await prepareDocument(
+        documentType as IssuableDocumentType,
+        { ...DRAFT, informacionReferencia: [REFERENCIA] },
+        { configDir },
+      );
+
+      expect(prepared.xml).toContain(`<${root}`);
+      expect(parseClave(prepared.clave).documentType).toBe(documentType);
+    }
+  });
+
+  it("allows a tiquete without receptor", async () => {
+    const { receptor: _receptor, ...draft } = DRAFT;
+    const prepared = await prepareDocument(DocumentType.TIQUETE_ELECTRONICO, draft, {
+      configDir,
+    });
+
+    expect(prepared.xml).not.toContain("<Receptor>");
+  });
+
+  it("rejects a factura without receptor", async () => {
+    const { receptor: _receptor, ...draft } = DRAFT;
+
+    await expect(
+      prepareDocument(DocumentType.FACTURA_ELECTRONICA, draft, { configDir }),
+    ).rejects.toThrow(/receptor/);
+  });
+
+  it("rejects credit and debit notes without informacionReferencia", async () => {
+    for (const documentType of [DocumentType.NOTA_CREDITO, DocumentType.NOTA_DEBITO] as const) {
+      await expect(prepareDocument(documentType, DRAFT, { configDir })).rejects.toThrow(
+        ValidationError,
+      );
+    }
+  });
+
+  it("rejects confirmation document types", async () => {
+    await expect(
+      prepareDocument(
+        DocumentType.CONFIRMACION_ACEPTACION as unknown as IssuableDocumentType,
+        DRAFT,
+        { configDir },
+      ),
+    ).rejects.toThrow(/cannot be issued/);
+  });
+
+  it("does not consume a sequence when the draft is invalid", async () => {
+    const { receptor: _receptor, ...draft } = DRAFT;
+    await expect(
+      prepareDocument(DocumentType.FACTURA_ELECTRONICA, draft, { configDir }),
+    ).rejects.toThrow();
+
+    const prepared = await prepareDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+      configDir,
+    });
+    expect(prepared.sequence).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+describe("isIssuableDocumentType", () => {
+  it("accepts comprobante types and rejects confirmations", () => {
+    expect(isIssuableDocumentType("01")).toBe(true);
+    expect(isIssuableDocumentType("10")).toBe(true);
+    expect(isIssuableDocumentType("05")).toBe(false);
+    expect(isIssuableDocumentType("99")).toBe(false);
+  });
+});
+
+describe("formatFechaEmision", () => {
+  it("converts UTC to -06:00", () => {
+    expect(formatFechaEmision(new Date("2025-01-01T03:15:09Z"))).toBe("2024-12-31T21:15:09-06:00");
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * Document preparation — turns a draft into a fully numbered, totalled
+ * and serialized comprobante ready for signing.
+ *
+ * Ties together the sequence store, clave builder, tax calculator and the
+ * per-type XML builders so callers only supply the business data.
+ *
+ * @module documents/prepare-document
+ */
+
+import type {
+  CodigoTipoMoneda,
+  DocumentoElectronico,
+  Emisor,
+  FacturaElectronica,
+  FacturaElectronicaCompra,
+  FacturaElectronicaExportacion,
+  InformacionReferencia,
+  LineaDetalle,
+  NotaCreditoElectronica,
+  NotaDebitoElectronica,
+  OtroCargo,
+  OtroContenido,
+  PaymentMethod,
+  Receptor,
+  ReciboElectronicoPago,
+  ResumenFactura,
+  SaleCondition,
+  TiqueteElectronico,
+} from "@dojocoding/hacienda-shared";
+import { COSTA_RICA_UTC_OFFSET_MINUTES, CurrencyCode } from "@dojocoding/hacienda-shared";
+
+import { buildClave } from "../clave/build-clave.js";
+import { DocumentType, Situation } from "../clave/types.js";
+import { FileSequenceBackend } from "../config/file-sequence-backend.js";
+import { withSequence } from "../config/sequence-backend.js";
+import type { SequenceBackend } from "../config/sequence-backend.js";
+import { buildSequenceKey } from "../config/sequence-store.js";
+import { DEFAULT_BRANCH, DEFAULT_POS } from "../config/types.js";
+import { resolveCodigoTipoMoneda } from "../currency/conversion.js";
+import type { ExchangeRateProvider } from "../currency/exchange-rate.js";
+import { ValidationError } from "../errors.js";
+import { calculateInvoiceSummary, calculateLineItemTotals, round5 } from "../tax/calculator.js";
+import type { LineItemInput } from "../tax/calculator.js";
+import { buildFacturaXml } from "./factura-builder.js";
+import { buildFacturaCompraXml } from "./factura-compra-builder.js";
+import { buildFacturaExportacionXml } from "./factura-exportacion-builder.js";
+import { buildNotaCreditoXml } from "./nota-credito-builder.js";
+import { buildNotaDebitoXml } from "./nota-debito-builder.js";
+import { buildReciboPagoXml } from "./recibo-pago-builder.js";
+import { buildTiqueteXml } from "./tiquete-builder.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Document types that can be issued as comprobantes.
+ *
+ * Excludes the receiver confirmation codes (05-07), which are sent as
+ * Mensaje Receptor documents rather than comprobantes.
+ */
+export type IssuableDocumentType =
+  | DocumentType.FACTURA_ELECTRONICA
+  | DocumentType.NOTA_DEBITO
+  | DocumentType.NOTA_CREDITO
+  | DocumentType.TIQUETE_ELECTRONICO
+  | DocumentType.FACTURA_COMPRA
+  | DocumentType.FACTURA_EXPORTACION
+  | DocumentType.RECIBO_ELECTRONICO_PAGO;
+
+/** A line item in a draft. `numeroLinea` is assigned from the position when omitted. */
+export interface DraftLineItem extends Omit<LineItemInput, "numeroLinea"> {
+  /** Line number (1-based). Defaults to the item's position in the draft. */
+  numeroLinea?: number;
+}
+
+/**
+ * Business data for a comprobante before numbering and totals.
+ *
+ * The clave, numeroConsecutivo, fechaEmision, per-line computed amounts
+ * and the ResumenFactura are filled in by {@link prepareDocument}.
+ */
+export interface DocumentDraft {
+  /** Activity code (CIIU 4 / CABYS activity code). */
+  codigoActividad: string;
+
+  /** Issuer information. */
+  emisor: Emisor;
+
+  /** Receiver information. Required for every type except Tiquete. */
+  receptor?: Receptor;
+
+  /** Sale condition code. */
+  condicionVenta: SaleCondition;
+
+  /** Credit term in days (required when condicionVenta is "02" credito). */
+  plazoCredito?: string;
+
+  /** Payment methods used. At least one required. */
+  medioPago: PaymentMethod[];
+
+  /** Line items before tax/total calculation. */
+  detalleServicio: DraftLineItem[];
+
+  /** Other charges. Their total is added to TotalComprobante. */
+  otrosCargos?: OtroCargo[];
+
+  /** Currency and exchange rate. Omit for CRC. */
+  codigoTipoMoneda?: CodigoTipoMoneda;
+
+  /**
+   * Document currency (ISO 4217, e.g., "USD") whose exchange rate is looked
+   * up with {@link PrepareDocumentOptions.exchangeRateProvider} for the
+   * emission date. Ignored when `codigoTipoMoneda` is given.
+   */
+  moneda?: string;
+
+  /** References to other documents. Required for credit and debit notes. */
+  informacionReferencia?: InformacionReferencia[];
+
+  /** Additional free-form content. */
+  otros?: OtroContenido[];
+}
+
+/** Options for {@link prepareDocument}. */
+export interface PrepareDocumentOptions {
+  /** Branch/sucursal code (default: "001"). */
+  branch?: string;
+
+  /** Point-of-sale code (default: "00001"). */
+  pos?: string;
+
+  /** Situation code for the clave (default: {@link Situation.NORMAL}). */
+  situation?: Situation;
+
+  /** Emission date (default: now). */
+  date?: Date;
+
+  /** Fixed 8-digit security code. A random one is generated when omitted. */
+  securityCode?: string;
+
+  /**
+   * Explicit sequence number. When omitted the next number is reserved
+   * from the sequence backend and committed once the XML is built.
+   */
+  sequence?: number;
+
+  /** Backend that allocates sequence numbers (default: the local file store). */
+  sequenceBackend?: SequenceBackend;
+
+  /** Override the config directory used by the default sequence backend. */
+  configDir?: string;
+
+  /** Source of the exchange rate for drafts with a foreign `moneda`. */
+  exchangeRateProvider?: ExchangeRateProvider;
+}
+
+/** A numbered, totalled comprobante and its unsigned XML. */
+export interface PreparedDocument {
+  /** Document type code used in the clave and consecutivo. */
+  readonly documentType: IssuableDocumentType;
+  /** 50-digit clave numerica. */
+  readonly clave: string;
+  /** 20-digit numero consecutivo (branch + POS + type + sequence). */
+  readonly numeroConsecutivo: string;
+  /** Sequence number allocated for this document. */
+  readonly sequence: number;
+  /** The complete document passed to the XML builder. */
+  readonly document: DocumentoElectronico;
+  /** Unsigned XML string. */
+  readonly xml: string;
+}
+
+/** XML builder for each issuable document type. */
+const DOCUMENT_BUILDERS: Record<IssuableDocumentType, (doc: DocumentoElectronico) => string> = {
+  [DocumentType.FACTURA_ELECTRONICA]: (doc) => buildFacturaXml(doc as FacturaElectronica),
+  [DocumentType.NOTA_DEBITO]: (doc) => buildNotaDebitoXml(doc as NotaDebitoElectronica),
+  [DocumentType.NOTA_CREDITO]: (doc) => buildNotaCreditoXml(doc as NotaCreditoElectronica),
+  [DocumentType.TIQUETE_ELECTRONICO]: (doc) => buildTiqueteXml(doc as TiqueteElectronico),
+  [DocumentType.FACTURA_COMPRA]: (doc) => buildFacturaCompraXml(doc as FacturaElectronicaCompra),
+  [DocumentType.FACTURA_EXPORTACION]: (doc) =>
+    buildFacturaExportacionXml(doc as FacturaElectronicaExportacion),
+  [DocumentType.RECIBO_ELECTRONICO_PAGO]: (doc) => buildReciboPagoXml(doc as ReciboElectronicoPago),
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Checks whether a document type code can be issued as a comprobante.
+ *
+ * @param documentType - A document type code.
+ * @returns `true` for factura, tiquete, notes, compra, exportacion and recibo.
+ */
+export function isIssuableDocumentType(documentType: string): documentType is IssuableDocumentType {
+  return Object.hasOwn(DOCUMENT_BUILDERS, documentType);
+}
+
+/**
+ * Formats a date as an ISO 8601 timestamp in Costa Rica time (`-06:00`).
+ *
+ * @param date - The instant to format.
+ * @returns A string such as `"2025-07-27T10:30:00-06:00"`.
+ */
+export function formatFechaEmision(date: Date): string {
+  const local = new Date(date.getTime() + COSTA_RICA_UTC_OFFSET_MINUTES * 60_000);
+  return `${local.toISOString().slice(0, 19)}-06:00`;
+}
+
+/**
+ * Prepares a comprobante from a draft.
+ *
+ * Steps:
+ * 1. Checks the draft has the fields its document type requires
+ * 2. Computes line item amounts and the ResumenFactura, resolving the
+ *    exchange rate for a foreign `moneda`
+ * 3. Reserves the next sequence number (unless one is given)
+ * 4. Builds the clave and numeroConsecutivo
+ * 5. Serializes the document with the matching XML builder, then commits
+ *    the number (or releases it if building fails)
+ *
+ * @param documentType - Type of comprobante to prepare.
+ * @param draft - Business data for the document.
+ * @param options - Numbering and date overrides.
+ * @returns The prepared document and its unsigned XML.
+ * @throws {ValidationError} If the type is not issuable, required fields are missing
+ *   or no exchange rate is available for the draft's currency.
+ * @throws {SequenceOverflowError} If the sequence store is exhausted.
+ *
+ * @example
+ * ```ts
+ * const prepared = await prepareDocument(DocumentType.TIQUETE_ELECTRONICO, {
+ *   codigoActividad: "620100",
+ *   emisor,
+ *   condicionVenta: "01",
+ *   medioPago: ["01"],
+ *   detalleServicio: [
+ *     { codigoCabys: "4321000000000", cantidad: 1, unidadMedida: "Unid",
+ *       detalle: "Cafe", precioUnitario: 1500,
+ *       impuesto: [{ codigo: "01", codigoTarifa: "08", tarifa: 13 }] },
+ *   ],
+ * });
+ * console.log(prepared.clave, prepared.xml);
+ * ```
+ */
+export async function prepareDocument(
+  documentType: IssuableDocumentType,
+  draft: DocumentDraft,
+  options: PrepareDocumentOptions = {},
+): Promise<PreparedDocument> {
+  if (!isIssuableDocumentType(documentType)) {
+    throw new ValidationError(
+      `Document type ${String(documentType)} cannot be issued as a comprobante.`,
+    );
+  }
+  assertDraftFields(documentType, draft);
+
+  const branch = options.branch ?? DEFAULT_BRANCH;
+  const pos = options.pos ?? DEFAULT_POS;
+  const date = options.date ?? new Date();
+
+  // 1. Totals
+  const calculatedItems = draft.detalleServicio.map((item, index) =>
+    calculateLineItemTotals({ ...item, numeroLinea: item.numeroLinea ?? index + 1 }),
+  );
+  const totalOtrosCargos = draft.otrosCargos
+    ? round5(draft.otrosCargos.reduce((sum, cargo) => sum + cargo.montoOtroCargo, 0))
+    : undefined;
+  const codigoTipoMoneda = await resolveDraftCurrency(draft, date, options);
+  const summary = calculateInvoiceSummary(calculatedItems, totalOtrosCargos, codigoTipoMoneda);
+
+  // 2. Assemble the document body
+  const detalleServicio: LineaDetalle[] = calculatedItems.map(
+    ({ esServicio: _esServicio, ...item }) => ({
+      ...item,
+      unidadMedida: item.unidadMedida as LineaDetalle["unidadMedida"],
+    }),
+  );
+
+  const resumenFactura: ResumenFactura = {
+    ...(summary.codigoTipoMoneda ? { codigoTipoMoneda: summary.codigoTipoMoneda } : {}),
+    totalServGravados: summary.totalServGravados,
+    totalServExentos: summary.totalServExentos,
+    ...(summary.totalServExonerado > 0 ? { totalServExonerado: summary.totalServExonerado } : {}),
+    totalMercanciasGravadas: summary.totalMercanciasGravadas,
+    totalMercanciasExentas: summary.totalMercanciasExentas,
+    ...(summary.totalMercExonerada > 0 ? { totalMercExonerada: summary.totalMercExonerada } : {}),
+    totalGravado: summary.totalGravado,
+    totalExento: summary.totalExento,
+    ...(summary.totalExonerado > 0 ? { totalExonerado: summary.totalExonerado } : {}),
+    totalVenta: summary.totalVenta,
+    totalDescuentos: summary.totalDescuentos,
+    totalVentaNeta: summary.totalVentaNeta,
+    totalImpuesto: summary.totalImpuesto,
+    ...(totalOtrosCargos !== undefined ? { totalOtrosCargos } : {}),
+    totalComprobante: summary.totalComprobante,
+  };
+
+  const {
+    detalleServicio: _draftItems,
+    codigoTipoMoneda: _codigoTipoMoneda,
+    moneda: _moneda,
+    ...rest
+  } = draft;
+  // 3. Numbering and serialization
+  const build = (sequence: number): PreparedDocument => {
+    const clave = buildClave({
+      date,
+      taxpayerId: draft.emisor.identificacion.numero,
+      branch,
+      pos,
+      documentType,
+      sequence,
+      situation: options.situation ?? Situation.NORMAL,
+      securityCode: options.securityCode,
+    });
+    const numeroConsecutivo = `${branch}${pos}${documentType}${String(sequence).padStart(10, "0")}`;
+
+    const document = {
+      ...rest,
+      clave,
+      numeroConsecutivo,
+      fechaEmision: formatFechaEmision(date),
+      detalleServicio,
+      resumenFactura,
+    } as DocumentoElectronico;
+
+    const xml = DOCUMENT_BUILDERS[documentType](document);
+    return { documentType, clave, numeroConsecutivo, sequence, document, xml };
+  };
+
+  if (options.sequence !== undefined) {
+    return build(options.sequence);
+  }
+
+  // A build failure releases the reserved number instead of burning it
+  const backend =
+    options.sequenceBackend ?? new FileSequenceBackend({ configDir: options.configDir });
+  return withSequence(backend, buildSequenceKey(documentType, branch, pos), (sequence) =>
+    Promise.resolve(build(sequence)),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns the draft's currency block, looking up the exchange rate of
+ * `draft.moneda` when no explicit `codigoTipoMoneda` is given.
+ *
+ * @throws {ValidationError} If a foreign currency has no rate source or rate.
+ */
+async function resolveDraftCurrency(
+  draft: DocumentDraft,
+  date: Date,
+  options: PrepareDocumentOptions,
+): Promise<CodigoTipoMoneda | undefined> {
+  if (draft.codigoTipoMoneda || !draft.moneda) {
+    return draft.codigoTipoMoneda;
+  }
+
+  const provider = options.exchangeRateProvider;
+  if (!provider && draft.moneda.toUpperCase() !== CurrencyCode.CRC) {
+    throw new ValidationError(
+      `Draft currency ${draft.moneda} needs an exchangeRateProvider or an explicit codigoTipoMoneda.`,
+      [{ path: "moneda", message: "No exchange rate source" }],
+    );
+  }
+
+  return provider
+    ? resolveCodigoTipoMoneda(draft.moneda, provider, date)
+    : { codigoMoneda: CurrencyCode.CRC, tipoCambio: 1 };
+}
+
+/**
+ * Checks the structural requirements that differ between document types.
+ *
+ * @throws {ValidationError} Listing every missing field.
+ */
+function assertDraftFields(documentType: IssuableDocumentType, draft: DocumentDraft): void {
+  const missing: string[] = [];
+
+  if (draft.detalleServicio.length === 0) {
+    missing.push("detalleServicio");
+  }
+  if (documentType !== DocumentType.TIQUETE_ELECTRONICO && !draft.receptor) {
+    missing.push("receptor");
+  }
+  if (
+    (documentType === DocumentType.NOTA_CREDITO || documentType === DocumentType.NOTA_DEBITO) &&
+    (!draft.informacionReferencia || draft.informacionReferencia.length === 0)
+  ) {
+    missing.push("informacionReferencia");
+  }
+
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `Draft for document type ${documentType} is missing required fields: ${missing.join(", ")}`,
+      missing.map((path) => ({ path, message: "Required" })),
+    );
+  }
+}
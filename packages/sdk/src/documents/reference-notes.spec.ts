@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HaciendaStatus } from "@dojocoding/hacienda-shared";
+import type { DocumentoElectronico } from "@dojocoding/hacienda-shared";
+
+import { DocumentType } from "../clave/types.js";
+import { ValidationError } from "../errors.js";
+import { buildDocumentRecord } from "../store/document-store.js";
+import { FileDocumentStore } from "../store/file-document-store.js";
+import { parseDocumentXml } from "../xml/parser.js";
+import { prepareDocument, type DocumentDraft, type PreparedDocument } from "./prepare-document.js";
+import {
+  createCreditNoteFrom,
+  createDebitNoteFrom,
+  getOutstandingBalance,
+} from "./reference-notes.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const DRAFT: DocumentDraft = {
+  codigoActividad: "620100",
+  emisor: {
+    nombre: "Empresa Test S.A.",
+    identificacion: { tipo: "02", numero: "3101234567" },
+    correoElectronico: "facturacion@testcorp.cr",
+  },
+  receptor: {
+    nombre: "Cliente Ejemplo S.R.L.",
+    identificacion: { tipo: "02", numero: "3109876543" },
+  },
+  condicionVenta: "02",
+  plazoCredito: "30",
+  medioPago: ["04"],
+  codigoTipoMoneda: { codigoMoneda: "USD", tipoCambio: 505.5 },
+  detalleServicio: [
+    {
+      codigoCabys: "4321000000000",
+      cantidad: 2,
+      unidadMedida: "Sp",
+      detalle: "Consultoria",
+      precioUnitario: 500,
+      esServicio: true,
+      impuesto: [{ codigo: "01", codigoTarifa: "08", tarifa: 13 }],
+    },
+    {
+      codigoCabys: "4321000000001",
+      cantidad: 4,
+      unidadMedida: "Unid",
+      detalle: "Cable HDMI",
+      precioUnitario: 25,
+      descuento: [{ montoDescuento: 20, naturalezaDescuento: "Promocion" }],
+    },
+  ],
+};
+
+const REASON = "Devolucion de mercaderia";
+
+let configDir: string;
+let original: PreparedDocument;
+
+beforeEach(async () => {
+  configDir = await mkdtemp(join(tmpdir(), "hacienda-notes-test-"));
+  original = await prepareDocument(DocumentType.FACTURA_ELECTRONICA, DRAFT, {
+    date: new Date("2025-07-27T16:30:00Z"),
+    sequence: 1,
+    configDir,
+  });
+});
+
+afterEach(async () => {
+  await rm(configDir, { recursive: true, force: true });
+});
+
+async function issueNote(
+  documentType: DocumentType.NOTA_CREDITO | DocumentType.NOTA_DEBITO,
+  draft: DocumentDraft,
+  sequence: number,
+): Promise<PreparedDocument> {
+  return prepareDocument(documentType, draft, {
+    date: new Date("2025-07-28T16:30:00Z"),
+    sequence,
+    configDir,
+  });
+}
+
+function encode(xml: string): string {
+  return Buffer.from(xml, "utf-8").toString("base64");
+}
+
+// ---------------------------------------------------------------------------
+// createCreditNoteFrom
+// ---------------------------------------------------------------------------
+
+describe("createCreditNoteFrom", () => {
+  it("reverses the whole document with the original parties, terms and currency", async () => {
+    const draft = createCreditNoteFrom(original.document, { codigo: "01", reason: REASON });
+
+    expect(draft).toMatchObject({
+      codigoActividad: "620100",
+      emisor: DRAFT.emisor,
+      receptor: DRAFT.receptor,
+      condicionVenta: "02",
+      plazoCredito: "30",
+      medioPago: ["04"],
+      codigoTipoMoneda: { codigoMoneda: "USD", tipoCambio: 505.5 },
+      informacionReferencia: [
+        {
+          tipoDoc: "01",
+          numero: original.clave,
+          fechaEmision: "2025-07-27T10:30:00-06:00",
+          codigo: "01",
+          razon: REASON,
+        },
+      ],
+    });
+
+    const note = await issueNote(DocumentType.NOTA_CREDITO, draft, 1);
+    expect(note.document.resumenFactura).toEqual(original.document.resumenFactura);
+  });
+
+  it("credits selected lines and partial quantities", async () => {
+    const draft = createCreditNoteFrom(original.document, {
+      codigo: "01",
+      reason: REASON,
+      lines: [{ numeroLinea: 2, cantidad: 1 }],
+    });
+
+    expect(draft.detalleServicio).toEqual([
+      expect.objectContaining({
+        detalle: "Cable HDMI",
+        cantidad: 1,
+        precioUnitario: 25,
+        descuento: [{ montoDescuento: 5, naturalezaDescuento: "Promocion" }],
+        esServicio: false,
+      }),
+    ]);
+    const note = await issueNote(DocumentType.NOTA_CREDITO, draft, 1);
+    expect(note.document.resumenFactura.totalComprobante).toBe(15);
+  });
+
+  it("spreads an amount proportionally over the lines", async () => {
+    const draft = createCreditNoteFrom(original.document, {
+      codigo: "01",
+      reason: REASON,
+      lines: [{ numeroLinea: 1 }],
+      amount: 565,
+    });
+
+    const note = await issueNote(DocumentType.NOTA_CREDITO, draft, 1);
+    expect(note.document.detalleServicio[0]).toMatchObject({ precioUnitario: 250 });
+    expect(note.document.resumenFactura).toMatchObject({
+      totalServGravados: 500,
+      totalImpuesto: 65,
+      totalComprobante: 565,
+    });
+  });
+
+  it("refuses to credit more than the outstanding balance", () => {
+    expect(() =>
+      createCreditNoteFrom(original.document, {
+        codigo: "01",
+        reason: REASON,
+        outstandingBalance: 100,
+      }),
+    ).toThrow(/exceeds the outstanding balance 100/);
+
+    expect(() =>
+      createCreditNoteFrom(original.document, { codigo: "01", reason: REASON, amount: 1500 }),
+    ).toThrow(ValidationError);
+  });
+
+  it("rejects unknown lines and quantities above the original", () => {
+    const credit = (lines: { numeroLinea: number; cantidad?: number }[]) => () =>
+      createCreditNoteFrom(original.document, { codigo: "01", reason: REASON, lines });
+
+    expect(credit([{ numeroLinea: 3 }])).toThrow(/Line 3 does not exist/);
+    expect(credit([{ numeroLinea: 1, cantidad: 3 }])).toThrow(/must be between 0 and 2/);
+    expect(credit([{ numeroLinea: 1 }, { numeroLinea: 1 }])).toThrow(/more than once/);
+    expect(credit([])).toThrow(/at least one line/);
+  });
+
+  it("requires the original to have a receptor", async () => {
+    const { receptor: _receptor, ...tiquete } = DRAFT;
+    const prepared = await prepareDocument(DocumentType.TIQUETE_ELECTRONICO, tiquete, {
+      sequence: 1,
+      configDir,
+    });
+
+    expect(() => createCreditNoteFrom(prepared.document, { codigo: "01", reason: REASON })).toThrow(
+      /has no receptor/,
+    );
+  });
+
+  it("accepts a ledger record and parsed XML as the original", async () => {
+    const record = {
+      ...buildDocumentRecord(original.document, "01", encode(original.xml)),
+      status: HaciendaStatus.ACEPTADO,
+      statusHistory: [],
+      createdAt: "2025-07-27T16:30:00.000Z",
+      updatedAt: "2025-07-27T16:30:00.000Z",
+    };
+    const parsed = parseDocumentXml(original.xml).document as DocumentoElectronico;
+
+    const fromRecord = createCreditNoteFrom(record, { codigo: "01", reason: REASON });
+    const fromXml = createCreditNoteFrom(parsed, { codigo: "01", reason: REASON });
+
+    expect(fromRecord.informacionReferencia?.[0]?.numero).toBe(original.clave);
+    expect(fromXml.informacionReferencia).toEqual(fromRecord.informacionReferencia);
+    expect(() =>
+      createCreditNoteFrom(
+        { ...record, status: HaciendaStatus.RECHAZADO },
+        { codigo: "01", reason: REASON },
+      ),
+    ).toThrow(/rechazado/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createDebitNoteFrom
+// ---------------------------------------------------------------------------
+
+describe("createDebitNoteFrom", () => {
+  it("builds a referenced debit note that is not limited by the balance", async () => {
+    const draft = createDebitNoteFrom(original.document, {
+      codigo: "04",
+      reason: "Ajuste de precio",
+      lines: [{ numeroLinea: 1 }],
+      amount: 2000,
+    });
+
+    const note = await issueNote(DocumentType.NOTA_DEBITO, draft, 1);
+    expect(note.document.informacionReferencia?.[0]).toMatchObject({
+      numero: original.clave,
+      codigo: "04",
+    });
+    expect(note.document.resumenFactura.totalComprobante).toBe(2000);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getOutstandingBalance
+// ---------------------------------------------------------------------------
+
+describe("getOutstandingBalance", () => {
+  it("subtracts credit notes and adds debit notes, ignoring rejected ones", async () => {
+    const store = new FileDocumentStore({ configDir });
+    await store.save(buildDocumentRecord(original.document, "01", encode(original.xml)));
+    const record = await store.get(original.clave);
+    if (!record) throw new Error("record not saved");
+
+    expect(await getOutstandingBalance(store, record)).toBe(1190);
+
+    const options = { codigo: "01" as const, reason: REASON, lines: [{ numeroLinea: 1 }] };
+    const credit = await issueNote(
+      DocumentType.NOTA_CREDITO,
+      createCreditNoteFrom(record, options),
+      1,
+    );
+    const rejected = await issueNote(
+      DocumentType.NOTA_CREDITO,
+      createCreditNoteFrom(record, options),
+      2,
+    );
+    const debit = await issueNote(
+      DocumentType.NOTA_DEBITO,
+      createDebitNoteFrom(record, { ...options, amount: 100 }),
+      1,
+    );
+    await store.save(buildDocumentRecord(credit.document, "03", encode(credit.xml)));
+    await store.save(buildDocumentRecord(rejected.document, "03", encode(rejected.xml)));
+    await store.updateStatus(rejected.clave, { status: HaciendaStatus.RECHAZADO });
+    await store.save(buildDocumentRecord(debit.document, "02", encode(debit.xml)));
+
+    const balance = await getOutstandingBalance(store, record);
+    expect(balance).toBeCloseTo(1190 - 1130 + 100, 4);
+    expect(() => createCreditNoteFrom(record, { ...options, outstandingBalance: balance })).toThrow(
+      /exceeds the outstanding balance 160/,
+    );
+  });
+});
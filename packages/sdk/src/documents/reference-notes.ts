@@ -0,0 +1,411 @@
+/**
+ * Reference notes — builds Nota de Crédito and Nota de Débito drafts
+ * from the document they correct.
+ *
+ * The emisor, receptor, activity, payment terms and exchange rate are
+ * copied from the original, and the InformacionReferencia is filled in
+ * from its clave, type and emission date. A note can cover the whole
+ * original, selected lines (optionally a partial quantity), or a fixed
+ * amount spread proportionally over those lines.
+ *
+ * @module documents/reference-notes
+ */
+
+import type {
+  DocumentTypeCode,
+  DocumentoElectronico,
+  InformacionReferencia,
+  LineaDetalle,
+} from "@dojocoding/hacienda-shared";
+import { HaciendaStatus } from "@dojocoding/hacienda-shared";
+
+import { DocumentType } from "../clave/types.js";
+import { ValidationError } from "../errors.js";
+import type { DocumentRecord, DocumentStore } from "../store/document-store.js";
+import { calculateInvoiceSummary, calculateLineItemTotals, round5 } from "../tax/calculator.js";
+import type { LineItemTaxInput } from "../tax/calculator.js";
+import { Decimal } from "../tax/decimal.js";
+import { parseDocumentXml } from "../xml/parser.js";
+import type { DocumentDraft, DraftLineItem } from "./prepare-document.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Reference reason code (e.g., "01" anula, "02" corrige texto, "04" referencia). */
+export type ReferenceCode = InformacionReferencia["codigo"];
+
+/** The document a note refers to: a ledger record or a parsed document. */
+export type ReferenceNoteSource = DocumentRecord | DocumentoElectronico;
+
+/** A line of the original document to include in a note. */
+export interface ReferenceNoteLine {
+  /** Line number in the original document. */
+  numeroLinea: number;
+  /** Quantity to include (default: the line's full quantity). */
+  cantidad?: number;
+}
+
+/** Options shared by {@link createCreditNoteFrom} and {@link createDebitNoteFrom}. */
+export interface ReferenceNoteOptions {
+  /** Reason for the note, sent as InformacionReferencia/Razon. */
+  reason: string;
+  /** Reference reason code. */
+  codigo: ReferenceCode;
+  /**
+   * Lines of the original to include. Defaults to every line (and the
+   * original's other charges), i.e. a full reversal.
+   */
+  lines?: ReferenceNoteLine[];
+  /**
+   * Total amount of the note, taxes included. The selected lines are
+   * scaled proportionally so that their total matches this amount.
+   */
+  amount?: number;
+}
+
+/** Options for {@link createCreditNoteFrom}. */
+export interface CreditNoteOptions extends ReferenceNoteOptions {
+  /**
+   * Amount of the original still open to credit. Defaults to its
+   * TotalComprobante; use {@link getOutstandingBalance} to account for
+   * earlier notes.
+   */
+  outstandingBalance?: number;
+}
+
+/** Unit of measure used for services in the original lines. */
+const SERVICE_UNIT = "Sp";
+
+/** Ledger statuses whose notes no longer affect the balance. */
+const VOID_STATUSES: readonly string[] = [HaciendaStatus.RECHAZADO, HaciendaStatus.ERROR];
+
+/** Rounding slack when comparing a note's total with the open balance. */
+const BALANCE_TOLERANCE = 0.001;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds a Nota de Crédito draft that reverses all or part of a document.
+ *
+ * @param original - The document being credited (ledger record or parsed document).
+ * @param options - Reason, reference code and the lines or amount to credit.
+ * @returns A draft for `prepareDocument`/`issueDocument` with type {@link DocumentType.NOTA_CREDITO}.
+ * @throws {ValidationError} If the original cannot be referenced, a line is
+ *   unknown or over-credited, or the note exceeds the outstanding balance.
+ *
+ * @example
+ * ```ts
+ * const original = await store.get(clave);
+ * const draft = createCreditNoteFrom(original, {
+ *   codigo: "01",
+ *   reason: "Devolución de mercadería",
+ *   lines: [{ numeroLinea: 2, cantidad: 1 }],
+ *   outstandingBalance: await getOutstandingBalance(store, original),
+ * });
+ * await client.issueDocument(DocumentType.NOTA_CREDITO, draft, { wait: true });
+ * ```
+ */
+export function createCreditNoteFrom(
+  original: ReferenceNoteSource,
+  options: CreditNoteOptions,
+): DocumentDraft {
+  const document = resolveOriginal(original);
+  const draft = buildReferenceDraft(document, options);
+
+  const balance = options.outstandingBalance ?? document.resumenFactura.totalComprobante;
+  const total = calculateDraftTotal(draft);
+  if (total - balance > BALANCE_TOLERANCE) {
+    throw new ValidationError(
+      `Credit note total ${String(total)} exceeds the outstanding balance ${String(balance)} of ${document.clave}.`,
+      [{ path: "amount", message: "Exceeds outstanding balance" }],
+    );
+  }
+
+  return draft;
+}
+
+/**
+ * Builds a Nota de Débito draft that charges again all or part of a document.
+ *
+ * @param original - The document being debited (ledger record or parsed document).
+ * @param options - Reason, reference code and the lines or amount to debit.
+ * @returns A draft for `prepareDocument`/`issueDocument` with type {@link DocumentType.NOTA_DEBITO}.
+ * @throws {ValidationError} If the original cannot be referenced or a line is unknown.
+ */
+export function createDebitNoteFrom(
+  original: ReferenceNoteSource,
+  options: ReferenceNoteOptions,
+): DocumentDraft {
+  return buildReferenceDraft(resolveOriginal(original), options);
+}
+
+/**
+ * Computes how much of a document is still open to credit.
+ *
+ * Starts from the original's TotalComprobante, subtracts the credit notes
+ * and adds the debit notes in the ledger that reference its clave.
+ * Rejected notes (and notes superseded after an error) are ignored.
+ *
+ * @param store - The document ledger holding the notes.
+ * @param original - The document being credited.
+ * @returns The outstanding balance, never below zero.
+ * @throws {ValidationError} If the original cannot be referenced.
+ */
+export async function getOutstandingBalance(
+  store: DocumentStore,
+  original: ReferenceNoteSource,
+): Promise<number> {
+  const document = resolveOriginal(original);
+  let balance = Decimal.from(document.resumenFactura.totalComprobante);
+
+  for (const documentType of [DocumentType.NOTA_CREDITO, DocumentType.NOTA_DEBITO]) {
+    for (const record of await store.list({ documentType })) {
+      if (VOID_STATUSES.includes(record.status)) continue;
+
+      const note = decodeRecord(record);
+      if (!note.informacionReferencia?.some((ref) => ref.numero === document.clave)) continue;
+
+      balance =
+        documentType === DocumentType.NOTA_CREDITO
+          ? balance.minus(record.totals.totalComprobante)
+          : balance.plus(record.totals.totalComprobante);
+    }
+  }
+
+  return Math.max(0, balance.round().toNumber());
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns the document behind a ledger record or the document itself.
+ *
+ * @throws {ValidationError} If the record was rejected or is not a comprobante.
+ */
+function resolveOriginal(source: ReferenceNoteSource): DocumentoElectronico {
+  if (!("signedXml" in source)) {
+    return source;
+  }
+
+  if (VOID_STATUSES.includes(source.status)) {
+    throw new ValidationError(
+      `Document ${source.clave} is ${source.status} and cannot be referenced by a note.`,
+    );
+  }
+  return decodeRecord(source);
+}
+
+/**
+ * Parses the signed XML stored in a ledger record.
+ *
+ * @throws {ValidationError} If the XML is not a comprobante.
+ */
+function decodeRecord(record: DocumentRecord): DocumentoElectronico {
+  const parsed = parseDocumentXml(Buffer.from(record.signedXml, "base64").toString("utf-8"));
+  if (parsed.rootElement === "MensajeReceptor") {
+    throw new ValidationError(`Document ${record.clave} is a MensajeReceptor, not a comprobante.`);
+  }
+  return parsed.document;
+}
+
+/**
+ * Builds the note draft shared by credit and debit notes.
+ *
+ * @throws {ValidationError} If the original has no receptor or a line selection is invalid.
+ */
+function buildReferenceDraft(
+  document: DocumentoElectronico,
+  options: ReferenceNoteOptions,
+): DocumentDraft {
+  if (!document.receptor) {
+    throw new ValidationError(`Document ${document.clave} has no receptor; notes require one.`, [
+      { path: "receptor", message: "Required" },
+    ]);
+  }
+  if (options.reason.trim() === "") {
+    throw new ValidationError("A reason is required for the note.", [
+      { path: "reason", message: "Required" },
+    ]);
+  }
+
+  const services = isServiceDocument(document);
+  let detalleServicio = selectLines(document, options.lines).map(([line, cantidad]) =>
+    toDraftLine(line, cantidad, services),
+  );
+  const fullReversal = options.lines === undefined && options.amount === undefined;
+
+  if (options.amount !== undefined) {
+    detalleServicio = scaleLines(detalleServicio, options.amount, document.clave);
+  }
+
+  const codigoTipoMoneda = document.resumenFactura.codigoTipoMoneda;
+  const reference: InformacionReferencia = {
+    tipoDoc: document.numeroConsecutivo.slice(8, 10) as DocumentTypeCode,
+    numero: document.clave,
+    fechaEmision: document.fechaEmision,
+    codigo: options.codigo,
+    razon: options.reason,
+  };
+
+  return {
+    codigoActividad: document.codigoActividad,
+    emisor: document.emisor,
+    receptor: document.receptor,
+    condicionVenta: document.condicionVenta,
+    ...(document.plazoCredito ? { plazoCredito: document.plazoCredito } : {}),
+    medioPago: document.medioPago,
+    detalleServicio,
+    ...(fullReversal && document.otrosCargos ? { otrosCargos: document.otrosCargos } : {}),
+    ...(codigoTipoMoneda ? { codigoTipoMoneda } : {}),
+    informacionReferencia: [reference],
+  };
+}
+
+/**
+ * Resolves the selected lines and quantities against the original.
+ *
+ * @throws {ValidationError} For unknown, duplicated or over-quantity lines.
+ */
+function selectLines(
+  document: DocumentoElectronico,
+  selection: ReferenceNoteLine[] | undefined,
+): [LineaDetalle, number][] {
+  if (selection === undefined) {
+    return document.detalleServicio.map((line) => [line, line.cantidad]);
+  }
+  if (selection.length === 0) {
+    throw new ValidationError("Select at least one line for the note.", [
+      { path: "lines", message: "Required" },
+    ]);
+  }
+
+  const seen = new Set<number>();
+  return selection.map(({ numeroLinea, cantidad }, index) => {
+    const line = document.detalleServicio.find((item) => item.numeroLinea === numeroLinea);
+    const path = `lines[${index}]`;
+    if (!line) {
+      throw new ValidationError(`Line ${numeroLinea} does not exist in ${document.clave}.`, [
+        { path, message: "Unknown line" },
+      ]);
+    }
+    if (seen.has(numeroLinea)) {
+      throw new ValidationError(`Line ${numeroLinea} is selected more than once.`, [
+        { path, message: "Duplicate line" },
+      ]);
+    }
+    seen.add(numeroLinea);
+
+    const quantity = cantidad ?? line.cantidad;
+    if (!(quantity > 0) || quantity > line.cantidad) {
+      throw new ValidationError(
+        `Quantity ${String(quantity)} for line ${numeroLinea} must be between 0 and ${String(line.cantidad)}.`,
+        [{ path: `${path}.cantidad`, message: "Out of range" }],
+      );
+    }
+    return [line, quantity];
+  });
+}
+
+/** Converts an original line into a draft line for the given quantity. */
+function toDraftLine(line: LineaDetalle, cantidad: number, services: boolean): DraftLineItem {
+  const share = cantidad / line.cantidad;
+  const impuesto = line.impuesto?.map(
+    ({ monto: _monto, exoneracion, ...tax }): LineItemTaxInput => ({
+      ...tax,
+      ...(exoneracion
+        ? {
+            exoneracion: {
+              tipoDocumento: exoneracion.tipoDocumento,
+              numeroDocumento: exoneracion.numeroDocumento,
+              nombreInstitucion: exoneracion.nombreInstitucion,
+              fechaEmision: exoneracion.fechaEmision,
+              porcentajeExoneracion: exoneracion.porcentajeExoneracion,
+            },
+          }
+        : {}),
+    }),
+  );
+
+  return {
+    codigoCabys: line.codigoCabys,
+    ...(line.codigoComercial ? { codigoComercial: line.codigoComercial } : {}),
+    cantidad,
+    unidadMedida: line.unidadMedida,
+    detalle: line.detalle,
+    precioUnitario: line.precioUnitario,
+    ...(line.descuento
+      ? {
+          descuento: line.descuento.map((d) => ({
+            ...d,
+            montoDescuento: round5(d.montoDescuento * share),
+          })),
+        }
+      : {}),
+    ...(impuesto ? { impuesto } : {}),
+    esServicio: services || line.unidadMedida === SERVICE_UNIT,
+  };
+}
+
+/**
+ * Scales line prices and discounts so the lines total `amount`.
+ *
+ * @throws {ValidationError} If the amount is not positive or a line
+ *   carries a per-unit specific tax, which does not scale with the price.
+ */
+function scaleLines(lines: DraftLineItem[], amount: number, clave: string): DraftLineItem[] {
+  if (!(amount > 0)) {
+    throw new ValidationError("The note amount must be positive.", [
+      { path: "amount", message: "Must be positive" },
+    ]);
+  }
+  if (lines.some((line) => line.impuesto?.some((tax) => tax.datosImpuestoEspecifico))) {
+    throw new ValidationError(
+      `Document ${clave} has specific taxes per unit; select lines and quantities instead of an amount.`,
+      [{ path: "amount", message: "Not supported for specific taxes" }],
+    );
+  }
+
+  const ratio = amount / calculateDraftTotal({ detalleServicio: lines });
+  return lines.map((line) => ({
+    ...line,
+    precioUnitario: round5(line.precioUnitario * ratio),
+    ...(line.descuento
+      ? {
+          descuento: line.descuento.map((d) => ({
+            ...d,
+            montoDescuento: round5(d.montoDescuento * ratio),
+          })),
+        }
+      : {}),
+  }));
+}
+
+/** Computes the TotalComprobante a draft will have once prepared. */
+function calculateDraftTotal(
+  draft: Pick<DocumentDraft, "detalleServicio" | "otrosCargos">,
+): number {
+  const items = draft.detalleServicio.map((item, index) =>
+    calculateLineItemTotals({ ...item, numeroLinea: item.numeroLinea ?? index + 1 }),
+  );
+  const otrosCargos = draft.otrosCargos
+    ? round5(draft.otrosCargos.reduce((sum, cargo) => sum + cargo.montoOtroCargo, 0))
+    : undefined;
+  return calculateInvoiceSummary(items, otrosCargos).totalComprobante;
+}
+
+/** Whether the original only reported services in its summary. */
+function isServiceDocument(document: DocumentoElectronico): boolean {
+  const summary = document.resumenFactura;
+  const services =
+    summary.totalServGravados + summary.totalServExentos + (summary.totalServExonerado ?? 0);
+  const goods =
+    summary.totalMercanciasGravadas +
+    summary.totalMercanciasExentas +
+    (summary.totalMercExonerada ?? 0);
+  return services > 0 && goods === 0;
+}
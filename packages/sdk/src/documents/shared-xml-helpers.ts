@@ -130,6 +130,25 @@ export function buildImpuestoXml(impuesto: Impuesto): Record<string, unknown> {
   }
 
   result.Tarifa = impuesto.tarifa;
+
+  if (impuesto.factorCalculoIva !== undefined) {
+    result.FactorCalculoIVA = impuesto.factorCalculoIva;
+  }
+
+  if (impuesto.datosImpuestoEspecifico) {
+    const datos = impuesto.datosImpuestoEspecifico;
+    result.DatosImpuestoEspecifico = {
+      ...(datos.cantidadUnidadMedida !== undefined
+        ? { CantidadUnidadMedida: datos.cantidadUnidadMedida }
+        : {}),
+      ...(datos.porcentaje !== undefined ? { Porcentaje: datos.porcentaje } : {}),
+      ...(datos.volumenUnidadConsumo !== undefined
+        ? { VolumenUnidadConsumo: datos.volumenUnidadConsumo }
+        : {}),
+      ImpuestoUnidad: datos.impuestoUnidad,
+    };
+  }
+
   result.Monto = impuesto.monto;
 
   if (impuesto.exoneracion) {
@@ -0,0 +1,83 @@
+/**
+ * Tests for the local file inbox.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { FileInboxStore } from "./file-inbox-store.js";
+import type { InboxEntry } from "./inbox-store.js";
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+const ENTRY: InboxEntry = {
+  clave: "50601072500031012345670010000101000000000119999999",
+  numeroConsecutivo: "00100001010000000001",
+  documentType: "01",
+  fechaEmision: "2025-07-25T10:00:00-06:00",
+  codigoActividad: "620100",
+  emisor: { nombre: "Proveedor S.A.", identificacion: { tipo: "02", numero: "3101234567" } },
+  totals: { totalVentaNeta: 100000, totalImpuesto: 13000, totalComprobante: 113000 },
+  xml: "<FacturaElectronica/>",
+  checks: [{ name: "totals", passed: true, message: "Totals are consistent." }],
+  status: "pendiente",
+  importedAt: "2025-07-26T10:00:00.000Z",
+  updatedAt: "2025-07-26T10:00:00.000Z",
+};
+
+let configDir: string;
+let store: FileInboxStore;
+
+beforeEach(async () => {
+  configDir = await mkdtemp(join(tmpdir(), "hacienda-inbox-store-test-"));
+  store = new FileInboxStore({ configDir });
+});
+
+afterEach(async () => {
+  await rm(configDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// FileInboxStore
+// ---------------------------------------------------------------------------
+
+describe("FileInboxStore", () => {
+  it("saves and reads back an entry with owner-only permissions", async () => {
+    await store.save(ENTRY);
+
+    expect(await store.get(ENTRY.clave)).toEqual(ENTRY);
+    const mode = (await stat(join(store.directory, `${ENTRY.clave}.json`))).mode & 0o777;
+    expect(mode).toBe(0o600);
+  });
+
+  it("returns undefined for an unknown clave and an empty list without a directory", async () => {
+    expect(await store.get(ENTRY.clave)).toBeUndefined();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("filters by status and supplier, most recent emission first", async () => {
+    const later: InboxEntry = {
+      ...ENTRY,
+      clave: `${ENTRY.clave.slice(0, -1)}8`,
+      fechaEmision: "2025-07-28T10:00:00-06:00",
+      emisor: { nombre: "Otro S.A.", identificacion: { tipo: "02", numero: "3101999999" } },
+      status: "aceptado",
+    };
+    await store.save(ENTRY);
+    await store.save(later);
+
+    expect((await store.list()).map((e) => e.clave)).toEqual([later.clave, ENTRY.clave]);
+    expect((await store.list({ status: "pendiente" })).map((e) => e.clave)).toEqual([ENTRY.clave]);
+    expect((await store.list({ emisorId: "3101999999" })).map((e) => e.clave)).toEqual([
+      later.clave,
+    ]);
+  });
+
+  it("rejects claves that are not 50 digits", async () => {
+    await expect(store.get("../secrets")).rejects.toThrow(/Invalid clave/);
+  });
+});
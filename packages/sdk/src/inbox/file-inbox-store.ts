@@ -0,0 +1,147 @@
+/**
+ * Local file implementation of the inbox.
+ *
+ * Each received document is persisted as one JSON file under
+ * ~/.hacienda-cr/inbox/{clave}.json, written atomically
+ * (temp file + rename) with owner-only permissions.
+ *
+ * @module inbox/file-inbox-store
+ */
+
+import { mkdir, readFile, readdir, rename, writeFile } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import { join } from "node:path";
+
+import { ensureConfigDir, getConfigDir } from "../config/config-manager.js";
+import type { InboxEntry, InboxQuery, InboxStore } from "./inbox-store.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link FileInboxStore}. */
+export interface FileInboxStoreOptions {
+  /** Override the config directory path (defaults to ~/.hacienda-cr/) */
+  configDir?: string;
+}
+
+/** Inbox directory name inside the config directory. */
+const INBOX_DIR_NAME = "inbox";
+
+/** A clave is exactly 50 digits — also guards against path traversal. */
+const CLAVE_PATTERN = /^\d{50}$/;
+
+// ---------------------------------------------------------------------------
+// FileInboxStore
+// ---------------------------------------------------------------------------
+
+/**
+ * Inbox backed by JSON files in the local config directory.
+ *
+ * @example
+ * ```ts
+ * const inbox = new ReceptorInbox(new FileInboxStore(), { receptor, sign });
+ * await inbox.importDocument(supplierXml);
+ * ```
+ */
+export class FileInboxStore implements InboxStore {
+  private readonly configDir: string | undefined;
+
+  constructor(options: FileInboxStoreOptions = {}) {
+    this.configDir = options.configDir;
+  }
+
+  /** Absolute path of the directory holding the inbox files. */
+  get directory(): string {
+    return join(getConfigDir(this.configDir), INBOX_DIR_NAME);
+  }
+
+  async save(entry: InboxEntry): Promise<void> {
+    const filePath = this.pathFor(entry.clave);
+    await ensureConfigDir(this.configDir);
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+    const tempPath = `${filePath}.${randomBytes(6).toString("hex")}.tmp`;
+    const content = JSON.stringify(entry, null, 2) + "\n";
+    await writeFile(tempPath, content, { encoding: "utf-8", mode: 0o600 });
+    await rename(tempPath, filePath);
+  }
+
+  async get(clave: string): Promise<InboxEntry | undefined> {
+    try {
+      const content = await readFile(this.pathFor(clave), "utf-8");
+      return parseEntry(content, clave);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async list(query: InboxQuery = {}): Promise<InboxEntry[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await readdir(this.directory);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: InboxEntry[] = [];
+    for (const fileName of fileNames) {
+      if (!fileName.endsWith(".json")) continue;
+      const clave = fileName.slice(0, -".json".length);
+      if (!CLAVE_PATTERN.test(clave)) continue;
+
+      const entry = await this.get(clave);
+      if (entry && matchesQuery(entry, query)) {
+        entries.push(entry);
+      }
+    }
+
+    entries.sort((a, b) => Date.parse(b.fechaEmision) - Date.parse(a.fechaEmision));
+    return entries;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal helpers
+  // -------------------------------------------------------------------------
+
+  private pathFor(clave: string): string {
+    if (!CLAVE_PATTERN.test(clave)) {
+      throw new Error(`Invalid clave: expected 50 digits, got "${clave}".`);
+    }
+    return join(this.directory, `${clave}.json`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof Error && "code" in error && (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
+
+function parseEntry(content: string, clave: string): InboxEntry {
+  const parsed = JSON.parse(content) as Partial<InboxEntry>;
+  if (parsed.clave !== clave || !Array.isArray(parsed.checks)) {
+    throw new Error(`Invalid inbox entry for clave ${clave}.`);
+  }
+  return parsed as InboxEntry;
+}
+
+function matchesQuery(entry: InboxEntry, query: InboxQuery): boolean {
+  if (query.status !== undefined && entry.status !== query.status) {
+    return false;
+  }
+  if (query.emisorId !== undefined && entry.emisor.identificacion.numero !== query.emisorId) {
+    return false;
+  }
+  return true;
+}
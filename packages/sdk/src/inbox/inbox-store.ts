@@ -0,0 +1,119 @@
+/**
+ * Inbox contract — records supplier documents received by the taxpayer
+ * and the Mensaje Receptor sent back for each one.
+ *
+ * Implement {@link InboxStore} to plug in any backend; the SDK ships a
+ * local file implementation ({@link FileInboxStore}).
+ *
+ * @module inbox/inbox-store
+ */
+
+import type {
+  HaciendaStatus,
+  Identificacion,
+  MensajeReceptorCode,
+} from "@dojocoding/hacienda-shared";
+
+import type { DocumentRecordTotals } from "../store/document-store.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Lifecycle status of a received document.
+ *
+ * `"pendiente"` means no Mensaje Receptor has been sent yet and
+ * `"firmado"` means it was signed but not delivered; the remaining values
+ * mirror {@link HaciendaStatus} for the Mensaje Receptor.
+ */
+export type InboxEntryStatus = "pendiente" | "firmado" | HaciendaStatus;
+
+/** Name of a check run when a supplier document is imported. */
+export type InboxCheckName = "signature" | "issuer" | "totals" | "receptor" | "hacienda";
+
+/** Outcome of one import check. */
+export interface InboxCheck {
+  /** Which check ran. */
+  readonly name: InboxCheckName;
+  /** Whether the check passed. */
+  readonly passed: boolean;
+  /** Human-readable explanation. */
+  readonly message: string;
+}
+
+/** The Mensaje Receptor sent for a received document. */
+export interface InboxResponse {
+  /** Receiver message code (1=accepted, 2=partial, 3=rejected). */
+  readonly mensaje: MensajeReceptorCode;
+  /** Reason given for a partial acceptance or rejection. */
+  readonly detalleMensaje?: string;
+  /** 20-digit consecutive number of the Mensaje Receptor. */
+  readonly numeroConsecutivoReceptor: string;
+  /** Emission date of the Mensaje Receptor (ISO 8601). */
+  readonly fechaEmision: string;
+  /** Base64-encoded signed Mensaje Receptor XML, as submitted. */
+  readonly signedXml: string;
+  /** Decoded Hacienda response XML (once available). */
+  readonly responseXml?: string;
+  /** Human-readable rejection reason (if Hacienda rejected the message). */
+  readonly rejectionReason?: string;
+}
+
+/** A received supplier document and its Mensaje Receptor lifecycle. */
+export interface InboxEntry {
+  /** 50-digit clave of the supplier document (unique key). */
+  readonly clave: string;
+  /** 20-digit numero consecutivo of the supplier document. */
+  readonly numeroConsecutivo: string;
+  /** Document type code (e.g., "01"). */
+  readonly documentType: string;
+  /** Emission date of the supplier document (ISO 8601). */
+  readonly fechaEmision: string;
+  /** Activity code declared on the supplier document. */
+  readonly codigoActividad: string;
+  /** Supplier summary. */
+  readonly emisor: { readonly nombre: string; readonly identificacion: Identificacion };
+  /** Receiver summary, as stated on the supplier document. */
+  readonly receptor?: { readonly nombre: string; readonly identificacion?: Identificacion };
+  /** Document totals. */
+  readonly totals: DocumentRecordTotals;
+  /** The supplier's signed XML, as imported. */
+  readonly xml: string;
+  /** Hacienda's response XML for the supplier document, if provided. */
+  readonly haciendaResponseXml?: string;
+  /** Checks run on import. */
+  readonly checks: readonly InboxCheck[];
+  /** Current lifecycle status. */
+  readonly status: InboxEntryStatus;
+  /** The Mensaje Receptor sent for this document, once signed. */
+  readonly response?: InboxResponse;
+  /** When the document was imported (ISO 8601). */
+  readonly importedAt: string;
+  /** When the entry was last updated (ISO 8601). */
+  readonly updatedAt: string;
+}
+
+/** Filters for {@link InboxStore.list}. All fields are optional. */
+export interface InboxQuery {
+  /** Only entries currently in this status. */
+  readonly status?: InboxEntryStatus;
+  /** Only documents from this supplier identification number. */
+  readonly emisorId?: string;
+}
+
+/**
+ * Storage backend for the inbox.
+ *
+ * Implementations must treat the clave as the unique key.
+ */
+export interface InboxStore {
+  /** Creates or replaces the entry for its clave. */
+  save(entry: InboxEntry): Promise<void>;
+
+  /** Returns the entry for a clave, or `undefined` if unknown. */
+  get(clave: string): Promise<InboxEntry | undefined>;
+
+  /** Lists entries matching the query, most recent emission first. */
+  list(query?: InboxQuery): Promise<InboxEntry[]>;
+}
@@ -0,0 +1,25 @@
+/**
+ * Inbox module — received supplier documents and the Mensaje Receptor
+ * workflow that answers them.
+ */
+
+export { ReceptorInbox } from "./receptor-inbox.js";
+export type {
+  ReceptorInboxOptions,
+  ImportDocumentOptions,
+  RespondOptions,
+  RefreshOptions,
+} from "./receptor-inbox.js";
+
+export { FileInboxStore } from "./file-inbox-store.js";
+export type { FileInboxStoreOptions } from "./file-inbox-store.js";
+
+export type {
+  InboxStore,
+  InboxEntry,
+  InboxEntryStatus,
+  InboxCheck,
+  InboxCheckName,
+  InboxResponse,
+  InboxQuery,
+} from "./inbox-store.js";
@@ -0,0 +1,281 @@
+/**
+ * Tests for the Mensaje Receptor inbox workflow.
+ *
+ * Supplier invoices are signed with a self-signed certificate whose
+ * subject carries the issuer's cédula, and Mensajes Receptor are
+ * submitted to the in-process Hacienda simulator.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from "vitest";
+import { execSync } from "node:child_process";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HaciendaStatus, MensajeReceptorCode } from "@dojocoding/hacienda-shared";
+
+import { SIMPLE_INVOICE } from "../__fixtures__/invoices.js";
+import { HttpClient } from "../api/http-client.js";
+import { getEnvironmentConfig } from "../auth/environment.js";
+import { TokenManager } from "../auth/token-manager.js";
+import { Environment } from "../auth/types.js";
+import { buildFacturaXml, buildMensajeReceptorXml } from "../documents/index.js";
+import { ValidationError } from "../errors.js";
+import { signXml } from "../signing/signer.js";
+import { HaciendaSimulator } from "../testing/simulator.js";
+import { parseDocumentXml } from "../xml/parser.js";
+import { FileInboxStore } from "./file-inbox-store.js";
+import { ReceptorInbox } from "./receptor-inbox.js";
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+const ENV = getEnvironmentConfig(Environment.Sandbox);
+const FAST_POLLING = { pollIntervalMs: 1, timeoutMs: 5000 };
+const RECEPTOR = SIMPLE_INVOICE.receptor?.identificacion ?? { tipo: "02", numero: "" };
+const TEST_P12_PIN = "test1234";
+
+const ACCEPTED_RESPONSE = `<MensajeHacienda><Clave>${SIMPLE_INVOICE.clave}</Clave><Mensaje>1</Mensaje></MensajeHacienda>`;
+
+let p12Buffer: Buffer | undefined;
+let supplierXml: string;
+let configDir: string;
+let simulator: HaciendaSimulator;
+let httpClient: HttpClient;
+let inbox: ReceptorInbox;
+
+beforeAll(async () => {
+  const dir = await mkdtemp(join(tmpdir(), "hacienda-inbox-cert-"));
+  const keyPath = join(dir, "test.key");
+  const certPath = join(dir, "test.crt");
+  const p12Path = join(dir, "test.p12");
+
+  try {
+    execSync(`openssl genrsa -out "${keyPath}" 2048`, { stdio: "pipe" });
+    execSync(
+      `openssl req -new -x509 -key "${keyPath}" -out "${certPath}" -days 365 ` +
+        `-subj "/CN=Empresa Test/serialNumber=CPJ-3-101-234567/C=CR"`,
+      { stdio: "pipe" },
+    );
+    try {
+      execSync(
+        `openssl pkcs12 -export -out "${p12Path}" -inkey "${keyPath}" -in "${certPath}" -passout pass:${TEST_P12_PIN} -legacy`,
+        { stdio: "pipe" },
+      );
+    } catch {
+      execSync(
+        `openssl pkcs12 -export -out "${p12Path}" -inkey "${keyPath}" -in "${certPath}" -passout pass:${TEST_P12_PIN}`,
+        { stdio: "pipe" },
+      );
+    }
+
+    p12Buffer = await readFile(p12Path);
+    supplierXml = await signXml(buildFacturaXml(SIMPLE_INVOICE), p12Buffer, TEST_P12_PIN);
+  } catch (error) {
+    console.warn("openssl not available, inbox tests will be skipped:", error);
+  }
+
+  return () => rm(dir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  configDir = await mkdtemp(join(tmpdir(), "hacienda-inbox-test-"));
+  simulator = new HaciendaSimulator();
+
+  const tokenManager = new TokenManager({ envConfig: ENV, fetchFn: simulator.fetch });
+  await tokenManager.authenticate({ username: "cpj-3-109-876543", password: "secret" });
+  httpClient = new HttpClient({
+    envConfig: ENV,
+    tokenManager,
+    fetchFn: simulator.fetch,
+    rateLimiterOptions: false,
+  });
+
+  inbox = new ReceptorInbox(new FileInboxStore({ configDir }), {
+    receptor: RECEPTOR,
+    sign: (xml) => signXml(xml, p12Buffer ?? Buffer.alloc(0), TEST_P12_PIN),
+    configDir,
+  });
+});
+
+afterEach(async () => {
+  await rm(configDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// importDocument
+// ---------------------------------------------------------------------------
+
+describe("ReceptorInbox.importDocument", () => {
+  it("records a genuine supplier invoice with every check passed", async () => {
+    if (!p12Buffer) return;
+
+    const entry = await inbox.importDocument(supplierXml, { responseXml: ACCEPTED_RESPONSE });
+
+    expect(entry).toMatchObject({
+      clave: SIMPLE_INVOICE.clave,
+      documentType: "01",
+      status: "pendiente",
+      totals: { totalImpuesto: 13000, totalComprobante: 113000 },
+    });
+    expect(entry.checks.map((check) => [check.name, check.passed])).toEqual([
+      ["signature", true],
+      ["issuer", true],
+      ["totals", true],
+      ["receptor", true],
+      ["hacienda", true],
+    ]);
+  });
+
+  it("flags a document not signed by its issuer", async () => {
+    if (!p12Buffer) return;
+
+    const foreign = {
+      ...SIMPLE_INVOICE,
+      emisor: {
+        ...SIMPLE_INVOICE.emisor,
+        identificacion: { tipo: "02" as const, numero: "3101999999" },
+      },
+    };
+    const xml = await signXml(buildFacturaXml(foreign), p12Buffer, TEST_P12_PIN);
+
+    const entry = await inbox.importDocument(xml);
+
+    const issuer = entry.checks.find((check) => check.name === "issuer");
+    expect(issuer).toMatchObject({ passed: false });
+    expect(issuer?.message).toContain("3101999999");
+  });
+
+  it("flags inconsistent totals and unsigned documents", async () => {
+    const tampered = {
+      ...SIMPLE_INVOICE,
+      resumenFactura: { ...SIMPLE_INVOICE.resumenFactura, totalComprobante: 999 },
+    };
+
+    const entry = await inbox.importDocument(buildFacturaXml(tampered));
+
+    const failed = entry.checks.filter((check) => !check.passed).map((check) => check.name);
+    expect(failed).toEqual(["signature", "issuer", "totals"]);
+  });
+
+  it("flags a document Hacienda rejected", async () => {
+    if (!p12Buffer) return;
+
+    const rejected = `<MensajeHacienda><Clave>${SIMPLE_INVOICE.clave}</Clave><Mensaje>3</Mensaje><DetalleMensaje>Comprobante rechazado</DetalleMensaje></MensajeHacienda>`;
+    const entry = await inbox.importDocument(supplierXml, { responseXml: rejected });
+
+    const hacienda = entry.checks.find((check) => check.name === "hacienda");
+    expect(hacienda?.passed).toBe(false);
+    expect(hacienda?.message).toContain("Comprobante rechazado");
+  });
+
+  it("refuses to import a MensajeReceptor", async () => {
+    const xml = buildMensajeReceptorXml({
+      clave: SIMPLE_INVOICE.clave,
+      numeroCedulaEmisor: "3101234567",
+      fechaEmisionDoc: "2025-07-27T10:30:00-06:00",
+      mensaje: MensajeReceptorCode.ACEPTADO,
+      totalFactura: 113000,
+      numeroCedulaReceptor: "3109876543",
+      numeroConsecutivoReceptor: "00100001050000000001",
+    });
+
+    await expect(inbox.importDocument(xml)).rejects.toThrow(ValidationError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// respond / refresh
+// ---------------------------------------------------------------------------
+
+describe("ReceptorInbox.respond", () => {
+  it("signs, submits and tracks an acceptance filled from the invoice", async () => {
+    if (!p12Buffer) return;
+    await inbox.importDocument(supplierXml);
+
+    const entry = await inbox.respond(httpClient, SIMPLE_INVOICE.clave, {
+      mensaje: MensajeReceptorCode.ACEPTADO,
+      wait: FAST_POLLING,
+    });
+
+    expect(entry.status).toBe(HaciendaStatus.ACEPTADO);
+    expect(entry.response?.numeroConsecutivoReceptor).toBe("00100001050000000001");
+
+    const submitted = simulator.getDocument(`${SIMPLE_INVOICE.clave}-00100001050000000001`);
+    expect(submitted?.request.receptor?.numeroIdentificacion).toBe("3109876543");
+    const parsed = submitted?.xml ? parseDocumentXml(submitted.xml) : undefined;
+    expect(parsed?.signed).toBe(true);
+    expect(parsed?.document).toMatchObject({
+      mensaje: "1",
+      montoTotalImpuesto: 13000,
+      codigoActividad: "620100",
+      condicionImpuesto: "01",
+      totalFactura: 113000,
+    });
+  });
+
+  it("rejects acceptance when import checks failed unless forced", async () => {
+    await inbox.importDocument(buildFacturaXml(SIMPLE_INVOICE));
+
+    await expect(
+      inbox.respond(httpClient, SIMPLE_INVOICE.clave, { mensaje: MensajeReceptorCode.ACEPTADO }),
+    ).rejects.toThrow(/import check\(s\) failed/);
+  });
+
+  it("allows a rejection with a reason and numbers it as type 07", async () => {
+    if (!p12Buffer) return;
+    await inbox.importDocument(supplierXml);
+
+    await expect(
+      inbox.respond(httpClient, SIMPLE_INVOICE.clave, { mensaje: MensajeReceptorCode.RECHAZADO }),
+    ).rejects.toThrow(/detalleMensaje is required/);
+
+    const entry = await inbox.respond(httpClient, SIMPLE_INVOICE.clave, {
+      mensaje: MensajeReceptorCode.RECHAZADO,
+      detalleMensaje: "Mercadería no recibida",
+    });
+
+    expect(entry.status).toBe(HaciendaStatus.RECIBIDO);
+    expect(entry.response?.numeroConsecutivoReceptor).toBe("00100001070000000001");
+  });
+
+  it("refuses to answer a document twice", async () => {
+    if (!p12Buffer) return;
+    await inbox.importDocument(supplierXml);
+    await inbox.respond(httpClient, SIMPLE_INVOICE.clave, {
+      mensaje: MensajeReceptorCode.ACEPTADO,
+    });
+
+    await expect(
+      inbox.respond(httpClient, SIMPLE_INVOICE.clave, { mensaje: MensajeReceptorCode.ACEPTADO }),
+    ).rejects.toThrow(/already answered/);
+    await expect(inbox.importDocument(supplierXml)).rejects.toThrow(/already answered/);
+  });
+
+  it("keeps an undelivered message signed and delivers it on refresh", async () => {
+    if (!p12Buffer) return;
+    await inbox.importDocument(supplierXml);
+
+    const tokenManager = new TokenManager({ envConfig: ENV, fetchFn: simulator.fetch });
+    await tokenManager.authenticate({ username: "u", password: "p" });
+    const offline = new HttpClient({
+      envConfig: ENV,
+      tokenManager,
+      fetchFn: (input, init) =>
+        init?.method === "POST"
+          ? Promise.resolve(new Response("Bad request", { status: 400 }))
+          : simulator.fetch(input, init),
+      rateLimiterOptions: false,
+    });
+
+    await expect(
+      inbox.respond(offline, SIMPLE_INVOICE.clave, { mensaje: MensajeReceptorCode.ACEPTADO }),
+    ).rejects.toThrow();
+    expect((await inbox.getEntry(SIMPLE_INVOICE.clave)).status).toBe("firmado");
+
+    const entry = await inbox.refresh(httpClient, SIMPLE_INVOICE.clave, { wait: FAST_POLLING });
+
+    expect(entry.status).toBe(HaciendaStatus.ACEPTADO);
+    expect(simulator.listDocuments()).toHaveLength(1);
+  });
+});
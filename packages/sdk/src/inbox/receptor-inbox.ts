@@ -0,0 +1,585 @@
+/**
+ * Mensaje Receptor workflow for documents received from suppliers.
+ *
+ * A receiver must answer every electronic document it gets with a
+ * Mensaje Receptor — accepting it totally or partially, or rejecting
+ * it — before the VAT can be credited. {@link ReceptorInbox} imports the
+ * supplier's signed XML, checks it (signature, issuer, totals, receptor
+ * and, if available, Hacienda's verdict), then builds, numbers, signs and
+ * submits the Mensaje Receptor and tracks its outcome in an
+ * {@link InboxStore}.
+ *
+ * @module inbox/receptor-inbox
+ */
+
+import { HaciendaStatus, MensajeReceptorCode } from "@dojocoding/hacienda-shared";
+import type {
+  DocumentoElectronico,
+  Identificacion,
+  MensajeReceptor,
+  SubmissionRequest,
+} from "@dojocoding/hacienda-shared";
+
+import type { HttpClient } from "../api/http-client.js";
+import { waitForTerminalStatus } from "../api/orchestrator.js";
+import type { SubmitAndWaitOptions, SubmitAndWaitResult } from "../api/orchestrator.js";
+import { extractRejectionReason } from "../api/mensaje-hacienda.js";
+import { getRecepcionKey, getStatus, isTerminalStatus, submitDocument } from "../api/submission.js";
+import { DocumentType } from "../clave/types.js";
+import { FileSequenceBackend } from "../config/file-sequence-backend.js";
+import { withSequence } from "../config/sequence-backend.js";
+import type { SequenceBackend } from "../config/sequence-backend.js";
+import { buildSequenceKey } from "../config/sequence-store.js";
+import { DEFAULT_BRANCH, DEFAULT_POS } from "../config/types.js";
+import { buildMensajeReceptorXml } from "../documents/mensaje-receptor-builder.js";
+import { formatFechaEmision } from "../documents/prepare-document.js";
+import { ApiError, ValidationError } from "../errors.js";
+import { verifyXmlSignature } from "../signing/verifier.js";
+import { parseDocumentXml } from "../xml/parser.js";
+import { validateDocumentInput, validateMensajeReceptorInput } from "../xml/validator.js";
+import type { InboxCheck, InboxEntry, InboxEntryStatus, InboxStore } from "./inbox-store.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link ReceptorInbox}. */
+export interface ReceptorInboxOptions {
+  /** Identification of the receiving taxpayer (the one answering). */
+  readonly receptor: Identificacion;
+  /** Signs an XML document with the receiver's certificate and returns the signed XML. */
+  readonly sign: (xml: string) => Promise<string>;
+  /** Branch/sucursal code for the Mensaje Receptor consecutivo (default: "001"). */
+  readonly branch?: string;
+  /** Point-of-sale code for the Mensaje Receptor consecutivo (default: "00001"). */
+  readonly pos?: string;
+  /** Backend that numbers the Mensajes Receptor (default: the local file store). */
+  readonly sequenceBackend?: SequenceBackend;
+  /** Override the config directory used by the default sequence backend. */
+  readonly configDir?: string;
+  /** Clock used for timestamps and emission dates (defaults to `() => new Date()`). */
+  readonly now?: () => Date;
+}
+
+/** Options for {@link ReceptorInbox.importDocument}. */
+export interface ImportDocumentOptions {
+  /** Hacienda's response XML (MensajeHacienda) for the supplier document. */
+  readonly responseXml?: string;
+}
+
+/** Options for {@link ReceptorInbox.respond}. */
+export interface RespondOptions {
+  /** Receiver message code (1=accepted, 2=partial, 3=rejected). */
+  readonly mensaje: MensajeReceptorCode;
+  /** Reason for a partial acceptance or rejection (required for both). */
+  readonly detalleMensaje?: string;
+  /**
+   * Tax condition declared on the message. Defaults to "01" (general VAT
+   * credit) when accepting a document that carries tax.
+   */
+  readonly condicionImpuesto?: string;
+  /** Activity code declared on the message (default: the supplier document's). */
+  readonly codigoActividad?: string;
+  /** Tax amount declared on the message (default: the document's total tax). */
+  readonly montoTotalImpuesto?: number;
+  /** Accept even though some import checks failed. */
+  readonly force?: boolean;
+  /** Poll until Hacienda answers the message (pass options to tune polling). */
+  readonly wait?: boolean | SubmitAndWaitOptions;
+}
+
+/** Options for {@link ReceptorInbox.refresh}. */
+export interface RefreshOptions {
+  /** Poll until Hacienda answers the message (pass options to tune polling). */
+  readonly wait?: boolean | SubmitAndWaitOptions;
+}
+
+/** Consecutivo document type for each receiver message code. */
+const MENSAJE_DOCUMENT_TYPES: Record<MensajeReceptorCode, DocumentType> = {
+  [MensajeReceptorCode.ACEPTADO]: DocumentType.CONFIRMACION_ACEPTACION,
+  [MensajeReceptorCode.ACEPTADO_PARCIALMENTE]: DocumentType.CONFIRMACION_ACEPTACION_PARCIAL,
+  [MensajeReceptorCode.RECHAZADO]: DocumentType.CONFIRMACION_RECHAZO,
+};
+
+/** Tax condition "General Crédito IVA". */
+const DEFAULT_CONDICION_IMPUESTO = "01";
+
+// ---------------------------------------------------------------------------
+// ReceptorInbox
+// ---------------------------------------------------------------------------
+
+/**
+ * Imports supplier documents and answers them with a Mensaje Receptor.
+ *
+ * @example
+ * ```ts
+ * const inbox = new ReceptorInbox(new FileInboxStore(), {
+ *   receptor: { tipo: "02", numero: "3101234567" },
+ *   sign: (xml) => signXml(xml, p12Buffer, pin),
+ * });
+ *
+ * const entry = await inbox.importDocument(supplierXml, { responseXml });
+ * if (entry.checks.every((check) => check.passed)) {
+ *   await inbox.respond(httpClient, entry.clave, { mensaje: "1", wait: true });
+ * }
+ * ```
+ */
+export class ReceptorInbox {
+  private readonly store: InboxStore;
+  private readonly options: ReceptorInboxOptions;
+  private readonly now: () => Date;
+
+  constructor(store: InboxStore, options: ReceptorInboxOptions) {
+    this.store = store;
+    this.options = options;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Imports a supplier's signed document and runs the import checks.
+   *
+   * Failed checks do not prevent the import; they are recorded on the
+   * entry and block acceptance (see {@link respond}). Re-importing a
+   * document that has not been answered yet replaces its entry, e.g. to
+   * add Hacienda's response XML.
+   *
+   * @param xml - The supplier's signed XML.
+   * @param options - Optional Hacienda response XML.
+   * @returns The stored inbox entry.
+   * @throws {ValidationError} If the XML is malformed, is a Mensaje Receptor,
+   *   or the document was already answered.
+   */
+  async importDocument(xml: string, options: ImportDocumentOptions = {}): Promise<InboxEntry> {
+    const parsed = parseDocumentXml(xml);
+    if (parsed.rootElement === "MensajeReceptor") {
+      throw new ValidationError("A MensajeReceptor cannot be imported into the inbox.");
+    }
+
+    const document: DocumentoElectronico = parsed.document;
+    const existing = await this.store.get(document.clave);
+    if (existing && existing.status !== "pendiente") {
+      throw new ValidationError(
+        `Document ${document.clave} was already answered (status: ${existing.status}).`,
+      );
+    }
+
+    const documentType = document.numeroConsecutivo.slice(8, 10);
+    const checks: InboxCheck[] = [
+      ...(await checkSignature(xml, document)),
+      checkTotals(documentType, document),
+      checkReceptor(document, this.options.receptor),
+      ...(options.responseXml ? [checkHaciendaResponse(options.responseXml, document.clave)] : []),
+    ];
+
+    const { resumenFactura, receptor } = document;
+    const codigoMoneda = resumenFactura.codigoTipoMoneda?.codigoMoneda;
+    const timestamp = this.now().toISOString();
+
+    const entry: InboxEntry = {
+      clave: document.clave,
+      numeroConsecutivo: document.numeroConsecutivo,
+      documentType,
+      fechaEmision: document.fechaEmision,
+      codigoActividad: document.codigoActividad,
+      emisor: {
+        nombre: document.emisor.nombre,
+        identificacion: document.emisor.identificacion,
+      },
+      ...(receptor
+        ? {
+            receptor: {
+              nombre: receptor.nombre,
+              ...(receptor.identificacion ? { identificacion: receptor.identificacion } : {}),
+            },
+          }
+        : {}),
+      totals: {
+        totalVentaNeta: resumenFactura.totalVentaNeta,
+        totalImpuesto: resumenFactura.totalImpuesto,
+        totalComprobante: resumenFactura.totalComprobante,
+        ...(codigoMoneda ? { codigoMoneda } : {}),
+      },
+      xml,
+      ...(options.responseXml ? { haciendaResponseXml: options.responseXml } : {}),
+      checks,
+      status: "pendiente",
+      importedAt: existing?.importedAt ?? timestamp,
+      updatedAt: timestamp,
+    };
+
+    await this.store.save(entry);
+    return entry;
+  }
+
+  /**
+   * Answers an imported document with a Mensaje Receptor.
+   *
+   * Fills `montoTotalImpuesto`, `codigoActividad` and `condicionImpuesto`
+   * from the imported document unless overridden, allocates the next
+   * consecutivo for the message type (05, 06 or 07), signs the message
+   * and submits it. The entry is saved as `"firmado"` before submission,
+   * so a failed delivery can be retried with {@link refresh}.
+   *
+   * A document can be answered again only after Hacienda rejected the
+   * previous message.
+   *
+   * @param httpClient - The authenticated HTTP client.
+   * @param clave - Clave of the imported document.
+   * @param options - Message code, reason, overrides and polling settings.
+   * @returns The updated inbox entry.
+   * @throws {ValidationError} If the document is unknown or already answered,
+   *   checks failed on an acceptance without `force`, or the message is invalid.
+   * @throws {ApiError} If submission fails or polling times out.
+   */
+  async respond(
+    httpClient: HttpClient,
+    clave: string,
+    options: RespondOptions,
+  ): Promise<InboxEntry> {
+    const entry = await this.getEntry(clave);
+    if (entry.status !== "pendiente" && entry.status !== HaciendaStatus.RECHAZADO) {
+      throw new ValidationError(
+        `Document ${clave} was already answered (status: ${entry.status}). ` +
+          `Use refresh to track the Mensaje Receptor.`,
+      );
+    }
+
+    const failed = entry.checks.filter((check) => !check.passed);
+    if (options.mensaje !== MensajeReceptorCode.RECHAZADO && failed.length > 0 && !options.force) {
+      throw new ValidationError(
+        `Cannot accept document ${clave}: ${String(failed.length)} import check(s) failed.`,
+        failed.map((check) => ({ path: check.name, message: check.message })),
+      );
+    }
+
+    const date = this.now();
+    const branch = this.options.branch ?? DEFAULT_BRANCH;
+    const pos = this.options.pos ?? DEFAULT_POS;
+    const documentType = MENSAJE_DOCUMENT_TYPES[options.mensaje];
+    const message = buildMessage(entry, this.options.receptor, options, date);
+
+    // Validate with a placeholder consecutivo so no number is burned on invalid input
+    const validation = validateMensajeReceptorInput({
+      ...message,
+      numeroConsecutivoReceptor: `${branch}${pos}${documentType}${"0".repeat(10)}`,
+    });
+    if (!validation.valid) {
+      throw new ValidationError(
+        `Invalid Mensaje Receptor for ${clave}: ${validation.errors.map((e) => e.message).join("; ")}`,
+        validation.errors,
+      );
+    }
+
+    // The number is only committed once the message is signed and saved
+    const backend =
+      this.options.sequenceBackend ??
+      new FileSequenceBackend({ configDir: this.options.configDir });
+    const signed = await withSequence(
+      backend,
+      buildSequenceKey(documentType, branch, pos),
+      async (sequence) => {
+        const numeroConsecutivoReceptor = `${branch}${pos}${documentType}${String(sequence).padStart(10, "0")}`;
+        const signedXml = await this.options.sign(
+          buildMensajeReceptorXml({ ...message, numeroConsecutivoReceptor }),
+        );
+        const next: InboxEntry = {
+          ...entry,
+          status: "firmado",
+          response: {
+            mensaje: options.mensaje,
+            ...(message.detalleMensaje ? { detalleMensaje: message.detalleMensaje } : {}),
+            numeroConsecutivoReceptor,
+            fechaEmision: message.fechaEmisionDoc,
+            signedXml: Buffer.from(signedXml, "utf-8").toString("base64"),
+          },
+          updatedAt: date.toISOString(),
+        };
+        await this.store.save(next);
+        return next;
+      },
+    );
+
+    return this.deliver(httpClient, signed, options.wait);
+  }
+
+  /**
+   * Updates the Mensaje Receptor status of an answered document.
+   *
+   * A message that was signed but not delivered is submitted again
+   * (idempotently). Otherwise the status is polled once, or until a
+   * terminal status with `wait`.
+   *
+   * @param httpClient - The authenticated HTTP client.
+   * @param clave - Clave of the imported document.
+   * @param options - Polling settings.
+   * @returns The updated inbox entry.
+   * @throws {ValidationError} If the document is unknown or was not answered.
+   * @throws {ApiError} If a request fails or polling times out.
+   */
+  async refresh(
+    httpClient: HttpClient,
+    clave: string,
+    options: RefreshOptions = {},
+  ): Promise<InboxEntry> {
+    const entry = await this.getEntry(clave);
+    if (!entry.response) {
+      throw new ValidationError(`Document ${clave} has not been answered yet.`);
+    }
+
+    if (entry.status === "firmado") {
+      return this.deliver(httpClient, entry, options.wait);
+    }
+    if (isTerminalStatus(entry.status as HaciendaStatus)) {
+      return entry;
+    }
+
+    const key = getRecepcionKey(this.buildRequest(entry));
+    if (options.wait) {
+      const result = await waitForTerminalStatus(
+        httpClient,
+        key,
+        options.wait === true ? undefined : options.wait,
+      );
+      return this.record(entry, result.status, result);
+    }
+
+    try {
+      const status = await getStatus(httpClient, key);
+      return this.record(entry, status.status, {
+        responseXml: status.responseXml,
+        rejectionReason:
+          status.status === HaciendaStatus.RECHAZADO && status.responseXml
+            ? extractRejectionReason(status.responseXml)
+            : undefined,
+      });
+    } catch (error) {
+      // 404 means Hacienda has not indexed the message yet
+      if (error instanceof ApiError && error.statusCode === 404) {
+        return entry;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the entry for a clave.
+   *
+   * @throws {ValidationError} If the document was never imported.
+   */
+  async getEntry(clave: string): Promise<InboxEntry> {
+    const entry = await this.store.get(clave);
+    if (!entry) {
+      throw new ValidationError(`Document ${clave} is not in the inbox.`);
+    }
+    return entry;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal helpers
+  // -------------------------------------------------------------------------
+
+  /** Submits a signed message and records the outcome. */
+  private async deliver(
+    httpClient: HttpClient,
+    entry: InboxEntry,
+    wait: boolean | SubmitAndWaitOptions | undefined,
+  ): Promise<InboxEntry> {
+    const request = this.buildRequest(entry);
+    await submitDocument(httpClient, request, { idempotent: true });
+
+    if (!wait) {
+      return this.record(entry, HaciendaStatus.RECIBIDO, {});
+    }
+
+    const result = await waitForTerminalStatus(
+      httpClient,
+      getRecepcionKey(request),
+      wait === true ? undefined : wait,
+    );
+    return this.record(entry, result.status, result);
+  }
+
+  /** Builds the POST /recepcion payload for an entry's signed message. */
+  private buildRequest(entry: InboxEntry): SubmissionRequest {
+    const response = entry.response;
+    if (!response) {
+      throw new ValidationError(`Document ${entry.clave} has not been answered yet.`);
+    }
+
+    return {
+      clave: entry.clave,
+      fecha: response.fechaEmision,
+      emisor: {
+        tipoIdentificacion: entry.emisor.identificacion.tipo,
+        numeroIdentificacion: entry.emisor.identificacion.numero,
+      },
+      receptor: {
+        tipoIdentificacion: this.options.receptor.tipo,
+        numeroIdentificacion: this.options.receptor.numero,
+      },
+      comprobanteXml: response.signedXml,
+      consecutivoReceptor: response.numeroConsecutivoReceptor,
+    };
+  }
+
+  /** Saves a status change for an entry's message. */
+  private async record(
+    entry: InboxEntry,
+    status: InboxEntryStatus,
+    result: Pick<Partial<SubmitAndWaitResult>, "responseXml" | "rejectionReason">,
+  ): Promise<InboxEntry> {
+    const response = entry.response && {
+      ...entry.response,
+      ...(result.responseXml !== undefined ? { responseXml: result.responseXml } : {}),
+      ...(result.rejectionReason !== undefined ? { rejectionReason: result.rejectionReason } : {}),
+    };
+    const updated: InboxEntry = {
+      ...entry,
+      status,
+      ...(response ? { response } : {}),
+      updatedAt: this.now().toISOString(),
+    };
+
+    await this.store.save(updated);
+    return updated;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds the Mensaje Receptor for an entry, without its consecutivo.
+ */
+function buildMessage(
+  entry: InboxEntry,
+  receptor: Identificacion,
+  options: RespondOptions,
+  date: Date,
+): Omit<MensajeReceptor, "numeroConsecutivoReceptor"> {
+  const { totalImpuesto, totalComprobante } = entry.totals;
+  const accepting = options.mensaje !== MensajeReceptorCode.RECHAZADO;
+  const condicionImpuesto =
+    options.condicionImpuesto ??
+    (accepting && totalImpuesto > 0 ? DEFAULT_CONDICION_IMPUESTO : undefined);
+  const montoTotalImpuesto =
+    options.montoTotalImpuesto ?? (totalImpuesto > 0 ? totalImpuesto : undefined);
+
+  return {
+    clave: entry.clave,
+    numeroCedulaEmisor: entry.emisor.identificacion.numero,
+    fechaEmisionDoc: formatFechaEmision(date),
+    mensaje: options.mensaje,
+    ...(options.detalleMensaje ? { detalleMensaje: options.detalleMensaje } : {}),
+    ...(montoTotalImpuesto !== undefined ? { montoTotalImpuesto } : {}),
+    codigoActividad: options.codigoActividad ?? entry.codigoActividad,
+    ...(condicionImpuesto ? { condicionImpuesto } : {}),
+    totalFactura: totalComprobante,
+    numeroCedulaReceptor: receptor.numero,
+  };
+}
+
+/** Verifies the signature and that the signing certificate belongs to the issuer. */
+async function checkSignature(xml: string, document: DocumentoElectronico): Promise<InboxCheck[]> {
+  const report = await verifyXmlSignature(xml);
+
+  if (!report.signed) {
+    return [
+      { name: "signature", passed: false, message: "Document is not signed." },
+      { name: "issuer", passed: false, message: "No signing certificate to identify the issuer." },
+    ];
+  }
+
+  const failures = Object.values(report.checks)
+    .filter((check) => !check.passed)
+    .map((check) => check.message);
+  const signature: InboxCheck = report.valid
+    ? { name: "signature", passed: true, message: "Signature is valid." }
+    : { name: "signature", passed: false, message: failures.join(" ") };
+
+  const issuerId = document.emisor.identificacion.numero;
+  const cedula = report.certificate?.cedula;
+  let issuer: InboxCheck;
+  if (!cedula) {
+    issuer = {
+      name: "issuer",
+      passed: false,
+      message: "Signing certificate carries no cédula to compare with the issuer.",
+    };
+  } else if (normalizeCedula(cedula) !== normalizeCedula(issuerId)) {
+    issuer = {
+      name: "issuer",
+      passed: false,
+      message: `Document was signed by ${cedula}, not by the issuer ${issuerId}.`,
+    };
+  } else {
+    issuer = { name: "issuer", passed: true, message: `Signed by the issuer ${issuerId}.` };
+  }
+
+  return [signature, issuer];
+}
+
+/** Checks the document's line and summary totals. */
+function checkTotals(documentType: string, document: DocumentoElectronico): InboxCheck {
+  if (!Object.values(DocumentType).includes(documentType as DocumentType)) {
+    return {
+      name: "totals",
+      passed: false,
+      message: `Unknown document type ${documentType} in numeroConsecutivo.`,
+    };
+  }
+
+  const result = validateDocumentInput(documentType as DocumentType, document);
+  return result.valid
+    ? { name: "totals", passed: true, message: "Totals are consistent." }
+    : {
+        name: "totals",
+        passed: false,
+        message: result.errors.map((error) => `${error.path}: ${error.message}`).join("; "),
+      };
+}
+
+/** Checks that the document was issued to the receiving taxpayer. */
+function checkReceptor(document: DocumentoElectronico, receptor: Identificacion): InboxCheck {
+  const receptorId = document.receptor?.identificacion?.numero;
+  if (!receptorId) {
+    return { name: "receptor", passed: false, message: "Document has no receptor identification." };
+  }
+  if (normalizeCedula(receptorId) !== normalizeCedula(receptor.numero)) {
+    return {
+      name: "receptor",
+      passed: false,
+      message: `Document was issued to ${receptorId}, not to ${receptor.numero}.`,
+    };
+  }
+  return { name: "receptor", passed: true, message: `Issued to ${receptor.numero}.` };
+}
+
+/** Checks Hacienda's verdict on the supplier document. */
+function checkHaciendaResponse(responseXml: string, clave: string): InboxCheck {
+  const responseClave = /<Clave>(\d+)<\/Clave>/.exec(responseXml)?.[1];
+  const mensaje = /<Mensaje>(\d)<\/Mensaje>/.exec(responseXml)?.[1];
+
+  if (responseClave !== clave) {
+    return {
+      name: "hacienda",
+      passed: false,
+      message: `Hacienda response is for clave ${responseClave ?? "(none)"}, not ${clave}.`,
+    };
+  }
+  // MensajeHacienda: 1 = aceptado, 3 = rechazado
+  if (mensaje !== "1") {
+    const reason = extractRejectionReason(responseXml);
+    return {
+      name: "hacienda",
+      passed: false,
+      message: `Hacienda did not accept the document${reason ? `: ${reason}` : "."}`,
+    };
+  }
+  return { name: "hacienda", passed: true, message: "Hacienda accepted the document." };
+}
+
+function normalizeCedula(cedula: string): string {
+  return cedula.replace(/\D/g, "").replace(/^0+/, "");
+}
@@ -12,7 +12,7 @@ export const PACKAGE_NAME = "@dojocoding/hacienda-sdk" as const;
 // ---------------------------------------------------------------------------
 
 export { HaciendaClient, HaciendaClientOptionsSchema } from "./client.js";
-export type { HaciendaClientOptions } from "./client.js";
+export type { HaciendaClientOptions, IssueDocumentOptions, IssueDocumentResult } from "./client.js";
 
 // ---------------------------------------------------------------------------
 // Bootstrap — convenience auth helper for CLI / MCP consumers
@@ -21,6 +21,13 @@ export type { HaciendaClientOptions } from "./client.js";
 export { bootstrapClient } from "./bootstrap.js";
 export type { BootstrapResult, BootstrapOptions } from "./bootstrap.js";
 
+// ---------------------------------------------------------------------------
+// Tenants — one client per taxpayer for multi-tenant issuers
+// ---------------------------------------------------------------------------
+
+export { TenantRegistry, profileTenantResolver } from "./tenants/index.js";
+export type { TenantRegistryOptions, TenantResolver, TenantRoutable } from "./tenants/index.js";
+
 // ---------------------------------------------------------------------------
 // SDK error hierarchy
 // ---------------------------------------------------------------------------
@@ -86,14 +93,36 @@ export {
   loadConfig,
   saveConfig,
   listProfiles,
+  loadProfiles,
   deleteProfile,
+  // Credential vault
+  getVaultPath,
+  vaultExists,
+  loadProfileSecrets,
+  saveProfileSecrets,
+  deleteProfileSecrets,
+  resolveVaultPassphrase,
+  SecretVaultError,
   // Sequence store
   buildSequenceKey,
   getSequencesPath,
   getNextSequence,
   getCurrentSequence,
   resetSequence,
+  listSequences,
   SequenceOverflowError,
+  // Sequence audit
+  auditSequences,
+  setSequence,
+  readSequenceAuditLog,
+  getSequenceAuditLogPath,
+  // Sequence backends
+  TransactionalSequenceBackend,
+  FileSequenceBackend,
+  SqliteSequenceBackend,
+  SequenceReservationError,
+  emptySequenceState,
+  withSequence,
   // Schemas and constants
   EnvironmentSchema,
   CedulaTypeSchema,
@@ -111,16 +140,51 @@ export {
   type ResolvedConfig,
   type SequenceFile,
   type ConfigManagerOptions,
+  type ProfileSecrets,
+  type SecretVaultOptions,
   type SequenceStoreOptions,
+  type SequenceBackend,
+  type SequenceBackendOptions,
+  type SequenceKeyState,
+  type SequenceReservation,
+  type SequenceResetResult,
+  type SequenceStateAdapter,
+  type SequenceStateUpdate,
+  type FileSequenceBackendOptions,
+  type SqliteSequenceBackendOptions,
+  type SequencedDocument,
+  type SequenceGap,
+  type SequenceDuplicate,
+  type SequenceKeyAudit,
+  type SequenceAuditReport,
+  type SequenceAuditOptions,
+  type SequenceAuditEntry,
+  type SequenceAuditStatus,
+  type SetSequenceOptions,
 } from "./config/index.js";
 
-// XML module — XML generation and validation
+// XML module — XML generation, parsing and validation
 export {
   buildXml,
+  parseDocumentXml,
   getNamespaceUri,
   getSchemaFragment,
   validateFacturaInput,
+  validateTiqueteInput,
+  validateNotaCreditoInput,
+  validateNotaDebitoInput,
+  validateFacturaCompraInput,
+  validateFacturaExportacionInput,
+  validateReciboPagoInput,
+  validateMensajeReceptorInput,
+  validateDocumentInput,
   type BuildXmlOptions,
+  type ParsedDocument,
+  type DocumentRootElement,
+  type XmlParseIssue,
+  type DocumentValidationError,
+  type DocumentValidationResult,
+  type DocumentValidationOptions,
   type FacturaValidationError,
   type FacturaValidationResult,
 } from "./xml/index.js";
@@ -146,8 +210,196 @@ export {
   buildFacturaExportacionXml,
   buildReciboPagoXml,
   buildMensajeReceptorXml,
+  prepareDocument,
+  isIssuableDocumentType,
+  formatFechaEmision,
+  type IssuableDocumentType,
+  type DraftLineItem,
+  type DocumentDraft,
+  type PrepareDocumentOptions,
+  type PreparedDocument,
+  createCreditNoteFrom,
+  createDebitNoteFrom,
+  getOutstandingBalance,
+  type ReferenceCode,
+  type ReferenceNoteSource,
+  type ReferenceNoteLine,
+  type ReferenceNoteOptions,
+  type CreditNoteOptions,
 } from "./documents/index.js";
 
+// ---------------------------------------------------------------------------
+// Store module — local ledger of issued documents
+// ---------------------------------------------------------------------------
+
+export { buildDocumentRecord, FileDocumentStore } from "./store/index.js";
+export type {
+  DocumentLifecycleStatus,
+  StatusTransition,
+  DocumentRecordTotals,
+  DocumentRecord,
+  NewDocumentRecord,
+  DocumentStatusUpdate,
+  DocumentQuery,
+  DocumentStore,
+  FileDocumentStoreOptions,
+} from "./store/index.js";
+
+// ---------------------------------------------------------------------------
+// Offline module — contingency outbox and replay
+// ---------------------------------------------------------------------------
+
+export {
+  FileOutbox,
+  OutboxReplayer,
+  isConnectivityError,
+  isTransientError,
+} from "./offline/index.js";
+export type {
+  Outbox,
+  OutboxEntry,
+  FailedOutboxEntry,
+  NewOutboxEntry,
+  FileOutboxOptions,
+  OutboxReplayerOptions,
+  ReplayResult,
+  ReplayReport,
+} from "./offline/index.js";
+
+// ---------------------------------------------------------------------------
+// Batch module — high-volume submission with a resumable journal
+// ---------------------------------------------------------------------------
+
+export { submitBatch, FileBatchJournal } from "./batch/index.js";
+export type {
+  SubmitBatchOptions,
+  BatchOutcome,
+  BatchDocumentResult,
+  BatchReport,
+  BatchJournal,
+  BatchJournalRecord,
+} from "./batch/index.js";
+
+// ---------------------------------------------------------------------------
+// Inbox module — Mensaje Receptor workflow for received documents
+// ---------------------------------------------------------------------------
+
+export { ReceptorInbox, FileInboxStore } from "./inbox/index.js";
+export type {
+  ReceptorInboxOptions,
+  ImportDocumentOptions,
+  RespondOptions,
+  RefreshOptions,
+  FileInboxStoreOptions,
+  InboxStore,
+  InboxEntry,
+  InboxEntryStatus,
+  InboxCheck,
+  InboxCheckName,
+  InboxResponse,
+  InboxQuery,
+} from "./inbox/index.js";
+
+// ---------------------------------------------------------------------------
+// Render module — printable HTML and PDF representations
+// ---------------------------------------------------------------------------
+
+export {
+  renderDocument,
+  buildDocumentView,
+  formatAmount,
+  formatDate,
+  escapeHtml,
+} from "./render/index.js";
+export type {
+  RenderAssets,
+  RenderFormat,
+  RenderOptions,
+  RenderTemplate,
+  DocumentView,
+  LineView,
+  PartyView,
+  ReferenceView,
+  RenderableDocument,
+  TaxRateView,
+  PdfPageSize,
+} from "./render/index.js";
+
+// ---------------------------------------------------------------------------
+// Report module — monthly IVA declaration (D-104) worksheet
+// ---------------------------------------------------------------------------
+
+export {
+  buildIvaReport,
+  ivaReportToCsv,
+  collectLedgerDocuments,
+  collectHaciendaDocuments,
+  collectXmlDocuments,
+} from "./report/index.js";
+export type {
+  IvaRateTotals,
+  IvaReport,
+  IvaSection,
+  PeriodDocuments,
+  ReceivedPurchase,
+  SkippedDocument,
+  LedgerSources,
+} from "./report/index.js";
+
+// ---------------------------------------------------------------------------
+// CABYS module — offline catalog of goods and services codes
+// ---------------------------------------------------------------------------
+
+export {
+  CabysCatalog,
+  defaultIvaRateCode,
+  parseCabysCatalog,
+  importCabysCatalog,
+  loadCabysCatalog,
+  validateCabysCodes,
+} from "./cabys/index.js";
+export type {
+  CabysCatalogMetadata,
+  CabysCategory,
+  CabysEntry,
+  CabysSearchOptions,
+  CabysCatalogStoreOptions,
+  CabysImportResult,
+  CabysCheckedLine,
+  CabysValidationOptions,
+} from "./cabys/index.js";
+
+// ---------------------------------------------------------------------------
+// Taxpayer module — cached taxpayer lookups and pre-submission checks
+// ---------------------------------------------------------------------------
+
+export { TaxpayerCache, validateTaxpayers } from "./taxpayer/index.js";
+export type {
+  TaxpayerCacheOptions,
+  TaxpayerCacheLookupOptions,
+  TaxpayerLookupResult,
+  TaxpayerLookupSource,
+  TaxpayerCheckedDocument,
+  TaxpayerValidationOptions,
+} from "./taxpayer/index.js";
+
+// ---------------------------------------------------------------------------
+// Currency module — exchange rates and multi-currency totals
+// ---------------------------------------------------------------------------
+
+export {
+  StaticExchangeRateProvider,
+  FileExchangeRateProvider,
+  resolveCodigoTipoMoneda,
+  toColones,
+} from "./currency/index.js";
+export type {
+  ExchangeRate,
+  ExchangeRateProvider,
+  ExchangeRateTable,
+  FileExchangeRateProviderOptions,
+} from "./currency/index.js";
+
 // ---------------------------------------------------------------------------
 // Logging module — structured logging
 // ---------------------------------------------------------------------------
@@ -159,8 +411,25 @@ export type { LoggerOptions, LogFormat, LogWriter, LogEntry } from "./logging/in
 // Signing module — XAdES-EPES digital signature
 // ---------------------------------------------------------------------------
 
-export { loadP12, signXml, signAndEncode } from "./signing/index.js";
-export type { P12Credentials, SignXmlOptions, XadesPolicyConfig } from "./signing/index.js";
+export {
+  loadP12,
+  inspectCertificate,
+  inspectP12,
+  signXml,
+  signAndEncode,
+  verifyXmlSignature,
+} from "./signing/index.js";
+export type {
+  P12Credentials,
+  CertificateInfo,
+  InspectCertificateOptions,
+  SignXmlOptions,
+  XadesPolicyConfig,
+  SignatureCheck,
+  SignatureChecks,
+  SignatureCertificateInfo,
+  SignatureVerificationReport,
+} from "./signing/index.js";
 
 // ---------------------------------------------------------------------------
 // API module — HTTP client, submission, polling, orchestrator
@@ -169,15 +438,25 @@ export type { P12Credentials, SignXmlOptions, XadesPolicyConfig } from "./signin
 export {
   HttpClient,
   RateLimiter,
+  buildSubmissionRequest,
+  getRecepcionKey,
   submitDocument,
   getStatus,
+  parseStatusResponse,
   isTerminalStatus,
   extractRejectionReason,
+  MensajeHaciendaCode,
+  parseMensajeHacienda,
+  splitDetalleMensaje,
   submitAndWait,
+  waitForTerminalStatus,
+  StatusCallbackHandler,
+  startCallbackListener,
   withRetry,
   listComprobantes,
   getComprobante,
   lookupTaxpayer,
+  getActiveActivities,
 } from "./api/index.js";
 export type {
   HttpClientOptions,
@@ -185,10 +464,22 @@ export type {
   HttpResponse,
   RateLimiterOptions,
   ParsedStatusResponse,
+  SubmitDocumentOptions,
+  SubmitDocumentResponse,
+  MensajeHaciendaParty,
+  MensajeHaciendaError,
+  ParsedMensajeHacienda,
+  ParseMensajeHaciendaOptions,
   SubmitAndWaitOptions,
   SubmitAndWaitResult,
+  StatusCallbackHandlerOptions,
+  WaitForCallbackOptions,
+  CallbackListener,
+  CallbackListenerOptions,
   RetryOptions,
   TaxpayerInfo,
+  TaxpayerActivity,
+  TaxpayerStatus,
   LookupTaxpayerOptions,
 } from "./api/index.js";
 export {
@@ -0,0 +1,16 @@
+/**
+ * Offline module — contingency issuance with a durable outbox and
+ * ordered replay once the Hacienda API is reachable again.
+ */
+
+export { FileOutbox } from "./outbox.js";
+export type {
+  Outbox,
+  OutboxEntry,
+  FailedOutboxEntry,
+  NewOutboxEntry,
+  FileOutboxOptions,
+} from "./outbox.js";
+
+export { OutboxReplayer, isConnectivityError, isTransientError } from "./replayer.js";
+export type { OutboxReplayerOptions, ReplayResult, ReplayReport } from "./replayer.js";
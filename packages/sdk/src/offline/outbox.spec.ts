@@ -0,0 +1,147 @@
+/**
+ * Tests for the local file outbox.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import type { SubmissionRequest } from "@dojocoding/hacienda-shared";
+
+import { FileOutbox } from "./outbox.js";
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+const CLAVE_A = "50601012500310123456700100001040000000001300000001";
+const CLAVE_B = "50601012500310123456700100001040000000002300000002";
+
+function makeRequest(clave: string): SubmissionRequest {
+  return {
+    clave,
+    fecha: "2025-01-01T10:00:00-06:00",
+    emisor: { tipoIdentificacion: "02", numeroIdentificacion: "3101234567" },
+    comprobanteXml: "c2lnbmVk",
+  };
+}
+
+let configDir: string;
+let clock: Date;
+let outbox: FileOutbox;
+
+beforeEach(async () => {
+  configDir = await mkdtemp(join(tmpdir(), "hacienda-outbox-test-"));
+  clock = new Date("2025-01-01T16:00:00.000Z");
+  outbox = new FileOutbox({ configDir, now: () => clock });
+});
+
+afterEach(async () => {
+  await rm(configDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// FileOutbox
+// ---------------------------------------------------------------------------
+
+describe("FileOutbox", () => {
+  it("returns an empty list when nothing is queued", async () => {
+    expect(await outbox.list()).toEqual([]);
+    expect(await outbox.listFailed()).toEqual([]);
+  });
+
+  it("enqueues entries and lists them in enqueue order", async () => {
+    const first = await outbox.enqueue({
+      clave: CLAVE_B,
+      documentType: "04",
+      request: makeRequest(CLAVE_B),
+    });
+    const second = await outbox.enqueue({
+      clave: CLAVE_A,
+      documentType: "04",
+      request: makeRequest(CLAVE_A),
+    });
+
+    expect(first).toMatchObject({
+      clave: CLAVE_B,
+      attempts: 0,
+      enqueuedAt: "2025-01-01T16:00:00.000Z",
+    });
+    expect((await outbox.list()).map((e) => e.id)).toEqual([first.id, second.id]);
+  });
+
+  it("writes owner-only files under outbox/", async () => {
+    const entry = await outbox.enqueue({
+      clave: CLAVE_A,
+      documentType: "04",
+      request: makeRequest(CLAVE_A),
+    });
+
+    expect(outbox.directory).toBe(join(configDir, "outbox"));
+    const info = await stat(join(outbox.directory, `${entry.id}.json`));
+    if (process.platform !== "win32") {
+      expect(info.mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it("records failed attempts", async () => {
+    const entry = await outbox.enqueue({
+      clave: CLAVE_A,
+      documentType: "04",
+      request: makeRequest(CLAVE_A),
+    });
+
+    await outbox.recordAttempt(entry.id, "fetch failed");
+    await outbox.recordAttempt(entry.id, "fetch failed again");
+
+    const [stored] = await outbox.list();
+    expect(stored?.attempts).toBe(2);
+    expect(stored?.lastError).toBe("fetch failed again");
+  });
+
+  it("removes delivered entries", async () => {
+    const entry = await outbox.enqueue({
+      clave: CLAVE_A,
+      documentType: "04",
+      request: makeRequest(CLAVE_A),
+    });
+
+    await outbox.remove(entry.id);
+    expect(await outbox.list()).toEqual([]);
+  });
+
+  it("moves failed entries out of the queue", async () => {
+    const entry = await outbox.enqueue({
+      clave: CLAVE_A,
+      documentType: "04",
+      request: makeRequest(CLAVE_A),
+    });
+
+    clock = new Date("2025-01-01T17:00:00.000Z");
+    await outbox.markFailed(entry.id, "HTTP 400");
+
+    expect(await outbox.list()).toEqual([]);
+    const [failed] = await outbox.listFailed();
+    expect(failed).toMatchObject({
+      id: entry.id,
+      attempts: 1,
+      failureReason: "HTTP 400",
+      failedAt: "2025-01-01T17:00:00.000Z",
+    });
+  });
+
+  it("throws for unknown and malformed ids", async () => {
+    await expect(outbox.recordAttempt(`000000000000001-000001-${CLAVE_A}`, "x")).rejects.toThrow(
+      /does not exist/,
+    );
+    await expect(outbox.remove("../../etc/passwd")).rejects.toThrow(/Invalid outbox entry id/);
+  });
+
+  it("ignores unrelated files in the directory", async () => {
+    await outbox.enqueue({ clave: CLAVE_A, documentType: "04", request: makeRequest(CLAVE_A) });
+    await writeFile(join(outbox.directory, "notes.txt"), "hello");
+
+    expect(await outbox.list()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Durable outbox for documents that could not be delivered to Hacienda.
+ *
+ * Signed documents issued while the recepcion API is unreachable are
+ * queued here and replayed in order once connectivity returns.
+ * The default {@link FileOutbox} keeps one JSON file per document under
+ * ~/.hacienda-cr/outbox/, so queued documents survive restarts.
+ *
+ * @module offline/outbox
+ */
+
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import { join } from "node:path";
+
+import type { SubmissionRequest } from "@dojocoding/hacienda-shared";
+
+import { ensureConfigDir, getConfigDir } from "../config/config-manager.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A queued document awaiting submission. */
+export interface OutboxEntry {
+  /** Unique, lexicographically ordered entry id (enqueue order). */
+  readonly id: string;
+  /** 50-digit clave of the queued document. */
+  readonly clave: string;
+  /** Document type code (e.g., "01"). */
+  readonly documentType: string;
+  /** The POST /recepcion payload, including the signed XML. */
+  readonly request: SubmissionRequest;
+  /** When the document was queued (ISO 8601). */
+  readonly enqueuedAt: string;
+  /** Number of failed delivery attempts so far. */
+  readonly attempts: number;
+  /** Message from the last failed attempt. */
+  readonly lastError?: string;
+}
+
+/** An entry that was removed from the queue after a non-retryable failure. */
+export interface FailedOutboxEntry extends OutboxEntry {
+  /** Why the entry was given up on. */
+  readonly failureReason: string;
+  /** When the entry was given up on (ISO 8601). */
+  readonly failedAt: string;
+}
+
+/** Data needed to queue a document. */
+export interface NewOutboxEntry {
+  /** 50-digit clave of the document. */
+  readonly clave: string;
+  /** Document type code (e.g., "01"). */
+  readonly documentType: string;
+  /** The POST /recepcion payload, including the signed XML. */
+  readonly request: SubmissionRequest;
+}
+
+/**
+ * Storage backend for the outbox.
+ *
+ * Implementations must return entries from {@link Outbox.list} in the
+ * order they were enqueued.
+ */
+export interface Outbox {
+  /** Queues a document and returns the stored entry. */
+  enqueue(entry: NewOutboxEntry): Promise<OutboxEntry>;
+
+  /** Returns all pending entries, oldest first. */
+  list(): Promise<OutboxEntry[]>;
+
+  /** Records a failed delivery attempt for an entry. */
+  recordAttempt(id: string, error: string): Promise<void>;
+
+  /** Removes a delivered entry. */
+  remove(id: string): Promise<void>;
+
+  /** Moves an entry out of the queue after a non-retryable failure. */
+  markFailed(id: string, reason: string): Promise<void>;
+
+  /** Returns all entries that were given up on, oldest first. */
+  listFailed(): Promise<FailedOutboxEntry[]>;
+}
+
+/** Options for {@link FileOutbox}. */
+export interface FileOutboxOptions {
+  /** Override the config directory path (defaults to ~/.hacienda-cr/) */
+  configDir?: string;
+  /** Clock used for timestamps (defaults to `() => new Date()`). */
+  now?: () => Date;
+}
+
+/** Outbox directory name inside the config directory. */
+const OUTBOX_DIR_NAME = "outbox";
+
+/** Sub-directory for entries that were given up on. */
+const FAILED_DIR_NAME = "failed";
+
+/** Entry ids are digits and dashes only — also guards against path traversal. */
+const ENTRY_ID_PATTERN = /^\d{15}-\d{6}-\d{50}$/;
+
+// ---------------------------------------------------------------------------
+// FileOutbox
+// ---------------------------------------------------------------------------
+
+/**
+ * Outbox backed by JSON files in the local config directory.
+ *
+ * @example
+ * ```ts
+ * const outbox = new FileOutbox();
+ * const client = new HaciendaClient({ ...options, outbox });
+ *
+ * // Documents issued while offline are queued automatically
+ * await client.issueDocument(DocumentType.TIQUETE_ELECTRONICO, draft);
+ *
+ * console.log(`${(await outbox.list()).length} documents pending`);
+ * ```
+ */
+export class FileOutbox implements Outbox {
+  private readonly configDir: string | undefined;
+  private readonly now: () => Date;
+  private counter = 0;
+
+  constructor(options: FileOutboxOptions = {}) {
+    this.configDir = options.configDir;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** Absolute path of the directory holding pending entries. */
+  get directory(): string {
+    return join(getConfigDir(this.configDir), OUTBOX_DIR_NAME);
+  }
+
+  async enqueue(entry: NewOutboxEntry): Promise<OutboxEntry> {
+    const enqueuedAt = this.now();
+    this.counter = (this.counter + 1) % 1_000_000;
+
+    const stored: OutboxEntry = {
+      id: [
+        String(enqueuedAt.getTime()).padStart(15, "0"),
+        String(this.counter).padStart(6, "0"),
+        entry.clave,
+      ].join("-"),
+      clave: entry.clave,
+      documentType: entry.documentType,
+      request: entry.request,
+      enqueuedAt: enqueuedAt.toISOString(),
+      attempts: 0,
+    };
+
+    await this.write(this.directory, stored);
+    return stored;
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    return this.readAll<OutboxEntry>(this.directory);
+  }
+
+  async recordAttempt(id: string, error: string): Promise<void> {
+    const entry = await this.read<OutboxEntry>(this.directory, id);
+    await this.write(this.directory, {
+      ...entry,
+      attempts: entry.attempts + 1,
+      lastError: error,
+    });
+  }
+
+  async remove(id: string): Promise<void> {
+    await rm(this.pathFor(this.directory, id), { force: true });
+  }
+
+  async markFailed(id: string, reason: string): Promise<void> {
+    const entry = await this.read<OutboxEntry>(this.directory, id);
+    const failed: FailedOutboxEntry = {
+      ...entry,
+      attempts: entry.attempts + 1,
+      failureReason: reason,
+      failedAt: this.now().toISOString(),
+    };
+
+    await this.write(this.failedDirectory, failed);
+    await this.remove(id);
+  }
+
+  async listFailed(): Promise<FailedOutboxEntry[]> {
+    return this.readAll<FailedOutboxEntry>(this.failedDirectory);
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal helpers
+  // -------------------------------------------------------------------------
+
+  private get failedDirectory(): string {
+    return join(this.directory, FAILED_DIR_NAME);
+  }
+
+  private pathFor(directory: string, id: string): string {
+    if (!ENTRY_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid outbox entry id: "${id}".`);
+    }
+    return join(directory, `${id}.json`);
+  }
+
+  private async read<T extends OutboxEntry>(directory: string, id: string): Promise<T> {
+    try {
+      const content = await readFile(this.pathFor(directory, id), "utf-8");
+      return JSON.parse(content) as T;
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new Error(`Outbox entry ${id} does not exist.`);
+      }
+      throw error;
+    }
+  }
+
+  private async readAll<T extends OutboxEntry>(directory: string): Promise<T[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await readdir(directory);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const ids = fileNames
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => name.slice(0, -".json".length))
+      .filter((id) => ENTRY_ID_PATTERN.test(id))
+      .sort();
+
+    const entries: T[] = [];
+    for (const id of ids) {
+      entries.push(await this.read<T>(directory, id));
+    }
+    return entries;
+  }
+
+  /**
+   * Writes an entry atomically using a rename-based strategy.
+   */
+  private async write(directory: string, entry: OutboxEntry): Promise<void> {
+    const filePath = this.pathFor(directory, entry.id);
+    await ensureConfigDir(this.configDir);
+    await mkdir(directory, { recursive: true, mode: 0o700 });
+
+    const tempPath = `${filePath}.${randomBytes(6).toString("hex")}.tmp`;
+    const content = JSON.stringify(entry, null, 2) + "\n";
+    await writeFile(tempPath, content, { encoding: "utf-8", mode: 0o600 });
+    await rename(tempPath, filePath);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof Error && "code" in error && (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
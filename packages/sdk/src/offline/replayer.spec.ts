@@ -0,0 +1,285 @@
+/**
+ * Tests for the outbox replay worker.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { HaciendaStatus } from "@dojocoding/hacienda-shared";
+import type { SubmissionRequest } from "@dojocoding/hacienda-shared";
+
+import { SIMPLE_TIQUETE } from "../__fixtures__/document-fixtures.js";
+import type { HttpClient } from "../api/http-client.js";
+import { RateLimiter } from "../api/rate-limiter.js";
+import { AuthError, AuthErrorCode } from "../auth/types.js";
+import { ApiError } from "../errors.js";
+import { buildDocumentRecord } from "../store/document-store.js";
+import { FileDocumentStore } from "../store/file-document-store.js";
+import { FileOutbox } from "./outbox.js";
+import { OutboxReplayer, isConnectivityError, isTransientError } from "./replayer.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const CLAVE_A = "50601012500310123456700100001040000000001300000001";
+const CLAVE_B = "50601012500310123456700100001040000000002300000002";
+const CLAVE_C = "50601012500310123456700100001040000000003300000003";
+
+function makeRequest(clave: string): SubmissionRequest {
+  return {
+    clave,
+    fecha: "2025-01-01T10:00:00-06:00",
+    emisor: { tipoIdentificacion: "02", numeroIdentificacion: "3101234567" },
+    comprobanteXml: "c2lnbmVk",
+  };
+}
+
+const NETWORK_ERROR = new ApiError(
+  "Network error: fetch failed",
+  undefined,
+  undefined,
+  new TypeError("fetch failed"),
+);
+
+/** What TokenManager throws when the token expired and the IDP is unreachable. */
+const EXPIRED_TOKEN_OFFLINE = new AuthError(
+  AuthErrorCode.TOKEN_REFRESH_FAILED,
+  "Token refresh failed.",
+  new AuthError(
+    AuthErrorCode.TOKEN_REQUEST_FAILED,
+    "Token request failed: network error.",
+    new TypeError("fetch failed"),
+  ),
+);
+
+/**
+ * Creates a mock HttpClient whose POST outcome is decided per clave.
+ * Statuses report "aceptado", except for claves whose host is unreachable
+ * or unavailable.
+ */
+function createMockHttpClient(postOutcome: (clave: string) => Error | undefined) {
+  const posted: string[] = [];
+
+  const post = vi.fn((_path: string, body: SubmissionRequest) => {
+    posted.push(body.clave);
+    const error = postOutcome(body.clave);
+    if (error) return Promise.reject(error);
+    return Promise.resolve({ status: 202, headers: new Headers(), data: undefined });
+  });
+
+  const get = vi.fn((path: string) => {
+    const clave = path.split("/").pop() ?? "";
+    const error = postOutcome(clave);
+    if (error && isTransientError(error)) return Promise.reject(error);
+    return Promise.resolve({
+      status: 200,
+      headers: new Headers(),
+      data: { clave, "ind-estado": HaciendaStatus.ACEPTADO },
+    });
+  });
+
+  return { httpClient: { post, get } as unknown as HttpClient, posted };
+}
+
+let configDir: string;
+let outbox: FileOutbox;
+let tick: number;
+
+beforeEach(async () => {
+  configDir = await mkdtemp(join(tmpdir(), "hacienda-replayer-test-"));
+  tick = 0;
+  outbox = new FileOutbox({ configDir, now: () => new Date(Date.UTC(2025, 0, 1, 16, 0, tick++)) });
+
+  for (const clave of [CLAVE_A, CLAVE_B, CLAVE_C]) {
+    await outbox.enqueue({ clave, documentType: "04", request: makeRequest(clave) });
+  }
+});
+
+afterEach(async () => {
+  await rm(configDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// isConnectivityError
+// ---------------------------------------------------------------------------
+
+describe("isConnectivityError", () => {
+  it("matches network failures", () => {
+    expect(isConnectivityError(new TypeError("fetch failed"))).toBe(true);
+    expect(isConnectivityError(NETWORK_ERROR)).toBe(true);
+  });
+
+  it("matches a token refresh that could not reach the IDP", () => {
+    expect(isConnectivityError(EXPIRED_TOKEN_OFFLINE)).toBe(true);
+    expect(
+      isConnectivityError(new AuthError(AuthErrorCode.NOT_AUTHENTICATED, "No token available.")),
+    ).toBe(false);
+  });
+
+  it("does not match HTTP errors or polling timeouts", () => {
+    expect(isConnectivityError(new ApiError("Bad request", 400))).toBe(false);
+    expect(isConnectivityError(new ApiError("Polling timed out", undefined, {}))).toBe(false);
+    expect(isConnectivityError(new Error("boom"))).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// isTransientError
+// ---------------------------------------------------------------------------
+
+describe("isTransientError", () => {
+  it("matches connectivity errors, server errors and rate limiting", () => {
+    expect(isTransientError(NETWORK_ERROR)).toBe(true);
+    expect(isTransientError(EXPIRED_TOKEN_OFFLINE)).toBe(true);
+    expect(isTransientError(new ApiError("Service unavailable", 503))).toBe(true);
+    expect(isTransientError(new ApiError("Too many requests", 429))).toBe(true);
+  });
+
+  it("does not match client errors", () => {
+    expect(isTransientError(new ApiError("Bad request", 400))).toBe(false);
+    expect(isTransientError(new ApiError("Unauthorized", 401))).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// OutboxReplayer
+// ---------------------------------------------------------------------------
+
+describe("OutboxReplayer", () => {
+  it("delivers every entry in enqueue order", async () => {
+    const { httpClient, posted } = createMockHttpClient(() => undefined);
+    const onResult = vi.fn();
+    const replayer = new OutboxReplayer(httpClient, outbox, { onResult });
+
+    const report = await replayer.replay();
+
+    expect(posted).toEqual([CLAVE_A, CLAVE_B, CLAVE_C]);
+    expect(report.results.map((r) => r.status)).toEqual(["recibido", "recibido", "recibido"]);
+    expect(report).toMatchObject({ remaining: 0, interrupted: false });
+    expect(onResult).toHaveBeenCalledTimes(3);
+    expect(await outbox.list()).toEqual([]);
+  });
+
+  it("submits through the rate limiter", async () => {
+    const { httpClient } = createMockHttpClient(() => undefined);
+    const rateLimiter = new RateLimiter();
+    const execute = vi.spyOn(rateLimiter, "execute");
+
+    await new OutboxReplayer(httpClient, outbox, { rateLimiter }).replay();
+
+    expect(execute).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops at the first connectivity failure and keeps the rest queued", async () => {
+    const { httpClient, posted } = createMockHttpClient((clave) =>
+      clave === CLAVE_B ? NETWORK_ERROR : undefined,
+    );
+
+    const report = await new OutboxReplayer(httpClient, outbox, {
+      retryOptions: { initialDelayMs: 1 },
+    }).replay();
+
+    expect(posted).toEqual([CLAVE_A, CLAVE_B]);
+    expect(report).toMatchObject({ remaining: 2, interrupted: true });
+    const pending = await outbox.list();
+    expect(pending.map((e) => e.clave)).toEqual([CLAVE_B, CLAVE_C]);
+    expect(pending[0]).toMatchObject({ attempts: 1, lastError: NETWORK_ERROR.message });
+  });
+
+  it("keeps everything queued when the token expired while offline", async () => {
+    const { httpClient, posted } = createMockHttpClient(() => EXPIRED_TOKEN_OFFLINE);
+
+    const report = await new OutboxReplayer(httpClient, outbox).replay();
+
+    expect(posted).toEqual([CLAVE_A]);
+    expect(report).toEqual({ results: [], remaining: 3, interrupted: true });
+    expect(await outbox.listFailed()).toEqual([]);
+    expect((await outbox.list())[0]).toMatchObject({ attempts: 1 });
+  });
+
+  it("keeps the entry queued when Hacienda answers 503", async () => {
+    const unavailable = new ApiError("Service unavailable", 503);
+    const { httpClient } = createMockHttpClient((clave) =>
+      clave === CLAVE_A ? unavailable : undefined,
+    );
+
+    const report = await new OutboxReplayer(httpClient, outbox, {
+      retryOptions: { maxRetries: 1, initialDelayMs: 1 },
+    }).replay();
+
+    expect(report).toMatchObject({ results: [], remaining: 3, interrupted: true });
+    expect(await outbox.listFailed()).toEqual([]);
+    expect((await outbox.list())[0]).toMatchObject({ clave: CLAVE_A, attempts: 1 });
+  });
+
+  it("treats a duplicate (409) as already delivered", async () => {
+    const { httpClient } = createMockHttpClient((clave) =>
+      clave === CLAVE_A ? new ApiError("Duplicate", 409) : undefined,
+    );
+
+    const report = await new OutboxReplayer(httpClient, outbox).replay();
+
+    expect(report.results[0]).toEqual({ clave: CLAVE_A, documentType: "04", status: "recibido" });
+    expect(report.remaining).toBe(0);
+  });
+
+  it("moves rejected submissions to the failed list without blocking the queue", async () => {
+    const { httpClient, posted } = createMockHttpClient((clave) =>
+      clave === CLAVE_A ? new ApiError("Bad request", 400) : undefined,
+    );
+
+    const report = await new OutboxReplayer(httpClient, outbox).replay();
+
+    expect(posted).toEqual([CLAVE_A, CLAVE_B, CLAVE_C]);
+    expect(report.results[0]).toMatchObject({ status: "error", error: "Bad request" });
+    const [failed] = await outbox.listFailed();
+    expect(failed).toMatchObject({ clave: CLAVE_A, failureReason: "Bad request" });
+  });
+
+  it("polls for the final status when waiting", async () => {
+    const { httpClient } = createMockHttpClient(() => undefined);
+
+    const report = await new OutboxReplayer(httpClient, outbox, {
+      wait: { pollIntervalMs: 10, timeoutMs: 5000 },
+    }).replay();
+
+    expect(report.results.map((r) => r.status)).toEqual(["aceptado", "aceptado", "aceptado"]);
+    expect(report.results.every((r) => r.accepted)).toBe(true);
+  });
+
+  it("updates recorded documents in the ledger", async () => {
+    const store = new FileDocumentStore({ configDir });
+    await store.save(buildDocumentRecord({ ...SIMPLE_TIQUETE, clave: CLAVE_A }, "04", "c2lnbmVk"));
+    const { httpClient } = createMockHttpClient(() => undefined);
+
+    await new OutboxReplayer(httpClient, outbox, { documentStore: store }).replay();
+
+    const record = await store.get(CLAVE_A);
+    expect(record?.statusHistory.map((t) => t.status)).toEqual(["firmado", "recibido"]);
+    expect(await store.get(CLAVE_B)).toBeUndefined();
+  });
+
+  it("shares a pass between concurrent replay calls", async () => {
+    const { httpClient, posted } = createMockHttpClient(() => undefined);
+    const replayer = new OutboxReplayer(httpClient, outbox);
+
+    const [first, second] = await Promise.all([replayer.replay(), replayer.replay()]);
+
+    expect(first).toBe(second);
+    expect(posted).toHaveLength(3);
+  });
+
+  it("replays automatically once started", async () => {
+    const { httpClient } = createMockHttpClient(() => undefined);
+    const replayer = new OutboxReplayer(httpClient, outbox, { intervalMs: 60_000 });
+
+    replayer.start();
+    await vi.waitFor(async () => {
+      expect(await outbox.list()).toEqual([]);
+    });
+    replayer.stop();
+  });
+});
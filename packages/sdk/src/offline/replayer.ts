@@ -0,0 +1,292 @@
+/**
+ * Outbox replay worker — delivers queued documents once connectivity returns.
+ *
+ * Entries are submitted strictly in enqueue order through a
+ * {@link RateLimiter}. A transient failure (API or IDP unreachable, 5xx,
+ * 429) stops the pass and leaves the remaining entries queued for the
+ * next one; any other failure moves the entry to the failed list so it
+ * does not block the queue.
+ *
+ * @module offline/replayer
+ */
+
+import { HaciendaStatus } from "@dojocoding/hacienda-shared";
+
+import { isRetryableStatus } from "../api/error-codes.js";
+import type { HttpClient } from "../api/http-client.js";
+import { waitForTerminalStatus } from "../api/orchestrator.js";
+import type { SubmitAndWaitOptions } from "../api/orchestrator.js";
+import { RateLimiter } from "../api/rate-limiter.js";
+import type { RetryOptions } from "../api/retry.js";
+import { submitDocument } from "../api/submission.js";
+import { AuthError } from "../auth/types.js";
+import { ApiError } from "../errors.js";
+import type { DocumentLifecycleStatus, DocumentStore } from "../store/document-store.js";
+import type { Outbox, OutboxEntry } from "./outbox.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link OutboxReplayer}. */
+export interface OutboxReplayerOptions {
+  /** Rate limiter shared by all submissions (default: a new {@link RateLimiter}). */
+  readonly rateLimiter?: RateLimiter;
+  /** Retry configuration for each (idempotent) submission. */
+  readonly retryOptions?: RetryOptions;
+  /**
+   * Poll each delivered document until a terminal status.
+   * Pass `true` for the default polling settings or an options object.
+   * Defaults to `false` (report `"recibido"` once delivered).
+   */
+  readonly wait?: boolean | SubmitAndWaitOptions;
+  /** Optional ledger to update with each document's status. */
+  readonly documentStore?: DocumentStore;
+  /** Delay between automatic passes started with {@link OutboxReplayer.start} (default: 30000). */
+  readonly intervalMs?: number;
+  /** Callback invoked with the outcome of each processed entry. */
+  readonly onResult?: (result: ReplayResult) => void;
+}
+
+/** Outcome of replaying a single outbox entry. */
+export interface ReplayResult {
+  /** 50-digit clave of the document. */
+  readonly clave: string;
+  /** Document type code. */
+  readonly documentType: string;
+  /** Final known status. `"error"` means the entry was moved to the failed list. */
+  readonly status: DocumentLifecycleStatus;
+  /** Whether Hacienda accepted the document (only known when waiting). */
+  readonly accepted?: boolean;
+  /** Human-readable rejection reason (if rejected). */
+  readonly rejectionReason?: string;
+  /** Decoded Hacienda response XML (only when waiting). */
+  readonly responseXml?: string;
+  /** Error message when delivery or polling failed. */
+  readonly error?: string;
+}
+
+/** Summary of one replay pass. */
+export interface ReplayReport {
+  /** Outcome of every entry processed in this pass, in order. */
+  readonly results: readonly ReplayResult[];
+  /** Number of entries still queued after the pass. */
+  readonly remaining: number;
+  /** Whether the pass stopped early because the API was unreachable or unavailable. */
+  readonly interrupted: boolean;
+}
+
+/** Default configuration values. */
+const DEFAULTS = {
+  intervalMs: 30_000,
+} as const;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Determines whether an error means the Hacienda API could not be reached.
+ *
+ * Matches network failures (no HTTP response at all), including a token
+ * refresh that could not reach the IDP. HTTP error responses and polling
+ * timeouts are not connectivity errors.
+ *
+ * @param error - The error thrown by an API call.
+ * @returns `true` if the request never reached the server.
+ */
+export function isConnectivityError(error: unknown): boolean {
+  if (error instanceof TypeError) {
+    return true;
+  }
+  if (error instanceof AuthError) {
+    return isConnectivityError(error.cause);
+  }
+  return error instanceof ApiError && error.statusCode === undefined && error.cause !== undefined;
+}
+
+/**
+ * Determines whether a delivery failure is temporary and worth retrying later.
+ *
+ * Matches connectivity errors (see {@link isConnectivityError}), server
+ * errors (5xx) and rate limiting (429).
+ *
+ * @param error - The error thrown by an API call.
+ * @returns `true` if the document should stay queued.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (isConnectivityError(error)) {
+    return true;
+  }
+  return (
+    error instanceof ApiError &&
+    error.statusCode !== undefined &&
+    (error.statusCode === 429 || isRetryableStatus(error.statusCode))
+  );
+}
+
+/**
+ * Replays queued documents against the recepcion API.
+ *
+ * @example
+ * ```ts
+ * const replayer = new OutboxReplayer(httpClient, new FileOutbox(), {
+ *   wait: true,
+ *   onResult: (r) => console.log(r.clave, r.status),
+ * });
+ *
+ * replayer.start(); // retries every 30s until stopped
+ * ```
+ */
+export class OutboxReplayer {
+  private readonly httpClient: HttpClient;
+  private readonly outbox: Outbox;
+  private readonly options: OutboxReplayerOptions;
+  private readonly rateLimiter: RateLimiter;
+  private inFlight: Promise<ReplayReport> | undefined;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private running = false;
+
+  constructor(httpClient: HttpClient, outbox: Outbox, options: OutboxReplayerOptions = {}) {
+    this.httpClient = httpClient;
+    this.outbox = outbox;
+    this.options = options;
+    this.rateLimiter = options.rateLimiter ?? new RateLimiter();
+  }
+
+  /**
+   * Runs one replay pass over the queue.
+   *
+   * Concurrent calls share the pass already in progress, so documents
+   * are never submitted twice by the same replayer.
+   *
+   * @returns A report of the processed entries.
+   */
+  replay(): Promise<ReplayReport> {
+    this.inFlight ??= this.runPass().finally(() => {
+      this.inFlight = undefined;
+    });
+    return this.inFlight;
+  }
+
+  /**
+   * Starts automatic replay: a pass now, then one every `intervalMs`.
+   * Errors from a pass are swallowed; the next pass retries.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    void this.tick();
+  }
+
+  /** Stops automatic replay. A pass already in progress completes. */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal helpers
+  // -------------------------------------------------------------------------
+
+  private async tick(): Promise<void> {
+    try {
+      await this.replay();
+    } catch {
+      // Storage or unexpected errors — retry on the next tick
+    }
+
+    if (!this.running) return;
+    this.timer = setTimeout(() => void this.tick(), this.options.intervalMs ?? DEFAULTS.intervalMs);
+    this.timer.unref();
+  }
+
+  private async runPass(): Promise<ReplayReport> {
+    const results: ReplayResult[] = [];
+    let interrupted = false;
+
+    for (const entry of await this.outbox.list()) {
+      const result = await this.replayEntry(entry);
+      if (!result) {
+        interrupted = true;
+        break;
+      }
+
+      results.push(result);
+      await this.recordStatus(result);
+      this.options.onResult?.(result);
+    }
+
+    const remaining = (await this.outbox.list()).length;
+    return { results, remaining, interrupted };
+  }
+
+  /** Appends the outcome to the ledger, if the document was recorded there. */
+  private async recordStatus(result: ReplayResult): Promise<void> {
+    const store = this.options.documentStore;
+    if (!store || !(await store.get(result.clave))) return;
+
+    await store.updateStatus(result.clave, {
+      status: result.status,
+      responseXml: result.responseXml,
+      rejectionReason: result.rejectionReason,
+      detail: result.rejectionReason ?? result.error,
+    });
+  }
+
+  /**
+   * Delivers one entry. Returns `undefined` when the failure is transient
+   * (the entry stays queued).
+   */
+  private async replayEntry(entry: OutboxEntry): Promise<ReplayResult | undefined> {
+    const base = { clave: entry.clave, documentType: entry.documentType };
+
+    try {
+      await this.rateLimiter.execute(() =>
+        submitDocument(this.httpClient, entry.request, {
+          idempotent: true,
+          retryOptions: this.options.retryOptions,
+        }),
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (isTransientError(error)) {
+        await this.outbox.recordAttempt(entry.id, message);
+        return undefined;
+      }
+
+      await this.outbox.markFailed(entry.id, message);
+      return { ...base, status: HaciendaStatus.ERROR, error: message };
+    }
+
+    await this.outbox.remove(entry.id);
+
+    const { wait } = this.options;
+    if (!wait) {
+      return { ...base, status: HaciendaStatus.RECIBIDO };
+    }
+
+    try {
+      const outcome = await waitForTerminalStatus(
+        this.httpClient,
+        entry.clave,
+        wait === true ? undefined : wait,
+      );
+      return {
+        ...base,
+        status: outcome.status,
+        accepted: outcome.accepted,
+        rejectionReason: outcome.rejectionReason,
+        responseXml: outcome.responseXml,
+      };
+    } catch (error) {
+      // Delivered, but the final status is not known yet
+      const message = error instanceof Error ? error.message : String(error);
+      return { ...base, status: HaciendaStatus.RECIBIDO, error: message };
+    }
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Tests for the printable document view.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { ValidationError } from "../errors.js";
+import {
+  MENSAJE_ACEPTACION_TOTAL,
+  SIMPLE_FACTURA_EXPORTACION,
+  SIMPLE_NOTA_CREDITO,
+  SIMPLE_TIQUETE,
+} from "../__fixtures__/document-fixtures.js";
+import { buildMensajeReceptorXml } from "../documents/mensaje-receptor-builder.js";
+import { buildNotaCreditoXml } from "../documents/nota-credito-builder.js";
+import { calculateInvoiceSummary, calculateLineItemTotals } from "../tax/calculator.js";
+import { Decimal } from "../tax/decimal.js";
+import { parseDocumentXml } from "../xml/parser.js";
+import { buildDocumentView, formatAmount, formatDate } from "./document-view.js";
+
+describe("buildDocumentView", () => {
+  it("resolves names and totals for our own documents", () => {
+    const view = buildDocumentView(SIMPLE_TIQUETE);
+
+    expect(view.documentType).toBe("04");
+    expect(view.title).toBe("Tiquete Electrónico");
+    expect(view.clave).toBe(SIMPLE_TIQUETE.clave);
+    expect(view.emisor).toEqual({
+      nombre: "Empresa Test S.A.",
+      nombreComercial: "TestCorp",
+      tipoIdentificacion: "Cédula Jurídica",
+      identificacion: "3101234567",
+      correoElectronico: "facturacion@testcorp.cr",
+      telefono: "+506 22223333",
+      direccion: "100m norte del parque central (1-01-01-01)",
+    });
+    expect(view.receptor).toBeUndefined();
+    expect(view.condicionVenta).toBe("Contado");
+    expect(view.mediosPago).toEqual(["Efectivo"]);
+    expect(view.moneda).toBe("CRC");
+    expect(view.lineas[0]).toMatchObject({ numeroLinea: 1, descuento: 0, impuesto: 13000 });
+    expect(view.totales.totalComprobante).toBe(113000);
+  });
+
+  it("breaks the tax down by rate, net of exonerations", () => {
+    const line = SIMPLE_TIQUETE.detalleServicio[0];
+    if (!line) throw new Error("fixture has no lines");
+    const view = buildDocumentView({
+      ...SIMPLE_TIQUETE,
+      detalleServicio: [
+        line,
+        { ...line, numeroLinea: 2 },
+        {
+          ...line,
+          numeroLinea: 3,
+          subTotal: 50000,
+          baseImponible: 50000,
+          impuesto: [
+            {
+              codigo: "01",
+              codigoTarifa: "04",
+              tarifa: 4,
+              monto: 2000,
+              exoneracion: {
+                tipoDocumento: "01",
+                numeroDocumento: "AL-001",
+                nombreInstitucion: "Hacienda",
+                fechaEmision: "2025-01-01T00:00:00-06:00",
+                porcentajeExoneracion: 50,
+                montoExoneracion: 1000,
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(view.impuestos).toEqual([
+      { label: "IVA 13%", codigo: "01", tarifa: 13, base: 200000, impuesto: 26000, exonerado: 0 },
+      { label: "IVA 4%", codigo: "01", tarifa: 4, base: 50000, impuesto: 1000, exonerado: 1000 },
+    ]);
+    expect(view.lineas[2]?.impuesto).toBe(1000);
+  });
+
+  it("uses each tax's own base and adds up to the summary's TotalImpuesto", () => {
+    const items = [
+      calculateLineItemTotals({
+        numeroLinea: 1,
+        codigoCabys: "2391001000100",
+        cantidad: 1,
+        unidadMedida: "Unid",
+        detalle: "Bebida",
+        precioUnitario: 1000,
+        impuesto: [
+          { codigo: "02", tarifa: 10 },
+          { codigo: "01", codigoTarifa: "08", tarifa: 13 },
+        ],
+      }),
+      ...Array.from({ length: 9 }, (_, index) =>
+        calculateLineItemTotals({
+          numeroLinea: index + 2,
+          codigoCabys: "2391001000100",
+          cantidad: 3,
+          unidadMedida: "Unid",
+          detalle: "Confite",
+          precioUnitario: 0.11111,
+          impuesto: [{ codigo: "01", codigoTarifa: "08", tarifa: 13 }],
+        }),
+      ),
+    ];
+    const resumenFactura = calculateInvoiceSummary(items);
+
+    const view = buildDocumentView({
+      ...SIMPLE_TIQUETE,
+      detalleServicio: items,
+      resumenFactura,
+    });
+
+    expect(view.impuestos).toEqual([
+      {
+        label: "IVA 13%",
+        codigo: "01",
+        tarifa: 13,
+        base: 1102.99997,
+        impuesto: 143.38997,
+        exonerado: 0,
+      },
+      {
+        label: "Selectivo de Consumo 10%",
+        codigo: "02",
+        tarifa: 10,
+        base: 1000,
+        impuesto: 100,
+        exonerado: 0,
+      },
+    ]);
+    expect(Decimal.sum(view.impuestos.map((rate) => rate.impuesto)).toNumber()).toBe(
+      resumenFactura.totalImpuesto,
+    );
+  });
+
+  it("accepts parsed supplier XML and raw XML", () => {
+    const xml = buildNotaCreditoXml(SIMPLE_NOTA_CREDITO);
+
+    const fromParsed = buildDocumentView(parseDocumentXml(xml));
+    const fromXml = buildDocumentView(xml);
+
+    expect(fromParsed.title).toBe("Nota de Crédito Electrónica");
+    expect(fromParsed.receptor?.nombre).toBe("Cliente Ejemplo S.R.L.");
+    expect(fromParsed.referencias).toEqual([
+      {
+        tipoDoc: "Factura Electrónica",
+        numero: SIMPLE_NOTA_CREDITO.informacionReferencia[0]?.numero,
+        fechaEmision: "2025-07-27T10:30:00-06:00",
+        razon: "Devolucion parcial por servicio no completado",
+      },
+    ]);
+    expect(fromXml).toEqual(fromParsed);
+  });
+
+  it("shows foreign currency and identification", () => {
+    const view = buildDocumentView(SIMPLE_FACTURA_EXPORTACION);
+
+    expect(view.title).toBe("Factura Electrónica de Exportación");
+    expect(view.moneda).toBe(
+      SIMPLE_FACTURA_EXPORTACION.resumenFactura.codigoTipoMoneda?.codigoMoneda ?? "CRC",
+    );
+  });
+
+  it("names documents numbered with the clave's type codes", () => {
+    const view = buildDocumentView({
+      ...SIMPLE_TIQUETE,
+      numeroConsecutivo: "00100001080000000001",
+    });
+
+    expect(view.documentType).toBe("08");
+    expect(view.title).toBe("Factura Electrónica de Compra");
+  });
+
+  it("rejects a MensajeReceptor", () => {
+    expect(() => buildDocumentView(buildMensajeReceptorXml(MENSAJE_ACEPTACION_TOTAL))).toThrow(
+      ValidationError,
+    );
+  });
+});
+
+describe("formatAmount", () => {
+  it.each([
+    [0, 2, "0.00"],
+    [1234567.891, 2, "1,234,567.89"],
+    [-1500, 2, "-1,500.00"],
+    [2.5, 3, "2.500"],
+    [999, 0, "999"],
+  ])("formats %d with %d decimals", (value, decimals, expected) => {
+    expect(formatAmount(value, decimals)).toBe(expected);
+  });
+});
+
+describe("formatDate", () => {
+  it("keeps the issued wall-clock time", () => {
+    expect(formatDate("2025-07-27T10:30:00-06:00")).toBe("27/07/2025 10:30:00");
+    expect(formatDate("2025-07-27")).toBe("27/07/2025");
+    expect(formatDate("ayer")).toBe("ayer");
+  });
+});
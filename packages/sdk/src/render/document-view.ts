@@ -0,0 +1,403 @@
+/**
+ * Document view — the data shown on a printed comprobante.
+ *
+ * Normalises our own {@link DocumentoElectronico} objects, parsed
+ * supplier XML ({@link ParsedDocument}) and raw XML into one flat
+ * structure with code names resolved and the tax broken down by rate,
+ * so every template works from the same input.
+ *
+ * @module render/document-view
+ */
+
+import {
+  DOCUMENT_TYPE_NAMES,
+  IDENTIFICATION_TYPE_NAMES,
+  PAYMENT_METHOD_NAMES,
+  SALE_CONDITION_NAMES,
+  TaxCode,
+} from "@dojocoding/hacienda-shared";
+import type {
+  DocumentoElectronico,
+  Emisor,
+  Identificacion,
+  Receptor,
+  Ubicacion,
+} from "@dojocoding/hacienda-shared";
+
+import { parseClave } from "../clave/parse-clave.js";
+import { DocumentType } from "../clave/types.js";
+import { ValidationError } from "../errors.js";
+import { Decimal } from "../tax/decimal.js";
+import { parseDocumentXml } from "../xml/parser.js";
+import type { ParsedDocument } from "../xml/parser.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Anything that can be rendered: one of our documents, a parsed
+ * comprobante, or its XML.
+ */
+export type RenderableDocument = DocumentoElectronico | ParsedDocument | string;
+
+/** Emisor or receptor as printed. */
+export interface PartyView {
+  /** Name or razón social. */
+  readonly nombre: string;
+  /** Commercial name, if any. */
+  readonly nombreComercial?: string;
+  /** Identification type name (e.g. "Cédula Jurídica"). */
+  readonly tipoIdentificacion?: string;
+  /** Identification number (local or foreign). */
+  readonly identificacion?: string;
+  /** Email address. */
+  readonly correoElectronico?: string;
+  /** Phone number, "+506 2222-2222" style. */
+  readonly telefono?: string;
+  /** Free-text address (otras señas, else province/canton/district codes). */
+  readonly direccion?: string;
+}
+
+/** One line item as printed. */
+export interface LineView {
+  readonly numeroLinea: number;
+  readonly codigoCabys: string;
+  readonly detalle: string;
+  readonly cantidad: number;
+  readonly unidadMedida: string;
+  readonly precioUnitario: number;
+  /** Sum of the line's discounts. */
+  readonly descuento: number;
+  readonly subTotal: number;
+  /** Tax charged on the line, net of exonerations. */
+  readonly impuesto: number;
+  readonly montoTotalLinea: number;
+}
+
+/** Tax charged at one rate, across all lines. */
+export interface TaxRateView {
+  /** Label, e.g. "IVA 13%". */
+  readonly label: string;
+  /** Tax code (e.g. "01" for IVA). */
+  readonly codigo: string;
+  /** Rate percentage. */
+  readonly tarifa: number;
+  /** Taxable base. */
+  readonly base: number;
+  /** Tax charged, net of exonerations. */
+  readonly impuesto: number;
+  /** Tax exonerated. */
+  readonly exonerado: number;
+}
+
+/** A referenced document (credit and debit notes). */
+export interface ReferenceView {
+  /** Referenced document type name. */
+  readonly tipoDoc: string;
+  readonly numero: string;
+  readonly fechaEmision: string;
+  readonly razon: string;
+}
+
+/** Everything a template prints. */
+export interface DocumentView {
+  /** Document type code (e.g. "01"). */
+  readonly documentType: string;
+  /** Document type name (e.g. "Factura Electrónica"). */
+  readonly title: string;
+  readonly clave: string;
+  readonly numeroConsecutivo: string;
+  /** Emission date as issued (ISO 8601). */
+  readonly fechaEmision: string;
+  readonly codigoActividad: string;
+  readonly emisor: PartyView;
+  readonly receptor?: PartyView;
+  /** Sale condition name. */
+  readonly condicionVenta: string;
+  /** Credit term, for credit sales. */
+  readonly plazoCredito?: string;
+  /** Payment method names. */
+  readonly mediosPago: readonly string[];
+  /** ISO 4217 currency code ("CRC" unless stated). */
+  readonly moneda: string;
+  /** Exchange rate to colones, for foreign currencies. */
+  readonly tipoCambio?: number;
+  readonly lineas: readonly LineView[];
+  /** Tax by code and rate, highest rate first. */
+  readonly impuestos: readonly TaxRateView[];
+  readonly otrosCargos: readonly { readonly detalle: string; readonly monto: number }[];
+  readonly totales: {
+    readonly totalGravado: number;
+    readonly totalExento: number;
+    readonly totalExonerado?: number;
+    readonly totalVenta: number;
+    readonly totalDescuentos: number;
+    readonly totalVentaNeta: number;
+    readonly totalImpuesto: number;
+    readonly totalIVADevuelto?: number;
+    readonly totalOtrosCargos?: number;
+    readonly totalComprobante: number;
+  };
+  readonly referencias: readonly ReferenceView[];
+  /** Free-text "Otros" content. */
+  readonly otros: readonly string[];
+}
+
+/** Tax codes that are IVA, charged on `baseImponible`. */
+const IVA_TAX_CODES: readonly string[] = [
+  TaxCode.IVA,
+  TaxCode.IVA_CALCULO_ESPECIAL,
+  TaxCode.IVA_BIENES_USADOS,
+];
+
+/** Short labels for tax codes. */
+const TAX_LABELS: Readonly<Record<string, string>> = {
+  [TaxCode.IVA]: "IVA",
+  [TaxCode.IMPUESTO_SELECTIVO_CONSUMO]: "Selectivo de Consumo",
+  [TaxCode.IMPUESTO_UNICO_COMBUSTIBLES]: "Único a los Combustibles",
+  [TaxCode.IMPUESTO_BEBIDAS_ALCOHOLICAS]: "Bebidas Alcohólicas",
+  [TaxCode.IMPUESTO_BEBIDAS_SIN_ALCOHOL]: "Bebidas sin Alcohol y Jabones",
+  [TaxCode.IMPUESTO_TABACO]: "Tabaco",
+  [TaxCode.IVA_CALCULO_ESPECIAL]: "IVA (cálculo especial)",
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds the printable view of a document.
+ *
+ * @param input - Our document, a parsed comprobante, or its XML.
+ * @returns The view passed to templates.
+ * @throws {ValidationError} If the XML cannot be parsed or is a
+ *   MensajeReceptor, which has no printed representation.
+ */
+export function buildDocumentView(input: RenderableDocument): DocumentView {
+  const document = toDocument(input);
+  const documentType = resolveDocumentType(input, document);
+
+  const resumen = document.resumenFactura;
+  const receptor = "receptor" in document ? document.receptor : undefined;
+
+  return {
+    documentType,
+    title: documentTitle(documentType) ?? "Comprobante Electrónico",
+    clave: document.clave,
+    numeroConsecutivo: document.numeroConsecutivo,
+    fechaEmision: document.fechaEmision,
+    codigoActividad: document.codigoActividad,
+    emisor: partyView(document.emisor),
+    ...(receptor ? { receptor: partyView(receptor) } : {}),
+    condicionVenta: nameOf(SALE_CONDITION_NAMES, document.condicionVenta),
+    ...(document.plazoCredito ? { plazoCredito: document.plazoCredito } : {}),
+    mediosPago: document.medioPago.map((code) => nameOf(PAYMENT_METHOD_NAMES, code)),
+    moneda: resumen.codigoTipoMoneda?.codigoMoneda ?? "CRC",
+    ...(resumen.codigoTipoMoneda && resumen.codigoTipoMoneda.codigoMoneda !== "CRC"
+      ? { tipoCambio: resumen.codigoTipoMoneda.tipoCambio }
+      : {}),
+    lineas: document.detalleServicio.map((linea) => ({
+      numeroLinea: linea.numeroLinea,
+      codigoCabys: linea.codigoCabys,
+      detalle: linea.detalle,
+      cantidad: linea.cantidad,
+      unidadMedida: linea.unidadMedida,
+      precioUnitario: linea.precioUnitario,
+      descuento: sum((linea.descuento ?? []).map((d) => d.montoDescuento)),
+      subTotal: linea.subTotal,
+      impuesto: sum(
+        (linea.impuesto ?? []).map((i) =>
+          Decimal.from(i.monto).minus(i.exoneracion?.montoExoneracion ?? 0),
+        ),
+      ),
+      montoTotalLinea: linea.montoTotalLinea,
+    })),
+    impuestos: taxBreakdown(document),
+    otrosCargos: (document.otrosCargos ?? []).map((cargo) => ({
+      detalle: cargo.detalle,
+      monto: cargo.montoOtroCargo,
+    })),
+    totales: {
+      totalGravado: resumen.totalGravado,
+      totalExento: resumen.totalExento,
+      ...(resumen.totalExonerado ? { totalExonerado: resumen.totalExonerado } : {}),
+      totalVenta: resumen.totalVenta,
+      totalDescuentos: resumen.totalDescuentos,
+      totalVentaNeta: resumen.totalVentaNeta,
+      totalImpuesto: resumen.totalImpuesto,
+      ...(resumen.totalIVADevuelto ? { totalIVADevuelto: resumen.totalIVADevuelto } : {}),
+      ...(resumen.totalOtrosCargos ? { totalOtrosCargos: resumen.totalOtrosCargos } : {}),
+      totalComprobante: resumen.totalComprobante,
+    },
+    referencias: (document.informacionReferencia ?? []).map((ref) => ({
+      tipoDoc: documentTitle(ref.tipoDoc) ?? ref.tipoDoc,
+      numero: ref.numero,
+      fechaEmision: ref.fechaEmision,
+      razon: ref.razon,
+    })),
+    otros: (document.otros ?? []).map((otro) => otro.contenido),
+  };
+}
+
+/**
+ * Formats an amount with thousands separators and two decimals
+ * ("1,234,567.89"), independent of the runtime locale.
+ *
+ * @param value - The amount.
+ * @param decimals - Decimal places (default: 2).
+ * @returns The formatted amount.
+ */
+export function formatAmount(value: number, decimals = 2): string {
+  const [whole = "0", fraction] = Math.abs(value).toFixed(decimals).split(".");
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  return `${value < 0 ? "-" : ""}${grouped}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Formats an ISO 8601 date-time as "DD/MM/YYYY HH:mm:ss", keeping the
+ * wall-clock time it was issued with.
+ *
+ * @param iso - ISO 8601 date-time.
+ * @returns The formatted date, or the input if it is not ISO 8601.
+ */
+export function formatDate(iso: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}:\d{2}:\d{2}))?/.exec(iso);
+  if (!match) {
+    return iso;
+  }
+  const [, year, month, day, time] = match;
+  return `${day}/${month}/${year}${time ? ` ${time}` : ""}`;
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function toDocument(input: RenderableDocument): DocumentoElectronico {
+  const parsed = typeof input === "string" ? parseDocumentXml(input) : input;
+  if (!("rootElement" in parsed)) {
+    return parsed;
+  }
+  if (parsed.rootElement === "MensajeReceptor") {
+    throw new ValidationError("A MensajeReceptor has no printed representation.");
+  }
+  return parsed.document;
+}
+
+/** Type code from the numero consecutivo, falling back to the clave. */
+function resolveDocumentType(input: RenderableDocument, document: DocumentoElectronico): string {
+  const fromConsecutivo = document.numeroConsecutivo.slice(8, 10);
+  if (/^\d{2}$/.test(fromConsecutivo)) {
+    return fromConsecutivo;
+  }
+  try {
+    return parseClave(document.clave).documentType;
+  } catch {
+    throw new ValidationError(
+      `Cannot tell the document type of ${typeof input === "string" ? "the XML" : document.clave}.`,
+    );
+  }
+}
+
+function partyView(party: Emisor | Receptor): PartyView {
+  const identificacion: Identificacion | undefined = party.identificacion;
+  const numero =
+    identificacion?.numero ??
+    ("identificacionExtranjero" in party ? party.identificacionExtranjero : undefined);
+  const direccion = party.ubicacion ? addressOf(party.ubicacion) : undefined;
+
+  return {
+    nombre: party.nombre,
+    ...(party.nombreComercial ? { nombreComercial: party.nombreComercial } : {}),
+    ...(identificacion
+      ? { tipoIdentificacion: nameOf(IDENTIFICATION_TYPE_NAMES, identificacion.tipo) }
+      : {}),
+    ...(numero ? { identificacion: numero } : {}),
+    ...(party.correoElectronico ? { correoElectronico: party.correoElectronico } : {}),
+    ...(party.telefono
+      ? { telefono: `+${party.telefono.codigoPais} ${party.telefono.numTelefono}` }
+      : {}),
+    ...(direccion ? { direccion } : {}),
+  };
+}
+
+function addressOf(ubicacion: Ubicacion): string {
+  const codes = [ubicacion.provincia, ubicacion.canton, ubicacion.distrito, ubicacion.barrio]
+    .filter((code) => code !== undefined)
+    .join("-");
+  return ubicacion.otrasSenas ? `${ubicacion.otrasSenas} (${codes})` : codes;
+}
+
+/**
+ * Groups line taxes by code and rate. IVA is charged on the line's
+ * `baseImponible` (the subtotal plus the other taxes), every other tax
+ * on the subtotal. Amounts are summed exactly and rounded once, so the
+ * rates add up to the ResumenFactura's `TotalImpuesto`.
+ */
+function taxBreakdown(document: DocumentoElectronico): TaxRateView[] {
+  const rates = new Map<
+    string,
+    { codigo: string; tarifa: number; base: Decimal; impuesto: Decimal; exonerado: Decimal }
+  >();
+
+  for (const linea of document.detalleServicio) {
+    for (const impuesto of linea.impuesto ?? []) {
+      const key = `${impuesto.codigo}:${String(impuesto.tarifa)}`;
+      const entry = rates.get(key) ?? {
+        codigo: impuesto.codigo,
+        tarifa: impuesto.tarifa,
+        base: Decimal.ZERO,
+        impuesto: Decimal.ZERO,
+        exonerado: Decimal.ZERO,
+      };
+      const exonerado = impuesto.exoneracion?.montoExoneracion ?? 0;
+      const base = IVA_TAX_CODES.includes(impuesto.codigo)
+        ? (linea.baseImponible ?? linea.subTotal)
+        : linea.subTotal;
+      entry.base = entry.base.plus(base);
+      entry.impuesto = entry.impuesto.plus(impuesto.monto).minus(exonerado);
+      entry.exonerado = entry.exonerado.plus(exonerado);
+      rates.set(key, entry);
+    }
+  }
+
+  return [...rates.values()]
+    .sort((a, b) => b.tarifa - a.tarifa || a.codigo.localeCompare(b.codigo))
+    .map((entry) => ({
+      ...entry,
+      label: `${TAX_LABELS[entry.codigo] ?? `Impuesto ${entry.codigo}`} ${String(entry.tarifa)}%`,
+      base: entry.base.round().toNumber(),
+      impuesto: entry.impuesto.round().toNumber(),
+      exonerado: entry.exonerado.round().toNumber(),
+    }));
+}
+
+/** Titles by the clave's type codes ({@link DocumentType}). */
+const DOCUMENT_TITLES: Readonly<Record<string, string>> = {
+  [DocumentType.FACTURA_ELECTRONICA]: "Factura Electrónica",
+  [DocumentType.NOTA_DEBITO]: "Nota de Débito Electrónica",
+  [DocumentType.NOTA_CREDITO]: "Nota de Crédito Electrónica",
+  [DocumentType.TIQUETE_ELECTRONICO]: "Tiquete Electrónico",
+  [DocumentType.FACTURA_COMPRA]: "Factura Electrónica de Compra",
+  [DocumentType.FACTURA_EXPORTACION]: "Factura Electrónica de Exportación",
+  [DocumentType.RECIBO_ELECTRONICO_PAGO]: "Recibo Electrónico de Pago",
+};
+
+/**
+ * Title for a type code. Codes 05-07 are Mensaje Receptor codes in the
+ * clave, so they can only come from the shared {@link DOCUMENT_TYPE_NAMES}
+ * numbering.
+ */
+function documentTitle(code: string): string | undefined {
+  return DOCUMENT_TITLES[code] ?? (DOCUMENT_TYPE_NAMES as Record<string, string>)[code];
+}
+
+function nameOf(names: Readonly<Record<string, string>>, code: string): string {
+  return names[code] ?? code;
+}
+
+/** Exact sum, rounded to 5 decimals (the precision of v4.4 amounts). */
+function sum(values: readonly (Decimal | number)[]): number {
+  return Decimal.sum(values).round().toNumber();
+}
@@ -0,0 +1,197 @@
+/**
+ * Built-in HTML layout of the representación gráfica.
+ *
+ * A single self-contained page (inline CSS, logo as a data: URI) that
+ * prints cleanly from a browser.
+ *
+ * @module render/html-template
+ */
+
+import { formatAmount, formatDate } from "./document-view.js";
+import type { DocumentView, PartyView } from "./document-view.js";
+import type { RenderAssets, RenderTemplate } from "./render-document.js";
+
+/** Default accent color for headings and table headers. */
+export const DEFAULT_ACCENT_COLOR = "#1f4e79";
+
+/** Default footer text. */
+export const DEFAULT_FOOTER = "Representación gráfica de un comprobante electrónico.";
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Renders a document view with the built-in HTML layout.
+ *
+ * @param view - The document view.
+ * @param template - Accent color, footer and extra CSS.
+ * @param assets - Logo data URI.
+ * @returns A complete HTML document.
+ */
+export function renderDefaultHtml(
+  view: DocumentView,
+  template: RenderTemplate,
+  assets: RenderAssets,
+): string {
+  const accent = template.accentColor ?? DEFAULT_ACCENT_COLOR;
+  const money = (value: number) => `${view.moneda} ${formatAmount(value)}`;
+
+  const totals: [string, number | undefined][] = [
+    ["Total gravado", view.totales.totalGravado],
+    ["Total exento", view.totales.totalExento],
+    ["Total exonerado", view.totales.totalExonerado],
+    ["Total venta", view.totales.totalVenta],
+    ["Descuentos", view.totales.totalDescuentos],
+    ["Venta neta", view.totales.totalVentaNeta],
+    ["Impuestos", view.totales.totalImpuesto],
+    ["IVA devuelto", view.totales.totalIVADevuelto],
+    ["Otros cargos", view.totales.totalOtrosCargos],
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${view.title} ${view.numeroConsecutivo}`)}</title>
+<style>
+${STYLES.replaceAll("{{accent}}", accent)}${template.css ? `\n${template.css}` : ""}
+</style>
+</head>
+<body>
+<header>
+  ${assets.logo ? `<img class="logo" src="${assets.logo}" alt="">` : ""}
+  <div class="heading">
+    <h1>${escapeHtml(view.title)}</h1>
+    <p>N.º ${escapeHtml(view.numeroConsecutivo)}</p>
+    <p>${escapeHtml(formatDate(view.fechaEmision))}</p>
+  </div>
+</header>
+<p class="clave">Clave: <span>${escapeHtml(view.clave)}</span></p>
+<section class="parties">
+  ${partyHtml("Emisor", view.emisor)}
+  ${view.receptor ? partyHtml("Receptor", view.receptor) : ""}
+</section>
+<section class="terms">
+  <p><strong>Condición de venta:</strong> ${escapeHtml(view.condicionVenta)}${
+    view.plazoCredito ? ` (${escapeHtml(view.plazoCredito)} días)` : ""
+  }</p>
+  <p><strong>Medio de pago:</strong> ${escapeHtml(view.mediosPago.join(", "))}</p>
+  <p><strong>Moneda:</strong> ${escapeHtml(view.moneda)}${
+    view.tipoCambio !== undefined ? ` (tipo de cambio ${formatAmount(view.tipoCambio)})` : ""
+  }</p>
+  <p><strong>Actividad económica:</strong> ${escapeHtml(view.codigoActividad)}</p>
+</section>
+<table class="lines">
+  <thead>
+    <tr><th>#</th><th>CABYS</th><th>Descripción</th><th>Cant.</th><th>Unidad</th><th>Precio unit.</th><th>Descuento</th><th>Impuesto</th><th>Total</th></tr>
+  </thead>
+  <tbody>
+${view.lineas
+  .map(
+    (linea) =>
+      `    <tr><td>${String(linea.numeroLinea)}</td><td>${escapeHtml(linea.codigoCabys)}</td><td>${escapeHtml(linea.detalle)}</td><td class="num">${formatAmount(linea.cantidad, 3)}</td><td>${escapeHtml(linea.unidadMedida)}</td><td class="num">${formatAmount(linea.precioUnitario)}</td><td class="num">${formatAmount(linea.descuento)}</td><td class="num">${formatAmount(linea.impuesto)}</td><td class="num">${formatAmount(linea.montoTotalLinea)}</td></tr>`,
+  )
+  .join("\n")}
+  </tbody>
+</table>
+${
+  view.otrosCargos.length > 0
+    ? `<table class="charges">
+  <thead><tr><th>Otros cargos</th><th>Monto</th></tr></thead>
+  <tbody>
+${view.otrosCargos.map((cargo) => `    <tr><td>${escapeHtml(cargo.detalle)}</td><td class="num">${formatAmount(cargo.monto)}</td></tr>`).join("\n")}
+  </tbody>
+</table>`
+    : ""
+}
+<section class="summary">
+  <table class="taxes">
+    <thead><tr><th>Impuesto</th><th>Base</th><th>Exonerado</th><th>Monto</th></tr></thead>
+    <tbody>
+${view.impuestos.map((tax) => `      <tr><td>${escapeHtml(tax.label)}</td><td class="num">${formatAmount(tax.base)}</td><td class="num">${formatAmount(tax.exonerado)}</td><td class="num">${formatAmount(tax.impuesto)}</td></tr>`).join("\n")}
+    </tbody>
+  </table>
+  <table class="totals">
+    <tbody>
+${totals
+  .filter((entry): entry is [string, number] => entry[1] !== undefined)
+  .map(([label, value]) => `      <tr><th>${label}</th><td class="num">${money(value)}</td></tr>`)
+  .join("\n")}
+      <tr class="grand"><th>Total comprobante</th><td class="num">${money(view.totales.totalComprobante)}</td></tr>
+    </tbody>
+  </table>
+</section>
+${
+  view.referencias.length > 0
+    ? `<section class="references">
+  <h2>Documentos de referencia</h2>
+${view.referencias.map((ref) => `  <p>${escapeHtml(ref.tipoDoc)} ${escapeHtml(ref.numero)} del ${escapeHtml(formatDate(ref.fechaEmision))}: ${escapeHtml(ref.razon)}</p>`).join("\n")}
+</section>`
+    : ""
+}
+${view.otros.length > 0 ? `<section class="notes">\n${view.otros.map((otro) => `  <p>${escapeHtml(otro)}</p>`).join("\n")}\n</section>` : ""}
+<footer>${escapeHtml(template.footer ?? DEFAULT_FOOTER)}</footer>
+</body>
+</html>
+`;
+}
+
+/**
+ * Escapes text for use in HTML content and attribute values.
+ *
+ * @param text - Untrusted text.
+ * @returns The escaped text.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+const STYLES = `body { font-family: Helvetica, Arial, sans-serif; font-size: 11px; color: #222; margin: 24px; }
+header { display: flex; justify-content: space-between; align-items: flex-start; }
+.logo { max-width: 180px; max-height: 80px; }
+.heading { text-align: right; margin-left: auto; }
+h1 { color: {{accent}}; font-size: 20px; margin: 0 0 4px; }
+h2 { color: {{accent}}; font-size: 13px; }
+.heading p { margin: 2px 0; }
+.clave span { font-family: monospace; }
+.parties { display: flex; gap: 24px; }
+.party { flex: 1; border: 1px solid #ccc; padding: 8px; }
+.party h2 { margin: 0 0 4px; }
+.party p, .terms p { margin: 2px 0; }
+table { border-collapse: collapse; width: 100%; margin-top: 12px; }
+th { background: {{accent}}; color: #fff; text-align: left; padding: 4px; }
+td { border-bottom: 1px solid #ddd; padding: 4px; vertical-align: top; }
+.num { text-align: right; white-space: nowrap; }
+.summary { display: flex; gap: 24px; align-items: flex-start; }
+.totals th { background: none; color: #222; text-align: right; font-weight: normal; }
+.totals .grand th, .totals .grand td { font-weight: bold; border-top: 2px solid {{accent}}; }
+footer { margin-top: 24px; font-size: 9px; color: #666; text-align: center; }
+@media print { body { margin: 0; } }`;
+
+function partyHtml(role: string, party: PartyView): string {
+  const rows = [
+    party.nombreComercial,
+    party.identificacion
+      ? `${party.tipoIdentificacion ? `${party.tipoIdentificacion}: ` : ""}${party.identificacion}`
+      : undefined,
+    party.correoElectronico,
+    party.telefono,
+    party.direccion,
+  ].filter((row): row is string => row !== undefined);
+
+  return `<div class="party">
+    <h2>${role}</h2>
+    <p><strong>${escapeHtml(party.nombre)}</strong></p>
+${rows.map((row) => `    <p>${escapeHtml(row)}</p>`).join("\n")}
+  </div>`;
+}
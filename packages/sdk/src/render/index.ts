@@ -0,0 +1,24 @@
+/**
+ * Render module — printable HTML and PDF representations of comprobantes.
+ *
+ * @module render
+ */
+
+export { renderDocument } from "./render-document.js";
+export type {
+  RenderAssets,
+  RenderFormat,
+  RenderOptions,
+  RenderTemplate,
+} from "./render-document.js";
+export { buildDocumentView, formatAmount, formatDate } from "./document-view.js";
+export type {
+  DocumentView,
+  LineView,
+  PartyView,
+  ReferenceView,
+  RenderableDocument,
+  TaxRateView,
+} from "./document-view.js";
+export { escapeHtml } from "./html-template.js";
+export type { PdfPageSize } from "./pdf-template.js";
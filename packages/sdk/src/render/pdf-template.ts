@@ -0,0 +1,539 @@
+/**
+ * Built-in PDF layout of the representación gráfica.
+ *
+ * Drawn with pdf-lib and the standard Helvetica fonts, so it runs
+ * offline with no native dependencies. Long documents flow onto extra
+ * pages; every page carries the footer and a page number. Text outside
+ * the WinAnsi character set of the standard fonts is replaced by "?".
+ *
+ * @module render/pdf-template
+ */
+
+import { PDFDocument, PageSizes, StandardFonts, rgb } from "pdf-lib";
+import type { PDFFont, PDFImage, PDFPage, RGB } from "pdf-lib";
+
+import { ValidationError } from "../errors.js";
+import { formatAmount, formatDate } from "./document-view.js";
+import type { DocumentView, PartyView } from "./document-view.js";
+import { DEFAULT_ACCENT_COLOR, DEFAULT_FOOTER } from "./html-template.js";
+import type { RenderTemplate } from "./render-document.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Page sizes supported by the PDF layout. */
+export type PdfPageSize = "letter" | "a4";
+
+/** Layout constants, in points. */
+const LAYOUT = {
+  margin: 40,
+  footerHeight: 30,
+  lineGap: 3,
+  bodySize: 8,
+  headingSize: 10,
+  titleSize: 16,
+  logoWidth: 150,
+  logoHeight: 60,
+} as const;
+
+/** Line-table columns: header, share of the page width, alignment. */
+const LINE_COLUMNS: readonly { header: string; width: number; align: "left" | "right" }[] = [
+  { header: "#", width: 0.04, align: "left" },
+  { header: "CABYS", width: 0.13, align: "left" },
+  { header: "Descripción", width: 0.27, align: "left" },
+  { header: "Cant.", width: 0.07, align: "right" },
+  { header: "Unidad", width: 0.07, align: "left" },
+  { header: "Precio unit.", width: 0.11, align: "right" },
+  { header: "Descuento", width: 0.09, align: "right" },
+  { header: "Impuesto", width: 0.1, align: "right" },
+  { header: "Total", width: 0.12, align: "right" },
+];
+
+const TEXT_COLOR = rgb(0.13, 0.13, 0.13);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const RULE_COLOR = rgb(0.8, 0.8, 0.8);
+const WHITE = rgb(1, 1, 1);
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Renders a document view with the built-in PDF layout.
+ *
+ * @param view - The document view.
+ * @param template - Accent color, footer and logo.
+ * @param pageSize - Page size (default: letter).
+ * @returns The PDF bytes.
+ * @throws {ValidationError} If the logo is neither PNG nor JPEG.
+ */
+export async function renderDefaultPdf(
+  view: DocumentView,
+  template: RenderTemplate,
+  pageSize: PdfPageSize = "letter",
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${view.title} ${view.numeroConsecutivo}`);
+  pdf.setSubject(view.clave);
+  pdf.setProducer("@dojocoding/hacienda-sdk");
+  pdf.setCreator("@dojocoding/hacienda-sdk");
+
+  const writer = new PdfWriter(
+    pdf,
+    await pdf.embedFont(StandardFonts.Helvetica),
+    await pdf.embedFont(StandardFonts.HelveticaBold),
+    pageSize === "a4" ? PageSizes.A4 : PageSizes.Letter,
+    parseColor(template.accentColor ?? DEFAULT_ACCENT_COLOR),
+  );
+  const logo = template.logo ? await embedLogo(pdf, template.logo) : undefined;
+
+  drawHeader(writer, view, logo);
+  drawParties(writer, view);
+  drawTerms(writer, view);
+  drawLines(writer, view);
+  drawOtherCharges(writer, view);
+  drawSummary(writer, view);
+  drawReferences(writer, view);
+  writer.drawFooters(template.footer ?? DEFAULT_FOOTER);
+
+  return pdf.save();
+}
+
+// ---------------------------------------------------------------------------
+// Sections
+// ---------------------------------------------------------------------------
+
+function drawHeader(writer: PdfWriter, view: DocumentView, logo: PDFImage | undefined): void {
+  const top = writer.y;
+  let logoBottom = top;
+  if (logo) {
+    const size = logo.scaleToFit(LAYOUT.logoWidth, LAYOUT.logoHeight);
+    writer.page.drawImage(logo, {
+      x: LAYOUT.margin,
+      y: top - size.height,
+      width: size.width,
+      height: size.height,
+    });
+    logoBottom = top - size.height;
+  }
+
+  writer.textRight(view.title, writer.right, LAYOUT.titleSize, { bold: true, accent: true });
+  writer.textRight(`N.º ${view.numeroConsecutivo}`, writer.right, LAYOUT.headingSize);
+  writer.textRight(formatDate(view.fechaEmision), writer.right, LAYOUT.headingSize);
+  writer.y = Math.min(writer.y, logoBottom) - 8;
+
+  writer.text(`Clave: ${view.clave}`, LAYOUT.margin, LAYOUT.headingSize);
+  writer.y -= 6;
+}
+
+function drawParties(writer: PdfWriter, view: DocumentView): void {
+  const columnWidth = (writer.width - 16) / 2;
+  const top = writer.y;
+
+  drawParty(writer, "Emisor", view.emisor, LAYOUT.margin, columnWidth);
+  const emisorBottom = writer.y;
+
+  let receptorBottom = top;
+  if (view.receptor) {
+    writer.y = top;
+    drawParty(writer, "Receptor", view.receptor, LAYOUT.margin + columnWidth + 16, columnWidth);
+    receptorBottom = writer.y;
+  }
+
+  writer.y = Math.min(emisorBottom, receptorBottom) - 6;
+}
+
+function drawParty(
+  writer: PdfWriter,
+  role: string,
+  party: PartyView,
+  x: number,
+  width: number,
+): void {
+  writer.text(role, x, LAYOUT.headingSize, { bold: true, accent: true });
+  writer.wrapped(party.nombre, x, width, LAYOUT.bodySize, { bold: true });
+  const rows = [
+    party.nombreComercial,
+    party.identificacion
+      ? `${party.tipoIdentificacion ? `${party.tipoIdentificacion}: ` : ""}${party.identificacion}`
+      : undefined,
+    party.correoElectronico,
+    party.telefono,
+    party.direccion,
+  ];
+  for (const row of rows) {
+    if (row !== undefined) writer.wrapped(row, x, width, LAYOUT.bodySize);
+  }
+}
+
+function drawTerms(writer: PdfWriter, view: DocumentView): void {
+  const terms = [
+    `Condición de venta: ${view.condicionVenta}${view.plazoCredito ? ` (${view.plazoCredito} días)` : ""}`,
+    `Medio de pago: ${view.mediosPago.join(", ")}`,
+    `Moneda: ${view.moneda}${view.tipoCambio !== undefined ? ` (tipo de cambio ${formatAmount(view.tipoCambio)})` : ""}`,
+    `Actividad económica: ${view.codigoActividad}`,
+  ];
+  for (const term of terms) {
+    writer.wrapped(term, LAYOUT.margin, writer.width, LAYOUT.bodySize);
+  }
+  writer.y -= 6;
+}
+
+function drawLines(writer: PdfWriter, view: DocumentView): void {
+  const widths = LINE_COLUMNS.map((column) => column.width * writer.width);
+  const header = () =>
+    writer.tableRow(
+      LINE_COLUMNS.map((c) => c.header),
+      widths,
+      LINE_COLUMNS,
+      true,
+    );
+
+  header();
+  for (const linea of view.lineas) {
+    const cells = [
+      String(linea.numeroLinea),
+      linea.codigoCabys,
+      linea.detalle,
+      formatAmount(linea.cantidad, 3),
+      linea.unidadMedida,
+      formatAmount(linea.precioUnitario),
+      formatAmount(linea.descuento),
+      formatAmount(linea.impuesto),
+      formatAmount(linea.montoTotalLinea),
+    ];
+    if (writer.ensureSpace(writer.rowHeight(cells, widths))) header();
+    writer.tableRow(cells, widths, LINE_COLUMNS, false);
+  }
+  writer.y -= 8;
+}
+
+function drawOtherCharges(writer: PdfWriter, view: DocumentView): void {
+  if (view.otrosCargos.length === 0) return;
+
+  const columns = [
+    { header: "Otros cargos", width: 0.8, align: "left" as const },
+    { header: "Monto", width: 0.2, align: "right" as const },
+  ];
+  const widths = columns.map((column) => column.width * writer.width);
+  writer.tableRow(
+    columns.map((c) => c.header),
+    widths,
+    columns,
+    true,
+  );
+  for (const cargo of view.otrosCargos) {
+    const cells = [cargo.detalle, formatAmount(cargo.monto)];
+    writer.ensureSpace(writer.rowHeight(cells, widths));
+    writer.tableRow(cells, widths, columns, false);
+  }
+  writer.y -= 8;
+}
+
+function drawSummary(writer: PdfWriter, view: DocumentView): void {
+  const totals: [string, number | undefined][] = [
+    ["Total gravado", view.totales.totalGravado],
+    ["Total exento", view.totales.totalExento],
+    ["Total exonerado", view.totales.totalExonerado],
+    ["Total venta", view.totales.totalVenta],
+    ["Descuentos", view.totales.totalDescuentos],
+    ["Venta neta", view.totales.totalVentaNeta],
+    ["Impuestos", view.totales.totalImpuesto],
+    ["IVA devuelto", view.totales.totalIVADevuelto],
+    ["Otros cargos", view.totales.totalOtrosCargos],
+  ];
+  const rows = totals.filter((entry): entry is [string, number] => entry[1] !== undefined);
+  const lineHeight = LAYOUT.bodySize + LAYOUT.lineGap + 2;
+  writer.ensureSpace(Math.max(rows.length + 2, view.impuestos.length + 2) * lineHeight + 8);
+
+  const top = writer.y;
+
+  // Tax breakdown by rate, left half
+  const taxColumns = [
+    { header: "Impuesto", width: 0.34, align: "left" as const },
+    { header: "Base", width: 0.22, align: "right" as const },
+    { header: "Exonerado", width: 0.22, align: "right" as const },
+    { header: "Monto", width: 0.22, align: "right" as const },
+  ];
+  const taxWidths = taxColumns.map((column) => column.width * writer.width * 0.55);
+  writer.tableRow(
+    taxColumns.map((c) => c.header),
+    taxWidths,
+    taxColumns,
+    true,
+  );
+  for (const tax of view.impuestos) {
+    writer.tableRow(
+      [tax.label, formatAmount(tax.base), formatAmount(tax.exonerado), formatAmount(tax.impuesto)],
+      taxWidths,
+      taxColumns,
+      false,
+    );
+  }
+  const taxBottom = writer.y;
+
+  // Totals, right half
+  writer.y = top;
+  const labelRight = writer.right - 110;
+  for (const [label, value] of rows) {
+    writer.textRight(label, labelRight, LAYOUT.bodySize, { muted: true, advance: false });
+    writer.textRight(`${view.moneda} ${formatAmount(value)}`, writer.right, LAYOUT.bodySize);
+  }
+  writer.rule(labelRight - 80, writer.right, 1.5, true);
+  writer.y -= 2;
+  writer.textRight("Total comprobante", labelRight, LAYOUT.headingSize, {
+    bold: true,
+    advance: false,
+  });
+  writer.textRight(
+    `${view.moneda} ${formatAmount(view.totales.totalComprobante)}`,
+    writer.right,
+    LAYOUT.headingSize,
+    { bold: true },
+  );
+
+  writer.y = Math.min(writer.y, taxBottom) - 10;
+}
+
+function drawReferences(writer: PdfWriter, view: DocumentView): void {
+  if (view.referencias.length > 0) {
+    writer.ensureSpace(30);
+    writer.text("Documentos de referencia", LAYOUT.margin, LAYOUT.headingSize, {
+      bold: true,
+      accent: true,
+    });
+    for (const ref of view.referencias) {
+      writer.wrapped(
+        `${ref.tipoDoc} ${ref.numero} del ${formatDate(ref.fechaEmision)}: ${ref.razon}`,
+        LAYOUT.margin,
+        writer.width,
+        LAYOUT.bodySize,
+      );
+    }
+    writer.y -= 6;
+  }
+
+  for (const otro of view.otros) {
+    writer.wrapped(otro, LAYOUT.margin, writer.width, LAYOUT.bodySize, { muted: true });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+interface TextStyle {
+  bold?: boolean;
+  accent?: boolean;
+  muted?: boolean;
+  /** Move the cursor down after drawing (default: true). */
+  advance?: boolean;
+}
+
+/** Cursor-based writer that adds pages as content flows. */
+class PdfWriter {
+  page: PDFPage;
+  y: number;
+  private readonly charsets = new Map<PDFFont, Set<number>>();
+
+  constructor(
+    private readonly pdf: PDFDocument,
+    private readonly font: PDFFont,
+    private readonly boldFont: PDFFont,
+    private readonly pageSize: [number, number],
+    private readonly accent: RGB,
+  ) {
+    this.page = pdf.addPage(pageSize);
+    this.y = this.top;
+  }
+
+  get width(): number {
+    return this.pageSize[0] - 2 * LAYOUT.margin;
+  }
+
+  get right(): number {
+    return this.pageSize[0] - LAYOUT.margin;
+  }
+
+  private get top(): number {
+    return this.pageSize[1] - LAYOUT.margin;
+  }
+
+  /** Starts a new page if `height` does not fit; returns whether it did. */
+  ensureSpace(height: number): boolean {
+    if (this.y - height >= LAYOUT.margin + LAYOUT.footerHeight) {
+      return false;
+    }
+    this.page = this.pdf.addPage(this.pageSize);
+    this.y = this.top;
+    return true;
+  }
+
+  text(value: string, x: number, size: number, style: TextStyle = {}): void {
+    const font = style.bold ? this.boldFont : this.font;
+    this.ensureSpace(size + LAYOUT.lineGap);
+    this.page.drawText(this.encodable(value, font), {
+      x,
+      y: this.y - size,
+      size,
+      font,
+      color: this.colorOf(style),
+    });
+    if (style.advance !== false) this.y -= size + LAYOUT.lineGap;
+  }
+
+  textRight(value: string, right: number, size: number, style: TextStyle = {}): void {
+    const font = style.bold ? this.boldFont : this.font;
+    const safe = this.encodable(value, font);
+    this.text(safe, right - font.widthOfTextAtSize(safe, size), size, style);
+  }
+
+  wrapped(value: string, x: number, width: number, size: number, style: TextStyle = {}): void {
+    const font = style.bold ? this.boldFont : this.font;
+    for (const line of this.wrap(value, font, size, width)) {
+      this.text(line, x, size, style);
+    }
+  }
+
+  rule(from: number, to: number, thickness = 0.5, accent = false): void {
+    this.page.drawLine({
+      start: { x: from, y: this.y },
+      end: { x: to, y: this.y },
+      thickness,
+      color: accent ? this.accent : RULE_COLOR,
+    });
+  }
+
+  rowHeight(cells: readonly string[], widths: readonly number[]): number {
+    const lines = Math.max(
+      ...cells.map(
+        (cell, i) => this.wrap(cell, this.font, LAYOUT.bodySize, (widths[i] ?? 0) - 4).length,
+      ),
+    );
+    return lines * (LAYOUT.bodySize + LAYOUT.lineGap) + 4;
+  }
+
+  /** Draws one table row; header rows get the accent background. */
+  tableRow(
+    cells: readonly string[],
+    widths: readonly number[],
+    columns: readonly { align: "left" | "right" }[],
+    header: boolean,
+  ): void {
+    const font = header ? this.boldFont : this.font;
+    const height = this.rowHeight(cells, widths);
+    this.ensureSpace(height);
+    const tableWidth = widths.reduce((total, w) => total + w, 0);
+
+    if (header) {
+      this.page.drawRectangle({
+        x: LAYOUT.margin,
+        y: this.y - height,
+        width: tableWidth,
+        height,
+        color: this.accent,
+      });
+    }
+
+    let x = LAYOUT.margin;
+    cells.forEach((cell, i) => {
+      const width = widths[i] ?? 0;
+      const lines = this.wrap(cell, font, LAYOUT.bodySize, width - 4);
+      lines.forEach((line, row) => {
+        const lineX =
+          columns[i]?.align === "right"
+            ? x + width - 2 - font.widthOfTextAtSize(line, LAYOUT.bodySize)
+            : x + 2;
+        this.page.drawText(line, {
+          x: lineX,
+          y: this.y - 2 - (row + 1) * (LAYOUT.bodySize + LAYOUT.lineGap) + LAYOUT.lineGap,
+          size: LAYOUT.bodySize,
+          font,
+          color: header ? WHITE : TEXT_COLOR,
+        });
+      });
+      x += width;
+    });
+
+    this.y -= height;
+    if (!header) this.rule(LAYOUT.margin, LAYOUT.margin + tableWidth);
+  }
+
+  /** Writes the footer and "Página n de m" on every page. */
+  drawFooters(footer: string): void {
+    const pages = this.pdf.getPages();
+    const safe = this.encodable(footer, this.font);
+    pages.forEach((page, i) => {
+      const y = LAYOUT.margin;
+      page.drawText(safe, { x: LAYOUT.margin, y, size: 7, font: this.font, color: MUTED_COLOR });
+      const number = `Página ${String(i + 1)} de ${String(pages.length)}`;
+      page.drawText(number, {
+        x: this.right - this.font.widthOfTextAtSize(number, 7),
+        y,
+        size: 7,
+        font: this.font,
+        color: MUTED_COLOR,
+      });
+    });
+  }
+
+  private wrap(value: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of this.encodable(value, font).split("\n")) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= width || !line) {
+          line = candidate;
+        } else {
+          lines.push(line);
+          line = word;
+        }
+        // Break words longer than the column
+        while (font.widthOfTextAtSize(line, size) > width && line.length > 1) {
+          let cut = line.length - 1;
+          while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > width) cut--;
+          lines.push(line.slice(0, cut));
+          line = line.slice(cut);
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  /** Replaces characters the standard font cannot encode. */
+  private encodable(value: string, font: PDFFont): string {
+    let charset = this.charsets.get(font);
+    if (!charset) {
+      charset = new Set(font.getCharacterSet());
+      this.charsets.set(font, charset);
+    }
+    const supported = charset;
+    return Array.from(value.replace(/\t/g, " "), (char) =>
+      char === "\n" || supported.has(char.codePointAt(0) ?? 0) ? char : "?",
+    ).join("");
+  }
+
+  private colorOf(style: TextStyle): RGB {
+    if (style.accent) return this.accent;
+    if (style.muted) return MUTED_COLOR;
+    return TEXT_COLOR;
+  }
+}
+
+async function embedLogo(pdf: PDFDocument, logo: Uint8Array): Promise<PDFImage> {
+  if (logo[0] === 0x89 && logo[1] === 0x50 && logo[2] === 0x4e && logo[3] === 0x47) {
+    return pdf.embedPng(logo);
+  }
+  if (logo[0] === 0xff && logo[1] === 0xd8) {
+    return pdf.embedJpg(logo);
+  }
+  throw new ValidationError("Logo must be a PNG or JPEG image.");
+}
+
+function parseColor(hex: string): RGB {
+  const value = Number.parseInt(hex.slice(1), 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
@@ -0,0 +1,127 @@
+/**
+ * Tests for the HTML and PDF representación gráfica.
+ */
+
+import { describe, it, expect } from "vitest";
+import { PDFDocument } from "pdf-lib";
+
+import { ValidationError } from "../errors.js";
+import { SIMPLE_NOTA_CREDITO, SIMPLE_TIQUETE } from "../__fixtures__/document-fixtures.js";
+import { buildNotaCreditoXml } from "../documents/nota-credito-builder.js";
+import { renderDocument } from "./render-document.js";
+
+/** 1x1 transparent PNG. */
+const PNG_LOGO = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
+  "base64",
+);
+
+describe("renderDocument (html)", () => {
+  it("renders the clave, parties, lines, tax breakdown and totals", async () => {
+    const html = await renderDocument(SIMPLE_NOTA_CREDITO);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain("<h1>Nota de Crédito Electrónica</h1>");
+    expect(html).toContain(SIMPLE_NOTA_CREDITO.clave);
+    expect(html).toContain("N.º 00100001030000000001");
+    expect(html).toContain("Empresa Test S.A.");
+    expect(html).toContain("Cliente Ejemplo S.R.L.");
+    expect(html).toContain("Devolucion parcial servicio consultoria");
+    expect(html).toContain("<td>IVA 13%</td>");
+    expect(html).toContain("CRC 56,500.00");
+    expect(html).toContain("Documentos de referencia");
+  });
+
+  it("escapes document text", async () => {
+    const html = await renderDocument({
+      ...SIMPLE_TIQUETE,
+      emisor: { ...SIMPLE_TIQUETE.emisor, nombre: "<script>alert(1)</script> & Co" },
+    });
+
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt; &amp; Co");
+    expect(html).not.toContain("<script>");
+  });
+
+  it("applies the template's logo, accent color, css and footer", async () => {
+    const html = await renderDocument(SIMPLE_TIQUETE, {
+      template: {
+        logo: PNG_LOGO,
+        accentColor: "#aa0000",
+        css: ".party { border: none; }",
+        footer: "Gracias por su compra",
+      },
+    });
+
+    expect(html).toContain(`src="data:image/png;base64,${PNG_LOGO.toString("base64")}"`);
+    expect(html).toContain("color: #aa0000");
+    expect(html).toContain(".party { border: none; }");
+    expect(html).toContain("<footer>Gracias por su compra</footer>");
+  });
+
+  it("uses a custom HTML template", async () => {
+    const html = await renderDocument(buildNotaCreditoXml(SIMPLE_NOTA_CREDITO), {
+      template: {
+        logo: PNG_LOGO,
+        html: (view, assets) =>
+          `${view.title}|${view.numeroConsecutivo}|${String(view.totales.totalComprobante)}|${assets.logo?.slice(0, 22) ?? ""}`,
+      },
+    });
+
+    expect(html).toBe(
+      "Nota de Crédito Electrónica|00100001030000000001|56500|data:image/png;base64,",
+    );
+  });
+
+  it("rejects an invalid accent color or logo", async () => {
+    await expect(
+      renderDocument(SIMPLE_TIQUETE, { template: { accentColor: "red;}" } }),
+    ).rejects.toThrow(ValidationError);
+    await expect(
+      renderDocument(SIMPLE_TIQUETE, { template: { logo: new Uint8Array([1, 2, 3]) } }),
+    ).rejects.toThrow(/PNG or JPEG/);
+  });
+});
+
+describe("renderDocument (pdf)", () => {
+  it("produces a PDF with document metadata", async () => {
+    const bytes = await renderDocument(SIMPLE_NOTA_CREDITO, {
+      format: "pdf",
+      template: { logo: PNG_LOGO },
+    });
+
+    expect(Buffer.from(bytes.subarray(0, 5)).toString("latin1")).toBe("%PDF-");
+    const pdf = await PDFDocument.load(bytes);
+    expect(pdf.getPageCount()).toBe(1);
+    expect(pdf.getTitle()).toBe("Nota de Crédito Electrónica 00100001030000000001");
+    expect(pdf.getSubject()).toBe(SIMPLE_NOTA_CREDITO.clave);
+  });
+
+  it("flows long documents onto extra pages", async () => {
+    const line = SIMPLE_TIQUETE.detalleServicio[0];
+    if (!line) throw new Error("fixture has no lines");
+    const bytes = await renderDocument(
+      {
+        ...SIMPLE_TIQUETE,
+        detalleServicio: Array.from({ length: 120 }, (_, i) => ({
+          ...line,
+          numeroLinea: i + 1,
+          detalle: `Servicio ${String(i + 1)} con una descripción larga que ocupa más de una línea en la tabla`,
+        })),
+      },
+      { format: "pdf", pageSize: "a4" },
+    );
+
+    const pdf = await PDFDocument.load(bytes);
+    expect(pdf.getPageCount()).toBeGreaterThan(2);
+    expect(pdf.getPage(0).getSize()).toEqual({ width: 595.28, height: 841.89 });
+  });
+
+  it("replaces characters the standard fonts cannot encode", async () => {
+    const bytes = await renderDocument(
+      { ...SIMPLE_TIQUETE, emisor: { ...SIMPLE_TIQUETE.emisor, nombre: "Café ☕ 東京" } },
+      { format: "pdf" },
+    );
+
+    expect((await PDFDocument.load(bytes)).getPageCount()).toBe(1);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Representación gráfica — printable HTML or PDF of a comprobante.
+ *
+ * Shows the clave, consecutivo, emisor and receptor, the lines, the
+ * tax breakdown by rate and the totals. Works on our own
+ * {@link DocumentoElectronico} objects and on supplier XML. The built-in
+ * layouts take a logo, accent color and footer; the HTML layout can be
+ * replaced entirely by a template function.
+ *
+ * @module render/render-document
+ */
+
+import { ValidationError } from "../errors.js";
+import { buildDocumentView } from "./document-view.js";
+import type { DocumentView, RenderableDocument } from "./document-view.js";
+import { renderDefaultHtml } from "./html-template.js";
+import { renderDefaultPdf } from "./pdf-template.js";
+import type { PdfPageSize } from "./pdf-template.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Output format of {@link renderDocument}. */
+export type RenderFormat = "html" | "pdf";
+
+/** Assets handed to a custom HTML template. */
+export interface RenderAssets {
+  /** The logo as a `data:` URI, if one was given. */
+  readonly logo?: string;
+}
+
+/** Customises the printed document. */
+export interface RenderTemplate {
+  /**
+   * Replaces the built-in HTML layout. Receives the document view and
+   * the logo as a data URI, and returns the complete HTML. Values in the
+   * view are not escaped; use {@link escapeHtml}.
+   */
+  readonly html?: (view: DocumentView, assets: RenderAssets) => string;
+  /** Extra CSS appended to the built-in HTML layout. */
+  readonly css?: string;
+  /** Logo shown in the header (PNG or JPEG bytes). */
+  readonly logo?: Uint8Array;
+  /** Accent color for headings and table headers, as "#rrggbb" (default: "#1f4e79"). */
+  readonly accentColor?: string;
+  /** Text at the bottom of the document (e.g. the authorising resolution). */
+  readonly footer?: string;
+}
+
+/** Options for {@link renderDocument}. */
+export interface RenderOptions {
+  /** Output format (default: "html"). */
+  readonly format?: RenderFormat;
+  /** Layout customisation. */
+  readonly template?: RenderTemplate;
+  /** PDF page size (default: "letter"). */
+  readonly pageSize?: PdfPageSize;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Renders the printable representation of a comprobante.
+ *
+ * @param document - Our document, a parsed comprobante ({@link parseDocumentXml}), or its XML.
+ * @param options - Format and template.
+ * @returns The HTML string, or the PDF bytes for `format: "pdf"`.
+ * @throws {ValidationError} If the XML cannot be parsed or is a
+ *   MensajeReceptor, or the accent color or logo is invalid.
+ *
+ * @example
+ * ```ts
+ * const pdf = await renderDocument(issued.document, {
+ *   format: "pdf",
+ *   template: { logo: await readFile("logo.png"), footer: "Gracias por su compra" },
+ * });
+ * await writeFile(`${issued.clave}.pdf`, pdf);
+ *
+ * // Supplier XML from the inbox
+ * const html = await renderDocument(entry.xml);
+ * ```
+ */
+export function renderDocument(
+  document: RenderableDocument,
+  options: RenderOptions & { readonly format: "pdf" },
+): Promise<Uint8Array>;
+export function renderDocument(
+  document: RenderableDocument,
+  options?: RenderOptions & { readonly format?: "html" },
+): Promise<string>;
+export function renderDocument(
+  document: RenderableDocument,
+  options?: RenderOptions,
+): Promise<string | Uint8Array>;
+export async function renderDocument(
+  document: RenderableDocument,
+  options: RenderOptions = {},
+): Promise<string | Uint8Array> {
+  const template = options.template ?? {};
+  if (template.accentColor !== undefined && !/^#[0-9a-f]{6}$/i.test(template.accentColor)) {
+    throw new ValidationError(
+      `Invalid accent color "${template.accentColor}". Use the "#rrggbb" form.`,
+    );
+  }
+
+  const view = buildDocumentView(document);
+
+  if (options.format === "pdf") {
+    return renderDefaultPdf(view, template, options.pageSize);
+  }
+
+  const assets: RenderAssets = template.logo ? { logo: toDataUri(template.logo) } : {};
+  return (template.html ?? ((v, a) => renderDefaultHtml(v, template, a)))(view, assets);
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function toDataUri(image: Uint8Array): string {
+  const mimeType =
+    image[0] === 0x89 && image[1] === 0x50
+      ? "image/png"
+      : image[0] === 0xff && image[1] === 0xd8
+        ? "image/jpeg"
+        : undefined;
+  if (!mimeType) {
+    throw new ValidationError("Logo must be a PNG or JPEG image.");
+  }
+  return `data:${mimeType};base64,${Buffer.from(image).toString("base64")}`;
+}
@@ -0,0 +1,22 @@
+/**
+ * Reporting module — monthly IVA declaration (D-104) worksheet.
+ *
+ * @module report
+ */
+
+export { buildIvaReport, ivaReportToCsv } from "./iva-report.js";
+export type {
+  IvaRateTotals,
+  IvaReport,
+  IvaSection,
+  PeriodDocuments,
+  ReceivedPurchase,
+  SkippedDocument,
+} from "./iva-report.js";
+
+export {
+  collectHaciendaDocuments,
+  collectLedgerDocuments,
+  collectXmlDocuments,
+} from "./period-documents.js";
+export type { LedgerSources } from "./period-documents.js";
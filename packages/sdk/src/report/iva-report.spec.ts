@@ -0,0 +1,200 @@
+/**
+ * Tests for the D-104 IVA worksheet.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { DocumentoElectronico, LineaDetalle } from "@dojocoding/hacienda-shared";
+
+import { ValidationError } from "../errors.js";
+import {
+  SIMPLE_FACTURA_COMPRA,
+  SIMPLE_FACTURA_EXPORTACION,
+  SIMPLE_NOTA_CREDITO,
+  SIMPLE_NOTA_DEBITO,
+  SIMPLE_RECIBO_PAGO,
+  SIMPLE_TIQUETE,
+} from "../__fixtures__/document-fixtures.js";
+import { buildIvaReport, ivaReportToCsv } from "./iva-report.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function line(
+  numeroLinea: number,
+  subTotal: number,
+  tax?: Partial<LineaDetalle["impuesto"]>[number],
+): LineaDetalle {
+  return {
+    numeroLinea,
+    codigoCabys: "4321000000000",
+    cantidad: 1,
+    unidadMedida: "Sp",
+    detalle: `Linea ${String(numeroLinea)}`,
+    precioUnitario: subTotal,
+    montoTotal: subTotal,
+    subTotal,
+    ...(tax ? { impuesto: [{ codigo: "01", tarifa: 13, monto: 0, ...tax }] } : {}),
+    montoTotalLinea: subTotal + (tax?.monto ?? 0),
+  } as LineaDetalle;
+}
+
+const FACTURA: DocumentoElectronico = {
+  ...SIMPLE_TIQUETE,
+  clave: "50610082500031012345670010000101000000000119999999",
+  numeroConsecutivo: "00100001010000000001",
+  fechaEmision: "2025-08-10T09:00:00-06:00",
+  detalleServicio: [
+    line(1, 100000, { codigoTarifa: "08", tarifa: 13, monto: 13000 }),
+    line(2, 20000),
+    line(3, 50000, {
+      codigoTarifa: "04",
+      tarifa: 4,
+      monto: 2000,
+      exoneracion: {
+        tipoDocumento: "01",
+        numeroDocumento: "AL-001",
+        nombreInstitucion: "Hacienda",
+        fechaEmision: "2025-01-01T00:00:00-06:00",
+        porcentajeExoneracion: 50,
+        montoExoneracion: 1000,
+      },
+    }),
+  ],
+};
+
+const SUPPLIER_FACTURA: DocumentoElectronico = {
+  ...FACTURA,
+  clave: "50610082500031099999990010000101000000000119999999",
+  detalleServicio: [line(1, 100000, { codigoTarifa: "08", tarifa: 13, monto: 13000 })],
+};
+
+const SUPPLIER_NOTA_CREDITO: DocumentoElectronico = {
+  ...SIMPLE_NOTA_CREDITO,
+  clave: "50615082500031099999990010000301000000000119999999",
+  fechaEmision: "2025-08-15T09:00:00-06:00",
+  detalleServicio: [line(1, 10000, { codigoTarifa: "08", tarifa: 13, monto: 1300 })],
+};
+
+// ---------------------------------------------------------------------------
+// buildIvaReport
+// ---------------------------------------------------------------------------
+
+describe("buildIvaReport", () => {
+  const report = buildIvaReport("2025-08", {
+    issued: [
+      FACTURA,
+      SIMPLE_NOTA_CREDITO,
+      SIMPLE_NOTA_DEBITO,
+      SIMPLE_FACTURA_EXPORTACION,
+      SIMPLE_FACTURA_COMPRA,
+      SIMPLE_RECIBO_PAGO,
+      SIMPLE_TIQUETE,
+    ],
+    received: [
+      { document: SUPPLIER_FACTURA, creditableIva: 6500 },
+      { document: SUPPLIER_NOTA_CREDITO },
+    ],
+    skipped: [{ clave: "otro.xml", reason: "Not a comprobante" }],
+  });
+
+  it("breaks sales down by rate code, exempt and exonerated", () => {
+    expect(report.ventas).toEqual({
+      porTarifa: [
+        { codigoTarifa: "04", tarifa: 4, base: 25000, impuesto: 1000 },
+        { codigoTarifa: "08", tarifa: 13, base: 125000, impuesto: 16250 },
+      ],
+      // 20,000 local plus USD 3,000 at 530.50
+      exentas: 1611500,
+      exoneradas: 25000,
+      impuestoExonerado: 1000,
+      impuesto: 17250,
+    });
+  });
+
+  it("reduces sales by the credit notes issued", () => {
+    expect(report.notasCredito.porTarifa).toEqual([
+      { codigoTarifa: "08", tarifa: 13, base: 50000, impuesto: 6500 },
+    ]);
+    expect(report.ventasNetas.porTarifa).toEqual([
+      { codigoTarifa: "04", tarifa: 4, base: 25000, impuesto: 1000 },
+      { codigoTarifa: "08", tarifa: 13, base: 75000, impuesto: 9750 },
+    ]);
+    expect(report.ventasNetas.impuesto).toBe(10750);
+    expect(report.debitoFiscal).toBe(10750);
+  });
+
+  it("credits IVA from accepted purchases and own facturas de compra", () => {
+    // 50,000 FEC + 100,000 supplier invoice - 10,000 supplier credit note
+    expect(report.compras.porTarifa).toEqual([
+      { codigoTarifa: "08", tarifa: 13, base: 140000, impuesto: 18200 },
+    ]);
+    // 6,500 FEC + 6,500 declared on the Mensaje Receptor - 1,300 credit note
+    expect(report.creditoFiscal).toBe(11700);
+    expect(report.impuestoPorPagar).toBe(0);
+    expect(report.saldoAFavor).toBe(950);
+  });
+
+  it("counts documents and lists the skipped ones", () => {
+    expect(report.documentos).toEqual({ ventas: 3, notasCredito: 1, compras: 3 });
+    expect(report.skipped).toEqual([
+      { clave: "otro.xml", reason: "Not a comprobante" },
+      { clave: SIMPLE_RECIBO_PAGO.clave, reason: "Recibo electrónico de pago" },
+      { clave: SIMPLE_TIQUETE.clave, reason: "Emitted outside 2025-08" },
+    ]);
+  });
+
+  it("infers the rate code from the percentage and reports the amount payable", () => {
+    const legacy = { ...FACTURA, detalleServicio: [line(1, 1000, { tarifa: 13, monto: 130 })] };
+
+    const result = buildIvaReport("2025-08", { issued: [legacy], received: [] });
+
+    expect(result.ventas.porTarifa).toEqual([
+      { codigoTarifa: "08", tarifa: 13, base: 1000, impuesto: 130 },
+    ]);
+    expect(result.impuestoPorPagar).toBe(130);
+    expect(result.saldoAFavor).toBe(0);
+  });
+
+  it("rejects a malformed period", () => {
+    expect(() => buildIvaReport("2025-13", { issued: [], received: [] })).toThrow(ValidationError);
+    expect(() => buildIvaReport("08/2025", { issued: [], received: [] })).toThrow(/YYYY-MM/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// ivaReportToCsv
+// ---------------------------------------------------------------------------
+
+describe("ivaReportToCsv", () => {
+  it("writes one row per figure", () => {
+    const csv = ivaReportToCsv(
+      buildIvaReport("2025-08", {
+        issued: [FACTURA],
+        received: [{ document: SUPPLIER_FACTURA }],
+      }),
+    );
+
+    expect(csv.split("\n")).toEqual([
+      "seccion,concepto,tarifa,base,impuesto",
+      "ventas,04,4,25000.00,1000.00",
+      "ventas,08,13,100000.00,13000.00",
+      "ventas,exentas,,20000.00,0.00",
+      "ventas,exoneradas,,25000.00,1000.00",
+      "notas_credito,exentas,,0.00,0.00",
+      "notas_credito,exoneradas,,0.00,0.00",
+      "ventas_netas,04,4,25000.00,1000.00",
+      "ventas_netas,08,13,100000.00,13000.00",
+      "ventas_netas,exentas,,20000.00,0.00",
+      "ventas_netas,exoneradas,,25000.00,1000.00",
+      "compras,08,13,100000.00,13000.00",
+      "compras,exentas,,0.00,0.00",
+      "compras,exoneradas,,0.00,0.00",
+      "resumen,debito_fiscal,,,14000.00",
+      "resumen,credito_fiscal,,,13000.00",
+      "resumen,impuesto_por_pagar,,,1000.00",
+      "resumen,saldo_a_favor,,,0.00",
+      "",
+    ]);
+  });
+});
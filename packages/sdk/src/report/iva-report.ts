@@ -0,0 +1,393 @@
+/**
+ * Monthly IVA declaration (D-104) worksheet.
+ *
+ * Aggregates a period's issued and received comprobantes into the
+ * figures the D-104 asks for: sales by IVA rate code, exempt and
+ * exonerated sales, credit-note reductions, creditable IVA from accepted
+ * purchases and the net amount payable. Amounts are in colones; foreign
+ * currency documents are converted with their own exchange rate.
+ *
+ * Use one of the collectors in `report/period-documents` to gather the
+ * documents, then {@link buildIvaReport} and {@link ivaReportToCsv}.
+ *
+ * @module report/iva-report
+ */
+
+import {
+  DocumentTypeCode,
+  IVA_RATE_PERCENTAGES,
+  IvaRateCode,
+  TaxCode,
+} from "@dojocoding/hacienda-shared";
+import type { DocumentoElectronico, LineaDetalle } from "@dojocoding/hacienda-shared";
+
+import { DocumentType } from "../clave/types.js";
+import { ValidationError } from "../errors.js";
+import { Decimal } from "../tax/decimal.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A supplier document the taxpayer accepted. */
+export interface ReceivedPurchase {
+  /** The supplier's comprobante. */
+  readonly document: DocumentoElectronico;
+  /**
+   * IVA credited on the Mensaje Receptor, in the document's currency
+   * (default: all of the document's IVA).
+   */
+  readonly creditableIva?: number;
+}
+
+/** A document left out of the report, and why. */
+export interface SkippedDocument {
+  /** 50-digit clave, or the file name when the clave is unknown. */
+  readonly clave: string;
+  /** Why it was left out. */
+  readonly reason: string;
+}
+
+/** A period's documents, as gathered by a collector. */
+export interface PeriodDocuments {
+  /** Comprobantes issued by the taxpayer. */
+  readonly issued: readonly DocumentoElectronico[];
+  /** Accepted supplier comprobantes. */
+  readonly received: readonly ReceivedPurchase[];
+  /** Documents found but not reported. */
+  readonly skipped?: readonly SkippedDocument[];
+}
+
+/** Taxable base and IVA for one rate code. */
+export interface IvaRateTotals {
+  /** IVA rate code (e.g. "08" for 13%). */
+  readonly codigoTarifa: IvaRateCode;
+  /** Rate percentage. */
+  readonly tarifa: number;
+  /** Taxable base, net of discounts and exonerations. */
+  readonly base: number;
+  /** IVA, net of exonerations. */
+  readonly impuesto: number;
+}
+
+/** Totals of one worksheet section. */
+export interface IvaSection {
+  /** Taxed amounts by rate code, in rate code order. */
+  readonly porTarifa: readonly IvaRateTotals[];
+  /** Lines without IVA or at the exempt rate. */
+  readonly exentas: number;
+  /** Exonerated share of taxed lines. */
+  readonly exoneradas: number;
+  /** IVA not charged because of exonerations. */
+  readonly impuestoExonerado: number;
+  /** Total IVA of the section. */
+  readonly impuesto: number;
+}
+
+/** The D-104 worksheet for one month. */
+export interface IvaReport {
+  /** Period as "YYYY-MM". */
+  readonly period: string;
+  /** Facturas, tiquetes, notas de débito and export invoices issued. */
+  readonly ventas: IvaSection;
+  /** Credit notes issued (positive amounts that reduce sales). */
+  readonly notasCredito: IvaSection;
+  /** Sales less credit notes. */
+  readonly ventasNetas: IvaSection;
+  /** Accepted purchases, less credit notes received. */
+  readonly compras: IvaSection;
+  /** IVA charged on net sales. */
+  readonly debitoFiscal: number;
+  /** IVA credited on accepted purchases. */
+  readonly creditoFiscal: number;
+  /** Debito fiscal less credito fiscal, when positive. */
+  readonly impuestoPorPagar: number;
+  /** Credito fiscal less debito fiscal, when positive. */
+  readonly saldoAFavor: number;
+  /** Number of documents in each section. */
+  readonly documentos: {
+    readonly ventas: number;
+    readonly notasCredito: number;
+    readonly compras: number;
+  };
+  /** Documents left out of the report. */
+  readonly skipped: readonly SkippedDocument[];
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds the D-104 worksheet for a month.
+ *
+ * Documents emitted outside the period are skipped. Credit notes reduce
+ * the section they belong to: issued ones reduce sales, received ones
+ * reduce purchases. Facturas electrónicas de compra issued by the
+ * taxpayer count as purchases; recibos electrónicos de pago are skipped.
+ *
+ * @param period - Month as "YYYY-MM".
+ * @param documents - The period's documents (see the collectors).
+ * @returns The worksheet, in colones.
+ * @throws {ValidationError} If the period is malformed.
+ *
+ * @example
+ * ```ts
+ * const documents = await collectLedgerDocuments("2026-09", {
+ *   documentStore: new FileDocumentStore(),
+ *   inboxStore: new FileInboxStore(),
+ * });
+ * const report = buildIvaReport("2026-09", documents);
+ * console.log(report.impuestoPorPagar);
+ * ```
+ */
+export function buildIvaReport(period: string, documents: PeriodDocuments): IvaReport {
+  assertPeriod(period);
+
+  const ventas = new SectionAccumulator();
+  const notasCredito = new SectionAccumulator();
+  const compras = new SectionAccumulator();
+  let creditoFiscal = Decimal.ZERO;
+  const counts = { ventas: 0, notasCredito: 0, compras: 0 };
+  const skipped: SkippedDocument[] = [...(documents.skipped ?? [])];
+
+  for (const document of documents.issued) {
+    const type = documentTypeOf(document);
+    if (!document.fechaEmision.startsWith(period)) {
+      skipped.push({ clave: document.clave, reason: `Emitted outside ${period}` });
+    } else if (RECIBO_TYPES.includes(type)) {
+      skipped.push({ clave: document.clave, reason: "Recibo electrónico de pago" });
+    } else if (COMPRA_TYPES.includes(type)) {
+      // Factura electrónica de compra: the taxpayer is the buyer
+      creditoFiscal = creditoFiscal.plus(compras.add(document, 1));
+      counts.compras++;
+    } else if (type === DocumentType.NOTA_CREDITO) {
+      notasCredito.add(document, 1);
+      counts.notasCredito++;
+    } else {
+      ventas.add(document, 1);
+      counts.ventas++;
+    }
+  }
+
+  for (const { document, creditableIva } of documents.received) {
+    if (!document.fechaEmision.startsWith(period)) {
+      skipped.push({ clave: document.clave, reason: `Emitted outside ${period}` });
+      continue;
+    }
+    const sign = documentTypeOf(document) === DocumentType.NOTA_CREDITO ? -1 : 1;
+    const iva = compras.add(document, sign);
+    creditoFiscal = creditoFiscal.plus(
+      creditableIva === undefined
+        ? iva
+        : Decimal.from(creditableIva)
+            .times(exchangeRate(document))
+            .times(sign)
+            .round(DECIMAL_PLACES),
+    );
+    counts.compras++;
+  }
+
+  const ventasNetas = ventas.toSection(notasCredito);
+  const debitoFiscal = Decimal.from(ventasNetas.impuesto);
+  const saldo = debitoFiscal.minus(creditoFiscal);
+
+  return {
+    period,
+    ventas: ventas.toSection(),
+    notasCredito: notasCredito.toSection(),
+    ventasNetas,
+    compras: compras.toSection(),
+    debitoFiscal: debitoFiscal.toNumber(),
+    creditoFiscal: creditoFiscal.toNumber(),
+    impuestoPorPagar: saldo.compare(0) > 0 ? saldo.toNumber() : 0,
+    saldoAFavor: saldo.compare(0) < 0 ? saldo.abs().toNumber() : 0,
+    documentos: counts,
+    skipped,
+  };
+}
+
+/**
+ * Formats a worksheet as CSV, one row per figure.
+ *
+ * Columns are `seccion,concepto,tarifa,base,impuesto`. Each section has
+ * a row per rate code plus `exentas` and `exoneradas` rows (the latter
+ * with the exonerated IVA); the `resumen` rows carry the debito and
+ * credito fiscal and the balance.
+ *
+ * @param report - The worksheet.
+ * @returns CSV text with a header row and a trailing newline.
+ */
+export function ivaReportToCsv(report: IvaReport): string {
+  const rows: (string | number)[][] = [["seccion", "concepto", "tarifa", "base", "impuesto"]];
+  const sections: [string, IvaSection][] = [
+    ["ventas", report.ventas],
+    ["notas_credito", report.notasCredito],
+    ["ventas_netas", report.ventasNetas],
+    ["compras", report.compras],
+  ];
+
+  for (const [name, section] of sections) {
+    for (const rate of section.porTarifa) {
+      rows.push([name, rate.codigoTarifa, rate.tarifa, money(rate.base), money(rate.impuesto)]);
+    }
+    rows.push([name, "exentas", "", money(section.exentas), money(0)]);
+    rows.push([
+      name,
+      "exoneradas",
+      "",
+      money(section.exoneradas),
+      money(section.impuestoExonerado),
+    ]);
+  }
+
+  rows.push(["resumen", "debito_fiscal", "", "", money(report.debitoFiscal)]);
+  rows.push(["resumen", "credito_fiscal", "", "", money(report.creditoFiscal)]);
+  rows.push(["resumen", "impuesto_por_pagar", "", "", money(report.impuestoPorPagar)]);
+  rows.push(["resumen", "saldo_a_favor", "", "", money(report.saldoAFavor)]);
+
+  return rows.map((row) => row.join(",")).join("\n") + "\n";
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Monetary precision of the worksheet. */
+const DECIMAL_PLACES = 2;
+
+/** Tax codes that are IVA (general, special calculation, used goods). */
+const IVA_TAX_CODES: readonly string[] = [
+  TaxCode.IVA,
+  TaxCode.IVA_CALCULO_ESPECIAL,
+  TaxCode.IVA_BIENES_USADOS,
+];
+
+/**
+ * Facturas electrónicas de compra and recibos de pago, by the clave's
+ * type codes ({@link DocumentType}) and the shared numbering
+ * ({@link DocumentTypeCode}). Codes 05-07 are Mensaje Receptor codes in
+ * the clave, so accepting both is unambiguous.
+ */
+const COMPRA_TYPES: readonly string[] = [
+  DocumentType.FACTURA_COMPRA,
+  DocumentTypeCode.FACTURA_ELECTRONICA_COMPRA,
+];
+const RECIBO_TYPES: readonly string[] = [
+  DocumentType.RECIBO_ELECTRONICO_PAGO,
+  DocumentTypeCode.RECIBO_ELECTRONICO_PAGO,
+];
+
+/** Rate codes in worksheet order. */
+const RATE_CODES = Object.values(IvaRateCode);
+
+interface RateAccumulator {
+  base: Decimal;
+  impuesto: Decimal;
+}
+
+/** Running totals of one section, in colones. */
+class SectionAccumulator {
+  private readonly rates = new Map<IvaRateCode, RateAccumulator>();
+  private exentas = Decimal.ZERO;
+  private exoneradas = Decimal.ZERO;
+  private impuestoExonerado = Decimal.ZERO;
+
+  /**
+   * Adds a document's lines with the given sign.
+   *
+   * @returns The document's IVA in colones, signed.
+   */
+  add(document: DocumentoElectronico, sign: 1 | -1): Decimal {
+    const rate = Decimal.from(exchangeRate(document)).times(sign);
+    const toColones = (amount: Decimal) => amount.times(rate).round(DECIMAL_PLACES);
+    let iva = Decimal.ZERO;
+
+    for (const line of document.detalleServicio) {
+      const base = Decimal.from(line.baseImponible ?? line.subTotal);
+      const tax = ivaTax(line);
+      const codigoTarifa = tax ? rateCodeOf(tax.codigoTarifa, tax.tarifa) : undefined;
+
+      if (!tax || !codigoTarifa || codigoTarifa === IvaRateCode.EXENTO) {
+        this.exentas = this.exentas.plus(toColones(base));
+        continue;
+      }
+
+      const exonerada = tax.exoneracion
+        ? base.percent(tax.exoneracion.porcentajeExoneracion).round(DECIMAL_PLACES)
+        : Decimal.ZERO;
+      const montoExonerado = Decimal.from(tax.exoneracion?.montoExoneracion ?? 0);
+      const impuesto = toColones(Decimal.from(tax.monto).minus(montoExonerado));
+
+      const totals = this.rates.get(codigoTarifa) ?? { base: Decimal.ZERO, impuesto: Decimal.ZERO };
+      totals.base = totals.base.plus(toColones(base.minus(exonerada)));
+      totals.impuesto = totals.impuesto.plus(impuesto);
+      this.rates.set(codigoTarifa, totals);
+
+      this.exoneradas = this.exoneradas.plus(toColones(exonerada));
+      this.impuestoExonerado = this.impuestoExonerado.plus(toColones(montoExonerado));
+      iva = iva.plus(impuesto);
+    }
+
+    return iva;
+  }
+
+  /** Snapshot of the totals, less another section's when given. */
+  toSection(less?: SectionAccumulator): IvaSection {
+    const porTarifa: IvaRateTotals[] = [];
+    let impuesto = Decimal.ZERO;
+    for (const codigoTarifa of RATE_CODES) {
+      const own = this.rates.get(codigoTarifa);
+      const other = less?.rates.get(codigoTarifa);
+      if (!own && !other) continue;
+      const base = (own?.base ?? Decimal.ZERO).minus(other?.base ?? Decimal.ZERO);
+      const rateImpuesto = (own?.impuesto ?? Decimal.ZERO).minus(other?.impuesto ?? Decimal.ZERO);
+      porTarifa.push({
+        codigoTarifa,
+        tarifa: IVA_RATE_PERCENTAGES[codigoTarifa],
+        base: base.toNumber(),
+        impuesto: rateImpuesto.toNumber(),
+      });
+      impuesto = impuesto.plus(rateImpuesto);
+    }
+
+    return {
+      porTarifa,
+      exentas: this.exentas.minus(less?.exentas ?? Decimal.ZERO).toNumber(),
+      exoneradas: this.exoneradas.minus(less?.exoneradas ?? Decimal.ZERO).toNumber(),
+      impuestoExonerado: this.impuestoExonerado
+        .minus(less?.impuestoExonerado ?? Decimal.ZERO)
+        .toNumber(),
+      impuesto: impuesto.toNumber(),
+    };
+  }
+}
+
+function assertPeriod(period: string): void {
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) {
+    throw new ValidationError(`Invalid period "${period}". Use YYYY-MM.`);
+  }
+}
+
+/** Type code from the numero consecutivo (positions 9-10). */
+function documentTypeOf(document: DocumentoElectronico): string {
+  return document.numeroConsecutivo.slice(8, 10);
+}
+
+function exchangeRate(document: DocumentoElectronico): number {
+  return document.resumenFactura.codigoTipoMoneda?.tipoCambio ?? 1;
+}
+
+/** The line's IVA tax, if any (a line carries at most one). */
+function ivaTax(line: LineaDetalle) {
+  return line.impuesto?.find((tax) => IVA_TAX_CODES.includes(tax.codigo));
+}
+
+/** Rate code as declared, or inferred from the percentage on older documents. */
+function rateCodeOf(codigoTarifa: IvaRateCode | undefined, tarifa: number) {
+  return codigoTarifa ?? RATE_CODES.find((code) => IVA_RATE_PERCENTAGES[code] === tarifa);
+}
+
+function money(value: number): string {
+  return value.toFixed(DECIMAL_PLACES);
+}
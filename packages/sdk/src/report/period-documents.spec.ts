@@ -0,0 +1,324 @@
+/**
+ * Tests for the IVA report document collectors.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type {
+  DocumentoElectronico,
+  FacturaElectronica,
+  MensajeReceptor,
+} from "@dojocoding/hacienda-shared";
+
+import type { HttpClient } from "../api/http-client.js";
+import {
+  MENSAJE_ACEPTACION_PARCIAL,
+  MENSAJE_ACEPTACION_TOTAL,
+  MENSAJE_RECHAZO,
+  SIMPLE_NOTA_CREDITO,
+  SIMPLE_NOTA_DEBITO,
+  SIMPLE_TIQUETE,
+  TIQUETE_WITH_RECEPTOR,
+} from "../__fixtures__/document-fixtures.js";
+import { buildFacturaXml } from "../documents/factura-builder.js";
+import { buildMensajeReceptorXml } from "../documents/mensaje-receptor-builder.js";
+import { buildNotaCreditoXml } from "../documents/nota-credito-builder.js";
+import { buildNotaDebitoXml } from "../documents/nota-debito-builder.js";
+import { buildTiqueteXml } from "../documents/tiquete-builder.js";
+import { FileInboxStore } from "../inbox/file-inbox-store.js";
+import type { InboxEntry } from "../inbox/inbox-store.js";
+import { buildDocumentRecord } from "../store/document-store.js";
+import { FileDocumentStore } from "../store/file-document-store.js";
+import { parseDocumentXml } from "../xml/parser.js";
+import {
+  collectHaciendaDocuments,
+  collectLedgerDocuments,
+  collectXmlDocuments,
+} from "./period-documents.js";
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+/** The taxpayer (emisor of the fixtures). */
+const CEDULA = "3101234567";
+
+/** A supplier invoice addressed to the taxpayer. */
+const SUPPLIER_FACTURA: FacturaElectronica = {
+  ...(TIQUETE_WITH_RECEPTOR as unknown as FacturaElectronica),
+  clave: "50612082500031098765430010000101000000000119999999",
+  numeroConsecutivo: "00100001010000000001",
+  fechaEmision: "2025-08-12T09:00:00-06:00",
+  emisor: { ...SIMPLE_TIQUETE.emisor, identificacion: { tipo: "02", numero: "3109876543" } },
+  receptor: { nombre: "Empresa Test S.A.", identificacion: { tipo: "02", numero: CEDULA } },
+};
+
+const ND_XML = buildNotaDebitoXml(SIMPLE_NOTA_DEBITO);
+const NC_XML = buildNotaCreditoXml(SIMPLE_NOTA_CREDITO);
+const SUPPLIER_XML = buildFacturaXml(SUPPLIER_FACTURA);
+
+/** Parses XML back the way the collectors do, for comparisons. */
+function parsed(xml: string): DocumentoElectronico {
+  const result = parseDocumentXml(xml);
+  if (result.rootElement === "MensajeReceptor") throw new Error("not a comprobante");
+  return result.document;
+}
+
+function base64(xml: string): string {
+  return Buffer.from(xml).toString("base64");
+}
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), "hacienda-period-documents-test-"));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// collectLedgerDocuments
+// ---------------------------------------------------------------------------
+
+describe("collectLedgerDocuments", () => {
+  function inboxEntry(clave: string, overrides: Partial<InboxEntry>): InboxEntry {
+    return {
+      clave,
+      numeroConsecutivo: SUPPLIER_FACTURA.numeroConsecutivo,
+      documentType: "01",
+      fechaEmision: SUPPLIER_FACTURA.fechaEmision,
+      codigoActividad: "620100",
+      emisor: { nombre: "Proveedor S.A.", identificacion: SUPPLIER_FACTURA.emisor.identificacion },
+      totals: { totalVentaNeta: 100000, totalImpuesto: 13000, totalComprobante: 113000 },
+      xml: SUPPLIER_XML,
+      checks: [],
+      status: "pendiente",
+      importedAt: "2025-08-12T10:00:00.000Z",
+      updatedAt: "2025-08-12T10:00:00.000Z",
+      ...overrides,
+    };
+  }
+
+  function response(mensaje: typeof MENSAJE_RECHAZO) {
+    return {
+      mensaje: mensaje.mensaje,
+      numeroConsecutivoReceptor: mensaje.numeroConsecutivoReceptor,
+      fechaEmision: "2025-08-13T10:00:00-06:00",
+      signedXml: base64(buildMensajeReceptorXml(mensaje)),
+    };
+  }
+
+  it("reads issued documents and accepted purchases of the period", async () => {
+    const documentStore = new FileDocumentStore({ configDir: directory });
+    const inboxStore = new FileInboxStore({ configDir: directory });
+
+    await documentStore.save({
+      ...buildDocumentRecord(SIMPLE_NOTA_DEBITO, "02", base64(ND_XML)),
+      status: "aceptado",
+    });
+    await documentStore.save({
+      ...buildDocumentRecord(SIMPLE_NOTA_CREDITO, "03", base64(NC_XML)),
+      status: "rechazado",
+    });
+    await documentStore.save(
+      buildDocumentRecord(SIMPLE_TIQUETE, "04", base64(buildTiqueteXml(SIMPLE_TIQUETE))),
+    );
+
+    const accepted = {
+      ...MENSAJE_ACEPTACION_PARCIAL,
+      clave: SUPPLIER_FACTURA.clave,
+      montoTotalImpuesto: 6500,
+    };
+    await inboxStore.save(
+      inboxEntry(SUPPLIER_FACTURA.clave, { status: "aceptado", response: response(accepted) }),
+    );
+    const pendingClave = SUPPLIER_FACTURA.clave.replace("0119999999", "0219999999");
+    await inboxStore.save(inboxEntry(pendingClave, {}));
+    const rejectedClave = SUPPLIER_FACTURA.clave.replace("0119999999", "0319999999");
+    await inboxStore.save(
+      inboxEntry(rejectedClave, { status: "aceptado", response: response(MENSAJE_RECHAZO) }),
+    );
+
+    const result = await collectLedgerDocuments("2025-08", { documentStore, inboxStore });
+
+    expect(result.issued).toEqual([parsed(ND_XML)]);
+    expect(result.received).toEqual([{ document: parsed(SUPPLIER_XML), creditableIva: 6500 }]);
+    expect(result.skipped).toEqual(
+      expect.arrayContaining([
+        { clave: SIMPLE_NOTA_CREDITO.clave, reason: 'Hacienda status "rechazado"' },
+        { clave: pendingClave, reason: "No Mensaje Receptor sent" },
+        { clave: rejectedClave, reason: "Rejected with a Mensaje Receptor" },
+      ]),
+    );
+    expect(result.skipped).toHaveLength(3);
+  });
+
+  it("returns nothing without stores", async () => {
+    expect(await collectLedgerDocuments("2025-08", {})).toEqual({
+      issued: [],
+      received: [],
+      skipped: [],
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// collectHaciendaDocuments
+// ---------------------------------------------------------------------------
+
+describe("collectHaciendaDocuments", () => {
+  it("downloads the accepted documents issued by and to the taxpayer", async () => {
+    const rejectedClave = SIMPLE_NOTA_CREDITO.clave;
+    const xmlByClave: Record<string, string> = {
+      [SIMPLE_NOTA_DEBITO.clave]: ND_XML,
+      [SUPPLIER_FACTURA.clave]: SUPPLIER_XML,
+    };
+    const get = vi.fn((path: string) => {
+      const list = (comprobantes: { clave: string; estado: string }[]) => ({
+        data: { totalRegistros: comprobantes.length, offset: 0, comprobantes },
+      });
+      if (path.includes("emisorIdentificacion")) {
+        return Promise.resolve(
+          list([
+            { clave: SIMPLE_NOTA_DEBITO.clave, estado: "aceptado" },
+            { clave: rejectedClave, estado: "rechazado" },
+          ]),
+        );
+      }
+      if (path.includes("receptorIdentificacion")) {
+        return Promise.resolve(list([{ clave: SUPPLIER_FACTURA.clave, estado: "aceptado" }]));
+      }
+      const clave = path.split("/").pop() ?? "";
+      return Promise.resolve({ data: { comprobanteXml: base64(xmlByClave[clave] ?? "") } });
+    });
+    const httpClient = { get } as unknown as HttpClient;
+
+    const result = await collectHaciendaDocuments(httpClient, "2025-08", CEDULA);
+
+    expect(result.issued).toEqual([parsed(ND_XML)]);
+    expect(result.received).toEqual([{ document: parsed(SUPPLIER_XML) }]);
+    expect(result.skipped).toEqual([
+      { clave: rejectedClave, reason: 'Hacienda status "rechazado"' },
+    ]);
+    const query = new URLSearchParams(String(get.mock.calls[0]?.[0]).split("?")[1]);
+    expect(query.get("emisorIdentificacion")).toBe(CEDULA);
+    expect(query.get("fechaEmisionDesde")).toBe("2025-08-01");
+    expect(query.get("fechaEmisionHasta")).toBe("2025-08-31");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// collectXmlDocuments
+// ---------------------------------------------------------------------------
+
+describe("collectXmlDocuments", () => {
+  it("sorts a folder into sales and purchases", async () => {
+    const outsider = {
+      ...SUPPLIER_FACTURA,
+      clave: SUPPLIER_FACTURA.clave.replace("0119999999", "0919999999"),
+      receptor: { ...SUPPLIER_FACTURA.receptor, identificacion: { tipo: "02", numero: "999" } },
+    } as FacturaElectronica;
+    const files: Record<string, string> = {
+      "venta.xml": ND_XML,
+      "compra.xml": SUPPLIER_XML,
+      "compra-mr.xml": buildMensajeReceptorXml({
+        ...MENSAJE_ACEPTACION_PARCIAL,
+        clave: SUPPLIER_FACTURA.clave,
+        condicionImpuesto: "04",
+      }),
+      "ajeno.xml": buildFacturaXml(outsider),
+      "julio.xml": buildTiqueteXml(SIMPLE_TIQUETE),
+      "respuesta.xml": "<MensajeHacienda><Clave>1</Clave></MensajeHacienda>",
+      "roto.xml": "<FacturaElectronica>",
+      "notas.txt": "not xml",
+    };
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(directory, name), content);
+    }
+
+    const result = await collectXmlDocuments(directory, "2025-08", CEDULA);
+
+    expect(result.issued).toEqual([parsed(ND_XML)]);
+    expect(result.received).toEqual([{ document: parsed(SUPPLIER_XML), creditableIva: 0 }]);
+    expect(result.skipped).toEqual([
+      { clave: "roto.xml", reason: expect.any(String) as string },
+      { clave: outsider.clave, reason: `Neither issued by nor to ${CEDULA}` },
+    ]);
+  });
+
+  it("leaves out purchases rejected with a Mensaje Receptor", async () => {
+    await writeFile(join(directory, "compra.xml"), SUPPLIER_XML);
+    await writeFile(
+      join(directory, "rechazo.xml"),
+      buildMensajeReceptorXml({ ...MENSAJE_RECHAZO, clave: SUPPLIER_FACTURA.clave }),
+    );
+
+    const result = await collectXmlDocuments(directory, "2025-08", CEDULA);
+
+    expect(result.received).toEqual([]);
+    expect(result.skipped).toEqual([
+      { clave: SUPPLIER_FACTURA.clave, reason: "Rejected with a Mensaje Receptor" },
+    ]);
+  });
+
+  describe("creditable IVA by condición del impuesto", () => {
+    async function collectWith(message: Partial<MensajeReceptor>) {
+      await writeFile(join(directory, "compra.xml"), SUPPLIER_XML);
+      await writeFile(
+        join(directory, "compra-mr.xml"),
+        buildMensajeReceptorXml({
+          ...MENSAJE_ACEPTACION_TOTAL,
+          clave: SUPPLIER_FACTURA.clave,
+          ...message,
+        }),
+      );
+      return collectXmlDocuments(directory, "2025-08", CEDULA);
+    }
+
+    it("credits the document's own IVA for 01, not montoTotalImpuesto", async () => {
+      const result = await collectWith({ condicionImpuesto: "01", montoTotalImpuesto: 99999 });
+      expect(result.received).toEqual([{ document: parsed(SUPPLIER_XML) }]);
+    });
+
+    it("credits the declared tax of a partial acceptance under 01", async () => {
+      const result = await collectWith({ mensaje: "2", montoTotalImpuesto: 6500 });
+      expect(result.received).toEqual([{ document: parsed(SUPPLIER_XML), creditableIva: 6500 }]);
+    });
+
+    it.each(["02", "03", "05"] as const)(
+      "leaves out %s without MontoTotalImpuestoAcreditable",
+      async (condicionImpuesto) => {
+        const result = await collectWith({ condicionImpuesto });
+
+        expect(result.received).toEqual([]);
+        expect(result.skipped).toEqual([
+          {
+            clave: SUPPLIER_FACTURA.clave,
+            reason: expect.stringContaining(`"${condicionImpuesto}"`) as string,
+          },
+        ]);
+      },
+    );
+
+    it("credits nothing for 04", async () => {
+      const result = await collectWith({ condicionImpuesto: "04" });
+      expect(result.received).toEqual([{ document: parsed(SUPPLIER_XML), creditableIva: 0 }]);
+    });
+
+    it.each(["01", "02", "03", "04", "05"] as const)(
+      "uses MontoTotalImpuestoAcreditable when present (%s)",
+      async (condicionImpuesto) => {
+        const result = await collectWith({
+          condicionImpuesto,
+          montoTotalImpuestoAcreditable: 4200,
+          montoTotalDeGastoAplicable: 30000,
+        });
+        expect(result.received).toEqual([{ document: parsed(SUPPLIER_XML), creditableIva: 4200 }]);
+      },
+    );
+  });
+});
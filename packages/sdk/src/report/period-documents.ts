@@ -0,0 +1,295 @@
+/**
+ * Collectors that gather a month's comprobantes for the IVA report.
+ *
+ * Three sources are supported: the local document ledger and inbox,
+ * Hacienda's comprobantes list, and a folder of XML files. Each returns
+ * the period's {@link PeriodDocuments} for {@link buildIvaReport}.
+ *
+ * @module report/period-documents
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { HaciendaStatus, MensajeReceptorCode } from "@dojocoding/hacienda-shared";
+import type { DocumentoElectronico, MensajeReceptor } from "@dojocoding/hacienda-shared";
+
+import { getComprobante, listComprobantes } from "../api/comprobantes.js";
+import type { HttpClient } from "../api/http-client.js";
+import { ValidationError } from "../errors.js";
+import type { InboxStore } from "../inbox/inbox-store.js";
+import type { DocumentStore } from "../store/document-store.js";
+import { parseDocumentXml } from "../xml/parser.js";
+import type { PeriodDocuments, ReceivedPurchase, SkippedDocument } from "./iva-report.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Local stores read by {@link collectLedgerDocuments}. */
+export interface LedgerSources {
+  /** Issued documents (e.g. a `FileDocumentStore`). */
+  readonly documentStore?: DocumentStore;
+  /** Received documents (e.g. a `FileInboxStore`). */
+  readonly inboxStore?: InboxStore;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Collects a month's documents from the local ledger and inbox.
+ *
+ * Issued documents rejected by Hacienda are skipped; pending ones are
+ * included. A supplier document counts as a purchase once the taxpayer's
+ * Mensaje Receptor accepting it (totally or partially) was accepted by
+ * Hacienda. The IVA credited is the message's
+ * `MontoTotalImpuestoAcreditable` when present; otherwise it follows the
+ * condición del impuesto (see {@link creditableFrom}).
+ *
+ * @param period - Month as "YYYY-MM".
+ * @param sources - The stores to read.
+ * @returns The period's documents.
+ *
+ * @example
+ * ```ts
+ * const documents = await collectLedgerDocuments("2026-09", {
+ *   documentStore: new FileDocumentStore(),
+ *   inboxStore: new FileInboxStore(),
+ * });
+ * ```
+ */
+export async function collectLedgerDocuments(
+  period: string,
+  sources: LedgerSources,
+): Promise<PeriodDocuments> {
+  const issued: DocumentoElectronico[] = [];
+  const received: ReceivedPurchase[] = [];
+  const skipped: SkippedDocument[] = [];
+
+  const records = sources.documentStore
+    ? await sources.documentStore.list(periodRange(period))
+    : [];
+  for (const record of records) {
+    if (!record.fechaEmision.startsWith(period)) continue;
+    if (record.status === HaciendaStatus.RECHAZADO || record.status === HaciendaStatus.ERROR) {
+      skipped.push({ clave: record.clave, reason: `Hacienda status "${record.status}"` });
+      continue;
+    }
+    issued.push(parseComprobante(Buffer.from(record.signedXml, "base64").toString("utf-8")));
+  }
+
+  const entries = sources.inboxStore ? await sources.inboxStore.list() : [];
+  for (const entry of entries) {
+    if (!entry.fechaEmision.startsWith(period)) continue;
+    const { response } = entry;
+    if (!response) {
+      skipped.push({ clave: entry.clave, reason: "No Mensaje Receptor sent" });
+    } else if (response.mensaje === MensajeReceptorCode.RECHAZADO) {
+      skipped.push({ clave: entry.clave, reason: "Rejected with a Mensaje Receptor" });
+    } else if (entry.status !== HaciendaStatus.ACEPTADO) {
+      skipped.push({ clave: entry.clave, reason: `Mensaje Receptor "${entry.status}"` });
+    } else {
+      const message = parseDocumentXml(Buffer.from(response.signedXml, "base64").toString("utf-8"));
+      const credit =
+        message.rootElement === "MensajeReceptor" ? creditableFrom(message.document) : {};
+      if (typeof credit === "string") {
+        skipped.push({ clave: entry.clave, reason: credit });
+      } else {
+        received.push({ document: parseComprobante(entry.xml), ...credit });
+      }
+    }
+  }
+
+  return { issued, received, skipped };
+}
+
+/**
+ * Collects a month's documents from Hacienda's comprobantes list.
+ *
+ * Reads the comprobantes issued by and to the taxpayer and downloads the
+ * XML of each. Rejected documents are skipped. Hacienda does not return
+ * the taxpayer's Mensaje Receptor here, so every supplier document it
+ * accepted counts as a purchase with all of its IVA credited.
+ *
+ * @param httpClient - Authenticated HTTP client.
+ * @param period - Month as "YYYY-MM".
+ * @param cedula - The taxpayer's identification number.
+ * @returns The period's documents.
+ */
+export async function collectHaciendaDocuments(
+  httpClient: HttpClient,
+  period: string,
+  cedula: string,
+): Promise<PeriodDocuments> {
+  const dates = {
+    fechaEmisionDesde: `${period}-01`,
+    fechaEmisionHasta: `${period}-${lastDayOf(period)}`,
+  };
+  const skipped: SkippedDocument[] = [];
+
+  const download = async (filter: "emisorIdentificacion" | "receptorIdentificacion") => {
+    const documents: DocumentoElectronico[] = [];
+    for (let offset = 0; ; offset += HACIENDA_PAGE_SIZE) {
+      const page = await listComprobantes(httpClient, {
+        offset,
+        limit: HACIENDA_PAGE_SIZE,
+        [filter]: cedula,
+        ...dates,
+      });
+      for (const item of page.comprobantes) {
+        if (item.estado === HaciendaStatus.RECHAZADO || item.estado === HaciendaStatus.ERROR) {
+          skipped.push({ clave: item.clave, reason: `Hacienda status "${item.estado}"` });
+          continue;
+        }
+        const detail = await getComprobante(httpClient, item.clave);
+        documents.push(
+          parseComprobante(Buffer.from(detail.comprobanteXml, "base64").toString("utf-8")),
+        );
+      }
+      if (page.comprobantes.length === 0 || offset + HACIENDA_PAGE_SIZE >= page.totalRegistros) {
+        return documents;
+      }
+    }
+  };
+
+  const issued = await download("emisorIdentificacion");
+  const received = (await download("receptorIdentificacion")).map((document) => ({ document }));
+  return { issued, received, skipped };
+}
+
+/**
+ * Collects a month's documents from a folder of XML files.
+ *
+ * Comprobantes issued by `cedula` are sales; those addressed to it are
+ * purchases. A Mensaje Receptor in the same folder sets the IVA credited
+ * on its document, and one that rejects it leaves the document out;
+ * purchases without one are credited in full. Files that are not
+ * comprobantes are skipped, Hacienda responses silently.
+ *
+ * @param directory - Folder to read (not recursive).
+ * @param period - Month as "YYYY-MM".
+ * @param cedula - The taxpayer's identification number.
+ * @returns The period's documents.
+ */
+export async function collectXmlDocuments(
+  directory: string,
+  period: string,
+  cedula: string,
+): Promise<PeriodDocuments> {
+  const fileNames = (await readdir(directory)).filter((name) => /\.xml$/i.test(name)).sort();
+  const comprobantes = new Map<string, DocumentoElectronico>();
+  const messages = new Map<string, MensajeReceptor>();
+  const skipped: SkippedDocument[] = [];
+
+  for (const fileName of fileNames) {
+    const xml = await readFile(join(directory, fileName), "utf-8");
+    if (xml.includes("<MensajeHacienda")) continue;
+    try {
+      const parsed = parseDocumentXml(xml);
+      if (parsed.rootElement === "MensajeReceptor") {
+        messages.set(parsed.document.clave, parsed.document);
+      } else if (parsed.document.fechaEmision.startsWith(period)) {
+        comprobantes.set(parsed.document.clave, parsed.document);
+      }
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      skipped.push({ clave: fileName, reason: error.message });
+    }
+  }
+
+  const issued: DocumentoElectronico[] = [];
+  const received: ReceivedPurchase[] = [];
+  for (const document of comprobantes.values()) {
+    const message = messages.get(document.clave);
+    if (document.emisor.identificacion.numero === cedula) {
+      issued.push(document);
+    } else if (document.receptor?.identificacion?.numero !== cedula) {
+      skipped.push({ clave: document.clave, reason: `Neither issued by nor to ${cedula}` });
+    } else if (message?.mensaje === MensajeReceptorCode.RECHAZADO) {
+      skipped.push({ clave: document.clave, reason: "Rejected with a Mensaje Receptor" });
+    } else {
+      const credit = message ? creditableFrom(message) : {};
+      if (typeof credit === "string") {
+        skipped.push({ clave: document.clave, reason: credit });
+      } else {
+        received.push({ document, ...credit });
+      }
+    }
+  }
+
+  return { issued, received, skipped };
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Page size used when reading Hacienda's comprobantes list. */
+const HACIENDA_PAGE_SIZE = 100;
+
+/** Condición del impuesto codes (Mensaje Receptor). */
+const CondicionImpuesto = {
+  /** Full IVA credit. */
+  CREDITO_TOTAL: "01",
+  /** Current expense, no IVA credit. */
+  GASTO_SIN_CREDITO: "04",
+} as const;
+
+/** Start and end of the month in Costa Rica time. */
+function periodRange(period: string): { from: Date; to: Date } {
+  return {
+    from: new Date(`${period}-01T00:00:00-06:00`),
+    to: new Date(`${period}-${lastDayOf(period)}T23:59:59.999-06:00`),
+  };
+}
+
+/** Last day of the month as "DD". */
+function lastDayOf(period: string): string {
+  const [year, month] = period.split("-").map(Number);
+  // Day 0 of the next month is the last day of this one
+  return String(new Date(Date.UTC(year ?? 0, month ?? 0, 0)).getUTCDate()).padStart(2, "0");
+}
+
+function parseComprobante(xml: string): DocumentoElectronico {
+  const parsed = parseDocumentXml(xml);
+  if (parsed.rootElement === "MensajeReceptor") {
+    throw new ValidationError(
+      `Expected a comprobante, got a MensajeReceptor for ${parsed.document.clave}.`,
+    );
+  }
+  return parsed.document;
+}
+
+/**
+ * IVA credited on a Mensaje Receptor.
+ *
+ * `MontoTotalImpuestoAcreditable` wins when present. Without it, "04"
+ * credits nothing, and a partial acceptance under "01" (or no condition)
+ * credits its declared `MontoTotalImpuesto`; otherwise the document's
+ * own IVA is used (`montoTotalImpuesto` may include non-IVA taxes).
+ * Partial credit, capital goods and proportionality ("02", "03", "05")
+ * need the creditable amount, so without it the purchase is left out.
+ *
+ * @returns The credit, or the reason the purchase is skipped.
+ */
+function creditableFrom(message: MensajeReceptor): { creditableIva?: number } | string {
+  if (message.montoTotalImpuestoAcreditable !== undefined) {
+    return { creditableIva: message.montoTotalImpuestoAcreditable };
+  }
+
+  const condicion = message.condicionImpuesto ?? CondicionImpuesto.CREDITO_TOTAL;
+  if (condicion === CondicionImpuesto.GASTO_SIN_CREDITO) {
+    return { creditableIva: 0 };
+  }
+  if (condicion !== CondicionImpuesto.CREDITO_TOTAL) {
+    return (
+      `Condición del impuesto "${condicion}" needs MontoTotalImpuestoAcreditable ` +
+      `on the Mensaje Receptor; declare this purchase's credit manually`
+    );
+  }
+  return message.mensaje === MensajeReceptorCode.ACEPTADO_PARCIALMENTE &&
+    message.montoTotalImpuesto !== undefined
+    ? { creditableIva: message.montoTotalImpuesto }
+    : {};
+}
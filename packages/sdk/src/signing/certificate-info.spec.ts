@@ -0,0 +1,170 @@
+/**
+ * Tests for certificate inspection.
+ *
+ * Uses a self-signed certificate generated at runtime whose subject
+ * mimics a BCCR "Firma Digital" certificate for a persona física.
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import { execSync } from "node:child_process";
+import { readFileSync, mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+import { inspectCertificate, inspectP12 } from "./certificate-info.js";
+import { SigningError } from "../errors.js";
+
+// ---------------------------------------------------------------------------
+// Setup: Generate a self-signed certificate with a cédula in the subject
+// ---------------------------------------------------------------------------
+
+const TEST_P12_PIN = "test1234";
+const SUBJECT = "/CN=JUAN PEREZ MORA (FIRMA)/serialNumber=CPF-01-0123-0456/O=PERSONA FISICA/C=CR";
+
+let tempDir: string;
+let certPem: string;
+let p12Buffer: Buffer;
+let validFrom: Date;
+
+beforeAll(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "hacienda-cert-test-"));
+
+  const keyPath = join(tempDir, "test.key");
+  const certPath = join(tempDir, "test.crt");
+  const p12Path = join(tempDir, "test.p12");
+
+  try {
+    execSync(`openssl genrsa -out "${keyPath}" 2048`, { stdio: "pipe" });
+    execSync(
+      `openssl req -new -x509 -key "${keyPath}" -out "${certPath}" -days 100 -subj "${SUBJECT}"`,
+      { stdio: "pipe" },
+    );
+    try {
+      execSync(
+        `openssl pkcs12 -export -out "${p12Path}" -inkey "${keyPath}" -in "${certPath}" -passout pass:${TEST_P12_PIN} -legacy`,
+        { stdio: "pipe" },
+      );
+    } catch {
+      execSync(
+        `openssl pkcs12 -export -out "${p12Path}" -inkey "${keyPath}" -in "${certPath}" -passout pass:${TEST_P12_PIN}`,
+        { stdio: "pipe" },
+      );
+    }
+
+    certPem = readFileSync(certPath, "utf-8");
+    p12Buffer = readFileSync(p12Path);
+    validFrom = new Date(inspectCertificate(certPem).validFrom);
+  } catch (error) {
+    console.warn("openssl not available, certificate tests will be skipped:", error);
+  }
+
+  return () => {
+    try {
+      rmSync(tempDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  };
+});
+
+function daysAfterIssue(days: number): Date {
+  return new Date(validFrom.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+// ---------------------------------------------------------------------------
+// inspectCertificate
+// ---------------------------------------------------------------------------
+
+describe("inspectCertificate", () => {
+  it("extracts subject, cédula, issuer and validity", () => {
+    if (!certPem) return;
+
+    const info = inspectCertificate(certPem, { now: daysAfterIssue(10) });
+
+    expect(info.commonName).toBe("JUAN PEREZ MORA (FIRMA)");
+    expect(info.cedula).toBe("101230456");
+    expect(info.subject).toContain("serialNumber=CPF-01-0123-0456");
+    expect(info.issuer).toContain("O=PERSONA FISICA");
+    expect(info.serialNumber).toMatch(/^[0-9A-F]+$/);
+    expect(info.daysUntilExpiry).toBe(90);
+    expect(info.expired).toBe(false);
+    expect(info.warnings).toEqual([]);
+  });
+
+  it("warns when the certificate expires within the warning window", () => {
+    if (!certPem) return;
+
+    const info = inspectCertificate(certPem, { now: daysAfterIssue(80) });
+
+    expect(info.daysUntilExpiry).toBe(20);
+    expect(info.warnings).toHaveLength(1);
+    expect(info.warnings[0]).toMatch(/expires in 20 day/);
+  });
+
+  it("honours a custom warning window", () => {
+    if (!certPem) return;
+
+    const info = inspectCertificate(certPem, { now: daysAfterIssue(10), warningDays: 90 });
+
+    expect(info.warnings[0]).toMatch(/expires in 90 day/);
+  });
+
+  it("flags expired certificates", () => {
+    if (!certPem) return;
+
+    const info = inspectCertificate(certPem, { now: daysAfterIssue(101) });
+
+    expect(info.expired).toBe(true);
+    expect(info.daysUntilExpiry).toBeLessThan(0);
+    expect(info.warnings[0]).toMatch(/expired on .*code 11/);
+  });
+
+  it("accepts an expected cédula with different formatting", () => {
+    if (!certPem) return;
+
+    const info = inspectCertificate(certPem, {
+      now: daysAfterIssue(10),
+      expectedCedula: "0101230456",
+    });
+
+    expect(info.warnings).toEqual([]);
+  });
+
+  it("warns when the cédula does not match the expected one", () => {
+    if (!certPem) return;
+
+    const info = inspectCertificate(certPem, {
+      now: daysAfterIssue(10),
+      expectedCedula: "3101234567",
+    });
+
+    expect(info.warnings).toEqual([
+      "Certificate cédula 101230456 does not match the expected cédula 3101234567.",
+    ]);
+  });
+
+  it("throws SigningError for invalid certificate data", () => {
+    expect(() => inspectCertificate("not a certificate")).toThrow(SigningError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// inspectP12
+// ---------------------------------------------------------------------------
+
+describe("inspectP12", () => {
+  it("inspects the certificate inside a .p12 file", async () => {
+    if (!p12Buffer) return;
+
+    const info = await inspectP12(p12Buffer, TEST_P12_PIN, { now: daysAfterIssue(1) });
+
+    expect(info.cedula).toBe("101230456");
+    expect(info.daysUntilExpiry).toBe(99);
+  });
+
+  it("throws SigningError for a wrong PIN", async () => {
+    if (!p12Buffer) return;
+
+    await expect(inspectP12(p12Buffer, "wrong-pin")).rejects.toThrow(SigningError);
+  });
+});
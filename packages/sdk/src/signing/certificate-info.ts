@@ -0,0 +1,205 @@
+/**
+ * Certificate inspection for Hacienda signing certificates.
+ *
+ * Reports who a certificate belongs to and how long it remains valid.
+ * Hacienda rejects documents signed with an expired certificate
+ * (code "11"), so expiry is surfaced as warnings well before it lapses.
+ *
+ * BCCR "Firma Digital" certificates carry the holder's cédula in the
+ * subject `serialNumber` attribute (e.g. `CPF-01-0123-0456` for a
+ * persona física, `CPJ-3-101-123456` for a persona jurídica).
+ *
+ * @module signing/certificate-info
+ */
+
+import { X509Certificate } from "node:crypto";
+
+import { SigningError } from "../errors.js";
+import { loadP12 } from "./p12-loader.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Details and expiry status of an X.509 signing certificate. */
+export interface CertificateInfo {
+  /** Subject distinguished name. */
+  readonly subject: string;
+  /** Subject common name (holder's name), if present. */
+  readonly commonName?: string;
+  /** Holder's cédula (digits only) from the subject `serialNumber`, if present. */
+  readonly cedula?: string;
+  /** Issuer distinguished name. */
+  readonly issuer: string;
+  /** Certificate serial number (hex). */
+  readonly serialNumber: string;
+  /** Start of the validity window (ISO 8601). */
+  readonly validFrom: string;
+  /** End of the validity window (ISO 8601). */
+  readonly validTo: string;
+  /** Whole days until `validTo` (negative once expired). */
+  readonly daysUntilExpiry: number;
+  /** Whether the certificate is outside its validity window. */
+  readonly expired: boolean;
+  /** Human-readable warnings (expiry, cédula mismatch). Empty if none. */
+  readonly warnings: readonly string[];
+}
+
+/** Options for {@link inspectCertificate} and {@link inspectP12}. */
+export interface InspectCertificateOptions {
+  /** Cédula the certificate should belong to (e.g. the profile's `cedula`). */
+  readonly expectedCedula?: string;
+  /** Warn when the certificate expires within this many days (default: 30). */
+  readonly warningDays?: number;
+  /** Reference time for expiry calculations (default: now). */
+  readonly now?: Date;
+}
+
+/** Default configuration values. */
+const DEFAULTS = {
+  warningDays: 30,
+} as const;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Inspects an X.509 certificate.
+ *
+ * @param certificate - PEM string or DER bytes of the certificate.
+ * @param options - Expected cédula, warning threshold and reference time.
+ * @returns Certificate details, expiry status and warnings.
+ * @throws {SigningError} If the certificate cannot be parsed.
+ *
+ * @example
+ * ```ts
+ * const info = inspectCertificate(credentials.certificatePem, { expectedCedula: "3101234567" });
+ * console.log(`${info.commonName} — expires in ${info.daysUntilExpiry} days`);
+ * ```
+ */
+export function inspectCertificate(
+  certificate: string | Uint8Array,
+  options: InspectCertificateOptions = {},
+): CertificateInfo {
+  let x509: X509Certificate;
+  try {
+    x509 = new X509Certificate(certificate);
+  } catch (error) {
+    throw new SigningError(
+      `Cannot read certificate: ${error instanceof Error ? error.message : String(error)}`,
+      error,
+    );
+  }
+
+  const now = options.now ?? new Date();
+  const validFrom = new Date(x509.validFrom);
+  const validTo = new Date(x509.validTo);
+  const subject = parseDistinguishedName(x509.subject);
+  const cedula = extractCedula(subject.get("serialNumber"));
+
+  const daysUntilExpiry = Math.floor((validTo.getTime() - now.getTime()) / MS_PER_DAY);
+  const expired = now > validTo || now < validFrom;
+
+  const warnings: string[] = [];
+  const warningDays = options.warningDays ?? DEFAULTS.warningDays;
+  if (now < validFrom) {
+    warnings.push(`Certificate is not valid until ${validFrom.toISOString()}.`);
+  } else if (now > validTo) {
+    warnings.push(
+      `Certificate expired on ${validTo.toISOString()}. ` +
+        `Hacienda rejects documents signed with it (code 11).`,
+    );
+  } else if (daysUntilExpiry <= warningDays) {
+    warnings.push(
+      `Certificate expires in ${daysUntilExpiry} day(s), on ${validTo.toISOString()}. ` +
+        `Renew it before it lapses.`,
+    );
+  }
+
+  if (options.expectedCedula !== undefined) {
+    if (!cedula) {
+      warnings.push(`Certificate subject has no cédula to compare with ${options.expectedCedula}.`);
+    } else if (normalizeCedula(cedula) !== normalizeCedula(options.expectedCedula)) {
+      warnings.push(
+        `Certificate cédula ${cedula} does not match the expected cédula ${options.expectedCedula}.`,
+      );
+    }
+  }
+
+  return {
+    subject: formatDistinguishedName(x509.subject),
+    commonName: subject.get("CN"),
+    cedula,
+    issuer: formatDistinguishedName(x509.issuer),
+    serialNumber: x509.serialNumber,
+    validFrom: validFrom.toISOString(),
+    validTo: validTo.toISOString(),
+    daysUntilExpiry,
+    expired,
+    warnings,
+  };
+}
+
+/**
+ * Loads a .p12 file and inspects its certificate.
+ *
+ * @param p12Buffer - Raw bytes of the .p12 file.
+ * @param pin - Password/PIN for the .p12 file.
+ * @param options - Expected cédula, warning threshold and reference time.
+ * @returns Certificate details, expiry status and warnings.
+ * @throws {SigningError} If the .p12 cannot be opened or the certificate parsed.
+ *
+ * @example
+ * ```ts
+ * const info = await inspectP12(readFileSync("firma.p12"), pin, { expectedCedula: "3101234567" });
+ * for (const warning of info.warnings) console.warn(warning);
+ * ```
+ */
+export async function inspectP12(
+  p12Buffer: Buffer,
+  pin: string,
+  options: InspectCertificateOptions = {},
+): Promise<CertificateInfo> {
+  const credentials = await loadP12(p12Buffer, pin);
+  return inspectCertificate(credentials.certificatePem, options);
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Parses Node's newline-separated `key=value` DN into a map (first value wins). */
+function parseDistinguishedName(dn: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const line of dn.split("\n")) {
+    const separator = line.indexOf("=");
+    if (separator <= 0) continue;
+    const key = line.slice(0, separator);
+    if (!attributes.has(key)) {
+      attributes.set(key, line.slice(separator + 1));
+    }
+  }
+  return attributes;
+}
+
+function formatDistinguishedName(dn: string): string {
+  return dn.split("\n").join(", ");
+}
+
+/**
+ * Extracts the cédula digits from a subject serialNumber such as
+ * `CPF-01-0123-0456` or `CPJ-3-101-123456`. Leading zeros from the
+ * padded province digit are dropped.
+ */
+function extractCedula(serialNumber: string | undefined): string | undefined {
+  if (!serialNumber) return undefined;
+  const digits = serialNumber.replace(/^[A-Z]{3}-/i, "").replace(/\D/g, "");
+  return digits ? normalizeCedula(digits) : undefined;
+}
+
+function normalizeCedula(cedula: string): string {
+  return cedula.replace(/\D/g, "").replace(/^0+/, "");
+}
@@ -1,12 +1,22 @@
 /**
  * Signing module — XAdES-EPES digital signature for Hacienda documents.
  *
- * Provides .p12 certificate loading and XML signing according to
- * Hacienda v4.4 requirements (XAdES-EPES v1.3.2+, RSA 2048 + SHA-256).
+ * Provides .p12 certificate loading and inspection, XML signing and
+ * signature verification according to Hacienda v4.4 requirements
+ * (XAdES-EPES v1.3.2+, RSA 2048 + SHA-256).
  *
  * @module signing
  */
 
 export { loadP12 } from "./p12-loader.js";
+export { inspectCertificate, inspectP12 } from "./certificate-info.js";
+export type { CertificateInfo, InspectCertificateOptions } from "./certificate-info.js";
 export { signXml, signAndEncode } from "./signer.js";
+export { verifyXmlSignature } from "./verifier.js";
+export type {
+  SignatureCheck,
+  SignatureChecks,
+  SignatureCertificateInfo,
+  SignatureVerificationReport,
+} from "./verifier.js";
 export type { P12Credentials, SignXmlOptions, XadesPolicyConfig } from "./types.js";
@@ -13,6 +13,8 @@ import { readFileSync, mkdtempSync, rmSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 
+import { XADES_POLICY_HASH, XADES_POLICY_URI } from "@dojocoding/hacienda-shared";
+
 import { signXml, signAndEncode } from "./signer.js";
 import { loadP12 } from "./p12-loader.js";
 import { SigningError } from "../errors.js";
@@ -171,6 +173,15 @@ describe("signXml", () => {
     expect(signedXml).toContain("SignedProperties");
   });
 
+  it("declares Hacienda's signature policy identifier and hash", async () => {
+    if (!p12Buffer) return;
+
+    const signedXml = await signXml(SAMPLE_XML, p12Buffer, TEST_P12_PIN);
+
+    expect(signedXml).toContain(XADES_POLICY_URI);
+    expect(signedXml).toContain(`<ds:DigestValue>${XADES_POLICY_HASH}</ds:DigestValue>`);
+  });
+
   it("preserves the original document content", async () => {
     if (!p12Buffer) return;
 
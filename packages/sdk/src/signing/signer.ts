@@ -12,38 +12,14 @@
  * @module signing/signer
  */
 
-import { DOMParser, XMLSerializer } from "@xmldom/xmldom";
-import xpath from "xpath";
+import { XMLSerializer } from "@xmldom/xmldom";
 import * as xadesjs from "xadesjs";
-import * as xmldsigjs from "xmldsigjs";
 
 import { XADES_POLICY_HASH, XADES_POLICY_URI } from "@dojocoding/hacienda-shared";
 
 import { SigningError } from "../errors.js";
 import { loadP12 } from "./p12-loader.js";
-
-// ---------------------------------------------------------------------------
-// Module initialization
-// ---------------------------------------------------------------------------
-
-let initialized = false;
-
-/**
- * Initializes the xadesjs and xmldsigjs libraries with Node.js
- * DOM dependencies and the native WebCrypto engine.
- */
-function ensureInitialized(): void {
-  if (initialized) return;
-
-  // Register DOM dependencies for Node.js (xadesjs/xmldsigjs are browser-oriented)
-  xadesjs.setNodeDependencies({ DOMParser, XMLSerializer, xpath });
-
-  // Set the crypto engine to Node.js native WebCrypto
-  xmldsigjs.Application.setEngine("NodeJS", globalThis.crypto as Crypto);
-  xadesjs.Application.setEngine("NodeJS", globalThis.crypto as Crypto);
-
-  initialized = true;
-}
+import { ensureXadesInitialized } from "./xades-engine.js";
 
 // ---------------------------------------------------------------------------
 // Public API
@@ -76,7 +52,7 @@ function ensureInitialized(): void {
  * ```
  */
 export async function signXml(xml: string, p12Buffer: Buffer, p12Pin: string): Promise<string> {
-  ensureInitialized();
+  ensureXadesInitialized();
 
   try {
     // 1. Load the .p12 credentials
@@ -106,12 +82,10 @@ export async function signXml(xml: string, p12Buffer: Buffer, p12Pin: string): P
       {
         // XAdES-EPES policy
         policy: {
-          // xadesjs extends AlgorithmIdentifier with a runtime `value` property
-          // for pre-computed digest values. The types don't reflect this, so we cast.
-          hash: {
-            name: "SHA-1",
-            value: Buffer.from(XADES_POLICY_HASH, "base64"),
-          } as unknown as AlgorithmIdentifier,
+          // Pre-computed digest of the policy document. Without `digestValue`
+          // xadesjs would hash the identifier element instead.
+          hash: "SHA-1",
+          digestValue: XADES_POLICY_HASH,
           identifier: {
             qualifier: "OIDAsURN",
             value: XADES_POLICY_URI,
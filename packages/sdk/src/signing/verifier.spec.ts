@@ -0,0 +1,234 @@
+/**
+ * Tests for XAdES-EPES signature verification.
+ *
+ * Signs documents with a self-signed .p12 certificate generated at
+ * runtime, then tampers with individual parts of the signature to
+ * check that each failure is reported by the right check.
+ */
+
+import { describe, it, expect, beforeAll, afterEach, vi } from "vitest";
+import { execSync } from "node:child_process";
+import { readFileSync, mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+import { XMLSerializer } from "@xmldom/xmldom";
+import * as xadesjs from "xadesjs";
+
+import { XADES_POLICY_HASH, XADES_POLICY_URI } from "@dojocoding/hacienda-shared";
+
+import { loadP12 } from "./p12-loader.js";
+import { signXml } from "./signer.js";
+import { verifyXmlSignature } from "./verifier.js";
+import { ValidationError } from "../errors.js";
+import { ensureXadesInitialized } from "./xades-engine.js";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const SAMPLE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<FacturaElectronica xmlns="https://cdn.comprobanteselectronicos.go.cr/xml-schemas/v4.4/facturaElectronica">
+  <Clave>50601012300310123456700100001010000000001199999999</Clave>
+  <NumeroConsecutivo>00100001010000000001</NumeroConsecutivo>
+  <Emisor>
+    <Nombre>Test Empresa S.A.</Nombre>
+  </Emisor>
+  <ResumenFactura>
+    <TotalComprobante>1000.00</TotalComprobante>
+  </ResumenFactura>
+</FacturaElectronica>`;
+
+const TEST_P12_PIN = "test1234";
+
+let tempDir: string;
+let p12Buffer: Buffer;
+let signedXml: string;
+
+// ---------------------------------------------------------------------------
+// Setup: Generate self-signed .p12 certificate and a signed document
+// ---------------------------------------------------------------------------
+
+beforeAll(async () => {
+  tempDir = mkdtempSync(join(tmpdir(), "hacienda-verify-test-"));
+
+  const keyPath = join(tempDir, "test.key");
+  const certPath = join(tempDir, "test.crt");
+  const p12Path = join(tempDir, "test.p12");
+
+  try {
+    execSync(`openssl genrsa -out "${keyPath}" 2048`, { stdio: "pipe" });
+    execSync(
+      `openssl req -new -x509 -key "${keyPath}" -out "${certPath}" -days 365 -subj "/CN=Test/O=TestOrg/C=CR"`,
+      { stdio: "pipe" },
+    );
+    try {
+      execSync(
+        `openssl pkcs12 -export -out "${p12Path}" -inkey "${keyPath}" -in "${certPath}" -passout pass:${TEST_P12_PIN} -legacy`,
+        { stdio: "pipe" },
+      );
+    } catch {
+      execSync(
+        `openssl pkcs12 -export -out "${p12Path}" -inkey "${keyPath}" -in "${certPath}" -passout pass:${TEST_P12_PIN}`,
+        { stdio: "pipe" },
+      );
+    }
+
+    p12Buffer = readFileSync(p12Path);
+    signedXml = await signXml(SAMPLE_XML, p12Buffer, TEST_P12_PIN);
+  } catch (error) {
+    console.warn("openssl not available, verification tests will be skipped:", error);
+  }
+
+  return () => {
+    try {
+      rmSync(tempDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  };
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/**
+ * Signs the document like {@link signXml}, but the only reference (besides
+ * the automatic SignedProperties one) points at the signature's KeyInfo.
+ */
+async function signKeyInfoOnly(xml: string): Promise<string> {
+  ensureXadesInitialized();
+  const credentials = await loadP12(p12Buffer, TEST_P12_PIN);
+  const certBase64 = Buffer.from(credentials.certificateDer).toString("base64");
+  const xmlDoc = xadesjs.Parse(xml);
+
+  const signedXml = new xadesjs.SignedXml();
+  signedXml.XmlSignature.KeyInfo.Id = "key-info";
+  const signature = await signedXml.Sign(
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" } as Algorithm,
+    credentials.privateKey,
+    xmlDoc,
+    {
+      policy: {
+        hash: "SHA-1",
+        digestValue: XADES_POLICY_HASH,
+        identifier: { qualifier: "OIDAsURN", value: XADES_POLICY_URI },
+      },
+      signingCertificate: certBase64,
+      signingTime: { value: new Date() },
+      references: [{ uri: "#key-info", hash: "SHA-256", transforms: ["c14n"] }],
+      x509: [certBase64],
+    },
+  );
+
+  const signatureNode = signature.GetXml();
+  if (signatureNode) xmlDoc.documentElement.appendChild(signatureNode);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- xadesjs returns a browser-style Document
+  return new XMLSerializer().serializeToString(xmlDoc as any);
+}
+
+// ---------------------------------------------------------------------------
+// verifyXmlSignature
+// ---------------------------------------------------------------------------
+
+describe("verifyXmlSignature", () => {
+  it("accepts a document signed by signXml", async () => {
+    if (!p12Buffer) return;
+
+    const report = await verifyXmlSignature(signedXml);
+
+    expect(report.valid).toBe(true);
+    expect(report.signed).toBe(true);
+    for (const check of Object.values(report.checks)) {
+      expect(check.passed).toBe(true);
+    }
+    expect(report.signingTime).toBeDefined();
+    expect(report.certificate?.subject).toContain("CN=Test");
+    expect(report.certificate?.issuer).toContain("O=TestOrg");
+  });
+
+  it("reports a digest mismatch when the content was altered", async () => {
+    if (!p12Buffer) return;
+
+    const tampered = signedXml.replace("1000.00", "1.00");
+    const report = await verifyXmlSignature(tampered);
+
+    expect(report.valid).toBe(false);
+    expect(report.checks.digest.passed).toBe(false);
+    expect(report.checks.digest.message).toMatch(/Invalid digest/);
+    // SignedInfo itself is untouched
+    expect(report.checks.signature.passed).toBe(true);
+  });
+
+  it("rejects a signature that does not cover the whole document", async () => {
+    if (!p12Buffer) return;
+
+    const keyInfoOnly = await signKeyInfoOnly(SAMPLE_XML);
+    const report = await verifyXmlSignature(keyInfoOnly.replace("1000.00", "1.00"));
+
+    expect(report.valid).toBe(false);
+    expect(report.checks.digest.passed).toBe(false);
+    expect(report.checks.digest.message).toMatch(/covers the whole document/);
+    // The signer did sign that SignedInfo
+    expect(report.checks.signature.passed).toBe(true);
+  });
+
+  it("reports an invalid signature value", async () => {
+    if (!p12Buffer) return;
+
+    const tampered = signedXml.replace(
+      /(<ds:SignatureValue[^>]*>)([A-Za-z0-9+/])/,
+      (_match, tag: string, first: string) => `${tag}${first === "A" ? "B" : "A"}`,
+    );
+    const report = await verifyXmlSignature(tampered);
+
+    expect(report.valid).toBe(false);
+    expect(report.checks.signature.passed).toBe(false);
+    expect(report.checks.digest.passed).toBe(true);
+  });
+
+  it("reports a policy hash that does not match Hacienda's", async () => {
+    if (!p12Buffer) return;
+
+    expect(signedXml).toContain(XADES_POLICY_HASH);
+    const tampered = signedXml.replace(XADES_POLICY_HASH, "AAAAAAAAAAAAAAAAAAAAAAAAAAA=");
+    const report = await verifyXmlSignature(tampered);
+
+    expect(report.valid).toBe(false);
+    expect(report.checks.policy.passed).toBe(false);
+    expect(report.checks.policy.message).toMatch(/Policy hash/);
+  });
+
+  it("reports a signing time outside the certificate validity", async () => {
+    if (!p12Buffer) return;
+
+    vi.useFakeTimers({ toFake: ["Date"], now: new Date("2000-01-01T12:00:00Z") });
+    const backdated = await signXml(SAMPLE_XML, p12Buffer, TEST_P12_PIN);
+    vi.useRealTimers();
+
+    const report = await verifyXmlSignature(backdated);
+
+    expect(report.valid).toBe(false);
+    expect(report.signingTime).toBe("2000-01-01T12:00:00.000Z");
+    expect(report.checks.certificate.passed).toBe(false);
+    expect(report.checks.certificate.message).toMatch(/outside the certificate validity/);
+    expect(report.checks.digest.passed).toBe(true);
+    expect(report.checks.signature.passed).toBe(true);
+    expect(report.checks.policy.passed).toBe(true);
+  });
+
+  it("reports an unsigned document without throwing", async () => {
+    const report = await verifyXmlSignature(SAMPLE_XML);
+
+    expect(report.valid).toBe(false);
+    expect(report.signed).toBe(false);
+    expect(report.checks.digest.message).toMatch(/not signed/);
+  });
+
+  it("throws ValidationError for malformed XML", async () => {
+    await expect(verifyXmlSignature("<FacturaElectronica><Clave>")).rejects.toThrow(
+      ValidationError,
+    );
+  });
+});
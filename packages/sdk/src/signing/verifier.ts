@@ -0,0 +1,358 @@
+/**
+ * XAdES-EPES signature verification for Hacienda Costa Rica.
+ *
+ * Checks an enveloped signature the way a receiver must before
+ * accepting a supplier's document with a Mensaje Receptor:
+ * - A reference covers the whole document and every digest matches
+ * - RSA-SHA256 signature value is valid for the embedded certificate
+ * - Signature policy identifier and hash equal Hacienda's policy
+ * - Embedded certificate was valid at the declared signing time
+ *
+ * Each check is reported separately so callers can explain exactly why
+ * a document was refused. Certificate chain trust (BCCR root) is not
+ * evaluated.
+ *
+ * @module signing/verifier
+ */
+
+import { X509Certificate } from "node:crypto";
+import { XMLValidator } from "fast-xml-parser";
+import * as xadesjs from "xadesjs";
+
+import { XADES_POLICY_HASH, XADES_POLICY_URI } from "@dojocoding/hacienda-shared";
+
+import { ValidationError } from "../errors.js";
+import { inspectCertificate } from "./certificate-info.js";
+import { ensureXadesInitialized } from "./xades-engine.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Outcome of one verification check. */
+export interface SignatureCheck {
+  /** Whether the check passed. */
+  readonly passed: boolean;
+  /** Human-readable explanation of the outcome. */
+  readonly message: string;
+}
+
+/** The individual checks performed by {@link verifyXmlSignature}. */
+export interface SignatureChecks {
+  /**
+   * A `ds:Reference` with the enveloped-signature transform covers the
+   * whole document, and every reference digest matches its content.
+   */
+  readonly digest: SignatureCheck;
+  /** The RSA-SHA256 `ds:SignatureValue` is valid for the embedded certificate. */
+  readonly signature: SignatureCheck;
+  /** The XAdES policy identifier and hash equal Hacienda's policy. */
+  readonly policy: SignatureCheck;
+  /** The embedded certificate is the signing certificate and covered the signing time. */
+  readonly certificate: SignatureCheck;
+}
+
+/** Details of the certificate embedded in the signature's `ds:KeyInfo`. */
+export interface SignatureCertificateInfo {
+  /** Subject distinguished name. */
+  readonly subject: string;
+  /** Issuer distinguished name. */
+  readonly issuer: string;
+  /** Serial number (hex). */
+  readonly serialNumber: string;
+  /** Holder's cédula (digits only) from the subject `serialNumber`, if present. */
+  readonly cedula?: string;
+  /** Start of the validity window (ISO 8601). */
+  readonly validFrom: string;
+  /** End of the validity window (ISO 8601). */
+  readonly validTo: string;
+}
+
+/** Structured result of {@link verifyXmlSignature}. */
+export interface SignatureVerificationReport {
+  /** `true` only if the document is signed and every check passed. */
+  readonly valid: boolean;
+  /** Whether an enveloped `ds:Signature` element was found. */
+  readonly signed: boolean;
+  /** Outcome of each check. */
+  readonly checks: SignatureChecks;
+  /** Declared `xades:SigningTime` (ISO 8601), if present. */
+  readonly signingTime?: string;
+  /** Embedded signer certificate, if present. */
+  readonly certificate?: SignatureCertificateInfo;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** XML Digital Signature namespace. */
+const XMLDSIG_NS = "http://www.w3.org/2000/09/xmldsig#";
+
+/** XAdES v1.3.2 namespace. */
+const XADES_NS = "http://uri.etsi.org/01903/v1.3.2#";
+
+/** Transform that excludes the enveloped signature from the document digest. */
+const ENVELOPED_SIGNATURE_URI = "http://www.w3.org/2000/09/xmldsig#enveloped-signature";
+
+/** The only signature algorithm Hacienda accepts. */
+const RSA_SHA256_URI = "http://www.w3.org/2001/04/xmldsig-more#rsa-sha256";
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Verifies the XAdES-EPES signature of a Hacienda XML document.
+ *
+ * Never throws for an invalid or missing signature — inspect the
+ * returned report instead. Only malformed XML is rejected with an error.
+ *
+ * @param xml - The signed XML document string.
+ * @returns A report with the outcome of each check.
+ * @throws {ValidationError} If the input is not well-formed XML.
+ *
+ * @example
+ * ```ts
+ * const report = await verifyXmlSignature(supplierXml);
+ * if (!report.valid) {
+ *   for (const [name, check] of Object.entries(report.checks)) {
+ *     if (!check.passed) console.error(`${name}: ${check.message}`);
+ *   }
+ * }
+ * ```
+ */
+export async function verifyXmlSignature(xml: string): Promise<SignatureVerificationReport> {
+  const validation = XMLValidator.validate(xml);
+  if (validation !== true) {
+    const { msg, line, col } = validation.err;
+    throw new ValidationError(`Malformed XML: ${msg}`, [
+      { path: `line ${line}, column ${col}`, message: msg },
+    ]);
+  }
+
+  ensureXadesInitialized();
+
+  const xmlDoc = xadesjs.Parse(xml);
+  const signatureElement = findEnvelopedSignature(xmlDoc);
+  if (!signatureElement) {
+    const notSigned = fail("Document is not signed (no enveloped ds:Signature element).");
+    return {
+      valid: false,
+      signed: false,
+      checks: {
+        digest: notSigned,
+        signature: notSigned,
+        policy: notSigned,
+        certificate: notSigned,
+      },
+    };
+  }
+
+  const inspector = new SignatureInspector(xmlDoc);
+  try {
+    inspector.LoadXml(signatureElement);
+  } catch (error) {
+    const unreadable = fail(`Cannot read ds:Signature: ${errorMessage(error)}`);
+    return {
+      valid: false,
+      signed: true,
+      checks: {
+        digest: unreadable,
+        signature: unreadable,
+        policy: unreadable,
+        certificate: unreadable,
+      },
+    };
+  }
+
+  const signingTime = readSigningTime(signatureElement);
+  const certificate = readCertificate(signatureElement);
+
+  const checks: SignatureChecks = {
+    digest: await inspector.checkDigests(xmlDoc.documentElement),
+    signature: await inspector.checkSignatureValue(),
+    policy: checkPolicy(signatureElement),
+    certificate: await checkCertificate(inspector, certificate, signingTime),
+  };
+
+  return {
+    valid: Object.values(checks).every((check: SignatureCheck) => check.passed),
+    signed: true,
+    checks,
+    signingTime: signingTime?.toISOString(),
+    certificate: certificate && describeCertificate(certificate),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Exposes the individual verification steps that
+ * `SignedXml.Verify()` only reports as a single boolean.
+ */
+class SignatureInspector extends xadesjs.SignedXml {
+  async checkDigests(root: Element): Promise<SignatureCheck> {
+    // Digests of references that exist prove nothing about content no reference covers
+    if (!this.coversDocument(root)) {
+      return fail(
+        'No ds:Reference with the enveloped-signature transform covers the whole document (URI="").',
+      );
+    }
+
+    try {
+      // ValidateReferences throws with the offending URI on a mismatch
+      await this.ValidateReferences(root.cloneNode(true) as Element);
+      return pass("All reference digests match.");
+    } catch (error) {
+      return fail(errorMessage(error));
+    }
+  }
+
+  /** Whether a reference to the document root (`""` or `#{root Id}`) is enveloped. */
+  private coversDocument(root: Element): boolean {
+    const rootId = root.getAttribute("Id") || root.getAttribute("id");
+    return this.XmlSignature.SignedInfo.References.Some(
+      (reference) =>
+        (reference.Uri === "" || (!!rootId && reference.Uri === `#${rootId}`)) &&
+        reference.Transforms.Some((transform) => transform.Algorithm === ENVELOPED_SIGNATURE_URI),
+    );
+  }
+
+  async checkSignatureValue(): Promise<SignatureCheck> {
+    const algorithm = this.XmlSignature.SignedInfo.SignatureMethod.Algorithm;
+    if (algorithm !== RSA_SHA256_URI) {
+      return fail(`Unexpected signature algorithm "${algorithm}" (expected RSA-SHA256).`);
+    }
+
+    try {
+      const keys = await this.GetPublicKeys();
+      if (keys.length === 0) {
+        return fail("No public key found in ds:KeyInfo.");
+      }
+      return (await this.ValidateSignatureValue(keys))
+        ? pass("RSA-SHA256 signature value is valid.")
+        : fail("Signature value does not match the signed info.");
+    } catch (error) {
+      return fail(errorMessage(error));
+    }
+  }
+
+  async checkSigningCertificate(): Promise<boolean> {
+    try {
+      return (await this.VerifySigningCertificate()) !== null;
+    } catch {
+      return false;
+    }
+  }
+}
+
+function pass(message: string): SignatureCheck {
+  return { passed: true, message };
+}
+
+function fail(message: string): SignatureCheck {
+  return { passed: false, message };
+}
+
+/** xml-core's `XmlError` does not extend `Error`, so read `message` structurally. */
+function errorMessage(error: unknown): string {
+  if (typeof error === "object" && error !== null && "message" in error) {
+    return String(error.message);
+  }
+  return String(error);
+}
+
+/** Returns the `ds:Signature` that is a direct child of the document root. */
+function findEnvelopedSignature(xmlDoc: Document): Element | undefined {
+  const root = xmlDoc.documentElement;
+  for (let i = 0; i < root.childNodes.length; i++) {
+    const node = root.childNodes.item(i) as Element;
+    if (node.namespaceURI === XMLDSIG_NS && node.localName === "Signature") {
+      return node;
+    }
+  }
+  return undefined;
+}
+
+/** Returns the trimmed text of the first descendant with the given name. */
+function descendantText(parent: Element, namespace: string, name: string): string | undefined {
+  return parent.getElementsByTagNameNS(namespace, name).item(0)?.textContent?.trim() || undefined;
+}
+
+function readSigningTime(signature: Element): Date | undefined {
+  const text = descendantText(signature, XADES_NS, "SigningTime");
+  if (!text) return undefined;
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function readCertificate(signature: Element): X509Certificate | undefined {
+  const base64 = descendantText(signature, XMLDSIG_NS, "X509Certificate");
+  if (!base64) return undefined;
+  try {
+    return new X509Certificate(Buffer.from(base64.replace(/\s+/g, ""), "base64"));
+  } catch {
+    return undefined;
+  }
+}
+
+function describeCertificate(certificate: X509Certificate): SignatureCertificateInfo {
+  return {
+    subject: certificate.subject.split("\n").join(", "),
+    issuer: certificate.issuer.split("\n").join(", "),
+    serialNumber: certificate.serialNumber,
+    cedula: inspectCertificate(certificate.raw).cedula,
+    validFrom: new Date(certificate.validFrom).toISOString(),
+    validTo: new Date(certificate.validTo).toISOString(),
+  };
+}
+
+function checkPolicy(signature: Element): SignatureCheck {
+  const policyId = signature.getElementsByTagNameNS(XADES_NS, "SignaturePolicyId").item(0);
+  if (!policyId) {
+    return fail("No xades:SignaturePolicyId found (not an XAdES-EPES signature).");
+  }
+
+  const identifier = descendantText(policyId, XADES_NS, "Identifier");
+  if (identifier !== XADES_POLICY_URI) {
+    return fail(`Policy identifier "${identifier ?? ""}" does not match ${XADES_POLICY_URI}.`);
+  }
+
+  const policyHash = policyId.getElementsByTagNameNS(XADES_NS, "SigPolicyHash").item(0);
+  const hash = policyHash && descendantText(policyHash, XMLDSIG_NS, "DigestValue");
+  if (hash !== XADES_POLICY_HASH) {
+    return fail(`Policy hash "${hash ?? ""}" does not match ${XADES_POLICY_HASH}.`);
+  }
+
+  return pass("Signature policy matches Hacienda's policy.");
+}
+
+async function checkCertificate(
+  inspector: SignatureInspector,
+  certificate: X509Certificate | undefined,
+  signingTime: Date | undefined,
+): Promise<SignatureCheck> {
+  if (!certificate) {
+    return fail("No X.509 certificate embedded in ds:KeyInfo.");
+  }
+  if (!signingTime) {
+    return fail("No valid xades:SigningTime found.");
+  }
+  if (!(await inspector.checkSigningCertificate())) {
+    return fail("Embedded certificate does not match xades:SigningCertificate.");
+  }
+
+  const validFrom = new Date(certificate.validFrom);
+  const validTo = new Date(certificate.validTo);
+  if (signingTime < validFrom || signingTime > validTo) {
+    return fail(
+      `Signing time ${signingTime.toISOString()} is outside the certificate validity ` +
+        `(${validFrom.toISOString()} – ${validTo.toISOString()}).`,
+    );
+  }
+
+  return pass("Certificate was valid at the signing time.");
+}
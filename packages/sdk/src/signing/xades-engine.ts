@@ -0,0 +1,33 @@
+/**
+ * Shared setup for the `xadesjs` / `xmldsigjs` libraries.
+ *
+ * Both libraries are browser-oriented: they need DOM implementations
+ * and a WebCrypto engine registered before first use. The signer and
+ * the verifier call {@link ensureXadesInitialized} before touching them.
+ *
+ * @module signing/xades-engine
+ */
+
+import { DOMParser, XMLSerializer } from "@xmldom/xmldom";
+import xpath from "xpath";
+import * as xadesjs from "xadesjs";
+import * as xmldsigjs from "xmldsigjs";
+
+let initialized = false;
+
+/**
+ * Initializes the xadesjs and xmldsigjs libraries with Node.js
+ * DOM dependencies and the native WebCrypto engine.
+ */
+export function ensureXadesInitialized(): void {
+  if (initialized) return;
+
+  // Register DOM dependencies for Node.js (xadesjs/xmldsigjs are browser-oriented)
+  xadesjs.setNodeDependencies({ DOMParser, XMLSerializer, xpath });
+
+  // Set the crypto engine to Node.js native WebCrypto
+  xmldsigjs.Application.setEngine("NodeJS", globalThis.crypto as Crypto);
+  xadesjs.Application.setEngine("NodeJS", globalThis.crypto as Crypto);
+
+  initialized = true;
+}
@@ -0,0 +1,194 @@
+/**
+ * Document ledger contract — records every issued comprobante and its
+ * lifecycle so it can be looked up later without calling Hacienda.
+ *
+ * Costa Rican law requires keeping issued documents for five years.
+ * Implement {@link DocumentStore} to plug in any backend; the SDK ships
+ * a local file implementation ({@link FileDocumentStore}).
+ *
+ * @module store/document-store
+ */
+
+import type {
+  DocumentoElectronico,
+  HaciendaStatus,
+  Identificacion,
+} from "@dojocoding/hacienda-shared";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Lifecycle status of a recorded document.
+ *
+ * `"firmado"` means signed locally but not yet acknowledged by Hacienda;
+ * the remaining values mirror {@link HaciendaStatus}.
+ */
+export type DocumentLifecycleStatus = "firmado" | HaciendaStatus;
+
+/** A single status change in a document's history. */
+export interface StatusTransition {
+  /** The status entered. */
+  readonly status: DocumentLifecycleStatus;
+  /** When the transition was recorded (ISO 8601). */
+  readonly at: string;
+  /** Optional free-text detail (e.g., rejection reason). */
+  readonly detail?: string;
+}
+
+/** Monetary totals kept for quick lookups. */
+export interface DocumentRecordTotals {
+  /** Net sales. */
+  readonly totalVentaNeta: number;
+  /** Total tax. */
+  readonly totalImpuesto: number;
+  /** Grand total. */
+  readonly totalComprobante: number;
+  /** Currency code (omitted for CRC). */
+  readonly codigoMoneda?: string;
+}
+
+/** A recorded document and its lifecycle. */
+export interface DocumentRecord {
+  /** 50-digit clave numerica (unique key). */
+  readonly clave: string;
+  /** 20-digit numero consecutivo. */
+  readonly numeroConsecutivo: string;
+  /** Document type code (e.g., "01"). */
+  readonly documentType: string;
+  /** Emission date (ISO 8601). */
+  readonly fechaEmision: string;
+  /** Issuer summary. */
+  readonly emisor: { readonly nombre: string; readonly identificacion: Identificacion };
+  /** Receiver summary (absent for anonymous tiquetes). */
+  readonly receptor?: { readonly nombre: string; readonly identificacion?: Identificacion };
+  /** Document totals. */
+  readonly totals: DocumentRecordTotals;
+  /** Base64-encoded signed XML, as submitted. */
+  readonly signedXml: string;
+  /** Decoded Hacienda response XML (once available). */
+  readonly responseXml?: string;
+  /** Human-readable rejection reason (if rejected). */
+  readonly rejectionReason?: string;
+  /** Current lifecycle status. */
+  readonly status: DocumentLifecycleStatus;
+  /** All status transitions, oldest first. */
+  readonly statusHistory: readonly StatusTransition[];
+  /** When the record was created (ISO 8601). */
+  readonly createdAt: string;
+  /** When the record was last updated (ISO 8601). */
+  readonly updatedAt: string;
+}
+
+/** Data needed to create a record; lifecycle fields are filled in by the store. */
+export type NewDocumentRecord = Omit<
+  DocumentRecord,
+  "status" | "statusHistory" | "createdAt" | "updatedAt" | "responseXml" | "rejectionReason"
+> & {
+  /** Initial status (default: `"firmado"`). */
+  readonly status?: DocumentLifecycleStatus;
+};
+
+/** A status change to apply to an existing record. */
+export interface DocumentStatusUpdate {
+  /** New status. */
+  readonly status: DocumentLifecycleStatus;
+  /** Decoded Hacienda response XML. */
+  readonly responseXml?: string;
+  /** Human-readable rejection reason. */
+  readonly rejectionReason?: string;
+  /** Free-text detail stored with the transition. */
+  readonly detail?: string;
+}
+
+/** Filters for {@link DocumentStore.list}. All fields are optional. */
+export interface DocumentQuery {
+  /** Only documents of this type code. */
+  readonly documentType?: string;
+  /** Only documents currently in this status. */
+  readonly status?: DocumentLifecycleStatus;
+  /** Only documents whose receptor has this identification number. */
+  readonly receptorId?: string;
+  /** Only documents emitted on or after this date. */
+  readonly from?: Date;
+  /** Only documents emitted on or before this date. */
+  readonly to?: Date;
+  /** Maximum number of records to return. */
+  readonly limit?: number;
+}
+
+/**
+ * Storage backend for the document ledger.
+ *
+ * Implementations must treat the clave as the unique key and keep the
+ * full status history.
+ */
+export interface DocumentStore {
+  /**
+   * Records a new document.
+   *
+   * @throws {Error} If a record with the same clave already exists.
+   */
+  save(record: NewDocumentRecord): Promise<DocumentRecord>;
+
+  /** Returns the record for a clave, or `undefined` if unknown. */
+  get(clave: string): Promise<DocumentRecord | undefined>;
+
+  /**
+   * Appends a status transition to an existing record.
+   *
+   * @throws {Error} If no record exists for the clave.
+   */
+  updateStatus(clave: string, update: DocumentStatusUpdate): Promise<DocumentRecord>;
+
+  /** Lists records matching the query, most recent emission first. */
+  list(query?: DocumentQuery): Promise<DocumentRecord[]>;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds a {@link NewDocumentRecord} from a document and its signed XML.
+ *
+ * @param document - The document that was signed.
+ * @param documentType - Document type code (e.g., "01").
+ * @param signedXml - Base64-encoded signed XML.
+ * @returns A record ready for {@link DocumentStore.save}.
+ */
+export function buildDocumentRecord(
+  document: DocumentoElectronico,
+  documentType: string,
+  signedXml: string,
+): NewDocumentRecord {
+  const { resumenFactura, receptor } = document;
+  const codigoMoneda = resumenFactura.codigoTipoMoneda?.codigoMoneda;
+
+  return {
+    clave: document.clave,
+    numeroConsecutivo: document.numeroConsecutivo,
+    documentType,
+    fechaEmision: document.fechaEmision,
+    emisor: {
+      nombre: document.emisor.nombre,
+      identificacion: document.emisor.identificacion,
+    },
+    ...(receptor
+      ? {
+          receptor: {
+            nombre: receptor.nombre,
+            ...(receptor.identificacion ? { identificacion: receptor.identificacion } : {}),
+          },
+        }
+      : {}),
+    totals: {
+      totalVentaNeta: resumenFactura.totalVentaNeta,
+      totalImpuesto: resumenFactura.totalImpuesto,
+      totalComprobante: resumenFactura.totalComprobante,
+      ...(codigoMoneda ? { codigoMoneda } : {}),
+    },
+    signedXml,
+  };
+}
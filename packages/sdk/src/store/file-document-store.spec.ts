@@ -0,0 +1,197 @@
+/**
+ * Tests for the local file document ledger.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  SIMPLE_NOTA_CREDITO,
+  SIMPLE_TIQUETE,
+  TIQUETE_WITH_RECEPTOR,
+} from "../__fixtures__/document-fixtures.js";
+import { buildDocumentRecord } from "./document-store.js";
+import { FileDocumentStore } from "./file-document-store.js";
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+let configDir: string;
+let clock: Date;
+let store: FileDocumentStore;
+
+beforeEach(async () => {
+  configDir = await mkdtemp(join(tmpdir(), "hacienda-ledger-test-"));
+  clock = new Date("2025-08-01T16:00:00.000Z");
+  store = new FileDocumentStore({ configDir, now: () => clock });
+});
+
+afterEach(async () => {
+  await rm(configDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// buildDocumentRecord
+// ---------------------------------------------------------------------------
+
+describe("buildDocumentRecord", () => {
+  it("summarizes the document", () => {
+    const record = buildDocumentRecord(SIMPLE_NOTA_CREDITO, "03", "c2lnbmVk");
+
+    expect(record).toMatchObject({
+      clave: SIMPLE_NOTA_CREDITO.clave,
+      numeroConsecutivo: SIMPLE_NOTA_CREDITO.numeroConsecutivo,
+      documentType: "03",
+      fechaEmision: SIMPLE_NOTA_CREDITO.fechaEmision,
+      emisor: { nombre: SIMPLE_NOTA_CREDITO.emisor.nombre },
+      receptor: { nombre: SIMPLE_NOTA_CREDITO.receptor.nombre },
+      totals: {
+        totalComprobante: SIMPLE_NOTA_CREDITO.resumenFactura.totalComprobante,
+        totalImpuesto: SIMPLE_NOTA_CREDITO.resumenFactura.totalImpuesto,
+      },
+      signedXml: "c2lnbmVk",
+    });
+  });
+
+  it("omits the receptor for anonymous tiquetes", () => {
+    const record = buildDocumentRecord(SIMPLE_TIQUETE, "04", "c2lnbmVk");
+    expect(record).not.toHaveProperty("receptor");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// FileDocumentStore
+// ---------------------------------------------------------------------------
+
+describe("FileDocumentStore", () => {
+  it("saves and reads back a record", async () => {
+    const saved = await store.save(buildDocumentRecord(SIMPLE_TIQUETE, "04", "c2lnbmVk"));
+
+    expect(saved.status).toBe("firmado");
+    expect(saved.statusHistory).toEqual([{ status: "firmado", at: "2025-08-01T16:00:00.000Z" }]);
+    expect(await store.get(SIMPLE_TIQUETE.clave)).toEqual(saved);
+  });
+
+  it("writes owner-only files under documents/", async () => {
+    await store.save(buildDocumentRecord(SIMPLE_TIQUETE, "04", "c2lnbmVk"));
+
+    expect(store.directory).toBe(join(configDir, "documents"));
+    const info = await stat(join(store.directory, `${SIMPLE_TIQUETE.clave}.json`));
+    if (process.platform !== "win32") {
+      expect(info.mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it("rejects a duplicate clave", async () => {
+    const record = buildDocumentRecord(SIMPLE_TIQUETE, "04", "c2lnbmVk");
+    await store.save(record);
+
+    await expect(store.save(record)).rejects.toThrow(/already recorded/);
+  });
+
+  it("returns undefined for an unknown clave", async () => {
+    expect(await store.get(SIMPLE_NOTA_CREDITO.clave)).toBeUndefined();
+  });
+
+  it("rejects malformed claves", async () => {
+    await expect(store.get("../../etc/passwd")).rejects.toThrow(/Invalid clave/);
+  });
+
+  it("appends status transitions", async () => {
+    await store.save(buildDocumentRecord(SIMPLE_TIQUETE, "04", "c2lnbmVk"));
+
+    clock = new Date("2025-08-01T16:00:05.000Z");
+    await store.updateStatus(SIMPLE_TIQUETE.clave, { status: "recibido" });
+
+    clock = new Date("2025-08-01T16:00:10.000Z");
+    const updated = await store.updateStatus(SIMPLE_TIQUETE.clave, {
+      status: "rechazado",
+      responseXml: "<MensajeHacienda/>",
+      rejectionReason: "[Code 01] Documento duplicado",
+      detail: "[Code 01] Documento duplicado",
+    });
+
+    expect(updated.status).toBe("rechazado");
+    expect(updated.responseXml).toBe("<MensajeHacienda/>");
+    expect(updated.rejectionReason).toBe("[Code 01] Documento duplicado");
+    expect(updated.updatedAt).toBe("2025-08-01T16:00:10.000Z");
+    expect(updated.createdAt).toBe("2025-08-01T16:00:00.000Z");
+    expect(updated.statusHistory.map((t) => t.status)).toEqual([
+      "firmado",
+      "recibido",
+      "rechazado",
+    ]);
+    expect(updated.statusHistory[2]?.detail).toBe("[Code 01] Documento duplicado");
+  });
+
+  it("keeps every transition when updates race on the same clave", async () => {
+    await store.save(buildDocumentRecord(SIMPLE_TIQUETE, "04", "c2lnbmVk"));
+    const other = new FileDocumentStore({ configDir, now: () => clock });
+
+    await Promise.all([
+      store.updateStatus(SIMPLE_TIQUETE.clave, { status: "recibido", detail: "poller" }),
+      other.updateStatus(SIMPLE_TIQUETE.clave, { status: "procesando", detail: "callback" }),
+      store.updateStatus(SIMPLE_TIQUETE.clave, { status: "aceptado", detail: "poller" }),
+    ]);
+
+    const record = await store.get(SIMPLE_TIQUETE.clave);
+    expect(record?.statusHistory).toHaveLength(4);
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it("throws when updating an unknown clave", async () => {
+    await expect(store.updateStatus(SIMPLE_TIQUETE.clave, { status: "aceptado" })).rejects.toThrow(
+      /not recorded/,
+    );
+  });
+
+  describe("list", () => {
+    beforeEach(async () => {
+      await store.save(buildDocumentRecord(SIMPLE_TIQUETE, "04", "a"));
+      await store.save(buildDocumentRecord(SIMPLE_NOTA_CREDITO, "03", "b"));
+      await store.save({
+        ...buildDocumentRecord(TIQUETE_WITH_RECEPTOR, "04", "c"),
+        status: "aceptado",
+      });
+    });
+
+    it("returns an empty list when nothing is recorded", async () => {
+      const empty = new FileDocumentStore({ configDir: join(configDir, "empty") });
+      expect(await empty.list()).toEqual([]);
+    });
+
+    it("lists every record, most recent emission first", async () => {
+      const records = await store.list();
+
+      expect(records).toHaveLength(3);
+      const dates = records.map((r) => Date.parse(r.fechaEmision));
+      expect(dates).toEqual([...dates].sort((a, b) => b - a));
+    });
+
+    it("filters by type, status and receptor", async () => {
+      expect(await store.list({ documentType: "03" })).toHaveLength(1);
+      expect(await store.list({ status: "aceptado" })).toHaveLength(1);
+      expect(await store.list({ status: "firmado" })).toHaveLength(2);
+
+      const receptorId = SIMPLE_NOTA_CREDITO.receptor.identificacion?.numero;
+      const byReceptor = await store.list({ receptorId });
+      expect(byReceptor.map((r) => r.clave)).toContain(SIMPLE_NOTA_CREDITO.clave);
+    });
+
+    it("filters by emission date range and limit", async () => {
+      const from = new Date(SIMPLE_NOTA_CREDITO.fechaEmision);
+      const records = await store.list({ from });
+
+      expect(records.every((r) => Date.parse(r.fechaEmision) >= from.getTime())).toBe(true);
+      expect(await store.list({ limit: 2 })).toHaveLength(2);
+    });
+
+    it("ignores unrelated files in the directory", async () => {
+      await writeFile(join(store.directory, "notes.txt"), "hello");
+      expect(await store.list()).toHaveLength(3);
+    });
+  });
+});
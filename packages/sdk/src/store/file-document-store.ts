@@ -0,0 +1,248 @@
+/**
+ * Local file implementation of the document ledger.
+ *
+ * Each document is persisted as one JSON file under
+ * ~/.hacienda-cr/documents/{clave}.json, written atomically
+ * (temp file + rename) with owner-only permissions. Writes to the same
+ * clave run under an `mkdir` lock, so concurrent status updates (poller
+ * and callback handler) never drop each other's history entries.
+ *
+ * @module store/file-document-store
+ */
+
+import { mkdir, readFile, readdir, rename, writeFile } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import { join } from "node:path";
+
+import { ensureConfigDir, getConfigDir } from "../config/config-manager.js";
+import { acquireLock } from "../config/file-lock.js";
+import type {
+  DocumentQuery,
+  DocumentRecord,
+  DocumentStatusUpdate,
+  DocumentStore,
+  NewDocumentRecord,
+} from "./document-store.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link FileDocumentStore}. */
+export interface FileDocumentStoreOptions {
+  /** Override the config directory path (defaults to ~/.hacienda-cr/) */
+  configDir?: string;
+  /** Clock used for timestamps (defaults to `() => new Date()`). */
+  now?: () => Date;
+}
+
+/** Documents directory name inside the config directory. */
+const DOCUMENTS_DIR_NAME = "documents";
+
+/** A clave is exactly 50 digits — also guards against path traversal. */
+const CLAVE_PATTERN = /^\d{50}$/;
+
+// ---------------------------------------------------------------------------
+// FileDocumentStore
+// ---------------------------------------------------------------------------
+
+/**
+ * Document ledger backed by JSON files in the local config directory.
+ *
+ * @example
+ * ```ts
+ * const store = new FileDocumentStore();
+ * const client = new HaciendaClient({ ...options, documentStore: store });
+ *
+ * await client.issueDocument(DocumentType.FACTURA_ELECTRONICA, draft, { wait: true });
+ *
+ * const rejected = await store.list({ status: "rechazado" });
+ * ```
+ */
+export class FileDocumentStore implements DocumentStore {
+  private readonly configDir: string | undefined;
+  private readonly now: () => Date;
+
+  constructor(options: FileDocumentStoreOptions = {}) {
+    this.configDir = options.configDir;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** Absolute path of the directory holding the document files. */
+  get directory(): string {
+    return join(getConfigDir(this.configDir), DOCUMENTS_DIR_NAME);
+  }
+
+  async save(record: NewDocumentRecord): Promise<DocumentRecord> {
+    const { status = "firmado", ...fields } = record;
+
+    return this.withLock(fields.clave, async () => {
+      if (await this.get(fields.clave)) {
+        throw new Error(`Document ${fields.clave} is already recorded.`);
+      }
+
+      const timestamp = this.now().toISOString();
+      const stored: DocumentRecord = {
+        ...fields,
+        status,
+        statusHistory: [{ status, at: timestamp }],
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+
+      await this.write(stored);
+      return stored;
+    });
+  }
+
+  async get(clave: string): Promise<DocumentRecord | undefined> {
+    try {
+      const content = await readFile(this.pathFor(clave), "utf-8");
+      return parseRecord(content, clave);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async updateStatus(clave: string, update: DocumentStatusUpdate): Promise<DocumentRecord> {
+    return this.withLock(clave, async () => {
+      const existing = await this.get(clave);
+      if (!existing) {
+        throw new Error(`Document ${clave} is not recorded.`);
+      }
+
+      const timestamp = this.now().toISOString();
+      const updated: DocumentRecord = {
+        ...existing,
+        status: update.status,
+        statusHistory: [
+          ...existing.statusHistory,
+          {
+            status: update.status,
+            at: timestamp,
+            ...(update.detail ? { detail: update.detail } : {}),
+          },
+        ],
+        ...(update.responseXml !== undefined ? { responseXml: update.responseXml } : {}),
+        ...(update.rejectionReason !== undefined
+          ? { rejectionReason: update.rejectionReason }
+          : {}),
+        updatedAt: timestamp,
+      };
+
+      await this.write(updated);
+      return updated;
+    });
+  }
+
+  async list(query: DocumentQuery = {}): Promise<DocumentRecord[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await readdir(this.directory);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: DocumentRecord[] = [];
+    for (const fileName of fileNames) {
+      if (!fileName.endsWith(".json")) continue;
+      const clave = fileName.slice(0, -".json".length);
+      if (!CLAVE_PATTERN.test(clave)) continue;
+
+      const record = await this.get(clave);
+      if (record && matchesQuery(record, query)) {
+        records.push(record);
+      }
+    }
+
+    records.sort((a, b) => Date.parse(b.fechaEmision) - Date.parse(a.fechaEmision));
+    return query.limit !== undefined ? records.slice(0, query.limit) : records;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal helpers
+  // -------------------------------------------------------------------------
+
+  private pathFor(clave: string): string {
+    if (!CLAVE_PATTERN.test(clave)) {
+      throw new Error(`Invalid clave: expected 50 digits, got "${clave}".`);
+    }
+    return join(this.directory, `${clave}.json`);
+  }
+
+  /** Runs a read-modify-write cycle for one clave under its lock. */
+  private async withLock<T>(clave: string, fn: () => Promise<T>): Promise<T> {
+    const lockPath = `${this.pathFor(clave)}.lock`;
+    await ensureConfigDir(this.configDir);
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+    const unlock = await acquireLock(lockPath, "document");
+    try {
+      return await fn();
+    } finally {
+      await unlock();
+    }
+  }
+
+  /**
+   * Writes a record atomically using a rename-based strategy.
+   */
+  private async write(record: DocumentRecord): Promise<void> {
+    const filePath = this.pathFor(record.clave);
+    await ensureConfigDir(this.configDir);
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+    const tempPath = `${filePath}.${randomBytes(6).toString("hex")}.tmp`;
+    const content = JSON.stringify(record, null, 2) + "\n";
+    await writeFile(tempPath, content, { encoding: "utf-8", mode: 0o600 });
+    await rename(tempPath, filePath);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof Error && "code" in error && (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
+
+function parseRecord(content: string, clave: string): DocumentRecord {
+  const parsed = JSON.parse(content) as Partial<DocumentRecord>;
+  if (parsed.clave !== clave || !Array.isArray(parsed.statusHistory)) {
+    throw new Error(`Invalid document record for clave ${clave}.`);
+  }
+  return parsed as DocumentRecord;
+}
+
+function matchesQuery(record: DocumentRecord, query: DocumentQuery): boolean {
+  if (query.documentType !== undefined && record.documentType !== query.documentType) {
+    return false;
+  }
+  if (query.status !== undefined && record.status !== query.status) {
+    return false;
+  }
+  if (
+    query.receptorId !== undefined &&
+    record.receptor?.identificacion?.numero !== query.receptorId
+  ) {
+    return false;
+  }
+
+  const emitted = Date.parse(record.fechaEmision);
+  if (query.from && emitted < query.from.getTime()) {
+    return false;
+  }
+  if (query.to && emitted > query.to.getTime()) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,21 @@
+/**
+ * Store module — local ledger of issued documents and their lifecycle.
+ *
+ * Provides the pluggable {@link DocumentStore} contract and the default
+ * file implementation under ~/.hacienda-cr/documents/.
+ */
+
+export { buildDocumentRecord } from "./document-store.js";
+export type {
+  DocumentLifecycleStatus,
+  StatusTransition,
+  DocumentRecordTotals,
+  DocumentRecord,
+  NewDocumentRecord,
+  DocumentStatusUpdate,
+  DocumentQuery,
+  DocumentStore,
+} from "./document-store.js";
+
+export { FileDocumentStore } from "./file-document-store.js";
+export type { FileDocumentStoreOptions } from "./file-document-store.js";
@@ -0,0 +1,191 @@
+/**
+ * Property-based tests for the tax calculator.
+ *
+ * Generates invoices with up to 300 lines of fractional quantities,
+ * discounts, mixed IVA rates and partial exonerations, and checks that
+ * every summary total equals the exact sum of the line amounts — the
+ * same recomputation Hacienda does before accepting a document.
+ */
+
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+
+import { SIMPLE_INVOICE } from "../__fixtures__/invoices.js";
+import { validateFacturaInput } from "../xml/validator.js";
+import { calculateInvoiceSummary, calculateLineItemTotals } from "./calculator.js";
+import type { CalculatedLineItem, LineItemInput } from "./calculator.js";
+import { Decimal } from "./decimal.js";
+
+// ---------------------------------------------------------------------------
+// Arbitraries
+// ---------------------------------------------------------------------------
+
+/** IVA rate codes with their rates. */
+const IVA_RATES = [
+  { codigoTarifa: "01", tarifa: 0 },
+  { codigoTarifa: "02", tarifa: 1 },
+  { codigoTarifa: "03", tarifa: 2 },
+  { codigoTarifa: "04", tarifa: 4 },
+  { codigoTarifa: "06", tarifa: 8 },
+  { codigoTarifa: "08", tarifa: 13 },
+] as const;
+
+/** Decimal number with up to `places` decimals in [min, max] units. */
+function scaled(min: number, max: number, places: number): fc.Arbitrary<number> {
+  return fc.integer({ min, max }).map((units) => units / 10 ** places);
+}
+
+const lineItemArbitrary = fc.record({
+  cantidad: scaled(1, 1_000_000, 3),
+  precioUnitario: scaled(1, 100_000_000_000, 5),
+  descuentoPct: fc.option(fc.integer({ min: 1, max: 50 }), { nil: undefined }),
+  iva: fc.option(fc.constantFrom(...IVA_RATES), { nil: undefined }),
+  exoneracionPct: fc.option(fc.integer({ min: 1, max: 100 }), { nil: undefined }),
+  esServicio: fc.boolean(),
+});
+
+const invoiceArbitrary = fc.array(lineItemArbitrary, { minLength: 1, maxLength: 300 });
+
+type GeneratedLine = typeof lineItemArbitrary extends fc.Arbitrary<infer T> ? T : never;
+
+function toLineItemInput(line: GeneratedLine, index: number): LineItemInput {
+  const montoTotal = Decimal.from(line.cantidad).times(line.precioUnitario);
+  const montoDescuento = line.descuentoPct
+    ? montoTotal.percent(line.descuentoPct).round(2).toNumber()
+    : 0;
+
+  return {
+    numeroLinea: index + 1,
+    codigoCabys: "4321000000000",
+    cantidad: line.cantidad,
+    unidadMedida: line.esServicio ? "Sp" : "Unid",
+    detalle: `Linea ${index + 1}`,
+    precioUnitario: line.precioUnitario,
+    esServicio: line.esServicio,
+    ...(montoDescuento > 0
+      ? {
+          descuento: [
+            {
+              montoDescuento,
+              naturalezaDescuento: "Descuento comercial",
+            },
+          ],
+        }
+      : {}),
+    ...(line.iva
+      ? {
+          impuesto: [
+            {
+              codigo: "01",
+              codigoTarifa: line.iva.codigoTarifa,
+              tarifa: line.iva.tarifa,
+              ...(line.exoneracionPct
+                ? {
+                    exoneracion: {
+                      tipoDocumento: "03",
+                      numeroDocumento: "AL-001-2025",
+                      nombreInstitucion: "Ministerio de Hacienda",
+                      fechaEmision: "2025-01-15T00:00:00-06:00",
+                      porcentajeExoneracion: line.exoneracionPct,
+                    },
+                  }
+                : {}),
+            },
+          ],
+        }
+      : {}),
+  };
+}
+
+function calculate(lines: GeneratedLine[]): CalculatedLineItem[] {
+  return lines.map((line, index) => calculateLineItemTotals(toLineItemInput(line, index)));
+}
+
+/** Whether a number has at most 5 decimal places. */
+function hasAtMost5Decimals(value: number): boolean {
+  return Decimal.from(value).round(5).equals(value);
+}
+
+// ---------------------------------------------------------------------------
+// Properties
+// ---------------------------------------------------------------------------
+
+describe("calculator properties", () => {
+  it("keeps every line internally consistent", () => {
+    fc.assert(
+      fc.property(invoiceArbitrary, (lines) => {
+        for (const item of calculate(lines)) {
+          const descuentos = Decimal.sum((item.descuento ?? []).map((d) => d.montoDescuento));
+
+          expect(Decimal.from(item.montoTotal).minus(descuentos).equals(item.subTotal)).toBe(true);
+          expect(
+            Decimal.from(item.subTotal)
+              .plus(item.impuestoNeto ?? 0)
+              .equals(item.montoTotalLinea),
+          ).toBe(true);
+
+          for (const value of [item.montoTotal, item.subTotal, item.montoTotalLinea]) {
+            expect(hasAtMost5Decimals(value)).toBe(true);
+          }
+        }
+      }),
+      { numRuns: 50 },
+    );
+  });
+
+  it("makes summary totals equal the exact sums of the lines", () => {
+    fc.assert(
+      fc.property(invoiceArbitrary, (lines) => {
+        const items = calculate(lines);
+        const summary = calculateInvoiceSummary(items);
+
+        const sumOf = (pick: (item: CalculatedLineItem) => number | undefined) =>
+          Decimal.sum(items.map((item) => pick(item) ?? 0));
+
+        expect(sumOf((item) => item.impuestoNeto).equals(summary.totalImpuesto)).toBe(true);
+        expect(sumOf((item) => item.subTotal).equals(summary.totalVenta)).toBe(true);
+        expect(
+          Decimal.sum(
+            items.flatMap((item) => (item.descuento ?? []).map((d) => d.montoDescuento)),
+          ).equals(summary.totalDescuentos),
+        ).toBe(true);
+
+        expect(
+          Decimal.sum([summary.totalGravado, summary.totalExento, summary.totalExonerado]).equals(
+            summary.totalVenta,
+          ),
+        ).toBe(true);
+        expect(
+          Decimal.sum([summary.totalServGravados, summary.totalMercanciasGravadas]).equals(
+            summary.totalGravado,
+          ),
+        ).toBe(true);
+        expect(
+          Decimal.from(summary.totalVentaNeta)
+            .plus(summary.totalImpuesto)
+            .equals(summary.totalComprobante),
+        ).toBe(true);
+      }),
+      { numRuns: 50 },
+    );
+  });
+
+  it("produces documents that pass validateFacturaInput", () => {
+    fc.assert(
+      fc.property(invoiceArbitrary, (lines) => {
+        const items = calculate(lines);
+        const summary = calculateInvoiceSummary(items);
+        const detalleServicio = items.map(({ esServicio: _esServicio, ...line }) => line);
+
+        const result = validateFacturaInput({
+          ...SIMPLE_INVOICE,
+          detalleServicio,
+          resumenFactura: summary,
+        });
+
+        expect(result.errors).toEqual([]);
+      }),
+      { numRuns: 30 },
+    );
+  });
+});
@@ -3,6 +3,8 @@
  */
 
 import { describe, it, expect } from "vitest";
+import { TAX_CODE_FIXTURES } from "../__fixtures__/tax-code-fixtures.js";
+import { ValidationError } from "../errors.js";
 import { round5, calculateLineItemTotals, calculateInvoiceSummary } from "./calculator.js";
 import type { LineItemInput } from "./calculator.js";
 
@@ -714,14 +716,14 @@ describe("calculateLineItemTotals – edge cases", () => {
     const result = calculateLineItemTotals(item);
     expect(result.impuesto).toBeDefined();
     expect(result.impuesto).toHaveLength(2);
-    // IVA: 10000 * 0.13 = 1300
-    expect(result.impuesto?.[0]?.monto).toBe(1300);
     // Selectivo: 10000 * 0.10 = 1000
     expect(result.impuesto?.[1]?.monto).toBe(1000);
-    // impuestoNeto only counts IVA (code "01"), not selectivo consumo ("02")
-    expect(result.impuestoNeto).toBe(1300);
-    // montoTotalLinea = subTotal + impuestoNeto (only IVA net)
-    expect(result.montoTotalLinea).toBe(11300);
+    // IVA base includes selectivo consumo: 11000 * 0.13 = 1430
+    expect(result.baseImponible).toBe(11000);
+    expect(result.impuesto?.[0]?.monto).toBe(1430);
+    // impuestoNeto counts every tax
+    expect(result.impuestoNeto).toBe(2430);
+    expect(result.montoTotalLinea).toBe(12430);
   });
 
   it("should handle 100% exoneration", () => {
@@ -857,3 +859,75 @@ describe("calculateInvoiceSummary – edge cases", () => {
     expect(summary.totalComprobante).toBe(24950);
   });
 });
+
+// ---------------------------------------------------------------------------
+// calculateLineItemTotals – tax codes
+// ---------------------------------------------------------------------------
+
+describe.each(Object.entries(TAX_CODE_FIXTURES))(
+  "calculateLineItemTotals – tax code %s",
+  (_, fixture) => {
+    it("computes each tax, the IVA base and the line total", () => {
+      const result = calculateLineItemTotals(fixture.line);
+      expect(result.impuesto?.map((t) => t.monto)).toEqual(fixture.montos);
+      expect(result.baseImponible).toBe(fixture.baseImponible);
+      expect(result.impuestoNeto).toBe(fixture.impuestoNeto);
+      expect(result.montoTotalLinea).toBe(fixture.montoTotalLinea);
+    });
+
+    it("carries the total into the summary", () => {
+      const summary = calculateInvoiceSummary([calculateLineItemTotals(fixture.line)]);
+      expect(summary.totalImpuesto).toBe(fixture.impuestoNeto);
+      expect(summary.totalComprobante).toBe(fixture.montoTotalLinea);
+    });
+  },
+);
+
+describe("calculateLineItemTotals – specific taxes", () => {
+  it("should keep specific-tax data on the calculated tax", () => {
+    const result = calculateLineItemTotals(TAX_CODE_FIXTURES["03"].line);
+    expect(getFirstTax(result).datosImpuestoEspecifico).toEqual({
+      cantidadUnidadMedida: 1,
+      impuestoUnidad: 265.75,
+    });
+  });
+
+  it("should classify a line with only specific taxes as exempt from IVA", () => {
+    const summary = calculateInvoiceSummary([
+      calculateLineItemTotals(TAX_CODE_FIXTURES["03"].line),
+    ]);
+    expect(summary.totalMercanciasExentas).toBe(28000);
+    expect(summary.totalGravado).toBe(0);
+  });
+
+  it("should exonerate a specific tax like any other tax", () => {
+    const result = calculateLineItemTotals({
+      ...TAX_CODE_FIXTURES["03"].line,
+      impuesto: [
+        {
+          codigo: "03",
+          tarifa: 0,
+          datosImpuestoEspecifico: { impuestoUnidad: 265.75 },
+          exoneracion: {
+            tipoDocumento: "03",
+            numeroDocumento: "EX-COMB-2025",
+            nombreInstitucion: "Ministerio",
+            fechaEmision: "2025-06-01T00:00:00-06:00",
+            porcentajeExoneracion: 50,
+          },
+        },
+      ],
+    });
+    expect(getFirstTax(result).exoneracion?.montoExoneracion).toBe(5315);
+    expect(result.impuestoNeto).toBe(5315);
+  });
+
+  it("should require factorCalculoIva for used goods", () => {
+    expect(() =>
+      calculateLineItemTotals({
+        ...TAX_CODE_FIXTURES["08"].line,
+        impuesto: [{ codigo: "08", codigoTarifa: "08", tarifa: 13 }],
+      }),
+    ).toThrow(ValidationError);
+  });
+});
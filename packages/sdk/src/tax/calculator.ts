@@ -1,21 +1,36 @@
 /**
  * Tax calculation utilities for Hacienda v4.4 electronic invoicing.
  *
- * Implements IVA tax computation, line item total calculation,
- * and invoice summary aggregation per the Hacienda specification.
+ * Implements IVA and specific-tax computation, line item total
+ * calculation, and invoice summary aggregation per the Hacienda
+ * specification.
+ *
+ * Non-IVA taxes (Selectivo de Consumo, combustibles, bebidas, tabaco,
+ * cemento, otros) are computed first — as a percentage of the subtotal
+ * or, with `datosImpuestoEspecifico`, per taxed unit — and added to the
+ * IVA base (`baseImponible`). IVA is then charged on that base at its
+ * rate, or with `factorCalculoIva` under the used-goods regime.
  *
  * All monetary amounts are rounded to 5 decimal places as required
- * by the Hacienda specification.
+ * by the Hacienda specification. Arithmetic is done with exact decimals
+ * ({@link Decimal}) so line sums always equal the summary totals; the
+ * public API still takes and returns plain numbers.
  */
 
 import type {
+  CodigoTipoMoneda,
   Impuesto,
   Descuento,
   CodigoComercial,
+  DatosImpuestoEspecifico,
   Exoneracion,
 } from "@dojocoding/hacienda-shared";
 import { TaxCode } from "@dojocoding/hacienda-shared";
 
+import { ValidationError } from "../errors.js";
+import { Decimal } from "./decimal.js";
+import type { DecimalLike } from "./decimal.js";
+
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
@@ -30,17 +45,15 @@ const DECIMAL_PLACES = 5;
 /**
  * Round a number to 5 decimal places (Hacienda requirement).
  *
- * Uses `Number.toFixed(5)` which implements "round half to even"
- * (banker's rounding) per the ECMAScript spec. This avoids
- * floating-point multiplication artifacts that can occur with
- * the `Math.round(value * factor) / factor` approach (e.g.,
- * 1.0000025 * 100000 = 100000.24999999999 in IEEE 754).
+ * Rounds the number's decimal representation exactly, half away from
+ * zero, so `1.0000025` becomes `1.00000` and `0.000005` becomes
+ * `0.00001` regardless of how either value is stored in IEEE 754.
  *
  * @param value - The numeric value to round.
  * @returns The value rounded to 5 decimal places.
  */
 export function round5(value: number): number {
-  return Number(value.toFixed(DECIMAL_PLACES));
+  return Decimal.from(value).round(DECIMAL_PLACES).toNumber();
 }
 
 // ---------------------------------------------------------------------------
@@ -58,6 +71,19 @@ export interface LineItemTaxInput {
   /** Tax rate percentage (e.g., 13 for 13%). */
   tarifa: number;
 
+  /**
+   * IVA factor for the used-goods regime (e.g., 0.0422). Required for
+   * code "08" (IVA bienes usados): the tax is `baseImponible * factor`.
+   */
+  factorCalculoIva?: number;
+
+  /**
+   * Per-unit data for specific taxes. When present, the tax is
+   * `cantidad * cantidadUnidadMedida * volumenUnidadConsumo * porcentaje% * impuestoUnidad`
+   * (omitted factors count as 1) instead of a percentage of the subtotal.
+   */
+  datosImpuestoEspecifico?: DatosImpuestoEspecifico;
+
   /** Exoneration information. Optional. */
   exoneracion?: {
     tipoDocumento: string;
@@ -156,7 +182,7 @@ export interface CalculatedLineItem {
   /** Taxes applied to this line item. */
   impuesto?: Impuesto[];
 
-  /** Net IVA tax amount. Optional. */
+  /** Net tax amount (all taxes after exonerations). Optional. */
   impuestoNeto?: number;
 
   /** Total line amount including taxes. */
@@ -176,85 +202,168 @@ const IVA_TAX_CODES: string[] = [
   TaxCode.IVA_BIENES_USADOS,
 ];
 
+/** Tax fields that determine a tax amount. */
+interface TaxAmountInput {
+  codigo: string;
+  tarifa: number;
+  factorCalculoIva?: number;
+  datosImpuestoEspecifico?: DatosImpuestoEspecifico;
+}
+
+/**
+ * Compute the gross amount (before exonerations) of each tax on a line.
+ *
+ * Non-IVA taxes are computed first and added to the subtotal to form the
+ * IVA base; IVA taxes are then charged on that base. A used-goods IVA
+ * without `factorCalculoIva` falls back to its `tarifa`.
+ *
+ * Shared with the document validator so both apply the same rules.
+ *
+ * @param cantidad - Line quantity (for per-unit taxes).
+ * @param subTotal - Line subtotal after discounts.
+ * @param taxes - The line's taxes.
+ * @returns The IVA base and each tax's amount, in input order.
+ */
+export function calculateTaxAmounts(
+  cantidad: DecimalLike,
+  subTotal: DecimalLike,
+  taxes: readonly TaxAmountInput[],
+): { baseImponible: Decimal; montos: Decimal[] } {
+  const montos: Decimal[] = new Array<Decimal>(taxes.length);
+
+  let baseImponible = Decimal.from(subTotal);
+  taxes.forEach((tax, index) => {
+    if (IVA_TAX_CODES.includes(tax.codigo)) return;
+
+    const monto = tax.datosImpuestoEspecifico
+      ? specificTaxAmount(cantidad, tax.datosImpuestoEspecifico)
+      : Decimal.from(subTotal).percent(tax.tarifa).round(DECIMAL_PLACES);
+    montos[index] = monto;
+    baseImponible = baseImponible.plus(monto);
+  });
+
+  taxes.forEach((tax, index) => {
+    if (!IVA_TAX_CODES.includes(tax.codigo)) return;
+
+    montos[index] =
+      tax.codigo === TaxCode.IVA_BIENES_USADOS && tax.factorCalculoIva !== undefined
+        ? baseImponible.times(tax.factorCalculoIva).round(DECIMAL_PLACES)
+        : baseImponible.percent(tax.tarifa).round(DECIMAL_PLACES);
+  });
+
+  return { baseImponible, montos };
+}
+
+/**
+ * Per-unit tax amount: cantidad * cantidadUnidadMedida * volumenUnidadConsumo
+ * * porcentaje% * impuestoUnidad, each omitted factor counting as 1
+ * (e.g., liters of fuel, or milliliters of absolute alcohol).
+ */
+function specificTaxAmount(cantidad: DecimalLike, datos: DatosImpuestoEspecifico): Decimal {
+  let unidades = Decimal.from(cantidad)
+    .times(datos.cantidadUnidadMedida ?? 1)
+    .times(datos.volumenUnidadConsumo ?? 1);
+  if (datos.porcentaje !== undefined) {
+    unidades = unidades.percent(datos.porcentaje);
+  }
+  return unidades.times(datos.impuestoUnidad).round(DECIMAL_PLACES);
+}
+
 /**
  * Calculate all computed fields for a single line item.
  *
  * Computes:
  * - `montoTotal` = cantidad * precioUnitario
  * - `subTotal` = montoTotal - sum(discounts)
- * - `baseImponible` = subTotal (or adjusted for exonerations)
- * - `impuesto[].monto` = subTotal * tarifa / 100
- * - `impuestoNeto` = sum of all IVA tax amounts (after exonerations)
+ * - non-IVA `impuesto[].monto` = subTotal * tarifa / 100, or the per-unit
+ *   amount from `datosImpuestoEspecifico`
+ * - `baseImponible` = subTotal + sum(non-IVA taxes)
+ * - IVA `impuesto[].monto` = baseImponible * tarifa / 100
+ *   (baseImponible * factorCalculoIva for used goods)
+ * - `impuestoNeto` = sum of all tax amounts (after exonerations)
  * - `montoTotalLinea` = subTotal + impuestoNeto
  *
  * @param item - The line item input with core values.
  * @returns A fully calculated line item ready for XML generation.
+ * @throws {ValidationError} If a used-goods IVA (code "08") has no `factorCalculoIva`.
  */
 export function calculateLineItemTotals(item: LineItemInput): CalculatedLineItem {
   // MontoTotal = cantidad * precioUnitario
-  const montoTotal = round5(item.cantidad * item.precioUnitario);
+  const montoTotal = Decimal.from(item.cantidad).times(item.precioUnitario).round(DECIMAL_PLACES);
 
   // Sum of discounts
-  const totalDescuento = item.descuento
-    ? round5(item.descuento.reduce((sum: number, d: Descuento) => sum + d.montoDescuento, 0))
-    : 0;
+  const totalDescuento = Decimal.sum(
+    (item.descuento ?? []).map((d: Descuento) => d.montoDescuento),
+  ).round(DECIMAL_PLACES);
 
   // SubTotal = montoTotal - discounts
-  const subTotal = round5(montoTotal - totalDescuento);
+  const subTotal = montoTotal.minus(totalDescuento).round(DECIMAL_PLACES);
+
+  const taxes = item.impuesto ?? [];
+  taxes.forEach((tax, index) => {
+    if (tax.codigo === TaxCode.IVA_BIENES_USADOS && tax.factorCalculoIva === undefined) {
+      throw new ValidationError(
+        `Line ${item.numeroLinea}: used-goods IVA (code 08) requires factorCalculoIva`,
+        [
+          {
+            path: `impuesto.${index}.factorCalculoIva`,
+            message: "Required for IVA bienes usados (code 08)",
+          },
+        ],
+      );
+    }
+  });
 
-  // BaseImponible = subTotal (taxable base)
-  const baseImponible = subTotal;
+  // BaseImponible = subTotal + non-IVA taxes (the IVA base)
+  const { baseImponible, montos } = calculateTaxAmounts(item.cantidad, subTotal, taxes);
 
   // Calculate taxes
   const calculatedTaxes: Impuesto[] = [];
-  let impuestoNeto = 0;
-
-  if (item.impuesto && item.impuesto.length > 0) {
-    for (const tax of item.impuesto) {
-      // Full tax amount = subTotal * tarifa / 100
-      const fullTaxAmount = round5((subTotal * tax.tarifa) / 100);
-
-      let taxAmount = fullTaxAmount;
-      let exoneracion: Exoneracion | undefined;
-
-      // Handle exoneration
-      if (tax.exoneracion) {
-        const exonerationPortion = round5(
-          (fullTaxAmount * tax.exoneracion.porcentajeExoneracion) / 100,
-        );
-        taxAmount = round5(fullTaxAmount - exonerationPortion);
-
-        exoneracion = {
-          tipoDocumento: tax.exoneracion.tipoDocumento as Exoneracion["tipoDocumento"],
-          numeroDocumento: tax.exoneracion.numeroDocumento,
-          nombreInstitucion: tax.exoneracion.nombreInstitucion,
-          fechaEmision: tax.exoneracion.fechaEmision,
-          porcentajeExoneracion: tax.exoneracion.porcentajeExoneracion,
-          montoExoneracion: exonerationPortion,
-        };
-      }
-
-      const calculatedTax: Impuesto = {
-        codigo: tax.codigo as Impuesto["codigo"],
-        tarifa: tax.tarifa,
-        monto: fullTaxAmount,
-        ...(tax.codigoTarifa ? { codigoTarifa: tax.codigoTarifa as Impuesto["codigoTarifa"] } : {}),
-        ...(exoneracion ? { exoneracion } : {}),
+  let impuestoNeto = Decimal.ZERO;
+
+  taxes.forEach((tax, index) => {
+    const fullTaxAmount = montos[index] ?? Decimal.ZERO;
+
+    let taxAmount = fullTaxAmount;
+    let exoneracion: Exoneracion | undefined;
+
+    // Handle exoneration
+    if (tax.exoneracion) {
+      const exonerationPortion = fullTaxAmount
+        .percent(tax.exoneracion.porcentajeExoneracion)
+        .round(DECIMAL_PLACES);
+      taxAmount = fullTaxAmount.minus(exonerationPortion);
+
+      exoneracion = {
+        tipoDocumento: tax.exoneracion.tipoDocumento as Exoneracion["tipoDocumento"],
+        numeroDocumento: tax.exoneracion.numeroDocumento,
+        nombreInstitucion: tax.exoneracion.nombreInstitucion,
+        fechaEmision: tax.exoneracion.fechaEmision,
+        porcentajeExoneracion: tax.exoneracion.porcentajeExoneracion,
+        montoExoneracion: exonerationPortion.toNumber(),
       };
+    }
 
-      calculatedTaxes.push(calculatedTax);
+    const calculatedTax: Impuesto = {
+      codigo: tax.codigo as Impuesto["codigo"],
+      tarifa: tax.tarifa,
+      monto: fullTaxAmount.toNumber(),
+      ...(tax.codigoTarifa ? { codigoTarifa: tax.codigoTarifa as Impuesto["codigoTarifa"] } : {}),
+      ...(tax.factorCalculoIva !== undefined ? { factorCalculoIva: tax.factorCalculoIva } : {}),
+      ...(tax.datosImpuestoEspecifico
+        ? { datosImpuestoEspecifico: tax.datosImpuestoEspecifico }
+        : {}),
+      ...(exoneracion ? { exoneracion } : {}),
+    };
 
-      // ImpuestoNeto counts only the net IVA amount (after exoneration)
-      if (IVA_TAX_CODES.includes(tax.codigo)) {
-        impuestoNeto = round5(impuestoNeto + taxAmount);
-      }
-    }
-  }
+    calculatedTaxes.push(calculatedTax);
 
-  impuestoNeto = round5(impuestoNeto);
+    // ImpuestoNeto counts every tax net of its exoneration
+    impuestoNeto = impuestoNeto.plus(taxAmount);
+  });
 
   // MontoTotalLinea = subTotal + impuestoNeto
-  const montoTotalLinea = round5(subTotal + impuestoNeto);
+  const montoTotalLinea = subTotal.plus(impuestoNeto);
 
   const result: CalculatedLineItem = {
     numeroLinea: item.numeroLinea,
@@ -263,9 +372,9 @@ export function calculateLineItemTotals(item: LineItemInput): CalculatedLineItem
     unidadMedida: item.unidadMedida,
     detalle: item.detalle,
     precioUnitario: item.precioUnitario,
-    montoTotal,
-    subTotal,
-    montoTotalLinea,
+    montoTotal: montoTotal.toNumber(),
+    subTotal: subTotal.toNumber(),
+    montoTotalLinea: montoTotalLinea.toNumber(),
     esServicio: item.esServicio ?? false,
   };
 
@@ -279,8 +388,8 @@ export function calculateLineItemTotals(item: LineItemInput): CalculatedLineItem
 
   if (calculatedTaxes.length > 0) {
     result.impuesto = calculatedTaxes;
-    result.baseImponible = baseImponible;
-    result.impuestoNeto = impuestoNeto;
+    result.baseImponible = baseImponible.toNumber();
+    result.impuestoNeto = impuestoNeto.toNumber();
   }
 
   return result;
@@ -294,6 +403,8 @@ export function calculateLineItemTotals(item: LineItemInput): CalculatedLineItem
  * Result of invoice summary calculation, matching the ResumenFactura structure.
  */
 export interface InvoiceSummary {
+  /** Document currency and exchange rate to CRC. Omitted for colones. */
+  codigoTipoMoneda?: CodigoTipoMoneda;
   /** Total taxable services. */
   totalServGravados: number;
   /** Total exempt services. */
@@ -318,7 +429,7 @@ export interface InvoiceSummary {
   totalDescuentos: number;
   /** Net sales (totalVenta - totalDescuentos). */
   totalVentaNeta: number;
-  /** Total IVA tax. */
+  /** Total tax (IVA and specific taxes, net of exonerations). */
   totalImpuesto: number;
   /** Grand total. */
   totalComprobante: number;
@@ -327,8 +438,9 @@ export interface InvoiceSummary {
 /**
  * Classify a line item as gravado (taxed), exento (exempt), or exonerado (exonerated).
  *
+ * Only IVA taxes are considered; specific taxes do not make a line gravado.
  * A line is:
- * - **Exento**: no taxes at all, or all tax rates are 0
+ * - **Exento**: no IVA taxes at all, or all IVA rates are 0
  * - **Exonerado**: has an exoneration with 100% exoneration percentage
  * - **Gravado**: has taxes with rate > 0
  *
@@ -336,53 +448,54 @@ export interface InvoiceSummary {
  * as gravado with the exonerated portion tracked separately.
  */
 function classifyLineItem(item: CalculatedLineItem): {
-  gravado: number;
-  exento: number;
-  exonerado: number;
+  gravado: Decimal;
+  exento: Decimal;
+  exonerado: Decimal;
 } {
-  const subTotal = item.subTotal;
+  const subTotal = Decimal.from(item.subTotal);
+  const zero = Decimal.ZERO;
 
-  if (!item.impuesto || item.impuesto.length === 0) {
-    // No taxes at all => exempt
-    return { gravado: 0, exento: subTotal, exonerado: 0 };
+  const ivaTaxes = (item.impuesto ?? []).filter((t: Impuesto) => IVA_TAX_CODES.includes(t.codigo));
+  if (ivaTaxes.length === 0) {
+    // No IVA at all => exempt
+    return { gravado: zero, exento: subTotal, exonerado: zero };
   }
 
-  // Check if all taxes have rate 0 => exempt
-  const allZeroRate = item.impuesto.every((t: Impuesto) => t.tarifa === 0);
+  // Check if all IVA taxes have rate 0 => exempt
+  const allZeroRate = ivaTaxes.every((t: Impuesto) => t.tarifa === 0);
   if (allZeroRate) {
-    return { gravado: 0, exento: subTotal, exonerado: 0 };
+    return { gravado: zero, exento: subTotal, exonerado: zero };
   }
 
   // Check for exonerations
-  const hasExoneration = item.impuesto.some((t: Impuesto) => t.exoneracion !== undefined);
+  const hasExoneration = ivaTaxes.some((t: Impuesto) => t.exoneracion !== undefined);
 
   if (hasExoneration) {
     // Calculate the exonerated portion based on exoneration percentages
-    let totalExonerado = 0;
-    for (const tax of item.impuesto) {
+    let totalExonerado = Decimal.ZERO;
+    for (const tax of ivaTaxes) {
       if (tax.exoneracion) {
-        totalExonerado = round5(
-          totalExonerado + (subTotal * tax.exoneracion.porcentajeExoneracion) / 100,
+        totalExonerado = totalExonerado.plus(
+          subTotal.percent(tax.exoneracion.porcentajeExoneracion).round(DECIMAL_PLACES),
         );
       }
     }
-    totalExonerado = round5(totalExonerado);
 
     // If 100% exonerated, all goes to exonerado
-    if (totalExonerado >= subTotal) {
-      return { gravado: 0, exento: 0, exonerado: subTotal };
+    if (!totalExonerado.lessThan(subTotal)) {
+      return { gravado: zero, exento: zero, exonerado: subTotal };
     }
 
     // Partial exoneration: the non-exonerated portion is gravado
     return {
-      gravado: round5(subTotal - totalExonerado),
-      exento: 0,
+      gravado: subTotal.minus(totalExonerado),
+      exento: zero,
       exonerado: totalExonerado,
     };
   }
 
   // Standard taxed item
-  return { gravado: subTotal, exento: 0, exonerado: 0 };
+  return { gravado: subTotal, exento: zero, exonerado: zero };
 }
 
 /**
@@ -391,71 +504,89 @@ function classifyLineItem(item: CalculatedLineItem): {
  * Separates totals by service vs merchandise, and by gravado/exento/exonerado.
  * Computes total discounts, net sales, total tax, and grand total.
  *
+ * Totals are in the currency of the line amounts; pass `codigoTipoMoneda`
+ * for documents in a foreign currency so the summary carries the
+ * exchange rate to colones (see `resolveCodigoTipoMoneda`).
+ *
  * @param items - Array of calculated line items (from `calculateLineItemTotals`).
  * @param otrosCargos - Optional total of other charges to add to the grand total.
+ * @param codigoTipoMoneda - Document currency and exchange rate. Omit for colones.
  * @returns The complete invoice summary.
  */
 export function calculateInvoiceSummary(
   items: CalculatedLineItem[],
   otrosCargos?: number,
+  codigoTipoMoneda?: CodigoTipoMoneda,
 ): InvoiceSummary {
-  let totalServGravados = 0;
-  let totalServExentos = 0;
-  let totalServExonerado = 0;
-  let totalMercanciasGravadas = 0;
-  let totalMercanciasExentas = 0;
-  let totalMercExonerada = 0;
-  let totalDescuentos = 0;
-  let totalImpuesto = 0;
+  let totalServGravados = Decimal.ZERO;
+  let totalServExentos = Decimal.ZERO;
+  let totalServExonerado = Decimal.ZERO;
+  let totalMercanciasGravadas = Decimal.ZERO;
+  let totalMercanciasExentas = Decimal.ZERO;
+  let totalMercExonerada = Decimal.ZERO;
+  let totalDescuentos = Decimal.ZERO;
+  let totalImpuesto = Decimal.ZERO;
 
   for (const item of items) {
     const classification = classifyLineItem(item);
 
     if (item.esServicio) {
-      totalServGravados = round5(totalServGravados + classification.gravado);
-      totalServExentos = round5(totalServExentos + classification.exento);
-      totalServExonerado = round5(totalServExonerado + classification.exonerado);
+      totalServGravados = totalServGravados.plus(classification.gravado);
+      totalServExentos = totalServExentos.plus(classification.exento);
+      totalServExonerado = totalServExonerado.plus(classification.exonerado);
     } else {
-      totalMercanciasGravadas = round5(totalMercanciasGravadas + classification.gravado);
-      totalMercanciasExentas = round5(totalMercanciasExentas + classification.exento);
-      totalMercExonerada = round5(totalMercExonerada + classification.exonerado);
+      totalMercanciasGravadas = totalMercanciasGravadas.plus(classification.gravado);
+      totalMercanciasExentas = totalMercanciasExentas.plus(classification.exento);
+      totalMercExonerada = totalMercExonerada.plus(classification.exonerado);
     }
 
     // Sum discounts
     if (item.descuento) {
       for (const d of item.descuento) {
-        totalDescuentos = round5(totalDescuentos + d.montoDescuento);
+        totalDescuentos = totalDescuentos.plus(d.montoDescuento);
       }
     }
 
-    // Sum taxes (impuestoNeto is the net IVA after exoneration)
+    // Sum taxes (impuestoNeto is the net of all taxes after exoneration)
     if (item.impuestoNeto !== undefined) {
-      totalImpuesto = round5(totalImpuesto + item.impuestoNeto);
+      totalImpuesto = totalImpuesto.plus(item.impuestoNeto);
     }
   }
 
-  const totalGravado = round5(totalServGravados + totalMercanciasGravadas);
-  const totalExento = round5(totalServExentos + totalMercanciasExentas);
-  const totalExonerado = round5(totalServExonerado + totalMercExonerada);
-  const totalVenta = round5(totalGravado + totalExento + totalExonerado);
-  const totalVentaNeta = round5(totalVenta - totalDescuentos);
-  const totalOtrosCargos = otrosCargos ? round5(otrosCargos) : 0;
-  const totalComprobante = round5(totalVentaNeta + totalImpuesto + totalOtrosCargos);
+  // Sums of 5-decimal amounts are exact; round once in case callers
+  // passed hand-built items with more decimals.
+  totalServGravados = totalServGravados.round(DECIMAL_PLACES);
+  totalServExentos = totalServExentos.round(DECIMAL_PLACES);
+  totalServExonerado = totalServExonerado.round(DECIMAL_PLACES);
+  totalMercanciasGravadas = totalMercanciasGravadas.round(DECIMAL_PLACES);
+  totalMercanciasExentas = totalMercanciasExentas.round(DECIMAL_PLACES);
+  totalMercExonerada = totalMercExonerada.round(DECIMAL_PLACES);
+  totalDescuentos = totalDescuentos.round(DECIMAL_PLACES);
+  totalImpuesto = totalImpuesto.round(DECIMAL_PLACES);
+
+  const totalGravado = totalServGravados.plus(totalMercanciasGravadas);
+  const totalExento = totalServExentos.plus(totalMercanciasExentas);
+  const totalExonerado = totalServExonerado.plus(totalMercExonerada);
+  const totalVenta = totalGravado.plus(totalExento).plus(totalExonerado);
+  const totalVentaNeta = totalVenta.minus(totalDescuentos);
+  const totalOtrosCargos = Decimal.from(otrosCargos ?? 0).round(DECIMAL_PLACES);
+  const totalComprobante = totalVentaNeta.plus(totalImpuesto).plus(totalOtrosCargos);
 
   return {
-    totalServGravados,
-    totalServExentos,
-    totalServExonerado,
-    totalMercanciasGravadas,
-    totalMercanciasExentas,
-    totalMercExonerada,
-    totalGravado,
-    totalExento,
-    totalExonerado,
-    totalVenta,
-    totalDescuentos,
-    totalVentaNeta,
-    totalImpuesto,
-    totalComprobante,
+    ...(codigoTipoMoneda ? { codigoTipoMoneda } : {}),
+    totalServGravados: totalServGravados.toNumber(),
+    totalServExentos: totalServExentos.toNumber(),
+    totalServExonerado: totalServExonerado.toNumber(),
+    totalMercanciasGravadas: totalMercanciasGravadas.toNumber(),
+    totalMercanciasExentas: totalMercanciasExentas.toNumber(),
+    totalMercExonerada: totalMercExonerada.toNumber(),
+    totalGravado: totalGravado.toNumber(),
+    totalExento: totalExento.toNumber(),
+    totalExonerado: totalExonerado.toNumber(),
+    totalVenta: totalVenta.toNumber(),
+    totalDescuentos: totalDescuentos.toNumber(),
+    totalVentaNeta: totalVentaNeta.toNumber(),
+    totalImpuesto: totalImpuesto.toNumber(),
+    totalComprobante: totalComprobante.toNumber(),
   };
 }
@@ -0,0 +1,115 @@
+/**
+ * Tests for exact decimal arithmetic.
+ */
+
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+
+import { Decimal } from "./decimal.js";
+
+// ---------------------------------------------------------------------------
+// Decimal.from
+// ---------------------------------------------------------------------------
+
+describe("Decimal.from", () => {
+  it("reads numbers through their shortest decimal representation", () => {
+    expect(Decimal.from(0.1).toString()).toBe("0.1");
+    expect(Decimal.from(-12.5).toString()).toBe("-12.5");
+    expect(Decimal.from(100).toString()).toBe("100");
+  });
+
+  it("reads exponent notation", () => {
+    expect(Decimal.from(1e-7).toString()).toBe("0.0000001");
+    expect(Decimal.from(1.5e21).toString()).toBe("1500000000000000000000");
+    expect(Decimal.from("2.5E-3").toString()).toBe("0.0025");
+  });
+
+  it("rejects non-finite and malformed values", () => {
+    expect(() => Decimal.from(Number.NaN)).toThrow(RangeError);
+    expect(() => Decimal.from(Number.POSITIVE_INFINITY)).toThrow(RangeError);
+    expect(() => Decimal.from("12,50")).toThrow(RangeError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Arithmetic
+// ---------------------------------------------------------------------------
+
+describe("Decimal arithmetic", () => {
+  it("adds and subtracts without IEEE 754 error", () => {
+    expect(0.1 + 0.2).not.toBe(0.3);
+    expect(Decimal.from(0.1).plus(0.2).toNumber()).toBe(0.3);
+    expect(Decimal.from(0.3).minus(0.1).toNumber()).toBe(0.2);
+  });
+
+  it("multiplies exactly", () => {
+    expect(Decimal.from(1.005).times(3).toString()).toBe("3.015");
+    expect(Decimal.from("0.00001").times("0.00001").toString()).toBe("0.0000000001");
+  });
+
+  it("computes percentages exactly", () => {
+    expect(Decimal.from(1234.56).percent(13).toString()).toBe("160.4928");
+    expect(Decimal.from(0.5).percent(1).toString()).toBe("0.005");
+  });
+
+  it("sums a list of values", () => {
+    expect(Decimal.sum([]).toNumber()).toBe(0);
+    expect(Decimal.sum(Array.from({ length: 10 }, () => 0.1)).toNumber()).toBe(1);
+  });
+
+  it("compares values regardless of scale", () => {
+    expect(Decimal.from("1.50").equals(1.5)).toBe(true);
+    expect(Decimal.from(1).compare(2)).toBe(-1);
+    expect(Decimal.from(2).compare("1.99999")).toBe(1);
+    expect(Decimal.from(-3).abs().toNumber()).toBe(3);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Rounding
+// ---------------------------------------------------------------------------
+
+describe("Decimal.round", () => {
+  it("rounds half away from zero", () => {
+    expect(Decimal.from(0.000005).round(5).toNumber()).toBe(0.00001);
+    expect(Decimal.from(-0.000005).round(5).toNumber()).toBe(-0.00001);
+    expect(Decimal.from(1.0000025).round(5).toNumber()).toBe(1);
+    expect(Decimal.from(2.5).round(0).toNumber()).toBe(3);
+  });
+
+  it("leaves values with fewer decimals untouched", () => {
+    expect(Decimal.from(1.5).round(5).toString()).toBe("1.5");
+  });
+
+  it("never produces negative zero", () => {
+    expect(Object.is(Decimal.from(-0.000001).round(5).toNumber(), 0)).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Properties
+// ---------------------------------------------------------------------------
+
+describe("Decimal properties", () => {
+  /** Amount with up to 5 decimals, as both scaled units and a number. */
+  const amount = fc
+    .integer({ min: -1_000_000_000_000, max: 1_000_000_000_000 })
+    .map((units) => ({ units: BigInt(units), value: units / 100_000 }));
+
+  it("adds like integer arithmetic on scaled units", () => {
+    fc.assert(
+      fc.property(amount, amount, (a, b) => {
+        const expected = Number(a.units + b.units) / 100_000;
+        expect(Decimal.from(a.value).plus(b.value).toNumber()).toBe(expected);
+      }),
+    );
+  });
+
+  it("round-trips 5-decimal amounts through numbers", () => {
+    fc.assert(
+      fc.property(amount, (a) => {
+        expect(Decimal.from(a.value).round(5).toNumber()).toBe(a.value);
+      }),
+    );
+  });
+});
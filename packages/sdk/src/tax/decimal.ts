@@ -0,0 +1,177 @@
+/**
+ * Exact decimal arithmetic for monetary calculations.
+ *
+ * Amounts are held as a `bigint` number of units at a given scale
+ * (`units / 10^scale`), so additions and multiplications are exact and
+ * only {@link Decimal.round} loses precision — always at the 5 decimal
+ * places Hacienda recomputes with. This keeps totals of invoices with
+ * hundreds of fractional lines identical to Hacienda's own sums, which
+ * IEEE 754 accumulation does not guarantee.
+ *
+ * JS numbers are converted through their shortest round-trip decimal
+ * representation, so `0.1` is exactly one tenth.
+ *
+ * Internal to the SDK — the public API keeps plain `number` amounts.
+ *
+ * @module tax/decimal
+ */
+
+/** Values accepted wherever a {@link Decimal} is expected. */
+export type DecimalLike = Decimal | number | string;
+
+/** Decimal literal, optionally in exponent notation (e.g. "-1.5", "1e-7"). */
+const DECIMAL_PATTERN = /^([+-])?(\d+)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Immutable arbitrary-precision decimal.
+ *
+ * @example
+ * ```ts
+ * const monto = Decimal.from(0.1).times(3).round(5); // exactly 0.3
+ * monto.toNumber(); // 0.3
+ * ```
+ */
+export class Decimal {
+  /** Zero at scale 0. */
+  static readonly ZERO = new Decimal(0n, 0);
+
+  private constructor(
+    private readonly units: bigint,
+    private readonly scale: number,
+  ) {}
+
+  /**
+   * Creates a decimal from a number, a decimal string or another decimal.
+   *
+   * @throws {RangeError} If the value is not a finite decimal number.
+   */
+  static from(value: DecimalLike): Decimal {
+    if (value instanceof Decimal) return value;
+    if (typeof value === "number" && !Number.isFinite(value)) {
+      throw new RangeError(`Cannot represent ${value} as a decimal amount.`);
+    }
+
+    const match = DECIMAL_PATTERN.exec(String(value).trim());
+    if (!match) {
+      throw new RangeError(`Invalid decimal amount: "${String(value)}".`);
+    }
+
+    const [, sign, integer = "", fraction = "", exponent = "0"] = match;
+    let units = BigInt(integer + fraction);
+    let scale = fraction.length - Number(exponent);
+    if (scale < 0) {
+      units *= 10n ** BigInt(-scale);
+      scale = 0;
+    }
+
+    return new Decimal(sign === "-" ? -units : units, scale);
+  }
+
+  /** Exact sum of the given values (zero for an empty list). */
+  static sum(values: Iterable<DecimalLike>): Decimal {
+    let total = Decimal.ZERO;
+    for (const value of values) {
+      total = total.plus(value);
+    }
+    return total;
+  }
+
+  /** Exact sum. */
+  plus(other: DecimalLike): Decimal {
+    const [a, b, scale] = this.alignWith(other);
+    return new Decimal(a + b, scale);
+  }
+
+  /** Exact difference. */
+  minus(other: DecimalLike): Decimal {
+    const [a, b, scale] = this.alignWith(other);
+    return new Decimal(a - b, scale);
+  }
+
+  /** Exact product. */
+  times(other: DecimalLike): Decimal {
+    const value = Decimal.from(other);
+    return new Decimal(this.units * value.units, this.scale + value.scale);
+  }
+
+  /** Exact `this * rate / 100` (e.g. a tax at `rate` percent). */
+  percent(rate: DecimalLike): Decimal {
+    const product = this.times(rate);
+    return new Decimal(product.units, product.scale + 2);
+  }
+
+  /**
+   * Rounds to `places` decimal places, half away from zero
+   * (0.000005 → 0.00001, -0.000005 → -0.00001).
+   *
+   * @param places - Decimal places to keep (default: 5).
+   */
+  round(places = 5): Decimal {
+    if (this.scale <= places) return this;
+
+    const divisor = 10n ** BigInt(this.scale - places);
+    let quotient = this.units / divisor;
+    const remainder = this.units % divisor;
+    if (abs(remainder) * 2n >= divisor) {
+      quotient += this.units < 0n ? -1n : 1n;
+    }
+    return new Decimal(quotient, places);
+  }
+
+  /** Absolute value. */
+  abs(): Decimal {
+    return this.units < 0n ? new Decimal(-this.units, this.scale) : this;
+  }
+
+  /** Returns -1, 0 or 1 as this value is less than, equal to or greater than `other`. */
+  compare(other: DecimalLike): -1 | 0 | 1 {
+    const [a, b] = this.alignWith(other);
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  /** Whether both values are numerically equal (regardless of scale). */
+  equals(other: DecimalLike): boolean {
+    return this.compare(other) === 0;
+  }
+
+  /** Whether this value is strictly less than `other`. */
+  lessThan(other: DecimalLike): boolean {
+    return this.compare(other) < 0;
+  }
+
+  /** Nearest JS number (never `-0`). */
+  toNumber(): number {
+    const value = Number(this.toString());
+    return value === 0 ? 0 : value;
+  }
+
+  /** Plain decimal notation without trailing zeros (e.g. "-12.5"). */
+  toString(): string {
+    const digits = abs(this.units)
+      .toString()
+      .padStart(this.scale + 1, "0");
+    const integer = digits.slice(0, digits.length - this.scale);
+    const fraction = digits.slice(digits.length - this.scale).replace(/0+$/, "");
+    const sign = this.units < 0n ? "-" : "";
+    return `${sign}${integer}${fraction ? `.${fraction}` : ""}`;
+  }
+
+  /** Returns both values' units at their common (larger) scale. */
+  private alignWith(other: DecimalLike): [bigint, bigint, number] {
+    const value = Decimal.from(other);
+    const scale = Math.max(this.scale, value.scale);
+    return [
+      this.units * 10n ** BigInt(scale - this.scale),
+      value.units * 10n ** BigInt(scale - value.scale),
+      scale,
+    ];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function abs(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
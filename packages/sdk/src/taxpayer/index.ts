@@ -0,0 +1,17 @@
+/**
+ * Taxpayer module — cached taxpayer lookups with an offline fallback and
+ * pre-submission checks of the emisor activity and the receptor.
+ *
+ * @module taxpayer
+ */
+
+export { TaxpayerCache } from "./taxpayer-cache.js";
+export type {
+  TaxpayerCacheOptions,
+  TaxpayerCacheLookupOptions,
+  TaxpayerLookupResult,
+  TaxpayerLookupSource,
+} from "./taxpayer-cache.js";
+
+export { validateTaxpayers } from "./taxpayer-validation.js";
+export type { TaxpayerCheckedDocument, TaxpayerValidationOptions } from "./taxpayer-validation.js";
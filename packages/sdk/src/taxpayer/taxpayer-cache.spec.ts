@@ -0,0 +1,233 @@
+/**
+ * Tests for the cached taxpayer lookup and the pre-submission checks.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ActividadEconomicaResponse } from "@dojocoding/hacienda-shared";
+
+import { ApiError } from "../errors.js";
+import { TaxpayerCache } from "./taxpayer-cache.js";
+import type { TaxpayerCacheOptions } from "./taxpayer-cache.js";
+import { validateTaxpayers } from "./taxpayer-validation.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const HOUR = 60 * 60 * 1000;
+
+const EMPRESA: ActividadEconomicaResponse = {
+  nombre: "EMPRESA EJEMPLO S.A.",
+  tipoIdentificacion: "02",
+  regimen: { codigo: 1, descripcion: "Régimen General" },
+  situacion: { moroso: "NO", omiso: "NO", estado: "Inscrito" },
+  actividades: [
+    { codigo: "620100", descripcion: "Programacion", estado: "A", tipo: "P" },
+    { codigo: "461001", descripcion: "Venta al por mayor", estado: "I", tipo: "S" },
+  ],
+};
+
+function createMockResponse(status: number, body: unknown): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: vi.fn().mockResolvedValue(body),
+    text: vi.fn().mockResolvedValue(JSON.stringify(body)),
+    headers: new Headers(),
+  } as unknown as Response;
+}
+
+/** Fetch answering from a map of taxpayers (404 for unknown identifications). */
+function registryFetch(taxpayers: Record<string, ActividadEconomicaResponse>) {
+  return vi.fn<typeof fetch>((url) => {
+    const id = new URL(String(url)).searchParams.get("identificacion") ?? "";
+    const taxpayer = taxpayers[id];
+    return Promise.resolve(
+      taxpayer ? createMockResponse(200, taxpayer) : createMockResponse(404, { error: "No" }),
+    );
+  });
+}
+
+// ---------------------------------------------------------------------------
+// TaxpayerCache
+// ---------------------------------------------------------------------------
+
+describe("TaxpayerCache", () => {
+  let configDir: string;
+  let clock: Date;
+
+  beforeEach(async () => {
+    configDir = await mkdtemp(join(tmpdir(), "hacienda-taxpayers-test-"));
+    clock = new Date("2026-10-01T12:00:00Z");
+  });
+
+  afterEach(async () => {
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  const advance = (ms: number) => {
+    clock = new Date(clock.getTime() + ms);
+  };
+
+  const createCache = (fetchFn: typeof fetch, options: TaxpayerCacheOptions = {}) =>
+    new TaxpayerCache({ configDir, fetchFn, now: () => clock, retry: false, ...options });
+
+  it("serves repeated lookups from the cache and persists them", async () => {
+    const fetchFn = registryFetch({ "3101234567": EMPRESA });
+    const cache = createCache(fetchFn);
+
+    const first = await cache.find("3101234567");
+    advance(HOUR);
+    const second = await cache.find("3101234567");
+
+    expect(first.source).toBe("network");
+    expect(second).toMatchObject({ source: "cache", fetchedAt: "2026-10-01T12:00:00.000Z" });
+    expect(second.taxpayer).toMatchObject({
+      regimen: { codigo: "1", descripcion: "Régimen General" },
+      situacion: { moroso: false, omiso: false },
+    });
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+
+    // A new instance reads the file instead of the API
+    const reloaded = createCache(fetchFn);
+    expect((await reloaded.lookup("3101234567")).nombre).toBe("EMPRESA EJEMPLO S.A.");
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(await readFile(join(configDir, "taxpayers.json"), "utf-8"))).toMatchObject({
+      version: 1,
+      taxpayers: { "3101234567": { fetchedAt: expect.any(String) } },
+    });
+  });
+
+  it("serves stale entries while refreshing them in the background", async () => {
+    const fetchFn = registryFetch({ "3101234567": EMPRESA });
+    const cache = createCache(fetchFn, { ttlMs: HOUR, staleMs: 24 * HOUR });
+    await cache.find("3101234567");
+
+    advance(2 * HOUR);
+    const stale = await cache.find("3101234567");
+    await cache.settle();
+
+    expect(stale).toMatchObject({ source: "stale", fetchedAt: "2026-10-01T12:00:00.000Z" });
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(await cache.find("3101234567")).toMatchObject({
+      source: "cache",
+      fetchedAt: "2026-10-01T14:00:00.000Z",
+    });
+  });
+
+  it("refreshes expired entries first and falls back to them offline", async () => {
+    const fetchFn = registryFetch({ "3101234567": EMPRESA });
+    const cache = createCache(fetchFn, { ttlMs: HOUR, staleMs: HOUR });
+    await cache.find("3101234567");
+
+    advance(3 * HOUR);
+    expect((await cache.find("3101234567")).source).toBe("network");
+
+    advance(3 * HOUR);
+    fetchFn.mockRejectedValue(new TypeError("fetch failed"));
+    expect(await cache.find("3101234567")).toMatchObject({
+      source: "stale",
+      fetchedAt: "2026-10-01T15:00:00.000Z",
+    });
+
+    // Nothing cached to fall back to
+    await expect(cache.find("3101999999")).rejects.toThrow(/Network error/);
+  });
+
+  it("caches unknown identifications for a shorter time", async () => {
+    const fetchFn = registryFetch({});
+    const cache = createCache(fetchFn, { notFoundTtlMs: HOUR, staleMs: 0 });
+
+    expect((await cache.find("0000000000")).taxpayer).toBeUndefined();
+    await expect(cache.lookup("0000000000")).rejects.toThrow(ApiError);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+
+    advance(2 * HOUR);
+    await expect(cache.lookup("0000000000")).rejects.toThrow(/Taxpayer not found/);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("bypasses the cache on refresh and shares concurrent requests", async () => {
+    const fetchFn = registryFetch({ "3101234567": EMPRESA });
+    const cache = createCache(fetchFn);
+
+    await Promise.all([cache.find("3101234567"), cache.find("3101234567")]);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+
+    expect((await cache.find("3101234567", { refresh: true })).source).toBe("network");
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries server errors and ignores an unreadable cache file", async () => {
+    await writeFile(join(configDir, "taxpayers.json"), "not json");
+    const fetchFn = vi
+      .fn()
+      .mockResolvedValueOnce(createMockResponse(503, {}))
+      .mockResolvedValue(createMockResponse(200, EMPRESA));
+    const cache = createCache(fetchFn, { retry: { maxRetries: 1, initialDelayMs: 1 } });
+
+    expect((await cache.lookup("3101234567")).nombre).toBe("EMPRESA EJEMPLO S.A.");
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateTaxpayers
+// ---------------------------------------------------------------------------
+
+describe("validateTaxpayers", () => {
+  let configDir: string;
+
+  beforeEach(async () => {
+    configDir = await mkdtemp(join(tmpdir(), "hacienda-taxpayers-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  const draft = (codigoActividad: string, receptor = "3101765432") => ({
+    codigoActividad,
+    emisor: { identificacion: { numero: "3101234567" } },
+    receptor: { identificacion: { numero: receptor } },
+  });
+
+  const cache = (fetchFn: typeof fetch) => new TaxpayerCache({ configDir, fetchFn, retry: false });
+
+  it("accepts an active activity of the emisor and a registered receptor", async () => {
+    const taxpayers = cache(registryFetch({ "3101234567": EMPRESA, "3101765432": EMPRESA }));
+
+    expect(await validateTaxpayers(draft("620100"), taxpayers)).toEqual([]);
+  });
+
+  it("flags inactive activities and unknown receptors with their rejection codes", async () => {
+    const taxpayers = cache(registryFetch({ "3101234567": EMPRESA }));
+
+    const errors = await validateTaxpayers(draft("461001"), taxpayers);
+
+    expect(errors.map((error) => error.path)).toEqual([
+      "codigoActividad",
+      "receptor.identificacion.numero",
+    ]);
+    expect(errors[0]?.message).toContain("(active: 620100)");
+    expect(errors[0]?.message).toContain("code 07");
+    expect(errors[1]?.message).toContain("code 06");
+  });
+
+  it("skips checks that are disabled or cannot be looked up", async () => {
+    const offline = cache(vi.fn().mockRejectedValue(new TypeError("fetch failed")));
+    expect(await validateTaxpayers(draft("461001"), offline)).toEqual([]);
+
+    const taxpayers = cache(registryFetch({}));
+    const errors = await validateTaxpayers(draft("620100"), taxpayers, { checkReceptor: false });
+    expect(errors).toEqual([
+      {
+        path: "emisor.identificacion.numero",
+        message: "Emisor 3101234567 is not registered with Hacienda",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Taxpayer cache — caches economic activity lookups on disk under
+ * ~/.hacienda-cr/taxpayers.json.
+ *
+ * Entries are served from the cache while fresh. Once past their TTL
+ * they are still served for a grace period while a background request
+ * refreshes them (stale-while-revalidate). When the API is unreachable
+ * or failing, the last known entry is returned however old it is, so
+ * lookups keep working offline. Unknown identifications are cached too,
+ * for a shorter time.
+ *
+ * @module taxpayer/taxpayer-cache
+ */
+
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+import { isRetryableStatus } from "../api/error-codes.js";
+import { RateLimiter } from "../api/rate-limiter.js";
+import type { RateLimiterOptions } from "../api/rate-limiter.js";
+import { withRetry } from "../api/retry.js";
+import type { RetryOptions } from "../api/retry.js";
+import { lookupTaxpayer } from "../api/taxpayer.js";
+import type { TaxpayerInfo } from "../api/taxpayer.js";
+import { getConfigDir } from "../config/config-manager.js";
+import { ApiError } from "../errors.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link TaxpayerCache}. */
+export interface TaxpayerCacheOptions {
+  /** Override the config directory path (defaults to ~/.hacienda-cr/) */
+  configDir?: string;
+  /** Explicit cache file path (overrides `configDir`). */
+  filePath?: string;
+  /** How long a lookup stays fresh, in milliseconds (default: 24 hours). */
+  ttlMs?: number;
+  /**
+   * How long past its TTL an entry is still served while it is refreshed
+   * in the background, in milliseconds (default: 7 days). Older entries
+   * are refreshed before returning, and only used if the API fails.
+   */
+  staleMs?: number;
+  /** How long an unknown identification stays cached, in milliseconds (default: 1 hour). */
+  notFoundTtlMs?: number;
+  /** Retry strategy for failed lookups, or `false` to disable (default: 2 retries). */
+  retry?: RetryOptions | false;
+  /** Rate limit for requests to the API (default: 10 per second). */
+  rateLimit?: RateLimiterOptions;
+  /** Custom fetch implementation (for testing). */
+  fetchFn?: typeof fetch;
+  /** Clock used for entry ages (defaults to `() => new Date()`). */
+  now?: () => Date;
+}
+
+/** Options for {@link TaxpayerCache.find} and {@link TaxpayerCache.lookup}. */
+export interface TaxpayerCacheLookupOptions {
+  /** Query the API even if a fresh entry is cached. */
+  refresh?: boolean;
+}
+
+/** Where a cached lookup result came from. */
+export type TaxpayerLookupSource = "network" | "cache" | "stale";
+
+/** Result of {@link TaxpayerCache.find}. */
+export interface TaxpayerLookupResult {
+  /** The taxpayer, or undefined if Hacienda does not know the identification. */
+  readonly taxpayer: TaxpayerInfo | undefined;
+  /** When the data was fetched from the API (ISO 8601). */
+  readonly fetchedAt: string;
+  /**
+   * `"network"` if just fetched, `"cache"` if served fresh from the cache,
+   * `"stale"` if served past its TTL (being refreshed, or the API failed).
+   */
+  readonly source: TaxpayerLookupSource;
+}
+
+// ---------------------------------------------------------------------------
+// TaxpayerCache
+// ---------------------------------------------------------------------------
+
+/**
+ * Cached, rate-limited taxpayer lookups with an offline fallback.
+ *
+ * Create one instance per process and share it: it deduplicates
+ * concurrent requests for the same identification and keeps the cache
+ * file in memory after the first lookup.
+ *
+ * @example
+ * ```ts
+ * const taxpayers = new TaxpayerCache();
+ * const info = await taxpayers.lookup("3101234567");
+ * console.log(info.nombre, info.situacion?.moroso);
+ * ```
+ */
+export class TaxpayerCache {
+  private readonly filePath: string;
+  private readonly ttlMs: number;
+  private readonly staleMs: number;
+  private readonly notFoundTtlMs: number;
+  private readonly retry: RetryOptions;
+  private readonly limiter: RateLimiter;
+  private readonly fetchFn: typeof fetch | undefined;
+  private readonly now: () => Date;
+
+  private entries: Promise<Map<string, CacheEntry>> | undefined;
+  private readonly inFlight = new Map<string, Promise<CacheEntry>>();
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * @param options - Cache location, lifetimes and request settings.
+   */
+  constructor(options: TaxpayerCacheOptions = {}) {
+    this.filePath = options.filePath ?? join(getConfigDir(options.configDir), CACHE_FILE_NAME);
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+    this.notFoundTtlMs = options.notFoundTtlMs ?? DEFAULT_NOT_FOUND_TTL_MS;
+    this.retry = options.retry === false ? { maxRetries: 0 } : (options.retry ?? DEFAULT_RETRY);
+    this.limiter = new RateLimiter(options.rateLimit);
+    this.fetchFn = options.fetchFn;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Looks up a taxpayer, using the cache when possible.
+   *
+   * @param id - The taxpayer identification number (cedula).
+   * @param options - Whether to bypass the cache.
+   * @returns The taxpayer (undefined if unknown to Hacienda) and where it came from.
+   * @throws {ApiError} If the API fails and nothing is cached for the identification.
+   */
+  async find(id: string, options: TaxpayerCacheLookupOptions = {}): Promise<TaxpayerLookupResult> {
+    const key = id.trim();
+    const cached = (await this.load()).get(key);
+
+    if (cached && !options.refresh) {
+      const age = this.now().getTime() - Date.parse(cached.fetchedAt);
+      const ttl = cached.taxpayer ? this.ttlMs : this.notFoundTtlMs;
+      if (age < ttl) {
+        return toResult(cached, "cache");
+      }
+      if (age < ttl + this.staleMs) {
+        // Serve it now; the refresh updates the cache for the next lookup
+        this.fetch(key).catch(() => undefined);
+        return toResult(cached, "stale");
+      }
+    }
+
+    try {
+      return toResult(await this.fetch(key), "network");
+    } catch (error) {
+      if (cached && isUnavailable(error)) {
+        return toResult(cached, "stale");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Looks up a taxpayer, using the cache when possible. A drop-in
+   * replacement for {@link lookupTaxpayer}.
+   *
+   * @param id - The taxpayer identification number (cedula).
+   * @param options - Whether to bypass the cache.
+   * @returns Taxpayer info with activities.
+   * @throws {ApiError} With status 404 if the identification is unknown, or if
+   *   the API fails and nothing is cached for it.
+   */
+  async lookup(id: string, options: TaxpayerCacheLookupOptions = {}): Promise<TaxpayerInfo> {
+    const { taxpayer } = await this.find(id, options);
+    if (!taxpayer) {
+      throw new ApiError(`Taxpayer not found for identification: ${id.trim()}`, 404);
+    }
+    return taxpayer;
+  }
+
+  /**
+   * Waits for background refreshes and cache writes to finish.
+   *
+   * Call before exiting a short-lived process so stale entries that were
+   * served get refreshed on disk.
+   */
+  async settle(): Promise<void> {
+    await Promise.allSettled([...this.inFlight.values()]);
+    await this.saving.catch(() => undefined);
+  }
+
+  /** Fetches an identification once at a time, storing the result. */
+  private fetch(key: string): Promise<CacheEntry> {
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = this.refresh(key).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async refresh(key: string): Promise<CacheEntry> {
+    let taxpayer: TaxpayerInfo | undefined;
+    try {
+      taxpayer = await this.limiter.execute(() =>
+        withRetry(() => lookupTaxpayer(key, { fetchFn: this.fetchFn }), this.retry),
+      );
+    } catch (error) {
+      if (!(error instanceof ApiError && error.statusCode === 404)) {
+        throw error;
+      }
+    }
+
+    const entry: CacheEntry = {
+      fetchedAt: this.now().toISOString(),
+      ...(taxpayer ? { taxpayer } : {}),
+    };
+    (await this.load()).set(key, entry);
+    await this.save();
+    return entry;
+  }
+
+  /** Reads the cache file once; a missing or unreadable file is an empty cache. */
+  private load(): Promise<Map<string, CacheEntry>> {
+    this.entries ??= readCacheFile(this.filePath);
+    return this.entries;
+  }
+
+  /** Writes the cache file atomically, one write at a time. */
+  private save(): Promise<void> {
+    // A failed write must not block the next one
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(async () => {
+        const file: CacheFile = {
+          version: CACHE_VERSION,
+          taxpayers: Object.fromEntries(await this.load()),
+        };
+        await mkdir(dirname(this.filePath), { recursive: true, mode: 0o700 });
+        const tempPath = `${this.filePath}.${randomBytes(6).toString("hex")}.tmp`;
+        await writeFile(tempPath, JSON.stringify(file) + "\n", { encoding: "utf-8", mode: 0o600 });
+        await rename(tempPath, this.filePath);
+      });
+    return this.saving;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Cache file name inside the config directory. */
+const CACHE_FILE_NAME = "taxpayers.json";
+
+/** Format version of the cache file. */
+const CACHE_VERSION = 1;
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_STALE_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_NOT_FOUND_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_RETRY: RetryOptions = { maxRetries: 2, initialDelayMs: 500 };
+
+/** A cached lookup; `taxpayer` is absent for unknown identifications. */
+interface CacheEntry {
+  fetchedAt: string;
+  taxpayer?: TaxpayerInfo;
+}
+
+/** Contents of the cache file. */
+interface CacheFile {
+  version: number;
+  taxpayers: Record<string, CacheEntry>;
+}
+
+async function readCacheFile(filePath: string): Promise<Map<string, CacheEntry>> {
+  try {
+    const file = JSON.parse(await readFile(filePath, "utf-8")) as Partial<CacheFile>;
+    if (file.version === CACHE_VERSION && typeof file.taxpayers === "object") {
+      return new Map(Object.entries(file.taxpayers));
+    }
+  } catch {
+    // Missing or corrupt: the cache is rebuilt from the API
+  }
+  return new Map();
+}
+
+function toResult(entry: CacheEntry, source: TaxpayerLookupSource): TaxpayerLookupResult {
+  return { taxpayer: entry.taxpayer, fetchedAt: entry.fetchedAt, source };
+}
+
+/** Whether a lookup failed because the API is unreachable, failing or throttling us. */
+function isUnavailable(error: unknown): boolean {
+  if (!(error instanceof ApiError)) return false;
+  const status = error.statusCode;
+  return status === undefined || status === 429 || isRetryableStatus(status);
+}
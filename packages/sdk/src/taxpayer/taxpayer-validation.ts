@@ -0,0 +1,118 @@
+/**
+ * Pre-submission taxpayer checks — catches the registry mismatches that
+ * Hacienda rejects with codes "06" (receptor not found) and "07"
+ * (activity not registered for the emisor) before a document is sent.
+ *
+ * @module taxpayer/taxpayer-validation
+ */
+
+import { HaciendaRejectionCode, getRejectionDescription } from "../api/error-codes.js";
+import { getActiveActivities } from "../api/taxpayer.js";
+import type { DocumentValidationError } from "../xml/validator.js";
+import type { TaxpayerCache, TaxpayerLookupResult } from "./taxpayer-cache.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The parts of a document checked against the taxpayer registry. */
+export interface TaxpayerCheckedDocument {
+  /** Activity code the document is issued under. */
+  readonly codigoActividad: string;
+  /** Issuer. */
+  readonly emisor: { readonly identificacion: { readonly numero: string } };
+  /** Receiver, if any. */
+  readonly receptor?: { readonly identificacion?: { readonly numero: string } };
+}
+
+/** Options for {@link validateTaxpayers}. */
+export interface TaxpayerValidationOptions {
+  /** Check that `codigoActividad` is an active activity of the emisor (default: true). */
+  readonly checkActivity?: boolean;
+  /** Check that the receptor is registered with Hacienda (default: true). */
+  readonly checkReceptor?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Checks a document's emisor activity and receptor against the taxpayer
+ * registry.
+ *
+ * A check whose lookup fails (API unreachable and nothing cached) is
+ * skipped rather than reported, so documents can still be issued offline.
+ *
+ * @param document - The document or draft to check.
+ * @param taxpayers - The taxpayer cache to look identifications up in.
+ * @param options - Which checks to run.
+ * @returns Validation errors (empty if the document passes).
+ *
+ * @example
+ * ```ts
+ * const errors = await validateTaxpayers(draft, new TaxpayerCache());
+ * for (const error of errors) console.error(`${error.path}: ${error.message}`);
+ * ```
+ */
+export async function validateTaxpayers(
+  document: TaxpayerCheckedDocument,
+  taxpayers: Pick<TaxpayerCache, "find">,
+  options: TaxpayerValidationOptions = {},
+): Promise<DocumentValidationError[]> {
+  const errors: DocumentValidationError[] = [];
+  const find = (id: string): Promise<TaxpayerLookupResult | undefined> =>
+    taxpayers.find(id).catch(() => undefined);
+
+  const receptorId = document.receptor?.identificacion?.numero;
+  const [emisor, receptor] = await Promise.all([
+    options.checkActivity === false ? undefined : find(document.emisor.identificacion.numero),
+    options.checkReceptor === false || receptorId === undefined ? undefined : find(receptorId),
+  ]);
+
+  if (emisor) {
+    const emisorId = document.emisor.identificacion.numero;
+    if (!emisor.taxpayer) {
+      errors.push({
+        path: "emisor.identificacion.numero",
+        message: `Emisor ${emisorId} is not registered with Hacienda`,
+      });
+    } else {
+      const active = getActiveActivities(emisor.taxpayer).map((activity) => activity.codigo);
+      const codigo = document.codigoActividad.trim();
+      if (!active.some((registered) => sameActivity(registered, codigo))) {
+        errors.push({
+          path: "codigoActividad",
+          message:
+            `Activity ${codigo} is not an active economic activity of emisor ${emisorId} ` +
+            `(active: ${active.length > 0 ? active.join(", ") : "none"}). ` +
+            rejectionNote(HaciendaRejectionCode.ACTIVITY_CODE_INVALID),
+        });
+      }
+    }
+  }
+
+  if (receptor && !receptor.taxpayer) {
+    errors.push({
+      path: "receptor.identificacion.numero",
+      message:
+        `Receptor ${String(receptorId)} is not registered with Hacienda. ` +
+        rejectionNote(HaciendaRejectionCode.RECEIVER_NOT_FOUND),
+    });
+  }
+
+  return errors;
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Compares activity codes, ignoring leading zeros lost by numeric storage. */
+function sameActivity(a: string, b: string): boolean {
+  return a.padStart(6, "0") === b.padStart(6, "0");
+}
+
+function rejectionNote(code: string): string {
+  return `Hacienda rejects this with code ${code}: ${getRejectionDescription(code)}`;
+}
@@ -0,0 +1,7 @@
+/**
+ * Tenants module — one authenticated client per taxpayer for firms that
+ * issue on behalf of many.
+ */
+
+export { TenantRegistry, profileTenantResolver } from "./tenant-registry.js";
+export type { TenantRegistryOptions, TenantResolver, TenantRoutable } from "./tenant-registry.js";
@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { Environment, IdType } from "../auth/types.js";
+import type { HaciendaClientOptions } from "../client.js";
+import { saveConfig } from "../config/config-manager.js";
+import { saveProfileSecrets } from "../config/secret-vault.js";
+import type { SequenceBackend } from "../config/sequence-backend.js";
+import { ValidationError } from "../errors.js";
+import { TenantRegistry, profileTenantResolver } from "./tenant-registry.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A fetch that answers every IDP login with a token after `delayMs`. */
+function tokenFetch(delayMs = 0) {
+  let inFlight = 0;
+  const stats = { maxInFlight: 0 };
+  const fetchFn = vi.fn<typeof fetch>().mockImplementation(async () => {
+    inFlight++;
+    stats.maxInFlight = Math.max(stats.maxInFlight, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+    inFlight--;
+    return new Response(
+      JSON.stringify({
+        access_token: "token",
+        refresh_token: "refresh",
+        expires_in: 300,
+        refresh_expires_in: 36000,
+        token_type: "bearer",
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } },
+    );
+  });
+  return { fetchFn, stats };
+}
+
+function tenantOptions(cedula: string, fetchFn: typeof fetch): HaciendaClientOptions {
+  return {
+    environment: Environment.Sandbox,
+    credentials: { idType: IdType.PersonaJuridica, idNumber: cedula, password: "secret" },
+    fetchFn,
+  };
+}
+
+function createRegistry(overrides: Partial<ConstructorParameters<typeof TenantRegistry>[0]> = {}) {
+  const { fetchFn, stats } = tokenFetch(5);
+  const resolve = vi.fn((cedula: string) =>
+    Promise.resolve(cedula.startsWith("3") ? tenantOptions(cedula, fetchFn) : undefined),
+  );
+  const registry = new TenantRegistry({
+    resolve,
+    sequenceBackend: () => ({}) as SequenceBackend,
+    ...overrides,
+  });
+  return { registry, resolve, fetchFn, stats };
+}
+
+// ---------------------------------------------------------------------------
+// TenantRegistry
+// ---------------------------------------------------------------------------
+
+describe("TenantRegistry", () => {
+  it("creates, authenticates and caches one client per cédula", async () => {
+    const { registry, resolve, fetchFn } = createRegistry();
+
+    const [a, b] = await Promise.all([registry.get("3101000001"), registry.get("3101000001")]);
+    const again = await registry.get("3101000001");
+
+    expect(a).toBe(b);
+    expect(again).toBe(a);
+    expect(a.isAuthenticated).toBe(true);
+    expect(a.idNumber).toBe("3101000001");
+    expect(resolve).toHaveBeenCalledOnce();
+    expect(fetchFn).toHaveBeenCalledOnce();
+  });
+
+  it("rejects unknown tenants without caching the failure", async () => {
+    const { registry, resolve } = createRegistry();
+
+    await expect(registry.get("999999999")).rejects.toThrow(ValidationError);
+    await expect(registry.get("999999999")).rejects.toThrow(/Unknown tenant/);
+
+    expect(resolve).toHaveBeenCalledTimes(2);
+    expect(registry.has("999999999")).toBe(false);
+  });
+
+  it("rejects options whose credentials belong to another taxpayer", async () => {
+    const { fetchFn } = tokenFetch();
+    const registry = new TenantRegistry({
+      resolve: () => Promise.resolve(tenantOptions("3101000002", fetchFn)),
+    });
+
+    await expect(registry.get("3101000001")).rejects.toThrow(/carry credentials for 3101000002/);
+  });
+
+  it("evicts the least recently used client beyond maxClients", async () => {
+    const { registry } = createRegistry({ maxClients: 2 });
+
+    await registry.get("3101000001");
+    await registry.get("3101000002");
+    await registry.get("3101000001");
+    await registry.get("3101000003");
+
+    expect(registry.size).toBe(2);
+    expect(registry.has("3101000001")).toBe(true);
+    expect(registry.has("3101000002")).toBe(false);
+    expect(registry.has("3101000003")).toBe(true);
+  });
+
+  it("evicts idle clients", async () => {
+    let now = new Date("2026-01-01T00:00:00Z");
+    const { registry, resolve } = createRegistry({ idleTtlMs: 60_000, now: () => now });
+
+    const first = await registry.get("3101000001");
+    now = new Date(now.getTime() + 60_001);
+    const second = await registry.get("3101000001");
+
+    expect(second).not.toBe(first);
+    expect(resolve).toHaveBeenCalledTimes(2);
+  });
+
+  it("limits concurrent IDP logins", async () => {
+    const { registry, stats, fetchFn } = createRegistry({ maxConcurrentLogins: 2 });
+
+    await Promise.all(
+      ["3101000001", "3101000002", "3101000003", "3101000004", "3101000005"].map((cedula) =>
+        registry.get(cedula),
+      ),
+    );
+
+    expect(fetchFn).toHaveBeenCalledTimes(5);
+    expect(stats.maxInFlight).toBe(2);
+  });
+
+  it("gives each tenant its own sequence backend unless it brings one", async () => {
+    const own = {} as SequenceBackend;
+    const { fetchFn } = tokenFetch();
+    const factory = vi.fn(() => ({}) as SequenceBackend);
+    const registry = new TenantRegistry({
+      resolve: (cedula) =>
+        Promise.resolve({
+          ...tenantOptions(cedula, fetchFn),
+          ...(cedula === "3101000002" ? { sequenceBackend: own } : {}),
+        }),
+      sequenceBackend: factory,
+    });
+
+    await registry.get("3101000001");
+    await registry.get("3101000002");
+
+    expect(factory).toHaveBeenCalledOnce();
+    expect(factory).toHaveBeenCalledWith("3101000001");
+  });
+
+  it("routes documents to the tenant named by the emisor", async () => {
+    const { registry } = createRegistry();
+
+    const client = await registry.forEmisor({
+      emisor: { identificacion: { numero: "3101000007" } },
+    });
+
+    expect(client.idNumber).toBe("3101000007");
+    await expect(
+      registry.forEmisor({ emisor: { identificacion: { numero: "111111111" } } }),
+    ).rejects.toThrow(/Unknown tenant/);
+  });
+
+  it("evict and clear drop cached clients", async () => {
+    const { registry } = createRegistry();
+    await registry.get("3101000001");
+    await registry.get("3101000002");
+
+    expect(registry.evict("3101000001")).toBe(true);
+    expect(registry.evict("3101000001")).toBe(false);
+    registry.clear();
+
+    expect(registry.size).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// profileTenantResolver
+// ---------------------------------------------------------------------------
+
+describe("profileTenantResolver", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "hacienda-tenants-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("resolves a cédula to its profile with secrets from the vault", async () => {
+    const vault = { configDir: dir, passphrase: "master", scryptCost: 2 ** 10 };
+    await saveConfig(
+      { environment: "sandbox", cedula_type: "02", cedula: "3101000001", p12_path: "/a.p12" },
+      "empresa-a",
+      { configDir: dir },
+    );
+    await saveConfig(
+      { environment: "production", cedula_type: "01", cedula: "112345678", p12_path: "/b.p12" },
+      "persona-b",
+      { configDir: dir },
+    );
+    await saveProfileSecrets("persona-b", { password: "pass-b", p12Pin: "2222" }, vault);
+
+    const resolve = profileTenantResolver({
+      configDir: dir,
+      env: { HACIENDA_VAULT_PASSPHRASE: "master" },
+    });
+
+    expect(await resolve("112345678")).toEqual({
+      environment: "production",
+      credentials: { idType: "01", idNumber: "112345678", password: "pass-b" },
+      p12Path: "/b.p12",
+      p12Pin: "2222",
+    });
+    expect(await resolve("999999999")).toBeUndefined();
+    await expect(resolve("3101000001")).rejects.toThrow(/No password for tenant 3101000001/);
+  });
+
+  it("ignores the single-tenant secret variables", async () => {
+    const vault = { configDir: dir, passphrase: "master", scryptCost: 2 ** 10 };
+    await saveConfig(
+      { environment: "sandbox", cedula_type: "02", cedula: "3101000001", p12_path: "/a.p12" },
+      "empresa-a",
+      { configDir: dir },
+    );
+    await saveConfig(
+      { environment: "sandbox", cedula_type: "01", cedula: "112345678", p12_path: "/b.p12" },
+      "persona-b",
+      { configDir: dir },
+    );
+    await saveProfileSecrets("persona-b", { password: "pass-b" }, vault);
+
+    const resolve = profileTenantResolver({
+      configDir: dir,
+      env: {
+        HACIENDA_VAULT_PASSPHRASE: "master",
+        HACIENDA_PASSWORD: "global-pass",
+        HACIENDA_P12_PIN: "0000",
+      },
+    });
+
+    const options = await resolve("112345678");
+    expect(options?.credentials?.password).toBe("pass-b");
+    expect(options).not.toHaveProperty("p12Pin");
+    await expect(resolve("3101000001")).rejects.toThrow(/No password for tenant 3101000001/);
+  });
+});
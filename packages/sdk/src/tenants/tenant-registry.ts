@@ -0,0 +1,341 @@
+/**
+ * Multi-tenant client registry for firms that issue on behalf of many
+ * taxpayers.
+ *
+ * {@link TenantRegistry} lazily creates one authenticated
+ * {@link HaciendaClient} per cédula, caches it with least-recently-used
+ * and idle eviction, and caps how many IDP logins run at once. Each
+ * tenant numbers its documents in its own sequence namespace
+ * (~/.hacienda-cr/tenants/{cedula}/ by default) and signs with its own
+ * certificate, and documents are routed to the right tenant by their
+ * emisor identification.
+ *
+ * @module tenants/tenant-registry
+ */
+
+import { join } from "node:path";
+
+import { HaciendaClient } from "../client.js";
+import type {
+  HaciendaClientOptions,
+  IssueDocumentOptions,
+  IssueDocumentResult,
+} from "../client.js";
+import { getConfigDir, loadConfig, loadProfiles } from "../config/config-manager.js";
+import type { ConfigManagerOptions } from "../config/config-manager.js";
+import { FileSequenceBackend } from "../config/file-sequence-backend.js";
+import type { SequenceBackend } from "../config/sequence-backend.js";
+import type { DocumentDraft, IssuableDocumentType } from "../documents/prepare-document.js";
+import { ValidationError } from "../errors.js";
+import type { Environment, IdType } from "../auth/types.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Looks up the client options for a cédula.
+ *
+ * Returns `undefined` for unknown taxpayers. The returned options carry
+ * the tenant's credentials and certificate (`p12Path`/`p12Pin`).
+ */
+export type TenantResolver = (cedula: string) => Promise<HaciendaClientOptions | undefined>;
+
+/** Options for {@link TenantRegistry}. */
+export interface TenantRegistryOptions {
+  /** Looks up each tenant's client options (see {@link profileTenantResolver}). */
+  resolve: TenantResolver;
+  /** Maximum number of cached clients; the least recently used is evicted (default: 20). */
+  maxClients?: number;
+  /** Evict clients unused for this long (default: 30 minutes). */
+  idleTtlMs?: number;
+  /** Maximum number of IDP logins in flight at once (default: 4). */
+  maxConcurrentLogins?: number;
+  /**
+   * Creates the sequence backend for a tenant that does not bring its
+   * own (default: a {@link FileSequenceBackend} in
+   * `{configDir}/tenants/{cedula}/`).
+   */
+  sequenceBackend?: (cedula: string) => SequenceBackend;
+  /** Override the config directory used for the default sequence namespaces. */
+  configDir?: string;
+  /** Clock used for idle eviction (defaults to `() => new Date()`). */
+  now?: () => Date;
+}
+
+/** A document (or draft) whose emisor identifies the tenant. */
+export interface TenantRoutable {
+  readonly emisor: { readonly identificacion: { readonly numero: string } };
+}
+
+/** Default registry settings. */
+const DEFAULTS = {
+  maxClients: 20,
+  idleTtlMs: 30 * 60_000,
+  maxConcurrentLogins: 4,
+} as const;
+
+/** Directory holding per-tenant state inside the config directory */
+const TENANTS_DIR_NAME = "tenants";
+
+interface CacheEntry {
+  readonly client: Promise<HaciendaClient>;
+  lastUsed: number;
+}
+
+// ---------------------------------------------------------------------------
+// TenantRegistry
+// ---------------------------------------------------------------------------
+
+/**
+ * Cache of authenticated clients, one per taxpayer.
+ *
+ * @example
+ * ```ts
+ * const registry = new TenantRegistry({ resolve: profileTenantResolver() });
+ *
+ * // Routed by draft.emisor.identificacion.numero
+ * const issued = await registry.issueDocument(DocumentType.FACTURA_ELECTRONICA, draft);
+ *
+ * // Lower-level API calls for one tenant
+ * const client = await registry.get("3101234567");
+ * const status = await getStatus(client.getHttpClient(), issued.clave);
+ * ```
+ */
+export class TenantRegistry {
+  private readonly options: TenantRegistryOptions;
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly logins: Semaphore;
+
+  constructor(options: TenantRegistryOptions) {
+    this.options = options;
+    this.logins = new Semaphore(
+      Math.max(1, options.maxConcurrentLogins ?? DEFAULTS.maxConcurrentLogins),
+    );
+  }
+
+  /**
+   * Returns the authenticated client for a cédula, creating it on first use.
+   *
+   * Concurrent calls for the same cédula share one login.
+   *
+   * @param cedula - Taxpayer identification number.
+   * @returns The tenant's client.
+   * @throws {ValidationError} If the resolver does not know the cédula.
+   * @throws {AuthenticationError} If the IDP login fails (the failure is not cached).
+   */
+  async get(cedula: string): Promise<HaciendaClient> {
+    const now = this.now();
+    this.evictIdle(now);
+
+    const cached = this.entries.get(cedula);
+    if (cached) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(cedula);
+      cached.lastUsed = now;
+      this.entries.set(cedula, cached);
+      return cached.client;
+    }
+
+    const client = this.create(cedula);
+    this.entries.set(cedula, { client, lastUsed: now });
+    this.evictOverflow();
+
+    try {
+      return await client;
+    } catch (error) {
+      if (this.entries.get(cedula)?.client === client) {
+        this.entries.delete(cedula);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the client of the tenant that issues a document.
+   *
+   * @param document - A draft or parsed document; its emisor picks the tenant.
+   * @returns The tenant's client.
+   * @throws {ValidationError} If the emisor is not a known tenant.
+   */
+  forEmisor(document: TenantRoutable): Promise<HaciendaClient> {
+    return this.get(document.emisor.identificacion.numero);
+  }
+
+  /**
+   * Issues a document through the tenant named by its emisor.
+   *
+   * @param documentType - Type of document to issue.
+   * @param draft - The document body; `emisor.identificacion.numero` selects the tenant.
+   * @param options - Same options as {@link HaciendaClient.issueDocument}.
+   * @returns The issued document.
+   */
+  async issueDocument(
+    documentType: IssuableDocumentType,
+    draft: DocumentDraft,
+    options: IssueDocumentOptions = {},
+  ): Promise<IssueDocumentResult> {
+    const client = await this.forEmisor(draft);
+    return client.issueDocument(documentType, draft, options);
+  }
+
+  /** Whether a client for the cédula is cached. */
+  has(cedula: string): boolean {
+    return this.entries.has(cedula);
+  }
+
+  /** Number of cached clients. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Drops a tenant's client from the cache. Calls already holding the
+   * client keep working; the next {@link get} logs in again.
+   *
+   * @returns true if a client was cached.
+   */
+  evict(cedula: string): boolean {
+    return this.entries.delete(cedula);
+  }
+
+  /** Drops every cached client. */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private async create(cedula: string): Promise<HaciendaClient> {
+    const resolved = await this.options.resolve(cedula);
+    if (!resolved) {
+      throw new ValidationError(`Unknown tenant: no client options for cédula ${cedula}.`);
+    }
+    if (resolved.credentials.idNumber !== cedula) {
+      throw new ValidationError(
+        `Tenant options for cédula ${cedula} carry credentials for ${resolved.credentials.idNumber}.`,
+      );
+    }
+
+    const client = new HaciendaClient({
+      ...resolved,
+      sequenceBackend: resolved.sequenceBackend ?? this.createSequenceBackend(cedula),
+    });
+    await this.logins.run(() => client.authenticate());
+    return client;
+  }
+
+  private createSequenceBackend(cedula: string): SequenceBackend {
+    if (this.options.sequenceBackend) {
+      return this.options.sequenceBackend(cedula);
+    }
+    return new FileSequenceBackend({
+      configDir: join(getConfigDir(this.options.configDir), TENANTS_DIR_NAME, cedula),
+    });
+  }
+
+  private evictIdle(now: number): void {
+    const idleTtlMs = this.options.idleTtlMs ?? DEFAULTS.idleTtlMs;
+    for (const [cedula, entry] of this.entries) {
+      if (now - entry.lastUsed > idleTtlMs) {
+        this.evict(cedula);
+      }
+    }
+  }
+
+  private evictOverflow(): void {
+    const maxClients = this.options.maxClients ?? DEFAULTS.maxClients;
+    // Map iteration order is insertion order: the first key is the least recently used
+    for (const cedula of this.entries.keys()) {
+      if (this.entries.size <= maxClients) break;
+      this.evict(cedula);
+    }
+  }
+
+  private now(): number {
+    return (this.options.now ?? (() => new Date()))().getTime();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Resolvers
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolves tenants from the profiles in ~/.hacienda-cr/config.toml.
+ *
+ * Profiles are searched by their plain `cedula`, and only the match is
+ * loaded with {@link loadConfig}, so each lookup opens the credential
+ * vault at most once. Passwords and PINs come from the vault (one entry
+ * per profile, `HACIENDA_VAULT_PASSPHRASE` must be set).
+ * `HACIENDA_PASSWORD` and `HACIENDA_P12_PIN` are ignored: they would
+ * apply to every tenant.
+ *
+ * @param options - Config dir and env overrides.
+ * @returns A resolver for {@link TenantRegistry}.
+ */
+export function profileTenantResolver(options: ConfigManagerOptions = {}): TenantResolver {
+  return async (cedula) => {
+    const profiles = await loadProfiles(options);
+    const profileName = Object.keys(profiles).find((name) => profiles[name]?.cedula === cedula);
+    if (profileName === undefined) {
+      return undefined;
+    }
+
+    const config = await loadConfig(profileName, {
+      ...options,
+      env: withoutGlobalSecrets(options.env ?? process.env),
+    });
+    if (!config.password) {
+      throw new ValidationError(
+        `No password for tenant ${cedula} (profile "${profileName}"). ` +
+          `Store it with \`hacienda auth login --profile ${profileName} --save-secret\`.`,
+      );
+    }
+    return {
+      environment: config.profile.environment as Environment,
+      credentials: {
+        idType: config.profile.cedula_type as IdType,
+        idNumber: cedula,
+        password: config.password,
+      },
+      ...(config.profile.p12_path ? { p12Path: config.profile.p12_path } : {}),
+      ...(config.p12Pin !== undefined ? { p12Pin: config.p12Pin } : {}),
+    };
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Drops the single-tenant secret variables from an environment. */
+function withoutGlobalSecrets(
+  env: Record<string, string | undefined>,
+): Record<string, string | undefined> {
+  const { HACIENDA_PASSWORD: _password, HACIENDA_P12_PIN: _pin, ...rest } = env;
+  return rest;
+}
+
+/** Limits how many tasks run at once. */
+class Semaphore {
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      // Hand the slot to the next waiter, or free it
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * @dojocoding/hacienda-sdk/testing
+ *
+ * In-process Hacienda API simulator for offline integration tests.
+ * Published as a separate entry point so production bundles never
+ * include it.
+ */
+
+export { HaciendaSimulator } from "./simulator.js";
+export type {
+  HaciendaSimulatorOptions,
+  RejectionScenario,
+  SimulatedDocument,
+  SimulatedSubmission,
+} from "./simulator.js";
+
+export { HaciendaRejectionCode } from "../api/error-codes.js";
@@ -0,0 +1,313 @@
+/**
+ * Tests for the in-process Hacienda API simulator, driven through the
+ * SDK's real TokenManager, HttpClient and API functions.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+
+import { HaciendaStatus } from "@dojocoding/hacienda-shared";
+import type { FacturaElectronica, SubmissionRequest } from "@dojocoding/hacienda-shared";
+
+import { MULTI_ITEM_INVOICE, SIMPLE_INVOICE } from "../__fixtures__/invoices.js";
+import { getComprobante, listComprobantes } from "../api/comprobantes.js";
+import { HaciendaRejectionCode } from "../api/error-codes.js";
+import { HttpClient } from "../api/http-client.js";
+import { submitAndWait } from "../api/orchestrator.js";
+import { buildSubmissionRequest, getStatus, submitDocument } from "../api/submission.js";
+import { lookupTaxpayer } from "../api/taxpayer.js";
+import { getEnvironmentConfig } from "../auth/environment.js";
+import { TokenManager } from "../auth/token-manager.js";
+import { Environment } from "../auth/types.js";
+import { buildFacturaXml } from "../documents/index.js";
+import { ApiError } from "../errors.js";
+import { HaciendaSimulator } from "./simulator.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ENV = getEnvironmentConfig(Environment.Sandbox);
+const CREDENTIALS = { username: "cpj-3-101-234567", password: "secret" };
+const FAST_POLLING = { pollIntervalMs: 1, timeoutMs: 5000 };
+
+function requestFor(invoice: FacturaElectronica): SubmissionRequest {
+  const xml = Buffer.from(buildFacturaXml(invoice)).toString("base64");
+  return buildSubmissionRequest(invoice, xml);
+}
+
+async function connect(simulator: HaciendaSimulator) {
+  const tokenManager = new TokenManager({ envConfig: ENV, fetchFn: simulator.fetch });
+  await tokenManager.authenticate(CREDENTIALS);
+  const httpClient = new HttpClient({
+    envConfig: ENV,
+    tokenManager,
+    fetchFn: simulator.fetch,
+    rateLimiterOptions: false,
+  });
+  return { tokenManager, httpClient };
+}
+
+let simulator: HaciendaSimulator;
+
+beforeEach(() => {
+  simulator = new HaciendaSimulator();
+});
+
+// ---------------------------------------------------------------------------
+// IDP
+// ---------------------------------------------------------------------------
+
+describe("IDP token endpoint", () => {
+  it("issues tokens accepted by the recepcion API", async () => {
+    const { tokenManager, httpClient } = await connect(simulator);
+
+    expect(await tokenManager.getAccessToken()).toMatch(/^sim-access-/);
+    await expect(submitDocument(httpClient, requestFor(SIMPLE_INVOICE))).resolves.toMatchObject({
+      status: 202,
+    });
+  });
+
+  it("rejects unknown users when users are configured", async () => {
+    simulator = new HaciendaSimulator({ users: { [CREDENTIALS.username]: "other" } });
+    const tokenManager = new TokenManager({ envConfig: ENV, fetchFn: simulator.fetch });
+
+    await expect(tokenManager.authenticate(CREDENTIALS)).rejects.toThrow(
+      /401 — Invalid user credentials/,
+    );
+  });
+
+  it("refreshes short-lived access tokens with the refresh token", async () => {
+    simulator = new HaciendaSimulator({ accessTokenTtlSeconds: 10 });
+    const { tokenManager } = await connect(simulator);
+
+    const first = await tokenManager.getAccessToken();
+    const second = await tokenManager.getAccessToken();
+
+    expect(second).not.toBe(first);
+  });
+
+  it("answers 401 to API requests without a valid token", async () => {
+    const response = await simulator.fetch(`${ENV.apiBaseUrl}/recepcion/${SIMPLE_INVOICE.clave}`, {
+      headers: { Authorization: "Bearer forged" },
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it("expires access tokens by the simulator clock", async () => {
+    let now = new Date("2025-07-27T16:00:00Z");
+    simulator = new HaciendaSimulator({ now: () => now });
+    const { httpClient } = await connect(simulator);
+
+    now = new Date("2025-07-27T16:10:00Z");
+
+    await expect(getStatus(httpClient, SIMPLE_INVOICE.clave)).rejects.toMatchObject({
+      statusCode: 401,
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Recepcion
+// ---------------------------------------------------------------------------
+
+describe("recepcion", () => {
+  it("moves a submission through recibido → procesando → aceptado", async () => {
+    const { httpClient } = await connect(simulator);
+    const statuses: string[] = [];
+
+    const result = await submitAndWait(httpClient, requestFor(SIMPLE_INVOICE), {
+      ...FAST_POLLING,
+      onPoll: (status) => statuses.push(status.status),
+    });
+
+    expect(statuses).toEqual(["recibido", "procesando", "aceptado"]);
+    expect(result).toMatchObject({ accepted: true, submissionStatus: 202 });
+    expect(result.responseXml).toContain("<MensajeHacienda");
+    expect(result.responseXml).toContain("<Mensaje>1</Mensaje>");
+    expect(result.responseXml).toContain(
+      `<TotalFactura>${String(SIMPLE_INVOICE.resumenFactura.totalComprobante)}</TotalFactura>`,
+    );
+  });
+
+  it("returns the status URL in the Location header", async () => {
+    const { httpClient } = await connect(simulator);
+
+    const response = await submitDocument(httpClient, requestFor(SIMPLE_INVOICE));
+
+    expect(response.location).toBe(`${ENV.apiBaseUrl}/recepcion/${SIMPLE_INVOICE.clave}`);
+  });
+
+  it("holds each interim status for the configured number of polls", async () => {
+    simulator = new HaciendaSimulator({ pollsPerInterimStatus: 2 });
+    const { httpClient } = await connect(simulator);
+    const statuses: string[] = [];
+
+    await submitAndWait(httpClient, requestFor(SIMPLE_INVOICE), {
+      ...FAST_POLLING,
+      onPoll: (status) => statuses.push(status.status),
+    });
+
+    expect(statuses).toEqual(["recibido", "recibido", "procesando", "procesando", "aceptado"]);
+  });
+
+  it("rejects submissions matched by a scenario with its code", async () => {
+    simulator.addScenario({
+      code: HaciendaRejectionCode.TAX_MISMATCH,
+      detail: "El impuesto de la linea 1 no coincide.",
+      match: ({ request }) => request.clave === MULTI_ITEM_INVOICE.clave,
+    });
+    const { httpClient } = await connect(simulator);
+
+    const accepted = await submitAndWait(httpClient, requestFor(SIMPLE_INVOICE), FAST_POLLING);
+    const rejected = await submitAndWait(httpClient, requestFor(MULTI_ITEM_INVOICE), FAST_POLLING);
+
+    expect(accepted.accepted).toBe(true);
+    expect(rejected).toMatchObject({ accepted: false, status: HaciendaStatus.RECHAZADO });
+    expect(rejected.rejectionReason).toContain("[Code 08]");
+    expect(rejected.rejectionReason).toContain("El impuesto de la linea 1 no coincide.");
+  });
+
+  it("lets scenarios inspect the parsed document", async () => {
+    simulator = new HaciendaSimulator({
+      scenarios: [
+        {
+          code: HaciendaRejectionCode.RECEIVER_NOT_FOUND,
+          match: ({ parsed }) =>
+            parsed?.rootElement === "FacturaElectronica" &&
+            parsed.document.receptor?.identificacion?.numero === "3109876543",
+        },
+      ],
+    });
+    const { httpClient } = await connect(simulator);
+
+    const result = await submitAndWait(httpClient, requestFor(SIMPLE_INVOICE), FAST_POLLING);
+
+    expect(result.rejectionReason).toContain("[Code 06] Receiver taxpayer identification");
+  });
+
+  it("rejects malformed documents as schema-invalid", async () => {
+    const { httpClient } = await connect(simulator);
+    const request = { ...requestFor(SIMPLE_INVOICE), comprobanteXml: "bm90IHhtbA==" };
+
+    const result = await submitAndWait(httpClient, request, FAST_POLLING);
+
+    expect(result.accepted).toBe(false);
+    expect(result.rejectionReason).toContain("[Code 01]");
+  });
+
+  it("rejects unsigned documents when signatures are required", async () => {
+    simulator = new HaciendaSimulator({ requireSignature: true });
+    const { httpClient } = await connect(simulator);
+
+    const result = await submitAndWait(httpClient, requestFor(SIMPLE_INVOICE), FAST_POLLING);
+
+    expect(result.rejectionReason).toContain("[Code 02]");
+  });
+
+  it("answers 409 to a duplicate clave", async () => {
+    const { httpClient } = await connect(simulator);
+    await submitDocument(httpClient, requestFor(SIMPLE_INVOICE));
+
+    await expect(submitDocument(httpClient, requestFor(SIMPLE_INVOICE))).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+
+  it("answers 400 with X-Error-Cause to an invalid payload", async () => {
+    const { tokenManager } = await connect(simulator);
+
+    const response = await simulator.fetch(`${ENV.apiBaseUrl}/recepcion`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${await tokenManager.getAccessToken()}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...requestFor(SIMPLE_INVOICE), clave: "123" }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get("X-Error-Cause")).toBe("La clave debe tener 50 dígitos.");
+  });
+
+  it("answers 404 to the status of an unknown clave", async () => {
+    const { httpClient } = await connect(simulator);
+
+    const error = await getStatus(httpClient, SIMPLE_INVOICE.clave).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).statusCode).toBe(404);
+  });
+
+  it("records submissions for inspection", async () => {
+    const { httpClient } = await connect(simulator);
+    await submitDocument(httpClient, requestFor(SIMPLE_INVOICE));
+
+    const document = simulator.getDocument(SIMPLE_INVOICE.clave);
+    expect(document).toMatchObject({ status: "recibido", polls: 0 });
+    expect(document?.parsed?.rootElement).toBe("FacturaElectronica");
+    expect(simulator.listDocuments()).toHaveLength(1);
+
+    simulator.reset();
+    expect(simulator.listDocuments()).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Comprobantes
+// ---------------------------------------------------------------------------
+
+describe("comprobantes", () => {
+  it("paginates and filters submitted documents", async () => {
+    const { httpClient } = await connect(simulator);
+    await submitDocument(httpClient, requestFor(SIMPLE_INVOICE));
+    await submitDocument(httpClient, requestFor(MULTI_ITEM_INVOICE));
+
+    const page = await listComprobantes(httpClient, { offset: 1, limit: 1 });
+    expect(page.totalRegistros).toBe(2);
+    expect(page.comprobantes.map((c) => c.clave)).toEqual([MULTI_ITEM_INVOICE.clave]);
+
+    const filtered = await listComprobantes(httpClient, {
+      fechaEmisionHasta: "2025-07-27T12:00:00-06:00",
+    });
+    expect(filtered.comprobantes.map((c) => c.clave)).toEqual([SIMPLE_INVOICE.clave]);
+  });
+
+  it("returns the submitted XML and Hacienda's response by clave", async () => {
+    const { httpClient } = await connect(simulator);
+    const request = requestFor(SIMPLE_INVOICE);
+    await submitAndWait(httpClient, request, FAST_POLLING);
+
+    const detail = await getComprobante(httpClient, SIMPLE_INVOICE.clave);
+
+    expect(detail).toMatchObject({
+      clave: SIMPLE_INVOICE.clave,
+      estado: "aceptado",
+      comprobanteXml: request.comprobanteXml,
+    });
+    expect(Buffer.from(detail.respuestaXml ?? "", "base64").toString()).toContain(
+      "<MensajeHacienda",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Economic activity lookup
+// ---------------------------------------------------------------------------
+
+describe("economic activity lookup", () => {
+  it("returns registered taxpayers and 404 otherwise", async () => {
+    simulator.addTaxpayer("3101234567", {
+      nombre: "EMPRESA DE PRUEBA SOCIEDAD ANONIMA",
+      tipoIdentificacion: "02",
+      actividades: [{ codigo: "620100", descripcion: "PROGRAMACION", estado: "A" }],
+    });
+
+    const taxpayer = await lookupTaxpayer("3101234567", { fetchFn: simulator.fetch });
+    expect(taxpayer.actividades[0]?.codigo).toBe("620100");
+
+    await expect(lookupTaxpayer("999999999", { fetchFn: simulator.fetch })).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+});
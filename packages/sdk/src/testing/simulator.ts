@@ -0,0 +1,656 @@
+/**
+ * In-process simulator of the Hacienda API for offline integration tests.
+ *
+ * Implements the contracts the SDK talks to, behind a `fetch`-compatible
+ * function that can be passed as `fetchFn` to {@link HaciendaClient},
+ * {@link TokenManager}, {@link HttpClient} and `lookupTaxpayer`:
+ * - IDP token endpoint (`password` and `refresh_token` grants)
+ * - `POST /recepcion` with 400/401/409 errors and a `Location` header
+ * - `GET /recepcion/{clave}` moving through recibido → procesando →
+ *   aceptado/rechazado, with a Base64 MensajeHacienda once terminal
+ *   (MensajeReceptor submissions are tracked as `{clave}-{consecutivoReceptor}`)
+ * - `GET /comprobantes` (filters and offset/limit pagination) and
+ *   `GET /comprobantes/{clave}`
+ * - The public economic-activity lookup
+ *
+ * Requests are routed by path, so any environment configuration works.
+ * Submitted XML is parsed but signatures are not verified; rejections
+ * come from malformed documents and from configured
+ * {@link RejectionScenario}s keyed to {@link HaciendaRejectionCode}.
+ *
+ * @module testing/simulator
+ */
+
+import { randomUUID } from "node:crypto";
+
+import type {
+  ActividadEconomicaResponse,
+  ComprobanteDetail,
+  ComprobanteListItem,
+  ComprobantesListResponse,
+  StatusResponse,
+  SubmissionRequest,
+  TokenResponse,
+} from "@dojocoding/hacienda-shared";
+import { COSTA_RICA_UTC_OFFSET_MINUTES, HaciendaStatus } from "@dojocoding/hacienda-shared";
+
+import { HaciendaRejectionCode, getRejectionDescription } from "../api/error-codes.js";
+import { getRecepcionKey } from "../api/submission.js";
+import { buildXml, getNamespaceUri } from "../xml/builder.js";
+import { parseDocumentXml } from "../xml/parser.js";
+import type { ParsedDocument } from "../xml/parser.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A configured reason for Hacienda to reject matching submissions. */
+export interface RejectionScenario {
+  /** Rejection code reported in the MensajeHacienda. */
+  readonly code: HaciendaRejectionCode;
+  /** DetalleMensaje text (default: the code's description). */
+  readonly detail?: string;
+  /** Selects the submissions to reject (default: every submission). */
+  readonly match?: (submission: SimulatedSubmission) => boolean;
+}
+
+/** A submission as seen by a {@link RejectionScenario} matcher. */
+export interface SimulatedSubmission {
+  /** The POST /recepcion payload. */
+  readonly request: SubmissionRequest;
+  /** Decoded comprobante XML. */
+  readonly xml: string;
+  /** Parsed comprobante, if the XML is a well-formed v4.4 document. */
+  readonly parsed?: ParsedDocument;
+}
+
+/** A document held by the simulator. */
+export interface SimulatedDocument extends SimulatedSubmission {
+  /** 50-digit clave numerica. */
+  readonly clave: string;
+  /** Current processing status. */
+  readonly status: HaciendaStatus;
+  /** When the submission was received (ISO 8601). */
+  readonly receivedAt: string;
+  /** Number of GET /recepcion/{clave} requests served so far. */
+  readonly polls: number;
+  /** Rejection the document will end with, if any. */
+  readonly rejection?: { readonly code: HaciendaRejectionCode; readonly detail: string };
+}
+
+/** Options for creating a {@link HaciendaSimulator}. */
+export interface HaciendaSimulatorOptions {
+  /**
+   * Accepted IDP users (username → password). When omitted, any
+   * username and password are accepted.
+   */
+  readonly users?: Readonly<Record<string, string>>;
+  /** Taxpayers known to the economic-activity lookup, keyed by cedula. */
+  readonly taxpayers?: Readonly<Record<string, ActividadEconomicaResponse>>;
+  /** Rejection scenarios, evaluated in order (first match wins). */
+  readonly scenarios?: readonly RejectionScenario[];
+  /** Reject unsigned documents with code "02", as Hacienda does (default: false). */
+  readonly requireSignature?: boolean;
+  /** Status polls that report each of recibido and procesando (default: 1). */
+  readonly pollsPerInterimStatus?: number;
+  /** Access token lifetime in seconds (default: 300). */
+  readonly accessTokenTtlSeconds?: number;
+  /** Refresh token lifetime in seconds (default: 36000). */
+  readonly refreshTokenTtlSeconds?: number;
+  /** Clock used for token expiry and response dates (default: system time). */
+  readonly now?: () => Date;
+}
+
+/** Default configuration values. */
+const DEFAULTS = {
+  pollsPerInterimStatus: 1,
+  accessTokenTtlSeconds: 300,
+  refreshTokenTtlSeconds: 36000,
+  pageSize: 50,
+} as const;
+
+/** Mutable state of a submitted document. */
+interface DocumentState {
+  readonly submission: SimulatedSubmission;
+  readonly receivedAt: Date;
+  readonly rejection?: { readonly code: HaciendaRejectionCode; readonly detail: string };
+  polls: number;
+  status: HaciendaStatus;
+  respondedAt?: Date;
+}
+
+/** A request normalized from the `fetch` arguments. */
+interface SimulatorRequest {
+  readonly method: string;
+  readonly url: URL;
+  readonly headers: Headers;
+  readonly body: string;
+}
+
+/** IDP refresh token state. */
+interface RefreshTokenState {
+  readonly username: string;
+  readonly expiresAt: number;
+}
+
+/** Namespace of Hacienda's response message. */
+const MENSAJE_HACIENDA_NAMESPACE = getNamespaceUri("mensajeHacienda");
+
+const CLAVE_PATTERN = /^\d{50}$/;
+
+const CONSECUTIVO_PATTERN = /^\d{20}$/;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Local stand-in for the Hacienda IDP, recepcion API and
+ * economic-activity lookup.
+ *
+ * @example
+ * ```ts
+ * import { HaciendaSimulator } from "@dojocoding/hacienda-sdk/testing";
+ *
+ * const simulator = new HaciendaSimulator({
+ *   scenarios: [{ code: HaciendaRejectionCode.TAX_MISMATCH, match: (s) => s.request.clave === clave }],
+ * });
+ * const client = new HaciendaClient({ environment: "sandbox", credentials, fetchFn: simulator.fetch });
+ *
+ * await client.authenticate();
+ * const issued = await client.issueDocument(DocumentType.FACTURA_ELECTRONICA, draft, {
+ *   wait: { pollIntervalMs: 10 },
+ * });
+ * // issued.result.status === "rechazado"
+ * ```
+ */
+export class HaciendaSimulator {
+  private readonly users: Readonly<Record<string, string>> | undefined;
+  private readonly taxpayers = new Map<string, ActividadEconomicaResponse>();
+  private readonly scenarios: RejectionScenario[];
+  private readonly requireSignature: boolean;
+  private readonly pollsPerInterimStatus: number;
+  private readonly accessTokenTtlSeconds: number;
+  private readonly refreshTokenTtlSeconds: number;
+  private readonly now: () => Date;
+
+  private readonly documents = new Map<string, DocumentState>();
+  private readonly accessTokens = new Map<string, number>();
+  private readonly refreshTokens = new Map<string, RefreshTokenState>();
+
+  constructor(options: HaciendaSimulatorOptions = {}) {
+    this.users = options.users;
+    this.scenarios = [...(options.scenarios ?? [])];
+    this.requireSignature = options.requireSignature ?? false;
+    this.pollsPerInterimStatus = options.pollsPerInterimStatus ?? DEFAULTS.pollsPerInterimStatus;
+    this.accessTokenTtlSeconds = options.accessTokenTtlSeconds ?? DEFAULTS.accessTokenTtlSeconds;
+    this.refreshTokenTtlSeconds = options.refreshTokenTtlSeconds ?? DEFAULTS.refreshTokenTtlSeconds;
+    this.now = options.now ?? (() => new Date());
+
+    for (const [cedula, taxpayer] of Object.entries(options.taxpayers ?? {})) {
+      this.addTaxpayer(cedula, taxpayer);
+    }
+  }
+
+  /**
+   * `fetch`-compatible entry point. Pass it as `fetchFn`; it is bound
+   * to this simulator and never touches the network.
+   */
+  readonly fetch: typeof fetch = async (input, init) => {
+    const request = await normalizeRequest(input, init);
+    return this.route(request);
+  };
+
+  /**
+   * Registers a taxpayer for the economic-activity lookup.
+   *
+   * @param cedula - Identification number the lookup is queried with.
+   * @param taxpayer - Response body returned for that cedula.
+   */
+  addTaxpayer(cedula: string, taxpayer: ActividadEconomicaResponse): void {
+    this.taxpayers.set(cedula, taxpayer);
+  }
+
+  /**
+   * Adds a rejection scenario after the existing ones.
+   *
+   * @param scenario - Rejection code, optional detail and matcher.
+   */
+  addScenario(scenario: RejectionScenario): void {
+    this.scenarios.push(scenario);
+  }
+
+  /** Removes every rejection scenario. */
+  clearScenarios(): void {
+    this.scenarios.length = 0;
+  }
+
+  /**
+   * Returns a snapshot of a submitted document.
+   *
+   * @param clave - The 50-digit clave numerica, or `{clave}-{consecutivoReceptor}`
+   *   for a MensajeReceptor.
+   * @returns The document, or undefined if it was never submitted.
+   */
+  getDocument(clave: string): SimulatedDocument | undefined {
+    const state = this.documents.get(clave);
+    return state && snapshot(state);
+  }
+
+  /** Returns snapshots of every submitted document, in submission order. */
+  listDocuments(): SimulatedDocument[] {
+    return [...this.documents.values()].map(snapshot);
+  }
+
+  /** Forgets all submitted documents and issued tokens. */
+  reset(): void {
+    this.documents.clear();
+    this.accessTokens.clear();
+    this.refreshTokens.clear();
+  }
+
+  // -------------------------------------------------------------------------
+  // Routing
+  // -------------------------------------------------------------------------
+
+  private route(request: SimulatorRequest): Response {
+    const { method, url } = request;
+    const path = url.pathname.replace(/\/+$/, "");
+
+    if (method === "POST" && path.endsWith("/protocol/openid-connect/token")) {
+      return this.handleToken(request);
+    }
+    if (method === "GET" && path.endsWith("/fe/ae")) {
+      return this.handleTaxpayerLookup(url);
+    }
+
+    const recepcion = /\/recepcion(?:\/(\d+(?:-\d+)?))?$/.exec(path);
+    const comprobantes = /\/comprobantes(?:\/(\d+))?$/.exec(path);
+    if (!recepcion && !comprobantes) {
+      return errorResponse(404, `No simulated endpoint for ${method} ${url.pathname}.`);
+    }
+
+    if (!this.isAuthorized(request.headers)) {
+      return new Response(null, { status: 401, statusText: "Unauthorized" });
+    }
+
+    if (recepcion) {
+      const clave = recepcion[1];
+      if (method === "POST" && !clave) return this.handleSubmission(request);
+      if (method === "GET" && clave) return this.handleStatus(clave);
+    } else if (comprobantes && method === "GET") {
+      const clave = comprobantes[1];
+      return clave ? this.handleComprobante(clave) : this.handleComprobantesList(url);
+    }
+
+    return errorResponse(405, `Method ${method} is not allowed on ${url.pathname}.`);
+  }
+
+  // -------------------------------------------------------------------------
+  // IDP
+  // -------------------------------------------------------------------------
+
+  private handleToken(request: SimulatorRequest): Response {
+    const form = new URLSearchParams(request.body);
+    const grantType = form.get("grant_type");
+
+    if (!form.get("client_id")) {
+      return oauthError(400, "invalid_client", "Missing client_id.");
+    }
+
+    if (grantType === "password") {
+      const username = form.get("username") ?? "";
+      const password = form.get("password") ?? "";
+      const known = this.users === undefined || this.users[username] === password;
+      if (!username || !password || !known) {
+        return oauthError(401, "invalid_grant", "Invalid user credentials");
+      }
+      return jsonResponse(200, this.issueTokens(username));
+    }
+
+    if (grantType === "refresh_token") {
+      const refreshToken = form.get("refresh_token") ?? "";
+      const state = this.refreshTokens.get(refreshToken);
+      if (!state || state.expiresAt <= this.now().getTime()) {
+        return oauthError(400, "invalid_grant", "Invalid refresh token");
+      }
+      this.refreshTokens.delete(refreshToken);
+      return jsonResponse(200, this.issueTokens(state.username));
+    }
+
+    return oauthError(400, "unsupported_grant_type", `Unsupported grant type: ${grantType ?? ""}`);
+  }
+
+  private issueTokens(username: string): TokenResponse {
+    const now = this.now().getTime();
+    const accessToken = `sim-access-${randomUUID()}`;
+    const refreshToken = `sim-refresh-${randomUUID()}`;
+
+    this.accessTokens.set(accessToken, now + this.accessTokenTtlSeconds * 1000);
+    this.refreshTokens.set(refreshToken, {
+      username,
+      expiresAt: now + this.refreshTokenTtlSeconds * 1000,
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: "bearer",
+      expires_in: this.accessTokenTtlSeconds,
+      refresh_token: refreshToken,
+      refresh_expires_in: this.refreshTokenTtlSeconds,
+      session_state: randomUUID(),
+      scope: "profile email",
+    };
+  }
+
+  private isAuthorized(headers: Headers): boolean {
+    const match = /^Bearer (.+)$/.exec(headers.get("Authorization") ?? "");
+    const expiresAt = match?.[1] ? this.accessTokens.get(match[1]) : undefined;
+    return expiresAt !== undefined && expiresAt > this.now().getTime();
+  }
+
+  // -------------------------------------------------------------------------
+  // Recepcion
+  // -------------------------------------------------------------------------
+
+  private handleSubmission(request: SimulatorRequest): Response {
+    let body: unknown;
+    try {
+      body = JSON.parse(request.body);
+    } catch {
+      return errorResponse(400, "El cuerpo de la solicitud no es JSON válido.");
+    }
+
+    const problem = describeInvalidSubmission(body);
+    if (problem) {
+      return errorResponse(400, problem);
+    }
+
+    const submissionRequest = body as SubmissionRequest;
+    const key = getRecepcionKey(submissionRequest);
+    if (this.documents.has(key)) {
+      return errorResponse(409, `El comprobante ${key} ya fue recibido anteriormente.`);
+    }
+
+    const xml = Buffer.from(submissionRequest.comprobanteXml, "base64").toString("utf-8");
+    let parsed: ParsedDocument | undefined;
+    let parseError: string | undefined;
+    try {
+      parsed = parseDocumentXml(xml);
+    } catch (error) {
+      parseError = error instanceof Error ? error.message : String(error);
+    }
+
+    const submission: SimulatedSubmission = { request: submissionRequest, xml, parsed };
+    this.documents.set(key, {
+      submission,
+      receivedAt: this.now(),
+      rejection: this.decideRejection(submission, parseError),
+      polls: 0,
+      status: HaciendaStatus.RECIBIDO,
+    });
+
+    return new Response(null, {
+      status: 202,
+      statusText: "Accepted",
+      headers: { Location: `${request.url.origin}${request.url.pathname}/${key}` },
+    });
+  }
+
+  private decideRejection(
+    submission: SimulatedSubmission,
+    parseError: string | undefined,
+  ): DocumentState["rejection"] {
+    if (parseError !== undefined) {
+      return { code: HaciendaRejectionCode.SCHEMA_INVALID, detail: parseError };
+    }
+    if (this.requireSignature && !submission.parsed?.signed) {
+      return {
+        code: HaciendaRejectionCode.SIGNATURE_INVALID,
+        detail: "El comprobante no está firmado.",
+      };
+    }
+
+    const scenario = this.scenarios.find((s) => !s.match || s.match(submission));
+    return (
+      scenario && {
+        code: scenario.code,
+        detail: scenario.detail ?? getRejectionDescription(scenario.code),
+      }
+    );
+  }
+
+  private handleStatus(clave: string): Response {
+    const state = this.documents.get(clave);
+    if (!state) {
+      return errorResponse(404, `No existe un comprobante con la clave ${clave}.`);
+    }
+
+    advance(state, this.pollsPerInterimStatus, this.now());
+
+    const status: StatusResponse = {
+      clave,
+      "ind-estado": state.status,
+      fecha: toHaciendaDate(state.respondedAt ?? this.now()),
+      ...(state.respondedAt ? { "respuesta-xml": this.encodeMensajeHacienda(state) } : {}),
+    };
+    return jsonResponse(200, status);
+  }
+
+  /**
+   * Builds the Base64 MensajeHacienda for a terminal document. Rejections
+   * carry the `Codigo` element read by `extractRejectionReason`.
+   */
+  private encodeMensajeHacienda(state: DocumentState): string {
+    const { request, parsed } = state.submission;
+    const document =
+      parsed && parsed.rootElement !== "MensajeReceptor" ? parsed.document : undefined;
+    const receptor = request.receptor;
+
+    const data: Record<string, unknown> = {
+      Clave: request.clave,
+      NombreEmisor: document?.emisor.nombre,
+      TipoIdentificacionEmisor: request.emisor.tipoIdentificacion,
+      NumeroCedulaEmisor: request.emisor.numeroIdentificacion,
+      NombreReceptor: document?.receptor?.nombre,
+      TipoIdentificacionReceptor: receptor?.tipoIdentificacion,
+      NumeroCedulaReceptor: receptor?.numeroIdentificacion,
+      Mensaje: state.rejection ? "3" : "1",
+      Codigo: state.rejection?.code,
+      DetalleMensaje: state.rejection?.detail ?? `Este comprobante fue aceptado.`,
+      MontoTotalImpuesto: document?.resumenFactura.totalImpuesto,
+      TotalFactura: document?.resumenFactura.totalComprobante,
+    };
+
+    const xml = buildXml("MensajeHacienda", data, {
+      namespace: MENSAJE_HACIENDA_NAMESPACE,
+      includeSchemaLocation: false,
+    });
+    return Buffer.from(xml, "utf-8").toString("base64");
+  }
+
+  // -------------------------------------------------------------------------
+  // Comprobantes
+  // -------------------------------------------------------------------------
+
+  private handleComprobantesList(url: URL): Response {
+    const params = url.searchParams;
+    const offset = Number(params.get("offset") ?? 0);
+    const limit = Number(params.get("limit") ?? DEFAULTS.pageSize);
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1) {
+      return errorResponse(400, "Los parámetros offset y limit deben ser enteros positivos.");
+    }
+
+    const emisor = params.get("emisorIdentificacion");
+    const receptor = params.get("receptorIdentificacion");
+    const desde = params.get("fechaEmisionDesde");
+    const hasta = params.get("fechaEmisionHasta");
+
+    const matching = [...this.documents.values()].filter(({ submission: { request } }) => {
+      const fecha = new Date(request.fecha).getTime();
+      return (
+        (!emisor || request.emisor.numeroIdentificacion === emisor) &&
+        (!receptor || request.receptor?.numeroIdentificacion === receptor) &&
+        (!desde || fecha >= new Date(desde).getTime()) &&
+        (!hasta || fecha <= new Date(hasta).getTime())
+      );
+    });
+
+    const body: ComprobantesListResponse = {
+      totalRegistros: matching.length,
+      offset,
+      comprobantes: matching.slice(offset, offset + limit).map(toListItem),
+    };
+    return jsonResponse(200, body);
+  }
+
+  private handleComprobante(clave: string): Response {
+    const state = this.documents.get(clave);
+    if (!state) {
+      return errorResponse(404, `No existe un comprobante con la clave ${clave}.`);
+    }
+
+    const detail: ComprobanteDetail = {
+      ...toListItem(state),
+      comprobanteXml: state.submission.request.comprobanteXml,
+      ...(state.respondedAt
+        ? {
+            respuestaXml: this.encodeMensajeHacienda(state),
+            fechaRespuesta: toHaciendaDate(state.respondedAt),
+          }
+        : {}),
+    };
+    return jsonResponse(200, detail);
+  }
+
+  // -------------------------------------------------------------------------
+  // Economic activity lookup
+  // -------------------------------------------------------------------------
+
+  private handleTaxpayerLookup(url: URL): Response {
+    const cedula = url.searchParams.get("identificacion") ?? "";
+    const taxpayer = this.taxpayers.get(cedula);
+    if (!taxpayer) {
+      return jsonResponse(404, { code: 404, status: "NOT_FOUND" });
+    }
+    return jsonResponse(200, taxpayer);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+async function normalizeRequest(
+  input: string | URL | Request,
+  init: RequestInit | undefined,
+): Promise<SimulatorRequest> {
+  if (input instanceof Request) {
+    const request = init ? new Request(input, init) : input;
+    return {
+      method: request.method.toUpperCase(),
+      url: new URL(request.url),
+      headers: request.headers,
+      body: await request.text(),
+    };
+  }
+
+  const body = init?.body;
+  return {
+    method: (init?.method ?? "GET").toUpperCase(),
+    url: new URL(input),
+    headers: new Headers(init?.headers),
+    body: typeof body === "string" ? body : body ? await new Response(body).text() : "",
+  };
+}
+
+/**
+ * Moves a document one poll further along recibido → procesando →
+ * terminal, spending `pollsPerStatus` polls in each interim status.
+ */
+function advance(state: DocumentState, pollsPerStatus: number, now: Date): void {
+  state.polls++;
+  if (state.respondedAt) return;
+
+  if (state.polls > 2 * pollsPerStatus) {
+    state.status = state.rejection ? HaciendaStatus.RECHAZADO : HaciendaStatus.ACEPTADO;
+    state.respondedAt = now;
+  } else if (state.polls > pollsPerStatus) {
+    state.status = HaciendaStatus.PROCESANDO;
+  }
+}
+
+/** Returns the first problem with a POST /recepcion body, if any. */
+function describeInvalidSubmission(body: unknown): string | undefined {
+  if (typeof body !== "object" || body === null) {
+    return "El cuerpo de la solicitud debe ser un objeto JSON.";
+  }
+
+  const request = body as Partial<SubmissionRequest>;
+  if (typeof request.clave !== "string" || !CLAVE_PATTERN.test(request.clave)) {
+    return "La clave debe tener 50 dígitos.";
+  }
+  if (typeof request.fecha !== "string" || Number.isNaN(new Date(request.fecha).getTime())) {
+    return "La fecha no es válida.";
+  }
+  if (!request.emisor?.tipoIdentificacion || !request.emisor.numeroIdentificacion) {
+    return "Falta la identificación del emisor.";
+  }
+  if (
+    request.consecutivoReceptor !== undefined &&
+    !CONSECUTIVO_PATTERN.test(request.consecutivoReceptor)
+  ) {
+    return "El consecutivoReceptor debe tener 20 dígitos.";
+  }
+  if (typeof request.comprobanteXml !== "string" || request.comprobanteXml.length === 0) {
+    return "Falta el comprobanteXml.";
+  }
+  return undefined;
+}
+
+function snapshot(state: DocumentState): SimulatedDocument {
+  return {
+    ...state.submission,
+    clave: state.submission.request.clave,
+    status: state.status,
+    receivedAt: state.receivedAt.toISOString(),
+    polls: state.polls,
+    rejection: state.rejection,
+  };
+}
+
+function toListItem(state: DocumentState): ComprobanteListItem {
+  const { request } = state.submission;
+  return {
+    clave: request.clave,
+    fechaEmision: request.fecha,
+    emisor: request.emisor,
+    ...(request.receptor ? { receptor: request.receptor } : {}),
+    estado: state.status,
+  };
+}
+
+/** Formats a date the way Hacienda does (Costa Rica offset, no milliseconds). */
+function toHaciendaDate(date: Date): string {
+  const local = new Date(date.getTime() + COSTA_RICA_UTC_OFFSET_MINUTES * 60_000);
+  return `${local.toISOString().slice(0, 19)}-06:00`;
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/** Hacienda reports errors in the `X-Error-Cause` header. */
+function errorResponse(status: number, cause: string): Response {
+  return new Response(cause, {
+    status,
+    headers: { "Content-Type": "text/plain; charset=utf-8", "X-Error-Cause": cause },
+  });
+}
+
+function oauthError(status: number, error: string, description: string): Response {
+  return jsonResponse(status, { error, error_description: description });
+}
@@ -1,11 +1,29 @@
 /**
- * XML module — XML generation and validation for Hacienda v4.4.
+ * XML module — XML generation, parsing and validation for Hacienda v4.4.
  */
 
 export { buildXml, getNamespaceUri, getSchemaFragment, type BuildXmlOptions } from "./builder.js";
 
 export {
   validateFacturaInput,
+  validateTiqueteInput,
+  validateNotaCreditoInput,
+  validateNotaDebitoInput,
+  validateFacturaCompraInput,
+  validateFacturaExportacionInput,
+  validateReciboPagoInput,
+  validateMensajeReceptorInput,
+  validateDocumentInput,
+  type DocumentValidationError,
+  type DocumentValidationResult,
+  type DocumentValidationOptions,
   type FacturaValidationError,
   type FacturaValidationResult,
 } from "./validator.js";
+
+export {
+  parseDocumentXml,
+  type ParsedDocument,
+  type DocumentRootElement,
+  type XmlParseIssue,
+} from "./parser.js";
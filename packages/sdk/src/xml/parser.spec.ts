@@ -0,0 +1,240 @@
+/**
+ * Tests for the comprobante XML parser.
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseDocumentXml } from "./parser.js";
+import type { XmlParseIssue } from "./parser.js";
+import { buildXml } from "./builder.js";
+import { ValidationError } from "../errors.js";
+import { buildFacturaXml } from "../documents/factura-builder.js";
+import { buildTiqueteXml } from "../documents/tiquete-builder.js";
+import { buildNotaCreditoXml } from "../documents/nota-credito-builder.js";
+import { buildNotaDebitoXml } from "../documents/nota-debito-builder.js";
+import { buildFacturaCompraXml } from "../documents/factura-compra-builder.js";
+import { buildFacturaExportacionXml } from "../documents/factura-exportacion-builder.js";
+import { buildReciboPagoXml } from "../documents/recibo-pago-builder.js";
+import { buildMensajeReceptorXml } from "../documents/mensaje-receptor-builder.js";
+import {
+  DISCOUNT_INVOICE,
+  EXONERATED_INVOICE,
+  MULTI_ITEM_INVOICE,
+  REFERENCE_INVOICE,
+  SIMPLE_INVOICE,
+} from "../__fixtures__/invoices.js";
+import {
+  MENSAJE_ACEPTACION_TOTAL,
+  MENSAJE_MINIMAL,
+  SIMPLE_FACTURA_COMPRA,
+  SIMPLE_FACTURA_EXPORTACION,
+  SIMPLE_NOTA_CREDITO,
+  SIMPLE_NOTA_DEBITO,
+  SIMPLE_RECIBO_PAGO,
+  SIMPLE_TIQUETE,
+  TIQUETE_WITH_RECEPTOR,
+} from "../__fixtures__/document-fixtures.js";
+import { TAX_CODE_FIXTURES } from "../__fixtures__/tax-code-fixtures.js";
+import { calculateInvoiceSummary, calculateLineItemTotals } from "../tax/calculator.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Returns the issues attached to the ValidationError thrown while parsing `xml`. */
+function parseIssues(xml: string): XmlParseIssue[] {
+  try {
+    parseDocumentXml(xml);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    return (error as ValidationError).details as XmlParseIssue[];
+  }
+  throw new Error("Expected parseDocumentXml to throw");
+}
+
+// ---------------------------------------------------------------------------
+// Round trips
+// ---------------------------------------------------------------------------
+
+describe("parseDocumentXml — round trips", () => {
+  it.each([
+    ["SIMPLE_INVOICE", SIMPLE_INVOICE],
+    ["MULTI_ITEM_INVOICE", MULTI_ITEM_INVOICE],
+    ["DISCOUNT_INVOICE", DISCOUNT_INVOICE],
+    ["EXONERATED_INVOICE", EXONERATED_INVOICE],
+    ["REFERENCE_INVOICE", REFERENCE_INVOICE],
+  ] as const)("parses %s back into the same FacturaElectronica", (_name, fixture) => {
+    const parsed = parseDocumentXml(buildFacturaXml(fixture));
+
+    expect(parsed.rootElement).toBe("FacturaElectronica");
+    expect(parsed.signed).toBe(false);
+    expect(parsed.document).toEqual(fixture);
+  });
+
+  it("parses specific-tax data and the used-goods factor", () => {
+    const lines = [TAX_CODE_FIXTURES["04"], TAX_CODE_FIXTURES["08"]].map((fixture, index) =>
+      calculateLineItemTotals({ ...fixture.line, numeroLinea: index + 1 }),
+    );
+    const invoice = {
+      ...SIMPLE_INVOICE,
+      detalleServicio: lines.map(({ esServicio: _esServicio, ...line }) => line),
+      resumenFactura: calculateInvoiceSummary(lines),
+    };
+
+    expect(parseDocumentXml(buildFacturaXml(invoice)).document).toMatchObject({
+      detalleServicio: invoice.detalleServicio,
+    });
+  });
+
+  it.each([
+    ["TiqueteElectronico", buildTiqueteXml(SIMPLE_TIQUETE), SIMPLE_TIQUETE],
+    ["TiqueteElectronico", buildTiqueteXml(TIQUETE_WITH_RECEPTOR), TIQUETE_WITH_RECEPTOR],
+    ["NotaCreditoElectronica", buildNotaCreditoXml(SIMPLE_NOTA_CREDITO), SIMPLE_NOTA_CREDITO],
+    ["NotaDebitoElectronica", buildNotaDebitoXml(SIMPLE_NOTA_DEBITO), SIMPLE_NOTA_DEBITO],
+    [
+      "FacturaElectronicaCompra",
+      buildFacturaCompraXml(SIMPLE_FACTURA_COMPRA),
+      SIMPLE_FACTURA_COMPRA,
+    ],
+    [
+      "FacturaElectronicaExportacion",
+      buildFacturaExportacionXml(SIMPLE_FACTURA_EXPORTACION),
+      SIMPLE_FACTURA_EXPORTACION,
+    ],
+    ["ReciboElectronicoPago", buildReciboPagoXml(SIMPLE_RECIBO_PAGO), SIMPLE_RECIBO_PAGO],
+    [
+      "MensajeReceptor",
+      buildMensajeReceptorXml(MENSAJE_ACEPTACION_TOTAL),
+      MENSAJE_ACEPTACION_TOTAL,
+    ],
+    ["MensajeReceptor", buildMensajeReceptorXml(MENSAJE_MINIMAL), MENSAJE_MINIMAL],
+  ] as const)("parses a %s", (rootElement, xml, fixture) => {
+    const parsed = parseDocumentXml(xml);
+
+    expect(parsed.rootElement).toBe(rootElement);
+    expect(parsed.namespace).toBe(
+      `https://cdn.comprobanteselectronicos.go.cr/xml-schemas/v4.4/${rootElement}`,
+    );
+    expect(parsed.document).toEqual(fixture);
+  });
+
+  it("narrows the document type on rootElement", () => {
+    const parsed = parseDocumentXml(buildNotaCreditoXml(SIMPLE_NOTA_CREDITO));
+
+    if (parsed.rootElement !== "NotaCreditoElectronica") {
+      throw new Error("unexpected root element");
+    }
+    expect(parsed.document.informacionReferencia[0]?.numero).toBe(
+      SIMPLE_NOTA_CREDITO.informacionReferencia[0]?.numero,
+    );
+  });
+
+  it("keeps claves and identification numbers as strings", () => {
+    const parsed = parseDocumentXml(buildFacturaXml(SIMPLE_INVOICE));
+
+    expect(typeof parsed.document.clave).toBe("string");
+    if (parsed.rootElement === "FacturaElectronica") {
+      expect(parsed.document.emisor.identificacion.numero).toBe(
+        SIMPLE_INVOICE.emisor.identificacion.numero,
+      );
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Signed and prefixed XML
+// ---------------------------------------------------------------------------
+
+describe("parseDocumentXml — signatures and prefixes", () => {
+  it("detects and skips an enveloped signature", () => {
+    const xml = buildFacturaXml(SIMPLE_INVOICE).replace(
+      "</FacturaElectronica>",
+      '<ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#" Id="Signature-1">' +
+        "<ds:SignedInfo/><ds:SignatureValue>abc</ds:SignatureValue></ds:Signature>" +
+        "</FacturaElectronica>",
+    );
+
+    const parsed = parseDocumentXml(xml);
+
+    expect(parsed.signed).toBe(true);
+    expect(parsed.document).toEqual(SIMPLE_INVOICE);
+  });
+
+  it("accepts a prefixed root element", () => {
+    const ns = "https://cdn.comprobanteselectronicos.go.cr/xml-schemas/v4.4/MensajeReceptor";
+    const xml = buildMensajeReceptorXml(MENSAJE_MINIMAL)
+      .replace(`<MensajeReceptor xmlns="${ns}"`, `<mr:MensajeReceptor xmlns:mr="${ns}"`)
+      .replace("</MensajeReceptor>", "</mr:MensajeReceptor>")
+      .replace("<Clave>", "<mr:Clave>")
+      .replace("</Clave>", "</mr:Clave>");
+
+    const parsed = parseDocumentXml(xml);
+
+    expect(parsed.rootElement).toBe("MensajeReceptor");
+    expect(parsed.document).toEqual(MENSAJE_MINIMAL);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+describe("parseDocumentXml — errors", () => {
+  it("reports malformed XML with its location", () => {
+    const [issue] = parseIssues("<FacturaElectronica><Clave></FacturaElectronica>");
+    expect(issue?.path).toMatch(/^line 1, column \d+$/);
+  });
+
+  it("rejects unknown root elements", () => {
+    const [issue] = parseIssues(buildXml("Pedido", { Numero: "1" }));
+    expect(issue?.message).toContain("Unknown root element <Pedido>");
+  });
+
+  it("rejects a namespace that does not match the root element", () => {
+    const xml = buildXml("FacturaElectronica", { Clave: "1" }, { namespace: "urn:v4.3" });
+    const [issue] = parseIssues(xml);
+    expect(issue).toEqual({
+      path: "FacturaElectronica/@xmlns",
+      message: expect.stringContaining('Unsupported namespace "urn:v4.3"') as string,
+    });
+  });
+
+  it("reports missing required elements with their path", () => {
+    const xml = buildFacturaXml(SIMPLE_INVOICE)
+      .replace(/<CorreoElectronico>[^<]*<\/CorreoElectronico>/, "")
+      .replace(/<Cantidad>[^<]*<\/Cantidad>/, "");
+
+    const paths = parseIssues(xml).map((i) => i.path);
+
+    expect(paths).toContain("FacturaElectronica/Emisor/CorreoElectronico");
+    expect(paths).toContain("FacturaElectronica/DetalleServicio/LineaDetalle[1]/Cantidad");
+  });
+
+  it("reports non-numeric amounts", () => {
+    const xml = buildFacturaXml(SIMPLE_INVOICE).replace(
+      /<TotalComprobante>[^<]*<\/TotalComprobante>/,
+      "<TotalComprobante>mucho</TotalComprobante>",
+    );
+
+    expect(parseIssues(xml)).toContainEqual({
+      path: "FacturaElectronica/ResumenFactura/TotalComprobante",
+      message: 'Expected a number, got "mucho"',
+    });
+  });
+
+  it("requires a receptor except on tiquetes", () => {
+    const xml = buildTiqueteXml(SIMPLE_TIQUETE).replace(
+      /TiqueteElectronico/g,
+      "FacturaElectronica",
+    );
+    expect(parseIssues(xml).map((i) => i.path)).toEqual(["FacturaElectronica/Receptor"]);
+  });
+
+  it("requires InformacionReferencia on notes", () => {
+    // The builder omits an empty InformacionReferencia list
+    const xml = buildNotaCreditoXml({ ...SIMPLE_NOTA_CREDITO, informacionReferencia: [] });
+
+    expect(parseIssues(xml).map((i) => i.path)).toContain(
+      "NotaCreditoElectronica/InformacionReferencia",
+    );
+  });
+});
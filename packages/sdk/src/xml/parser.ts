@@ -0,0 +1,666 @@
+/**
+ * XML parser — turns Hacienda v4.4 comprobante XML back into typed
+ * document objects (the inverse of the document builders).
+ *
+ * Detects the document type from the root element, checks its
+ * namespace against {@link getNamespaceUri}, and maps every element to
+ * the matching field of the shared document types. Missing required
+ * elements and non-numeric amounts are reported with their element path
+ * (e.g., "FacturaElectronica/DetalleServicio/LineaDetalle[2]/Cantidad").
+ *
+ * An enveloped XAdES signature (`ds:Signature`) is detected and skipped.
+ */
+
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import type {
+  CodigoComercial,
+  CodigoTipoMoneda,
+  DatosImpuestoEspecifico,
+  Descuento,
+  DocumentoElectronicoBase,
+  Emisor,
+  Exoneracion,
+  FacturaElectronica,
+  FacturaElectronicaCompra,
+  FacturaElectronicaExportacion,
+  Identificacion,
+  Impuesto,
+  InformacionReferencia,
+  LineaDetalle,
+  MensajeReceptor,
+  NotaCreditoElectronica,
+  NotaDebitoElectronica,
+  OtroCargo,
+  OtroContenido,
+  Receptor,
+  ReciboElectronicoPago,
+  ResumenFactura,
+  Telefono,
+  TiqueteElectronico,
+  Ubicacion,
+} from "@dojocoding/hacienda-shared";
+import { ValidationError } from "../errors.js";
+import { getNamespaceUri, getSchemaFragment } from "./builder.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A problem found while parsing, located by its element path. */
+export interface XmlParseIssue {
+  /** Slash-separated element path (e.g., "FacturaElectronica/Emisor/Nombre"). */
+  path: string;
+
+  /** Human-readable error message. */
+  message: string;
+}
+
+/** Fields shared by every parsed document. */
+interface ParsedDocumentBase {
+  /** Namespace URI declared on the root element. */
+  namespace: string;
+
+  /** Whether the XML carries an enveloped `ds:Signature`. */
+  signed: boolean;
+}
+
+/** A parsed comprobante, discriminated by its root element name. */
+export type ParsedDocument = ParsedDocumentBase &
+  (
+    | { rootElement: "FacturaElectronica"; document: FacturaElectronica }
+    | { rootElement: "TiqueteElectronico"; document: TiqueteElectronico }
+    | { rootElement: "NotaCreditoElectronica"; document: NotaCreditoElectronica }
+    | { rootElement: "NotaDebitoElectronica"; document: NotaDebitoElectronica }
+    | { rootElement: "FacturaElectronicaCompra"; document: FacturaElectronicaCompra }
+    | { rootElement: "FacturaElectronicaExportacion"; document: FacturaElectronicaExportacion }
+    | { rootElement: "ReciboElectronicoPago"; document: ReciboElectronicoPago }
+    | { rootElement: "MensajeReceptor"; document: MensajeReceptor }
+  );
+
+/** Root element names recognised by {@link parseDocumentXml}. */
+export type DocumentRootElement = ParsedDocument["rootElement"];
+
+/** A parsed XML element (fast-xml-parser object form). */
+type XmlNode = Record<string, unknown>;
+
+/** Root elements of the standard document body, in builder order. */
+const STANDARD_ROOT_ELEMENTS: readonly DocumentRootElement[] = [
+  "FacturaElectronica",
+  "TiqueteElectronico",
+  "NotaCreditoElectronica",
+  "NotaDebitoElectronica",
+  "FacturaElectronicaCompra",
+  "FacturaElectronicaExportacion",
+  "ReciboElectronicoPago",
+];
+
+/** Root elements that must carry InformacionReferencia. */
+const REFERENCE_ROOT_ELEMENTS: readonly string[] = [
+  "NotaCreditoElectronica",
+  "NotaDebitoElectronica",
+];
+
+/** Elements that may repeat and are always parsed as arrays. */
+const ARRAY_ELEMENTS = new Set([
+  "MedioPago",
+  "LineaDetalle",
+  "CodigoComercial",
+  "Descuento",
+  "Impuesto",
+  "OtroCargo",
+  "InformacionReferencia",
+  "OtroContenido",
+]);
+
+// ---------------------------------------------------------------------------
+// Element reader
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads values out of parsed XML nodes, collecting an issue (with its
+ * element path) for every missing required element or invalid number.
+ */
+class ElementReader {
+  readonly issues: XmlParseIssue[] = [];
+
+  /** Returns the child element, or `undefined` if absent. */
+  child(node: XmlNode, name: string): XmlNode | undefined {
+    const value = node[name];
+    return isNode(value) ? value : undefined;
+  }
+
+  /** Returns the child element, recording an issue if absent. */
+  requiredChild(node: XmlNode, name: string, path: string): XmlNode | undefined {
+    const value = this.child(node, name);
+    if (!value) {
+      this.missing(`${path}/${name}`);
+    }
+    return value;
+  }
+
+  /** Returns all repetitions of a child element. */
+  children(node: XmlNode, name: string): XmlNode[] {
+    const value = node[name];
+    return Array.isArray(value) ? value.map((v) => (isNode(v) ? v : { "#text": v })) : [];
+  }
+
+  /** Returns the text of a child element, or `undefined` if absent or empty. */
+  text(node: XmlNode, name: string): string | undefined {
+    const value = node[name];
+    const text = isNode(value) ? value["#text"] : value;
+    if (text === undefined || text === null || text === "") return undefined;
+    return String(text);
+  }
+
+  /** Returns the text of a child element, recording an issue if absent. */
+  requiredText(node: XmlNode, name: string, path: string): string {
+    const text = this.text(node, name);
+    if (text === undefined) {
+      this.missing(`${path}/${name}`);
+      return "";
+    }
+    return text;
+  }
+
+  /** Returns a numeric child element, or `undefined` if absent. */
+  number(node: XmlNode, name: string, path: string): number | undefined {
+    const text = this.text(node, name);
+    if (text === undefined) return undefined;
+
+    const value = Number(text);
+    if (Number.isNaN(value)) {
+      this.issues.push({ path: `${path}/${name}`, message: `Expected a number, got "${text}"` });
+      return 0;
+    }
+    return value;
+  }
+
+  /** Returns a numeric child element, recording an issue if absent. */
+  requiredNumber(node: XmlNode, name: string, path: string): number {
+    const value = this.number(node, name, path);
+    if (value === undefined) {
+      this.missing(`${path}/${name}`);
+      return 0;
+    }
+    return value;
+  }
+
+  private missing(path: string): void {
+    this.issues.push({ path, message: "Required element is missing" });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Element mappers
+// ---------------------------------------------------------------------------
+
+function readIdentificacion(r: ElementReader, node: XmlNode, path: string): Identificacion {
+  return {
+    tipo: r.requiredText(node, "Tipo", path) as Identificacion["tipo"],
+    numero: r.requiredText(node, "Numero", path),
+  };
+}
+
+function readUbicacion(r: ElementReader, node: XmlNode, path: string): Ubicacion {
+  const barrio = r.text(node, "Barrio");
+  const otrasSenas = r.text(node, "OtrasSenas");
+  return {
+    provincia: r.requiredText(node, "Provincia", path),
+    canton: r.requiredText(node, "Canton", path),
+    distrito: r.requiredText(node, "Distrito", path),
+    ...(barrio !== undefined ? { barrio } : {}),
+    ...(otrasSenas !== undefined ? { otrasSenas } : {}),
+  };
+}
+
+function readTelefono(r: ElementReader, node: XmlNode, path: string): Telefono {
+  return {
+    codigoPais: r.requiredText(node, "CodigoPais", path),
+    numTelefono: r.requiredText(node, "NumTelefono", path),
+  };
+}
+
+/** Reads the optional contact fields shared by Emisor and Receptor. */
+function readContact(r: ElementReader, node: XmlNode, path: string) {
+  const nombreComercial = r.text(node, "NombreComercial");
+  const ubicacion = r.child(node, "Ubicacion");
+  const telefono = r.child(node, "Telefono");
+  const fax = r.child(node, "Fax");
+
+  return {
+    ...(nombreComercial !== undefined ? { nombreComercial } : {}),
+    ...(ubicacion ? { ubicacion: readUbicacion(r, ubicacion, `${path}/Ubicacion`) } : {}),
+    ...(telefono ? { telefono: readTelefono(r, telefono, `${path}/Telefono`) } : {}),
+    ...(fax ? { fax: readTelefono(r, fax, `${path}/Fax`) } : {}),
+  };
+}
+
+function readEmisor(r: ElementReader, node: XmlNode, path: string): Emisor {
+  const identificacion = r.requiredChild(node, "Identificacion", path) ?? {};
+  return {
+    nombre: r.requiredText(node, "Nombre", path),
+    identificacion: readIdentificacion(r, identificacion, `${path}/Identificacion`),
+    ...readContact(r, node, path),
+    correoElectronico: r.requiredText(node, "CorreoElectronico", path),
+  };
+}
+
+function readReceptor(r: ElementReader, node: XmlNode, path: string): Receptor {
+  const identificacion = r.child(node, "Identificacion");
+  const identificacionExtranjero = r.text(node, "IdentificacionExtranjero");
+  const correoElectronico = r.text(node, "CorreoElectronico");
+  return {
+    nombre: r.requiredText(node, "Nombre", path),
+    ...(identificacion
+      ? { identificacion: readIdentificacion(r, identificacion, `${path}/Identificacion`) }
+      : {}),
+    ...(identificacionExtranjero !== undefined ? { identificacionExtranjero } : {}),
+    ...readContact(r, node, path),
+    ...(correoElectronico !== undefined ? { correoElectronico } : {}),
+  };
+}
+
+function readExoneracion(r: ElementReader, node: XmlNode, path: string): Exoneracion {
+  return {
+    tipoDocumento: r.requiredText(node, "TipoDocumento", path) as Exoneracion["tipoDocumento"],
+    numeroDocumento: r.requiredText(node, "NumeroDocumento", path),
+    nombreInstitucion: r.requiredText(node, "NombreInstitucion", path),
+    fechaEmision: r.requiredText(node, "FechaEmision", path),
+    porcentajeExoneracion: r.requiredNumber(node, "PorcentajeExoneracion", path),
+    montoExoneracion: r.requiredNumber(node, "MontoExoneracion", path),
+  };
+}
+
+function readDatosImpuestoEspecifico(
+  r: ElementReader,
+  node: XmlNode,
+  path: string,
+): DatosImpuestoEspecifico {
+  const cantidadUnidadMedida = r.number(node, "CantidadUnidadMedida", path);
+  const porcentaje = r.number(node, "Porcentaje", path);
+  const volumenUnidadConsumo = r.number(node, "VolumenUnidadConsumo", path);
+  return {
+    ...(cantidadUnidadMedida !== undefined ? { cantidadUnidadMedida } : {}),
+    ...(porcentaje !== undefined ? { porcentaje } : {}),
+    ...(volumenUnidadConsumo !== undefined ? { volumenUnidadConsumo } : {}),
+    impuestoUnidad: r.requiredNumber(node, "ImpuestoUnidad", path),
+  };
+}
+
+function readImpuesto(r: ElementReader, node: XmlNode, path: string): Impuesto {
+  const codigoTarifa = r.text(node, "CodigoTarifa");
+  const factorCalculoIva = r.number(node, "FactorCalculoIVA", path);
+  const datos = r.child(node, "DatosImpuestoEspecifico");
+  const exoneracion = r.child(node, "Exoneracion");
+  return {
+    codigo: r.requiredText(node, "Codigo", path) as Impuesto["codigo"],
+    ...(codigoTarifa !== undefined
+      ? { codigoTarifa: codigoTarifa as Impuesto["codigoTarifa"] }
+      : {}),
+    tarifa: r.requiredNumber(node, "Tarifa", path),
+    ...(factorCalculoIva !== undefined ? { factorCalculoIva } : {}),
+    ...(datos
+      ? {
+          datosImpuestoEspecifico: readDatosImpuestoEspecifico(
+            r,
+            datos,
+            `${path}/DatosImpuestoEspecifico`,
+          ),
+        }
+      : {}),
+    monto: r.requiredNumber(node, "Monto", path),
+    ...(exoneracion ? { exoneracion: readExoneracion(r, exoneracion, `${path}/Exoneracion`) } : {}),
+  };
+}
+
+function readDescuento(r: ElementReader, node: XmlNode, path: string): Descuento {
+  return {
+    montoDescuento: r.requiredNumber(node, "MontoDescuento", path),
+    naturalezaDescuento: r.requiredText(node, "NaturalezaDescuento", path),
+  };
+}
+
+function readLineaDetalle(r: ElementReader, node: XmlNode, path: string): LineaDetalle {
+  const codigoComercial = r.children(node, "CodigoComercial").map(
+    (c, i): CodigoComercial => ({
+      tipo: r.requiredText(
+        c,
+        "Tipo",
+        `${path}/CodigoComercial[${i + 1}]`,
+      ) as CodigoComercial["tipo"],
+      codigo: r.requiredText(c, "Codigo", `${path}/CodigoComercial[${i + 1}]`),
+    }),
+  );
+  const descuento = r
+    .children(node, "Descuento")
+    .map((d, i) => readDescuento(r, d, `${path}/Descuento[${i + 1}]`));
+  const impuesto = r
+    .children(node, "Impuesto")
+    .map((t, i) => readImpuesto(r, t, `${path}/Impuesto[${i + 1}]`));
+  const baseImponible = r.number(node, "BaseImponible", path);
+  const impuestoNeto = r.number(node, "ImpuestoNeto", path);
+
+  return {
+    numeroLinea: r.requiredNumber(node, "NumeroLinea", path),
+    codigoCabys: r.requiredText(node, "Codigo", path),
+    ...(codigoComercial.length > 0 ? { codigoComercial } : {}),
+    cantidad: r.requiredNumber(node, "Cantidad", path),
+    unidadMedida: r.requiredText(node, "UnidadMedida", path) as LineaDetalle["unidadMedida"],
+    detalle: r.requiredText(node, "Detalle", path),
+    precioUnitario: r.requiredNumber(node, "PrecioUnitario", path),
+    montoTotal: r.requiredNumber(node, "MontoTotal", path),
+    ...(descuento.length > 0 ? { descuento } : {}),
+    subTotal: r.requiredNumber(node, "SubTotal", path),
+    ...(baseImponible !== undefined ? { baseImponible } : {}),
+    ...(impuesto.length > 0 ? { impuesto } : {}),
+    ...(impuestoNeto !== undefined ? { impuestoNeto } : {}),
+    montoTotalLinea: r.requiredNumber(node, "MontoTotalLinea", path),
+  };
+}
+
+function readOtroCargo(r: ElementReader, node: XmlNode, path: string): OtroCargo {
+  const numeroIdentidadTercero = r.text(node, "NumeroIdentidadTercero");
+  const nombreTercero = r.text(node, "NombreTercero");
+  const porcentaje = r.number(node, "Porcentaje", path);
+  return {
+    tipoDocumento: r.requiredText(node, "TipoDocumento", path),
+    ...(numeroIdentidadTercero !== undefined ? { numeroIdentidadTercero } : {}),
+    ...(nombreTercero !== undefined ? { nombreTercero } : {}),
+    detalle: r.requiredText(node, "Detalle", path),
+    ...(porcentaje !== undefined ? { porcentaje } : {}),
+    montoOtroCargo: r.requiredNumber(node, "MontoOtroCargo", path),
+  };
+}
+
+function readResumenFactura(r: ElementReader, node: XmlNode, path: string): ResumenFactura {
+  const moneda = r.child(node, "CodigoTipoMoneda");
+  const codigoTipoMoneda: CodigoTipoMoneda | undefined = moneda
+    ? {
+        codigoMoneda: r.requiredText(
+          moneda,
+          "CodigoMoneda",
+          `${path}/CodigoTipoMoneda`,
+        ) as CodigoTipoMoneda["codigoMoneda"],
+        tipoCambio: r.requiredNumber(moneda, "TipoCambio", `${path}/CodigoTipoMoneda`),
+      }
+    : undefined;
+
+  const optional = (name: string) => r.number(node, name, path);
+  const totalServExonerado = optional("TotalServExonerado");
+  const totalMercExonerada = optional("TotalMercExonerada");
+  const totalExonerado = optional("TotalExonerado");
+  const totalIVADevuelto = optional("TotalIVADevuelto");
+  const totalOtrosCargos = optional("TotalOtrosCargos");
+
+  return {
+    ...(codigoTipoMoneda ? { codigoTipoMoneda } : {}),
+    totalServGravados: r.requiredNumber(node, "TotalServGravados", path),
+    totalServExentos: r.requiredNumber(node, "TotalServExentos", path),
+    ...(totalServExonerado !== undefined ? { totalServExonerado } : {}),
+    totalMercanciasGravadas: r.requiredNumber(node, "TotalMercanciasGravadas", path),
+    totalMercanciasExentas: r.requiredNumber(node, "TotalMercanciasExentas", path),
+    ...(totalMercExonerada !== undefined ? { totalMercExonerada } : {}),
+    totalGravado: r.requiredNumber(node, "TotalGravado", path),
+    totalExento: r.requiredNumber(node, "TotalExento", path),
+    ...(totalExonerado !== undefined ? { totalExonerado } : {}),
+    totalVenta: r.requiredNumber(node, "TotalVenta", path),
+    totalDescuentos: r.requiredNumber(node, "TotalDescuentos", path),
+    totalVentaNeta: r.requiredNumber(node, "TotalVentaNeta", path),
+    totalImpuesto: r.requiredNumber(node, "TotalImpuesto", path),
+    ...(totalIVADevuelto !== undefined ? { totalIVADevuelto } : {}),
+    ...(totalOtrosCargos !== undefined ? { totalOtrosCargos } : {}),
+    totalComprobante: r.requiredNumber(node, "TotalComprobante", path),
+  };
+}
+
+function readInformacionReferencia(
+  r: ElementReader,
+  node: XmlNode,
+  path: string,
+): InformacionReferencia {
+  return {
+    tipoDoc: r.requiredText(node, "TipoDoc", path) as InformacionReferencia["tipoDoc"],
+    numero: r.requiredText(node, "Numero", path),
+    fechaEmision: r.requiredText(node, "FechaEmision", path),
+    codigo: r.requiredText(node, "Codigo", path) as InformacionReferencia["codigo"],
+    razon: r.requiredText(node, "Razon", path),
+  };
+}
+
+/**
+ * Reads the standard document body shared by all comprobantes
+ * (the inverse of `buildStandardDocumentBody`).
+ */
+function readStandardDocument(
+  r: ElementReader,
+  root: XmlNode,
+  path: string,
+): DocumentoElectronicoBase & { receptor?: Receptor } {
+  const emisor = r.requiredChild(root, "Emisor", path) ?? {};
+  const receptor = r.child(root, "Receptor");
+  const plazoCredito = r.text(root, "PlazoCredito");
+
+  const medioPago = r.children(root, "MedioPago").map((m) => r.text(m, "#text") ?? "");
+  if (medioPago.length === 0) {
+    r.issues.push({ path: `${path}/MedioPago`, message: "Required element is missing" });
+  }
+
+  const detalle = r.requiredChild(root, "DetalleServicio", path) ?? {};
+  const lineas = r.children(detalle, "LineaDetalle");
+  if (lineas.length === 0) {
+    r.issues.push({
+      path: `${path}/DetalleServicio/LineaDetalle`,
+      message: "At least one line item is required",
+    });
+  }
+
+  const otrosCargos = r
+    .children(r.child(root, "OtrosCargos") ?? {}, "OtroCargo")
+    .map((c, i) => readOtroCargo(r, c, `${path}/OtrosCargos/OtroCargo[${i + 1}]`));
+  const resumen = r.requiredChild(root, "ResumenFactura", path) ?? {};
+  const informacionReferencia = r
+    .children(root, "InformacionReferencia")
+    .map((ref, i) => readInformacionReferencia(r, ref, `${path}/InformacionReferencia[${i + 1}]`));
+  const otros = r
+    .children(r.child(root, "Otros") ?? {}, "OtroContenido")
+    .map((o): OtroContenido => ({ contenido: r.text(o, "#text") ?? "" }));
+
+  return {
+    clave: r.requiredText(root, "Clave", path),
+    codigoActividad: r.requiredText(root, "CodigoActividad", path),
+    numeroConsecutivo: r.requiredText(root, "NumeroConsecutivo", path),
+    fechaEmision: r.requiredText(root, "FechaEmision", path),
+    emisor: readEmisor(r, emisor, `${path}/Emisor`),
+    ...(receptor ? { receptor: readReceptor(r, receptor, `${path}/Receptor`) } : {}),
+    condicionVenta: r.requiredText(
+      root,
+      "CondicionVenta",
+      path,
+    ) as DocumentoElectronicoBase["condicionVenta"],
+    ...(plazoCredito !== undefined ? { plazoCredito } : {}),
+    medioPago: medioPago as DocumentoElectronicoBase["medioPago"],
+    detalleServicio: lineas.map((l, i) =>
+      readLineaDetalle(r, l, `${path}/DetalleServicio/LineaDetalle[${i + 1}]`),
+    ),
+    ...(otrosCargos.length > 0 ? { otrosCargos } : {}),
+    resumenFactura: readResumenFactura(r, resumen, `${path}/ResumenFactura`),
+    ...(informacionReferencia.length > 0 ? { informacionReferencia } : {}),
+    ...(otros.length > 0 ? { otros } : {}),
+  };
+}
+
+/**
+ * Reads a Mensaje Receptor (the inverse of `buildMensajeReceptorXml`).
+ */
+function readMensajeReceptor(r: ElementReader, root: XmlNode, path: string): MensajeReceptor {
+  const detalleMensaje = r.text(root, "DetalleMensaje");
+  const montoTotalImpuesto = r.number(root, "MontoTotalImpuesto", path);
+  const codigoActividad = r.text(root, "CodigoActividad");
+  const condicionImpuesto = r.text(root, "CondicionImpuesto");
+  const montoTotalImpuestoAcreditable = r.number(root, "MontoTotalImpuestoAcreditable", path);
+  const montoTotalDeGastoAplicable = r.number(root, "MontoTotalDeGastoAplicable", path);
+
+  return {
+    clave: r.requiredText(root, "Clave", path),
+    numeroCedulaEmisor: r.requiredText(root, "NumeroCedulaEmisor", path),
+    fechaEmisionDoc: r.requiredText(root, "FechaEmisionDoc", path),
+    mensaje: r.requiredText(root, "Mensaje", path) as MensajeReceptor["mensaje"],
+    ...(detalleMensaje !== undefined ? { detalleMensaje } : {}),
+    ...(montoTotalImpuesto !== undefined ? { montoTotalImpuesto } : {}),
+    ...(codigoActividad !== undefined ? { codigoActividad } : {}),
+    ...(condicionImpuesto !== undefined ? { condicionImpuesto } : {}),
+    ...(montoTotalImpuestoAcreditable !== undefined ? { montoTotalImpuestoAcreditable } : {}),
+    ...(montoTotalDeGastoAplicable !== undefined ? { montoTotalDeGastoAplicable } : {}),
+    totalFactura: r.requiredNumber(root, "TotalFactura", path),
+    numeroCedulaReceptor: r.requiredText(root, "NumeroCedulaReceptor", path),
+    numeroConsecutivoReceptor: r.requiredText(root, "NumeroConsecutivoReceptor", path),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function isNode(value: unknown): value is XmlNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Removes a namespace prefix ("ds:Signature" → "Signature"). */
+function localName(name: string): string {
+  const colon = name.indexOf(":");
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+/** Strips namespace prefixes from every element name (attributes are kept). */
+function stripPrefixes(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripPrefixes);
+  }
+  if (!isNode(value)) {
+    return value;
+  }
+
+  const result: XmlNode = {};
+  for (const [key, child] of Object.entries(value)) {
+    result[key.startsWith("@_") ? key : localName(key)] = stripPrefixes(child);
+  }
+  return result;
+}
+
+function isDocumentRootElement(name: string): name is DocumentRootElement {
+  return name === "MensajeReceptor" || STANDARD_ROOT_ELEMENTS.includes(name as DocumentRootElement);
+}
+
+/**
+ * Create an XMLParser configured for Hacienda documents.
+ *
+ * Tag values are kept as strings (claves and identification numbers
+ * must not be coerced to numbers); repeatable elements are always arrays.
+ */
+function createParser(): XMLParser {
+  return new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    parseTagValue: false,
+    isArray: (name) => ARRAY_ELEMENTS.has(localName(name)),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a Hacienda v4.4 comprobante XML into a typed document object.
+ *
+ * Accepts unsigned builder output as well as signed XML (e.g., supplier
+ * invoices received by email or the XML returned by `getComprobante`).
+ * The result is discriminated by `rootElement`, so narrowing on it
+ * yields the matching document type.
+ *
+ * Only structural checks are performed here; run the result through
+ * `validateDocumentInput` to apply schema and business rules.
+ *
+ * @param xml - The XML document string.
+ * @returns The parsed document, its root element, namespace and signature flag.
+ * @throws {ValidationError} If the XML is malformed, the root element or
+ *   namespace is not a v4.4 document, or required elements are missing.
+ *   `details` holds an array of {@link XmlParseIssue}.
+ *
+ * @example
+ * ```ts
+ * const parsed = parseDocumentXml(xmlFromEmail);
+ * if (parsed.rootElement === "FacturaElectronica") {
+ *   console.log(parsed.document.emisor.nombre, parsed.document.resumenFactura.totalComprobante);
+ * }
+ * ```
+ */
+export function parseDocumentXml(xml: string): ParsedDocument {
+  const validation = XMLValidator.validate(xml);
+  if (validation !== true) {
+    const { msg, line, col } = validation.err;
+    throw new ValidationError(`Malformed XML: ${msg}`, [
+      { path: `line ${line}, column ${col}`, message: msg },
+    ] satisfies XmlParseIssue[]);
+  }
+
+  const parsed = createParser().parse(xml) as XmlNode;
+  const rootKey = Object.keys(parsed).find((key) => !key.startsWith("?"));
+  const rootName = rootKey ? localName(rootKey) : "";
+
+  if (!rootKey || !isDocumentRootElement(rootName)) {
+    const message = `Unknown root element <${rootKey ?? ""}>. Expected a Hacienda v4.4 document.`;
+    throw new ValidationError(message, [{ path: rootKey ?? "", message }]);
+  }
+
+  const rawRoot = parsed[rootKey];
+  const root = isNode(rawRoot) ? rawRoot : {};
+  const prefix = rootKey === rootName ? "" : rootKey.slice(0, rootKey.indexOf(":"));
+  const namespace = String(root[prefix ? `@_xmlns:${prefix}` : "@_xmlns"] ?? "");
+  const expectedNamespace = getNamespaceUri(getSchemaFragment(rootName));
+
+  if (namespace !== expectedNamespace) {
+    const message = `Unsupported namespace "${namespace}" for <${rootName}>. Expected "${expectedNamespace}".`;
+    throw new ValidationError(message, [{ path: `${rootName}/@xmlns`, message }]);
+  }
+
+  const body = stripPrefixes(root) as XmlNode;
+  const signed = isNode(body.Signature);
+  const reader = new ElementReader();
+
+  let result: ParsedDocument;
+  if (rootName === "MensajeReceptor") {
+    result = {
+      rootElement: rootName,
+      namespace,
+      signed,
+      document: readMensajeReceptor(reader, body, rootName),
+    };
+  } else {
+    const document = readStandardDocument(reader, body, rootName);
+
+    if (rootName !== "TiqueteElectronico" && !document.receptor) {
+      reader.issues.push({ path: `${rootName}/Receptor`, message: "Required element is missing" });
+    }
+    if (REFERENCE_ROOT_ELEMENTS.includes(rootName) && !document.informacionReferencia) {
+      reader.issues.push({
+        path: `${rootName}/InformacionReferencia`,
+        message: "Required element is missing",
+      });
+    }
+
+    // Required elements were checked above, so the document matches its root type
+    result = { rootElement: rootName, namespace, signed, document } as ParsedDocument;
+  }
+
+  if (reader.issues.length > 0) {
+    const summary = reader.issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path}: ${issue.message}`)
+      .join("; ");
+    const more = reader.issues.length > 3 ? ` (+${reader.issues.length - 3} more)` : "";
+    throw new ValidationError(`Invalid ${rootName} XML: ${summary}${more}`, reader.issues);
+  }
+
+  return result;
+}
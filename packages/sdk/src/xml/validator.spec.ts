@@ -1,9 +1,22 @@
 /**
- * Tests for Factura Electronica input validation.
+ * Tests for document input validation.
  */
 
 import { describe, it, expect } from "vitest";
-import { validateFacturaInput } from "./validator.js";
+import type { Impuesto } from "@dojocoding/hacienda-shared";
+import {
+  validateDocumentInput,
+  validateFacturaCompraInput,
+  validateFacturaExportacionInput,
+  validateFacturaInput,
+  validateMensajeReceptorInput,
+  validateNotaCreditoInput,
+  validateNotaDebitoInput,
+  validateReciboPagoInput,
+  validateTiqueteInput,
+} from "./validator.js";
+import { DocumentType } from "../clave/types.js";
+import { CabysCatalog } from "../cabys/cabys-catalog.js";
 import {
   SIMPLE_INVOICE,
   MULTI_ITEM_INVOICE,
@@ -13,6 +26,22 @@ import {
   CREDIT_INVOICE,
   REFERENCE_INVOICE,
 } from "../__fixtures__/invoices.js";
+import {
+  MENSAJE_ACEPTACION_PARCIAL,
+  MENSAJE_ACEPTACION_TOTAL,
+  MENSAJE_MINIMAL,
+  MENSAJE_RECHAZO,
+  SIMPLE_FACTURA_COMPRA,
+  SIMPLE_FACTURA_EXPORTACION,
+  SIMPLE_NOTA_CREDITO,
+  SIMPLE_NOTA_DEBITO,
+  SIMPLE_RECIBO_PAGO,
+  SIMPLE_TIQUETE,
+  TIQUETE_WITH_RECEPTOR,
+} from "../__fixtures__/document-fixtures.js";
+import { TAX_CODE_FIXTURES } from "../__fixtures__/tax-code-fixtures.js";
+import type { TaxCodeFixture } from "../__fixtures__/tax-code-fixtures.js";
+import { calculateInvoiceSummary, calculateLineItemTotals } from "../tax/calculator.js";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -296,6 +325,31 @@ describe("validateFacturaInput — business rules", () => {
     expect(result.errors.some((e) => e.path.includes("plazoCredito"))).toBe(true);
   });
 
+  it("should require tipoCambio 1 for documents in colones", () => {
+    const badInput = {
+      ...SIMPLE_INVOICE,
+      resumenFactura: {
+        ...SIMPLE_INVOICE.resumenFactura,
+        codigoTipoMoneda: { codigoMoneda: "CRC" as const, tipoCambio: 512.34 },
+      },
+    };
+    const result = validateFacturaInput(badInput);
+    expect(result.errors.map((e) => e.path)).toEqual([
+      "resumenFactura.codigoTipoMoneda.tipoCambio",
+    ]);
+  });
+
+  it("should accept a foreign currency with its exchange rate", () => {
+    const result = validateFacturaInput({
+      ...SIMPLE_INVOICE,
+      resumenFactura: {
+        ...SIMPLE_INVOICE.resumenFactura,
+        codigoTipoMoneda: { codigoMoneda: "USD" as const, tipoCambio: 512.34 },
+      },
+    });
+    expect(result.valid).toBe(true);
+  });
+
   it("should warn about missing codigoTarifa for IVA taxes", () => {
     const baseLine = firstLineItem(SIMPLE_INVOICE);
     const badInput = {
@@ -320,6 +374,48 @@ describe("validateFacturaInput — business rules", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Tax codes
+// ---------------------------------------------------------------------------
+
+describe("validateFacturaInput — tax codes", () => {
+  function invoiceFor(
+    fixture: TaxCodeFixture,
+    mapTaxes: (taxes: Impuesto[]) => Impuesto[] = (taxes) => taxes,
+  ) {
+    const calculated = calculateLineItemTotals(fixture.line);
+    const { esServicio: _esServicio, ...line } = calculated;
+    return {
+      ...SIMPLE_INVOICE,
+      detalleServicio: [{ ...line, impuesto: mapTaxes(line.impuesto ?? []) }],
+      resumenFactura: calculateInvoiceSummary([calculated]),
+    };
+  }
+
+  it.each(Object.entries(TAX_CODE_FIXTURES))(
+    "should accept a calculated line with tax code %s",
+    (_code, fixture) => {
+      expect(validateFacturaInput(invoiceFor(fixture)).errors).toEqual([]);
+    },
+  );
+
+  it("should reject IVA not charged on the specific tax", () => {
+    const badInput = invoiceFor(TAX_CODE_FIXTURES["06"], (taxes) =>
+      taxes.map((t) => (t.codigo === "01" ? { ...t, monto: 3250 } : t)),
+    );
+    const result = validateFacturaInput(badInput);
+    expect(result.errors.some((e) => e.path === "detalleServicio.0.impuesto.1.monto")).toBe(true);
+  });
+
+  it("should require factorCalculoIva for used goods", () => {
+    const badInput = invoiceFor(TAX_CODE_FIXTURES["08"], (taxes) =>
+      taxes.map(({ factorCalculoIva: _factor, ...t }) => t),
+    );
+    const result = validateFacturaInput(badInput);
+    expect(result.errors.some((e) => e.path.endsWith("factorCalculoIva"))).toBe(true);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Edge cases
 // ---------------------------------------------------------------------------
@@ -354,3 +450,174 @@ describe("validateFacturaInput — edge cases", () => {
     expect(result.valid).toBe(false);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Other document types
+// ---------------------------------------------------------------------------
+
+describe("document validators — valid inputs", () => {
+  it.each([
+    ["SIMPLE_TIQUETE", validateTiqueteInput, SIMPLE_TIQUETE],
+    ["TIQUETE_WITH_RECEPTOR", validateTiqueteInput, TIQUETE_WITH_RECEPTOR],
+    ["SIMPLE_NOTA_CREDITO", validateNotaCreditoInput, SIMPLE_NOTA_CREDITO],
+    ["SIMPLE_NOTA_DEBITO", validateNotaDebitoInput, SIMPLE_NOTA_DEBITO],
+    ["SIMPLE_FACTURA_COMPRA", validateFacturaCompraInput, SIMPLE_FACTURA_COMPRA],
+    ["SIMPLE_FACTURA_EXPORTACION", validateFacturaExportacionInput, SIMPLE_FACTURA_EXPORTACION],
+    ["SIMPLE_RECIBO_PAGO", validateReciboPagoInput, SIMPLE_RECIBO_PAGO],
+    ["MENSAJE_ACEPTACION_TOTAL", validateMensajeReceptorInput, MENSAJE_ACEPTACION_TOTAL],
+    ["MENSAJE_ACEPTACION_PARCIAL", validateMensajeReceptorInput, MENSAJE_ACEPTACION_PARCIAL],
+    ["MENSAJE_RECHAZO", validateMensajeReceptorInput, MENSAJE_RECHAZO],
+    ["MENSAJE_MINIMAL", validateMensajeReceptorInput, MENSAJE_MINIMAL],
+  ] as const)("%s should be valid", (_name, validate, fixture) => {
+    const result = validate(fixture);
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+});
+
+describe("validateTiqueteInput", () => {
+  it("should not require a receptor", () => {
+    expect(SIMPLE_TIQUETE).not.toHaveProperty("receptor");
+    expect(validateTiqueteInput(SIMPLE_TIQUETE).valid).toBe(true);
+  });
+
+  it("should apply the amount rules", () => {
+    const result = validateTiqueteInput({
+      ...SIMPLE_TIQUETE,
+      resumenFactura: { ...SIMPLE_TIQUETE.resumenFactura, totalComprobante: 1 },
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.path === "resumenFactura.totalComprobante")).toBe(true);
+  });
+});
+
+describe.each([
+  ["validateNotaCreditoInput", validateNotaCreditoInput, SIMPLE_NOTA_CREDITO],
+  ["validateNotaDebitoInput", validateNotaDebitoInput, SIMPLE_NOTA_DEBITO],
+] as const)("%s", (_name, validate, fixture) => {
+  it("should require informacionReferencia", () => {
+    const { informacionReferencia: _ref, ...note } = fixture;
+    const result = validate(note);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]?.path).toBe("informacionReferencia");
+  });
+
+  it("should reject a reference dated after the note", () => {
+    const [ref] = fixture.informacionReferencia;
+    const result = validate({
+      ...fixture,
+      informacionReferencia: [{ ...ref, fechaEmision: "2099-01-01T00:00:00-06:00" }],
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]?.path).toBe("informacionReferencia.0.fechaEmision");
+  });
+});
+
+describe("validateFacturaCompraInput", () => {
+  it("should require an identified receptor", () => {
+    const result = validateFacturaCompraInput({
+      ...SIMPLE_FACTURA_COMPRA,
+      receptor: { nombre: SIMPLE_FACTURA_COMPRA.receptor.nombre },
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]?.path).toBe("receptor.identificacion");
+  });
+});
+
+describe("validateFacturaExportacionInput", () => {
+  it("should require identificacionExtranjero", () => {
+    const result = validateFacturaExportacionInput({
+      ...SIMPLE_FACTURA_EXPORTACION,
+      receptor: { nombre: "Acme Corp USA" },
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]?.path).toBe("receptor.identificacionExtranjero");
+  });
+
+  it("should reject a Costa Rican cedula on the receptor", () => {
+    const result = validateFacturaExportacionInput({
+      ...SIMPLE_FACTURA_EXPORTACION,
+      receptor: {
+        ...SIMPLE_FACTURA_EXPORTACION.receptor,
+        identificacion: { tipo: "02", numero: "3109876543" },
+      },
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]?.path).toBe("receptor.identificacion.tipo");
+  });
+});
+
+describe("validateMensajeReceptorInput", () => {
+  it("should require detalleMensaje for a rejection", () => {
+    const { detalleMensaje: _detalle, ...mensaje } = MENSAJE_RECHAZO;
+    const result = validateMensajeReceptorInput(mensaje);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]?.path).toBe("detalleMensaje");
+  });
+
+  it("should reject montoTotalImpuesto above totalFactura", () => {
+    const result = validateMensajeReceptorInput({
+      ...MENSAJE_ACEPTACION_TOTAL,
+      montoTotalImpuesto: 200000,
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]?.path).toBe("montoTotalImpuesto");
+  });
+
+  it("should require the consecutivo document type to match the message", () => {
+    const result = validateMensajeReceptorInput({
+      ...MENSAJE_RECHAZO,
+      numeroConsecutivoReceptor: "00100001050000000001",
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]?.message).toContain("document type 07");
+  });
+
+  it("should reject schema errors", () => {
+    expect(validateMensajeReceptorInput({}).valid).toBe(false);
+  });
+});
+
+describe("validateDocumentInput", () => {
+  const cabys = new CabysCatalog([
+    { codigo: "4321000000000", descripcion: "Consultoría en TI", impuesto: 4, categorias: [] },
+  ]);
+
+  it("should check CABYS codes and rates against the catalog when given", () => {
+    const result = validateDocumentInput(DocumentType.FACTURA_ELECTRONICA, SIMPLE_INVOICE, {
+      cabys,
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.path)).toEqual(["detalleServicio.0.impuesto.0.tarifa"]);
+
+    const empty = new CabysCatalog([]);
+    expect(
+      validateDocumentInput(DocumentType.TIQUETE_ELECTRONICO, SIMPLE_TIQUETE, { cabys: empty })
+        .errors[0]?.message,
+    ).toContain("is not in the catalog");
+    expect(validateDocumentInput(DocumentType.FACTURA_ELECTRONICA, SIMPLE_INVOICE).valid).toBe(
+      true,
+    );
+  });
+
+  it("should not check IVA rates of export invoices against the catalog", () => {
+    const result = validateDocumentInput(
+      DocumentType.FACTURA_EXPORTACION,
+      SIMPLE_FACTURA_EXPORTACION,
+      { cabys },
+    );
+    expect(result.valid).toBe(true);
+  });
+
+  it("should dispatch to the validator for the document type", () => {
+    expect(validateDocumentInput(DocumentType.TIQUETE_ELECTRONICO, SIMPLE_TIQUETE).valid).toBe(
+      true,
+    );
+    expect(validateDocumentInput(DocumentType.FACTURA_ELECTRONICA, SIMPLE_TIQUETE).valid).toBe(
+      false,
+    );
+    expect(validateDocumentInput(DocumentType.CONFIRMACION_RECHAZO, MENSAJE_RECHAZO).valid).toBe(
+      true,
+    );
+  });
+});
@@ -1,26 +1,53 @@
 /**
- * Factura Electronica input validation.
+ * Document input validation for every Hacienda document type.
  *
- * Validates a FacturaElectronicaInput against the Zod schema
- * and applies additional business rules that go beyond schema validation:
+ * Validates an input against its document type's Zod schema and applies
+ * additional business rules that go beyond schema validation:
  * - Sequential line numbers
  * - Amount consistency (montoTotal = cantidad * precioUnitario, etc.)
  * - Tax amount accuracy
  * - Summary totals matching line item calculations
+ * - Currency code and exchange rate consistency
  * - At least one line item
  * - Valid tax code / rate combinations
+ * - Type-specific rules (references on notes, foreign receptor on
+ *   exports, reason on partial/rejected Mensaje Receptor, ...)
  */
 
-import type { FacturaElectronicaInput } from "@dojocoding/hacienda-shared";
-import { FacturaElectronicaSchema, TaxCode } from "@dojocoding/hacienda-shared";
-import { round5 } from "../tax/calculator.js";
+import type { z } from "zod";
+import type {
+  FacturaElectronicaExportacionInput,
+  FacturaElectronicaInput,
+  MensajeReceptorInput,
+  NotaCreditoElectronicaInput,
+} from "@dojocoding/hacienda-shared";
+import {
+  CurrencyCode,
+  FacturaElectronicaCompraSchema,
+  FacturaElectronicaExportacionSchema,
+  FacturaElectronicaSchema,
+  IdentificationType,
+  MensajeReceptorCode,
+  MensajeReceptorSchema,
+  NotaCreditoElectronicaSchema,
+  NotaDebitoElectronicaSchema,
+  ReciboElectronicoPagoSchema,
+  TaxCode,
+  TiqueteElectronicoSchema,
+} from "@dojocoding/hacienda-shared";
+import type { CabysCatalog } from "../cabys/cabys-catalog.js";
+import { validateCabysCodes } from "../cabys/cabys-validation.js";
+import { DocumentType } from "../clave/types.js";
+import { calculateTaxAmounts } from "../tax/calculator.js";
+import { Decimal } from "../tax/decimal.js";
+import type { DecimalLike } from "../tax/decimal.js";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
 /** A single validation error with a path and message. */
-export interface FacturaValidationError {
+export interface DocumentValidationError {
   /** Dot-separated path to the field (e.g., "detalleServicio.0.montoTotal"). */
   path: string;
 
@@ -28,25 +55,60 @@ export interface FacturaValidationError {
   message: string;
 }
 
-/** Result of validating a Factura Electronica input. */
-export interface FacturaValidationResult {
+/** Result of validating a document input. */
+export interface DocumentValidationResult {
   /** Whether the input is valid. */
   valid: boolean;
 
   /** List of validation errors (empty if valid). */
-  errors: FacturaValidationError[];
+  errors: DocumentValidationError[];
+}
+
+/** Optional checks for {@link validateDocumentInput} and the per-type validators. */
+export interface DocumentValidationOptions {
+  /**
+   * CABYS catalog to check line codes and IVA rates against
+   * (see `loadCabysCatalog`). Without it, codes are only checked for
+   * being 13 digits.
+   */
+  cabys?: CabysCatalog;
 }
 
+/** Validation error for a Factura Electronica input. */
+export type FacturaValidationError = DocumentValidationError;
+
+/** Result of validating a Factura Electronica input. */
+export type FacturaValidationResult = DocumentValidationResult;
+
+/**
+ * Fields shared by every commercial document (all types except
+ * Mensaje Receptor). The receptor is left out because its rules differ
+ * per type and are enforced by each schema.
+ */
+type CommercialDocumentInput = Omit<FacturaElectronicaInput, "receptor">;
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
+/** Largest difference tolerated between a declared and a recomputed amount. */
+const AMOUNT_TOLERANCE = Decimal.from("0.001");
+
+/** Decimal places Hacienda rounds every amount to. */
+const DECIMAL_PLACES = 5;
+
 /**
- * Check whether two numbers are equal within a small tolerance.
- * Accounts for floating-point precision issues.
+ * Check whether two amounts are equal within {@link AMOUNT_TOLERANCE}.
+ * The difference is computed exactly, so no IEEE 754 error is added
+ * on top of the tolerance.
  */
-function amountsEqual(a: number, b: number): boolean {
-  return Math.abs(a - b) < 0.001;
+function amountsEqual(a: DecimalLike, b: DecimalLike): boolean {
+  return Decimal.from(a).minus(b).abs().lessThan(AMOUNT_TOLERANCE);
+}
+
+/** Exact `a + b + ...`, rounded to 5 decimals. */
+function sum5(...values: DecimalLike[]): Decimal {
+  return Decimal.sum(values).round(DECIMAL_PLACES);
 }
 
 /** IVA-related tax codes. */
@@ -56,17 +118,34 @@ const IVA_TAX_CODES: string[] = [
   TaxCode.IVA_BIENES_USADOS,
 ];
 
+/** Describe how a tax amount is computed, for error messages. */
+function describeTaxFormula(tax: {
+  codigo: string;
+  factorCalculoIva?: number;
+  datosImpuestoEspecifico?: unknown;
+}): string {
+  if (!IVA_TAX_CODES.includes(tax.codigo)) {
+    return tax.datosImpuestoEspecifico
+      ? "the per-unit amount from datosImpuestoEspecifico"
+      : "subTotal * tarifa / 100";
+  }
+  return tax.codigo === TaxCode.IVA_BIENES_USADOS && tax.factorCalculoIva !== undefined
+    ? "baseImponible * factorCalculoIva"
+    : "baseImponible * tarifa / 100";
+}
+
 // ---------------------------------------------------------------------------
 // Business Rule Validation
 // ---------------------------------------------------------------------------
 
 /**
- * Validate business rules on a parsed FacturaElectronicaInput.
+ * Validate business rules shared by every commercial document:
+ * line items, tax amounts, summary totals and credit terms.
  *
  * @returns Array of validation errors. Empty if all rules pass.
  */
-function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidationError[] {
-  const errors: FacturaValidationError[] = [];
+function validateBusinessRules(input: CommercialDocumentInput): DocumentValidationError[] {
+  const errors: DocumentValidationError[] = [];
 
   // Rule: Sequential line numbers starting from 1
   let lineIndex = 0;
@@ -81,14 +160,17 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
   }
 
   // Rule: Line item amount consistency
-  let sumLineImpuestoNeto = 0;
+  let sumLineImpuestoNeto = Decimal.ZERO;
 
   lineIndex = 0;
   for (const line of input.detalleServicio) {
     const prefix = `detalleServicio.${lineIndex}`;
 
     // montoTotal = cantidad * precioUnitario
-    const expectedMontoTotal = round5(line.cantidad * line.precioUnitario);
+    const expectedMontoTotal = Decimal.from(line.cantidad)
+      .times(line.precioUnitario)
+      .round(DECIMAL_PLACES)
+      .toNumber();
     if (!amountsEqual(line.montoTotal, expectedMontoTotal)) {
       errors.push({
         path: `${prefix}.montoTotal`,
@@ -97,15 +179,13 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
     }
 
     // subTotal = montoTotal - sum(descuentos)
-    const totalDescuento = line.descuento
-      ? round5(
-          line.descuento.reduce(
-            (sum: number, d: { montoDescuento: number }) => sum + d.montoDescuento,
-            0,
-          ),
-        )
-      : 0;
-    const expectedSubTotal = round5(line.montoTotal - totalDescuento);
+    const totalDescuento = sum5(
+      ...(line.descuento ?? []).map((d: { montoDescuento: number }) => d.montoDescuento),
+    );
+    const expectedSubTotal = Decimal.from(line.montoTotal)
+      .minus(totalDescuento)
+      .round(DECIMAL_PLACES)
+      .toNumber();
     if (!amountsEqual(line.subTotal, expectedSubTotal)) {
       errors.push({
         path: `${prefix}.subTotal`,
@@ -115,16 +195,28 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
 
     // Tax amount validation
     if (line.impuesto && line.impuesto.length > 0) {
-      let lineImpuestoNeto = 0;
+      let lineImpuestoNeto = Decimal.ZERO;
       let taxIndex = 0;
 
+      // Non-IVA taxes on the subtotal (or per unit), IVA on subTotal + those taxes
+      const { baseImponible, montos } = calculateTaxAmounts(
+        line.cantidad,
+        line.subTotal,
+        line.impuesto,
+      );
+      if (line.baseImponible !== undefined && !amountsEqual(line.baseImponible, baseImponible)) {
+        errors.push({
+          path: `${prefix}.baseImponible`,
+          message: `baseImponible (${line.baseImponible}) must equal subTotal + non-IVA taxes (${baseImponible.toNumber()})`,
+        });
+      }
+
       for (const tax of line.impuesto) {
-        // monto = subTotal * tarifa / 100
-        const expectedTaxAmount = round5((line.subTotal * tax.tarifa) / 100);
+        const expectedTaxAmount = (montos[taxIndex] ?? Decimal.ZERO).toNumber();
         if (!amountsEqual(tax.monto, expectedTaxAmount)) {
           errors.push({
             path: `${prefix}.impuesto.${taxIndex}.monto`,
-            message: `Tax amount (${tax.monto}) must equal subTotal * tarifa / 100 (${expectedTaxAmount})`,
+            message: `Tax amount (${tax.monto}) must equal ${describeTaxFormula(tax)} (${expectedTaxAmount})`,
           });
         }
 
@@ -136,15 +228,21 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
           });
         }
 
-        // Calculate net IVA for this tax
-        if (IVA_TAX_CODES.includes(tax.codigo)) {
-          let netAmount = tax.monto;
-          if (tax.exoneracion) {
-            netAmount = round5(netAmount - tax.exoneracion.montoExoneracion);
-          }
-          lineImpuestoNeto = round5(lineImpuestoNeto + netAmount);
+        // Used-goods IVA is charged with a factor instead of the rate
+        if (tax.codigo === TaxCode.IVA_BIENES_USADOS && tax.factorCalculoIva === undefined) {
+          errors.push({
+            path: `${prefix}.impuesto.${taxIndex}.factorCalculoIva`,
+            message: "IVA bienes usados (code 08) must specify a factorCalculoIva",
+          });
         }
 
+        // Net amount of this tax after exoneration
+        let netAmount = Decimal.from(tax.monto);
+        if (tax.exoneracion) {
+          netAmount = netAmount.minus(tax.exoneracion.montoExoneracion);
+        }
+        lineImpuestoNeto = sum5(lineImpuestoNeto, netAmount);
+
         taxIndex++;
       }
 
@@ -153,17 +251,17 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
         if (!amountsEqual(line.impuestoNeto, lineImpuestoNeto)) {
           errors.push({
             path: `${prefix}.impuestoNeto`,
-            message: `impuestoNeto (${line.impuestoNeto}) must equal sum of net IVA taxes (${lineImpuestoNeto})`,
+            message: `impuestoNeto (${line.impuestoNeto}) must equal sum of net taxes (${lineImpuestoNeto.toNumber()})`,
           });
         }
       }
 
-      sumLineImpuestoNeto = round5(sumLineImpuestoNeto + lineImpuestoNeto);
+      sumLineImpuestoNeto = sumLineImpuestoNeto.plus(lineImpuestoNeto);
     }
 
     // montoTotalLinea = subTotal + impuestoNeto
     const impNeto = line.impuestoNeto ?? 0;
-    const expectedMontoTotalLinea = round5(line.subTotal + impNeto);
+    const expectedMontoTotalLinea = sum5(line.subTotal, impNeto).toNumber();
     if (!amountsEqual(line.montoTotalLinea, expectedMontoTotalLinea)) {
       errors.push({
         path: `${prefix}.montoTotalLinea`,
@@ -178,7 +276,7 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
   const r = input.resumenFactura;
 
   // totalGravado = totalServGravados + totalMercanciasGravadas
-  const expectedTotalGravado = round5(r.totalServGravados + r.totalMercanciasGravadas);
+  const expectedTotalGravado = sum5(r.totalServGravados, r.totalMercanciasGravadas).toNumber();
   if (!amountsEqual(r.totalGravado, expectedTotalGravado)) {
     errors.push({
       path: "resumenFactura.totalGravado",
@@ -187,7 +285,7 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
   }
 
   // totalExento = totalServExentos + totalMercanciasExentas
-  const expectedTotalExento = round5(r.totalServExentos + r.totalMercanciasExentas);
+  const expectedTotalExento = sum5(r.totalServExentos, r.totalMercanciasExentas).toNumber();
   if (!amountsEqual(r.totalExento, expectedTotalExento)) {
     errors.push({
       path: "resumenFactura.totalExento",
@@ -197,9 +295,10 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
 
   // totalExonerado (if present)
   if (r.totalExonerado !== undefined) {
-    const expectedTotalExonerado = round5(
-      (r.totalServExonerado ?? 0) + (r.totalMercExonerada ?? 0),
-    );
+    const expectedTotalExonerado = sum5(
+      r.totalServExonerado ?? 0,
+      r.totalMercExonerada ?? 0,
+    ).toNumber();
     if (!amountsEqual(r.totalExonerado, expectedTotalExonerado)) {
       errors.push({
         path: "resumenFactura.totalExonerado",
@@ -210,7 +309,7 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
 
   // totalVenta = totalGravado + totalExento + totalExonerado
   const totalExonerado = r.totalExonerado ?? 0;
-  const expectedTotalVenta = round5(r.totalGravado + r.totalExento + totalExonerado);
+  const expectedTotalVenta = sum5(r.totalGravado, r.totalExento, totalExonerado).toNumber();
   if (!amountsEqual(r.totalVenta, expectedTotalVenta)) {
     errors.push({
       path: "resumenFactura.totalVenta",
@@ -219,7 +318,10 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
   }
 
   // totalVentaNeta = totalVenta - totalDescuentos
-  const expectedTotalVentaNeta = round5(r.totalVenta - r.totalDescuentos);
+  const expectedTotalVentaNeta = Decimal.from(r.totalVenta)
+    .minus(r.totalDescuentos)
+    .round(DECIMAL_PLACES)
+    .toNumber();
   if (!amountsEqual(r.totalVentaNeta, expectedTotalVentaNeta)) {
     errors.push({
       path: "resumenFactura.totalVentaNeta",
@@ -231,16 +333,17 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
   if (!amountsEqual(r.totalImpuesto, sumLineImpuestoNeto)) {
     errors.push({
       path: "resumenFactura.totalImpuesto",
-      message: `totalImpuesto (${r.totalImpuesto}) must equal sum of line item impuestoNeto (${sumLineImpuestoNeto})`,
+      message: `totalImpuesto (${r.totalImpuesto}) must equal sum of line item impuestoNeto (${sumLineImpuestoNeto.toNumber()})`,
     });
   }
 
   // totalComprobante = totalVentaNeta + totalImpuesto + totalOtrosCargos - totalIVADevuelto
   const totalOtrosCargos = r.totalOtrosCargos ?? 0;
   const totalIVADevuelto = r.totalIVADevuelto ?? 0;
-  const expectedTotalComprobante = round5(
-    r.totalVentaNeta + r.totalImpuesto + totalOtrosCargos - totalIVADevuelto,
-  );
+  const expectedTotalComprobante = sum5(r.totalVentaNeta, r.totalImpuesto, totalOtrosCargos)
+    .minus(totalIVADevuelto)
+    .round(DECIMAL_PLACES)
+    .toNumber();
   if (!amountsEqual(r.totalComprobante, expectedTotalComprobante)) {
     errors.push({
       path: "resumenFactura.totalComprobante",
@@ -248,6 +351,22 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
     });
   }
 
+  // Rule: Currency block consistency (CRC documents have tipoCambio 1)
+  if (r.codigoTipoMoneda) {
+    const { codigoMoneda, tipoCambio } = r.codigoTipoMoneda;
+    if (!/^[A-Z]{3}$/.test(codigoMoneda)) {
+      errors.push({
+        path: "resumenFactura.codigoTipoMoneda.codigoMoneda",
+        message: `codigoMoneda (${codigoMoneda}) must be an uppercase ISO 4217 code`,
+      });
+    } else if (codigoMoneda === CurrencyCode.CRC && tipoCambio !== 1) {
+      errors.push({
+        path: "resumenFactura.codigoTipoMoneda.tipoCambio",
+        message: `tipoCambio (${tipoCambio}) must be 1 for documents in colones (CRC)`,
+      });
+    }
+  }
+
   // Rule: plazoCredito required when condicionVenta is "02" (credit)
   if (input.condicionVenta === "02" && !input.plazoCredito) {
     errors.push({
@@ -259,6 +378,135 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
   return errors;
 }
 
+/**
+ * Validate that the referenced documents of a credit or debit note
+ * were emitted on or before the note itself.
+ */
+function validateReferenceRules(input: NotaCreditoElectronicaInput): DocumentValidationError[] {
+  const errors: DocumentValidationError[] = [];
+  const noteDate = Date.parse(input.fechaEmision);
+
+  input.informacionReferencia.forEach((ref, index) => {
+    const refDate = Date.parse(ref.fechaEmision);
+    if (!Number.isNaN(noteDate) && !Number.isNaN(refDate) && refDate > noteDate) {
+      errors.push({
+        path: `informacionReferencia.${index}.fechaEmision`,
+        message: `Referenced document date (${ref.fechaEmision}) must not be after the note's fechaEmision (${input.fechaEmision})`,
+      });
+    }
+  });
+
+  return errors;
+}
+
+/** Costa Rican national identification types, not allowed on an export receptor. */
+const NATIONAL_ID_TYPES: string[] = [
+  IdentificationType.CEDULA_FISICA,
+  IdentificationType.CEDULA_JURIDICA,
+];
+
+/**
+ * Validate CABYS codes against the catalog, when one is given.
+ */
+function validateCatalogRules(
+  input: CommercialDocumentInput,
+  options: DocumentValidationOptions,
+  checkRates = true,
+): DocumentValidationError[] {
+  return options.cabys
+    ? validateCabysCodes(input.detalleServicio, options.cabys, { checkRates })
+    : [];
+}
+
+/**
+ * Validate that an export invoice is addressed to a foreign receptor.
+ */
+function validateExportRules(input: FacturaElectronicaExportacionInput): DocumentValidationError[] {
+  const identificacion = input.receptor.identificacion;
+  if (identificacion && NATIONAL_ID_TYPES.includes(identificacion.tipo)) {
+    return [
+      {
+        path: "receptor.identificacion.tipo",
+        message: `Export receptor must be foreign; a Costa Rican cedula (type ${identificacion.tipo}) is not allowed — use identificacionExtranjero`,
+      },
+    ];
+  }
+  return [];
+}
+
+/** Document type code expected in numeroConsecutivoReceptor for each message code. */
+const MENSAJE_DOCUMENT_TYPES: Record<string, string> = {
+  [MensajeReceptorCode.ACEPTADO]: DocumentType.CONFIRMACION_ACEPTACION,
+  [MensajeReceptorCode.ACEPTADO_PARCIALMENTE]: DocumentType.CONFIRMACION_ACEPTACION_PARCIAL,
+  [MensajeReceptorCode.RECHAZADO]: DocumentType.CONFIRMACION_RECHAZO,
+};
+
+/**
+ * Validate Mensaje Receptor business rules:
+ * - detalleMensaje is required for partial acceptance and rejection
+ * - montoTotalImpuesto cannot exceed totalFactura
+ * - numeroConsecutivoReceptor carries the document type matching the message
+ */
+function validateMensajeReceptorRules(input: MensajeReceptorInput): DocumentValidationError[] {
+  const errors: DocumentValidationError[] = [];
+
+  if (input.mensaje !== MensajeReceptorCode.ACEPTADO && !input.detalleMensaje) {
+    errors.push({
+      path: "detalleMensaje",
+      message: `detalleMensaje is required when mensaje is "${input.mensaje}" (partial acceptance or rejection)`,
+    });
+  }
+
+  if (input.montoTotalImpuesto !== undefined && input.montoTotalImpuesto > input.totalFactura) {
+    errors.push({
+      path: "montoTotalImpuesto",
+      message: `montoTotalImpuesto (${input.montoTotalImpuesto}) cannot exceed totalFactura (${input.totalFactura})`,
+    });
+  }
+
+  // numeroConsecutivo: [branch:3][pos:5][docType:2][sequence:10]
+  const expectedType = MENSAJE_DOCUMENT_TYPES[input.mensaje];
+  const actualType = input.numeroConsecutivoReceptor.slice(8, 10);
+  if (expectedType && actualType !== expectedType) {
+    errors.push({
+      path: "numeroConsecutivoReceptor",
+      message: `numeroConsecutivoReceptor must use document type ${expectedType} for mensaje "${input.mensaje}", got ${actualType}`,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Run schema validation, then business rules (only if the schema passes).
+ */
+function validateInput<T>(
+  schema: z.ZodType<T>,
+  input: unknown,
+  rules: (data: T) => DocumentValidationError[],
+): DocumentValidationResult {
+  // Step 1: Zod schema validation
+  const parseResult = schema.safeParse(input);
+
+  if (!parseResult.success) {
+    // Convert Zod errors to our format
+    const errors = parseResult.error.issues.map((issue) => ({
+      path: issue.path.map(String).join("."),
+      message: issue.message,
+    }));
+
+    return { valid: false, errors };
+  }
+
+  // Step 2: Business rule validation (only if schema passes)
+  const errors = rules(parseResult.data);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -272,6 +520,7 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
  *    numbers, tax calculations, summary totals matching
  *
  * @param input - The factura input to validate (can be any unknown value).
+ * @param options - Optional checks, such as CABYS codes against the catalog.
  * @returns A result object indicating whether the input is valid,
  *   with detailed errors if not.
  *
@@ -283,30 +532,187 @@ function validateBusinessRules(input: FacturaElectronicaInput): FacturaValidatio
  * }
  * ```
  */
-export function validateFacturaInput(input: unknown): FacturaValidationResult {
-  const errors: FacturaValidationError[] = [];
+export function validateFacturaInput(
+  input: unknown,
+  options: DocumentValidationOptions = {},
+): FacturaValidationResult {
+  return validateInput(FacturaElectronicaSchema, input, (data) => [
+    ...validateBusinessRules(data),
+    ...validateCatalogRules(data, options),
+  ]);
+}
 
-  // Step 1: Zod schema validation
-  const parseResult = FacturaElectronicaSchema.safeParse(input);
+/**
+ * Validate a Tiquete Electronico input.
+ *
+ * Same rules as {@link validateFacturaInput}, but the receptor is optional.
+ *
+ * @param input - The tiquete input to validate.
+ * @param options - Optional checks, such as CABYS codes against the catalog.
+ * @returns A result object with detailed errors if invalid.
+ */
+export function validateTiqueteInput(
+  input: unknown,
+  options: DocumentValidationOptions = {},
+): DocumentValidationResult {
+  return validateInput(TiqueteElectronicoSchema, input, (data) => [
+    ...validateBusinessRules(data),
+    ...validateCatalogRules(data, options),
+  ]);
+}
 
-  if (!parseResult.success) {
-    // Convert Zod errors to our format
-    for (const issue of parseResult.error.issues) {
-      errors.push({
-        path: issue.path.map(String).join("."),
-        message: issue.message,
-      });
-    }
+/**
+ * Validate a Nota de Credito Electronica input.
+ *
+ * Requires at least one `informacionReferencia`, each dated on or
+ * before the note.
+ *
+ * @param input - The credit note input to validate.
+ * @param options - Optional checks, such as CABYS codes against the catalog.
+ * @returns A result object with detailed errors if invalid.
+ */
+export function validateNotaCreditoInput(
+  input: unknown,
+  options: DocumentValidationOptions = {},
+): DocumentValidationResult {
+  return validateInput(NotaCreditoElectronicaSchema, input, (data) => [
+    ...validateBusinessRules(data),
+    ...validateCatalogRules(data, options),
+    ...validateReferenceRules(data),
+  ]);
+}
 
-    return { valid: false, errors };
-  }
+/**
+ * Validate a Nota de Debito Electronica input.
+ *
+ * Requires at least one `informacionReferencia`, each dated on or
+ * before the note.
+ *
+ * @param input - The debit note input to validate.
+ * @param options - Optional checks, such as CABYS codes against the catalog.
+ * @returns A result object with detailed errors if invalid.
+ */
+export function validateNotaDebitoInput(
+  input: unknown,
+  options: DocumentValidationOptions = {},
+): DocumentValidationResult {
+  return validateInput(NotaDebitoElectronicaSchema, input, (data) => [
+    ...validateBusinessRules(data),
+    ...validateCatalogRules(data, options),
+    ...validateReferenceRules(data),
+  ]);
+}
 
-  // Step 2: Business rule validation (only if schema passes)
-  const businessErrors = validateBusinessRules(parseResult.data);
-  errors.push(...businessErrors);
+/**
+ * Validate a Factura Electronica de Compra input.
+ *
+ * The receptor (the registered buyer) must be identified.
+ *
+ * @param input - The purchase invoice input to validate.
+ * @param options - Optional checks, such as CABYS codes against the catalog.
+ * @returns A result object with detailed errors if invalid.
+ */
+export function validateFacturaCompraInput(
+  input: unknown,
+  options: DocumentValidationOptions = {},
+): DocumentValidationResult {
+  return validateInput(FacturaElectronicaCompraSchema, input, (data) => [
+    ...validateBusinessRules(data),
+    ...validateCatalogRules(data, options),
+  ]);
+}
 
-  return {
-    valid: errors.length === 0,
-    errors,
-  };
+/**
+ * Validate a Factura Electronica de Exportacion input.
+ *
+ * The receptor must be foreign: `identificacionExtranjero` is required
+ * and a Costa Rican cedula fisica/juridica is rejected.
+ *
+ * @param input - The export invoice input to validate.
+ * @param options - Optional checks; CABYS codes are checked but not their IVA rates.
+ * @returns A result object with detailed errors if invalid.
+ */
+export function validateFacturaExportacionInput(
+  input: unknown,
+  options: DocumentValidationOptions = {},
+): DocumentValidationResult {
+  return validateInput(FacturaElectronicaExportacionSchema, input, (data) => [
+    ...validateBusinessRules(data),
+    ...validateExportRules(data),
+    // Exports are exempt, whatever the code's default rate
+    ...validateCatalogRules(data, options, false),
+  ]);
+}
+
+/**
+ * Validate a Recibo Electronico de Pago input.
+ *
+ * @param input - The payment receipt input to validate.
+ * @param options - Optional checks, such as CABYS codes against the catalog.
+ * @returns A result object with detailed errors if invalid.
+ */
+export function validateReciboPagoInput(
+  input: unknown,
+  options: DocumentValidationOptions = {},
+): DocumentValidationResult {
+  return validateInput(ReciboElectronicoPagoSchema, input, (data) => [
+    ...validateBusinessRules(data),
+    ...validateCatalogRules(data, options),
+  ]);
+}
+
+/**
+ * Validate a Mensaje Receptor input.
+ *
+ * Requires a `detalleMensaje` for partial acceptance or rejection and a
+ * `numeroConsecutivoReceptor` whose document type matches the message.
+ *
+ * @param input - The receiver message input to validate.
+ * @returns A result object with detailed errors if invalid.
+ */
+export function validateMensajeReceptorInput(input: unknown): DocumentValidationResult {
+  return validateInput(MensajeReceptorSchema, input, validateMensajeReceptorRules);
+}
+
+/** Validator for each document type code. */
+const VALIDATORS: Record<
+  DocumentType,
+  (input: unknown, options?: DocumentValidationOptions) => DocumentValidationResult
+> = {
+  [DocumentType.FACTURA_ELECTRONICA]: validateFacturaInput,
+  [DocumentType.NOTA_DEBITO]: validateNotaDebitoInput,
+  [DocumentType.NOTA_CREDITO]: validateNotaCreditoInput,
+  [DocumentType.TIQUETE_ELECTRONICO]: validateTiqueteInput,
+  [DocumentType.CONFIRMACION_ACEPTACION]: validateMensajeReceptorInput,
+  [DocumentType.CONFIRMACION_ACEPTACION_PARCIAL]: validateMensajeReceptorInput,
+  [DocumentType.CONFIRMACION_RECHAZO]: validateMensajeReceptorInput,
+  [DocumentType.FACTURA_COMPRA]: validateFacturaCompraInput,
+  [DocumentType.FACTURA_EXPORTACION]: validateFacturaExportacionInput,
+  [DocumentType.RECIBO_ELECTRONICO_PAGO]: validateReciboPagoInput,
+};
+
+/**
+ * Validate an input against the rules for the given document type.
+ *
+ * @param documentType - Document type code (01-10; 05-07 are Mensaje Receptor).
+ * @param input - The document input to validate.
+ * @param options - Optional checks, such as CABYS codes against the catalog.
+ * @returns A result object with detailed errors if invalid.
+ *
+ * @example
+ * ```ts
+ * const result = validateDocumentInput(DocumentType.NOTA_CREDITO, nota);
+ *
+ * // Also check CABYS codes and rates against the local catalog
+ * const checked = validateDocumentInput(DocumentType.FACTURA_ELECTRONICA, factura, {
+ *   cabys: await loadCabysCatalog(),
+ * });
+ * ```
+ */
+export function validateDocumentInput(
+  documentType: DocumentType,
+  input: unknown,
+  options: DocumentValidationOptions = {},
+): DocumentValidationResult {
+  return VALIDATORS[documentType](input, options);
 }
@@ -45,3 +45,6 @@ export const ECONOMIC_ACTIVITY_API_URL = "https://api.hacienda.go.cr/fe/ae" as c
 
 /** Costa Rica country code used in clave numerica. */
 export const COUNTRY_CODE = "506" as const;
+
+/** Costa Rica's fixed UTC offset in minutes (UTC-6, no daylight saving time). */
+export const COSTA_RICA_UTC_OFFSET_MINUTES = -6 * 60;
@@ -13,6 +13,7 @@ export {
   IDP_LOGOUT_URLS,
   ECONOMIC_ACTIVITY_API_URL,
   COUNTRY_CODE,
+  COSTA_RICA_UTC_OFFSET_MINUTES,
 } from "./environments.js";
 
 export {
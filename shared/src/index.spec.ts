@@ -19,6 +19,7 @@ import {
   XADES_POLICY_HASH,
   CurrencyCode,
   COUNTRY_CODE,
+  COSTA_RICA_UTC_OFFSET_MINUTES,
   SituationCode,
   MensajeReceptorCode,
   // Types (runtime values)
@@ -52,6 +53,10 @@ describe("@dojocoding/hacienda-shared", () => {
     it("should have Costa Rica country code", () => {
       expect(COUNTRY_CODE).toBe("506");
     });
+
+    it("should have Costa Rica's UTC offset", () => {
+      expect(COSTA_RICA_UTC_OFFSET_MINUTES).toBe(-360);
+    });
   });
 
   describe("Document type codes", () => {
@@ -0,0 +1,18 @@
+/**
+ * Zod schema for Factura Electronica de Compra (purchase invoice) input validation.
+ */
+
+import type { z } from "zod";
+import { IdentificacionSchema } from "./identification.js";
+import { ReceptorSchema } from "./receptor.js";
+import { FacturaElectronicaSchema } from "./factura.js";
+
+/** Schema for a full Factura Electronica de Compra input. */
+export const FacturaElectronicaCompraSchema = FacturaElectronicaSchema.extend({
+  /** Receiver information — the registered buyer issuing the document. Identification required. */
+  receptor: ReceptorSchema.extend({
+    identificacion: IdentificacionSchema,
+  }),
+});
+
+export type FacturaElectronicaCompraInput = z.infer<typeof FacturaElectronicaCompraSchema>;
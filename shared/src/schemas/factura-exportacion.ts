@@ -0,0 +1,19 @@
+/**
+ * Zod schema for Factura Electronica de Exportacion (export invoice) input validation.
+ */
+
+import { z } from "zod";
+import { ReceptorSchema } from "./receptor.js";
+import { FacturaElectronicaSchema } from "./factura.js";
+
+/** Schema for a full Factura Electronica de Exportacion input. */
+export const FacturaElectronicaExportacionSchema = FacturaElectronicaSchema.extend({
+  /** Receiver information — a foreign buyer. Foreign identification required. */
+  receptor: ReceptorSchema.extend({
+    identificacionExtranjero: z.string().min(1).max(20),
+  }),
+});
+
+export type FacturaElectronicaExportacionInput = z.infer<
+  typeof FacturaElectronicaExportacionSchema
+>;
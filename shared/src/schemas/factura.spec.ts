@@ -1,5 +1,11 @@
 import { describe, it, expect } from "vitest";
 import { FacturaElectronicaSchema, ResumenFacturaSchema } from "./factura.js";
+import { FacturaElectronicaCompraSchema } from "./factura-compra.js";
+import { FacturaElectronicaExportacionSchema } from "./factura-exportacion.js";
+import { NotaCreditoElectronicaSchema } from "./nota-credito.js";
+import { NotaDebitoElectronicaSchema } from "./nota-debito.js";
+import { ReciboElectronicoPagoSchema } from "./recibo-pago.js";
+import { TiqueteElectronicoSchema } from "./tiquete.js";
 
 const validFactura = {
   clave: "50601072500012345678900100001010000000001199999999",
@@ -216,3 +222,80 @@ describe("ResumenFacturaSchema", () => {
     expect(result.success).toBe(true);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Schemas derived from Factura
+// ---------------------------------------------------------------------------
+
+const reference = {
+  tipoDoc: "01",
+  numero: "50601072500012345678900100001010000000001199999998",
+  fechaEmision: "2025-07-20T10:30:00-06:00",
+  codigo: "01" as const,
+  razon: "Corrección de monto",
+};
+
+describe("TiqueteElectronicoSchema", () => {
+  it("should accept a tiquete without receptor", () => {
+    const { receptor: _receptor, ...tiquete } = validFactura;
+    expect(TiqueteElectronicoSchema.safeParse(tiquete).success).toBe(true);
+  });
+
+  it("should accept a tiquete with receptor", () => {
+    expect(TiqueteElectronicoSchema.safeParse(validFactura).success).toBe(true);
+  });
+});
+
+describe.each([
+  ["NotaCreditoElectronicaSchema", NotaCreditoElectronicaSchema],
+  ["NotaDebitoElectronicaSchema", NotaDebitoElectronicaSchema],
+] as const)("%s", (_name, schema) => {
+  it("should accept a note with a reference", () => {
+    const result = schema.safeParse({ ...validFactura, informacionReferencia: [reference] });
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject a note without informacionReferencia", () => {
+    expect(schema.safeParse(validFactura).success).toBe(false);
+    expect(schema.safeParse({ ...validFactura, informacionReferencia: [] }).success).toBe(false);
+  });
+});
+
+describe("FacturaElectronicaCompraSchema", () => {
+  it("should accept a purchase invoice with an identified receptor", () => {
+    expect(FacturaElectronicaCompraSchema.safeParse(validFactura).success).toBe(true);
+  });
+
+  it("should reject a receptor without identificacion", () => {
+    const result = FacturaElectronicaCompraSchema.safeParse({
+      ...validFactura,
+      receptor: { nombre: "Comprador" },
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("FacturaElectronicaExportacionSchema", () => {
+  it("should accept a foreign receptor", () => {
+    const result = FacturaElectronicaExportacionSchema.safeParse({
+      ...validFactura,
+      receptor: { nombre: "Acme Corp USA", identificacionExtranjero: "US-EIN-12-3456789" },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject a receptor without identificacionExtranjero", () => {
+    expect(FacturaElectronicaExportacionSchema.safeParse(validFactura).success).toBe(false);
+  });
+});
+
+describe("ReciboElectronicoPagoSchema", () => {
+  it("should accept a valid recibo", () => {
+    expect(ReciboElectronicoPagoSchema.safeParse(validFactura).success).toBe(true);
+  });
+
+  it("should require a receptor", () => {
+    const { receptor: _receptor, ...recibo } = validFactura;
+    expect(ReciboElectronicoPagoSchema.safeParse(recibo).success).toBe(false);
+  });
+});
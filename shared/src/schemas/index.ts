@@ -24,11 +24,13 @@ export { ReceptorSchema, type ReceptorInput } from "./receptor.js";
 export {
   CodigoComercialSchema,
   ExoneracionSchema,
+  DatosImpuestoEspecificoSchema,
   ImpuestoSchema,
   DescuentoSchema,
   LineaDetalleSchema,
   type CodigoComercialInput,
   type ExoneracionInput,
+  type DatosImpuestoEspecificoInput,
   type ImpuestoInput,
   type DescuentoInput,
   type LineaDetalleInput,
@@ -52,6 +54,26 @@ export {
   type FacturaElectronicaInput,
 } from "./factura.js";
 
+export { TiqueteElectronicoSchema, type TiqueteElectronicoInput } from "./tiquete.js";
+
+export { NotaCreditoElectronicaSchema, type NotaCreditoElectronicaInput } from "./nota-credito.js";
+
+export { NotaDebitoElectronicaSchema, type NotaDebitoElectronicaInput } from "./nota-debito.js";
+
+export {
+  FacturaElectronicaCompraSchema,
+  type FacturaElectronicaCompraInput,
+} from "./factura-compra.js";
+
+export {
+  FacturaElectronicaExportacionSchema,
+  type FacturaElectronicaExportacionInput,
+} from "./factura-exportacion.js";
+
+export { ReciboElectronicoPagoSchema, type ReciboElectronicoPagoInput } from "./recibo-pago.js";
+
+export { MensajeReceptorSchema, type MensajeReceptorInput } from "./mensaje-receptor.js";
+
 export {
   EnvironmentSchema,
   CredentialConfigSchema,
@@ -172,6 +172,27 @@ describe("ImpuestoSchema", () => {
     expect(result.success).toBe(true);
   });
 
+  it("should accept a specific tax with per-unit data", () => {
+    const result = ImpuestoSchema.safeParse({
+      codigo: "03",
+      tarifa: 0,
+      datosImpuestoEspecifico: { cantidadUnidadMedida: 40, impuestoUnidad: 265.75 },
+      monto: 10630,
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject a used-goods factor above 1", () => {
+    const result = ImpuestoSchema.safeParse({
+      codigo: "08",
+      codigoTarifa: "08",
+      tarifa: 13,
+      factorCalculoIva: 13,
+      monto: 1300,
+    });
+    expect(result.success).toBe(false);
+  });
+
   it("should reject invalid tax code", () => {
     const result = ImpuestoSchema.safeParse({
       codigo: "15",
@@ -48,6 +48,23 @@ export const ExoneracionSchema = z.object({
 
 export type ExoneracionInput = z.infer<typeof ExoneracionSchema>;
 
+/** Schema for specific-tax data (DatosImpuestoEspecifico). */
+export const DatosImpuestoEspecificoSchema = z.object({
+  /** Units of measure per item. Optional. */
+  cantidadUnidadMedida: z.number().positive().optional(),
+
+  /** Alcohol content percentage (0-100). Optional. */
+  porcentaje: z.number().min(0).max(100).optional(),
+
+  /** Volume per consumption unit in milliliters. Optional. */
+  volumenUnidadConsumo: z.number().positive().optional(),
+
+  /** Tax amount per taxed unit. */
+  impuestoUnidad: z.number().min(0),
+});
+
+export type DatosImpuestoEspecificoInput = z.infer<typeof DatosImpuestoEspecificoSchema>;
+
 /** Schema for tax (Impuesto). */
 export const ImpuestoSchema = z.object({
   /** Tax type code. */
@@ -81,6 +98,12 @@ export const ImpuestoSchema = z.object({
   /** Tax rate percentage. */
   tarifa: z.number().min(0),
 
+  /** IVA factor for the used-goods regime (code 08). Optional. */
+  factorCalculoIva: z.number().min(0).max(1).optional(),
+
+  /** Per-unit tax data for specific taxes. Optional. */
+  datosImpuestoEspecifico: DatosImpuestoEspecificoSchema.optional(),
+
   /** Tax amount. */
   monto: z.number().min(0),
 
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { MensajeReceptorSchema } from "./mensaje-receptor.js";
+
+const validMensaje = {
+  clave: "50601072500031012345670010000101000000000119999999",
+  numeroCedulaEmisor: "3101234567",
+  fechaEmisionDoc: "2025-07-27T10:30:00-06:00",
+  mensaje: "1" as const,
+  totalFactura: 113000,
+  numeroCedulaReceptor: "3109876543",
+  numeroConsecutivoReceptor: "00100001050000000001",
+};
+
+describe("MensajeReceptorSchema", () => {
+  it("should accept a minimal message", () => {
+    expect(MensajeReceptorSchema.safeParse(validMensaje).success).toBe(true);
+  });
+
+  it("should accept a message with all optional fields", () => {
+    const result = MensajeReceptorSchema.safeParse({
+      ...validMensaje,
+      detalleMensaje: "Documento aceptado totalmente",
+      montoTotalImpuesto: 13000,
+      codigoActividad: "620100",
+      condicionImpuesto: "01",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject an invalid message code", () => {
+    const result = MensajeReceptorSchema.safeParse({ ...validMensaje, mensaje: "4" });
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject a short clave", () => {
+    const result = MensajeReceptorSchema.safeParse({ ...validMensaje, clave: "506" });
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject non-numeric identification numbers", () => {
+    const result = MensajeReceptorSchema.safeParse({
+      ...validMensaje,
+      numeroCedulaReceptor: "31-0987-6543",
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject a detalleMensaje longer than 160 chars", () => {
+    const result = MensajeReceptorSchema.safeParse({
+      ...validMensaje,
+      detalleMensaje: "x".repeat(161),
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject a negative totalFactura", () => {
+    const result = MensajeReceptorSchema.safeParse({ ...validMensaje, totalFactura: -1 });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Zod schema for Mensaje Receptor (receiver acknowledgment) input validation.
+ */
+
+import { z } from "zod";
+import { MensajeReceptorCode } from "../constants/index.js";
+
+/** Schema for a Mensaje Receptor input. */
+export const MensajeReceptorSchema = z.object({
+  /** 50-digit clave of the document being acknowledged. */
+  clave: z
+    .string()
+    .length(50)
+    .regex(/^\d{50}$/),
+
+  /** Identification number of the original document's issuer. */
+  numeroCedulaEmisor: z.string().regex(/^\d{9,12}$/, "Must be 9 to 12 digits"),
+
+  /** Emission date of the acknowledgment (ISO 8601 with timezone). */
+  fechaEmisionDoc: z.string().min(1),
+
+  /** Message code (1=accepted, 2=partially accepted, 3=rejected). */
+  mensaje: z.enum([
+    MensajeReceptorCode.ACEPTADO,
+    MensajeReceptorCode.ACEPTADO_PARCIALMENTE,
+    MensajeReceptorCode.RECHAZADO,
+  ]),
+
+  /** Detail message / reason. Optional, max 160 chars. */
+  detalleMensaje: z.string().min(1).max(160).optional(),
+
+  /** Total tax amount of the referenced document. Optional. */
+  montoTotalImpuesto: z.number().min(0).optional(),
+
+  /** CABYS activity code. Optional. */
+  codigoActividad: z
+    .string()
+    .regex(/^\d{6}$/, "Activity code must be 6 digits")
+    .optional(),
+
+  /** Tax condition code. Optional. */
+  condicionImpuesto: z.enum(["01", "02", "03", "04", "05"]).optional(),
+
+  /** IVA the receiver credits from the document. Optional. */
+  montoTotalImpuestoAcreditable: z.number().min(0).optional(),
+
+  /** Amount the receiver books as expense. Optional. */
+  montoTotalDeGastoAplicable: z.number().min(0).optional(),
+
+  /** Total amount of the referenced document. */
+  totalFactura: z.number().min(0),
+
+  /** Identification number of the receiver sending the message. */
+  numeroCedulaReceptor: z.string().regex(/^\d{9,12}$/, "Must be 9 to 12 digits"),
+
+  /** Sequential number of this message (20 digits). */
+  numeroConsecutivoReceptor: z
+    .string()
+    .length(20)
+    .regex(/^\d{20}$/),
+});
+
+export type MensajeReceptorInput = z.infer<typeof MensajeReceptorSchema>;
@@ -0,0 +1,14 @@
+/**
+ * Zod schema for Nota de Credito Electronica (credit note) input validation.
+ */
+
+import { z } from "zod";
+import { FacturaElectronicaSchema, InformacionReferenciaSchema } from "./factura.js";
+
+/** Schema for a full Nota de Credito Electronica input. */
+export const NotaCreditoElectronicaSchema = FacturaElectronicaSchema.extend({
+  /** References to the original document(s) being credited. At least one required. */
+  informacionReferencia: z.array(InformacionReferenciaSchema).min(1),
+});
+
+export type NotaCreditoElectronicaInput = z.infer<typeof NotaCreditoElectronicaSchema>;
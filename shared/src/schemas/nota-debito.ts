@@ -0,0 +1,14 @@
+/**
+ * Zod schema for Nota de Debito Electronica (debit note) input validation.
+ */
+
+import { z } from "zod";
+import { FacturaElectronicaSchema, InformacionReferenciaSchema } from "./factura.js";
+
+/** Schema for a full Nota de Debito Electronica input. */
+export const NotaDebitoElectronicaSchema = FacturaElectronicaSchema.extend({
+  /** References to the original document(s) being debited. At least one required. */
+  informacionReferencia: z.array(InformacionReferenciaSchema).min(1),
+});
+
+export type NotaDebitoElectronicaInput = z.infer<typeof NotaDebitoElectronicaSchema>;
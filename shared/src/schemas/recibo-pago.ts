@@ -0,0 +1,11 @@
+/**
+ * Zod schema for Recibo Electronico de Pago (payment receipt) input validation.
+ */
+
+import type { z } from "zod";
+import { FacturaElectronicaSchema } from "./factura.js";
+
+/** Schema for a full Recibo Electronico de Pago input. Same structure as Factura. */
+export const ReciboElectronicoPagoSchema = FacturaElectronicaSchema;
+
+export type ReciboElectronicoPagoInput = z.infer<typeof ReciboElectronicoPagoSchema>;
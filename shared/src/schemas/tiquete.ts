@@ -0,0 +1,15 @@
+/**
+ * Zod schema for Tiquete Electronico (simplified receipt) input validation.
+ */
+
+import type { z } from "zod";
+import { ReceptorSchema } from "./receptor.js";
+import { FacturaElectronicaSchema } from "./factura.js";
+
+/** Schema for a full Tiquete Electronico input. */
+export const TiqueteElectronicoSchema = FacturaElectronicaSchema.extend({
+  /** Receiver information. Optional for Tiquete (anonymous sales). */
+  receptor: ReceptorSchema.optional(),
+});
+
+export type TiqueteElectronicoInput = z.infer<typeof TiqueteElectronicoSchema>;
@@ -33,6 +33,12 @@ export interface SubmissionRequest {
 
   /** Optional callback URL for async status notifications. */
   callbackUrl?: string;
+
+  /**
+   * Receiver's 20-digit consecutive number. Required when submitting a
+   * MensajeReceptor, which Hacienda tracks as `{clave}-{consecutivoReceptor}`.
+   */
+  consecutivoReceptor?: string;
 }
 
 /** Response from a successful document submission (HTTP 201/202). */
@@ -187,6 +193,36 @@ export interface ActividadEconomica {
 
   /** Whether this activity is currently active. */
   estado: string;
+
+  /** Activity type: "P" (primary) or "S" (secondary). */
+  tipo?: string;
+}
+
+/** Tax regime a taxpayer is registered under. */
+export interface RegimenTributario {
+  /** Regime code. */
+  codigo: number | string;
+
+  /** Regime description (e.g. "Régimen General"). */
+  descripcion: string;
+}
+
+/** Standing of a taxpayer with the tax administration. */
+export interface SituacionTributaria {
+  /** "SI" when the taxpayer has overdue tax debts. */
+  moroso: string;
+
+  /** "SI" when the taxpayer has missing tax returns. */
+  omiso: string;
+
+  /** Registration status (e.g. "Inscrito", "Inscrito de Oficio", "Desinscrito"). */
+  estado: string;
+
+  /** Tax administration office in charge. */
+  administracionTributaria?: string;
+
+  /** Additional notice, if any. */
+  mensaje?: string;
 }
 
 /** Response from the economic activity lookup endpoint. */
@@ -197,6 +233,12 @@ export interface ActividadEconomicaResponse {
   /** Taxpayer identification. */
   tipoIdentificacion: string;
 
+  /** Tax regime. */
+  regimen?: RegimenTributario;
+
+  /** Standing with the tax administration. */
+  situacion?: SituacionTributaria;
+
   /** Economic activities registered. */
   actividades: ActividadEconomica[];
 }
@@ -130,6 +130,24 @@ export interface Exoneracion {
   montoExoneracion: number;
 }
 
+/**
+ * Specific-tax data (DatosImpuestoEspecifico) for taxes charged per unit
+ * rather than as a percentage (combustibles, bebidas, tabaco, cemento).
+ */
+export interface DatosImpuestoEspecifico {
+  /** Units of measure per item (e.g., liters, kilograms, cigarettes). Optional. */
+  cantidadUnidadMedida?: number;
+
+  /** Alcohol content percentage (bebidas alcohólicas). Optional. */
+  porcentaje?: number;
+
+  /** Volume per consumption unit in milliliters. Optional. */
+  volumenUnidadConsumo?: number;
+
+  /** Tax amount per taxed unit. */
+  impuestoUnidad: number;
+}
+
 /** Tax applied to a line item (Impuesto). */
 export interface Impuesto {
   /** Tax type code. */
@@ -141,6 +159,12 @@ export interface Impuesto {
   /** Tax rate percentage. */
   tarifa: number;
 
+  /** IVA factor for the used-goods regime (code 08). Optional. */
+  factorCalculoIva?: number;
+
+  /** Per-unit tax data for specific taxes. Optional. */
+  datosImpuestoEspecifico?: DatosImpuestoEspecifico;
+
   /** Taxable base amount (MontoImpuesto = monto * tarifa / 100). */
   monto: number;
 
@@ -453,6 +477,12 @@ export interface MensajeReceptor {
   /** Condition of the tax: accepted, not applicable, etc. */
   condicionImpuesto?: string;
 
+  /** IVA the receiver credits from the document (MontoTotalImpuestoAcreditable). */
+  montoTotalImpuestoAcreditable?: number;
+
+  /** Amount the receiver books as expense (MontoTotalDeGastoAplicable). */
+  montoTotalDeGastoAplicable?: number;
+
   /** Total invoice amount of the referenced document. */
   totalFactura: number;
 
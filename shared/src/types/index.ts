@@ -12,6 +12,7 @@ export type {
   Emisor,
   Receptor,
   Exoneracion,
+  DatosImpuestoEspecifico,
   Impuesto,
   Descuento,
   CodigoComercial,
@@ -43,6 +44,8 @@ export type {
   ComprobanteDetail,
   ActividadEconomica,
   ActividadEconomicaResponse,
+  RegimenTributario,
+  SituacionTributaria,
   TokenResponse,
 } from "./api.js";
 export { HaciendaStatus } from "./api.js";